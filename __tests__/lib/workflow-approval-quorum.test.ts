@@ -0,0 +1,168 @@
+/**
+ * Approval quorum tests
+ * Run with: npx tsx __tests__/lib/workflow-approval-quorum.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  evaluateApprovalQuorum,
+  getApprovalQuorumSettings,
+  ApprovalQuorumSettings,
+  ApprovalVote,
+} from '../../lib/workflow-approval-quorum';
+
+const approvers = ['alice', 'bob', 'carol', 'dave'];
+
+let clock = 0;
+function vote(approverUserId: string, decision: 'approved' | 'rejected'): ApprovalVote {
+  clock += 1000;
+  return { approverUserId, decision, createdAt: new Date(Date.UTC(2026, 0, 1) + clock).toISOString() };
+}
+
+const twoOfFour: ApprovalQuorumSettings = { mode: 'n_of_m', requiredApprovals: 2, rejectOnAnyRejection: false };
+const threeOfFour: ApprovalQuorumSettings = { mode: 'n_of_m', requiredApprovals: 3, rejectOnAnyRejection: false };
+const allMustApprove: ApprovalQuorumSettings = { mode: 'all', requiredApprovals: 1, rejectOnAnyRejection: false };
+const anyRejectionRejects: ApprovalQuorumSettings = { mode: 'n_of_m', requiredApprovals: 2, rejectOnAnyRejection: true };
+
+test('settings default to single-decision approvals', () => {
+  assert.deepEqual(getApprovalQuorumSettings({ node_type: 'approval', settings: {} }), {
+    mode: 'single',
+    requiredApprovals: 1,
+    rejectOnAnyRejection: true,
+  });
+  assert.deepEqual(
+    getApprovalQuorumSettings({
+      node_type: 'approval',
+      settings: { approval_quorum_mode: 'n_of_m', required_approvals: 3, reject_on_any_rejection: false },
+    }),
+    { mode: 'n_of_m', requiredApprovals: 3, rejectOnAnyRejection: false }
+  );
+});
+
+test('stays pending until N approvals arrive', () => {
+  const pending = evaluateApprovalQuorum(twoOfFour, [vote('alice', 'approved')], approvers);
+  assert.equal(pending.status, 'pending');
+  assert.equal(pending.outstanding, 3);
+
+  const approved = evaluateApprovalQuorum(twoOfFour, [vote('alice', 'approved'), vote('bob', 'approved')], approvers);
+  assert.equal(approved.status, 'approved');
+  assert.equal(approved.resolvingVote?.approverUserId, 'bob');
+});
+
+test('all-must-approve needs every approver in the pool', () => {
+  const votes = [vote('alice', 'approved'), vote('bob', 'approved'), vote('carol', 'approved')];
+  assert.equal(evaluateApprovalQuorum(allMustApprove, votes, approvers).status, 'pending');
+  assert.equal(evaluateApprovalQuorum(allMustApprove, [...votes, vote('dave', 'approved')], approvers).status, 'approved');
+});
+
+test('any rejection rejects when configured', () => {
+  const result = evaluateApprovalQuorum(anyRejectionRejects, [vote('alice', 'approved'), vote('bob', 'rejected')], approvers);
+  assert.equal(result.status, 'rejected');
+  assert.equal(result.resolvingVote?.approverUserId, 'bob');
+});
+
+test('without reject-on-any, a rejection only rejects once the quorum is out of reach', () => {
+  const oneRejection = evaluateApprovalQuorum(threeOfFour, [vote('alice', 'rejected')], approvers);
+  assert.equal(oneRejection.status, 'pending');
+
+  const twoRejections = evaluateApprovalQuorum(threeOfFour, [vote('alice', 'rejected'), vote('bob', 'rejected')], approvers);
+  assert.equal(twoRejections.status, 'rejected');
+});
+
+test('ties: an even split resolves by whether the required approvals were reached', () => {
+  // 2 approve, 2 reject: enough for 2 of 4 ...
+  const split = [vote('alice', 'approved'), vote('bob', 'rejected'), vote('carol', 'rejected'), vote('dave', 'approved')];
+  const twoNeeded = evaluateApprovalQuorum(twoOfFour, split, approvers);
+  assert.equal(twoNeeded.status, 'approved');
+  assert.equal(twoNeeded.approvals, 2);
+  assert.equal(twoNeeded.rejections, 2);
+
+  // ... but 3 of 4 becomes unreachable as soon as the second rejection lands
+  const threeNeeded = evaluateApprovalQuorum(threeOfFour, split, approvers);
+  assert.equal(threeNeeded.status, 'rejected');
+  assert.equal(threeNeeded.resolvingVote?.approverUserId, 'carol');
+});
+
+test('ties: 1-1 with votes outstanding stays pending', () => {
+  const result = evaluateApprovalQuorum(twoOfFour, [vote('alice', 'approved'), vote('bob', 'rejected')], approvers);
+  assert.equal(result.status, 'pending');
+  assert.equal(result.outstanding, 2);
+});
+
+test('late votes after resolution are set aside and do not change the outcome', () => {
+  const votes = [vote('alice', 'approved'), vote('bob', 'approved'), vote('carol', 'rejected')];
+  const result = evaluateApprovalQuorum(anyRejectionRejects, votes, approvers);
+  assert.equal(result.status, 'approved');
+  assert.equal(result.rejections, 0);
+  assert.deepEqual(result.lateVotes.map((v) => v.approverUserId), ['carol']);
+});
+
+test('late votes are judged by time, not by the order they are loaded in', () => {
+  const first = vote('alice', 'rejected');
+  const second = vote('bob', 'approved');
+  const result = evaluateApprovalQuorum(anyRejectionRejects, [second, first], approvers);
+  assert.equal(result.status, 'rejected');
+  assert.deepEqual(result.lateVotes.map((v) => v.approverUserId), ['bob']);
+});
+
+test('duplicate votes are ignored', () => {
+  const result = evaluateApprovalQuorum(
+    twoOfFour,
+    [vote('alice', 'approved'), vote('alice', 'approved')],
+    approvers
+  );
+  assert.equal(result.status, 'pending');
+  assert.equal(result.approvals, 1);
+  assert.deepEqual(result.ignoredVotes.map((v) => v.approverUserId), ['alice']);
+});
+
+test('approver removal mid-vote keeps the vote they already cast', () => {
+  const votes = [vote('alice', 'approved'), vote('bob', 'approved')];
+  // Bob leaves the role before the quorum was evaluated again
+  const result = evaluateApprovalQuorum(threeOfFour, votes, ['alice', 'carol', 'dave']);
+  assert.equal(result.approvals, 2);
+  assert.equal(result.status, 'pending');
+  assert.equal(result.outstanding, 2);
+  assert.deepEqual(result.ignoredVotes, []);
+});
+
+test('a vote from outside the approver pool counts once and does not override the quorum', () => {
+  // e.g. a superadmin who doesn't hold the role
+  const result = evaluateApprovalQuorum(threeOfFour, [vote('alice', 'approved'), vote('root', 'approved')], approvers);
+  assert.equal(result.status, 'pending');
+  assert.equal(result.approvals, 2);
+  assert.equal(result.eligibleCount, 5);
+});
+
+test('approver removal mid-vote shrinks the all-must-approve pool', () => {
+  const votes = [vote('alice', 'approved'), vote('bob', 'approved'), vote('carol', 'approved')];
+  // Dave is removed from the role - everyone left has approved
+  const result = evaluateApprovalQuorum(allMustApprove, votes, ['alice', 'bob', 'carol']);
+  assert.equal(result.required, 3);
+  assert.equal(result.status, 'approved');
+  assert.equal(result.resolvingVote?.approverUserId, 'carol');
+});
+
+test('approver removal that puts the quorum out of reach leaves it pending', () => {
+  const votes = [vote('alice', 'approved')];
+  // Only alice and bob remain, but 3 approvals are required
+  const result = evaluateApprovalQuorum(threeOfFour, votes, ['alice', 'bob']);
+  assert.equal(result.status, 'pending');
+  assert.equal(result.unreachable, true);
+  assert.equal(result.outstanding, 1);
+});
+
+test('a rejection still rejects a quorum that is out of reach', () => {
+  const result = evaluateApprovalQuorum(threeOfFour, [vote('alice', 'approved'), vote('bob', 'rejected')], ['alice', 'bob']);
+  assert.equal(result.status, 'rejected');
+  assert.equal(result.unreachable, false);
+  assert.equal(result.resolvingVote?.approverUserId, 'bob');
+});
+
+test('an empty approver pool never resolves on its own', () => {
+  const result = evaluateApprovalQuorum(allMustApprove, [vote('alice', 'approved')], []);
+  assert.equal(result.status, 'pending');
+  // Alice's vote keeps her in the pool even though she no longer holds the role
+  assert.equal(result.eligibleCount, 1);
+});
@@ -0,0 +1,221 @@
+/**
+ * Parallel fork / join tests
+ * Run with: npx tsx __tests__/lib/workflow-parallel-branches.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Node, Edge } from '@xyflow/react';
+import type { WorkflowNodeData } from '../../components/workflow-editor/workflow-node';
+import {
+  extractFlowId,
+  extractParentBranch,
+  generateBranchId,
+  selectParallelSiblingSteps,
+  selectUnfinishedJoinBranchSteps,
+} from '../../lib/workflow-execution-service';
+import { evaluateJoin, formatJoinPolicy, getJoinPolicySettings } from '../../lib/workflow-join-policy';
+import { advanceSimulation, buildSimulationModel, startSimulation, SimulationState } from '../../lib/workflow-simulation';
+import { validateParallelPaths } from '../../lib/workflow-validation';
+
+function node(id: string, type: WorkflowNodeData['type'], config: WorkflowNodeData['config'] = {}): Node<WorkflowNodeData> {
+  return { id, type: 'workflowNode', position: { x: 0, y: 0 }, data: { label: id, type, config } };
+}
+
+function edge(source: string, target: string, decision?: string): Edge {
+  return {
+    id: `${source}->${target}`,
+    source,
+    target,
+    data: decision ? { label: decision, conditionValue: decision, conditionType: 'approval_decision', decision } : {},
+  };
+}
+
+// brief -> fork -> (design -> review) + copy -> join -> end, review rejections go back to brief
+function designAndCopyWorkflow(joinConfig: WorkflowNodeData['config'] = {}) {
+  const nodes = [
+    node('start', 'start'),
+    node('brief', 'role', { roleId: 'pm' }),
+    node('fork', 'fork'),
+    node('design', 'role', { roleId: 'designer' }),
+    node('review', 'approval', { approverRoleId: 'lead' }),
+    node('copy', 'role', { roleId: 'writer' }),
+    node('join', 'sync', joinConfig),
+    node('end', 'end'),
+  ];
+  const edges = [
+    edge('start', 'brief'),
+    edge('brief', 'fork'),
+    edge('fork', 'design'),
+    edge('fork', 'copy'),
+    edge('design', 'review'),
+    edge('review', 'join', 'approved'),
+    edge('review', 'brief', 'rejected'),
+    edge('copy', 'join'),
+    edge('join', 'end'),
+  ];
+  return { nodes, edges };
+}
+
+function run(nodes: Node<WorkflowNodeData>[], edges: Edge[]) {
+  const model = buildSimulationModel(nodes, edges);
+  const started = startSimulation(model);
+  assert.ok(started.state, started.error);
+  return { model, state: started.state };
+}
+
+function activeAt(state: SimulationState, nodeId: string) {
+  const step = state.steps.find((s) => s.node_id === nodeId && s.status === 'active');
+  assert.ok(step, `expected an active step at ${nodeId}`);
+  return step;
+}
+
+function statusesAt(state: SimulationState, nodeId: string): string[] {
+  return state.steps.filter((s) => s.node_id === nodeId).map((s) => s.status);
+}
+
+test('branch ids nest and keep their flow', () => {
+  const outer = generateBranchId('main', 1, 'abc');
+  const inner = generateBranchId(outer, 0, 'xyz');
+
+  assert.equal(outer, 'main-1_abc');
+  assert.equal(inner, 'main-1_abc-0_xyz');
+  assert.equal(extractFlowId(inner), 'xyz');
+  assert.equal(extractParentBranch(inner), outer);
+  assert.equal(extractParentBranch(outer), 'main');
+  assert.equal(extractParentBranch('main'), 'main');
+});
+
+test('rejection cancels same-flow siblings and waiting join steps only', () => {
+  const steps = [
+    { id: 'rejecting', branch_id: 'main-0_f1', status: 'active' },
+    { id: 'sibling', branch_id: 'main-1_f1', status: 'active' },
+    { id: 'waiting-at-join', branch_id: 'main-2_f1', status: 'waiting' },
+    { id: 'nested-in-sibling', branch_id: 'main-1_f1-0_f2', status: 'active' },
+    { id: 'stale-flow', branch_id: 'main-1_f0', status: 'active' },
+    { id: 'stale-waiting', branch_id: 'main-1_f0', status: 'waiting' },
+  ];
+
+  const cancelled = selectParallelSiblingSteps(steps, 'main-0_f1', 'rejecting').map((s) => s.id);
+
+  assert.ok(cancelled.includes('sibling'));
+  assert.ok(cancelled.includes('waiting-at-join'));
+  assert.ok(!cancelled.includes('rejecting'));
+  assert.ok(!cancelled.includes('stale-flow'));
+  assert.ok(!cancelled.includes('stale-waiting'));
+});
+
+test('an early join cancels the unfinished branches of its own fork', () => {
+  const steps = [
+    { id: 'other-branch', node_id: 'copy', branch_id: 'main-1_f1', status: 'active' },
+    { id: 'nested-in-other', node_id: 'proof', branch_id: 'main-1_f1-0_f2', status: 'active' },
+    { id: 'waiting-elsewhere', node_id: 'inner-join', branch_id: 'main-1_f1-1_f2', status: 'waiting' },
+    { id: 'arrived', node_id: 'join', branch_id: 'main-0_f1', status: 'waiting' },
+    { id: 'done', node_id: 'design', branch_id: 'main-1_f1', status: 'completed' },
+    { id: 'outer-fork', node_id: 'legal', branch_id: 'main-2_f0', status: 'active' },
+  ];
+
+  const cancelled = selectUnfinishedJoinBranchSteps(steps, 'main-0_f1', 'join').map((s) => s.id);
+
+  assert.deepEqual(cancelled.sort(), ['nested-in-other', 'other-branch', 'waiting-elsewhere']);
+  assert.deepEqual(selectUnfinishedJoinBranchSteps(steps, 'main', 'join'), []);
+});
+
+test('join policies decide when the join releases', () => {
+  const waitAll = getJoinPolicySettings({ node_type: 'sync', settings: {} });
+  const waitAny = getJoinPolicySettings({ node_type: 'sync', settings: { join_policy: 'any' } });
+  const twoOfThree = getJoinPolicySettings({ node_type: 'sync', settings: { join_policy: 'n_of_m', join_required_branches: 2 } });
+
+  assert.deepEqual(waitAll, { policy: 'all', requiredBranches: 1 });
+  assert.equal(evaluateJoin(waitAll, 3, 2).released, false);
+  assert.deepEqual(evaluateJoin(waitAll, 3, 3), { released: true, required: 3, arrived: 3, expected: 3, early: false });
+  assert.deepEqual(evaluateJoin(waitAny, 3, 1), { released: true, required: 1, arrived: 1, expected: 3, early: true });
+  assert.equal(evaluateJoin(twoOfThree, 3, 1).released, false);
+  assert.equal(evaluateJoin(twoOfThree, 3, 2).early, true);
+
+  assert.equal(formatJoinPolicy(waitAll, 3), 'all 3 branches');
+  assert.equal(formatJoinPolicy(waitAny), 'any branch');
+  assert.equal(formatJoinPolicy(twoOfThree, 3), '2 of 3 branches');
+});
+
+test('a fork starts every branch and a wait-all join releases once', () => {
+  const { nodes, edges } = designAndCopyWorkflow();
+  const { model, state: started } = run(nodes, edges);
+  let state = started;
+
+  ({ state } = advanceSimulation(model, state, activeAt(state, 'brief').id) as { state: SimulationState });
+  assert.deepEqual(statusesAt(state, 'fork'), ['completed']);
+  assert.equal(activeAt(state, 'design').branch_id, 'main-0_sim1');
+  assert.equal(activeAt(state, 'copy').branch_id, 'main-1_sim1');
+
+  ({ state } = advanceSimulation(model, state, activeAt(state, 'copy').id) as { state: SimulationState });
+  assert.deepEqual(statusesAt(state, 'join'), ['waiting']);
+
+  ({ state } = advanceSimulation(model, state, activeAt(state, 'design').id) as { state: SimulationState });
+  ({ state } = advanceSimulation(model, state, activeAt(state, 'review').id, { decision: 'approved' }) as { state: SimulationState });
+
+  // The released join continues on the branch the fork was taken from
+  const joinStep = activeAt(state, 'join');
+  assert.equal(joinStep.branch_id, 'main');
+  assert.equal(joinStep.aggregate_decision, 'all_approved');
+  assert.equal(statusesAt(state, 'join').filter((status) => status === 'completed').length, 1);
+
+  ({ state } = advanceSimulation(model, state, joinStep.id) as { state: SimulationState });
+  assert.equal(state.status, 'completed');
+  assert.equal(state.steps.filter((s) => s.status === 'cancelled').length, 0);
+});
+
+test('rejecting back past the fork cancels the sibling branch', () => {
+  const { nodes, edges } = designAndCopyWorkflow();
+  const { model, state: started } = run(nodes, edges);
+  let state = started;
+
+  ({ state } = advanceSimulation(model, state, activeAt(state, 'brief').id) as { state: SimulationState });
+  ({ state } = advanceSimulation(model, state, activeAt(state, 'design').id) as { state: SimulationState });
+  const copyStep = activeAt(state, 'copy');
+  ({ state } = advanceSimulation(model, state, activeAt(state, 'review').id, { decision: 'rejected' }) as { state: SimulationState });
+
+  assert.equal(state.steps.find((s) => s.id === copyStep.id)?.status, 'cancelled');
+  assert.equal(activeAt(state, 'brief').branch_id, 'main');
+  assert.equal(state.steps.filter((s) => s.status === 'active').length, 1);
+
+  // The second pass forks again under a new flow, untouched by the first
+  ({ state } = advanceSimulation(model, state, activeAt(state, 'brief').id) as { state: SimulationState });
+  assert.equal(activeAt(state, 'copy').branch_id, 'main-1_sim2');
+  assert.equal(activeAt(state, 'design').branch_id, 'main-0_sim2');
+});
+
+test('a wait-any join continues with the first branch and cancels the rest', () => {
+  const { nodes, edges } = designAndCopyWorkflow({ joinPolicy: 'any' });
+  const { model, state: started } = run(nodes, edges);
+  let state = started;
+
+  ({ state } = advanceSimulation(model, state, activeAt(state, 'brief').id) as { state: SimulationState });
+  const designStep = activeAt(state, 'design');
+  ({ state } = advanceSimulation(model, state, activeAt(state, 'copy').id) as { state: SimulationState });
+
+  assert.equal(state.steps.find((s) => s.id === designStep.id)?.status, 'cancelled');
+  assert.equal(activeAt(state, 'join').branch_id, 'main');
+  assert.equal(state.steps.filter((s) => s.status === 'active').length, 1);
+  assert.ok(state.trace.some((t) => t.event === 'cancelled' && t.nodeId === 'design'));
+});
+
+test('validation requires every fork branch to meet at one join', () => {
+  const { nodes, edges } = designAndCopyWorkflow();
+  assert.deepEqual(validateParallelPaths(nodes, edges), []);
+
+  const unjoined = edges.map((e) => (e.id === 'copy->join' ? edge('copy', 'end') : e));
+  const codes = validateParallelPaths(nodes, unjoined).map((e) => e.code);
+  assert.ok(codes.includes('FORK_BRANCH_NOT_JOINED'));
+
+  const singleBranch = edges.filter((e) => e.id !== 'fork->copy' && e.id !== 'copy->join');
+  assert.ok(validateParallelPaths(nodes, singleBranch).some((e) => e.code === 'FORK_TOO_FEW_BRANCHES'));
+
+  const tooMany = designAndCopyWorkflow({ joinPolicy: 'n_of_m', joinRequiredBranches: 3 });
+  assert.ok(validateParallelPaths(tooMany.nodes, tooMany.edges).some((e) => e.code === 'JOIN_POLICY_UNREACHABLE'));
+
+  const withoutFork = edges
+    .filter((e) => e.source !== 'fork' && e.target !== 'fork')
+    .concat([edge('brief', 'design')]);
+  assert.ok(validateParallelPaths(nodes, withoutFork).some((e) => e.code === 'JOIN_WITHOUT_FORK'));
+});
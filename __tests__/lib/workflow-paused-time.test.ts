@@ -0,0 +1,71 @@
+/**
+ * Paused time tests
+ * Run with: npx tsx __tests__/lib/workflow-paused-time.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_BUSINESS_CALENDAR } from '../../lib/business-calendar-service';
+import { getPausedTimeBetween, parsePausedIntervals } from '../../lib/workflow-paused-time';
+import { computeSlaDueAt, NodeSlaSettings } from '../../lib/workflow-sla-service';
+import { computeDurationTimerResumeAt, NodeTimerSettings } from '../../lib/workflow-timer-service';
+
+// Mon-Fri 09:00-17:00 UTC; 2026-01-02 is a Friday
+const calendar = DEFAULT_BUSINESS_CALENDAR;
+const fridayMorning = new Date('2026-01-02T09:00:00Z');
+const weekendPause = parsePausedIntervals([{ paused_at: '2026-01-02T17:00:00Z', resumed_at: '2026-01-05T09:00:00Z' }]);
+const fridayToMondayLunch = parsePausedIntervals([{ paused_at: '2026-01-02T13:00:00Z', resumed_at: '2026-01-05T13:00:00Z' }]);
+
+const businessSla: NodeSlaSettings = { slaHours: 16, slaHourType: 'business', escalationTarget: 'reporting_role', escalationUserId: null };
+const calendarSla: NodeSlaSettings = { slaHours: 24, slaHourType: 'calendar', escalationTarget: 'reporting_role', escalationUserId: null };
+const oneBusinessDay: NodeTimerSettings = { mode: 'duration', duration: 1, unit: 'business_days', dateSource: 'project', dateField: null };
+
+test('a pause over a closed weekend holds wall-clock time but no working time', () => {
+  const paused = getPausedTimeBetween(calendar, weekendPause, fridayMorning);
+  assert.equal(paused.ms, 64 * 60 * 60 * 1000);
+  assert.equal(paused.workingHours, 0);
+});
+
+test('a weekend pause does not move a business-hours SLA', () => {
+  const paused = getPausedTimeBetween(calendar, weekendPause, fridayMorning);
+  assert.equal(
+    computeSlaDueAt(fridayMorning, businessSla, calendar, paused)?.toISOString(),
+    computeSlaDueAt(fridayMorning, businessSla, calendar)?.toISOString()
+  );
+  assert.equal(computeSlaDueAt(fridayMorning, businessSla, calendar, paused)?.toISOString(), '2026-01-05T17:00:00.000Z');
+});
+
+test('a business-hours SLA is extended only by the working hours inside the pause', () => {
+  // Fri 13:00-17:00 and Mon 09:00-13:00 were paused: 8 working hours
+  const paused = getPausedTimeBetween(calendar, fridayToMondayLunch, fridayMorning);
+  assert.equal(paused.workingHours, 8);
+  assert.equal(computeSlaDueAt(fridayMorning, businessSla, calendar, paused)?.toISOString(), '2026-01-06T17:00:00.000Z');
+});
+
+test('a calendar-hours SLA is extended by the wall-clock pause', () => {
+  const paused = getPausedTimeBetween(calendar, weekendPause, fridayMorning);
+  assert.equal(computeSlaDueAt(fridayMorning, calendarSla, calendar, paused)?.toISOString(), '2026-01-06T01:00:00.000Z');
+});
+
+test('business-day timers skip only the working time paused', () => {
+  const activatedAt = new Date('2026-01-02T10:00:00Z');
+  const overWeekend = getPausedTimeBetween(calendar, weekendPause, activatedAt);
+  assert.equal(computeDurationTimerResumeAt(oneBusinessDay, activatedAt, calendar, overWeekend)?.toISOString(), '2026-01-05T10:00:00.000Z');
+
+  const overLunch = getPausedTimeBetween(calendar, fridayToMondayLunch, activatedAt);
+  assert.equal(computeDurationTimerResumeAt(oneBusinessDay, activatedAt, calendar, overLunch)?.toISOString(), '2026-01-06T10:00:00.000Z');
+});
+
+test('pauses outside the measured span are clipped or ignored', () => {
+  // Activated after the weekend pause ended
+  assert.deepEqual(getPausedTimeBetween(calendar, weekendPause, new Date('2026-01-05T10:00:00Z')), { ms: 0, workingHours: 0 });
+
+  // A node that finished at Monday 11:00 only counts the paused time before then
+  const paused = getPausedTimeBetween(calendar, fridayToMondayLunch, fridayMorning, new Date('2026-01-05T11:00:00Z'));
+  assert.equal(paused.workingHours, 6);
+});
+
+test('malformed paused intervals are dropped', () => {
+  assert.deepEqual(parsePausedIntervals(null), []);
+  assert.equal(parsePausedIntervals([{ paused_at: '2026-01-02T17:00:00Z' }, ...weekendPause]).length, 1);
+});
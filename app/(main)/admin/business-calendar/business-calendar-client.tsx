@@ -0,0 +1,451 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalendarDays, Clock, Globe, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface UserOption {
+  id: string;
+  name: string | null;
+  email: string | null;
+  region: string | null;
+}
+
+interface Closure {
+  id: string;
+  kind: 'holiday' | 'shutdown';
+  name: string;
+  start_date: string;
+  end_date: string;
+  region: string | null;
+}
+
+interface BusinessCalendar {
+  workingDays: number[];
+  dayStartHour: number;
+  dayEndHour: number;
+  defaultRegion: string | null;
+  closures: Closure[];
+}
+
+interface BusinessCalendarClientProps {
+  users: UserOption[];
+}
+
+// Listed Monday first; values match Date#getUTCDay
+const WEEK_DAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+// Radix Select can't hold an empty value
+const DEFAULT_REGION = 'default';
+
+export default function BusinessCalendarClient({ users: initialUsers }: BusinessCalendarClientProps) {
+  const [loading, setLoading] = useState(true);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [addingClosure, setAddingClosure] = useState(false);
+  const [users, setUsers] = useState<UserOption[]>(initialUsers);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [workingDays, setWorkingDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [dayStartHour, setDayStartHour] = useState('9');
+  const [dayEndHour, setDayEndHour] = useState('17');
+  const [defaultRegion, setDefaultRegion] = useState('');
+  const [closureKind, setClosureKind] = useState<'holiday' | 'shutdown'>('holiday');
+  const [closureName, setClosureName] = useState('');
+  const [closureStart, setClosureStart] = useState('');
+  const [closureEnd, setClosureEnd] = useState('');
+  const [closureRegion, setClosureRegion] = useState('');
+
+  const applyCalendar = (calendar: BusinessCalendar) => {
+    setWorkingDays(calendar.workingDays);
+    setDayStartHour(String(calendar.dayStartHour));
+    setDayEndHour(String(calendar.dayEndHour));
+    setDefaultRegion(calendar.defaultRegion || '');
+    setClosures(calendar.closures);
+  };
+
+  const loadCalendar = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/business-calendar');
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load business calendar');
+        return;
+      }
+      applyCalendar(data.calendar);
+    } catch (error: unknown) {
+      toast.error('Failed to load business calendar');
+      console.error('Error loading business calendar:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  // Regions users can be placed in - any region with its own holidays, plus the default
+  const regions = useMemo(() => {
+    const known = new Set<string>();
+    if (defaultRegion.trim()) known.add(defaultRegion.trim());
+    closures.forEach((closure) => closure.region && known.add(closure.region));
+    users.forEach((user) => user.region && known.add(user.region));
+    return [...known].sort();
+  }, [closures, users, defaultRegion]);
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setWorkingDays((prev) => (checked ? [...prev, day] : prev.filter((d) => d !== day)));
+  };
+
+  const handleSaveSettings = async () => {
+    if (workingDays.length === 0) {
+      toast.error('Select at least one working day');
+      return;
+    }
+
+    setSavingSettings(true);
+    try {
+      const response = await fetch('/api/admin/business-calendar', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          working_days: workingDays,
+          day_start_hour: Number(dayStartHour),
+          day_end_hour: Number(dayEndHour),
+          default_region: defaultRegion.trim() || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save working hours');
+        return;
+      }
+
+      applyCalendar(data.calendar);
+      toast.success('Working hours saved');
+    } catch (error: unknown) {
+      toast.error('Failed to save working hours');
+      console.error('Error saving business calendar:', error);
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleAddClosure = async () => {
+    if (!closureName.trim() || !closureStart) {
+      toast.error('Please enter a name and start date');
+      return;
+    }
+
+    setAddingClosure(true);
+    try {
+      const response = await fetch('/api/admin/business-calendar/closures', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind: closureKind,
+          name: closureName.trim(),
+          start_date: closureStart,
+          end_date: closureEnd || closureStart,
+          region: closureRegion.trim() || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to add closure');
+        return;
+      }
+
+      toast.success(closureKind === 'holiday' ? 'Holiday added' : 'Shutdown added');
+      setClosureName('');
+      setClosureStart('');
+      setClosureEnd('');
+      await loadCalendar();
+    } catch (error: unknown) {
+      toast.error('Failed to add closure');
+      console.error('Error adding closure:', error);
+    } finally {
+      setAddingClosure(false);
+    }
+  };
+
+  const handleDeleteClosure = async (closure: Closure) => {
+    try {
+      const response = await fetch(`/api/admin/business-calendar/closures/${closure.id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to delete closure');
+        return;
+      }
+
+      setClosures((prev) => prev.filter((c) => c.id !== closure.id));
+    } catch (error: unknown) {
+      toast.error('Failed to delete closure');
+      console.error('Error deleting closure:', error);
+    }
+  };
+
+  const handleUserRegion = async (user: UserOption, value: string) => {
+    const region = value === DEFAULT_REGION ? null : value;
+
+    try {
+      const response = await fetch(`/api/admin/business-calendar/users/${user.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ region }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update region');
+        return;
+      }
+
+      setUsers((prev) => prev.map((u) => (u.id === user.id ? { ...u, region } : u)));
+    } catch (error: unknown) {
+      toast.error('Failed to update region');
+      console.error('Error updating user region:', error);
+    }
+  };
+
+  const formatRange = (closure: Closure) =>
+    closure.start_date === closure.end_date ? closure.start_date : `${closure.start_date} - ${closure.end_date}`;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Business Calendar</h1>
+        <p className="text-muted-foreground mt-2">
+          Working days, hours, public holidays and shutdowns used for workflow SLAs, task due dates,
+          workflow reporting and team capacity
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Working Week
+          </CardTitle>
+          <CardDescription>Hours are in UTC</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            {WEEK_DAYS.map((day) => (
+              <label key={day.value} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={workingDays.includes(day.value)}
+                  onCheckedChange={(checked) => toggleDay(day.value, checked === true)}
+                />
+                {day.label}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="day-start">Day starts (hour)</Label>
+              <Input
+                id="day-start"
+                type="number"
+                min={0}
+                max={23}
+                value={dayStartHour}
+                onChange={(e) => setDayStartHour(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="day-end">Day ends (hour)</Label>
+              <Input
+                id="day-end"
+                type="number"
+                min={1}
+                max={24}
+                value={dayEndHour}
+                onChange={(e) => setDayEndHour(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="default-region">Default region</Label>
+              <Input
+                id="default-region"
+                value={defaultRegion}
+                onChange={(e) => setDefaultRegion(e.target.value)}
+                placeholder="e.g. UK"
+                maxLength={50}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The default region&apos;s holidays apply to workflow SLAs and due dates, and to anyone without a region.
+          </p>
+          <Button onClick={handleSaveSettings} disabled={savingSettings}>
+            {savingSettings && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Working Week
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            Holidays &amp; Shutdowns
+          </CardTitle>
+          <CardDescription>
+            Closed days don&apos;t count towards SLAs or due dates, and reduce available hours for the week
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {closures.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No holidays or shutdowns yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {closures.map((closure) => (
+                <div key={closure.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm">{closure.name}</span>
+                      <Badge variant="outline" className="capitalize">{closure.kind}</Badge>
+                      <Badge variant="secondary">{closure.region || 'All regions'}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">{formatRange(closure)}</p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDeleteClosure(closure)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t pt-4 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={closureKind} onValueChange={(value) => setClosureKind(value as 'holiday' | 'shutdown')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="holiday">Public holiday</SelectItem>
+                  <SelectItem value="shutdown">Company shutdown</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closure-name">Name</Label>
+              <Input
+                id="closure-name"
+                value={closureName}
+                onChange={(e) => setClosureName(e.target.value)}
+                placeholder="e.g. Boxing Day"
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closure-start">From</Label>
+              <Input id="closure-start" type="date" value={closureStart} onChange={(e) => setClosureStart(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closure-end">To</Label>
+              <Input id="closure-end" type="date" value={closureEnd} onChange={(e) => setClosureEnd(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closure-region">Region</Label>
+              <Input
+                id="closure-region"
+                value={closureRegion}
+                onChange={(e) => setClosureRegion(e.target.value)}
+                placeholder="All regions"
+                maxLength={50}
+              />
+            </div>
+          </div>
+          <Button onClick={handleAddClosure} disabled={addingClosure}>
+            {addingClosure ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Add
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Globe className="w-5 h-5" />
+            User Regions
+          </CardTitle>
+          <CardDescription>Which region&apos;s public holidays apply to each person</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {users.map((user) => (
+              <div key={user.id} className="flex items-center justify-between gap-4 p-2 border-b last:border-b-0">
+                <div className="text-sm">
+                  <div className="font-medium">{user.name || 'Unnamed user'}</div>
+                  <div className="text-xs text-muted-foreground">{user.email}</div>
+                </div>
+                <Select value={user.region || DEFAULT_REGION} onValueChange={(value) => handleUserRegion(user, value)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_REGION}>
+                      Default{defaultRegion.trim() ? ` (${defaultRegion.trim()})` : ''}
+                    </SelectItem>
+                    {regions.map((region) => (
+                      <SelectItem key={region} value={region}>{region}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { redirect } from 'next/navigation';
+import { createServerSupabase } from '@/lib/supabase-server';
+import { checkPermissionHybrid, isSuperadmin } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import { UserWithRoles } from '@/lib/rbac';
+import { AccessDeniedPage } from '@/components/access-denied-page';
+import BusinessCalendarClient from './business-calendar-client';
+
+async function getUserWithRoles(): Promise<UserWithRoles | null> {
+  const supabase = await createServerSupabase();
+  if (!supabase) return null;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: userProfile } = await supabase
+    .from('user_profiles')
+    .select(`
+      *,
+      user_roles!user_roles_user_id_fkey(
+        id,
+        role_id,
+        assigned_at,
+        assigned_by,
+        roles!user_roles_role_id_fkey(
+          *,
+          departments!roles_department_id_fkey(*)
+        )
+      )
+    `)
+    .eq('id', user.id)
+    .single();
+
+  return userProfile as unknown as UserWithRoles;
+}
+
+
+export default async function BusinessCalendarPage() {
+  const userProfile = await getUserWithRoles();
+
+  if (!userProfile) {
+    redirect('/login?redirectTo=/admin/business-calendar');
+  }
+
+  const supabase = await createServerSupabase();
+  const canManageUsers = isSuperadmin(userProfile) ||
+    await checkPermissionHybrid(userProfile, Permission.MANAGE_USERS, undefined, supabase);
+
+  if (!canManageUsers) {
+    return (
+      <AccessDeniedPage
+        title="Access Denied"
+        description="You don't have permission to manage the business calendar."
+        requiredPermission="MANAGE_USERS"
+      />
+    );
+  }
+
+  const { data: users } = supabase ? await supabase
+    .from('user_profiles')
+    .select('id, name, email, region')
+    .order('name') : { data: [] };
+
+  return <BusinessCalendarClient users={users || []} />;
+}
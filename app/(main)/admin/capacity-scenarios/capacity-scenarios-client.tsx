@@ -0,0 +1,695 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FlaskConical, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { CapacityScenarioChart } from '@/components/capacity-scenario-chart';
+import { createClientSupabase } from '@/lib/supabase';
+import {
+  CapacityScenario,
+  getTotalDemandHours,
+  MAX_SCENARIO_WEEKS,
+  ScenarioDemandLine,
+  ScenarioImpact,
+  ScenarioProject,
+  ScenarioRole,
+  spreadDemand,
+  toDemandLines,
+} from '@/lib/capacity-scenario';
+import { shiftWeek, toWeekStart } from '@/lib/resource-planner';
+import { toDateKey } from '@/lib/business-calendar-service';
+
+const NO_ACCOUNT = 'none';
+
+interface ScenarioDetail {
+  scenario: CapacityScenario;
+  projects: ScenarioProject[];
+  roles: ScenarioRole[];
+  canEdit: boolean;
+}
+
+interface ProjectForm {
+  id: string | null;
+  name: string;
+  accountId: string;
+  clientName: string;
+  notes: string;
+  lines: Array<{ roleId: string; totalHours: string; startWeek: string; weekCount: string }>;
+}
+
+function nextMonthWeek(): string {
+  const date = new Date();
+  date.setMonth(date.getMonth() + 1, 1);
+  return toWeekStart(toDateKey(date));
+}
+
+function emptyLine(): ProjectForm['lines'][number] {
+  return { roleId: '', totalHours: '', startWeek: nextMonthWeek(), weekCount: '4' };
+}
+
+function toForm(project: ScenarioProject | null): ProjectForm {
+  if (!project) {
+    return { id: null, name: '', accountId: NO_ACCOUNT, clientName: '', notes: '', lines: [emptyLine()] };
+  }
+  const lines = toDemandLines(project.demands).map((line: ScenarioDemandLine) => ({
+    roleId: line.roleId,
+    totalHours: String(line.totalHours),
+    startWeek: line.startWeek,
+    weekCount: String(line.weekCount),
+  }));
+  return {
+    id: project.id,
+    name: project.name,
+    accountId: project.accountId ?? NO_ACCOUNT,
+    clientName: project.clientName ?? '',
+    notes: project.notes ?? '',
+    lines: lines.length > 0 ? lines : [emptyLine()],
+  };
+}
+
+function weekLabel(weekStartDate: string): string {
+  return new Date(`${weekStartDate}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+export default function CapacityScenariosClient() {
+  const [scenarios, setScenarios] = useState<CapacityScenario[]>([]);
+  const [loadingList, setLoadingList] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<ScenarioDetail | null>(null);
+  const [impact, setImpact] = useState<ScenarioImpact | null>(null);
+  const [loadingImpact, setLoadingImpact] = useState(false);
+  const [accounts, setAccounts] = useState<Array<{ id: string; name: string }>>([]);
+
+  const [scenarioDialog, setScenarioDialog] = useState<{ id: string | null; name: string; description: string } | null>(null);
+  const [projectForm, setProjectForm] = useState<ProjectForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadScenarios = useCallback(async () => {
+    setLoadingList(true);
+    try {
+      const response = await fetch('/api/capacity/scenarios');
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load scenarios');
+        return;
+      }
+      setScenarios(data.scenarios || []);
+      setSelectedId((prev) => prev ?? data.scenarios?.[0]?.id ?? null);
+    } catch (error: unknown) {
+      console.error('Error loading capacity scenarios:', error);
+      toast.error('Failed to load scenarios');
+    } finally {
+      setLoadingList(false);
+    }
+  }, []);
+
+  const loadImpact = useCallback(async (id: string) => {
+    setLoadingImpact(true);
+    try {
+      const response = await fetch(`/api/capacity/scenarios/${id}/impact`);
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to work out the scenario\'s impact');
+        return;
+      }
+      setImpact(data.impact);
+    } catch (error: unknown) {
+      console.error('Error loading scenario impact:', error);
+      toast.error('Failed to work out the scenario\'s impact');
+    } finally {
+      setLoadingImpact(false);
+    }
+  }, []);
+
+  const loadDetail = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/capacity/scenarios/${id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load scenario');
+        return;
+      }
+      setDetail({ scenario: data.scenario, projects: data.projects, roles: data.roles, canEdit: data.canEdit });
+    } catch (error: unknown) {
+      console.error('Error loading capacity scenario:', error);
+      toast.error('Failed to load scenario');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadScenarios();
+
+    const loadAccounts = async () => {
+      const supabase = createClientSupabase() as any;
+      if (!supabase) return;
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('id, name')
+        .order('name');
+      if (error) {
+        console.error('Error loading accounts:', error);
+        return;
+      }
+      setAccounts(data || []);
+    };
+    loadAccounts();
+  }, [loadScenarios]);
+
+  useEffect(() => {
+    setDetail(null);
+    setImpact(null);
+    if (!selectedId) return;
+    loadDetail(selectedId);
+    loadImpact(selectedId);
+  }, [selectedId, loadDetail, loadImpact]);
+
+  const rolesById = useMemo(() => new Map((detail?.roles || []).map((role) => [role.id, role])), [detail]);
+
+  const refreshSelected = async () => {
+    if (!selectedId) return;
+    await Promise.all([loadDetail(selectedId), loadImpact(selectedId)]);
+    loadScenarios();
+  };
+
+  const handleSaveScenario = async () => {
+    if (!scenarioDialog) return;
+    if (!scenarioDialog.name.trim()) {
+      toast.error('Give the scenario a name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = { name: scenarioDialog.name.trim(), description: scenarioDialog.description.trim() || null };
+      const response = scenarioDialog.id
+        ? await fetch(`/api/capacity/scenarios/${scenarioDialog.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+          })
+        : await fetch('/api/capacity/scenarios', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+          });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save scenario');
+        return;
+      }
+
+      if (scenarioDialog.id) {
+        await loadDetail(scenarioDialog.id);
+      } else {
+        setSelectedId(data.scenario.id);
+      }
+      setScenarioDialog(null);
+      loadScenarios();
+    } catch (error: unknown) {
+      console.error('Error saving capacity scenario:', error);
+      toast.error('Failed to save scenario');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteScenario = async (scenario: CapacityScenario) => {
+    if (!confirm(`Delete the scenario "${scenario.name}"? Its tentative projects go with it.`)) return;
+    try {
+      const response = await fetch(`/api/capacity/scenarios/${scenario.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to delete scenario');
+        return;
+      }
+      setScenarios((prev) => prev.filter((s) => s.id !== scenario.id));
+      setSelectedId(scenarios.find((s) => s.id !== scenario.id)?.id ?? null);
+      toast.success('Scenario deleted');
+    } catch (error: unknown) {
+      console.error('Error deleting capacity scenario:', error);
+      toast.error('Failed to delete scenario');
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<ProjectForm['lines'][number]>) => {
+    setProjectForm((prev) => prev && {
+      ...prev,
+      lines: prev.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+    });
+  };
+
+  const handleSaveProject = async () => {
+    if (!projectForm || !selectedId) return;
+    if (!projectForm.name.trim()) {
+      toast.error('Give the project a name');
+      return;
+    }
+
+    const lines = projectForm.lines.filter((line) => line.roleId || line.totalHours);
+    for (const line of lines) {
+      const hours = Number(line.totalHours);
+      const weeks = Number(line.weekCount);
+      if (!line.roleId) {
+        toast.error('Choose a role for every line');
+        return;
+      }
+      if (!Number.isFinite(hours) || hours <= 0) {
+        toast.error('Enter the hours each role needs');
+        return;
+      }
+      if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_SCENARIO_WEEKS) {
+        toast.error(`Spread hours over 1 to ${MAX_SCENARIO_WEEKS} weeks`);
+        return;
+      }
+      if (!line.startWeek) {
+        toast.error('Choose the week each role starts');
+        return;
+      }
+    }
+
+    const demands = lines.flatMap((line) =>
+      spreadDemand(line.roleId, Number(line.totalHours), line.startWeek, Number(line.weekCount))
+    );
+
+    setSaving(true);
+    try {
+      const payload = {
+        name: projectForm.name.trim(),
+        account_id: projectForm.accountId === NO_ACCOUNT ? null : projectForm.accountId,
+        client_name: projectForm.clientName.trim() || null,
+        notes: projectForm.notes.trim() || null,
+        demands: demands.map((d) => ({ role_id: d.roleId, week_start_date: d.weekStartDate, hours: d.hours })),
+      };
+      const response = projectForm.id
+        ? await fetch(`/api/capacity/scenarios/${selectedId}/projects/${projectForm.id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+          })
+        : await fetch(`/api/capacity/scenarios/${selectedId}/projects`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+          });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save project');
+        return;
+      }
+      setProjectForm(null);
+      await refreshSelected();
+    } catch (error: unknown) {
+      console.error('Error saving scenario project:', error);
+      toast.error('Failed to save project');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteProject = async (project: ScenarioProject) => {
+    if (!selectedId) return;
+    try {
+      const response = await fetch(`/api/capacity/scenarios/${selectedId}/projects/${project.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to remove project');
+        return;
+      }
+      await refreshSelected();
+    } catch (error: unknown) {
+      console.error('Error removing scenario project:', error);
+      toast.error('Failed to remove project');
+    }
+  };
+
+  const accountName = (id: string | null) => accounts.find((a) => a.id === id)?.name;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <FlaskConical className="w-6 h-6 text-teal-600" />
+            Capacity Scenarios
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Try tentative projects against live capacity before committing to them. Scenarios never change real capacity numbers.
+          </p>
+        </div>
+        <Button onClick={() => setScenarioDialog({ id: null, name: '', description: '' })}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Scenario
+        </Button>
+      </div>
+
+      <div className="flex gap-4 items-start">
+        <Card className="w-72 flex-shrink-0">
+          <CardContent className="pt-4 space-y-1">
+            {loadingList ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+              </div>
+            ) : scenarios.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No scenarios yet.</p>
+            ) : (
+              scenarios.map((scenario) => (
+                <button
+                  key={scenario.id}
+                  onClick={() => setSelectedId(scenario.id)}
+                  className={`w-full rounded px-3 py-2 text-left text-sm transition-colors ${
+                    scenario.id === selectedId ? 'bg-primary/10 text-primary' : 'hover:bg-muted'
+                  }`}
+                >
+                  <div className="font-medium truncate">{scenario.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {scenario.projectCount} project{scenario.projectCount === 1 ? '' : 's'}
+                    {scenario.createdByName ? ` - ${scenario.createdByName}` : ''}
+                  </div>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex-1 min-w-0 space-y-4">
+          {!selectedId ? (
+            <Card>
+              <CardContent className="py-12 text-center text-sm text-muted-foreground">
+                Create a scenario to see how tentative work would land on the team.
+              </CardContent>
+            </Card>
+          ) : !detail ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <>
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>{detail.scenario.name}</CardTitle>
+                    {detail.scenario.description && (
+                      <CardDescription>{detail.scenario.description}</CardDescription>
+                    )}
+                  </div>
+                  {detail.canEdit && (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setScenarioDialog({
+                          id: detail.scenario.id,
+                          name: detail.scenario.name,
+                          description: detail.scenario.description ?? '',
+                        })}
+                      >
+                        <Pencil className="w-3.5 h-3.5 mr-1" />
+                        Rename
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        onClick={() => handleDeleteScenario(detail.scenario)}
+                      >
+                        <Trash2 className="w-3.5 h-3.5 mr-1" />
+                        Delete
+                      </Button>
+                      <Button size="sm" onClick={() => setProjectForm(toForm(null))}>
+                        <Plus className="w-3.5 h-3.5 mr-1" />
+                        Tentative Project
+                      </Button>
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  {detail.projects.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No tentative projects yet - add one with the roles and hours it would need.
+                    </p>
+                  ) : (
+                    <div className="divide-y rounded border">
+                      {detail.projects.map((project) => {
+                        const lines = toDemandLines(project.demands);
+                        return (
+                          <div key={project.id} className="flex items-start justify-between gap-3 p-3 text-sm">
+                            <div className="min-w-0 space-y-1">
+                              <p className="font-medium">
+                                {project.name}
+                                <span className="text-muted-foreground font-normal">
+                                  {' - '}{accountName(project.accountId) ?? project.clientName ?? 'No client yet'}
+                                </span>
+                              </p>
+                              <div className="flex flex-wrap gap-1">
+                                {lines.map((line) => (
+                                  <Badge key={line.roleId} variant="outline" className="font-normal">
+                                    {rolesById.get(line.roleId)?.name ?? 'Unknown role'}: {line.totalHours}h from {weekLabel(line.startWeek)}
+                                    {line.weekCount > 1 ? ` over ${line.weekCount} weeks` : ''}
+                                  </Badge>
+                                ))}
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-1 shrink-0">
+                              <span className="font-medium mr-2">{getTotalDemandHours(project.demands)}h</span>
+                              {detail.canEdit && (
+                                <>
+                                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setProjectForm(toForm(project))}>
+                                    <Pencil className="h-3.5 w-3.5" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                                    onClick={() => handleDeleteProject(project)}
+                                  >
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {loadingImpact && !impact ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+                </div>
+              ) : impact && impact.weeks.length > 0 ? (
+                <CapacityScenarioChart impact={impact} />
+              ) : null}
+            </>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={!!scenarioDialog} onOpenChange={(open) => !open && setScenarioDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{scenarioDialog?.id ? 'Edit Scenario' : 'New Scenario'}</DialogTitle>
+            <DialogDescription>A sandbox for tentative work - e.g. &quot;Q3 pipeline&quot; or &quot;Acme rebrand&quot;.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="scenario-name">Name</Label>
+              <Input
+                id="scenario-name"
+                value={scenarioDialog?.name ?? ''}
+                onChange={(e) => setScenarioDialog((prev) => prev && { ...prev, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scenario-description">Description (optional)</Label>
+              <Textarea
+                id="scenario-description"
+                rows={3}
+                value={scenarioDialog?.description ?? ''}
+                onChange={(e) => setScenarioDialog((prev) => prev && { ...prev, description: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setScenarioDialog(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveScenario} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!projectForm} onOpenChange={(open) => !open && setProjectForm(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{projectForm?.id ? 'Edit Tentative Project' : 'Add Tentative Project'}</DialogTitle>
+            <DialogDescription>
+              Estimate the hours each role would need. Hours are spread evenly over the weeks you give.
+            </DialogDescription>
+          </DialogHeader>
+          {projectForm && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1 col-span-2">
+                  <Label htmlFor="scenario-project-name">Project name</Label>
+                  <Input
+                    id="scenario-project-name"
+                    value={projectForm.name}
+                    onChange={(e) => setProjectForm((prev) => prev && { ...prev, name: e.target.value })}
+                    placeholder="e.g. Brand refresh"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Account</Label>
+                  <Select
+                    value={projectForm.accountId}
+                    onValueChange={(value) => setProjectForm((prev) => prev && { ...prev, accountId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ACCOUNT}>New client / no account</SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="scenario-project-client">Prospective client (optional)</Label>
+                  <Input
+                    id="scenario-project-client"
+                    value={projectForm.clientName}
+                    onChange={(e) => setProjectForm((prev) => prev && { ...prev, clientName: e.target.value })}
+                    disabled={projectForm.accountId !== NO_ACCOUNT}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_6rem_9rem_5rem_2rem] gap-2 text-xs text-muted-foreground">
+                  <span>Role</span>
+                  <span>Total hours</span>
+                  <span>Starting week of</span>
+                  <span>Weeks</span>
+                  <span />
+                </div>
+                {projectForm.lines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_6rem_9rem_5rem_2rem] gap-2 items-center">
+                    <Select value={line.roleId} onValueChange={(value) => updateLine(index, { roleId: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a role" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(detail?.roles || []).map((role) => (
+                          <SelectItem key={role.id} value={role.id}>
+                            {role.name}{role.departmentName ? ` (${role.departmentName})` : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={line.totalHours}
+                      onChange={(e) => updateLine(index, { totalHours: e.target.value })}
+                    />
+                    <Input
+                      type="date"
+                      value={line.startWeek}
+                      onChange={(e) => updateLine(index, { startWeek: e.target.value ? toWeekStart(e.target.value) : '' })}
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      max={MAX_SCENARIO_WEEKS}
+                      value={line.weekCount}
+                      onChange={(e) => updateLine(index, { weekCount: e.target.value })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => setProjectForm((prev) => prev && { ...prev, lines: prev.lines.filter((_, i) => i !== index) })}
+                      aria-label="Remove role"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setProjectForm((prev) => prev && {
+                    ...prev,
+                    lines: [...prev.lines, { ...emptyLine(), startWeek: prev.lines[0]?.startWeek || nextMonthWeek() }],
+                  })}
+                >
+                  <Plus className="w-3.5 h-3.5 mr-1" />
+                  Add Role
+                </Button>
+                {projectForm.lines.some((line) => line.startWeek && Number(line.weekCount) > 0) && (
+                  <p className="text-xs text-muted-foreground">
+                    Runs to the week of {weekLabel(
+                      projectForm.lines
+                        .filter((line) => line.startWeek && Number(line.weekCount) > 0)
+                        .map((line) => shiftWeek(line.startWeek, Math.min(Number(line.weekCount), MAX_SCENARIO_WEEKS) - 1))
+                        .sort()
+                        .pop() as string
+                    )}.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="scenario-project-notes">Notes (optional)</Label>
+                <Textarea
+                  id="scenario-project-notes"
+                  rows={2}
+                  value={projectForm.notes}
+                  onChange={(e) => setProjectForm((prev) => prev && { ...prev, notes: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setProjectForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveProject} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Project
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
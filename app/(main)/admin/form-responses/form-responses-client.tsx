@@ -0,0 +1,336 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Download, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { FormVersionHistory } from '@/components/form-version-history';
+import { formatCurrency } from '@/lib/form-field-types';
+import {
+  FormFieldAggregate,
+  FormReportColumn,
+  FormReportOption,
+  FormResponseReport,
+  formatReportValue,
+} from '@/lib/form-report';
+
+interface FormResponsesClientProps {
+  formTemplates: FormReportOption[];
+}
+
+interface ReportFilters {
+  from: string;
+  to: string;
+  project_id: string;
+  account_id: string;
+  submitter: string;
+}
+
+// Radix Select can't hold an empty value
+const ALL = 'all';
+
+const EMPTY_FILTERS: ReportFilters = {
+  from: '',
+  to: '',
+  project_id: '',
+  account_id: '',
+  submitter: '',
+};
+
+function buildQuery(filters: ReportFilters, format?: 'csv' | 'xlsx'): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  if (format) params.set('format', format);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+function formatAggregateNumber(aggregate: FormFieldAggregate, value: number, columns: FormReportColumn[]): string {
+  const column = columns.find((c) => c.id === aggregate.fieldId);
+  if (column?.type === 'currency' || (column?.type === 'computed' && column.currency)) {
+    return formatCurrency(value, column.currency);
+  }
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+export default function FormResponsesClient({ formTemplates }: FormResponsesClientProps) {
+  const [templateId, setTemplateId] = useState<string>(formTemplates[0]?.id || '');
+  const [filters, setFilters] = useState<ReportFilters>(EMPTY_FILTERS);
+  const [report, setReport] = useState<FormResponseReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    if (!templateId) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/form-templates/${templateId}/responses${buildQuery(filters)}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load form responses');
+        return;
+      }
+      setReport(data.report);
+    } catch (error: unknown) {
+      toast.error('Failed to load form responses');
+      console.error('Error loading form responses:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [templateId, filters]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const chooseTemplate = (id: string) => {
+    setTemplateId(id);
+    setFilters(EMPTY_FILTERS);
+    setReport(null);
+  };
+
+  const setFilter = (key: keyof ReportFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value === ALL ? '' : value }));
+  };
+
+  const exportUrl = (format: 'csv' | 'xlsx') =>
+    `/api/admin/form-templates/${templateId}/responses/export${buildQuery(filters, format)}`;
+
+  const optionFilters: { key: keyof ReportFilters; label: string; allLabel: string; options: FormReportOption[] }[] = report
+    ? [
+        { key: 'project_id', label: 'Project', allLabel: 'All projects', options: report.filterOptions.projects },
+        { key: 'account_id', label: 'Account', allLabel: 'All accounts', options: report.filterOptions.accounts },
+        { key: 'submitter', label: 'Submitted by', allLabel: 'Anyone', options: report.filterOptions.submitters },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <FileSpreadsheet className="w-6 h-6 text-sky-600" />
+            Form Responses
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Every response to a form template, from workflow steps and intake forms alike.
+          </p>
+        </div>
+        {templateId && (
+          <div className="flex gap-2">
+            <FormVersionHistory formTemplateId={templateId} />
+            <Button variant="outline" asChild>
+              <a href={exportUrl('csv')}>
+                <Download className="w-4 h-4 mr-2" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={exportUrl('xlsx')}>
+                <Download className="w-4 h-4 mr-2" />
+                Excel
+              </a>
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {formTemplates.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-muted-foreground">
+            No form templates yet.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="space-y-1 lg:col-span-2">
+              <Label>Form</Label>
+              <Select value={templateId} onValueChange={chooseTemplate}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a form" />
+                </SelectTrigger>
+                <SelectContent>
+                  {formTemplates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="responses-from">From</Label>
+              <Input
+                id="responses-from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilter('from', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="responses-to">To</Label>
+              <Input
+                id="responses-to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilter('to', e.target.value)}
+              />
+            </div>
+            {optionFilters.map((filter) => (
+              <div key={filter.key} className="space-y-1">
+                <Label>{filter.label}</Label>
+                <Select value={filters[filter.key] || ALL} onValueChange={(value) => setFilter(filter.key, value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>{filter.allLabel}</SelectItem>
+                    {filter.options.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {report && report.truncated && (
+        <p className="text-sm text-amber-700">
+          Only the {report.rows.length} most recent responses are shown. Narrow the date range to see the rest.
+        </p>
+      )}
+
+      {report && report.aggregates.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {report.aggregates.map((aggregate) => (
+            <Card key={aggregate.fieldId}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">{aggregate.label}</CardTitle>
+                <CardDescription>
+                  {aggregate.kind === 'numeric' ? aggregate.count : aggregate.answered} answered
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {aggregate.kind === 'numeric' ? (
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                    <dt className="text-muted-foreground">Total</dt>
+                    <dd className="text-right font-medium">{formatAggregateNumber(aggregate, aggregate.sum, report.columns)}</dd>
+                    <dt className="text-muted-foreground">Average</dt>
+                    <dd className="text-right font-medium">{formatAggregateNumber(aggregate, aggregate.average, report.columns)}</dd>
+                    <dt className="text-muted-foreground">Min</dt>
+                    <dd className="text-right">{formatAggregateNumber(aggregate, aggregate.min, report.columns)}</dd>
+                    <dt className="text-muted-foreground">Max</dt>
+                    <dd className="text-right">{formatAggregateNumber(aggregate, aggregate.max, report.columns)}</dd>
+                  </dl>
+                ) : (
+                  <div className="space-y-2">
+                    {aggregate.counts.map(({ option, count }) => (
+                      <div key={option} className="text-sm">
+                        <div className="flex justify-between">
+                          <span className="truncate">{option}</span>
+                          <span className="text-muted-foreground">{count}</span>
+                        </div>
+                        <div className="h-1.5 bg-gray-100 rounded">
+                          <div
+                            className="h-1.5 bg-sky-500 rounded"
+                            style={{ width: `${Math.round((count / aggregate.answered) * 100)}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {templateId && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Responses{report ? ` (${report.rows.length})` : ''}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading && !report ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+              </div>
+            ) : !report || report.rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No responses match these filters.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="whitespace-nowrap">Submitted</TableHead>
+                      <TableHead className="whitespace-nowrap">Submitted by</TableHead>
+                      <TableHead>Project</TableHead>
+                      <TableHead>Account</TableHead>
+                      {report.columns.map((column) => (
+                        <TableHead key={column.id} className="whitespace-nowrap">
+                          {column.label}
+                          {column.removed && (
+                            <Badge variant="outline" className="ml-2 text-xs font-normal">Removed</Badge>
+                          )}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.map((row) => (
+                      <TableRow key={row.id}>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {new Date(row.submittedAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {row.submitterName || row.submitterEmail || '-'}
+                          {row.source === 'intake' && (
+                            <Badge variant="secondary" className="ml-2 text-xs">Intake</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{row.project?.name || '-'}</TableCell>
+                        <TableCell className="text-sm">{row.account?.name || '-'}</TableCell>
+                        {report.columns.map((column) => {
+                          const text = formatReportValue(column, row.values[column.id]);
+                          return (
+                            <TableCell key={column.id} className="text-sm max-w-xs truncate" title={text}>
+                              {text}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { redirect } from 'next/navigation';
+import { createServerSupabase } from '@/lib/supabase-server';
+import { checkPermissionHybrid, isSuperadmin } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import { UserWithRoles } from '@/lib/rbac';
+import { AccessDeniedPage } from '@/components/access-denied-page';
+import FormResponsesClient from './form-responses-client';
+
+async function getUserWithRoles(): Promise<UserWithRoles | null> {
+  const supabase = await createServerSupabase();
+  if (!supabase) return null;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: userProfile } = await supabase
+    .from('user_profiles')
+    .select(`
+      *,
+      user_roles!user_roles_user_id_fkey(
+        id,
+        role_id,
+        assigned_at,
+        assigned_by,
+        roles!user_roles_role_id_fkey(
+          *,
+          departments!roles_department_id_fkey(*)
+        )
+      )
+    `)
+    .eq('id', user.id)
+    .single();
+
+  return userProfile as unknown as UserWithRoles;
+}
+
+
+export default async function FormResponsesPage() {
+  const userProfile = await getUserWithRoles();
+
+  if (!userProfile) {
+    redirect('/login?redirectTo=/admin/form-responses');
+  }
+
+  const supabase = await createServerSupabase();
+  const canManageWorkflows = isSuperadmin(userProfile) ||
+    await checkPermissionHybrid(userProfile, Permission.MANAGE_WORKFLOWS, undefined, supabase);
+
+  if (!canManageWorkflows) {
+    return (
+      <AccessDeniedPage
+        title="Access Denied"
+        description="You don't have permission to view form responses."
+        requiredPermission="MANAGE_WORKFLOWS"
+      />
+    );
+  }
+
+  const { data: formTemplates } = supabase
+    ? await supabase.from('form_templates').select('id, name').order('name')
+    : { data: [] };
+
+  return <FormResponsesClient formTemplates={formTemplates || []} />;
+}
@@ -0,0 +1,571 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Copy, FileInput, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { InlineFormBuilder, FormField } from '@/components/inline-form-builder';
+import { FormVersionHistory } from '@/components/form-version-history';
+import {
+  INTAKE_PROJECT_COLUMNS,
+  INTAKE_UNSUPPORTED_FIELD_TYPES,
+  IntakeFieldMappings,
+  IntakeFormAccess,
+} from '@/lib/intake-forms';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface FormTemplateOption extends Option {
+  fields: FormField[];
+}
+
+interface IntakeFormRow {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  access: IntakeFormAccess;
+  account_id: string | null;
+  form_template_id: string;
+  field_mappings: IntakeFieldMappings;
+  default_priority: string;
+  workflow_template_id: string | null;
+  confirmation_message: string | null;
+  is_active: boolean;
+  form_templates: Option | null;
+  accounts: Option | null;
+}
+
+interface IntakeFormDraft {
+  title: string;
+  description: string;
+  access: IntakeFormAccess;
+  account_id: string;
+  // NEW_FORM = build the fields here
+  form_template_id: string;
+  fields: FormField[];
+  field_mappings: IntakeFieldMappings;
+  default_priority: string;
+  workflow_template_id: string;
+  confirmation_message: string;
+}
+
+interface IntakeFormsClientProps {
+  accounts: Option[];
+  workflowTemplates: Option[];
+  formTemplates: FormTemplateOption[];
+}
+
+// Radix Select can't hold an empty value
+const NONE = 'none';
+const NEW_FORM = 'new';
+
+const EMPTY_DRAFT: IntakeFormDraft = {
+  title: '',
+  description: '',
+  access: 'public',
+  account_id: '',
+  form_template_id: NEW_FORM,
+  fields: [],
+  field_mappings: {},
+  default_priority: 'medium',
+  workflow_template_id: '',
+  confirmation_message: '',
+};
+
+function getIntakeLink(slug: string): string {
+  return `${window.location.origin}/intake/${slug}`;
+}
+
+export default function IntakeFormsClient({ accounts, workflowTemplates, formTemplates }: IntakeFormsClientProps) {
+  const [loading, setLoading] = useState(true);
+  const [intakeForms, setIntakeForms] = useState<IntakeFormRow[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<IntakeFormDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  const loadIntakeForms = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/intake-forms');
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load intake forms');
+        return;
+      }
+      setIntakeForms(data.intakeForms);
+    } catch (error: unknown) {
+      toast.error('Failed to load intake forms');
+      console.error('Error loading intake forms:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadIntakeForms();
+  }, [loadIntakeForms]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setDialogOpen(true);
+  };
+
+  const openEdit = async (intakeForm: IntakeFormRow) => {
+    try {
+      const response = await fetch(`/api/admin/intake-forms/${intakeForm.id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load intake form');
+        return;
+      }
+
+      setEditingId(intakeForm.id);
+      setDraft({
+        title: intakeForm.title,
+        description: intakeForm.description || '',
+        access: intakeForm.access,
+        account_id: intakeForm.account_id || '',
+        form_template_id: intakeForm.form_template_id,
+        fields: data.fields,
+        field_mappings: intakeForm.field_mappings,
+        default_priority: intakeForm.default_priority,
+        workflow_template_id: intakeForm.workflow_template_id || '',
+        confirmation_message: intakeForm.confirmation_message || '',
+      });
+      setDialogOpen(true);
+    } catch (error: unknown) {
+      toast.error('Failed to load intake form');
+      console.error('Error loading intake form:', error);
+    }
+  };
+
+  const chooseTemplate = (templateId: string) => {
+    const template = formTemplates.find((t) => t.id === templateId);
+    setDraft((prev) => ({
+      ...prev,
+      form_template_id: templateId,
+      fields: template ? template.fields : [],
+      field_mappings: {},
+    }));
+  };
+
+  const saveIntakeForm = async () => {
+    setSaving(true);
+    try {
+      const settings = {
+        title: draft.title.trim(),
+        description: draft.description.trim() || null,
+        access: draft.access,
+        account_id: draft.account_id || null,
+        field_mappings: draft.field_mappings,
+        default_priority: draft.default_priority,
+        workflow_template_id: draft.workflow_template_id || null,
+        confirmation_message: draft.confirmation_message.trim() || null,
+      };
+      // An existing template is published as-is when creating; edits always save the fields
+      const body = editingId
+        ? { ...settings, fields: draft.fields }
+        : draft.form_template_id === NEW_FORM
+          ? { ...settings, fields: draft.fields }
+          : { ...settings, form_template_id: draft.form_template_id };
+
+      const response = await fetch(editingId ? `/api/admin/intake-forms/${editingId}` : '/api/admin/intake-forms', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save intake form');
+        return;
+      }
+
+      toast.success(editingId ? 'Intake form updated' : 'Intake form published');
+      setDialogOpen(false);
+      loadIntakeForms();
+    } catch (error: unknown) {
+      toast.error('Failed to save intake form');
+      console.error('Error saving intake form:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (intakeForm: IntakeFormRow, isActive: boolean) => {
+    setIntakeForms((prev) => prev.map((f) => (f.id === intakeForm.id ? { ...f, is_active: isActive } : f)));
+    try {
+      const response = await fetch(`/api/admin/intake-forms/${intakeForm.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: isActive }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to update intake form');
+        loadIntakeForms();
+      }
+    } catch (error: unknown) {
+      toast.error('Failed to update intake form');
+      console.error('Error updating intake form:', error);
+      loadIntakeForms();
+    }
+  };
+
+  const deleteIntakeForm = async (intakeForm: IntakeFormRow) => {
+    if (!confirm(`Unpublish "${intakeForm.title}"? Its link will stop working. Submissions already made are kept.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/intake-forms/${intakeForm.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to delete intake form');
+        return;
+      }
+
+      toast.success('Intake form unpublished');
+      setIntakeForms((prev) => prev.filter((f) => f.id !== intakeForm.id));
+    } catch (error: unknown) {
+      toast.error('Failed to delete intake form');
+      console.error('Error deleting intake form:', error);
+    }
+  };
+
+  const copyLink = async (slug: string) => {
+    try {
+      await navigator.clipboard.writeText(getIntakeLink(slug));
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const unsupportedFields = draft.fields.filter((field) => INTAKE_UNSUPPORTED_FIELD_TYPES.includes(field.type));
+  const canEditFields = !!editingId || draft.form_template_id === NEW_FORM;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <FileInput className="w-6 h-6 text-orange-600" />
+            Intake Forms
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Publish forms with a shareable link. Each submission creates a project in planning under the right account.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Intake Form
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Published Forms</CardTitle>
+          <CardDescription>
+            Public forms are open to anyone with the link. Client portal forms need a client sign-in and create projects under the client&apos;s account.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            </div>
+          ) : intakeForms.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No intake forms yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Access</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Form</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {intakeForms.map((intakeForm) => (
+                  <TableRow key={intakeForm.id}>
+                    <TableCell className="font-medium">{intakeForm.title}</TableCell>
+                    <TableCell>
+                      <Badge variant={intakeForm.access === 'public' ? 'default' : 'secondary'}>
+                        {intakeForm.access === 'public' ? 'Public' : 'Client portal'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{intakeForm.accounts?.name || 'Client’s account'}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{intakeForm.form_templates?.name}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={intakeForm.is_active}
+                        onCheckedChange={(checked) => toggleActive(intakeForm, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => copyLink(intakeForm.slug)} title="Copy link">
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(intakeForm)} title="Edit">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteIntakeForm(intakeForm)}
+                        title="Unpublish"
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Intake Form' : 'New Intake Form'}</DialogTitle>
+            <DialogDescription>
+              Choose who can submit, where new projects go and which answers fill in the project.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="intake-title">Title *</Label>
+                <Input
+                  id="intake-title"
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  placeholder="e.g., New project request"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Access</Label>
+                <Select
+                  value={draft.access}
+                  onValueChange={(value) => setDraft({ ...draft, access: value as IntakeFormAccess })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="public">Public - anyone with the link</SelectItem>
+                    <SelectItem value="client_portal">Client portal - signed-in clients only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="intake-description">Introduction</Label>
+              <Textarea
+                id="intake-description"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={2}
+                placeholder="Shown above the form"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label>Account for new projects{draft.access === 'public' ? ' *' : ''}</Label>
+                <Select
+                  value={draft.account_id || NONE}
+                  onValueChange={(value) => setDraft({ ...draft, account_id: value === NONE ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>
+                      {draft.access === 'public' ? 'Choose an account' : 'Submitting client’s account'}
+                    </SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {draft.access === 'client_portal' && draft.account_id && (
+                  <p className="text-xs text-muted-foreground">Only this account&apos;s clients can use the form.</p>
+                )}
+              </div>
+              <div className="space-y-1">
+                <Label>Start workflow</Label>
+                <Select
+                  value={draft.workflow_template_id || NONE}
+                  onValueChange={(value) => setDraft({ ...draft, workflow_template_id: value === NONE ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>None (trigger rules apply)</SelectItem>
+                    {workflowTemplates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Default priority</Label>
+                <Select
+                  value={draft.default_priority}
+                  onValueChange={(value) => setDraft({ ...draft, default_priority: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {['low', 'medium', 'high', 'urgent'].map((priority) => (
+                      <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="intake-confirmation">Confirmation message</Label>
+              <Input
+                id="intake-confirmation"
+                value={draft.confirmation_message}
+                onChange={(e) => setDraft({ ...draft, confirmation_message: e.target.value })}
+                placeholder="Thanks! Your request has been received and our team will be in touch."
+              />
+            </div>
+
+            {!editingId && (
+              <div className="space-y-1">
+                <Label>Form</Label>
+                <Select value={draft.form_template_id} onValueChange={chooseTemplate}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NEW_FORM}>Build a new form</SelectItem>
+                    {formTemplates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {editingId && (
+              <div className="flex justify-end">
+                <FormVersionHistory formTemplateId={draft.form_template_id} />
+              </div>
+            )}
+
+            {canEditFields && (
+              <InlineFormBuilder
+                fields={draft.fields}
+                onChange={(fields) => setDraft((prev) => ({ ...prev, fields }))}
+              />
+            )}
+
+            {unsupportedFields.length > 0 && (
+              <p className="text-sm text-red-600">
+                Intake forms can&apos;t use file upload or user/account/project picker fields
+                ({unsupportedFields.map((field) => field.label).join(', ')}).
+              </p>
+            )}
+
+            <div className="space-y-2 border-t pt-4">
+              <Label className="font-semibold">Fill project details from</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {INTAKE_PROJECT_COLUMNS.map(({ column, label, fieldTypes }) => {
+                  const candidates = draft.fields.filter((field) => fieldTypes.includes(field.type));
+                  return (
+                    <div key={column} className="space-y-1">
+                      <Label className="text-xs">{label}{column === 'name' ? ' *' : ''}</Label>
+                      <Select
+                        value={draft.field_mappings[column] || NONE}
+                        onValueChange={(value) =>
+                          setDraft({
+                            ...draft,
+                            field_mappings: { ...draft.field_mappings, [column]: value === NONE ? null : value },
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>Not filled</SelectItem>
+                          {candidates.map((field) => (
+                            <SelectItem key={field.id} value={field.id}>{field.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={saveIntakeForm} disabled={saving || !draft.title.trim() || !draft.field_mappings.name}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editingId ? 'Save' : 'Publish'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { redirect } from 'next/navigation';
+import { createServerSupabase } from '@/lib/supabase-server';
+import { checkPermissionHybrid, isSuperadmin } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import { UserWithRoles } from '@/lib/rbac';
+import { AccessDeniedPage } from '@/components/access-denied-page';
+import IntakeFormsClient from './intake-forms-client';
+
+async function getUserWithRoles(): Promise<UserWithRoles | null> {
+  const supabase = await createServerSupabase();
+  if (!supabase) return null;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: userProfile } = await supabase
+    .from('user_profiles')
+    .select(`
+      *,
+      user_roles!user_roles_user_id_fkey(
+        id,
+        role_id,
+        assigned_at,
+        assigned_by,
+        roles!user_roles_role_id_fkey(
+          *,
+          departments!roles_department_id_fkey(*)
+        )
+      )
+    `)
+    .eq('id', user.id)
+    .single();
+
+  return userProfile as unknown as UserWithRoles;
+}
+
+
+export default async function IntakeFormsPage() {
+  const userProfile = await getUserWithRoles();
+
+  if (!userProfile) {
+    redirect('/login?redirectTo=/admin/intake-forms');
+  }
+
+  const supabase = await createServerSupabase();
+  const canManageWorkflows = isSuperadmin(userProfile) ||
+    await checkPermissionHybrid(userProfile, Permission.MANAGE_WORKFLOWS, undefined, supabase);
+
+  if (!canManageWorkflows) {
+    return (
+      <AccessDeniedPage
+        title="Access Denied"
+        description="You don't have permission to manage intake forms."
+        requiredPermission="MANAGE_WORKFLOWS"
+      />
+    );
+  }
+
+  const [{ data: accounts }, { data: workflowTemplates }, { data: formTemplates }] = supabase
+    ? await Promise.all([
+        supabase.from('accounts').select('id, name').order('name'),
+        supabase.from('workflow_templates').select('id, name').eq('is_active', true).order('name'),
+        supabase.from('form_templates').select('*').order('name'),
+      ])
+    : [{ data: [] }, { data: [] }, { data: [] }];
+
+  return (
+    <IntakeFormsClient
+      accounts={accounts || []}
+      workflowTemplates={workflowTemplates || []}
+      formTemplates={(formTemplates || []).map((template: any) => ({
+        id: template.id,
+        name: template.name,
+        fields: Array.isArray(template.fields) ? template.fields : [],
+      }))}
+    />
+  );
+}
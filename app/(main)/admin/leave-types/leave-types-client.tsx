@@ -0,0 +1,491 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Pencil, Plane, Plus, Scale } from 'lucide-react';
+import { toast } from 'sonner';
+import { createClientSupabase } from '@/lib/supabase';
+import { LeaveAccrual, LeaveBalance, LeaveBalanceAdjustment, LeaveType } from '@/lib/leave';
+
+const ACCRUAL_LABELS: Record<LeaveAccrual, string> = {
+  annual: 'Full allowance each year',
+  monthly: 'Accrues monthly',
+  none: 'Not tracked',
+};
+
+interface TypeForm {
+  id: string | null;
+  name: string;
+  color: string;
+  isPaid: boolean;
+  requiresApproval: boolean;
+  accrual: LeaveAccrual;
+  allowance: string;
+  isActive: boolean;
+  sortOrder: string;
+}
+
+function toForm(type: LeaveType | null): TypeForm {
+  if (!type) {
+    return {
+      id: null,
+      name: '',
+      color: '#3B82F6',
+      isPaid: true,
+      requiresApproval: true,
+      accrual: 'annual',
+      allowance: '',
+      isActive: true,
+      sortOrder: '0',
+    };
+  }
+  return {
+    id: type.id,
+    name: type.name,
+    color: type.color,
+    isPaid: type.isPaid,
+    requiresApproval: type.requiresApproval,
+    accrual: type.accrual,
+    allowance: type.annualAllowanceDays === null ? '' : String(type.annualAllowanceDays),
+    isActive: type.isActive,
+    sortOrder: String(type.sortOrder),
+  };
+}
+
+export default function LeaveTypesClient() {
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<TypeForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [users, setUsers] = useState<Array<{ id: string; name: string }>>([]);
+  const [balanceUserId, setBalanceUserId] = useState('');
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [adjustments, setAdjustments] = useState<LeaveBalanceAdjustment[]>([]);
+  const [loadingBalances, setLoadingBalances] = useState(false);
+  const [adjustment, setAdjustment] = useState<{ leaveTypeId: string; days: string; reason: string }>({
+    leaveTypeId: '',
+    days: '',
+    reason: '',
+  });
+
+  const loadTypes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/leave/types?include_inactive=true');
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load leave types');
+        return;
+      }
+      setLeaveTypes(data.leaveTypes || []);
+    } catch (error: unknown) {
+      console.error('Error loading leave types:', error);
+      toast.error('Failed to load leave types');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadBalances = useCallback(async (userId: string, forYear: number) => {
+    setLoadingBalances(true);
+    try {
+      const params = new URLSearchParams({ user_id: userId, year: String(forYear) });
+      const response = await fetch(`/api/leave/balances?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load balances');
+        return;
+      }
+      setBalances(data.balances || []);
+      setAdjustments(data.adjustments || []);
+    } catch (error: unknown) {
+      console.error('Error loading leave balances:', error);
+      toast.error('Failed to load balances');
+    } finally {
+      setLoadingBalances(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTypes();
+
+    const loadUsers = async () => {
+      const supabase = createClientSupabase() as any;
+      if (!supabase) return;
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, name')
+        .order('name');
+      if (error) {
+        console.error('Error loading users:', error);
+        return;
+      }
+      setUsers(data || []);
+    };
+    loadUsers();
+  }, [loadTypes]);
+
+  useEffect(() => {
+    if (balanceUserId) void loadBalances(balanceUserId, year);
+  }, [balanceUserId, year, loadBalances]);
+
+  const saveType = async () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    const allowance = form.allowance.trim() === '' ? null : Number(form.allowance);
+    if (allowance !== null && (!Number.isFinite(allowance) || allowance < 0)) {
+      toast.error('Allowance must be a number of days, or blank for unlimited');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(form.id ? `/api/leave/types/${form.id}` : '/api/leave/types', {
+        method: form.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          color: form.color,
+          is_paid: form.isPaid,
+          requires_approval: form.requiresApproval,
+          accrual: form.accrual,
+          annual_allowance_days: form.accrual === 'none' ? null : allowance,
+          is_active: form.isActive,
+          sort_order: Number(form.sortOrder) || 0,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save leave type');
+        return;
+      }
+      toast.success(form.id ? 'Leave type updated' : 'Leave type added');
+      setForm(null);
+      await loadTypes();
+    } catch (error: unknown) {
+      console.error('Error saving leave type:', error);
+      toast.error('Failed to save leave type');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveAdjustment = async () => {
+    const days = Number(adjustment.days);
+    if (!balanceUserId || !adjustment.leaveTypeId) {
+      toast.error('Choose a person and a leave type');
+      return;
+    }
+    if (!Number.isFinite(days) || days === 0) {
+      toast.error('Enter the days to add (or a negative number to remove)');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/leave/adjustments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          user_id: balanceUserId,
+          leave_type_id: adjustment.leaveTypeId,
+          year,
+          days,
+          reason: adjustment.reason.trim() || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to adjust balance');
+        return;
+      }
+      toast.success('Balance adjusted');
+      setAdjustment({ leaveTypeId: adjustment.leaveTypeId, days: '', reason: '' });
+      await loadBalances(balanceUserId, year);
+    } catch (error: unknown) {
+      console.error('Error adjusting leave balance:', error);
+      toast.error('Failed to adjust balance');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const typeName = (id: string) => leaveTypes.find((t) => t.id === id)?.name ?? 'Unknown';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Plane className="h-7 w-7" />
+            Leave Types
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Allowances, accrual and approval rules for time off, and per-person balance adjustments.
+          </p>
+        </div>
+        <Button onClick={() => setForm(toForm(null))}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Leave Type
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Leave Types</CardTitle>
+          <CardDescription>Blank allowance means unlimited - requests are recorded but never run out.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : leaveTypes.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No leave types yet.</p>
+          ) : (
+            <div className="divide-y">
+              {leaveTypes.map((type) => (
+                <div key={type.id} className="flex items-center justify-between gap-4 py-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="h-3 w-3 rounded-full" style={{ backgroundColor: type.color }} />
+                      <span className="font-medium">{type.name}</span>
+                      {!type.isActive && <Badge variant="secondary">Inactive</Badge>}
+                      {!type.isPaid && <Badge variant="outline">Unpaid</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {type.annualAllowanceDays === null || type.accrual === 'none'
+                        ? 'Unlimited'
+                        : `${type.annualAllowanceDays} days a year, ${ACCRUAL_LABELS[type.accrual].toLowerCase()}`}
+                      {' · '}
+                      {type.requiresApproval ? 'Needs approval' : 'Approved automatically'}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setForm(toForm(type))}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Balances
+          </CardTitle>
+          <CardDescription>Check someone&apos;s balance and add or remove days for carry-over or corrections.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2 w-64">
+              <Label>Person</Label>
+              <Select value={balanceUserId} onValueChange={setBalanceUserId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a person" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map((u) => (
+                    <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 w-28">
+              <Label htmlFor="balance-year">Year</Label>
+              <Input
+                id="balance-year"
+                type="number"
+                value={year}
+                onChange={(e) => setYear(Number(e.target.value) || new Date().getFullYear())}
+              />
+            </div>
+          </div>
+
+          {balanceUserId && (loadingBalances ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                {balances.map((balance) => (
+                  <div key={balance.leaveTypeId} className="rounded-lg border p-3">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: balance.color }} />
+                      {balance.leaveTypeName}
+                    </div>
+                    <p className="text-xl font-bold mt-1">
+                      {balance.tracked ? `${balance.remaining} left` : `${balance.taken} taken`}
+                    </p>
+                    {balance.tracked && (
+                      <p className="text-xs text-muted-foreground">
+                        {balance.accrued} accrued, {balance.adjustments} adjusted, {balance.taken} taken, {balance.pending} pending
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-[1fr_8rem_2fr_auto] items-end">
+                <div className="space-y-2">
+                  <Label>Leave type</Label>
+                  <Select
+                    value={adjustment.leaveTypeId}
+                    onValueChange={(value) => setAdjustment({ ...adjustment, leaveTypeId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {leaveTypes.filter((t) => t.isActive).map((type) => (
+                        <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="adjust-days">Days</Label>
+                  <Input
+                    id="adjust-days"
+                    type="number"
+                    step="0.5"
+                    value={adjustment.days}
+                    onChange={(e) => setAdjustment({ ...adjustment, days: e.target.value })}
+                    placeholder="e.g. 3 or -1"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="adjust-reason">Reason</Label>
+                  <Input
+                    id="adjust-reason"
+                    value={adjustment.reason}
+                    onChange={(e) => setAdjustment({ ...adjustment, reason: e.target.value })}
+                    placeholder="Carry-over from last year"
+                  />
+                </div>
+                <Button onClick={() => { void saveAdjustment(); }} disabled={saving}>
+                  Adjust
+                </Button>
+              </div>
+
+              {adjustments.length > 0 && (
+                <div className="divide-y text-sm">
+                  {adjustments.map((a) => (
+                    <div key={a.id} className="flex justify-between py-2">
+                      <span>{typeName(a.leaveTypeId)}{a.reason ? ` - ${a.reason}` : ''}</span>
+                      <span className={a.days > 0 ? 'text-green-700' : 'text-red-700'}>
+                        {a.days > 0 ? '+' : ''}{a.days} days
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={form !== null} onOpenChange={(open) => { if (!open) setForm(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit Leave Type' : 'Add Leave Type'}</DialogTitle>
+            <DialogDescription>Changes apply to balances straight away.</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-[1fr_6rem] gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="type-name">Name</Label>
+                  <Input id="type-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="type-color">Color</Label>
+                  <Input id="type-color" type="color" value={form.color} onChange={(e) => setForm({ ...form, color: e.target.value })} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Accrual</Label>
+                  <Select value={form.accrual} onValueChange={(value) => setForm({ ...form, accrual: value as LeaveAccrual })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ACCRUAL_LABELS) as LeaveAccrual[]).map((accrual) => (
+                        <SelectItem key={accrual} value={accrual}>{ACCRUAL_LABELS[accrual]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="type-allowance">Days per year</Label>
+                  <Input
+                    id="type-allowance"
+                    type="number"
+                    step="0.5"
+                    value={form.allowance}
+                    disabled={form.accrual === 'none'}
+                    placeholder="Unlimited"
+                    onChange={(e) => setForm({ ...form, allowance: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="type-approval" checked={form.requiresApproval} onCheckedChange={(checked) => setForm({ ...form, requiresApproval: checked })} />
+                <Label htmlFor="type-approval">Needs manager approval</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="type-paid" checked={form.isPaid} onCheckedChange={(checked) => setForm({ ...form, isPaid: checked })} />
+                <Label htmlFor="type-paid">Paid</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="type-active" checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                <Label htmlFor="type-active">Available to request</Label>
+              </div>
+              <div className="space-y-2 w-28">
+                <Label htmlFor="type-order">Sort order</Label>
+                <Input id="type-order" type="number" value={form.sortOrder} onChange={(e) => setForm({ ...form, sortOrder: e.target.value })} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={() => { void saveType(); }} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
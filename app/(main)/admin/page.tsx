@@ -12,7 +12,15 @@ import {
   Database,
   Activity,
   Loader2,
-  BarChart3
+  BarChart3,
+  UserCog,
+  CalendarDays,
+  CalendarRange,
+  FileInput,
+  FileSpreadsheet,
+  FlaskConical,
+  Plane,
+  GraduationCap
 } from 'lucide-react';
 import Link from 'next/link';
 import { useAuth } from '@/lib/hooks/useAuth';
@@ -93,6 +101,91 @@ export default function AdminHubPage() {
       anyPermission: null,
       superadminOnly: false,
     },
+    {
+      title: 'Business Calendar',
+      description: 'Set working days and hours, public holidays per region, and company shutdowns used by SLAs, due dates and capacity.',
+      icon: CalendarDays,
+      href: '/admin/business-calendar',
+      color: 'text-teal-600 bg-teal-50',
+      borderColor: 'border-teal-200',
+      features: [
+        'Working days & hours',
+        'Regional public holidays',
+        'Company shutdowns',
+        'User regions',
+      ],
+      requiredPermission: Permission.MANAGE_USERS,
+      anyPermission: null,
+      superadminOnly: false,
+    },
+    {
+      title: 'Resource Planner',
+      description: 'Plan hours per person per week across tasks, with over-allocation flagged against availability and holidays.',
+      icon: CalendarRange,
+      href: '/admin/resource-planner',
+      color: 'text-indigo-600 bg-indigo-50',
+      borderColor: 'border-indigo-200',
+      features: [
+        'People x weeks grid',
+        'Drag tasks onto weeks',
+        'Split estimates across weeks',
+        'Over-allocation warnings',
+      ],
+      requiredPermission: null,
+      anyPermission: [Permission.VIEW_TEAM_CAPACITY, Permission.VIEW_ALL_CAPACITY],
+      superadminOnly: false,
+    },
+    {
+      title: 'Capacity Scenarios',
+      description: 'Try tentative projects against live capacity to see which weeks and departments would go over 100%.',
+      icon: FlaskConical,
+      href: '/admin/capacity-scenarios',
+      color: 'text-teal-600 bg-teal-50',
+      borderColor: 'border-teal-200',
+      features: [
+        'Tentative projects by role and week',
+        'Utilization with and without the scenario',
+        'Over-capacity weeks highlighted',
+        'Never touches real capacity',
+      ],
+      requiredPermission: null,
+      anyPermission: [Permission.VIEW_ALL_CAPACITY],
+      superadminOnly: false,
+    },
+    {
+      title: 'Leave Types',
+      description: 'Set up PTO, sick and holiday allowances and accrual, and adjust individual balances for carry-over or corrections.',
+      icon: Plane,
+      href: '/admin/leave-types',
+      color: 'text-sky-600 bg-sky-50',
+      borderColor: 'border-sky-200',
+      features: [
+        'Annual or monthly accrual',
+        'Approval required or automatic',
+        'Per-person balance adjustments',
+        'Approved leave reduces availability',
+      ],
+      requiredPermission: Permission.MANAGE_USERS,
+      anyPermission: null,
+      superadminOnly: false,
+    },
+    {
+      title: 'Skills',
+      description: 'Manage the skills taxonomy and see who has which skills at what level, to staff projects and spot gaps.',
+      icon: GraduationCap,
+      href: '/admin/skills',
+      color: 'text-teal-600 bg-teal-50',
+      borderColor: 'border-teal-200',
+      features: [
+        'Skill categories and proficiency levels',
+        'People by skill matrix',
+        'Required skills on projects, tasks and workflow steps',
+        'Ranks assignees by skills, load and account familiarity',
+      ],
+      requiredPermission: null,
+      anyPermission: [Permission.MANAGE_USERS, Permission.VIEW_TEAM_CAPACITY, Permission.VIEW_ALL_CAPACITY],
+      superadminOnly: false,
+    },
   ];
 
   const workflowClientFeatures = [
@@ -113,6 +206,57 @@ export default function AdminHubPage() {
       anyPermission: [Permission.MANAGE_WORKFLOWS, Permission.MANAGE_ALL_WORKFLOWS],
       superadminOnly: false,
     },
+    {
+      title: 'Workflow Reassignment',
+      description: 'Move workflow steps and node assignments from one user to another across every active and paused workflow, with a preview first.',
+      icon: UserCog,
+      href: '/admin/workflows/reassign',
+      color: 'text-indigo-600 bg-indigo-50',
+      borderColor: 'border-indigo-200',
+      features: [
+        'Bulk handover between users',
+        'Preview before applying',
+        'Per-workflow selection',
+        'Role mismatch warnings',
+      ],
+      requiredPermission: Permission.MANAGE_ALL_WORKFLOWS,
+      anyPermission: null,
+      superadminOnly: false,
+    },
+    {
+      title: 'Intake Forms',
+      description: 'Publish form templates as public or client portal intake links. Each submission creates a project and can start a workflow.',
+      icon: FileInput,
+      href: '/admin/intake-forms',
+      color: 'text-orange-600 bg-orange-50',
+      borderColor: 'border-orange-200',
+      features: [
+        'Shareable intake links',
+        'Field to project mapping',
+        'Automatic workflow start',
+        'Spam and rate limiting',
+      ],
+      requiredPermission: Permission.MANAGE_WORKFLOWS,
+      anyPermission: null,
+      superadminOnly: false,
+    },
+    {
+      title: 'Form Responses',
+      description: 'Review every response to a form template in one table, with totals per field and CSV or Excel export.',
+      icon: FileSpreadsheet,
+      href: '/admin/form-responses',
+      color: 'text-sky-600 bg-sky-50',
+      borderColor: 'border-sky-200',
+      features: [
+        'Columns from the form fields',
+        'Date, project & submitter filters',
+        'Totals and answer counts',
+        'CSV and XLSX export',
+      ],
+      requiredPermission: Permission.MANAGE_WORKFLOWS,
+      anyPermission: null,
+      superadminOnly: false,
+    },
     {
       title: 'Client Portal',
       description: 'Manage client invitations, access, and feedback. Enable clients to view projects, provide feedback, and approve workflow steps.',
@@ -0,0 +1,60 @@
+import { redirect } from 'next/navigation';
+import { createServerSupabase } from '@/lib/supabase-server';
+import { checkAnyPermission, isSuperadmin } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import { UserWithRoles } from '@/lib/rbac';
+import { AccessDeniedPage } from '@/components/access-denied-page';
+import ResourcePlannerClient from './resource-planner-client';
+
+async function getUserWithRoles(): Promise<UserWithRoles | null> {
+  const supabase = await createServerSupabase();
+  if (!supabase) return null;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: userProfile } = await supabase
+    .from('user_profiles')
+    .select(`
+      *,
+      user_roles!user_roles_user_id_fkey(
+        id,
+        role_id,
+        assigned_at,
+        assigned_by,
+        roles!user_roles_role_id_fkey(
+          *,
+          departments!roles_department_id_fkey(*)
+        )
+      )
+    `)
+    .eq('id', user.id)
+    .single();
+
+  return userProfile as unknown as UserWithRoles;
+}
+
+
+export default async function ResourcePlannerPage() {
+  const userProfile = await getUserWithRoles();
+
+  if (!userProfile) {
+    redirect('/login?redirectTo=/admin/resource-planner');
+  }
+
+  const supabase = await createServerSupabase();
+  const canViewCapacity = isSuperadmin(userProfile) ||
+    await checkAnyPermission(userProfile, [Permission.VIEW_TEAM_CAPACITY, Permission.VIEW_ALL_CAPACITY], undefined, supabase);
+
+  if (!canViewCapacity) {
+    return (
+      <AccessDeniedPage
+        title="Access Denied"
+        description="You don't have permission to view team capacity."
+        requiredPermission="VIEW_TEAM_CAPACITY"
+      />
+    );
+  }
+
+  return <ResourcePlannerClient />;
+}
@@ -0,0 +1,622 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalendarRange, ChevronDown, ChevronLeft, ChevronRight, GripVertical, Loader2, Split } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AllocationLoad,
+  DEFAULT_PLANNER_WEEKS,
+  getAllocatedHours,
+  getAllocationLoad,
+  getUnplannedHours,
+  groupPlannerPeople,
+  MAX_ALLOCATION_HOURS,
+  PlannerAllocation,
+  PlannerGrouping,
+  PlannerPerson,
+  PlannerTask,
+  ResourcePlan,
+  roundHours,
+  shiftWeek,
+  toWeekStart,
+} from '@/lib/resource-planner';
+import { toDateKey } from '@/lib/business-calendar-service';
+
+// Hours a dropped task gets when it has no estimate left to go by
+const DEFAULT_DROP_HOURS = 8;
+
+const WEEK_COUNTS = [4, 6, 8, 12];
+
+const LOAD_STYLES: Record<AllocationLoad, string> = {
+  free: 'bg-gray-50 text-gray-500',
+  partial: 'bg-green-50 text-green-800',
+  full: 'bg-blue-50 text-blue-800',
+  over: 'bg-red-50 text-red-800 ring-1 ring-inset ring-red-200',
+};
+
+function weekLabel(weekStartDate: string): string {
+  return new Date(`${weekStartDate}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function cellId(userId: string, weekStartDate: string): string {
+  return `cell:${userId}:${weekStartDate}`;
+}
+
+function PersonWeekCell({
+  userId,
+  weekStartDate,
+  allocated,
+  available,
+  droppable,
+}: {
+  userId: string;
+  weekStartDate: string;
+  allocated: number;
+  available: number;
+  droppable: boolean;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: cellId(userId, weekStartDate), disabled: !droppable });
+  const load = getAllocationLoad(allocated, available);
+
+  return (
+    <td ref={setNodeRef} className="p-1">
+      <div
+        className={`rounded px-2 py-1.5 text-xs text-center ${LOAD_STYLES[load]} ${isOver ? 'ring-2 ring-indigo-400' : ''}`}
+        title={load === 'over' ? `Over-allocated by ${roundHours(allocated - available)}h` : undefined}
+      >
+        <span className="font-medium">{allocated}h</span>
+        <span className="opacity-70"> / {available}h</span>
+      </div>
+    </td>
+  );
+}
+
+function DraggableTask({ task, unplanned }: { task: PlannerTask; unplanned: number | null }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: `task:${task.id}` });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className={`flex items-start gap-2 rounded border bg-white p-2 text-sm cursor-grab ${isDragging ? 'opacity-40' : ''}`}
+    >
+      <GripVertical className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+      <div className="min-w-0">
+        <div className="font-medium truncate">{task.name}</div>
+        <div className="text-xs text-muted-foreground truncate">
+          {task.projectName}{task.accountName ? ` - ${task.accountName}` : ''}
+        </div>
+        {unplanned !== null && (
+          <div className="text-xs text-muted-foreground">{unplanned}h to plan</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AllocationInput({
+  allocation,
+  canEdit,
+  onCommit,
+}: {
+  allocation: PlannerAllocation | null;
+  canEdit: boolean;
+  onCommit: (hours: number) => void;
+}) {
+  const hours = allocation?.hours ?? 0;
+  const [value, setValue] = useState(hours ? String(hours) : '');
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `allocation:${allocation?.id}`,
+    disabled: !canEdit || !allocation,
+  });
+
+  useEffect(() => {
+    setValue(hours ? String(hours) : '');
+  }, [hours]);
+
+  if (!canEdit) {
+    return <div className="text-xs text-center text-gray-600">{hours ? `${hours}h` : ''}</div>;
+  }
+
+  const commit = () => {
+    const next = value.trim() === '' ? 0 : Number(value);
+    if (!Number.isFinite(next) || next < 0 || next > MAX_ALLOCATION_HOURS) {
+      toast.error(`Hours must be between 0 and ${MAX_ALLOCATION_HOURS}`);
+      setValue(hours ? String(hours) : '');
+      return;
+    }
+    if (roundHours(next) !== hours) onCommit(next);
+  };
+
+  return (
+    <div className={`flex items-center gap-0.5 ${isDragging ? 'opacity-40' : ''}`}>
+      {allocation && (
+        <span ref={setNodeRef} {...attributes} {...listeners} className="cursor-grab text-gray-400" title="Drag to another week or person">
+          <GripVertical className="w-3 h-3" />
+        </span>
+      )}
+      <Input
+        type="number"
+        min={0}
+        max={MAX_ALLOCATION_HOURS}
+        step={0.25}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        }}
+        className="h-7 px-1 text-xs text-center"
+      />
+    </div>
+  );
+}
+
+export default function ResourcePlannerClient() {
+  const [startWeek, setStartWeek] = useState(() => toWeekStart(toDateKey(new Date())));
+  const [weekCount, setWeekCount] = useState(DEFAULT_PLANNER_WEEKS);
+  const [grouping, setGrouping] = useState<PlannerGrouping>('department');
+  const [plan, setPlan] = useState<ResourcePlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [taskSearch, setTaskSearch] = useState('');
+  const [activeDrag, setActiveDrag] = useState<string | null>(null);
+  const [splitTarget, setSplitTarget] = useState<{ task: PlannerTask; person: PlannerPerson } | null>(null);
+  const [splitWeeks, setSplitWeeks] = useState<string[]>([]);
+  const [splitting, setSplitting] = useState(false);
+
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+  const loadPlan = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/capacity/planner?start=${startWeek}&weeks=${weekCount}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load resource plan');
+        return;
+      }
+      setPlan(data.plan);
+    } catch (error: unknown) {
+      toast.error('Failed to load resource plan');
+      console.error('Error loading resource plan:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [startWeek, weekCount]);
+
+  useEffect(() => {
+    loadPlan();
+  }, [loadPlan]);
+
+  const tasksById = useMemo(() => new Map((plan?.tasks || []).map((task) => [task.id, task])), [plan]);
+  const groups = useMemo(() => (plan ? groupPlannerPeople(plan.people, grouping) : []), [plan, grouping]);
+
+  const filteredTasks = useMemo(() => {
+    const search = taskSearch.trim().toLowerCase();
+    return (plan?.tasks || []).filter((task) =>
+      !search ||
+      task.name.toLowerCase().includes(search) ||
+      task.projectName.toLowerCase().includes(search) ||
+      (task.accountName || '').toLowerCase().includes(search)
+    );
+  }, [plan, taskSearch]);
+
+  // Replace the allocations for the cells a response touched
+  const applyAllocations = (removed: { taskId: string; userId: string; weekStartDate: string }[], added: PlannerAllocation[]) => {
+    setPlan((prev) => {
+      if (!prev) return prev;
+      const matches = (a: PlannerAllocation, cell: { taskId: string; userId: string; weekStartDate: string }) =>
+        a.taskId === cell.taskId && a.userId === cell.userId && a.weekStartDate === cell.weekStartDate;
+      const touched = [...removed, ...added];
+      const allocations = prev.allocations.filter((a) => !touched.some((cell) => matches(a, cell)));
+      return { ...prev, allocations: [...allocations, ...added] };
+    });
+  };
+
+  const setCellHours = async (task: PlannerTask, userId: string, weekStartDate: string, hours: number) => {
+    try {
+      const response = await fetch('/api/capacity/allocations', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ task_id: task.id, user_id: userId, week_start_date: weekStartDate, hours }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save allocation');
+        return;
+      }
+      applyAllocations([{ taskId: task.id, userId, weekStartDate }], data.allocation ? [data.allocation] : []);
+    } catch (error: unknown) {
+      toast.error('Failed to save allocation');
+      console.error('Error saving allocation:', error);
+    }
+  };
+
+  const moveAllocation = async (allocation: PlannerAllocation, userId: string, weekStartDate: string) => {
+    if (allocation.userId === userId && allocation.weekStartDate === weekStartDate) return;
+
+    try {
+      const response = await fetch(`/api/capacity/allocations/${allocation.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ user_id: userId, week_start_date: weekStartDate }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to move allocation');
+        return;
+      }
+      applyAllocations([allocation], [data.allocation]);
+      setExpanded((prev) => new Set(prev).add(userId));
+    } catch (error: unknown) {
+      toast.error('Failed to move allocation');
+      console.error('Error moving allocation:', error);
+    }
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setActiveDrag(null);
+    if (!plan || !event.over) return;
+
+    const [, userId, weekStartDate] = String(event.over.id).split(':');
+    const [kind, id] = String(event.active.id).split(':');
+
+    if (kind === 'allocation') {
+      const allocation = plan.allocations.find((a) => a.id === id);
+      if (allocation) moveAllocation(allocation, userId, weekStartDate);
+      return;
+    }
+
+    const task = tasksById.get(id);
+    if (!task) return;
+
+    // Drop what's left of the task, up to the time the person has free that week
+    const existing = plan.allocations.find((a) => a.taskId === task.id && a.userId === userId && a.weekStartDate === weekStartDate);
+    const free = roundHours((plan.availability[userId]?.[weekStartDate] ?? 0) - getAllocatedHours(plan.allocations, userId, weekStartDate));
+    const unplanned = getUnplannedHours(task, plan.allocations);
+    const hours = Math.min(unplanned || DEFAULT_DROP_HOURS, free > 0 ? free : DEFAULT_DROP_HOURS);
+
+    setCellHours(task, userId, weekStartDate, Math.min((existing?.hours || 0) + hours, MAX_ALLOCATION_HOURS));
+    setExpanded((prev) => new Set(prev).add(userId));
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const [kind, id] = String(event.active.id).split(':');
+    const taskId = kind === 'allocation' ? plan?.allocations.find((a) => a.id === id)?.taskId : id;
+    setActiveDrag((taskId && tasksById.get(taskId)?.name) || null);
+  };
+
+  const toggleExpanded = (userId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(userId)) next.delete(userId);
+      else next.add(userId);
+      return next;
+    });
+  };
+
+  const openSplit = (task: PlannerTask, person: PlannerPerson) => {
+    setSplitTarget({ task, person });
+    setSplitWeeks(plan?.weeks || []);
+  };
+
+  const submitSplit = async () => {
+    if (!splitTarget || splitWeeks.length === 0) return;
+
+    setSplitting(true);
+    try {
+      const response = await fetch('/api/capacity/allocations/split', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          task_id: splitTarget.task.id,
+          user_id: splitTarget.person.id,
+          week_start_dates: splitWeeks,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to split estimate');
+        return;
+      }
+      applyAllocations(
+        splitWeeks.map((weekStartDate) => ({ taskId: splitTarget.task.id, userId: splitTarget.person.id, weekStartDate })),
+        data.allocations || []
+      );
+      toast.success(`Split ${splitTarget.task.name} over ${splitWeeks.length} week${splitWeeks.length === 1 ? '' : 's'}`);
+      setSplitTarget(null);
+    } catch (error: unknown) {
+      toast.error('Failed to split estimate');
+      console.error('Error splitting task estimate:', error);
+    } finally {
+      setSplitting(false);
+    }
+  };
+
+  const personTasks = (person: PlannerPerson, groupId: string | null): PlannerTask[] => {
+    if (!plan) return [];
+    const taskIds = new Set(plan.allocations.filter((a) => a.userId === person.id).map((a) => a.taskId));
+    return Array.from(taskIds)
+      .map((id) => tasksById.get(id))
+      .filter((task): task is PlannerTask => !!task)
+      // Grouped by account, each account shows only its own tasks
+      .filter((task) => grouping !== 'account' || task.accountId === groupId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  };
+
+  const weeks = plan?.weeks || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <CalendarRange className="w-6 h-6 text-indigo-600" />
+            Resource Planner
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Plan hours per person per week. Totals are checked against each person&apos;s availability, holidays included.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as PlannerGrouping)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="department">By department</SelectItem>
+              <SelectItem value="account">By account</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={String(weekCount)} onValueChange={(value) => setWeekCount(Number(value))}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEK_COUNTS.map((count) => (
+                <SelectItem key={count} value={String(count)}>{count} weeks</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={() => setStartWeek(shiftWeek(startWeek, -1))} aria-label="Previous week">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setStartWeek(toWeekStart(toDateKey(new Date())))}>
+            This week
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setStartWeek(shiftWeek(startWeek, 1))} aria-label="Next week">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {!plan ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => setActiveDrag(null)}>
+          <div className="flex gap-4 items-start">
+            {plan.canEdit && (
+              <Card className="w-72 flex-shrink-0">
+                <CardContent className="pt-4 space-y-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="planner-task-search">Tasks</Label>
+                    <Input
+                      id="planner-task-search"
+                      placeholder="Search tasks, projects, accounts"
+                      value={taskSearch}
+                      onChange={(e) => setTaskSearch(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">Drag a task onto a person&apos;s week to plan it.</p>
+                  </div>
+                  <div className="space-y-2 max-h-[65vh] overflow-y-auto">
+                    {filteredTasks.length === 0 ? (
+                      <p className="text-sm text-muted-foreground text-center py-4">No open tasks.</p>
+                    ) : (
+                      filteredTasks.map((task) => (
+                        <DraggableTask key={task.id} task={task} unplanned={getUnplannedHours(task, plan.allocations)} />
+                      ))
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="flex-1 min-w-0">
+              <CardContent className="pt-4 overflow-x-auto">
+                {loading && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    Updating...
+                  </div>
+                )}
+                {plan.people.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">No people to plan.</p>
+                ) : (
+                  <table className="w-full text-sm border-separate border-spacing-0">
+                    <thead>
+                      <tr>
+                        <th className="text-left font-medium text-muted-foreground p-2 min-w-56">Person</th>
+                        {weeks.map((week) => (
+                          <th key={week} className="font-medium text-muted-foreground p-2 min-w-28 text-center whitespace-nowrap">
+                            {weekLabel(week)}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {groups.map(({ group, people }) => (
+                        <Fragment key={group?.id || 'none'}>
+                          <tr>
+                            <td colSpan={weeks.length + 1} className="bg-gray-50 px-2 py-1.5 font-semibold text-gray-700 border-y">
+                              {group?.name || (grouping === 'department' ? 'No department' : 'No account')}
+                            </td>
+                          </tr>
+                          {people.map((person) => {
+                            const tasks = personTasks(person, group?.id || null);
+                            const isExpanded = expanded.has(person.id);
+                            return (
+                              <Fragment key={`${group?.id || 'none'}-${person.id}`}>
+                                <tr className="border-b">
+                                  <td className="p-2">
+                                    <button
+                                      type="button"
+                                      onClick={() => toggleExpanded(person.id)}
+                                      className="flex items-center gap-1 text-left"
+                                    >
+                                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                      <span className="font-medium">{person.name}</span>
+                                      {tasks.length > 0 && (
+                                        <Badge variant="secondary" className="ml-1 text-xs">{tasks.length}</Badge>
+                                      )}
+                                    </button>
+                                  </td>
+                                  {weeks.map((week) => (
+                                    <PersonWeekCell
+                                      key={week}
+                                      userId={person.id}
+                                      weekStartDate={week}
+                                      allocated={getAllocatedHours(plan.allocations, person.id, week)}
+                                      available={plan.availability[person.id]?.[week] ?? 0}
+                                      droppable={plan.canEdit}
+                                    />
+                                  ))}
+                                </tr>
+                                {isExpanded && tasks.length === 0 && (
+                                  <tr>
+                                    <td colSpan={weeks.length + 1} className="pl-8 py-1.5 text-xs text-muted-foreground">
+                                      Nothing planned in these weeks.
+                                    </td>
+                                  </tr>
+                                )}
+                                {isExpanded && tasks.map((task) => (
+                                  <tr key={task.id}>
+                                    <td className="pl-8 pr-2 py-1">
+                                      <div className="flex items-center justify-between gap-2">
+                                        <div className="min-w-0">
+                                          <div className="truncate text-sm">{task.name}</div>
+                                          <div className="truncate text-xs text-muted-foreground">{task.projectName}</div>
+                                        </div>
+                                        {plan.canEdit && (task.remainingHours ?? task.estimatedHours) !== null && (
+                                          <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-7 w-7 flex-shrink-0"
+                                            onClick={() => openSplit(task, person)}
+                                            title="Split the estimate across weeks"
+                                          >
+                                            <Split className="w-3.5 h-3.5" />
+                                          </Button>
+                                        )}
+                                      </div>
+                                    </td>
+                                    {weeks.map((week) => (
+                                      <td key={week} className="p-1">
+                                        <AllocationInput
+                                          allocation={plan.allocations.find((a) => a.taskId === task.id && a.userId === person.id && a.weekStartDate === week) || null}
+                                          canEdit={plan.canEdit}
+                                          onCommit={(hours) => setCellHours(task, person.id, week, hours)}
+                                        />
+                                      </td>
+                                    ))}
+                                  </tr>
+                                ))}
+                              </Fragment>
+                            );
+                          })}
+                        </Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <DragOverlay>
+            {activeDrag && (
+              <div className="rounded border bg-white px-3 py-2 text-sm shadow-lg">{activeDrag}</div>
+            )}
+          </DragOverlay>
+        </DndContext>
+      )}
+
+      <Dialog open={!!splitTarget} onOpenChange={(open) => !open && setSplitTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Split Estimate</DialogTitle>
+            <DialogDescription>
+              {splitTarget && (
+                <>
+                  Spread what&apos;s left of {splitTarget.task.name} evenly over {splitTarget.person.name}&apos;s weeks.
+                  Hours already planned in other weeks are left as they are.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2">
+            {weeks.map((week) => (
+              <label key={week} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={splitWeeks.includes(week)}
+                  onCheckedChange={(checked) =>
+                    setSplitWeeks((prev) => (checked ? [...prev, week].sort() : prev.filter((w) => w !== week)))
+                  }
+                />
+                Week of {weekLabel(week)}
+              </label>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSplitTarget(null)} disabled={splitting}>
+              Cancel
+            </Button>
+            <Button onClick={submitSplit} disabled={splitting || splitWeeks.length === 0}>
+              {splitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Split
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
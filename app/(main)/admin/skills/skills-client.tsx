@@ -0,0 +1,371 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GraduationCap, Grid3x3, Loader2, Pencil, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Skill, SKILL_PROFICIENCIES, SKILL_PROFICIENCY_LABELS, SkillProficiency } from '@/lib/skills';
+import type { SkillsMatrix } from '@/lib/skills-service';
+
+const ALL_CATEGORIES = '__all__';
+
+const LEVEL_CLASSES: Record<SkillProficiency, string> = {
+  1: 'bg-blue-50 text-blue-700',
+  2: 'bg-blue-100 text-blue-800',
+  3: 'bg-blue-300 text-blue-900',
+  4: 'bg-blue-600 text-white',
+};
+
+interface SkillForm {
+  id: string | null;
+  name: string;
+  category: string;
+  description: string;
+  isActive: boolean;
+}
+
+function toForm(skill: Skill | null): SkillForm {
+  if (!skill) {
+    return { id: null, name: '', category: '', description: '', isActive: true };
+  }
+  return {
+    id: skill.id,
+    name: skill.name,
+    category: skill.category ?? '',
+    description: skill.description ?? '',
+    isActive: skill.isActive,
+  };
+}
+
+interface SkillsClientProps {
+  canManage: boolean;
+}
+
+export default function SkillsClient({ canManage }: SkillsClientProps) {
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [matrix, setMatrix] = useState<SkillsMatrix>({ users: [], entries: [] });
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<SkillForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [search, setSearch] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [skillsResponse, matrixResponse] = await Promise.all([
+        fetch(`/api/skills${canManage ? '?include_inactive=true' : ''}`),
+        fetch('/api/skills/matrix'),
+      ]);
+      const skillsData = await skillsResponse.json();
+      const matrixData = await matrixResponse.json();
+      if (!skillsResponse.ok || !matrixResponse.ok) {
+        toast.error(skillsData.error || matrixData.error || 'Failed to load skills');
+        return;
+      }
+      setSkills(skillsData.skills || []);
+      setMatrix({ users: matrixData.users || [], entries: matrixData.entries || [] });
+    } catch (error: unknown) {
+      console.error('Error loading skills:', error);
+      toast.error('Failed to load skills');
+    } finally {
+      setLoading(false);
+    }
+  }, [canManage]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const categories = useMemo(
+    () => Array.from(new Set(skills.map((s) => s.category).filter((c): c is string => !!c))).sort(),
+    [skills]
+  );
+
+  const matrixSkills = useMemo(
+    () => skills.filter((s) => s.isActive && (category === ALL_CATEGORIES || s.category === category)),
+    [skills, category]
+  );
+
+  const levels = useMemo(() => {
+    const map = new Map<string, SkillProficiency>();
+    for (const entry of matrix.entries) {
+      map.set(`${entry.userId}:${entry.skillId}`, entry.proficiency);
+    }
+    return map;
+  }, [matrix.entries]);
+
+  const matrixUsers = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return term ? matrix.users.filter((u) => u.name.toLowerCase().includes(term)) : matrix.users;
+  }, [matrix.users, search]);
+
+  // People at Advanced or above - thin columns are staffing risks
+  const strongCount = (skillId: string) =>
+    matrix.entries.filter((e) => e.skillId === skillId && e.proficiency >= 3).length;
+
+  const saveSkill = async () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(form.id ? `/api/skills/${form.id}` : '/api/skills', {
+        method: form.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          category: form.category.trim() || null,
+          description: form.description.trim() || null,
+          is_active: form.isActive,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save skill');
+        return;
+      }
+      toast.success(form.id ? 'Skill updated' : 'Skill added');
+      setForm(null);
+      await load();
+    } catch (error: unknown) {
+      console.error('Error saving skill:', error);
+      toast.error('Failed to save skill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <GraduationCap className="h-7 w-7" />
+            Skills
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            The skills people can list on their profile, and who has what - used to suggest assignees.
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => setForm(toForm(null))}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Skill
+          </Button>
+        )}
+      </div>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Taxonomy</CardTitle>
+            <CardDescription>Inactive skills stay on people who have them but can&apos;t be newly picked.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : skills.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No skills yet.</p>
+            ) : (
+              <div className="divide-y">
+                {skills.map((skill) => (
+                  <div key={skill.id} className="flex items-center justify-between gap-4 py-3">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{skill.name}</span>
+                        {skill.category && <Badge variant="outline">{skill.category}</Badge>}
+                        {!skill.isActive && <Badge variant="secondary">Inactive</Badge>}
+                      </div>
+                      {skill.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{skill.description}</p>
+                      )}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => setForm(toForm(skill))}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Grid3x3 className="h-5 w-5" />
+            Skills Matrix
+          </CardTitle>
+          <CardDescription>
+            {SKILL_PROFICIENCIES.map((level) => `${level} = ${SKILL_PROFICIENCY_LABELS[level]}`).join(', ')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2 w-56">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                  {categories.map((c) => (
+                    <SelectItem key={c} value={c}>{c}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 w-64">
+              <Label htmlFor="matrix-search">Person</Label>
+              <Input
+                id="matrix-search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Filter by name"
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : matrixSkills.length === 0 || matrixUsers.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Nothing to show.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="text-sm">
+                <thead>
+                  <tr>
+                    <th className="sticky left-0 bg-white px-3 py-2 text-left font-medium">Person</th>
+                    {matrixSkills.map((skill) => (
+                      <th key={skill.id} className="px-2 py-2 text-center font-medium whitespace-nowrap" title={skill.description ?? undefined}>
+                        {skill.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {matrixUsers.map((user) => (
+                    <tr key={user.id}>
+                      <td className="sticky left-0 bg-white px-3 py-1.5 whitespace-nowrap">{user.name}</td>
+                      {matrixSkills.map((skill) => {
+                        const level = levels.get(`${user.id}:${skill.id}`);
+                        return (
+                          <td key={skill.id} className="px-2 py-1.5 text-center">
+                            {level && (
+                              <span
+                                className={`inline-block w-7 rounded py-0.5 text-xs font-semibold ${LEVEL_CLASSES[level]}`}
+                                title={SKILL_PROFICIENCY_LABELS[level]}
+                              >
+                                {level}
+                              </span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t">
+                    <td className="sticky left-0 bg-white px-3 py-2 text-xs text-muted-foreground">Advanced+</td>
+                    {matrixSkills.map((skill) => {
+                      const count = strongCount(skill.id);
+                      return (
+                        <td key={skill.id} className={`px-2 py-2 text-center text-xs ${count <= 1 ? 'text-red-600 font-semibold' : 'text-muted-foreground'}`}>
+                          {count}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={form !== null} onOpenChange={(open) => { if (!open) setForm(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit Skill' : 'Add Skill'}</DialogTitle>
+            <DialogDescription>Changes apply wherever the skill is used.</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="skill-name">Name</Label>
+                  <Input id="skill-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="skill-category">Category</Label>
+                  <Input
+                    id="skill-category"
+                    value={form.category}
+                    list="skill-categories"
+                    placeholder="e.g. Design"
+                    onChange={(e) => setForm({ ...form, category: e.target.value })}
+                  />
+                  <datalist id="skill-categories">
+                    {categories.map((c) => <option key={c} value={c} />)}
+                  </datalist>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="skill-description">Description</Label>
+                <Textarea
+                  id="skill-description"
+                  rows={2}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="skill-active" checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                <Label htmlFor="skill-active">Available to pick</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={() => { void saveSkill(); }} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
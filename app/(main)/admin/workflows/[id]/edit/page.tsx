@@ -6,10 +6,13 @@ import dynamic from 'next/dynamic';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { ArrowLeft, Loader2, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, Loader2, AlertTriangle, History } from 'lucide-react';
 import { toast } from 'sonner';
 import type { Node, Edge } from '@xyflow/react';
 import type { WorkflowNodeData } from '@/components/workflow-editor/workflow-node';
+import { WorkflowVersionsDialog } from '@/components/workflow-editor/workflow-versions-dialog';
+import { workflowNodeRowToEditorNode, workflowConnectionRowToEditorEdge } from '@/lib/workflow-editor-mapping';
+import type { SubworkflowReferenceMap } from '@/lib/workflow-validation';
 
 // Dynamically import WorkflowCanvas with SSR disabled
 const WorkflowCanvas = dynamic(
@@ -43,6 +46,8 @@ interface WorkflowTemplate {
   name: string;
   description: string | null;
   is_active: boolean;
+  current_version_id?: string | null;
+  has_unpublished_changes?: boolean;
 }
 
 export default function WorkflowEditorPage() {
@@ -59,6 +64,10 @@ export default function WorkflowEditorPage() {
   const [isActive, setIsActive] = useState(true);
   const [togglingActive, setTogglingActive] = useState(false);
   const [hasNodes, setHasNodes] = useState(false);
+  const [hasUnpublishedChanges, setHasUnpublishedChanges] = useState(false);
+  const [versionsOpen, setVersionsOpen] = useState(false);
+  const [otherTemplates, setOtherTemplates] = useState<{ id: string; name: string }[]>([]);
+  const [subworkflowReferences, setSubworkflowReferences] = useState<SubworkflowReferenceMap>({});
 
   const loadData = useCallback(async () => {
     try {
@@ -71,6 +80,13 @@ export default function WorkflowEditorPage() {
         const foundTemplate = templateData.templates.find((t: WorkflowTemplate) => t.id === templateId);
         setTemplate(foundTemplate || null);
         setIsActive(foundTemplate?.is_active ?? true);
+        setHasUnpublishedChanges(!!foundTemplate?.has_unpublished_changes || !foundTemplate?.current_version_id);
+        // Templates a sub-workflow node can start
+        setOtherTemplates(
+          templateData.templates
+            .filter((t: WorkflowTemplate) => t.id !== templateId)
+            .map((t: WorkflowTemplate) => ({ id: t.id, name: t.name }))
+        );
       }
 
       // Load departments
@@ -92,95 +108,17 @@ export default function WorkflowEditorPage() {
       // Load existing workflow nodes and connections
       const workflowRes = await fetch(`/api/admin/workflows/templates/${templateId}`);
       const workflowData = await workflowRes.json();
+      setSubworkflowReferences(workflowData.subworkflow_references || {});
 
       if (workflowData.success && workflowData.template?.nodes && workflowData.template.nodes.length > 0) {
         setHasNodes(true);
-        // Convert workflow_nodes to React Flow nodes
-        const nodes: Node<WorkflowNodeData>[] = workflowData.template.nodes.map((node: any) => {
-          const config: Record<string, unknown> = {};
-          const settings = node.settings as Record<string, unknown> | undefined;
-
-          // Handle department nodes
-          if (settings?.department_id) {
-            config.departmentId = settings.department_id;
-            config.departmentName = fetchedDepartments.find((d: Department) => d.id === settings.department_id)?.name;
-          }
-
-          // Handle role and approval nodes with entity_id
-          if (node.entity_id) {
-            if (node.node_type === 'role') {
-              config.roleId = node.entity_id;
-              config.roleName = fetchedRoles.find((r: Role) => r.id === node.entity_id)?.name;
-            } else if (node.node_type === 'approval') {
-              config.approverRoleId = node.entity_id;
-              config.approverRoleName = fetchedRoles.find((r: Role) => r.id === node.entity_id)?.name;
-              config.requiredApprovals = settings?.required_approvals || 1;
-              config.allowFeedback = settings?.allow_feedback !== undefined ? settings.allow_feedback : true;
-              config.allowSendBack = settings?.allow_send_back !== undefined ? settings.allow_send_back : true;
-            }
-          }
-
-          // Handle form nodes
-          if (node.node_type === 'form') {
-            config.formTemplateId = node.form_template_id;
-            config.formTemplateName = 'Form Template'; // TODO: Load from form_templates
-            config.allowAttachments = settings?.allow_attachments || false;
-            config.formFields = settings?.formFields || [];
-            config.formName = settings?.formName || '';
-            config.formDescription = settings?.formDescription || '';
-            config.isDraftForm = settings?.isDraftForm || false;
-          }
-
-          // Handle conditional nodes
-          if (node.node_type === 'conditional') {
-            config.conditionType = settings?.condition_type || 'form_value';
-            config.conditions = settings?.conditions || [];
-            // Critical: Load sourceFormFieldId for form-based conditional routing
-            config.sourceFormFieldId = settings?.sourceFormFieldId;
-            config.sourceFormNodeId = settings?.sourceFormNodeId;
-          }
-
-          return {
-            id: node.id,
-            type: 'workflowNode',
-            position: { x: node.position_x || 0, y: node.position_y || 0 },
-            data: {
-              label: node.label,
-              type: node.node_type,
-              config: Object.keys(config).length > 0 ? config : undefined,
-            },
-          };
-        });
-
-        // Convert workflow_connections to React Flow edges
-        const edges: Edge[] = (workflowData.template.connections || []).map((conn: any) => {
-          const edge: Edge = {
-            // Use the connection's actual UUID if available, otherwise create a composite ID
-            id: (conn.id as string) || `${conn.from_node_id as string}-${conn.to_node_id as string}`,
-            source: conn.from_node_id as string,
-            target: conn.to_node_id as string,
-            type: conn.condition ? 'labeled' : 'labeled', // Use labeled for all edges for consistent styling
-            // Restore sourceHandle for conditional branch edges
-            sourceHandle: (conn.condition as Record<string, unknown> | undefined)?.sourceHandle as string | undefined || undefined,
-          };
-
-          // Add condition data if present (for decision-based routing)
-          if (conn.condition) {
-            const condition = conn.condition as Record<string, unknown>;
-            edge.data = {
-              label: condition.label,
-              conditionValue: condition.conditionValue,
-              conditionType: condition.conditionType,
-              decision: condition.decision,  // For approval node routing
-              // Critical: Load form-based conditional routing fields
-              sourceFormFieldId: condition.sourceFormFieldId,
-              value: condition.value,
-              value2: condition.value2,
-            };
-          }
-
-          return edge;
-        });
+        // Convert workflow_nodes / workflow_connections to React Flow nodes and edges
+        const nodes: Node<WorkflowNodeData>[] = workflowData.template.nodes.map((node: any) =>
+          workflowNodeRowToEditorNode(node, { departments: fetchedDepartments, roles: fetchedRoles })
+        );
+        const edges: Edge[] = (workflowData.template.connections || []).map((conn: any) =>
+          workflowConnectionRowToEditorEdge(conn)
+        );
 
         setInitialNodes(nodes);
         setInitialEdges(edges);
@@ -225,6 +163,9 @@ export default function WorkflowEditorPage() {
       // Update hasNodes based on saved count
       setHasNodes(data.nodeCount > 0);
 
+      // Saved changes only reach new projects once published
+      setHasUnpublishedChanges(true);
+
       // If nodes were saved and is_active was auto-set, refresh the template status
       if (data.is_active !== undefined) {
         setIsActive(data.is_active);
@@ -327,8 +268,22 @@ export default function WorkflowEditorPage() {
             </div>
           </div>
 
-          {/* Activation Toggle */}
+          {/* Versions + Activation Toggle */}
           <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setVersionsOpen(true)}
+              disabled={!hasNodes}
+            >
+              <History className="w-4 h-4 mr-2" />
+              {hasUnpublishedChanges ? 'Publish / Versions' : 'Versions'}
+            </Button>
+            {hasNodes && hasUnpublishedChanges && (
+              <span className="px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-700 rounded">
+                Unpublished changes
+              </span>
+            )}
             {!hasNodes && (
               <div className="flex items-center gap-2 text-amber-600 text-sm">
                 <AlertTriangle className="w-4 h-4" />
@@ -361,9 +316,18 @@ export default function WorkflowEditorPage() {
           initialEdges={initialEdges}
           departments={departments}
           roles={roles}
+          workflowTemplates={otherTemplates}
+          subworkflowReferences={subworkflowReferences}
           onSave={handleSave}
         />
       </div>
+
+      <WorkflowVersionsDialog
+        open={versionsOpen}
+        onOpenChange={setVersionsOpen}
+        templateId={templateId}
+        onPublished={() => setHasUnpublishedChanges(false)}
+      />
     </div>
   );
 }
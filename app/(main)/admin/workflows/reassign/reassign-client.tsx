@@ -0,0 +1,342 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowRight, Eye, UserCog, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface UserOption {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+interface ReassignmentItem {
+  kind: 'active_step' | 'node_assignment';
+  id: string;
+  workflowInstanceId: string;
+  instanceStatus: string;
+  projectId: string | null;
+  projectName: string | null;
+  nodeId: string;
+  nodeLabel: string;
+  stepStatus: string | null;
+  alreadyAssigned: boolean;
+  missingRole: boolean;
+}
+
+interface ReassignmentPreview {
+  from_user: { id: string; name: string | null };
+  to_user: { id: string; name: string | null };
+  items: ReassignmentItem[];
+  active_step_count: number;
+  node_assignment_count: number;
+}
+
+interface ReassignClientProps {
+  users: UserOption[];
+}
+
+export default function ReassignClient({ users }: ReassignClientProps) {
+  const [fromUserId, setFromUserId] = useState('');
+  const [toUserId, setToUserId] = useState('');
+  const [preview, setPreview] = useState<ReassignmentPreview | null>(null);
+  const [excludedInstanceIds, setExcludedInstanceIds] = useState<Set<string>>(new Set());
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  // Group the preview by workflow instance so whole instances can be left out
+  const instanceGroups = useMemo(() => {
+    const groups = new Map<string, { projectName: string | null; instanceStatus: string; items: ReassignmentItem[] }>();
+    for (const item of preview?.items || []) {
+      const group = groups.get(item.workflowInstanceId);
+      if (group) {
+        group.items.push(item);
+      } else {
+        groups.set(item.workflowInstanceId, { projectName: item.projectName, instanceStatus: item.instanceStatus, items: [item] });
+      }
+    }
+    return [...groups.entries()];
+  }, [preview]);
+
+  const selectedInstanceIds = instanceGroups
+    .map(([instanceId]) => instanceId)
+    .filter((instanceId) => !excludedInstanceIds.has(instanceId));
+  const selectedItems = (preview?.items || []).filter((item) => !excludedInstanceIds.has(item.workflowInstanceId));
+
+  const userLabel = (user: UserOption) => user.name || user.email || 'Unnamed user';
+
+  const resetPreview = () => {
+    setPreview(null);
+    setExcludedInstanceIds(new Set());
+  };
+
+  const handlePreview = async () => {
+    if (!fromUserId || !toUserId) {
+      toast.error('Please choose both users');
+      return;
+    }
+    if (fromUserId === toUserId) {
+      toast.error('Choose two different users');
+      return;
+    }
+
+    setLoadingPreview(true);
+    try {
+      const response = await fetch('/api/admin/workflows/reassign', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from_user_id: fromUserId, to_user_id: toUserId, dry_run: true }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setPreview(data);
+        setExcludedInstanceIds(new Set());
+      } else {
+        toast.error(data.error || 'Failed to preview reassignment');
+      }
+    } catch (err: unknown) {
+      toast.error('Failed to preview reassignment');
+      console.error('Error previewing reassignment:', err);
+    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview || selectedInstanceIds.length === 0) return;
+
+    setApplying(true);
+    try {
+      // Only the previewed instances are sent, so work assigned after the preview isn't moved unseen
+      const response = await fetch('/api/admin/workflows/reassign', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          from_user_id: preview.from_user.id,
+          to_user_id: preview.to_user.id,
+          instance_ids: selectedInstanceIds,
+          dry_run: false,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.error) {
+        toast.error(data.error);
+        return;
+      }
+
+      const moved = data.reassigned_steps + data.reassigned_assignments + data.removed_duplicates;
+      if (data.success) {
+        toast.success(`Reassigned ${moved} item${moved === 1 ? '' : 's'} to ${preview.to_user.name || 'the selected user'}`);
+      } else {
+        toast.warning(`Reassigned ${moved} item${moved === 1 ? '' : 's'}, ${data.errors.length} failed`, {
+          description: data.errors.slice(0, 3).join('\n'),
+        });
+      }
+
+      setConfirmOpen(false);
+      resetPreview();
+    } catch (err: unknown) {
+      toast.error('Failed to reassign workflow work');
+      console.error('Error applying reassignment:', err);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const toggleInstance = (instanceId: string, included: boolean) => {
+    setExcludedInstanceIds((prev) => {
+      const next = new Set(prev);
+      if (included) {
+        next.delete(instanceId);
+      } else {
+        next.add(instanceId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Workflow Reassignment</h1>
+        <p className="text-muted-foreground mt-2">
+          Move workflow steps and node assignments from one user to another across all active and paused workflows
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserCog className="w-5 h-5" />
+            Choose Users
+          </CardTitle>
+          <CardDescription>
+            Preview what will move before applying the reassignment
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="flex-1 space-y-2">
+              <Label>From</Label>
+              <Select value={fromUserId} onValueChange={(value) => { setFromUserId(value); resetPreview(); }}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select user..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {userLabel(user)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ArrowRight className="hidden md:block w-5 h-5 mb-2 text-muted-foreground" />
+            <div className="flex-1 space-y-2">
+              <Label>To</Label>
+              <Select value={toUserId} onValueChange={(value) => { setToUserId(value); resetPreview(); }}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select user..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.filter((user) => user.id !== fromUserId).map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {userLabel(user)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handlePreview} disabled={loadingPreview || !fromUserId || !toUserId}>
+              <Eye className="mr-2 h-4 w-4" />
+              {loadingPreview ? 'Loading...' : 'Preview'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  {preview.active_step_count} active step{preview.active_step_count === 1 ? '' : 's'} and{' '}
+                  {preview.node_assignment_count} node assignment{preview.node_assignment_count === 1 ? '' : 's'} from{' '}
+                  {preview.from_user.name || 'this user'} across {instanceGroups.length} workflow{instanceGroups.length === 1 ? '' : 's'}
+                </CardDescription>
+              </div>
+              <Button
+                onClick={() => setConfirmOpen(true)}
+                disabled={selectedItems.length === 0}
+              >
+                Reassign {selectedItems.length} item{selectedItems.length === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {instanceGroups.length === 0 ? (
+              <div className="text-center py-8 text-gray-400">
+                <UserCog className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">Nothing to reassign</p>
+                <p className="text-xs mt-1">This user has no steps or assignments in active or paused workflows</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {instanceGroups.map(([instanceId, group]) => {
+                  const included = !excludedInstanceIds.has(instanceId);
+                  return (
+                    <div key={instanceId} className={`p-4 border rounded-lg ${included ? '' : 'opacity-50'}`}>
+                      <div className="flex items-center gap-3">
+                        <Checkbox
+                          checked={included}
+                          onCheckedChange={(checked) => toggleInstance(instanceId, checked === true)}
+                        />
+                        <h3 className="font-semibold">{group.projectName || 'Untitled project'}</h3>
+                        {group.instanceStatus === 'paused' && (
+                          <Badge className="bg-amber-100 text-amber-800">Paused</Badge>
+                        )}
+                      </div>
+                      <div className="mt-2 ml-7 space-y-1">
+                        {group.items.map((item) => (
+                          <div key={`${item.kind}:${item.id}`} className="flex flex-wrap items-center gap-2 text-sm">
+                            <span>{item.nodeLabel}</span>
+                            {item.kind === 'active_step' ? (
+                              <Badge variant="outline" className="text-xs">
+                                {item.stepStatus === 'waiting' ? 'Waiting step' : 'Active step'}
+                              </Badge>
+                            ) : (
+                              <Badge variant="outline" className="text-xs">Node assignment</Badge>
+                            )}
+                            {item.alreadyAssigned && (
+                              <span className="text-xs text-muted-foreground">
+                                already assigned to {preview.to_user.name || 'new user'} - old assignment will be removed
+                              </span>
+                            )}
+                            {item.missingRole && (
+                              <span className="flex items-center gap-1 text-xs text-amber-700">
+                                <AlertTriangle className="w-3 h-3" />
+                                {preview.to_user.name || 'New user'} doesn&apos;t have this step&apos;s role
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reassign workflow work?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {selectedItems.length} item{selectedItems.length === 1 ? '' : 's'} in {selectedInstanceIds.length} workflow{selectedInstanceIds.length === 1 ? '' : 's'} will
+              move from {preview?.from_user.name || 'the current user'} to {preview?.to_user.name || 'the selected user'}.
+              A project update is posted on each affected project.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={applying}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); handleApply(); }} disabled={applying}>
+              {applying ? 'Reassigning...' : 'Reassign'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -25,8 +25,9 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Plus, Workflow, Edit, GitBranch, Trash2 } from 'lucide-react';
+import { Plus, Workflow, Edit, GitBranch, Trash2, Download, Upload, AlertTriangle, CheckCircle2, Zap } from 'lucide-react';
 import { toast } from 'sonner';
+import { WorkflowTriggerRulesDialog } from '@/components/workflow-trigger-rules-dialog';
 
 interface WorkflowTemplate {
   id: string;
@@ -36,6 +37,20 @@ interface WorkflowTemplate {
   is_active: boolean;
 }
 
+interface ImportReport {
+  template_name: string;
+  node_count: number;
+  edge_count: number;
+  unresolved: { kind: string; name: string; detail?: string; reason: 'not_found' | 'ambiguous'; nodeLabels: string[] }[];
+  form_templates_to_create: string[];
+  validation: {
+    valid: boolean;
+    errors: { code: string; message: string }[];
+    warnings: { code: string; message: string }[];
+  };
+  can_import: boolean;
+}
+
 interface WorkflowsClientProps {
   canManageWorkflows: boolean;
 }
@@ -50,6 +65,12 @@ export default function WorkflowsClient({ canManageWorkflows }: WorkflowsClientP
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [templateToDelete, setTemplateToDelete] = useState<WorkflowTemplate | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [importDocument, setImportDocument] = useState<unknown>(null);
+  const [importName, setImportName] = useState('');
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [triggersTemplate, setTriggersTemplate] = useState<WorkflowTemplate | null>(null);
 
   useEffect(() => {
     fetchTemplates();
@@ -137,6 +158,61 @@ export default function WorkflowsClient({ canManageWorkflows }: WorkflowsClientP
     }
   };
 
+  const resetImport = () => {
+    setImportDocument(null);
+    setImportName('');
+    setImportReport(null);
+  };
+
+  const runImport = async (document: unknown, dryRun: boolean, name?: string) => {
+    setImporting(true);
+    try {
+      const response = await fetch('/api/admin/workflows/templates/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ document, name: name || undefined, dry_run: dryRun }),
+      });
+
+      const data = await response.json();
+
+      if (data.template_name) {
+        setImportReport(data);
+      }
+
+      if (!data.success) {
+        toast.error(data.error || 'Failed to import workflow');
+        return;
+      }
+
+      if (!dryRun) {
+        toast.success('Workflow imported as an inactive draft');
+        setImportDialogOpen(false);
+        resetImport();
+        window.location.href = `/admin/workflows/${data.template_id}/edit`;
+      }
+    } catch (err: unknown) {
+      toast.error('Failed to import workflow');
+      console.error('Error importing workflow:', err);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const document = JSON.parse(await file.text());
+      setImportDocument(document);
+      setImportName('');
+      setImportReport(null);
+      await runImport(document, true);
+    } catch (err: unknown) {
+      toast.error('Could not read file - is it a workflow export (.json)?');
+      console.error('Error reading workflow import file:', err);
+    }
+  };
+
   const confirmDelete = (template: WorkflowTemplate) => {
     setTemplateToDelete(template);
     setDeleteDialogOpen(true);
@@ -152,10 +228,16 @@ export default function WorkflowsClient({ canManageWorkflows }: WorkflowsClientP
           </p>
         </div>
         {canManageWorkflows && (
-          <Button onClick={() => setCreateDialogOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            Create Workflow
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => { resetImport(); setImportDialogOpen(true); }}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button onClick={() => setCreateDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Workflow
+            </Button>
+          </div>
         )}
       </div>
 
@@ -215,6 +297,26 @@ export default function WorkflowsClient({ canManageWorkflows }: WorkflowsClientP
                       <Edit className="w-4 h-4 mr-1" />
                       Edit
                     </Button>
+                    {canManageWorkflows && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setTriggersTemplate(template)}
+                        title="Start this workflow automatically on project events"
+                      >
+                        <Zap className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {canManageWorkflows && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => window.location.href = `/api/admin/workflows/templates/${template.id}/export`}
+                        title="Export workflow as JSON"
+                      >
+                        <Download className="w-4 h-4" />
+                      </Button>
+                    )}
                     {canManageWorkflows && (
                       <Button
                         variant="outline"
@@ -280,6 +382,116 @@ export default function WorkflowsClient({ canManageWorkflows }: WorkflowsClientP
         </DialogContent>
       </Dialog>
 
+      {/* Import Dialog */}
+      <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import Workflow Template</DialogTitle>
+            <DialogDescription>
+              Upload a workflow exported from another environment. Roles, departments and users are matched by
+              name (users by email); nothing is created until every reference resolves.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">Export file (.json)</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => handleImportFile(e.target.files?.[0])}
+                disabled={importing}
+              />
+            </div>
+
+            {importReport && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="import-name">Workflow Name</Label>
+                  <Input
+                    id="import-name"
+                    value={importName}
+                    onChange={(e) => setImportName(e.target.value)}
+                    placeholder={importReport.template_name}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {importReport.node_count} nodes, {importReport.edge_count} connections
+                    {importReport.form_templates_to_create.length > 0 &&
+                      ` · will create form template(s): ${importReport.form_templates_to_create.join(', ')}`}
+                  </p>
+                </div>
+
+                {importReport.unresolved.length > 0 && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-1">
+                    <p className="text-sm font-medium text-red-800 flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      Unresolved references
+                    </p>
+                    <ul className="text-xs text-red-700 list-disc list-inside">
+                      {importReport.unresolved.map((ref) => (
+                        <li key={`${ref.kind}-${ref.name}-${ref.detail || ''}`}>
+                          {ref.kind} &quot;{ref.name}&quot;{ref.detail && ` (${ref.detail})`}{' '}
+                          {ref.reason === 'ambiguous' ? 'matches more than one' : 'not found'} — used by {ref.nodeLabels.join(', ')}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {importReport.validation.errors.length > 0 && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-sm font-medium text-red-800">Validation errors</p>
+                    <ul className="text-xs text-red-700 list-disc list-inside">
+                      {importReport.validation.errors.map((error, index) => (
+                        <li key={`${error.code}-${index}`}>{error.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {importReport.validation.warnings.length > 0 && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                    <p className="text-sm font-medium text-amber-800">Warnings</p>
+                    <ul className="text-xs text-amber-700 list-disc list-inside">
+                      {importReport.validation.warnings.map((warning, index) => (
+                        <li key={`${warning.code}-${index}`}>{warning.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {importReport.can_import && (
+                  <p className="text-sm text-green-700 flex items-center gap-2">
+                    <CheckCircle2 className="w-4 h-4" />
+                    Ready to import. The workflow will be created inactive and unpublished.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportDialogOpen(false)} disabled={importing}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => runImport(importDocument, false, importName)}
+              disabled={importing || !importReport?.can_import}
+            >
+              {importing ? 'Importing...' : 'Import Workflow'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {triggersTemplate && (
+        <WorkflowTriggerRulesDialog
+          open={!!triggersTemplate}
+          onOpenChange={(open) => { if (!open) setTriggersTemplate(null); }}
+          templateId={triggersTemplate.id}
+          templateName={triggersTemplate.name}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent className="max-w-lg">
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+
+// DELETE /api/admin/business-calendar/closures/[closureId] - Remove a holiday or shutdown
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ closureId: string }> }
+) {
+  const { closureId } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_USERS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { error } = await supabase
+      .from('business_calendar_closures')
+      .delete()
+      .eq('id', closureId);
+
+    if (error) {
+      console.error('Error deleting business calendar closure:', error);
+      return NextResponse.json({ error: 'Failed to delete closure' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { validateRequestBody, createBusinessCalendarClosureSchema } from '@/lib/validation-schemas';
+
+// POST /api/admin/business-calendar/closures - Add a public holiday or company shutdown
+export async function POST(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_USERS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(createBusinessCalendarClosureSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { data: closure, error } = await supabase
+      .from('business_calendar_closures')
+      .insert({ ...validation.data, created_by: userProfile.id })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating business calendar closure:', error);
+      return NextResponse.json({ error: 'Failed to add closure' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, closure }, { status: 201 });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
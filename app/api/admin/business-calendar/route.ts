@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { getBusinessCalendar } from '@/lib/business-calendar-service';
+import { validateRequestBody, updateBusinessCalendarSchema } from '@/lib/validation-schemas';
+
+// GET /api/admin/business-calendar - Working days, hours, holidays and shutdowns
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_USERS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const calendar = await getBusinessCalendar(supabase);
+
+    return NextResponse.json({ success: true, calendar });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// PUT /api/admin/business-calendar - Update working days, hours and the default region
+export async function PUT(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_USERS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(updateBusinessCalendarSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { error } = await supabase
+      .from('business_calendar')
+      .upsert({
+        id: true,
+        ...validation.data,
+        updated_by: userProfile.id,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      console.error('Error updating business calendar:', error);
+      return NextResponse.json({ error: 'Failed to update business calendar' }, { status: 500 });
+    }
+
+    const calendar = await getBusinessCalendar(supabase);
+
+    return NextResponse.json({ success: true, calendar });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { validateRequestBody, updateUserRegionSchema } from '@/lib/validation-schemas';
+
+// PATCH /api/admin/business-calendar/users/[userId] - Set which region's holidays apply to a user
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_USERS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(updateUserRegionSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { data: user, error } = await supabase
+      .from('user_profiles')
+      .update({ region: validation.data.region, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+      .select('id, name, email, region')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating user region:', error);
+      return NextResponse.json({ error: 'Failed to update user region' }, { status: 500 });
+    }
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, user });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { buildExportTable } from '@/lib/form-report';
+import { getFormResponseReport } from '@/lib/form-report-service';
+import { CSV_CONTENT_TYPE, toCsv, toXlsx, XLSX_CONTENT_TYPE } from '@/lib/spreadsheet-export';
+import { validateQueryParams, formResponseReportQuerySchema } from '@/lib/validation-schemas';
+
+// GET /api/admin/form-templates/[id]/responses/export - Download the responses report
+// Query params: format (csv | xlsx, default csv) plus the report filters
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(formResponseReportQuerySchema, Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const report = await getFormResponseReport(supabase, id, {
+      from: validation.data.from,
+      to: validation.data.to,
+      projectId: validation.data.project_id,
+      accountId: validation.data.account_id,
+      submitter: validation.data.submitter,
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: 'Form template not found' }, { status: 404 });
+    }
+
+    const table = buildExportTable(report.columns, report.rows);
+    const baseName = `${report.template.name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'form'}-responses`;
+
+    if (validation.data.format === 'xlsx') {
+      return new NextResponse(new Uint8Array(toXlsx(report.template.name, table)), {
+        status: 200,
+        headers: {
+          'Content-Type': XLSX_CONTENT_TYPE,
+          'Content-Disposition': `attachment; filename="${baseName}.xlsx"`,
+        },
+      });
+    }
+
+    return new NextResponse(toCsv(table), {
+      status: 200,
+      headers: {
+        'Content-Type': CSV_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${baseName}.csv"`,
+      },
+    });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
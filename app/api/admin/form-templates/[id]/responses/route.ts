@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { getFormResponseReport } from '@/lib/form-report-service';
+import { validateQueryParams, formResponseReportQuerySchema } from '@/lib/validation-schemas';
+
+// GET /api/admin/form-templates/[id]/responses - Responses report for a form template
+// Query params: from, to (YYYY-MM-DD), project_id, account_id, submitter
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(formResponseReportQuerySchema, Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const report = await getFormResponseReport(supabase, id, {
+      from: validation.data.from,
+      to: validation.data.to,
+      projectId: validation.data.project_id,
+      accountId: validation.data.account_id,
+      submitter: validation.data.submitter,
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: 'Form template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, report });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
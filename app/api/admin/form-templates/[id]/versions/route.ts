@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { getFormTemplateVersions } from '@/lib/form-template-version-service';
+
+// GET /api/admin/form-templates/[id]/versions - A form template's versions, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const versions = await getFormTemplateVersions(supabase, id);
+
+    return NextResponse.json({ success: true, versions });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { FormField, validateFormFields } from '@/lib/form-service';
+import { getFormTemplateFields } from '@/lib/intake-form-service';
+import { validateIntakeConfig } from '@/lib/intake-forms';
+import { recordFormTemplateVersion } from '@/lib/form-template-version-service';
+import { validateRequestBody, updateIntakeFormSchema } from '@/lib/validation-schemas';
+
+// GET /api/admin/intake-forms/[id] - An intake form with its template's fields
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { data: intakeForm } = await supabase
+      .from('form_intake_forms')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!intakeForm) {
+      return NextResponse.json({ error: 'Intake form not found' }, { status: 404 });
+    }
+
+    const fields = await getFormTemplateFields(supabase, intakeForm.form_template_id);
+
+    return NextResponse.json({ success: true, intakeForm, fields: fields || [] });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// PATCH /api/admin/intake-forms/[id] - Update an intake form's settings, mappings or fields
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(updateIntakeFormSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { data: existing } = await supabase
+      .from('form_intake_forms')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Intake form not found' }, { status: 404 });
+    }
+
+    const { fields: newFields, ...updates } = validation.data;
+
+    const access = updates.access ?? existing.access;
+    const accountId = updates.account_id !== undefined ? updates.account_id : existing.account_id;
+    if (access === 'public' && !accountId) {
+      return NextResponse.json({ error: 'Public intake forms need an account for new projects' }, { status: 400 });
+    }
+
+    let fields = newFields as FormField[] | undefined;
+    if (fields) {
+      try {
+        validateFormFields(fields);
+      } catch (error: unknown) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+      }
+    } else {
+      fields = (await getFormTemplateFields(supabase, existing.form_template_id)) || [];
+    }
+
+    const configError = validateIntakeConfig(fields, updates.field_mappings ?? existing.field_mappings ?? {});
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 400 });
+    }
+
+    if (newFields) {
+      const { data: template, error: templateError } = await supabase
+        .from('form_templates')
+        .update({ fields, updated_at: new Date().toISOString() })
+        .eq('id', existing.form_template_id)
+        .select('id, name')
+        .single();
+
+      if (templateError) {
+        console.error('Error updating intake form template:', templateError);
+        return NextResponse.json({ error: 'Failed to update form fields' }, { status: 500 });
+      }
+
+      // Responses already submitted keep rendering with the version they were filled in against
+      await recordFormTemplateVersion(supabase, {
+        formTemplateId: template.id,
+        name: template.name,
+        fields,
+        createdBy: userProfile.id,
+      });
+    }
+
+    const { data: intakeForm, error } = await supabase
+      .from('form_intake_forms')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating intake form:', error);
+      return NextResponse.json({ error: 'Failed to update intake form' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, intakeForm });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// DELETE /api/admin/intake-forms/[id] - Unpublish an intake form (its template and responses stay)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { error } = await supabase
+      .from('form_intake_forms')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting intake form:', error);
+      return NextResponse.json({ error: 'Failed to delete intake form' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { FormField, validateFormFields } from '@/lib/form-service';
+import { generateIntakeSlug, getFormTemplateFields, getIntakeForms } from '@/lib/intake-form-service';
+import { validateIntakeConfig } from '@/lib/intake-forms';
+import { recordFormTemplateVersion } from '@/lib/form-template-version-service';
+import { validateRequestBody, intakeFormSchema } from '@/lib/validation-schemas';
+
+// GET /api/admin/intake-forms - List intake forms
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const intakeForms = await getIntakeForms(supabase);
+
+    return NextResponse.json({ success: true, intakeForms });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// POST /api/admin/intake-forms - Publish a form template (existing or new) as an intake form
+export async function POST(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(intakeFormSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { fields: newFields, form_template_id, field_mappings, ...settings } = validation.data;
+
+    let fields: FormField[];
+    if (form_template_id) {
+      const templateFields = await getFormTemplateFields(supabase, form_template_id);
+      if (!templateFields) {
+        return NextResponse.json({ error: 'Form template not found' }, { status: 404 });
+      }
+      fields = templateFields;
+    } else {
+      fields = newFields as FormField[];
+      try {
+        validateFormFields(fields);
+      } catch (error: unknown) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+      }
+    }
+
+    const configError = validateIntakeConfig(fields, field_mappings);
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 400 });
+    }
+
+    let templateId = form_template_id;
+    if (!templateId) {
+      const { data: template, error: templateError } = await supabase
+        .from('form_templates')
+        .insert({
+          name: settings.title,
+          description: settings.description || null,
+          fields,
+          created_by: userProfile.id,
+          is_active: true,
+        })
+        .select('id')
+        .single();
+
+      if (templateError) {
+        console.error('Error creating intake form template:', templateError);
+        const duplicate = templateError.code === '23505';
+        return NextResponse.json({
+          error: duplicate ? 'A form template with this title already exists' : 'Failed to create form template'
+        }, { status: duplicate ? 409 : 500 });
+      }
+      templateId = template.id;
+
+      await recordFormTemplateVersion(supabase, {
+        formTemplateId: template.id,
+        name: settings.title,
+        fields,
+        createdBy: userProfile.id,
+      });
+    }
+
+    const { data: intakeForm, error } = await supabase
+      .from('form_intake_forms')
+      .insert({
+        ...settings,
+        form_template_id: templateId,
+        field_mappings,
+        slug: generateIntakeSlug(),
+        account_id: settings.account_id || null,
+        workflow_template_id: settings.workflow_template_id || null,
+        is_active: settings.is_active ?? true,
+        created_by: userProfile.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating intake form:', error);
+      return NextResponse.json({ error: 'Failed to create intake form' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, intakeForm }, { status: 201 });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
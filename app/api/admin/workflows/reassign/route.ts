@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { planWorkflowReassignment, reassignWorkflowSteps } from '@/lib/workflow-reassignment-service';
+import { validateRequestBody, reassignWorkflowStepsSchema } from '@/lib/validation-schemas';
+
+// POST /api/admin/workflows/reassign - Preview or apply a bulk reassignment of workflow work from one user to another
+export async function POST(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_ALL_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(reassignWorkflowStepsSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { from_user_id, to_user_id, instance_ids, dry_run } = validation.data;
+
+    if (dry_run) {
+      const { plan, error } = await planWorkflowReassignment(supabase, from_user_id, to_user_id, instance_ids);
+      if (!plan) {
+        return NextResponse.json({ error: error || 'Failed to preview reassignment' }, { status: 400 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        dry_run: true,
+        from_user: plan.fromUser,
+        to_user: plan.toUser,
+        items: plan.items,
+        active_step_count: plan.items.filter((i) => i.kind === 'active_step').length,
+        node_assignment_count: plan.items.filter((i) => i.kind === 'node_assignment').length,
+      });
+    }
+
+    const result = await reassignWorkflowSteps(supabase, from_user_id, to_user_id, userProfile.id, instance_ids);
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: result.success,
+      dry_run: false,
+      reassigned_steps: result.reassignedSteps,
+      reassigned_assignments: result.reassignedAssignments,
+      removed_duplicates: result.removedDuplicates,
+      errors: result.errors,
+    });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { exportWorkflowTemplate } from '@/lib/workflow-template-transfer';
+
+// GET /api/admin/workflows/templates/[id]/export - Download a template as a portable JSON document
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: templateId } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { document, error } = await exportWorkflowTemplate(supabase, templateId);
+    if (!document) {
+      return NextResponse.json({ error: error || 'Failed to export workflow' }, { status: 404 });
+    }
+
+    const fileName = `${document.template.name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'workflow'}.workflow.json`;
+
+    return new NextResponse(JSON.stringify(document, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -7,6 +7,7 @@ import {
   updateWorkflowTemplate,
   deleteWorkflowTemplate
 } from '@/lib/workflow-service';
+import { getSubworkflowReferences } from '@/lib/workflow-subworkflow-service';
 import { validateRequestBody, updateWorkflowTemplateSchema } from '@/lib/validation-schemas';
 import { checkDemoModeForDestructiveAction } from '@/lib/api-demo-guard';
 
@@ -65,7 +66,10 @@ export async function GET(
       return NextResponse.json({ error: 'Workflow template not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ success: true, template }, { status: 200 });
+    // Which templates other templates start as sub-workflows, so the editor can catch cycles before saving
+    const subworkflowReferences = await getSubworkflowReferences(supabase);
+
+    return NextResponse.json({ success: true, template, subworkflow_references: subworkflowReferences }, { status: 200 });
   } catch (error: unknown) {
 console.error('Error in GET /api/admin/workflows/templates/[id]:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createApiSupabaseClient } from '@/lib/supabase-server';
 import { hasPermission } from '@/lib/rbac';
 import { Permission } from '@/lib/permissions';
-
-// Node types that are allowed to have multiple outgoing edges
-const BRANCHING_NODE_TYPES = ['approval', 'conditional'];
+import { markTemplateDraftChanged } from '@/lib/workflow-version-service';
+import { editorNodeToWorkflowNodeRow, editorEdgeToWorkflowConnectionRow } from '@/lib/workflow-editor-mapping';
+import { findSubworkflowCycle, validateParallelPaths } from '@/lib/workflow-validation';
+import { getSubworkflowReferences } from '@/lib/workflow-subworkflow-service';
 
 // PUT /api/admin/workflows/templates/[id]/steps - Save all nodes and edges for a workflow
 export async function PUT(
@@ -83,40 +84,27 @@ export async function PUT(
       }
     }
 
-    // Server-side validation: Check for sync nodes (parallel workflows disabled)
-    const syncNodes = nodes.filter((n: any) => {
-      const data = n.data as Record<string, unknown> | undefined;
-      return data?.type === 'sync';
-    });
-    if (syncNodes.length > 0) {
+    // Server-side validation: Parallel work only through Fork nodes, each closed by one Join
+    const parallelErrors = validateParallelPaths(nodes, Array.isArray(edges) ? edges : []);
+    if (parallelErrors.length > 0) {
       return NextResponse.json({
-        error: 'Sync nodes are not allowed. Parallel workflows have been disabled.',
-        details: `Found ${syncNodes.length} sync node(s). Please remove them and use a single pathway.`
+        error: parallelErrors[0].message,
+        details: parallelErrors.slice(1).map((e) => e.message).join(' ') || undefined
       }, { status: 400 });
     }
 
-    // Server-side validation: Check for parallel paths (non-branching nodes with multiple outgoing edges)
-    if (edges && Array.isArray(edges)) {
-      const edgesBySource = new Map<string, Record<string, unknown>[]>();
-      edges.forEach((edge: any) => {
-        const source = edge.source as string;
-        const existing = edgesBySource.get(source) || [];
-        existing.push(edge);
-        edgesBySource.set(source, existing);
-      });
-
-      for (const node of nodes) {
-        const nodeType = node.data?.type;
-        if (nodeType === 'end') continue; // End nodes have no outgoing edges
-        if (BRANCHING_NODE_TYPES.includes(nodeType)) continue; // These can branch
-
-        const outgoingEdges = edgesBySource.get(node.id) || [];
-        if (outgoingEdges.length > 1) {
-          return NextResponse.json({
-            error: `Parallel workflows are not allowed. Node "${node.data?.label || node.id}" has ${outgoingEdges.length} outgoing connections.`,
-            details: 'Each node (except Approval and Conditional) can only have ONE outgoing connection.'
-          }, { status: 400 });
-        }
+    // Server-side validation: Sub-workflow nodes can't lead back to this template
+    const subworkflowTargets = nodes
+      .filter((n: any) => n.data?.type === 'subworkflow' && n.data?.config?.subworkflowTemplateId)
+      .map((n: any) => n.data.config.subworkflowTemplateId as string);
+    if (subworkflowTargets.length > 0) {
+      const references = await getSubworkflowReferences(supabase);
+      const cycle = findSubworkflowCycle(templateId, subworkflowTargets, references);
+      if (cycle) {
+        return NextResponse.json({
+          error: 'Sub-workflows cannot start each other in a loop.',
+          details: `Cycle: ${cycle.map((id) => references[id]?.name || id).join(' → ')}`
+        }, { status: 400 });
       }
     }
 
@@ -134,30 +122,8 @@ export async function PUT(
     }
     console.log('[Workflow Save] Template verified');
 
-    // First, get the node IDs that belong to this template
-    console.log('[Workflow Save] Getting existing node IDs...');
-    const { data: existingNodes } = await supabase
-      .from('workflow_nodes')
-      .select('id')
-      .eq('workflow_template_id', templateId);
-
-    const existingNodeIds = existingNodes?.map(n => n.id) || [];
-    console.log('[Workflow Save] Found', existingNodeIds.length, 'existing nodes');
-
-    // Nullify current_node_id on any workflow_instances referencing these nodes
-    // This prevents FK constraint violations when deleting nodes
-    if (existingNodeIds.length > 0) {
-      console.log('[Workflow Save] Nullifying current_node_id on affected workflow_instances...');
-      const { error: nullifyError } = await supabase
-        .from('workflow_instances')
-        .update({ current_node_id: null })
-        .in('current_node_id', existingNodeIds);
-
-      if (nullifyError) {
-        console.error('[Workflow Save] Error nullifying current_node_id:', nullifyError);
-        // Continue anyway - this is a best effort to avoid FK issues
-      }
-    }
+    // Running instances execute against their pinned published version (see
+    // lib/workflow-version-service.ts), so the draft can be replaced freely here.
 
     // Delete existing nodes and connections for this template
     // Connections will be cascade deleted due to foreign key constraint
@@ -177,37 +143,9 @@ export async function PUT(
     console.log('[Workflow Save] Existing nodes deleted successfully');
 
     // Insert new nodes
-    const nodeInserts = nodes.map((node: Record<string, unknown>, index: number) => {
-      const data = node.data as Record<string, unknown>;
-      const position = node.position as Record<string, unknown>;
-      const config = data.config as Record<string, unknown> | undefined;
-
-      return {
-        id: node.id,
-        workflow_template_id: templateId,
-        node_type: data.type,
-        label: data.label,
-        position_x: position.x,
-        position_y: position.y,
-        step_order: index,
-        entity_id: config?.roleId || config?.approverRoleId || null,
-        form_template_id: config?.formTemplateId || null,
-        settings: {
-          department_id: config?.departmentId,
-          required_approvals: config?.requiredApprovals,
-          allow_feedback: config?.allowFeedback,
-          allow_send_back: config?.allowSendBack,
-          allow_attachments: config?.allowAttachments,
-          formFields: config?.formFields,
-          formName: config?.formName,
-          formDescription: config?.formDescription,
-          isDraftForm: config?.isDraftForm,
-          condition_type: config?.conditionType,
-          conditions: config?.conditions,
-          sourceFormFieldId: config?.sourceFormFieldId,
-        },
-      };
-    });
+    const nodeInserts = nodes.map((node: Record<string, unknown>, index: number) =>
+      editorNodeToWorkflowNodeRow(node, templateId, index)
+    );
 
     console.log('[Workflow Save] Inserting', nodeInserts.length, 'nodes...');
     console.log('[Workflow Save] First node sample:', JSON.stringify(nodeInserts[0], null, 2));
@@ -228,27 +166,9 @@ export async function PUT(
 
     // Insert new connections/edges
     if (edges && Array.isArray(edges) && edges.length > 0) {
-      const connectionInserts = edges.map((edge: any) => {
-        const data = edge.data as Record<string, unknown> | undefined;
-
-        return {
-          workflow_template_id: templateId,
-          from_node_id: edge.source,
-          to_node_id: edge.target,
-          condition: data || edge.sourceHandle ? {
-            label: data?.label,
-            conditionValue: data?.conditionValue,
-            conditionType: data?.conditionType,
-            decision: data?.decision,
-            // Critical fields for form-based conditional routing
-            sourceFormFieldId: data?.sourceFormFieldId,
-            value: data?.value,
-            value2: data?.value2,
-            // Store sourceHandle for conditional branch edges
-            sourceHandle: edge.sourceHandle,
-          } : null,
-        };
-      });
+      const connectionInserts = edges.map((edge: any) =>
+        editorEdgeToWorkflowConnectionRow(edge, templateId)
+      );
 
       console.log('[Workflow Save] Inserting', connectionInserts.length, 'connections...');
       console.log('[Workflow Save] First connection sample:', JSON.stringify(connectionInserts[0], null, 2));
@@ -268,6 +188,9 @@ export async function PUT(
       console.log('[Workflow Save] Connections inserted successfully');
     }
 
+    // Draft now differs from the published version until the admin publishes it
+    await markTemplateDraftChanged(supabase, templateId);
+
     // Auto-deactivate workflow if it has no nodes (or only has nodes but no valid start/end)
     let isActive: boolean | undefined;
     if (nodes.length === 0) {
@@ -288,7 +211,7 @@ export async function PUT(
       success: true,
       message: nodes.length === 0
         ? 'Workflow saved (deactivated - no nodes)'
-        : 'Workflow saved successfully',
+        : 'Workflow draft saved. Publish to use it for new projects.',
       nodeCount: nodes.length,
       edgeCount: edges?.length || 0,
       is_active: isActive, // Include if it was auto-deactivated
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { validateRequestBody, updateWorkflowTriggerRuleSchema } from '@/lib/validation-schemas';
+
+// PATCH /api/admin/workflows/templates/[id]/triggers/[triggerId] - Update a trigger rule (e.g. switch it off)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; triggerId: string }> }
+) {
+  const { id, triggerId } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(updateWorkflowTriggerRuleSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { data: trigger, error } = await supabase
+      .from('workflow_trigger_rules')
+      .update({ ...validation.data, updated_at: new Date().toISOString() })
+      .eq('id', triggerId)
+      .eq('workflow_template_id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating workflow trigger rule:', error);
+      return NextResponse.json({ error: 'Failed to update trigger rule' }, { status: 500 });
+    }
+
+    if (!trigger) {
+      return NextResponse.json({ error: 'Trigger rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, trigger });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// DELETE /api/admin/workflows/templates/[id]/triggers/[triggerId] - Remove a trigger rule
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; triggerId: string }> }
+) {
+  const { id, triggerId } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { error } = await supabase
+      .from('workflow_trigger_rules')
+      .delete()
+      .eq('id', triggerId)
+      .eq('workflow_template_id', id);
+
+    if (error) {
+      console.error('Error deleting workflow trigger rule:', error);
+      return NextResponse.json({ error: 'Failed to delete trigger rule' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
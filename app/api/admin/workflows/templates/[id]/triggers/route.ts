@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { getWorkflowTriggerRules } from '@/lib/workflow-trigger-service';
+import { validateRequestBody, workflowTriggerRuleSchema } from '@/lib/validation-schemas';
+
+// GET /api/admin/workflows/templates/[id]/triggers - List the template's trigger rules
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const triggers = await getWorkflowTriggerRules(supabase, id);
+
+    return NextResponse.json({ success: true, triggers });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// POST /api/admin/workflows/templates/[id]/triggers - Add a trigger rule that starts this template automatically
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(workflowTriggerRuleSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { data: template } = await supabase
+      .from('workflow_templates')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!template) {
+      return NextResponse.json({ error: 'Workflow template not found' }, { status: 404 });
+    }
+
+    const { name, event, conditions, is_active } = validation.data;
+
+    const { data: trigger, error } = await supabase
+      .from('workflow_trigger_rules')
+      .insert({
+        workflow_template_id: id,
+        name,
+        event,
+        conditions,
+        is_active: is_active ?? true,
+        created_by: userProfile.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating workflow trigger rule:', error);
+      return NextResponse.json({ error: 'Failed to create trigger rule' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, trigger }, { status: 201 });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
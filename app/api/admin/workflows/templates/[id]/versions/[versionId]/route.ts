@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { getTemplateVersion } from '@/lib/workflow-version-service';
+
+// GET /api/admin/workflows/templates/[id]/versions/[versionId] - Get a published version with its nodes and connections
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const { id: templateId, versionId } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const version = await getTemplateVersion(supabase, templateId, versionId);
+    if (!version) {
+      return NextResponse.json({ error: 'Workflow version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, version });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { planInstanceMigration, migrateInstancesToVersion } from '@/lib/workflow-version-service';
+import { validateRequestBody, migrateWorkflowInstancesSchema } from '@/lib/validation-schemas';
+
+// POST /api/admin/workflows/templates/[id]/versions/migrate - Preview or migrate running instances to a version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: templateId } = await params;
+
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(migrateWorkflowInstancesSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { to_version_id, node_mapping, instance_ids, dry_run } = validation.data;
+
+    if (dry_run) {
+      const { plan, error } = await planInstanceMigration(supabase, templateId, to_version_id, node_mapping, instance_ids);
+      if (!plan) {
+        return NextResponse.json({ error: error || 'Failed to plan migration' }, { status: 400 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        dry_run: true,
+        to_version: plan.toVersion,
+        instances: plan.instances,
+        migratable_count: plan.instances.filter((i) => i.canMigrate).length,
+        unmigratable_count: plan.instances.filter((i) => !i.canMigrate).length,
+      });
+    }
+
+    const result = await migrateInstancesToVersion(
+      supabase,
+      templateId,
+      to_version_id,
+      node_mapping,
+      userProfile.id,
+      instance_ids
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Failed to migrate instances' }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      dry_run: false,
+      migrated: result.migrated,
+      failed: result.failed,
+    });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { getTemplateVersions, publishTemplateVersion } from '@/lib/workflow-version-service';
+
+// GET /api/admin/workflows/templates/[id]/versions - List published versions of a template
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: templateId } = await params;
+
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { data: template } = await supabase
+      .from('workflow_templates')
+      .select('id, current_version_id, has_unpublished_changes')
+      .eq('id', templateId)
+      .single();
+
+    if (!template) {
+      return NextResponse.json({ error: 'Workflow template not found' }, { status: 404 });
+    }
+
+    const versions = await getTemplateVersions(supabase, templateId);
+
+    return NextResponse.json({
+      success: true,
+      versions,
+      current_version_id: template.current_version_id,
+      has_unpublished_changes: template.has_unpublished_changes,
+    });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// POST /api/admin/workflows/templates/[id]/versions - Publish the current draft as a new version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: templateId } = await params;
+
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: { change_notes?: unknown } = {};
+    try {
+      body = await request.json();
+    } catch {
+      // Body is optional
+    }
+
+    const result = await publishTemplateVersion(
+      supabase,
+      templateId,
+      userProfile.id,
+      typeof body.change_notes === 'string' ? body.change_notes.trim() : null
+    );
+
+    if (!result.success || !result.version) {
+      return NextResponse.json({ error: result.error || 'Failed to publish workflow' }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      version: {
+        id: result.version.id,
+        version_number: result.version.version_number,
+        published_at: result.version.published_at,
+      },
+    }, { status: 201 });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import {
+  parseWorkflowTemplateExport,
+  planWorkflowTemplateImport,
+  commitWorkflowTemplateImport,
+} from '@/lib/workflow-template-transfer';
+
+// POST /api/admin/workflows/templates/import - Preview (dry_run) or import an exported workflow template
+// Body: { document: <export JSON>, name?: string, dry_run?: boolean (default true) }
+export async function POST(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const { document, error: parseError } = parseWorkflowTemplateExport(body.document);
+    if (!document) {
+      return NextResponse.json({ error: parseError }, { status: 400 });
+    }
+
+    const plan = await planWorkflowTemplateImport(
+      supabase,
+      document,
+      typeof body.name === 'string' ? body.name : undefined
+    );
+
+    const report = {
+      template_name: plan.templateName,
+      node_count: plan.nodes.length,
+      edge_count: plan.edges.length,
+      unresolved: plan.unresolved,
+      form_templates_to_create: plan.formTemplatesToCreate.map((f) => f.name),
+      validation: plan.validation,
+      can_import: plan.canImport,
+    };
+
+    if (body.dry_run !== false) {
+      return NextResponse.json({ success: true, dry_run: true, ...report });
+    }
+
+    if (!plan.canImport) {
+      return NextResponse.json({
+        success: false,
+        error: plan.unresolved.length > 0
+          ? `${plan.unresolved.length} reference(s) could not be resolved in this organization`
+          : 'Imported workflow failed validation',
+        ...report,
+      }, { status: 422 });
+    }
+
+    const result = await commitWorkflowTemplateImport(supabase, plan, document, userProfile.id);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error, ...report }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      dry_run: false,
+      template_id: result.templateId,
+      ...report,
+    }, { status: 201 });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -111,7 +111,7 @@ export async function GET(request: NextRequest) {
       supabase.from('accounts').select('id, status, service_tier'),
 
       // Workflow instances
-      supabase.from('workflow_instances').select('id, status, started_at, completed_at'),
+      supabase.from('workflow_instances').select('id, status, started_at, completed_at, total_paused_seconds'),
 
       // Tasks
       supabase.from('tasks').select('id, status, due_date'),
@@ -214,7 +214,7 @@ export async function GET(request: NextRequest) {
       new Date(w.completed_at) >= monthStart
     );
 
-    // Calculate average completion time
+    // Calculate average completion time (time spent paused doesn't count)
     const completedWithTimes = workflows.filter((w: any) =>
       w.status === 'completed' && w.started_at && w.completed_at
     );
@@ -223,7 +223,8 @@ export async function GET(request: NextRequest) {
       const totalDays = completedWithTimes.reduce((sum: number, w: any) => {
         const start = new Date(w.started_at);
         const end = new Date(w.completed_at);
-        return sum + Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+        const pausedMs = (w.total_paused_seconds || 0) * 1000;
+        return sum + Math.ceil((end.getTime() - start.getTime() - pausedMs) / (1000 * 60 * 60 * 24));
       }, 0);
       avgCompletionDays = Math.round(totalDays / completedWithTimes.length);
     }
@@ -6,6 +6,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createApiSupabaseClient, getUserProfileFromRequest } from '@/lib/supabase-server';
 import { subDays, format, differenceInDays } from 'date-fns';
+import { parseSendBackNotes } from '@/lib/workflow-send-back';
+import { getBusinessCalendar, getWorkingHoursBetween } from '@/lib/business-calendar-service';
+import { getPausedTimeBetween, parsePausedIntervals, PausedInterval } from '@/lib/workflow-paused-time';
 
 interface ErrorWithMessage extends Error {
   message: string;
@@ -62,14 +65,15 @@ export async function GET(request: NextRequest) {
     const startStr = format(start, 'yyyy-MM-dd');
 
     // Fetch workflow data
-    const [templatesData, instancesData, historyData, nodesData] = await Promise.all([
+    const [templatesData, instancesData, historyData, nodesData, calendar] = await Promise.all([
       supabase.from('workflow_templates').select('id, name, is_active'),
-      supabase.from('workflow_instances').select('id, workflow_template_id, status, started_at, completed_at'),
+      supabase.from('workflow_instances').select('id, workflow_template_id, status, started_at, completed_at, paused_intervals'),
       supabase
         .from('workflow_history')
-        .select('id, workflow_instance_id, from_node_id, to_node_id, created_at')
+        .select('id, workflow_instance_id, from_node_id, to_node_id, transition_type, rework_count, notes, created_at')
         .gte('created_at', startStr),
       supabase.from('workflow_nodes').select('id, workflow_template_id, node_type, label'),
+      getBusinessCalendar(supabase),
     ]);
 
     const templates = templatesData.data || [];
@@ -77,8 +81,14 @@ export async function GET(request: NextRequest) {
     const history = historyData.data || [];
     const nodes = nodesData.data || [];
 
+    const pausedIntervalsByInstance = new Map<string, PausedInterval[]>(
+      instances.map((i: any) => [i.id, parsePausedIntervals(i.paused_intervals)])
+    );
+    const hoursPerWorkingDay = calendar.dayEndHour - calendar.dayStartHour;
+
     // Calculate summary metrics
     const activeInstances = instances.filter((i: any) => i.status === 'active');
+    const pausedInstances = instances.filter((i: any) => i.status === 'paused');
     const completedInstances = instances.filter((i: any) =>
       i.status === 'completed' &&
       i.completed_at &&
@@ -90,26 +100,39 @@ export async function GET(request: NextRequest) {
       new Date(i.started_at) >= start
     );
 
-    // Calculate average completion time
+    // Calculate average completion time (time spent paused doesn't count), in
+    // calendar days and in working days on the business calendar
     let avgCompletionDays = 0;
+    let avgCompletionBusinessDays = 0;
     const completedWithTimes = completedInstances.filter((i: any) => i.started_at && i.completed_at);
     if (completedWithTimes.length > 0) {
-      const totalDays = completedWithTimes.reduce((sum: number, i: any) => {
-        const days = differenceInDays(new Date(i.completed_at), new Date(i.started_at));
-        return sum + Math.max(1, days);
-      }, 0);
+      let totalDays = 0;
+      let totalBusinessDays = 0;
+      completedWithTimes.forEach((i: any) => {
+        const startedAt = new Date(i.started_at);
+        const completedAt = new Date(i.completed_at);
+        const paused = getPausedTimeBetween(calendar, pausedIntervalsByInstance.get(i.id) || [], startedAt, completedAt);
+        totalDays += Math.max(1, differenceInDays(new Date(completedAt.getTime() - paused.ms), startedAt));
+        if (hoursPerWorkingDay > 0) {
+          const workingHours = getWorkingHoursBetween(calendar, startedAt, completedAt) - paused.workingHours;
+          totalBusinessDays += Math.max(0, workingHours) / hoursPerWorkingDay;
+        }
+      });
       avgCompletionDays = Math.round(totalDays / completedWithTimes.length);
+      avgCompletionBusinessDays = Math.round((totalBusinessDays / completedWithTimes.length) * 10) / 10;
     }
 
     // Status distribution
     const statusCounts = {
       active: activeInstances.length,
+      paused: pausedInstances.length,
       completed: completedInstances.length,
       cancelled: cancelledInstances.length,
     };
 
     const statusDistribution = [
       { status: 'Active', count: statusCounts.active, color: '#3b82f6' },
+      { status: 'Paused', count: statusCounts.paused, color: '#f59e0b' },
       { status: 'Completed', count: statusCounts.completed, color: '#22c55e' },
       { status: 'Cancelled', count: statusCounts.cancelled, color: '#ef4444' },
     ].filter(s => s.count > 0);
@@ -134,7 +157,7 @@ export async function GET(request: NextRequest) {
     templateUsage.sort((a, b) => b.count - a.count);
 
     // Calculate bottleneck nodes (nodes with most time spent)
-    const nodeTimeMap = new Map<string, { totalTime: number; count: number }>();
+    const nodeTimeMap = new Map<string, { totalTime: number; totalBusinessTime: number; count: number }>();
 
     // Group history by instance
     const instanceHistory = new Map<string, any[]>();
@@ -145,8 +168,10 @@ export async function GET(request: NextRequest) {
       instanceHistory.get(h.workflow_instance_id)!.push(h);
     });
 
-    // Calculate time at each node
-    instanceHistory.forEach((transitions, _instanceId) => {
+    // Calculate time at each node (time the instance spent paused doesn't count)
+    instanceHistory.forEach((transitions, instanceId) => {
+      const pausedIntervals = pausedIntervalsByInstance.get(instanceId) || [];
+
       transitions.sort((a: any, b: any) =>
         new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
       );
@@ -155,13 +180,15 @@ export async function GET(request: NextRequest) {
         const nodeId = transitions[i].to_node_id;
         const startTime = new Date(transitions[i].created_at);
         const endTime = new Date(transitions[i + 1].created_at);
-        const durationHours = (endTime.getTime() - startTime.getTime()) / (1000 * 60 * 60);
+        const paused = getPausedTimeBetween(calendar, pausedIntervals, startTime, endTime);
+        const durationHours = Math.max(0, endTime.getTime() - startTime.getTime() - paused.ms) / (1000 * 60 * 60);
 
         if (!nodeTimeMap.has(nodeId)) {
-          nodeTimeMap.set(nodeId, { totalTime: 0, count: 0 });
+          nodeTimeMap.set(nodeId, { totalTime: 0, totalBusinessTime: 0, count: 0 });
         }
         const nodeData = nodeTimeMap.get(nodeId)!;
         nodeData.totalTime += durationHours;
+        nodeData.totalBusinessTime += Math.max(0, getWorkingHoursBetween(calendar, startTime, endTime) - paused.workingHours);
         nodeData.count += 1;
       }
     });
@@ -175,6 +202,8 @@ export async function GET(request: NextRequest) {
           name: node?.label || 'Unknown',
           type: node?.node_type || 'unknown',
           avgHours: data.count > 0 ? Math.round((data.totalTime / data.count) * 10) / 10 : 0,
+          // Only the hours that fell inside the business calendar's working hours
+          avgBusinessHours: data.count > 0 ? Math.round((data.totalBusinessTime / data.count) * 10) / 10 : 0,
           totalTransitions: data.count,
         };
       })
@@ -182,6 +211,55 @@ export async function GET(request: NextRequest) {
       .sort((a, b) => b.avgHours - a.avgHours)
       .slice(0, 5);
 
+    // Rework rate by step: of the instances that completed a step, how many
+    // had it sent back for rework at least once
+    const reworkMap = new Map<string, {
+      instancesThrough: Set<string>;
+      instancesReworked: Set<string>;
+      reworks: number;
+      maxReworks: number;
+      label: string | null;
+    }>();
+    const getReworkEntry = (nodeId: string) => {
+      if (!reworkMap.has(nodeId)) {
+        reworkMap.set(nodeId, { instancesThrough: new Set(), instancesReworked: new Set(), reworks: 0, maxReworks: 0, label: null });
+      }
+      return reworkMap.get(nodeId)!;
+    };
+
+    history.forEach((h: any) => {
+      if (h.transition_type === 'send_back') {
+        if (!h.to_node_id) return;
+        const entry = getReworkEntry(h.to_node_id);
+        entry.instancesReworked.add(h.workflow_instance_id);
+        entry.reworks += 1;
+        entry.maxReworks = Math.max(entry.maxReworks, h.rework_count || 1);
+        entry.label = entry.label || parseSendBackNotes(h.notes)?.targetNodeLabel || null;
+      } else if (h.from_node_id) {
+        getReworkEntry(h.from_node_id).instancesThrough.add(h.workflow_instance_id);
+      }
+    });
+
+    const reworkByStep = Array.from(reworkMap.entries())
+      .filter(([, data]) => data.reworks > 0)
+      .map(([nodeId, data]) => {
+        const node = nodes.find((n: any) => n.id === nodeId);
+        // A reworked instance has completed the step at least once, even if that was before the date range
+        const instancesThrough = new Set([...data.instancesThrough, ...data.instancesReworked]).size;
+        return {
+          id: nodeId,
+          name: node?.label || data.label || 'Unknown',
+          type: node?.node_type || 'unknown',
+          reworkRate: Math.round((data.instancesReworked.size / instancesThrough) * 100),
+          reworkedInstances: data.instancesReworked.size,
+          totalInstances: instancesThrough,
+          totalReworks: data.reworks,
+          maxReworksPerInstance: data.maxReworks,
+        };
+      })
+      .sort((a, b) => b.reworkRate - a.reworkRate || b.totalReworks - a.totalReworks)
+      .slice(0, 10);
+
     // Calculate completion rate
     const totalStartedInRange = instances.filter((i: any) =>
       i.started_at && new Date(i.started_at) >= start
@@ -198,11 +276,13 @@ export async function GET(request: NextRequest) {
           activeInstances: activeInstances.length,
           completedThisMonth: completedInstances.length,
           avgCompletionDays,
+          avgCompletionBusinessDays,
           completionRate,
         },
         statusDistribution,
         templateUsage: templateUsage.slice(0, 10),
         bottleneckNodes,
+        reworkByStep,
       },
       dateRange,
     });
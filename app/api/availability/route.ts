@@ -8,6 +8,7 @@ import { createApiSupabaseClient, getUserProfileFromRequest } from '@/lib/supaba
 import { availabilityService } from '@/lib/services/availability-service';
 import { hasPermission } from '@/lib/permission-checker';
 import { Permission } from '@/lib/permissions';
+import { syncLeaveAvailability } from '@/lib/leave-service';
 
 // Type definitions
 interface ErrorWithMessage extends Error {
@@ -125,22 +126,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const availability = await availabilityService.setUserAvailability(
+    // The hours sent are the user's own schedule - approved leave is applied on
+    // top of them below, so drop any leave bookkeeping the client echoed back
+    const existing = scheduleData ? null : await availabilityService.getUserAvailability(userId, weekStartDate, supabase);
+    const ownSchedule = { ...(scheduleData ?? existing?.schedule_data ?? {}) };
+    delete ownSchedule.leave;
+
+    const saved = await availabilityService.setUserAvailability(
       userId,
       weekStartDate,
       availableHours,
-      scheduleData,
+      ownSchedule,
       notes,
       supabase
     );
 
-    if (!availability) {
+    if (!saved) {
       return NextResponse.json(
         { error: 'Failed to set availability' },
         { status: 500 }
       );
     }
 
+    const leaveSync = await syncLeaveAvailability(supabase, userId, weekStartDate, weekStartDate);
+    if (!leaveSync.success) {
+      return NextResponse.json(
+        { error: leaveSync.error },
+        { status: 500 }
+      );
+    }
+
+    const availability = await availabilityService.getUserAvailability(userId, weekStartDate, supabase) ?? saved;
+
     return NextResponse.json({
       success: true,
       availability,
@@ -7,6 +7,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createApiSupabaseClient, getUserProfileFromRequest } from '@/lib/supabase-server';
 import { format, subDays, subWeeks, subMonths, startOfWeek, startOfMonth, startOfQuarter, subQuarters, endOfWeek, endOfMonth, endOfQuarter } from 'date-fns';
 import { DEFAULT_WEEKLY_HOURS } from '@/lib/constants';
+import { adjustWeeklyHoursForCalendar, getBusinessCalendar, getDailyHoursForCalendar, getUserRegions } from '@/lib/business-calendar-service';
+import { getAccountCapacityShare } from '@/lib/capacity-allocation';
+import { getCapacityAllocationWeights } from '@/lib/capacity-allocation-service';
 
 // Type definitions
 interface ErrorWithMessage extends Error {
@@ -120,8 +123,8 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Fetch account data + user's total project assignments (for capacity allocation)
-    const [availabilityData, timeEntriesData, projectsData, tasksData, allUserProjectsData] = await Promise.all([
+    // Fetch account data + user's total project assignments and capacity splits (for capacity allocation)
+    const [availabilityData, timeEntriesData, projectsData, tasksData, allUserProjectsData, allocationWeights, calendar, userRegions] = await Promise.all([
       supabase
         .from('user_availability')
         .select('user_id, week_start_date, available_hours')
@@ -152,7 +155,13 @@ export async function GET(request: NextRequest) {
         .from('project_assignments')
         .select('user_id, project_id, projects!inner(account_id)')
         .in('user_id', userIds)
-        .is('removed_at', null)
+        .is('removed_at', null),
+
+      getCapacityAllocationWeights(supabase, { userIds, from: getWeekStartDate(new Date(earliestDate)), to: latestDate }),
+
+      // Holidays and shutdowns in each user's region come off their weeks
+      getBusinessCalendar(supabase),
+      getUserRegions(supabase, userIds)
     ]);
 
     // Debug logging
@@ -190,7 +199,7 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Calculate how many accounts each user is working on (for proportional allocation)
+    // Accounts each user is working on - those without an explicit capacity split share the rest evenly
     const userAccountsMap = new Map<string, Set<string>>();
     if (allUserProjectsData.data) {
       allUserProjectsData.data.forEach((assignment: any) => {
@@ -210,24 +219,23 @@ export async function GET(request: NextRequest) {
       const periodEnd = new Date(range.endDate);
 
       // Calculate available hours for users working on account projects
-      // Proportionally allocate user capacity based on number of accounts they work on
+      // Each user contributes this account's share of their week (explicit split, else even)
       let totalAvailable = 0;
       userIds.forEach(userId => {
         const userAvailability = availabilityMap.get(userId) ?? new Map<string, number>();
-        const userAccounts = userAccountsMap.get(userId);
-        const accountCount = userAccounts ? userAccounts.size : 1;
-        const allocationFactor = 1 / accountCount; // Split capacity evenly across accounts
+        const userAccounts = userAccountsMap.get(userId) ?? new Set<string>();
+        const allocationFactor = (weekStart: string) =>
+          getAccountCapacityShare(allocationWeights, userId, accountId, userAccounts, weekStart);
+        const region = userRegions.get(userId) ?? calendar.defaultRegion;
+        // Use default 40 hours/week if not explicitly set
+        const weeklyHours = (weekStart: string) => userAvailability.get(weekStart) ?? DEFAULT_WEEKLY_HOURS;
 
         if (period === 'daily') {
           const weekStart = getWeekStartDate(periodStart);
-          // Use default 40 hours/week if not explicitly set
-          const weeklyHours = userAvailability.get(weekStart) ?? DEFAULT_WEEKLY_HOURS;
-          totalAvailable += (weeklyHours / 5) * allocationFactor;
+          totalAvailable += getDailyHoursForCalendar(calendar, range.startDate, weeklyHours(weekStart), region) * allocationFactor(weekStart);
         } else if (period === 'weekly') {
           const weekStart = getWeekStartDate(periodStart);
-          // Use default 40 hours/week if not explicitly set
-          const weeklyHours = userAvailability.get(weekStart) ?? DEFAULT_WEEKLY_HOURS;
-          totalAvailable += weeklyHours * allocationFactor;
+          totalAvailable += adjustWeeklyHoursForCalendar(calendar, weekStart, weeklyHours(weekStart), region) * allocationFactor(weekStart);
         } else {
           // For monthly/quarterly, sum all weeks in the period
           const currentWeek = new Date(periodStart);
@@ -237,9 +245,7 @@ export async function GET(request: NextRequest) {
 
           while (currentWeek < periodEnd) { // Changed from <= to < to avoid double-counting
             const weekStr = format(currentWeek, 'yyyy-MM-dd');
-            // Use default 40 hours/week if not explicitly set
-            const weekHours = userAvailability.get(weekStr) ?? DEFAULT_WEEKLY_HOURS;
-            totalAvailable += weekHours * allocationFactor;
+            totalAvailable += adjustWeeklyHoursForCalendar(calendar, weekStr, weeklyHours(weekStr), region) * allocationFactor(weekStr);
             currentWeek.setDate(currentWeek.getDate() + 7);
           }
         }
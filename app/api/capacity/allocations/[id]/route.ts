@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndAnyPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { moveTaskWeekAllocation } from '@/lib/resource-planner-service';
+import { toWeekStart } from '@/lib/resource-planner';
+import { validateRequestBody, moveTaskAllocationSchema } from '@/lib/validation-schemas';
+
+// PATCH /api/capacity/allocations/[id] - Move an allocation to another week or person
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuthAndAnyPermission([Permission.MANAGE_PROJECTS, Permission.MANAGE_ALL_PROJECTS], {}, request);
+
+    const { id } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(moveTaskAllocationSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await moveTaskWeekAllocation(supabase, id, {
+      userId: validation.data.user_id,
+      weekStartDate: toWeekStart(validation.data.week_start_date),
+    });
+
+    if (!result.success) {
+      const status = result.error === 'Allocation not found' ? 404 : 500;
+      return NextResponse.json({ error: result.error }, { status });
+    }
+
+    return NextResponse.json({ success: true, allocation: result.allocation });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndAnyPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { setTaskWeekAllocation } from '@/lib/resource-planner-service';
+import { toWeekStart } from '@/lib/resource-planner';
+import { validateRequestBody, setTaskAllocationSchema } from '@/lib/validation-schemas';
+
+// PUT /api/capacity/allocations - Set one person's hours on a task for a week (0 removes them)
+export async function PUT(request: NextRequest) {
+  try {
+    await requireAuthAndAnyPermission([Permission.MANAGE_PROJECTS, Permission.MANAGE_ALL_PROJECTS], {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(setTaskAllocationSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await setTaskWeekAllocation(supabase, {
+      taskId: validation.data.task_id,
+      userId: validation.data.user_id,
+      weekStartDate: toWeekStart(validation.data.week_start_date),
+      hours: validation.data.hours,
+      notes: validation.data.notes,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, allocation: result.allocation });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndAnyPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { splitTaskAcrossWeeks } from '@/lib/resource-planner-service';
+import { toWeekStart } from '@/lib/resource-planner';
+import { validateRequestBody, splitTaskAllocationSchema } from '@/lib/validation-schemas';
+
+// POST /api/capacity/allocations/split - Spread a task's estimate over weeks for one person
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuthAndAnyPermission([Permission.MANAGE_PROJECTS, Permission.MANAGE_ALL_PROJECTS], {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(splitTaskAllocationSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await splitTaskAcrossWeeks(supabase, {
+      taskId: validation.data.task_id,
+      userId: validation.data.user_id,
+      weekStartDates: validation.data.week_start_dates.map(toWeekStart),
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, allocations: result.allocations });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -7,6 +7,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createApiSupabaseClient, getUserProfileFromRequest } from '@/lib/supabase-server';
 import { format, subDays, subWeeks, subMonths, startOfWeek, startOfMonth, startOfQuarter, subQuarters, endOfWeek, endOfMonth, endOfQuarter } from 'date-fns';
 import { DEFAULT_WEEKLY_HOURS } from '@/lib/constants';
+import { adjustWeeklyHoursForCalendar, getBusinessCalendar, getDailyHoursForCalendar, getUserRegions } from '@/lib/business-calendar-service';
+import { AccountCapacityScope, getScopedCapacityShare } from '@/lib/capacity-allocation';
+import { getAccountCapacityScope } from '@/lib/capacity-allocation-service';
 
 // Type definitions
 interface ErrorWithMessage extends Error {
@@ -47,6 +50,8 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const departmentId = searchParams.get('departmentId');
     const period = (searchParams.get('period') ?? 'weekly') as TimePeriod;
+    // Optional: only count each person's share of one account
+    const scopeAccountId = searchParams.get('accountId');
 
     if (!departmentId) {
       return NextResponse.json(
@@ -109,7 +114,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch department data
-    const [availabilityData, timeEntriesData, projectAssignmentsData, tasksData] = await Promise.all([
+    const [availabilityData, timeEntriesData, projectAssignmentsData, tasksData, calendar, userRegions] = await Promise.all([
       supabase
         .from('user_availability')
         .select('user_id, week_start_date, available_hours')
@@ -119,7 +124,7 @@ export async function GET(request: NextRequest) {
 
       supabase
         .from('time_entries')
-        .select('hours_logged, entry_date')
+        .select('hours_logged, entry_date, project_id')
         .in('user_id', userIds)
         .gte('entry_date', earliestDate)
         .lte('entry_date', latestDate),
@@ -143,7 +148,11 @@ export async function GET(request: NextRequest) {
       supabase
         .from('tasks')
         .select('id, project_id, estimated_hours, remaining_hours, status, start_date, due_date, created_at, assigned_to')
-        .in('assigned_to', userIds)
+        .in('assigned_to', userIds),
+
+      // Holidays and shutdowns in each user's region come off their weeks
+      getBusinessCalendar(supabase),
+      getUserRegions(supabase, userIds)
     ]);
 
     const projectIds = Array.from(new Set((projectAssignmentsData.data || []).map((pa: any) => pa.project_id)));
@@ -185,6 +194,16 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    const accountScope: AccountCapacityScope | null = scopeAccountId
+      ? await getAccountCapacityScope(supabase, {
+          accountId: scopeAccountId,
+          userIds,
+          from: getWeekStartDate(new Date(earliestDate)),
+          to: latestDate,
+        })
+      : null;
+    const inScope = (projectId: unknown) => !accountScope || accountScope.projectIds.has(projectId as string);
+
     const dataPoints: CapacityDataPoint[] = ranges.map((range: any) => {
       const periodStart = new Date(range.startDate);
       const periodEnd = new Date(range.endDate);
@@ -192,16 +211,17 @@ export async function GET(request: NextRequest) {
       let totalAvailable = 0;
       userIds.forEach(userId => {
         const userAvailability = availabilityMap.get(userId) ?? new Map<string, number>();
+        const share = (weekStart: string) => getScopedCapacityShare(accountScope, userId, weekStart);
+        const region = userRegions.get(userId) ?? calendar.defaultRegion;
+        // Use default 40 hours/week if not explicitly set
+        const weeklyHours = (weekStart: string) => userAvailability.get(weekStart) ?? DEFAULT_WEEKLY_HOURS;
 
         if (period === 'daily') {
           const weekStart = getWeekStartDate(periodStart);
-          // Use default 40 hours/week if not explicitly set
-          const weeklyHours = userAvailability.get(weekStart) ?? DEFAULT_WEEKLY_HOURS;
-          totalAvailable += weeklyHours / 5;
+          totalAvailable += getDailyHoursForCalendar(calendar, range.startDate, weeklyHours(weekStart), region) * share(weekStart);
         } else if (period === 'weekly') {
           const weekStart = getWeekStartDate(periodStart);
-          // Use default 40 hours/week if not explicitly set
-          totalAvailable += userAvailability.get(weekStart) ?? DEFAULT_WEEKLY_HOURS;
+          totalAvailable += adjustWeeklyHoursForCalendar(calendar, weekStart, weeklyHours(weekStart), region) * share(weekStart);
         } else {
           const currentWeek = new Date(periodStart);
           const dayOfWeek = currentWeek.getDay();
@@ -210,9 +230,7 @@ export async function GET(request: NextRequest) {
 
           while (currentWeek <= periodEnd) {
             const weekStr = format(currentWeek, 'yyyy-MM-dd');
-            // Use default 40 hours/week if not explicitly set
-            const weekHours = userAvailability.get(weekStr) ?? DEFAULT_WEEKLY_HOURS;
-            totalAvailable += weekHours;
+            totalAvailable += adjustWeeklyHoursForCalendar(calendar, weekStr, weeklyHours(weekStr), region) * share(weekStr);
             currentWeek.setDate(currentWeek.getDate() + 7);
           }
         }
@@ -224,9 +242,9 @@ export async function GET(request: NextRequest) {
       ];
       const uniqueTasks = Array.from(new Map(allTasks.map((t: any) => [t.id, t])).values());
 
-      // Filter to incomplete tasks only
+      // Filter to incomplete tasks only (on the scoped account's projects, if any)
       const incompleteTasks = uniqueTasks.filter((task: any) => {
-        return task.status !== 'done' && task.status !== 'complete';
+        return task.status !== 'done' && task.status !== 'complete' && inScope(task.project_id);
       });
 
       const now = new Date();
@@ -287,6 +305,7 @@ export async function GET(request: NextRequest) {
         for (const pa of projectAssignmentsData.data) {
           const project = Array.isArray(pa.projects) ? pa.projects[0] : pa.projects;
           if (!project || (project as Record<string, unknown>).status === 'complete') continue;
+          if (!inScope(pa.project_id)) continue;
 
           const projectHasTasks = (projectTasksData || []).some((t: any) => t.project_id === (project as Record<string, unknown>).id);
 
@@ -342,7 +361,7 @@ export async function GET(request: NextRequest) {
       const totalActual = (timeEntriesData.data || [])
         .filter((entry: any) => {
           const entryDate = new Date(entry.entry_date as string);
-          return entryDate >= periodStart && entryDate <= periodEnd;
+          return entryDate >= periodStart && entryDate <= periodEnd && inScope(entry.project_id);
         })
         .reduce((sum: number, entry: any) => sum + ((entry.hours_logged as number) || 0), 0);
 
@@ -8,6 +8,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createApiSupabaseClient, getUserProfileFromRequest } from '@/lib/supabase-server';
 import { format, subDays, subWeeks, subMonths, startOfWeek, startOfMonth, startOfQuarter, subQuarters, endOfWeek, endOfMonth, endOfQuarter } from 'date-fns';
 import { DEFAULT_WEEKLY_HOURS } from '@/lib/constants';
+import { adjustWeeklyHoursForCalendar, getBusinessCalendar, getDailyHoursForCalendar, getUserRegions } from '@/lib/business-calendar-service';
+import { AccountCapacityScope, getScopedCapacityShare } from '@/lib/capacity-allocation';
+import { getAccountCapacityScope } from '@/lib/capacity-allocation-service';
 
 // Type definitions
 interface ErrorWithMessage extends Error {
@@ -67,6 +70,8 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('userId') ?? (userProfile as any).id;
     const period = (searchParams.get('period') ?? 'weekly') as TimePeriod;
+    // Optional: only count the user's share of one account
+    const scopeAccountId = searchParams.get('accountId');
 
     // Generate date ranges based on period
     const ranges = getDateRanges(period);
@@ -81,7 +86,7 @@ export async function GET(request: NextRequest) {
     const extendedEarliestDate = earliestDateObj.toISOString().split('T')[0];
 
     // Fetch all relevant data in parallel for performance
-    const [availabilityData, tasksData, projectAssignmentsData, timeEntriesData] = await Promise.all([
+    const [availabilityData, tasksData, projectAssignmentsData, timeEntriesData, calendar, userRegions] = await Promise.all([
       // Get user availability for all weeks in range (use extended range)
       supabase
         .from('user_availability')
@@ -93,7 +98,7 @@ export async function GET(request: NextRequest) {
       // Get all tasks assigned to user with dates in range
       supabase
         .from('tasks')
-        .select('id, estimated_hours, remaining_hours, status, start_date, due_date, updated_at, created_at')
+        .select('id, project_id, estimated_hours, remaining_hours, status, start_date, due_date, updated_at, created_at')
         .eq('assigned_to', userId),
 
       // Get project assignments for the user
@@ -115,10 +120,14 @@ export async function GET(request: NextRequest) {
       // Get time entries for actual hours worked (use original date range)
       supabase
         .from('time_entries')
-        .select('hours_logged, entry_date')
+        .select('hours_logged, entry_date, project_id')
         .eq('user_id', userId)
         .gte('entry_date', originalEarliestDate)
-        .lte('entry_date', latestDate)
+        .lte('entry_date', latestDate),
+
+      // Holidays and shutdowns in the user's region come off their weeks
+      getBusinessCalendar(supabase),
+      getUserRegions(supabase, [userId])
     ]);
 
     // Also get tasks from assigned projects
@@ -166,6 +175,20 @@ export async function GET(request: NextRequest) {
       new Map(allTasks.map((t: any) => [t.id, t])).values()
     );
 
+    const accountScope: AccountCapacityScope | null = scopeAccountId
+      ? await getAccountCapacityScope(supabase, {
+          accountId: scopeAccountId,
+          userIds: [userId],
+          from: extendedEarliestDate,
+          to: latestDate,
+        })
+      : null;
+    const inScope = (projectId: unknown) => !accountScope || accountScope.projectIds.has(projectId as string);
+    const share = (weekStart: string) => getScopedCapacityShare(accountScope, userId, weekStart);
+    const region = userRegions.get(userId) ?? calendar.defaultRegion;
+    const weekHours = (weekStart: string) =>
+      adjustWeeklyHoursForCalendar(calendar, weekStart, availabilityMap.get(weekStart) ?? DEFAULT_WEEKLY_HOURS, region);
+
     // Calculate capacity for each date range
     const dataPoints: CapacityDataPoint[] = ranges.map((range: any) => {
       // Get available hours for this period based on user_availability
@@ -176,15 +199,15 @@ export async function GET(request: NextRequest) {
       const periodEnd = parseLocalDate(range.endDate);
 
       if (period === 'daily') {
-        // For daily, get the week's availability and divide by 5 (workdays)
+        // For daily, spread the week's availability over the calendar's working days
         const weekStart = getWeekStartDate(periodStart);
         const weeklyHours = availabilityMap.get(weekStart) ?? DEFAULT_WEEKLY_HOURS;
-        available = weeklyHours / 5; // Assume 5 workdays
+        available = getDailyHoursForCalendar(calendar, range.startDate, weeklyHours, region) * share(weekStart);
         weeksInPeriod = 0.2;
       } else if (period === 'weekly') {
         // Check if we have availability set for this week (default to 40 hours)
         const weekStart = getWeekStartDate(periodStart);
-        available = availabilityMap.get(weekStart) ?? DEFAULT_WEEKLY_HOURS;
+        available = weekHours(weekStart) * share(weekStart);
         weeksInPeriod = 1;
       } else if (period === 'monthly' || period === 'quarterly') {
         // Sum up weekly availabilities that fall within this period
@@ -207,8 +230,7 @@ export async function GET(request: NextRequest) {
 
         while (currentWeek.getTime() <= endTime) {
           const weekStr = formatLocalDate(currentWeek);
-          const weekHours = availabilityMap.get(weekStr) ?? DEFAULT_WEEKLY_HOURS;
-          totalHours += weekHours;
+          totalHours += weekHours(weekStr) * share(weekStr);
           weeksInPeriod++;
           // Move to next week
           currentWeek.setDate(currentWeek.getDate() + 7);
@@ -217,9 +239,9 @@ export async function GET(request: NextRequest) {
         available = totalHours;
       }
 
-      // Calculate allocated hours from tasks
+      // Calculate allocated hours from tasks (on the scoped account's projects, if any)
       const incompleteTasks = uniqueTasks.filter((task: any) => {
-        return task.status !== 'done' && task.status !== 'complete';
+        return task.status !== 'done' && task.status !== 'complete' && inScope(task.project_id);
       });
 
       const now = new Date();
@@ -283,6 +305,7 @@ export async function GET(request: NextRequest) {
         for (const pa of projectAssignmentsData.data) {
           const project = Array.isArray(pa.projects) ? pa.projects[0] : pa.projects;
           if (!project || (project as Record<string, unknown>).status === 'complete') continue;
+          if (!inScope(pa.project_id)) continue;
 
           const projectHasTasks = (projectTasksData ?? []).some((t: any) => t.project_id === (project as Record<string, unknown>).id);
 
@@ -341,7 +364,7 @@ export async function GET(request: NextRequest) {
           const entryDate = new Date(entry.entry_date as string);
           const periodStart = new Date(range.startDate);
           const periodEnd = new Date(range.endDate);
-          return entryDate >= periodStart && entryDate <= periodEnd;
+          return entryDate >= periodStart && entryDate <= periodEnd && inScope(entry.project_id);
         })
         .reduce((sum: number, entry: any) => {
           // Convert to number (Postgres numeric/decimal returns as string)
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndAnyPermission, handleGuardError } from '@/lib/server-guards';
+import { checkAnyPermission, hasPermission, isSuperadmin } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import { getResourcePlan } from '@/lib/resource-planner-service';
+import { DEFAULT_PLANNER_WEEKS, getPlannerWeeks, toWeekStart } from '@/lib/resource-planner';
+import { toDateKey } from '@/lib/business-calendar-service';
+import { validateQueryParams, resourcePlanQuerySchema } from '@/lib/validation-schemas';
+
+// GET /api/capacity/planner - People x weeks resource plan with allocations and availability
+export async function GET(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthAndAnyPermission(
+      [Permission.VIEW_TEAM_CAPACITY, Permission.VIEW_ALL_CAPACITY],
+      {},
+      request
+    );
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(resourcePlanQuerySchema, Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const start = toWeekStart(validation.data.start || toDateKey(new Date()));
+    const weeks = getPlannerWeeks(start, validation.data.weeks ? Number(validation.data.weeks) : DEFAULT_PLANNER_WEEKS);
+
+    // Team capacity only covers the viewer's own departments
+    const seesEveryone = isSuperadmin(userProfile) ||
+      await hasPermission(userProfile, Permission.VIEW_ALL_CAPACITY, undefined, supabase);
+    const canEdit = isSuperadmin(userProfile) ||
+      await checkAnyPermission(userProfile, [Permission.MANAGE_PROJECTS, Permission.MANAGE_ALL_PROJECTS], undefined, supabase);
+
+    const plan = await getResourcePlan(supabase, {
+      weeks,
+      teamOf: seesEveryone ? null : userProfile.id,
+      canEdit,
+    });
+
+    return NextResponse.json({ success: true, plan });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
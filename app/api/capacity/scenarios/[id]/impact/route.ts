@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { getCapacityScenario, getScenarioImpact } from '@/lib/capacity-scenario-service';
+
+// GET /api/capacity/scenarios/[id]/impact - Department and org utilization with and without the scenario
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuthAndPermission(Permission.VIEW_ALL_CAPACITY, {}, request);
+
+    const { id } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const found = await getCapacityScenario(supabase, id);
+    if (!found) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 });
+    }
+
+    const impact = await getScenarioImpact(supabase, found.projects);
+    return NextResponse.json({ success: true, impact });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
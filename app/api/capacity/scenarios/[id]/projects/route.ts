@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { isSuperadmin } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import { canEditCapacityScenario, getCapacityScenario, saveScenarioProject } from '@/lib/capacity-scenario-service';
+import { validateRequestBody, saveScenarioProjectSchema } from '@/lib/validation-schemas';
+
+// POST /api/capacity/scenarios/[id]/projects - Add a tentative project and the hours it needs per role
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.VIEW_ALL_CAPACITY, {}, request);
+
+    const { id } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(saveScenarioProjectSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const found = await getCapacityScenario(supabase, id);
+    if (!found) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 });
+    }
+    if (!canEditCapacityScenario(found.scenario, (userProfile as any).id, isSuperadmin(userProfile))) {
+      return NextResponse.json({ error: 'Only the scenario\'s owner can change it' }, { status: 403 });
+    }
+
+    const result = await saveScenarioProject(supabase, id, null, {
+      name: validation.data.name,
+      accountId: validation.data.account_id || null,
+      clientName: validation.data.client_name || null,
+      notes: validation.data.notes || null,
+      demands: validation.data.demands.map((d) => ({
+        roleId: d.role_id,
+        weekStartDate: d.week_start_date,
+        hours: d.hours,
+      })),
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, projectId: result.projectId });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
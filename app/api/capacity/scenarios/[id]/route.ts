@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { isSuperadmin } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import {
+  canEditCapacityScenario,
+  deleteCapacityScenario,
+  getCapacityScenario,
+  getScenarioRoles,
+  updateCapacityScenario,
+} from '@/lib/capacity-scenario-service';
+import { validateRequestBody, updateCapacityScenarioSchema } from '@/lib/validation-schemas';
+
+// GET /api/capacity/scenarios/[id] - A scenario's tentative projects, plus the roles they can ask for
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.VIEW_ALL_CAPACITY, {}, request);
+
+    const { id } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const [found, roles] = await Promise.all([
+      getCapacityScenario(supabase, id),
+      getScenarioRoles(supabase),
+    ]);
+    if (!found) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      scenario: found.scenario,
+      projects: found.projects,
+      roles,
+      canEdit: canEditCapacityScenario(found.scenario, (userProfile as any).id, isSuperadmin(userProfile)),
+    });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// PATCH /api/capacity/scenarios/[id] - Rename a scenario or change its description
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.VIEW_ALL_CAPACITY, {}, request);
+
+    const { id } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(updateCapacityScenarioSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const found = await getCapacityScenario(supabase, id);
+    if (!found) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 });
+    }
+    if (!canEditCapacityScenario(found.scenario, (userProfile as any).id, isSuperadmin(userProfile))) {
+      return NextResponse.json({ error: 'Only the scenario\'s owner can change it' }, { status: 403 });
+    }
+
+    const result = await updateCapacityScenario(supabase, id, validation.data);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// DELETE /api/capacity/scenarios/[id] - Throw a scenario away with its tentative projects
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.VIEW_ALL_CAPACITY, {}, request);
+
+    const { id } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const found = await getCapacityScenario(supabase, id);
+    if (!found) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 });
+    }
+    if (!canEditCapacityScenario(found.scenario, (userProfile as any).id, isSuperadmin(userProfile))) {
+      return NextResponse.json({ error: 'Only the scenario\'s owner can delete it' }, { status: 403 });
+    }
+
+    const result = await deleteCapacityScenario(supabase, id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { createCapacityScenario, listCapacityScenarios } from '@/lib/capacity-scenario-service';
+import { validateRequestBody, createCapacityScenarioSchema } from '@/lib/validation-schemas';
+
+// GET /api/capacity/scenarios - What-if capacity scenarios, most recently changed first
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthAndPermission(Permission.VIEW_ALL_CAPACITY, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const scenarios = await listCapacityScenarios(supabase);
+    return NextResponse.json({ success: true, scenarios });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// POST /api/capacity/scenarios - Start a new what-if scenario
+export async function POST(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.VIEW_ALL_CAPACITY, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(createCapacityScenarioSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await createCapacityScenario(supabase, {
+      name: validation.data.name,
+      description: validation.data.description || null,
+      createdBy: (userProfile as any).id,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, scenario: result.scenario });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
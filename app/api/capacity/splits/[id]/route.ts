@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { deleteCapacityAllocation, updateCapacityAllocation } from '@/lib/capacity-allocation-service';
+import { validateRequestBody, updateCapacityAllocationSchema } from '@/lib/validation-schemas';
+
+// PATCH /api/capacity/splits/[id] - Change a capacity split's percentage, project or dates
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_USERS_IN_ACCOUNTS, {}, request);
+
+    const { id } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(updateCapacityAllocationSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await updateCapacityAllocation(supabase, id, {
+      projectId: validation.data.project_id,
+      percent: validation.data.allocation_percent,
+      effectiveFrom: validation.data.effective_from,
+      effectiveTo: validation.data.effective_to,
+    });
+
+    if (!result.success) {
+      const status = result.error === 'Capacity allocation not found' ? 404 : 400;
+      return NextResponse.json({ error: result.error }, { status });
+    }
+
+    return NextResponse.json({ success: true, allocation: result.allocation });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// DELETE /api/capacity/splits/[id] - Remove a capacity split (the account falls back to an even share)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_USERS_IN_ACCOUNTS, {}, request);
+
+    const { id } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const result = await deleteCapacityAllocation(supabase, id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
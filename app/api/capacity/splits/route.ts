@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthentication, requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { createCapacityAllocation, listCapacityAllocations } from '@/lib/capacity-allocation-service';
+import {
+  validateQueryParams,
+  validateRequestBody,
+  capacityAllocationQuerySchema,
+  createCapacityAllocationSchema,
+} from '@/lib/validation-schemas';
+
+// GET /api/capacity/splits?user_id= - A user's capacity split across accounts and projects
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthentication(request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(capacityAllocationQuerySchema, Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const allocations = await listCapacityAllocations(supabase, validation.data.user_id);
+    return NextResponse.json({ success: true, allocations });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// POST /api/capacity/splits - Give a user's account (or project) a percentage of their capacity
+export async function POST(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_USERS_IN_ACCOUNTS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(createCapacityAllocationSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await createCapacityAllocation(supabase, {
+      userId: validation.data.user_id,
+      accountId: validation.data.account_id,
+      projectId: validation.data.project_id || null,
+      percent: validation.data.allocation_percent,
+      effectiveFrom: validation.data.effective_from,
+      effectiveTo: validation.data.effective_to || null,
+    }, (userProfile as any).id);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, allocation: result.allocation });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+
+// GET /api/client/portal/intake-forms - Intake forms the client can submit requests through
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get user profile
+    const { data: userProfile } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .eq('id', (user as any).id)
+      .single();
+
+    if (!userProfile) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    // Verify user is a client (hardcoded check - client permissions are implicit)
+    if (!userProfile.is_client) {
+      return NextResponse.json({ error: 'Access denied. This endpoint is for client users only.' }, { status: 403 });
+    }
+
+    if (!userProfile.client_account_id) {
+      return NextResponse.json({ error: 'Client user is not associated with an account' }, { status: 400 });
+    }
+
+    // Client portal forms open to every client, or to this client's account
+    const { data: intakeForms, error } = await supabase
+      .from('form_intake_forms')
+      .select('slug, title, description')
+      .eq('access', 'client_portal')
+      .eq('is_active', true)
+      .or(`account_id.is.null,account_id.eq.${userProfile.client_account_id}`)
+      .order('title');
+
+    if (error) {
+      console.error('Error loading client intake forms:', error);
+      return NextResponse.json({ error: 'Failed to load intake forms' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, intakeForms: intakeForms || [] }, { status: 200 });
+  } catch (error: unknown) {
+    console.error('Error in GET /api/client/portal/intake-forms:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCronRequest, createCronSupabaseClient } from '@/lib/cron-auth';
+import { checkWorkflowSlaBreaches } from '@/lib/workflow-sla-service';
+
+// This endpoint checks active workflow steps against the SLA configured on
+// their node and escalates breached steps (history entry + notifications).
+// Runs hourly via Vercel Cron.
+
+export async function GET(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request);
+  if (unauthorized) return unauthorized;
+
+  const supabase = createCronSupabaseClient();
+  if (!supabase) {
+    return NextResponse.json({ error: 'Service role key not configured' }, { status: 500 });
+  }
+
+  try {
+    const result = await checkWorkflowSlaBreaches(supabase);
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    console.error('Error in GET /api/cron/workflow-sla:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
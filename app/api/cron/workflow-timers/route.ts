@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCronRequest, createCronSupabaseClient } from '@/lib/cron-auth';
+import { advanceDueWorkflowTimers } from '@/lib/workflow-timer-service';
+
+// This endpoint sweeps running timer steps, stamps their resume time and
+// auto-advances the ones that are due (transition_type = 'auto').
+// Runs every 15 minutes via Vercel Cron.
+
+export async function GET(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request);
+  if (unauthorized) return unauthorized;
+
+  const supabase = createCronSupabaseClient();
+  if (!supabase) {
+    return NextResponse.json({ error: 'Service role key not configured' }, { status: 500 });
+  }
+
+  try {
+    const result = await advanceDueWorkflowTimers(supabase);
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    console.error('Error in GET /api/cron/workflow-timers:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { createCronSupabaseClient } from '@/lib/cron-auth';
+import { applyIntakeRateLimit } from '@/lib/rate-limit';
+import { validateFormResponse } from '@/lib/form-service';
+import { getIntakeFormBySlug, isLikelySpam, submitIntakeForm } from '@/lib/intake-form-service';
+import { IntakeForm, PublishedIntakeForm } from '@/lib/intake-forms';
+import { validateRequestBody, submitIntakeFormSchema } from '@/lib/validation-schemas';
+
+const DEFAULT_CONFIRMATION = 'Thanks! Your request has been received and our team will be in touch.';
+
+/**
+ * Who may use an intake form. Public forms are open to anyone with the link;
+ * client portal forms need a signed-in client user (of the form's account,
+ * when it has one), whose account the project is created under.
+ */
+async function resolveIntakeAccess(
+  request: NextRequest,
+  intakeForm: IntakeForm
+): Promise<
+  | { ok: true; accountId: string; user: { id: string; name: string | null; email: string | null } | null }
+  | { ok: false; response: NextResponse }
+> {
+  if (intakeForm.access === 'public') {
+    return { ok: true, accountId: intakeForm.account_id as string, user: null };
+  }
+
+  const supabase = createApiSupabaseClient(request);
+  if (!supabase) {
+    return { ok: false, response: NextResponse.json({ error: 'Database connection failed' }, { status: 500 }) };
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { ok: false, response: NextResponse.json({ error: 'Sign in to the client portal to use this form' }, { status: 401 }) };
+  }
+
+  const { data: userProfile } = await supabase
+    .from('user_profiles')
+    .select('id, name, email, is_client, client_account_id')
+    .eq('id', (user as any).id)
+    .single();
+
+  if (!userProfile?.is_client || !userProfile.client_account_id) {
+    return { ok: false, response: NextResponse.json({ error: 'This form is for client portal users only' }, { status: 403 }) };
+  }
+
+  if (intakeForm.account_id && intakeForm.account_id !== userProfile.client_account_id) {
+    return { ok: false, response: NextResponse.json({ error: 'Intake form not found' }, { status: 404 }) };
+  }
+
+  return {
+    ok: true,
+    accountId: userProfile.client_account_id,
+    user: { id: userProfile.id, name: userProfile.name, email: userProfile.email },
+  };
+}
+
+// GET /api/intake/[slug] - The form behind an intake link
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+
+  try {
+    // Intake forms are read for anonymous visitors, so this runs with the service role
+    const supabase = createCronSupabaseClient();
+    if (!supabase) {
+      return NextResponse.json({ error: 'Intake forms are not configured on this server' }, { status: 503 });
+    }
+
+    const found = await getIntakeFormBySlug(supabase, slug);
+    if (!found) {
+      return NextResponse.json({ error: 'Intake form not found' }, { status: 404 });
+    }
+
+    const access = await resolveIntakeAccess(request, found.intakeForm);
+    if (!access.ok) return access.response;
+
+    const form: PublishedIntakeForm = {
+      slug: found.intakeForm.slug,
+      title: found.intakeForm.title,
+      description: found.intakeForm.description,
+      access: found.intakeForm.access,
+      fields: found.fields,
+    };
+
+    return NextResponse.json({ success: true, form });
+  } catch (error: unknown) {
+    console.error('Error in GET /api/intake/[slug]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/intake/[slug] - Submit an intake form, creating a project
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+
+  try {
+    const supabase = createCronSupabaseClient();
+    if (!supabase) {
+      return NextResponse.json({ error: 'Intake forms are not configured on this server' }, { status: 503 });
+    }
+
+    const found = await getIntakeFormBySlug(supabase, slug);
+    if (!found) {
+      return NextResponse.json({ error: 'Intake form not found' }, { status: 404 });
+    }
+    const { intakeForm, fields } = found;
+
+    const rateLimitResponse = await applyIntakeRateLimit(request, intakeForm.id);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const access = await resolveIntakeAccess(request, intakeForm);
+    if (!access.ok) return access.response;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(submitIntakeFormSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const confirmation = intakeForm.confirmation_message || DEFAULT_CONFIRMATION;
+
+    // Look like a normal success so bots don't adapt
+    if (isLikelySpam(validation.data)) {
+      console.warn('Intake submission discarded as spam:', { intakeFormId: intakeForm.id });
+      return NextResponse.json({ success: true, message: confirmation }, { status: 201 });
+    }
+
+    const submitterName = access.user?.name || validation.data.submitter_name || null;
+    const submitterEmail = access.user?.email || validation.data.submitter_email || null;
+    if (!access.user && (!submitterName || !submitterEmail)) {
+      return NextResponse.json({ error: 'Your name and email are required' }, { status: 400 });
+    }
+
+    try {
+      validateFormResponse(fields, validation.data.responses);
+    } catch (error: unknown) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    const result = await submitIntakeForm(supabase, {
+      intakeForm,
+      fields,
+      responses: validation.data.responses,
+      accountId: access.accountId,
+      submittedBy: access.user?.id || null,
+      submitterName,
+      submitterEmail,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: confirmation,
+      // Client portal users can follow the new project; anonymous visitors can't see it
+      ...(access.user && { projectId: result.projectId }),
+    }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error in POST /api/intake/[slug]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
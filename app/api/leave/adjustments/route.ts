@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { createLeaveBalanceAdjustment } from '@/lib/leave-service';
+import { validateRequestBody, createLeaveAdjustmentSchema } from '@/lib/validation-schemas';
+
+// POST /api/leave/adjustments - Add or remove days from someone's leave balance (carry-over, corrections)
+export async function POST(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_USERS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(createLeaveAdjustmentSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await createLeaveBalanceAdjustment(supabase, {
+      userId: validation.data.user_id,
+      leaveTypeId: validation.data.leave_type_id,
+      year: validation.data.year,
+      days: validation.data.days,
+      reason: validation.data.reason ?? null,
+    }, (userProfile as any).id);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, adjustment: result.adjustment });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthentication, handleGuardError } from '@/lib/server-guards';
+import { canReviewLeaveFor, getLeaveBalances } from '@/lib/leave-service';
+import { validateQueryParams, leaveBalanceQuerySchema } from '@/lib/validation-schemas';
+
+// GET /api/leave/balances - Leave balances for a year (your own, or someone whose leave you review)
+export async function GET(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthentication(request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(leaveBalanceQuerySchema, Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = validation.data.user_id ?? (userProfile as any).id;
+    const year = validation.data.year ? Number(validation.data.year) : new Date().getFullYear();
+
+    if (userId !== (userProfile as any).id && !(await canReviewLeaveFor(supabase, userProfile, userId))) {
+      return NextResponse.json({ error: 'Insufficient permissions to view this user\'s leave balances' }, { status: 403 });
+    }
+
+    const { balances, adjustments } = await getLeaveBalances(supabase, userId, year);
+    return NextResponse.json({ success: true, year, balances, adjustments });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
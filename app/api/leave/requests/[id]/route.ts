@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthentication, handleGuardError } from '@/lib/server-guards';
+import { hasPermission } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import {
+  canReviewLeaveFor,
+  cancelLeaveRequest,
+  getLeaveRequest,
+  reviewLeaveRequest,
+} from '@/lib/leave-service';
+import { validateRequestBody, updateLeaveRequestSchema } from '@/lib/validation-schemas';
+
+// PATCH /api/leave/requests/[id] - Approve, reject or cancel a leave request
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userProfile = await requireAuthentication(request);
+    const userId = (userProfile as any).id as string;
+
+    const { id } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(updateLeaveRequestSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const existing = await getLeaveRequest(supabase, id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Leave request not found' }, { status: 404 });
+    }
+
+    const { action, note } = validation.data;
+
+    if (action === 'cancel') {
+      const canCancel = existing.userId === userId ||
+        await hasPermission(userProfile, Permission.MANAGE_USERS, undefined, supabase);
+      if (!canCancel) {
+        return NextResponse.json({ error: 'You can only cancel your own leave' }, { status: 403 });
+      }
+
+      const result = await cancelLeaveRequest(supabase, id);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, request: result.request });
+    }
+
+    if (!(await canReviewLeaveFor(supabase, userProfile, existing.userId))) {
+      return NextResponse.json({ error: 'You cannot review this leave request' }, { status: 403 });
+    }
+
+    const result = await reviewLeaveRequest(
+      supabase,
+      id,
+      action === 'approve' ? 'approved' : 'rejected',
+      note ?? null
+    );
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, request: result.request });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthentication, handleGuardError } from '@/lib/server-guards';
+import { hasPermission } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import {
+  createLeaveRequest,
+  getDepartmentTeammateIds,
+  getLeaveReportIds,
+  listLeaveRequests,
+} from '@/lib/leave-service';
+import {
+  validateRequestBody,
+  validateQueryParams,
+  createLeaveRequestSchema,
+  leaveRequestQuerySchema,
+} from '@/lib/validation-schemas';
+
+// GET /api/leave/requests - Leave requests by scope: mine, approvals (pending requests I can decide) or team (calendar)
+export async function GET(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthentication(request);
+    const userId = (userProfile as any).id as string;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(leaveRequestQuerySchema, Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { scope = 'mine', from, to } = validation.data;
+
+    if (scope === 'approvals') {
+      const canReviewAnyone = await hasPermission(userProfile, Permission.MANAGE_USERS, undefined, supabase);
+      const reportIds = canReviewAnyone ? undefined : await getLeaveReportIds(supabase, userId);
+      const requests = await listLeaveRequests(supabase, { userIds: reportIds, statuses: ['pending'], from, to });
+      return NextResponse.json({
+        success: true,
+        requests: requests.filter((r) => r.userId !== userId),
+      });
+    }
+
+    if (scope === 'team') {
+      const canViewAll = await hasPermission(userProfile, Permission.VIEW_ALL_CAPACITY, undefined, supabase);
+      const userIds = canViewAll ? undefined : await getDepartmentTeammateIds(supabase, userId);
+      const requests = await listLeaveRequests(supabase, { userIds, statuses: ['pending', 'approved'], from, to });
+      return NextResponse.json({ success: true, requests });
+    }
+
+    const requests = await listLeaveRequests(supabase, { userIds: [userId], from, to });
+    return NextResponse.json({ success: true, requests });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// POST /api/leave/requests - Request time off for yourself
+export async function POST(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthentication(request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(createLeaveRequestSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await createLeaveRequest(supabase, (userProfile as any).id, {
+      leaveTypeId: validation.data.leave_type_id,
+      startDate: validation.data.start_date,
+      endDate: validation.data.end_date,
+      halfDay: validation.data.half_day ?? false,
+      reason: validation.data.reason ?? null,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, request: result.request });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { updateLeaveType } from '@/lib/leave-service';
+import { validateRequestBody, updateLeaveTypeSchema } from '@/lib/validation-schemas';
+
+// PATCH /api/leave/types/[id] - Change a leave type's allowance, accrual or approval rule
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_USERS, {}, request);
+
+    const { id } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(updateLeaveTypeSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await updateLeaveType(supabase, id, {
+      name: validation.data.name,
+      color: validation.data.color,
+      isPaid: validation.data.is_paid,
+      requiresApproval: validation.data.requires_approval,
+      accrual: validation.data.accrual,
+      annualAllowanceDays: validation.data.annual_allowance_days,
+      isActive: validation.data.is_active,
+      sortOrder: validation.data.sort_order,
+    });
+
+    if (!result.success) {
+      const status = result.error === 'Leave type not found' ? 404 : 400;
+      return NextResponse.json({ error: result.error }, { status });
+    }
+
+    return NextResponse.json({ success: true, leaveType: result.leaveType });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthentication, requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { hasPermission } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import { createLeaveType, listLeaveTypes } from '@/lib/leave-service';
+import { validateRequestBody, createLeaveTypeSchema } from '@/lib/validation-schemas';
+
+// GET /api/leave/types - Leave types people can request (?include_inactive=true for user managers)
+export async function GET(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthentication(request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeInactive = searchParams.get('include_inactive') === 'true' &&
+      await hasPermission(userProfile, Permission.MANAGE_USERS, undefined, supabase);
+
+    const leaveTypes = await listLeaveTypes(supabase, { includeInactive });
+    return NextResponse.json({ success: true, leaveTypes });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// POST /api/leave/types - Add a leave type
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_USERS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(createLeaveTypeSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await createLeaveType(supabase, {
+      name: validation.data.name,
+      color: validation.data.color ?? '#3B82F6',
+      isPaid: validation.data.is_paid ?? true,
+      requiresApproval: validation.data.requires_approval ?? true,
+      accrual: validation.data.accrual ?? 'annual',
+      annualAllowanceDays: validation.data.annual_allowance_days ?? null,
+      isActive: validation.data.is_active ?? true,
+      sortOrder: validation.data.sort_order ?? 0,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, leaveType: result.leaveType });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
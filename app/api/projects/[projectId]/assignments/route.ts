@@ -2,11 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createApiSupabaseClient } from '@/lib/supabase-server'
 import { hasPermission, isSuperadmin } from '@/lib/rbac'
 import { Permission } from '@/lib/permissions'
+import { suggestAssignees } from '@/lib/skills-service'
+import type { AssigneeSuggestion } from '@/lib/skills'
 
 /**
  * GET /api/projects/[projectId]/assignments
  * Get all active project assignments (team members) with workflow step info
  * Returns memberType: 'collaborator' | 'workflow' | 'both' for each member
+ * Query params: suggest=true also returns staffing suggestions for people not yet on the team
  */
 export async function GET(
   request: NextRequest,
@@ -52,6 +55,7 @@ export async function GET(
         .from('workflow_instances')
         .select('id, status, workflow_template_id, started_snapshot')
         .eq('project_id', projectId)
+        .is('parent_instance_id', null)
         .in('status', ['active', 'completed'])
         .order('started_at', { ascending: false })
         .limit(1)
@@ -245,9 +249,25 @@ export async function GET(
     // Combine all members
     const allAssignments = [...enrichedAssignments, ...virtualTeamMembers]
 
+    // Ranked by the project's required skills, current load and account familiarity
+    let suggestions: AssigneeSuggestion[] | undefined
+    if (new URL(request.url).searchParams.get('suggest') === 'true') {
+      try {
+        const result = await suggestAssignees(supabase, {
+          projectId,
+          excludeUserIds: allAssignments.map((a: any) => a.user_id),
+        })
+        suggestions = result.suggestions
+      } catch (suggestError: unknown) {
+        console.error('Error suggesting team members:', suggestError)
+        suggestions = []
+      }
+    }
+
     return NextResponse.json({
       assignments: allAssignments,
-      has_active_workflow: workflowInstance?.status === 'active'
+      has_active_workflow: workflowInstance?.status === 'active',
+      ...(suggestions && { suggestions })
     })
 
   } catch (error: unknown) {
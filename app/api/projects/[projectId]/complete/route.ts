@@ -88,6 +88,7 @@ export async function POST(
       .from('workflow_instances')
       .select('id, status')
       .eq('project_id', projectId)
+      .is('parent_instance_id', null)
       .eq('status', 'active')
       .maybeSingle()
 
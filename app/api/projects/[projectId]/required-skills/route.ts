@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { getProjectRequiredSkills, setProjectRequiredSkills } from '@/lib/skills-service';
+import { isSkillProficiency } from '@/lib/skills';
+import { validateRequestBody, setRequiredSkillsSchema } from '@/lib/validation-schemas';
+
+// GET /api/projects/[projectId]/required-skills - Skills the project needs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    await requireAuthAndPermission(Permission.VIEW_PROJECTS, { projectId }, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const required = await getProjectRequiredSkills(supabase, projectId);
+    return NextResponse.json({ success: true, required });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// PUT /api/projects/[projectId]/required-skills - Replace the skills the project needs
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    await requireAuthAndPermission(Permission.MANAGE_PROJECTS, { projectId }, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(setRequiredSkillsSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await setProjectRequiredSkills(
+      supabase,
+      projectId,
+      validation.data.skills.flatMap((s) =>
+        isSkillProficiency(s.min_proficiency) ? [{ skillId: s.skill_id, minProficiency: s.min_proficiency }] : []
+      )
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, required: result.required });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
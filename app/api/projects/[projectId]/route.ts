@@ -3,6 +3,8 @@ import { createApiSupabaseClient } from '@/lib/supabase-server';
 import { hasPermission, isSuperadmin } from '@/lib/rbac';
 import { Permission } from '@/lib/permissions';
 import { checkDemoModeForDestructiveAction } from '@/lib/api-demo-guard';
+import { createCronSupabaseClient } from '@/lib/cron-auth';
+import { evaluateWorkflowTriggers } from '@/lib/workflow-trigger-service';
 
 /**
  * GET /api/projects/[projectId]
@@ -134,7 +136,7 @@ export async function PUT(
     // Get the project to check permissions
     const { data: project, error: projectError } = await supabase
       .from('projects')
-      .select('id, account_id, assigned_user_id')
+      .select('id, account_id, assigned_user_id, status')
       .eq('id', projectId)
       .single();
 
@@ -162,6 +164,7 @@ export async function PUT(
     if (body.name !== undefined) updates.name = body.name;
     if (body.description !== undefined) updates.description = body.description;
     if (body.status !== undefined) updates.status = body.status;
+    if (body.priority !== undefined) updates.priority = body.priority;
     if (body.start_date !== undefined) updates.start_date = body.start_date;
     if (body.end_date !== undefined) updates.end_date = body.end_date;
     if (body.budget !== undefined) updates.budget = body.budget;
@@ -181,6 +184,25 @@ export async function PUT(
       return NextResponse.json({ error: 'Failed to update project' }, { status: 500 });
     }
 
+    // A status change can start a workflow through its trigger rules (service
+    // role when configured, as for project creation)
+    if (body.status !== undefined && updatedProject.status !== project.status) {
+      await evaluateWorkflowTriggers(
+        createCronSupabaseClient() || supabase,
+        {
+          type: 'project_status_changed',
+          project: {
+            id: updatedProject.id,
+            account_id: updatedProject.account_id,
+            priority: updatedProject.priority,
+            status: updatedProject.status,
+          },
+          previousStatus: project.status,
+        },
+        (user as any).id
+      );
+    }
+
     // Add user as project collaborator if they made a meaningful update (notes, description)
     if (body.notes !== undefined || body.description !== undefined) {
       const { data: existingAssignment } = await supabase
@@ -5,6 +5,8 @@ import { Permission } from '@/lib/permissions'
 import { createProjectSchema, validateRequestBody } from '@/lib/validation-schemas'
 import { logger } from '@/lib/debug-logger'
 import { config } from '@/lib/config'
+import { createCronSupabaseClient } from '@/lib/cron-auth'
+import { evaluateWorkflowTriggers } from '@/lib/workflow-trigger-service'
 
 // Type definitions
 /**
@@ -85,6 +87,7 @@ export async function POST(request: NextRequest) {
         start_date: validation.data.start_date,
         end_date: validation.data.end_date,
         budget: validation.data.budget,
+        ...(validation.data.priority && { priority: validation.data.priority }),
         assigned_user_id: validation.data.assigned_user_id || (user as any).id,
         created_by: (user as any).id,
         created_at: new Date().toISOString()
@@ -126,6 +129,18 @@ export async function POST(request: NextRequest) {
       // Don't fail the request, the project was created successfully
     }
 
+    // Start any workflow whose trigger rules match the new project. Rules are
+    // an admin's standing instruction, so they run with the service role when
+    // it's configured rather than the creator's workflow permissions.
+    const triggerResult = await evaluateWorkflowTriggers(
+      createCronSupabaseClient() || supabase,
+      {
+        type: 'project_created',
+        project: { id: project.id, account_id: project.account_id, priority: project.priority, status: project.status }
+      },
+      (user as any).id
+    )
+
     logger.info('Project created successfully', {
       action: 'create_project',
       userId: (user as any).id,
@@ -133,7 +148,11 @@ export async function POST(request: NextRequest) {
       accountId
     })
 
-    return NextResponse.json({ success: true, project }, { status: 201 })
+    return NextResponse.json({
+      success: true,
+      project,
+      workflowInstanceId: triggerResult.started?.workflowInstanceId || null
+    }, { status: 201 })
   } catch (error: unknown) {
 logger.error('Error in POST /api/projects', { action: 'create_project' }, error as Error)
     return NextResponse.json({
@@ -2,6 +2,7 @@ import { NextResponse, NextRequest } from 'next/server';
 import { createApiSupabaseClient } from '@/lib/supabase-server';
 import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
 import { Permission } from '@/lib/permissions';
+import { reevaluatePendingApprovalQuorums } from '@/lib/workflow-execution-service';
 import { checkDemoModeForDestructiveAction } from '@/lib/api-demo-guard';
 
 export async function DELETE(
@@ -134,6 +135,9 @@ export async function DELETE(
       return NextResponse.json({ error: 'Failed to remove user from role' }, { status: 500 });
     }
 
+    // Losing an approver can settle a multi-approver step nobody else will vote on
+    await reevaluatePendingApprovalQuorums(supabase, { roleId });
+
     console.log(`✅ User ${targetUser.name} successfully removed from ${role.name}`);
 
     return NextResponse.json({ success: true });
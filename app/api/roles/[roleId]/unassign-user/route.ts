@@ -2,6 +2,7 @@ import { NextResponse, NextRequest } from 'next/server';
 import { createApiSupabaseClient } from '@/lib/supabase-server';
 import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
 import { Permission } from '@/lib/permissions';
+import { reevaluatePendingApprovalQuorums } from '@/lib/workflow-execution-service';
 
 export async function POST(
   request: NextRequest,
@@ -72,6 +73,9 @@ export async function POST(
       return NextResponse.json({ error: 'Failed to remove user from role' }, { status: 500 });
     }
 
+    // Losing an approver can settle a multi-approver step nobody else will vote on
+    await reevaluatePendingApprovalQuorums(supabase, { roleId });
+
     // Get the fallback role
     const { data: fallbackRole, error: fallbackError } = await supabase
       .from('roles')
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { updateSkill } from '@/lib/skills-service';
+import { validateRequestBody, updateSkillSchema } from '@/lib/validation-schemas';
+
+// PATCH /api/skills/[id] - Rename, recategorise or retire a skill
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_USERS, {}, request);
+
+    const { id } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(updateSkillSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await updateSkill(supabase, id, {
+      name: validation.data.name,
+      category: validation.data.category,
+      description: validation.data.description,
+      isActive: validation.data.is_active,
+    });
+
+    if (!result.success) {
+      const status = result.error === 'Skill not found' ? 404 : 400;
+      return NextResponse.json({ error: result.error }, { status });
+    }
+
+    return NextResponse.json({ success: true, skill: result.skill });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
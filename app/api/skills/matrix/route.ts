@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndAnyPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { getSkillsMatrix } from '@/lib/skills-service';
+
+// GET /api/skills/matrix - Everyone's skills and proficiency levels
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthAndAnyPermission(
+      [Permission.MANAGE_USERS, Permission.VIEW_TEAM_CAPACITY, Permission.VIEW_ALL_CAPACITY],
+      {},
+      request
+    );
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const matrix = await getSkillsMatrix(supabase);
+    return NextResponse.json({ success: true, ...matrix });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthentication, requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { hasPermission } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import { createSkill, listSkills } from '@/lib/skills-service';
+import { validateRequestBody, createSkillSchema } from '@/lib/validation-schemas';
+
+// GET /api/skills - The skills taxonomy (?include_inactive=true for user managers)
+export async function GET(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthentication(request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeInactive = searchParams.get('include_inactive') === 'true' &&
+      await hasPermission(userProfile, Permission.MANAGE_USERS, undefined, supabase);
+
+    const skills = await listSkills(supabase, { includeInactive });
+    return NextResponse.json({ success: true, skills });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// POST /api/skills - Add a skill to the taxonomy
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuthAndPermission(Permission.MANAGE_USERS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(createSkillSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await createSkill(supabase, {
+      name: validation.data.name,
+      category: validation.data.category ?? null,
+      description: validation.data.description ?? null,
+      isActive: validation.data.is_active ?? true,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, skill: result.skill });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
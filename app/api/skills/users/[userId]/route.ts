@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthentication, handleGuardError } from '@/lib/server-guards';
+import { hasPermission } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import { getUserSkills, setUserSkills } from '@/lib/skills-service';
+import { isSkillProficiency } from '@/lib/skills';
+import { validateRequestBody, setUserSkillsSchema } from '@/lib/validation-schemas';
+
+// GET /api/skills/users/[userId] - A person's skills and proficiency levels
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    await requireAuthentication(request);
+
+    const { userId } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const skills = await getUserSkills(supabase, userId);
+    return NextResponse.json({ success: true, skills });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// PUT /api/skills/users/[userId] - Replace a person's skills (your own, or anyone's for user managers)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const userProfile = await requireAuthentication(request);
+
+    const { userId } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    if (userId !== (userProfile as any).id &&
+      !(await hasPermission(userProfile, Permission.MANAGE_USERS, undefined, supabase))) {
+      return NextResponse.json({ error: 'You can only edit your own skills' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(setUserSkillsSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await setUserSkills(
+      supabase,
+      userId,
+      validation.data.skills.flatMap((s) =>
+        isSkillProficiency(s.proficiency) ? [{ skillId: s.skill_id, proficiency: s.proficiency }] : []
+      )
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, skills: result.skills });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
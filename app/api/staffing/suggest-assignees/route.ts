@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthentication, handleGuardError } from '@/lib/server-guards';
+import { hasPermission } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import { suggestAssignees } from '@/lib/skills-service';
+import { parseRequiredSkillsParam } from '@/lib/skills';
+import { validateQueryParams, suggestAssigneesQuerySchema } from '@/lib/validation-schemas';
+
+const MAX_SUGGESTIONS = 20;
+
+// GET /api/staffing/suggest-assignees - Rank people for a task, project or workflow step by skills, load and account familiarity
+export async function GET(request: NextRequest) {
+  try {
+    const userProfile = await requireAuthentication(request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(suggestAssigneesQuerySchema, Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { task_id: taskId, workflow_node_id: workflowNodeId, skills, limit } = validation.data;
+    let projectId = validation.data.project_id;
+
+    if (taskId) {
+      const { data: task } = await supabase
+        .from('tasks')
+        .select('project_id')
+        .eq('id', taskId)
+        .maybeSingle();
+      if (!task?.project_id) {
+        return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+      }
+      projectId = task.project_id as string;
+    }
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'project_id or task_id is required' }, { status: 400 });
+    }
+
+    if (!(await hasPermission(userProfile, Permission.VIEW_PROJECTS, { projectId }, supabase))) {
+      return NextResponse.json({ error: 'You do not have access to this project' }, { status: 403 });
+    }
+
+    const result = await suggestAssignees(supabase, {
+      projectId,
+      taskId,
+      workflowNodeId,
+      required: skills ? parseRequiredSkillsParam(skills) : undefined,
+      limit: limit ? Math.min(Number(limit), MAX_SUGGESTIONS) : undefined,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthentication, handleGuardError } from '@/lib/server-guards';
+import { hasPermission } from '@/lib/permission-checker';
+import { Permission } from '@/lib/permissions';
+import { UserWithRoles } from '@/lib/rbac-types';
+import { getTaskRequiredSkills, setTaskRequiredSkills } from '@/lib/skills-service';
+import { isSkillProficiency } from '@/lib/skills';
+import { validateRequestBody, setRequiredSkillsSchema } from '@/lib/validation-schemas';
+
+// Task permissions are inherited from access to the task's project
+async function canAccessTask(supabase: any, userProfile: UserWithRoles, taskId: string): Promise<boolean | null> {
+  const { data: task } = await supabase
+    .from('tasks')
+    .select('project_id')
+    .eq('id', taskId)
+    .maybeSingle();
+
+  if (!task?.project_id) return null;
+  return hasPermission(userProfile, Permission.VIEW_PROJECTS, { projectId: task.project_id }, supabase);
+}
+
+// GET /api/tasks/[taskId]/required-skills - Skills the task needs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  try {
+    const userProfile = await requireAuthentication(request);
+
+    const { taskId } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const access = await canAccessTask(supabase, userProfile, taskId);
+    if (access === null) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+    if (!access) {
+      return NextResponse.json({ error: 'You do not have access to this task' }, { status: 403 });
+    }
+
+    const required = await getTaskRequiredSkills(supabase, taskId);
+    return NextResponse.json({ success: true, required });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
+
+// PUT /api/tasks/[taskId]/required-skills - Replace the skills the task needs
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  try {
+    const userProfile = await requireAuthentication(request);
+
+    const { taskId } = await params;
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const access = await canAccessTask(supabase, userProfile, taskId);
+    if (access === null) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+    if (!access) {
+      return NextResponse.json({ error: 'You do not have access to this task' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const validation = validateRequestBody(setRequiredSkillsSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await setTaskRequiredSkills(
+      supabase,
+      taskId,
+      validation.data.skills.flatMap((s) =>
+        isSkillProficiency(s.min_proficiency) ? [{ skillId: s.skill_id, minProficiency: s.min_proficiency }] : []
+      )
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, required: result.required });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { deleteWorkflowAttachment, getWorkflowAttachmentContent } from '@/lib/workflow-attachment-service';
+
+// GET /api/workflows/attachments/[attachmentId] - Download a workflow attachment
+// Visibility follows the workflow (user_can_view_workflow) via the attachment row's RLS
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ attachmentId: string }> }
+) {
+  const { attachmentId } = await params;
+
+  try {
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const content = await getWorkflowAttachmentContent(supabase, attachmentId);
+    if (!content) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    const { attachment, data } = content;
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': attachment.mime_type,
+        'Content-Length': String(data.length),
+        // Always download - never render uploaded content inline on our origin
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error in GET /api/workflows/attachments/[attachmentId]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/workflows/attachments/[attachmentId] - Remove your own upload before the step is submitted
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ attachmentId: string }> }
+) {
+  const { attachmentId } = await params;
+
+  try {
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await deleteWorkflowAttachment(supabase, attachmentId);
+    if (!result.success) {
+      const status = result.error === 'Attachment not found' ? 404 : 400;
+      return NextResponse.json({ error: result.error }, { status });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error in DELETE /api/workflows/attachments/[attachmentId]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
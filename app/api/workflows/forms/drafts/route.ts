@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { getWorkflowFormDraft, saveWorkflowFormDraft } from '@/lib/workflow-form-draft-service';
+import {
+  validateQueryParams,
+  validateRequestBody,
+  saveWorkflowFormDraftSchema,
+  workflowFormDraftQuerySchema,
+} from '@/lib/validation-schemas';
+
+// GET /api/workflows/forms/drafts - The current user's draft for a workflow step
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateQueryParams(workflowFormDraftQuerySchema, Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const draft = await getWorkflowFormDraft(
+      supabase,
+      (user as any).id,
+      validation.data.workflow_instance_id,
+      validation.data.node_id,
+      validation.data.active_step_id || null
+    );
+
+    return NextResponse.json({ success: true, draft });
+  } catch (error: unknown) {
+    console.error('Error in GET /api/workflows/forms/drafts:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/workflows/forms/drafts - Save the current user's draft for a workflow step
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateRequestBody(saveWorkflowFormDraftSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    // Only workflows the user can see (user_can_view_workflow RLS) take drafts
+    const { data: instance } = await supabase
+      .from('workflow_instances')
+      .select('id, status')
+      .eq('id', validation.data.workflow_instance_id)
+      .maybeSingle();
+
+    if (!instance) {
+      return NextResponse.json({ error: 'Workflow instance not found' }, { status: 404 });
+    }
+    if (instance.status === 'completed' || instance.status === 'cancelled') {
+      return NextResponse.json({ error: 'This workflow has already finished' }, { status: 400 });
+    }
+
+    const result = await saveWorkflowFormDraft(supabase, {
+      workflowInstanceId: validation.data.workflow_instance_id,
+      nodeId: validation.data.node_id,
+      activeStepId: validation.data.active_step_id || null,
+      userId: (user as any).id,
+      formData: validation.data.form_data,
+      stepState: validation.data.step_state || {},
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, draft: result.draft });
+  } catch (error: unknown) {
+    console.error('Error in PUT /api/workflows/forms/drafts:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
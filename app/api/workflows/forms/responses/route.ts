@@ -5,6 +5,7 @@ import { Permission } from '@/lib/permissions';
 import { submitFormResponse } from '@/lib/form-service';
 import { validateRequestBody, submitFormResponseSchema } from '@/lib/validation-schemas';
 import { verifyWorkflowHistoryAccess } from '@/lib/access-control-server';
+import { clearWorkflowFormDrafts } from '@/lib/workflow-form-draft-service';
 
 // POST /api/workflows/forms/responses - Submit a form response
 export async function POST(request: NextRequest) {
@@ -71,6 +72,15 @@ export async function POST(request: NextRequest) {
       workflowHistoryId: validation.data.workflow_history_id || null
     });
 
+    // The response is in - the submitter's draft of it is done with
+    if (validation.data.workflow_instance_id && validation.data.node_id) {
+      await clearWorkflowFormDrafts(supabase, {
+        workflowInstanceId: validation.data.workflow_instance_id,
+        nodeId: validation.data.node_id,
+        userId: (user as any).id,
+      });
+    }
+
     return NextResponse.json({ success: true, response }, { status: 201 });
   } catch (error: unknown) {
     console.error('Error in POST /api/workflows/forms/responses:', error);
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { uploadWorkflowAttachment } from '@/lib/workflow-attachment-service';
+import { toWorkflowAttachmentRef } from '@/lib/workflow-attachments';
+
+// POST /api/workflows/instances/[id]/attachments - Upload a file for a form file field or step
+// Multipart body: file, nodeId (optional), fieldId (optional - omitted for step attachments)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json({ error: 'Expected a multipart form upload' }, { status: 400 });
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Missing file' }, { status: 400 });
+    }
+
+    const nodeId = formData.get('nodeId');
+    const fieldId = formData.get('fieldId');
+
+    const result = await uploadWorkflowAttachment(supabase, {
+      workflowInstanceId: id,
+      nodeId: typeof nodeId === 'string' && nodeId ? nodeId : null,
+      fieldId: typeof fieldId === 'string' && fieldId ? fieldId : null,
+      fileName: file.name,
+      mimeType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+      uploadedBy: user.id,
+    });
+
+    if (!result.success || !result.attachment) {
+      const status = result.rejected ? 422 : result.error === 'Workflow instance not found' ? 404 : 500;
+      return NextResponse.json({ error: result.error }, { status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      attachment: toWorkflowAttachmentRef(result.attachment),
+    }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error in POST /api/workflows/instances/[id]/attachments:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
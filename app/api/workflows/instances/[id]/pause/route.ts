@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { pauseWorkflow } from '@/lib/workflow-service';
+import { validateRequestBody, pauseWorkflowInstanceSchema } from '@/lib/validation-schemas';
+import { verifyWorkflowInstanceAccess } from '@/lib/access-control-server';
+
+// POST /api/workflows/instances/[id]/pause - Pause an active workflow instance
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    let body: unknown = {};
+    try {
+      body = await request.json();
+    } catch {
+      // No body - pausing without a reason
+    }
+
+    const validation = validateRequestBody(pauseWorkflowInstanceSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const accessCheck = await verifyWorkflowInstanceAccess(supabase, userProfile.id, id);
+    if (!accessCheck.hasAccess) {
+      return NextResponse.json({
+        error: accessCheck.error || 'You do not have access to this workflow instance'
+      }, { status: 403 });
+    }
+
+    const result = await pauseWorkflow(supabase, id, userProfile.id, validation.data.reason);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, status: 'paused' });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
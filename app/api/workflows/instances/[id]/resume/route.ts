@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { requireAuthAndPermission, handleGuardError } from '@/lib/server-guards';
+import { Permission } from '@/lib/permissions';
+import { resumeWorkflow } from '@/lib/workflow-service';
+import { verifyWorkflowInstanceAccess } from '@/lib/access-control-server';
+
+// POST /api/workflows/instances/[id]/resume - Resume a paused workflow instance
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const userProfile = await requireAuthAndPermission(Permission.MANAGE_WORKFLOWS, {}, request);
+
+    const supabase = createApiSupabaseClient(request);
+    if (!supabase) {
+      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 });
+    }
+
+    const accessCheck = await verifyWorkflowInstanceAccess(supabase, userProfile.id, id);
+    if (!accessCheck.hasAccess) {
+      return NextResponse.json({
+        error: accessCheck.error || 'You do not have access to this workflow instance'
+      }, { status: 403 });
+    }
+
+    const result = await resumeWorkflow(supabase, id, userProfile.id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, status: 'active', paused_seconds: result.pausedSeconds });
+  } catch (error: unknown) {
+    return handleGuardError(error);
+  }
+}
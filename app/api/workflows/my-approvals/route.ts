@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createApiSupabaseClient } from '@/lib/supabase-server';
 import { getUserPendingApprovals } from '@/lib/workflow-execution-service';
+import { attachApprovalVotes } from '@/lib/workflow-approval-quorum';
 
 export async function GET(request: NextRequest) {
   try {
@@ -107,6 +108,9 @@ export async function GET(request: NextRequest) {
             assigned_user: step.assigned_user || null
           };
         });
+
+        // Show per-approver votes on multi-approver steps
+        approvals = await attachApprovalVotes(supabase, approvals);
       }
     } else {
       // Regular users see only their pending approvals based on role
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createApiSupabaseClient } from '@/lib/supabase-server';
 import { progressWorkflowStep } from '@/lib/workflow-execution-service';
+import { getSubmittedAttachmentsError, markWorkflowAttachmentsSubmitted } from '@/lib/workflow-attachment-service';
+import { getAttachmentIdsFromFormData } from '@/lib/workflow-attachments';
+import { validateFormResponse } from '@/lib/form-service';
+import { clearWorkflowFormDrafts } from '@/lib/workflow-form-draft-service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,7 +27,10 @@ export async function POST(request: NextRequest) {
       formResponseId,
       assignedUserId,
       assignedUsersPerNode, // NEW: map of nodeId -> userId for parallel branches
-      formData
+      formData,
+      sendBackToNodeId, // Approval send-back: previously completed node that receives the work
+      sendBackReason,
+      attachmentIds // Uploads submitted with this step (step attachments and form file fields)
     } = await request.json();
 
     if (!workflowInstanceId) {
@@ -33,6 +40,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (sendBackToNodeId && !sendBackReason?.trim()) {
+      return NextResponse.json(
+        { error: 'A reason is required to send work back' },
+        { status: 400 }
+      );
+    }
+
+    // Inline forms arrive with their field definitions; linked templates are
+    // validated when their response is submitted
+    if (Array.isArray(formData?.fields) && formData?.responses && typeof formData.responses === 'object') {
+      try {
+        validateFormResponse(formData.fields, formData.responses);
+      } catch (error: unknown) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid form data' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Files referenced by an inline form count as submitted with the step too
+    const submittedAttachmentIds = Array.from(new Set<string>([
+      ...(Array.isArray(attachmentIds) ? attachmentIds.filter((id: unknown): id is string => typeof id === 'string') : []),
+      ...getAttachmentIdsFromFormData(formData?.fields as any, formData?.responses as any),
+    ]));
+
+    const attachmentsError = await getSubmittedAttachmentsError(supabase, workflowInstanceId, submittedAttachmentIds, (user as any).id);
+    if (attachmentsError) {
+      return NextResponse.json({ error: attachmentsError }, { status: 400 });
+    }
+
+    // The node being completed, so the user's draft of its form can be cleared afterwards
+    const { data: stepNode } = activeStepId
+      ? await supabase.from('workflow_active_steps').select('node_id').eq('id', activeStepId).maybeSingle()
+      : await supabase.from('workflow_instances').select('node_id:current_node_id').eq('id', workflowInstanceId).maybeSingle();
+
     // Use the new progressWorkflowStep function which supports parallel workflows
     // If activeStepId is provided, it progresses that specific step
     // If not provided, it falls back to legacy behavior using current_node_id
@@ -46,17 +89,25 @@ export async function POST(request: NextRequest) {
       formResponseId,
       assignedUserId,
       formData,
-      assignedUsersPerNode // NEW: map of nodeId -> userId for parallel branches
+      assignedUsersPerNode, // NEW: map of nodeId -> userId for parallel branches
+      sendBackToNodeId ? { sendBack: { targetNodeId: sendBackToNodeId, reason: sendBackReason } } : {}
     );
 
     if (!result.success) {
       return NextResponse.json({ error: result.error }, { status: 500 });
     }
 
+    await markWorkflowAttachmentsSubmitted(supabase, submittedAttachmentIds);
+
+    if (stepNode?.node_id) {
+      await clearWorkflowFormDrafts(supabase, { workflowInstanceId, nodeId: stepNode.node_id, userId: (user as any).id });
+    }
+
     return NextResponse.json({
       success: true,
       nextNode: result.nextNode,
       newActiveSteps: result.newActiveSteps || [], // Include new active steps for parallel workflows
+      quorum: result.quorum, // Set for multi-approver approvals: 'pending' until the quorum resolves
     });
   } catch (error: unknown) {
     console.error('Error in POST /api/workflows/progress:', error);
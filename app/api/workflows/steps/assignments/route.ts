@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createApiSupabaseClient } from '@/lib/supabase-server';
+import { clearWorkflowFormDrafts } from '@/lib/workflow-form-draft-service';
+import { reevaluatePendingApprovalQuorums } from '@/lib/workflow-execution-service';
 
 /**
  * GET /api/workflows/steps/assignments
@@ -380,6 +382,12 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to delete assignment' }, { status: 500 });
     }
 
+    // A removed assignee's draft of the step's form can't be submitted any more
+    await clearWorkflowFormDrafts(supabase, { workflowInstanceId, nodeId, userId });
+
+    // Removing an assignee from an approval node can settle its quorum
+    await reevaluatePendingApprovalQuorums(supabase, { workflowInstanceId });
+
     return NextResponse.json({
       success: true,
     });
@@ -0,0 +1,240 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CheckCircle, Loader2 } from 'lucide-react';
+import { FormFieldInput } from '@/components/form-field-inputs';
+import { getInitialFormValue, isEmptyFormValue } from '@/lib/form-field-types';
+import { applyComputedFields, getValidationRuleError, isFieldVisible } from '@/lib/form-logic';
+import { PublishedIntakeForm } from '@/lib/intake-forms';
+
+interface IntakeFormClientProps {
+  slug: string;
+}
+
+export default function IntakeFormClient({ slug }: IntakeFormClientProps) {
+  const [form, setForm] = useState<PublishedIntakeForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<{ message: string; status: number } | null>(null);
+  const [formData, setFormData] = useState<Record<string, unknown>>({});
+  const [submitterName, setSubmitterName] = useState('');
+  const [submitterEmail, setSubmitterEmail] = useState('');
+  const [website, setWebsite] = useState('');
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+
+  const loadForm = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/intake/${encodeURIComponent(slug)}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setLoadError({ message: data.error || 'This form is not available', status: response.status });
+        return;
+      }
+
+      const loaded = data.form as PublishedIntakeForm;
+      const initialData: Record<string, unknown> = {};
+      for (const field of loaded.fields) {
+        initialData[field.id] = getInitialFormValue(field);
+      }
+      setForm(loaded);
+      setFormData(initialData);
+      setStartedAt(Date.now());
+    } catch (error: unknown) {
+      console.error('Error loading intake form:', error);
+      setLoadError({ message: 'This form is not available', status: 500 });
+    } finally {
+      setLoading(false);
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    loadForm();
+  }, [loadForm]);
+
+  const resolvedFormData = form ? applyComputedFields(form.fields, formData) : formData;
+
+  const validate = (): string | null => {
+    if (!form) return null;
+
+    if (form.access === 'public') {
+      if (!submitterName.trim()) return 'Please enter your name';
+      if (!submitterEmail.trim()) return 'Please enter your email';
+    }
+
+    for (const field of form.fields) {
+      if (!isFieldVisible(field, resolvedFormData)) continue;
+      if (field.required && isEmptyFormValue(resolvedFormData[field.id])) {
+        return `${field.label} is required`;
+      }
+      const ruleError = getValidationRuleError(field, resolvedFormData);
+      if (ruleError) return ruleError;
+    }
+
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    const validationError = validate();
+    if (validationError) {
+      setSubmitError(validationError);
+      return;
+    }
+
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const response = await fetch(`/api/intake/${encodeURIComponent(slug)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          responses: resolvedFormData,
+          submitter_name: form.access === 'public' ? submitterName.trim() : null,
+          submitter_email: form.access === 'public' ? submitterEmail.trim() : null,
+          website,
+          started_at: startedAt,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setSubmitError(data.error || 'Failed to submit the form');
+        return;
+      }
+
+      setConfirmation(data.message);
+    } catch (error: unknown) {
+      console.error('Error submitting intake form:', error);
+      setSubmitError('Failed to submit the form');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (loadError || !form) {
+    return (
+      <Card className="max-w-xl mx-auto">
+        <CardHeader>
+          <CardTitle>Form unavailable</CardTitle>
+          <CardDescription>{loadError?.message || 'This form is not available'}</CardDescription>
+        </CardHeader>
+        {loadError?.status === 401 && (
+          <CardContent>
+            <Button asChild>
+              <Link href={`/login?redirectTo=/intake/${encodeURIComponent(slug)}`}>Sign in</Link>
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    );
+  }
+
+  if (confirmation) {
+    return (
+      <Card className="max-w-xl mx-auto">
+        <CardContent className="pt-6 flex flex-col items-center gap-3 text-center">
+          <CheckCircle className="w-10 h-10 text-green-600" />
+          <p className="text-gray-700">{confirmation}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle>{form.title}</CardTitle>
+        {form.description && <CardDescription className="whitespace-pre-wrap">{form.description}</CardDescription>}
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-5">
+          {form.access === 'public' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="intake-name">
+                  Your name<span className="text-red-500 ml-1">*</span>
+                </Label>
+                <Input
+                  id="intake-name"
+                  value={submitterName}
+                  onChange={(e) => setSubmitterName(e.target.value)}
+                  autoComplete="name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="intake-email">
+                  Your email<span className="text-red-500 ml-1">*</span>
+                </Label>
+                <Input
+                  id="intake-email"
+                  type="email"
+                  value={submitterEmail}
+                  onChange={(e) => setSubmitterEmail(e.target.value)}
+                  autoComplete="email"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Honeypot - hidden from people, filled in by bots */}
+          <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+            <label htmlFor="intake-website">Website</label>
+            <input
+              id="intake-website"
+              name="website"
+              tabIndex={-1}
+              autoComplete="off"
+              value={website}
+              onChange={(e) => setWebsite(e.target.value)}
+            />
+          </div>
+
+          {form.fields.map((field) => {
+            if (!isFieldVisible(field, resolvedFormData)) return null;
+
+            return (
+              <div key={field.id} className="space-y-2">
+                <Label htmlFor={`form-${field.id}`}>
+                  {field.label}
+                  {field.required && <span className="text-red-500 ml-1">*</span>}
+                </Label>
+                <FormFieldInput
+                  field={field}
+                  value={resolvedFormData[field.id]}
+                  onChange={(value) => setFormData((prev) => ({ ...prev, [field.id]: value }))}
+                  disabled={submitting}
+                />
+              </div>
+            );
+          })}
+
+          {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+          <Button type="submit" disabled={submitting} className="w-full">
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {submitting ? 'Submitting...' : 'Submit request'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,11 @@
+import IntakeFormClient from './intake-form-client';
+
+export default async function IntakeFormPage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+
+  return <IntakeFormClient slug={slug} />;
+}
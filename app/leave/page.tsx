@@ -0,0 +1,501 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CalendarDays, Check, Inbox, Loader2, Plane, Plus, Users, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { RoleGuard } from '@/components/role-guard';
+import { LeaveTeamCalendar } from '@/components/leave-team-calendar';
+import { LeaveBalance, LeaveRequest, LeaveStatus, LeaveType } from '@/lib/leave';
+import { toDateKey } from '@/lib/business-calendar-service';
+
+const STATUS_STYLES: Record<LeaveStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+interface RequestForm {
+  leaveTypeId: string;
+  startDate: string;
+  endDate: string;
+  halfDay: boolean;
+  reason: string;
+}
+
+function formatRange(request: LeaveRequest): string {
+  const format = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  if (request.startDate === request.endDate) {
+    return `${format(request.startDate)}${request.halfDay ? ' (half day)' : ''}`;
+  }
+  return `${format(request.startDate)} - ${format(request.endDate)}`;
+}
+
+function formatDays(days: number): string {
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+export default function LeavePage() {
+  const { user, userProfile, loading } = useAuth();
+  const router = useRouter();
+  const [activeTab, setActiveTab] = useState('mine');
+
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [myRequests, setMyRequests] = useState<LeaveRequest[]>([]);
+  const [approvals, setApprovals] = useState<LeaveRequest[]>([]);
+  const [loadingData, setLoadingData] = useState(true);
+  const [calendarKey, setCalendarKey] = useState(0);
+
+  const [form, setForm] = useState<RequestForm | null>(null);
+  const [review, setReview] = useState<{ request: LeaveRequest; action: 'approve' | 'reject'; note: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [user, loading, router]);
+
+  const loadData = useCallback(async () => {
+    setLoadingData(true);
+    try {
+      const [typesResponse, balancesResponse, mineResponse, approvalsResponse] = await Promise.all([
+        fetch('/api/leave/types'),
+        fetch('/api/leave/balances'),
+        fetch('/api/leave/requests?scope=mine'),
+        fetch('/api/leave/requests?scope=approvals'),
+      ]);
+      const [typesData, balancesData, mineData, approvalsData] = await Promise.all([
+        typesResponse.json(),
+        balancesResponse.json(),
+        mineResponse.json(),
+        approvalsResponse.json(),
+      ]);
+
+      if (!typesResponse.ok || !balancesResponse.ok || !mineResponse.ok) {
+        toast.error(typesData.error || balancesData.error || mineData.error || 'Failed to load leave');
+        return;
+      }
+      setLeaveTypes(typesData.leaveTypes || []);
+      setBalances(balancesData.balances || []);
+      setMyRequests(mineData.requests || []);
+      setApprovals(approvalsResponse.ok ? approvalsData.requests || [] : []);
+    } catch (error: unknown) {
+      console.error('Error loading leave:', error);
+      toast.error('Failed to load leave');
+    } finally {
+      setLoadingData(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (userProfile) void loadData();
+  }, [userProfile, loadData]);
+
+  const refresh = async () => {
+    await loadData();
+    setCalendarKey((key) => key + 1);
+  };
+
+  const openRequestForm = () => {
+    const today = toDateKey(new Date());
+    setForm({ leaveTypeId: leaveTypes[0]?.id ?? '', startDate: today, endDate: today, halfDay: false, reason: '' });
+  };
+
+  const submitRequest = async () => {
+    if (!form) return;
+    if (!form.leaveTypeId) {
+      toast.error('Choose a leave type');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/leave/requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          leave_type_id: form.leaveTypeId,
+          start_date: form.startDate,
+          end_date: form.halfDay ? form.startDate : form.endDate,
+          half_day: form.halfDay,
+          reason: form.reason.trim() || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to request leave');
+        return;
+      }
+      toast.success(data.request?.status === 'approved' ? 'Leave booked' : 'Leave requested - waiting for approval');
+      setForm(null);
+      await refresh();
+    } catch (error: unknown) {
+      console.error('Error requesting leave:', error);
+      toast.error('Failed to request leave');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateRequest = async (id: string, action: 'approve' | 'reject' | 'cancel', note?: string) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/leave/requests/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, note: note?.trim() || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update leave request');
+        return;
+      }
+      toast.success(action === 'approve' ? 'Leave approved' : action === 'reject' ? 'Leave rejected' : 'Leave cancelled');
+      setReview(null);
+      await refresh();
+    } catch (error: unknown) {
+      console.error('Error updating leave request:', error);
+      toast.error('Failed to update leave request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !userProfile) {
+    return null; // Will redirect to login
+  }
+
+  const today = toDateKey(new Date());
+
+  return (
+    <RoleGuard allowUnassigned={true}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Leave</h1>
+            <p className="text-gray-600 mt-2">
+              Request time off, track your balances and see who&apos;s out. Approved leave comes off your availability automatically.
+            </p>
+          </div>
+          <Button onClick={openRequestForm} disabled={leaveTypes.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Request Leave
+          </Button>
+        </div>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="grid w-full max-w-md grid-cols-3">
+            <TabsTrigger value="mine" className="flex items-center gap-2">
+              <Plane className="h-4 w-4" />
+              <span className="hidden sm:inline">My Leave</span>
+            </TabsTrigger>
+            <TabsTrigger value="approvals" className="flex items-center gap-2">
+              <Inbox className="h-4 w-4" />
+              <span className="hidden sm:inline">Approvals</span>
+              {approvals.length > 0 && <Badge variant="secondary">{approvals.length}</Badge>}
+            </TabsTrigger>
+            <TabsTrigger value="team" className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              <span className="hidden sm:inline">Team Calendar</span>
+            </TabsTrigger>
+          </TabsList>
+
+          {/* My Leave Tab */}
+          <TabsContent value="mine" className="space-y-6">
+            {loadingData ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : (
+              <>
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {balances.map((balance) => (
+                    <Card key={balance.leaveTypeId}>
+                      <CardHeader className="pb-2">
+                        <CardTitle className="flex items-center gap-2 text-base">
+                          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: balance.color }} />
+                          {balance.leaveTypeName}
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        {balance.tracked ? (
+                          <>
+                            <p className="text-2xl font-bold">{balance.remaining} <span className="text-sm font-normal text-gray-500">days left</span></p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {balance.accrued} accrued
+                              {balance.adjustments !== 0 && `, ${balance.adjustments > 0 ? '+' : ''}${balance.adjustments} adjusted`}
+                              , {balance.taken} taken
+                              {balance.pending > 0 && `, ${balance.pending} pending`}
+                            </p>
+                          </>
+                        ) : (
+                          <>
+                            <p className="text-2xl font-bold">{balance.taken} <span className="text-sm font-normal text-gray-500">days taken</span></p>
+                            <p className="text-xs text-gray-500 mt-1">No allowance - taken as needed</p>
+                          </>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <CalendarDays className="h-5 w-5" />
+                      My Requests
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {myRequests.length === 0 ? (
+                      <p className="py-6 text-center text-sm text-gray-500">You haven&apos;t requested any leave yet.</p>
+                    ) : (
+                      <div className="divide-y">
+                        {myRequests.map((request) => (
+                          <div key={request.id} className="flex items-center justify-between gap-4 py-3">
+                            <div>
+                              <div className="flex items-center gap-2">
+                                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: request.leaveTypeColor }} />
+                                <span className="font-medium">{request.leaveTypeName}</span>
+                                <Badge className={STATUS_STYLES[request.status]}>{request.status}</Badge>
+                              </div>
+                              <p className="text-sm text-gray-600 mt-1">{formatRange(request)} · {formatDays(request.days)}</p>
+                              {request.reviewNote && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                  {request.reviewedByName ?? 'Reviewer'}: {request.reviewNote}
+                                </p>
+                              )}
+                            </div>
+                            {(request.status === 'pending' || (request.status === 'approved' && request.endDate >= today)) && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={saving}
+                                onClick={() => { void updateRequest(request.id, 'cancel'); }}
+                              >
+                                Cancel
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </TabsContent>
+
+          {/* Approvals Tab */}
+          <TabsContent value="approvals" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Waiting for Approval</CardTitle>
+                <CardDescription>Leave requested by people who report to your role</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {approvals.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-gray-500">Nothing waiting for you.</p>
+                ) : (
+                  <div className="divide-y">
+                    {approvals.map((request) => (
+                      <div key={request.id} className="flex items-center justify-between gap-4 py-3">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{request.userName ?? 'Unknown'}</span>
+                            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: request.leaveTypeColor }} />
+                            <span className="text-sm text-gray-600">{request.leaveTypeName}</span>
+                          </div>
+                          <p className="text-sm text-gray-600 mt-1">{formatRange(request)} · {formatDays(request.days)}</p>
+                          {request.reason && <p className="text-xs text-gray-500 mt-1">{request.reason}</p>}
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            disabled={saving}
+                            onClick={() => setReview({ request, action: 'approve', note: '' })}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={saving}
+                            onClick={() => setReview({ request, action: 'reject', note: '' })}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Team Calendar Tab */}
+          <TabsContent value="team" className="space-y-6">
+            <LeaveTeamCalendar refreshKey={calendarKey} />
+          </TabsContent>
+        </Tabs>
+
+        {/* Request Leave Dialog */}
+        <Dialog open={form !== null} onOpenChange={(open) => { if (!open) setForm(null); }}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Request Leave</DialogTitle>
+              <DialogDescription>
+                Only working days count against your balance.
+              </DialogDescription>
+            </DialogHeader>
+            {form && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select value={form.leaveTypeId} onValueChange={(value) => setForm({ ...form, leaveTypeId: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a leave type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {leaveTypes.map((type) => (
+                        <SelectItem key={type.id} value={type.id}>
+                          {type.name}{type.requiresApproval ? '' : ' (no approval needed)'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="leave-start">First day</Label>
+                    <Input
+                      id="leave-start"
+                      type="date"
+                      value={form.startDate}
+                      onChange={(e) => setForm({
+                        ...form,
+                        startDate: e.target.value,
+                        endDate: form.endDate < e.target.value ? e.target.value : form.endDate,
+                      })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="leave-end">Last day</Label>
+                    <Input
+                      id="leave-end"
+                      type="date"
+                      value={form.halfDay ? form.startDate : form.endDate}
+                      min={form.startDate}
+                      disabled={form.halfDay}
+                      onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="leave-half-day"
+                    checked={form.halfDay}
+                    onCheckedChange={(checked) => setForm({ ...form, halfDay: checked })}
+                  />
+                  <Label htmlFor="leave-half-day">Half day</Label>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leave-reason">Reason (optional)</Label>
+                  <Textarea
+                    id="leave-reason"
+                    value={form.reason}
+                    onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                    rows={3}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+              <Button onClick={() => { void submitRequest(); }} disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Submit
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Review Dialog */}
+        <Dialog open={review !== null} onOpenChange={(open) => { if (!open) setReview(null); }}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{review?.action === 'approve' ? 'Approve Leave' : 'Reject Leave'}</DialogTitle>
+              <DialogDescription>
+                {review && `${review.request.userName ?? 'Unknown'} - ${review.request.leaveTypeName}, ${formatRange(review.request)}`}
+              </DialogDescription>
+            </DialogHeader>
+            {review && (
+              <div className="space-y-2">
+                <Label htmlFor="review-note">Note (optional)</Label>
+                <Textarea
+                  id="review-note"
+                  value={review.note}
+                  onChange={(e) => setReview({ ...review, note: e.target.value })}
+                  rows={3}
+                />
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setReview(null)}>Cancel</Button>
+              <Button
+                variant={review?.action === 'reject' ? 'destructive' : 'default'}
+                disabled={saving}
+                onClick={() => { if (review) void updateRequest(review.request.id, review.action, review.note); }}
+              >
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {review?.action === 'approve' ? 'Approve' : 'Reject'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </RoleGuard>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useAuth } from '@/lib/hooks/useAuth'
 import { useRouter } from 'next/navigation'
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -12,6 +12,8 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { User, Mail, Building2, Shield, Save, Edit3, AlertCircle, Lock, Bell, Palette } from 'lucide-react'
 import { updateUserProfile, updatePassword } from '@/lib/auth'
 import { RoleGuard } from '@/components/role-guard'
+import { UserSkillsEditor } from '@/components/user-skills-editor'
+import { UserSkill } from '@/lib/skills'
 
 export default function ProfilePage() {
   const { user, userProfile, loading, refreshProfile } = useAuth()
@@ -24,9 +26,8 @@ export default function ProfilePage() {
     name: '',
     email: '',
     bio: '',
-    skills: [] as string[],
   })
-  const [newSkill, setNewSkill] = useState('')
+  const [userSkills, setUserSkills] = useState<UserSkill[]>([])
   
   // Password change state
   const [isChangingPassword, setIsChangingPassword] = useState(false)
@@ -53,11 +54,30 @@ export default function ProfilePage() {
         name: (userProfile as any).name || '',
         email: (userProfile as any).email || '',
         bio: (userProfile as any).bio || '',
-        skills: (userProfile as any).skills || [],
       })
     }
   }, [userProfile])
 
+  const profileId = (userProfile as any)?.id as string | undefined
+
+  // Skills come from the managed taxonomy (user_skills), not the legacy free-text array
+  const loadUserSkills = useCallback(async (userId: string) => {
+    try {
+      const response = await fetch(`/api/skills/users/${userId}`)
+      if (!response.ok) throw new Error('Failed to load skills')
+      const data = await response.json()
+      setUserSkills(data.skills || [])
+    } catch (error: unknown) {
+      console.error('Error loading skills:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (profileId) {
+      loadUserSkills(profileId)
+    }
+  }, [profileId, loadUserSkills])
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -85,8 +105,19 @@ export default function ProfilePage() {
       await updateUserProfile({
         name: formData.name,
         bio: formData.bio,
-        skills: formData.skills,
       })
+
+      const skillsResponse = await fetch(`/api/skills/users/${(userProfile as any).id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          skills: userSkills.map((us) => ({ skill_id: us.skillId, proficiency: us.proficiency })),
+        }),
+      })
+      if (!skillsResponse.ok) {
+        const result = await skillsResponse.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to save skills')
+      }
       
       // Refresh the profile data
       await refreshProfile()
@@ -105,23 +136,6 @@ export default function ProfilePage() {
     }
   }
 
-  const handleAddSkill = () => {
-    if (newSkill.trim() && !formData.skills.includes(newSkill.trim())) {
-      setFormData(prev => ({
-        ...prev,
-        skills: [...prev.skills, newSkill.trim()]
-      }))
-      setNewSkill('')
-    }
-  }
-
-  const handleRemoveSkill = (skillToRemove: string) => {
-    setFormData(prev => ({
-      ...prev,
-      skills: prev.skills.filter((skill: any) => skill !== skillToRemove)
-    }))
-  }
-
   const handlePasswordChange = async () => {
     try {
       setIsSaving(true)
@@ -340,37 +354,7 @@ export default function ProfilePage() {
 
               <div className="space-y-2">
                 <Label>Skills</Label>
-                <div className="flex flex-wrap gap-2 mb-2">
-                  {formData.skills.map((skill:any, index:any) => (
-                    <span
-                      key={index}
-                      className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800"
-                    >
-                      {skill}
-                      {isEditing && (
-                        <button
-                          onClick={() => { handleRemoveSkill(skill); }}
-                          className="ml-2 text-gray-500 hover:text-red-500"
-                        >
-                          ×
-                        </button>
-                      )}
-                    </span>
-                  ))}
-                </div>
-                {isEditing && (
-                  <div className="flex space-x-2">
-                    <Input
-                      value={newSkill}
-                      onChange={(e) => { setNewSkill(e.target.value); }}
-                      placeholder="Add a skill..."
-                      onKeyPress={(e) => e.key === 'Enter' && handleAddSkill()}
-                    />
-                    <Button onClick={handleAddSkill} size="sm">
-                      Add
-                    </Button>
-                  </div>
-                )}
+                <UserSkillsEditor value={userSkills} onChange={setUserSkills} disabled={!isEditing} />
               </div>
 
               {isEditing && (
@@ -379,6 +363,7 @@ export default function ProfilePage() {
                     variant="outline"
                     onClick={() => {
                       setIsEditing(false)
+                      if (profileId) loadUserSkills(profileId)
                       setSaveError(null)
                       setSaveSuccess(false)
                     }}
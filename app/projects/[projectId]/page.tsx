@@ -36,7 +36,15 @@ import { hasPermission } from '@/lib/rbac'
 import { toast } from 'sonner'
 import { handleApiPermissionError } from '@/lib/permission-toast'
 import { WorkflowProgressButton } from '@/components/workflow-progress-button'
+import { WorkflowPauseControl } from '@/components/workflow-pause-control'
 import { WorkflowProgress } from '@/components/workflow-progress'
+import { WorkflowAttachmentLinks } from '@/components/workflow-attachments'
+import { toWorkflowAttachmentRef, WorkflowAttachmentRef } from '@/lib/workflow-attachments'
+import { FormFieldValue } from '@/components/form-field-inputs'
+import { withResponseVersion } from '@/lib/form-template-versions'
+import { AssigneeSuggestions } from '@/components/assignee-suggestions'
+import { ProjectRequiredSkills } from '@/components/project-required-skills'
+import { AssigneeSuggestion } from '@/lib/skills'
 
 type Project = any
 type Account = any
@@ -78,6 +86,8 @@ interface WorkflowFormDataEntry {
   responseData: Record<string, Record<string, unknown>>
   fields: Array<{ id: string; label: string; type: string }> | null
   approvalDecision?: 'approved' | 'rejected' | null
+  // Files attached to the step itself (not to a form field)
+  attachments?: WorkflowAttachmentRef[]
 }
 
 // Helper function to render simple markdown (bold text) as React elements
@@ -109,6 +119,23 @@ function renderMarkdownContent(content: string): React.ReactNode {
   })
 }
 
+// Running sub-workflows under a workflow instance, including nested ones (parents first)
+async function loadRunningSubworkflowIds(supabase: any, workflowInstanceId: string | null): Promise<string[]> {
+  const childInstanceIds: string[] = []
+  let parentIds = workflowInstanceId ? [workflowInstanceId] : []
+  while (parentIds.length > 0) {
+    const { data: children } = await supabase
+      .from('workflow_instances')
+      .select('id')
+      .in('parent_instance_id', parentIds)
+      .in('status', ['active', 'paused'])
+      .order('started_at', { ascending: true })
+    parentIds = (children || []).map((child: { id: string }) => child.id).filter((id: string) => !childInstanceIds.includes(id))
+    childInstanceIds.push(...parentIds)
+  }
+  return childInstanceIds
+}
+
 // Task item component - shows task details and progress
 interface TaskItemProps {
   task: Task
@@ -304,6 +331,7 @@ export default function ProjectDetailPage() {
 
   // Workflow step names to display as status (array for parallel workflows)
   const [workflowStepNames, setWorkflowStepNames] = useState<string[]>([])
+  const [subworkflowInstanceIds, setSubworkflowInstanceIds] = useState<string[]>([])
 
   // Parallel workflow support - track selected active step and dialog state
   const [selectedActiveStepId, setSelectedActiveStepId] = useState<string | null>(null)
@@ -339,6 +367,8 @@ export default function ProjectDetailPage() {
   const [showAddMemberDropdown, setShowAddMemberDropdown] = useState(false)
   const [availableUsers, setAvailableUsers] = useState<Array<{ id: string; name: string; email: string }>>([])
   const [loadingAvailableUsers, setLoadingAvailableUsers] = useState(false)
+  const [suggestedMembers, setSuggestedMembers] = useState<AssigneeSuggestion[]>([])
+  const [loadingSuggestedMembers, setLoadingSuggestedMembers] = useState(false)
 
   // Workflow node assignment state
   const [workflowNodes, setWorkflowNodes] = useState<Array<{
@@ -636,12 +666,13 @@ export default function ProjectDetailPage() {
         // We need to verify the workflow is actually active before using it
         let workflowInstanceId: string | null = null
 
-        // First, check if there's an active workflow for this project
+        // First, check if there's an active workflow for this project (paused workflows are still in flight)
         const { data: activeWorkflows, error: awError } = await supabase
           .from('workflow_instances')
           .select('id')
           .eq('project_id', projectId)
-          .eq('status', 'active')
+          .is('parent_instance_id', null)
+          .in('status', ['active', 'paused'])
           .order('started_at', { ascending: false })
           .limit(1)
 
@@ -656,7 +687,7 @@ export default function ProjectDetailPage() {
             .eq('id', data.workflow_instance_id)
             .single()
 
-          if (storedWorkflow?.status === 'active') {
+          if (storedWorkflow?.status === 'active' || storedWorkflow?.status === 'paused') {
             workflowInstanceId = storedWorkflow.id
             console.log('Using stored workflow instance:', workflowInstanceId)
           } else {
@@ -750,6 +781,9 @@ export default function ProjectDetailPage() {
           }
         }
 
+        // Running sub-workflows get their own progress controls
+        setSubworkflowInstanceIds(await loadRunningSubworkflowIds(supabase, workflowInstanceId))
+
         // Transform the data to include all details
         const projectWithDetails: ProjectWithDetails = {
           ...data,
@@ -933,6 +967,9 @@ export default function ProjectDetailPage() {
         }
       }
 
+      // Progressing can start or finish sub-workflows
+      setSubworkflowInstanceIds(await loadRunningSubworkflowIds(supabase, project?.workflow_instance_id || null))
+
       // Always refresh project data to catch status changes (including completion)
       const { data: projectData, error: projectError } = await supabase
         .from('projects')
@@ -1160,6 +1197,7 @@ export default function ProjectDetailPage() {
           .from('workflow_instances')
           .select('id, status')
           .eq('project_id', projectId)
+          .is('parent_instance_id', null)
           .in('status', ['active', 'completed'])
           .order('started_at', { ascending: false })
           .limit(1)
@@ -1361,6 +1399,24 @@ export default function ProjectDetailPage() {
     }
   }, [projectId, teamMembers])
 
+  // Staffing suggestions for the add member dropdown, ranked against the project's required skills
+  const loadSuggestedMembers = useCallback(async () => {
+    if (!projectId) return
+
+    setLoadingSuggestedMembers(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/assignments?suggest=true`)
+      if (response.ok) {
+        const data = await response.json()
+        setSuggestedMembers(data.suggestions || [])
+      }
+    } catch (error: unknown) {
+      console.error('Error loading suggested team members:', error)
+    } finally {
+      setLoadingSuggestedMembers(false)
+    }
+  }, [projectId])
+
   // Add a team member
   const handleAddTeamMember = async (userId: string) => {
     if (!projectId || addingMember) return
@@ -1442,8 +1498,9 @@ export default function ProjectDetailPage() {
   useEffect(() => {
     if (showAddMemberDropdown) {
       loadAvailableUsers()
+      loadSuggestedMembers()
     }
-  }, [showAddMemberDropdown, loadAvailableUsers])
+  }, [showAddMemberDropdown, loadAvailableUsers, loadSuggestedMembers])
 
   // Load workflow nodes when step assignment dropdown opens
   // Pass the userId to get eligibility info for that user
@@ -1779,13 +1836,15 @@ export default function ProjectDetailPage() {
             .select(`
               response_data,
               submitted_at,
-              form_template:form_templates(name, fields)
+              form_template:form_templates(name, fields),
+              form_template_version:form_template_versions(name, fields)
             `)
             .eq('id', entry.form_response_id)
             .single()
 
           if (formResponse) {
-            const formResp = formResponse as Record<string, unknown>
+            // Render with the fields the response was filled in against
+            const formResp = withResponseVersion(formResponse as Record<string, unknown>)
             formDataEntries.push({
               id: entry.id as string,
               formName: ((formResp.form_template as Record<string, unknown>)?.name as string) || null,
@@ -1821,6 +1880,48 @@ export default function ProjectDetailPage() {
         }
       }
 
+      // Step attachments - one entry per step submission that included files
+      const { data: stepAttachments } = await supabase
+        .from('workflow_attachments')
+        .select(`
+          id,
+          node_id,
+          file_name,
+          mime_type,
+          size_bytes,
+          submitted_at,
+          user_profiles!workflow_attachments_uploaded_by_fkey(name)
+        `)
+        .eq('workflow_instance_id', project.workflow_instance_id)
+        .is('field_id', null)
+        .not('submitted_at', 'is', null)
+        .order('submitted_at', { ascending: true })
+
+      const attachmentGroups = new Map<string, WorkflowFormDataEntry>()
+      for (const attachment of (stepAttachments || []) as Record<string, unknown>[]) {
+        const key = `${attachment.node_id}:${attachment.submitted_at}`
+        if (!attachmentGroups.has(key)) {
+          const nodeEntry = entries.find((e) => e.to_node_id === attachment.node_id)
+          attachmentGroups.set(key, {
+            id: `attachments-${key}`,
+            formName: null,
+            stepName: ((nodeEntry?.workflow_nodes as Record<string, unknown>)?.label as string) || null,
+            submittedAt: attachment.submitted_at as string,
+            submittedBy: ((attachment.user_profiles as Record<string, unknown>)?.name as string) || null,
+            responseData: {},
+            fields: [],
+            approvalDecision: null,
+            attachments: []
+          })
+        }
+        attachmentGroups.get(key)!.attachments!.push(toWorkflowAttachmentRef(attachment as any))
+      }
+
+      if (attachmentGroups.size > 0) {
+        formDataEntries.push(...attachmentGroups.values())
+        formDataEntries.sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime())
+      }
+
       setWorkflowFormData(formDataEntries)
     } catch (error: unknown) {
       console.error('Error loading workflow form data:', error)
@@ -2073,6 +2174,23 @@ export default function ProjectDetailPage() {
               onProgress={handleWorkflowProgress}
             />
 
+            {/* Pause / Resume - Workflow managers only */}
+            <WorkflowPauseControl
+              projectId={projectId}
+              workflowInstanceId={project.workflow_instance_id || null}
+              onChange={handleWorkflowProgress}
+            />
+
+            {/* Sub-workflows running under the main workflow */}
+            {subworkflowInstanceIds.map((childId) => (
+              <WorkflowProgressButton
+                key={`subworkflow-button-${childId}-${workflowRefreshKey}`}
+                projectId={projectId}
+                workflowInstanceId={childId}
+                onProgress={handleWorkflowProgress}
+              />
+            ))}
+
             {/* Complete Project Button - Show for non-workflow projects only */}
             {canEditProject && !project.workflow_instance_id && (
               <Button
@@ -2108,6 +2226,13 @@ export default function ProjectDetailPage() {
           }}
         />
 
+        {subworkflowInstanceIds.map((childId) => (
+          <WorkflowProgress
+            key={`subworkflow-progress-${childId}-${workflowRefreshKey}`}
+            workflowInstanceId={childId}
+          />
+        ))}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Left Column - Main Content */}
           <div className="lg:col-span-2 space-y-6">
@@ -2243,17 +2368,7 @@ export default function ProjectDetailPage() {
                               <div key={fieldId} className="flex flex-col sm:flex-row sm:items-baseline gap-1">
                                 <span className="text-xs font-medium text-gray-500 sm:w-1/3">{field.label as string}:</span>
                                 <span className="text-sm text-gray-900 sm:w-2/3">
-                                  {(field.type as string) === 'url' && typeof value === 'string' ? (
-                                    <a href={value} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
-                                      {value}
-                                    </a>
-                                  ) : Array.isArray(value) ? (
-                                    value.join(', ')
-                                  ) : typeof value === 'boolean' ? (
-                                    value ? 'Yes' : 'No'
-                                  ) : (
-                                    String(value)
-                                  )}
+                                  <FormFieldValue field={field} value={value} />
                                 </span>
                               </div>
                             )
@@ -2267,6 +2382,14 @@ export default function ProjectDetailPage() {
                               </span>
                             </div>
                           ))}
+                          {entry.attachments?.length > 0 && (
+                            <div className="flex flex-col sm:flex-row sm:items-baseline gap-1">
+                              <span className="text-xs font-medium text-gray-500 sm:w-1/3">Attachments:</span>
+                              <span className="text-sm text-gray-900 sm:w-2/3">
+                                <WorkflowAttachmentLinks attachments={entry.attachments} />
+                              </span>
+                            </div>
+                          )}
                         </div>
                       </div>
                       )
@@ -2933,7 +3056,17 @@ export default function ProjectDetailPage() {
                             className="fixed inset-0 z-40"
                             onClick={() => setShowAddMemberDropdown(false)}
                           />
-                          <div className="absolute right-0 top-full mt-1 w-64 bg-white border rounded-lg shadow-lg z-50 max-h-64 overflow-y-auto">
+                          <div className="absolute right-0 top-full mt-1 w-72 bg-white border rounded-lg shadow-lg z-50 max-h-96 overflow-y-auto">
+                          {(loadingSuggestedMembers || suggestedMembers.length > 0) && (
+                            <div className="p-2 border-b">
+                              <AssigneeSuggestions
+                                suggestions={suggestedMembers}
+                                loading={loadingSuggestedMembers}
+                                onPick={(suggestion) => handleAddTeamMember(suggestion.userId)}
+                                disabled={addingMember}
+                              />
+                            </div>
+                          )}
                           <div className="p-2 border-b">
                             <p className="text-xs font-medium text-gray-500">Select user to add</p>
                           </div>
@@ -3210,6 +3343,12 @@ export default function ProjectDetailPage() {
               </CardContent>
             </Card>
 
+            {/* Required Skills - feed the team and task assignee suggestions */}
+            <ProjectRequiredSkills
+              projectId={projectId}
+              canEdit={canEditProject && project.status !== 'complete'}
+            />
+
             {/* Account & Departments (Merged) */}
             <Card>
               <CardHeader>
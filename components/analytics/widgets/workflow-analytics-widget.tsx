@@ -16,7 +16,7 @@ import {
 } from 'recharts';
 import { WidgetBase, DateRange, StatCard, WidgetEmptyState } from './widget-base';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { GitBranch, Clock, CheckCircle, AlertTriangle } from 'lucide-react';
+import { GitBranch, Clock, CheckCircle, AlertTriangle, RotateCcw } from 'lucide-react';
 
 interface WorkflowAnalyticsData {
   summary: {
@@ -24,6 +24,7 @@ interface WorkflowAnalyticsData {
     activeInstances: number;
     completedThisMonth: number;
     avgCompletionDays: number;
+    avgCompletionBusinessDays: number;
     completionRate: number;
   };
   statusDistribution: { status: string; count: number; color: string }[];
@@ -33,8 +34,19 @@ interface WorkflowAnalyticsData {
     name: string;
     type: string;
     avgHours: number;
+    avgBusinessHours: number;
     totalTransitions: number;
   }[];
+  reworkByStep: {
+    id: string;
+    name: string;
+    type: string;
+    reworkRate: number;
+    reworkedInstances: number;
+    totalInstances: number;
+    totalReworks: number;
+    maxReworksPerInstance: number;
+  }[];
 }
 
 const fetcher = (url: string) => fetch(url).then(res => res.json());
@@ -61,10 +73,17 @@ export function WorkflowAnalyticsWidget() {
         ['Active Instances', analytics.summary.activeInstances],
         ['Completed This Month', analytics.summary.completedThisMonth],
         ['Avg Completion Days', analytics.summary.avgCompletionDays],
+        ['Avg Completion Working Days', analytics.summary.avgCompletionBusinessDays],
         ['Completion Rate', `${analytics.summary.completionRate}%`],
         [],
         ['Template', 'Usage Count'],
         ...analytics.templateUsage.map(t => [t.name, t.count]),
+        [],
+        ['Bottleneck Step', 'Avg Hours', 'Avg Working Hours', 'Transitions'],
+        ...analytics.bottleneckNodes.map(n => [n.name, n.avgHours, n.avgBusinessHours, n.totalTransitions]),
+        [],
+        ['Step', 'Rework Rate', 'Reworked Workflows', 'Workflows Through Step', 'Total Send-Backs'],
+        ...(analytics.reworkByStep || []).map(r => [r.name, `${r.reworkRate}%`, r.reworkedInstances, r.totalInstances, r.totalReworks]),
       ];
       const csv = csvData.map(row => row.join(',')).join('\n');
       const blob = new Blob([csv], { type: 'text/csv' });
@@ -121,8 +140,8 @@ export function WorkflowAnalyticsWidget() {
               icon={<CheckCircle className="h-4 w-4" />}
             />
             <StatCard
-              label="Avg Days"
-              value={analytics.summary.avgCompletionDays}
+              label="Avg Working Days"
+              value={analytics.summary.avgCompletionBusinessDays}
               icon={<Clock className="h-4 w-4" />}
             />
             <StatCard
@@ -134,10 +153,11 @@ export function WorkflowAnalyticsWidget() {
           </div>
 
           <Tabs defaultValue="status" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="status">Status</TabsTrigger>
               <TabsTrigger value="templates">Templates</TabsTrigger>
               <TabsTrigger value="bottlenecks">Bottlenecks</TabsTrigger>
+              <TabsTrigger value="rework">Rework</TabsTrigger>
             </TabsList>
 
             <TabsContent value="status" className="mt-4">
@@ -238,9 +258,9 @@ export function WorkflowAnalyticsWidget() {
                           </div>
                         </div>
                         <div className="text-right">
-                          <div className="text-sm font-medium">{node.avgHours}h avg</div>
+                          <div className="text-sm font-medium">{node.avgBusinessHours}h working avg</div>
                           <div className="text-xs text-muted-foreground">
-                            {node.totalTransitions} transitions
+                            {node.avgHours}h elapsed · {node.totalTransitions} transitions
                           </div>
                         </div>
                       </div>
@@ -253,6 +273,45 @@ export function WorkflowAnalyticsWidget() {
                 )}
               </div>
             </TabsContent>
+
+            <TabsContent value="rework" className="mt-4">
+              <div className="bg-muted/30 rounded-lg p-4">
+                <h4 className="text-sm font-medium mb-4 flex items-center gap-2">
+                  <RotateCcw className="h-4 w-4 text-red-500" />
+                  Rework Rate by Step
+                </h4>
+                {analytics.reworkByStep?.length > 0 ? (
+                  <div className="space-y-3">
+                    {analytics.reworkByStep.map((step) => (
+                      <div
+                        key={step.id}
+                        className="flex items-center justify-between p-3 bg-background rounded-lg"
+                      >
+                        <div>
+                          <div className="text-sm font-medium">{step.name}</div>
+                          <div className="text-xs text-muted-foreground capitalize">
+                            {step.type.replace('_', ' ')} node
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className={`text-sm font-medium ${step.reworkRate >= 25 ? 'text-red-600' : ''}`}>
+                            {step.reworkRate}% reworked
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {step.reworkedInstances} of {step.totalInstances} workflows, {step.totalReworks} send-back{step.totalReworks !== 1 ? 's' : ''}
+                            {step.maxReworksPerInstance > 1 && ` (up to ${step.maxReworksPerInstance}x)`}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-center h-[200px] text-muted-foreground">
+                    No steps were sent back in this period
+                  </div>
+                )}
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
       )}
@@ -0,0 +1,93 @@
+'use client';
+
+/**
+ * Assignee Suggestions
+ * Ranked people for a piece of work, with why: which required skills they
+ * meet, how loaded they are this week and whether they know the account.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Sparkles } from 'lucide-react';
+import { AssigneeSuggestion, SKILL_PROFICIENCY_LABELS } from '@/lib/skills';
+
+interface AssigneeSuggestionsProps {
+  suggestions: AssigneeSuggestion[];
+  loading?: boolean;
+  selectedUserId?: string | null;
+  onPick: (suggestion: AssigneeSuggestion) => void;
+  disabled?: boolean;
+}
+
+const FAMILIARITY_LABELS: Record<AssigneeSuggestion['accountFamiliarity'], string | null> = {
+  member: 'Account member',
+  past_work: 'Worked on this account',
+  none: null,
+};
+
+function loadPercent(suggestion: AssigneeSuggestion): number {
+  return suggestion.availableHours > 0
+    ? Math.round((suggestion.allocatedHours / suggestion.availableHours) * 100)
+    : 100;
+}
+
+export function AssigneeSuggestions({
+  suggestions,
+  loading = false,
+  selectedUserId,
+  onPick,
+  disabled = false,
+}: AssigneeSuggestionsProps) {
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 py-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Finding the best fit...
+      </div>
+    );
+  }
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+        <Sparkles className="h-3.5 w-3.5" />
+        Suggested
+      </p>
+      {suggestions.map((suggestion) => {
+        const load = loadPercent(suggestion);
+        const familiarity = FAMILIARITY_LABELS[suggestion.accountFamiliarity];
+        return (
+          <button
+            key={suggestion.userId}
+            type="button"
+            disabled={disabled}
+            onClick={() => onPick(suggestion)}
+            className={`w-full rounded-md border px-3 py-2 text-left hover:bg-gray-50 disabled:opacity-50 ${selectedUserId === suggestion.userId ? 'border-blue-400 bg-blue-50' : ''}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate text-sm font-medium">{suggestion.name}</span>
+              <span className="text-xs font-semibold text-blue-700">{suggestion.score}</span>
+            </div>
+            <div className="mt-1 flex flex-wrap items-center gap-1">
+              {suggestion.matches.map((match) => (
+                <Badge
+                  key={match.skillId}
+                  variant="outline"
+                  className={match.met ? 'border-green-300 text-green-700' : 'border-amber-300 text-amber-700'}
+                  title={`Needs ${SKILL_PROFICIENCY_LABELS[match.required]}, has ${match.actual ? SKILL_PROFICIENCY_LABELS[match.actual] : 'none'}`}
+                >
+                  {match.skillName}
+                </Badge>
+              ))}
+              <span className={`text-xs ${load >= 100 ? 'text-red-600' : load >= 80 ? 'text-amber-600' : 'text-gray-500'}`}>
+                {load}% booked this week
+              </span>
+              {familiarity && <span className="text-xs text-gray-500">· {familiarity}</span>}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ScenarioCapacityPoint, ScenarioImpact } from '@/lib/capacity-scenario';
+
+const ORGANIZATION = 'organization';
+
+interface CapacityScenarioChartProps {
+  impact: ScenarioImpact;
+}
+
+function weekLabel(weekStartDate: string): string {
+  return new Date(`${weekStartDate}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+export function CapacityScenarioChart({ impact }: CapacityScenarioChartProps) {
+  const [scope, setScope] = useState(ORGANIZATION);
+
+  const points: ScenarioCapacityPoint[] = useMemo(() => {
+    if (scope === ORGANIZATION) return impact.organization;
+    return impact.departments.find((d) => d.departmentId === scope)?.points ?? [];
+  }, [impact, scope]);
+
+  const data = points.map((point) => ({ ...point, label: weekLabel(point.weekStartDate) }));
+  const maxUtilization = Math.max(100, ...points.map((p) => p.scenarioUtilization));
+  const overloadedDepartments = new Set(impact.overloads.map((o) => o.departmentId ?? ORGANIZATION));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Utilization Impact</CardTitle>
+          <CardDescription>
+            Planned utilization today compared with the same weeks if the scenario&apos;s projects went ahead
+          </CardDescription>
+        </div>
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ORGANIZATION}>
+              Organization{overloadedDepartments.has(ORGANIZATION) ? ' (over 100%)' : ''}
+            </SelectItem>
+            {impact.departments.map((department) => (
+              <SelectItem key={department.departmentId} value={department.departmentId}>
+                {department.departmentName}{overloadedDepartments.has(department.departmentId) ? ' (over 100%)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} interval="preserveStartEnd" stroke="#6b7280" />
+              <YAxis
+                tick={{ fontSize: 12 }}
+                tickFormatter={(value) => `${value}%`}
+                stroke="#6b7280"
+                domain={[0, Math.ceil(maxUtilization / 25) * 25]}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'white',
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '6px',
+                }}
+                formatter={(value: number, name: string) => [`${value}%`, name]}
+                labelFormatter={(label) => `Week of ${label}`}
+              />
+              <Legend />
+              <ReferenceLine y={100} stroke="#EF4444" strokeDasharray="4 4" />
+              <Line
+                type="monotone"
+                dataKey="baselineUtilization"
+                stroke="#6B7280"
+                strokeWidth={2}
+                dot={{ fill: '#6B7280', r: 3, strokeWidth: 0 }}
+                name="Today"
+                isAnimationActive={false}
+              />
+              <Line
+                type="monotone"
+                dataKey="scenarioUtilization"
+                stroke="#8B5CF6"
+                strokeWidth={2}
+                dot={{ fill: '#8B5CF6', r: 3, strokeWidth: 0 }}
+                name="With scenario"
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        {impact.unassignedHours > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {impact.unassignedHours}h are for roles without a department, so they only count towards the organization.
+          </p>
+        )}
+
+        {impact.overloads.length === 0 ? (
+          <p className="text-sm text-green-700">No week goes over 100% with this scenario.</p>
+        ) : (
+          <div className="rounded border border-red-200">
+            <div className="flex items-center gap-2 border-b border-red-200 bg-red-50 px-3 py-2 text-sm font-medium text-red-800">
+              <AlertTriangle className="h-4 w-4" />
+              Over capacity with this scenario
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="px-3 py-1.5 font-medium">Week</th>
+                  <th className="px-3 py-1.5 font-medium">Team</th>
+                  <th className="px-3 py-1.5 font-medium text-right">Today</th>
+                  <th className="px-3 py-1.5 font-medium text-right">With scenario</th>
+                </tr>
+              </thead>
+              <tbody>
+                {impact.overloads.map((overload) => (
+                  <tr key={`${overload.weekStartDate}:${overload.departmentId ?? ORGANIZATION}`} className="border-t">
+                    <td className="px-3 py-1.5">{weekLabel(overload.weekStartDate)}</td>
+                    <td className="px-3 py-1.5">{overload.departmentName}</td>
+                    <td className="px-3 py-1.5 text-right">{overload.baselineUtilization}%</td>
+                    <td className="px-3 py-1.5 text-right font-medium text-red-700">{overload.scenarioUtilization}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,343 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { AlertTriangle, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { createClientSupabase } from '@/lib/supabase';
+import { getTotalAllocationPercent } from '@/lib/capacity-allocation';
+import { toDateKey } from '@/lib/business-calendar-service';
+import type { CapacityAllocationRow } from '@/lib/capacity-allocation-service';
+
+interface CapacitySplitDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: { id: string; name: string };
+  accountId: string;
+  accountName: string;
+  canEdit: boolean;
+}
+
+const WHOLE_ACCOUNT = 'account';
+
+interface SplitForm {
+  projectId: string;
+  percent: string;
+  effectiveFrom: string;
+  effectiveTo: string;
+}
+
+function emptyForm(): SplitForm {
+  return { projectId: WHOLE_ACCOUNT, percent: '', effectiveFrom: toDateKey(new Date()), effectiveTo: '' };
+}
+
+export function CapacitySplitDialog({ open, onOpenChange, user, accountId, accountName, canEdit }: CapacitySplitDialogProps) {
+  const [allocations, setAllocations] = useState<CapacityAllocationRow[]>([]);
+  const [projects, setProjects] = useState<Array<{ id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SplitForm>(emptyForm);
+
+  const loadAllocations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/capacity/splits?user_id=${user.id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load capacity split');
+        return;
+      }
+      setAllocations(data.allocations || []);
+    } catch (error: unknown) {
+      console.error('Error loading capacity split:', error);
+      toast.error('Failed to load capacity split');
+    } finally {
+      setLoading(false);
+    }
+  }, [user.id]);
+
+  useEffect(() => {
+    if (!open) return;
+    setEditingId(null);
+    setForm(emptyForm());
+    void loadAllocations();
+
+    const loadProjects = async () => {
+      const supabase = createClientSupabase() as any;
+      if (!supabase) return;
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name')
+        .eq('account_id', accountId)
+        .neq('status', 'complete')
+        .order('name');
+      if (error) {
+        console.error('Error loading account projects:', error);
+        return;
+      }
+      setProjects(data || []);
+    };
+    void loadProjects();
+  }, [open, accountId, loadAllocations]);
+
+  const today = toDateKey(new Date());
+  const totalToday = useMemo(
+    () => getTotalAllocationPercent(allocations, user.id, today),
+    [allocations, user.id, today]
+  );
+
+  const startEdit = (allocation: CapacityAllocationRow) => {
+    setEditingId(allocation.id);
+    setForm({
+      projectId: allocation.projectId ?? WHOLE_ACCOUNT,
+      percent: String(allocation.percent),
+      effectiveFrom: allocation.effectiveFrom,
+      effectiveTo: allocation.effectiveTo ?? '',
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+  };
+
+  const handleSave = async () => {
+    const percent = Number(form.percent);
+    if (!form.percent || !Number.isFinite(percent) || percent <= 0 || percent > 100) {
+      toast.error('Enter a percentage between 0 and 100');
+      return;
+    }
+    if (!form.effectiveFrom) {
+      toast.error('Choose the date the split starts');
+      return;
+    }
+    if (form.effectiveTo && form.effectiveTo < form.effectiveFrom) {
+      toast.error('The end date must be on or after the start date');
+      return;
+    }
+
+    const payload = {
+      project_id: form.projectId === WHOLE_ACCOUNT ? null : form.projectId,
+      allocation_percent: percent,
+      effective_from: form.effectiveFrom,
+      effective_to: form.effectiveTo || null,
+    };
+
+    setSaving(true);
+    try {
+      const response = editingId
+        ? await fetch(`/api/capacity/splits/${editingId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+          })
+        : await fetch('/api/capacity/splits', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...payload, user_id: user.id, account_id: accountId }),
+          });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save capacity split');
+        return;
+      }
+
+      setAllocations((prev) => editingId
+        ? prev.map((a) => (a.id === editingId ? data.allocation : a))
+        : [data.allocation, ...prev]);
+      toast.success('Capacity split saved');
+      cancelEdit();
+    } catch (error: unknown) {
+      console.error('Error saving capacity split:', error);
+      toast.error('Failed to save capacity split');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/capacity/splits/${id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to remove capacity split');
+        return;
+      }
+      setAllocations((prev) => prev.filter((a) => a.id !== id));
+      if (editingId === id) cancelEdit();
+    } catch (error: unknown) {
+      console.error('Error removing capacity split:', error);
+      toast.error('Failed to remove capacity split');
+    }
+  };
+
+  // Rows for other accounts can be edited here too, but keep their project
+  const editingRow = editingId ? allocations.find((a) => a.id === editingId) : undefined;
+  const editingOther = !!editingRow && editingRow.accountId !== accountId;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Capacity Split - {user.name}</DialogTitle>
+          <DialogDescription>
+            The share of {user.name}&apos;s available hours that counts towards each account. Accounts without a
+            split share whatever is left of 100% evenly.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Split today</span>
+              <span className={`font-medium ${totalToday > 100 ? 'text-red-600' : ''}`}>{totalToday}%</span>
+            </div>
+            {totalToday > 100 && (
+              <div className="flex items-start gap-2 rounded border border-red-200 bg-red-50 p-2 text-sm text-red-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                The split adds up to more than 100%, so accounts are promised more time than {user.name} has.
+              </div>
+            )}
+
+            {allocations.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No split set - time is divided evenly across {user.name}&apos;s accounts.
+              </p>
+            ) : (
+              <div className="divide-y rounded border">
+                {allocations.map((allocation) => (
+                  <div key={allocation.id} className="flex items-center justify-between gap-3 p-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {allocation.accountName}
+                        <span className="text-muted-foreground font-normal"> - {allocation.projectName ?? 'Whole account'}</span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        From {allocation.effectiveFrom}{allocation.effectiveTo ? ` to ${allocation.effectiveTo}` : ' onwards'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <span className="font-medium w-14 text-right">{allocation.percent}%</span>
+                      {canEdit && (
+                        <>
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => startEdit(allocation)}>
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                            onClick={() => handleDelete(allocation.id)}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canEdit && (
+              <div className="space-y-3 rounded border p-3">
+                <p className="text-sm font-medium">
+                  {editingRow ? `Edit split for ${editingRow.accountName}` : `Add a split for ${accountName}`}
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1 col-span-2">
+                    <Label>Applies to</Label>
+                    <Select
+                      value={form.projectId}
+                      onValueChange={(value) => setForm((prev) => ({ ...prev, projectId: value }))}
+                      disabled={editingOther}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={WHOLE_ACCOUNT}>Whole account</SelectItem>
+                        {editingOther && editingRow?.projectId && (
+                          <SelectItem value={editingRow.projectId}>{editingRow.projectName ?? 'Project'}</SelectItem>
+                        )}
+                        {projects.map((project) => (
+                          <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="capacity-split-percent">Percentage</Label>
+                    <Input
+                      id="capacity-split-percent"
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={form.percent}
+                      onChange={(e) => setForm((prev) => ({ ...prev, percent: e.target.value }))}
+                      placeholder="e.g. 80"
+                    />
+                  </div>
+                  <div />
+                  <div className="space-y-1">
+                    <Label htmlFor="capacity-split-from">From</Label>
+                    <Input
+                      id="capacity-split-from"
+                      type="date"
+                      value={form.effectiveFrom}
+                      onChange={(e) => setForm((prev) => ({ ...prev, effectiveFrom: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="capacity-split-to">Until (optional)</Label>
+                    <Input
+                      id="capacity-split-to"
+                      type="date"
+                      value={form.effectiveTo}
+                      onChange={(e) => setForm((prev) => ({ ...prev, effectiveTo: e.target.value }))}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {editingId && (
+            <Button variant="outline" onClick={cancelEdit} disabled={saving}>
+              Cancel Edit
+            </Button>
+          )}
+          {canEdit ? (
+            <Button onClick={handleSave} disabled={saving || loading}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingId ? 'Save Split' : 'Add Split'}
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
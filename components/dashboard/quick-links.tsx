@@ -14,7 +14,8 @@ import {
   Settings,
   Workflow,
   FolderKanban,
-  UserCog
+  UserCog,
+  Plane
 } from 'lucide-react';
 
 interface QuickLink {
@@ -50,6 +51,12 @@ const ALL_LINKS: QuickLink[] = [
     icon: Clock,
     // No permission required - all users can view their own time
   },
+  {
+    href: '/leave',
+    label: 'Leave',
+    icon: Plane,
+    // No permission required - everyone can request time off
+  },
   {
     href: '/admin/workflows',
     label: 'Workflows',
@@ -13,6 +13,7 @@ import { toast } from 'sonner'
 import { hasPermission } from '@/lib/permission-checker'
 import { Permission } from '@/lib/permissions'
 import { UserWithRoles } from '@/lib/rbac-types'
+import { readAvailabilityLeave } from '@/lib/leave'
 
 interface TimeBlock {
   day: string
@@ -41,6 +42,9 @@ export default function DragAvailabilityCalendar({ userProfile, userId, onSave }
 
   // Availability blocks (unavailable time = user can't work)
   const [unavailableBlocks, setUnavailableBlocks] = useState<TimeBlock[]>([])
+
+  // Hours of approved leave taken out of this week's capacity
+  const [leaveHours, setLeaveHours] = useState(0)
   
   // Dragging state
   const [isDragging, setIsDragging] = useState(false)
@@ -248,7 +252,14 @@ export default function DragAvailabilityCalendar({ userProfile, userId, onSave }
         )
         const data = await response.json()
 
-        if (data.success && data.availability?.schedule_data) {
+        const leave = readAvailabilityLeave(data.availability?.schedule_data)
+        setLeaveHours(leave ? Object.values(leave.hours).reduce((sum, h) => sum + h, 0) : 0)
+
+        // A row written only for approved leave has no drawn schedule
+        const hasSchedule = data.availability?.schedule_data &&
+          Object.keys(data.availability.schedule_data).some((key) => key !== 'leave')
+
+        if (data.success && hasSchedule) {
           const scheduleData = data.availability.schedule_data
 
           // Check if we have the new format with unavailableBlocks
@@ -335,6 +346,8 @@ export default function DragAvailabilityCalendar({ userProfile, userId, onSave }
       const data = await response.json()
 
       if (data.success) {
+        const leave = readAvailabilityLeave(data.availability?.schedule_data)
+        setLeaveHours(leave ? Object.values(leave.hours).reduce((sum, h) => sum + h, 0) : 0)
         toast.success(`Availability saved for week of ${formatWeekDisplay(currentWeekStart)}`)
         if (onSave) onSave()
       } else {
@@ -411,6 +424,16 @@ export default function DragAvailabilityCalendar({ userProfile, userId, onSave }
           </Button>
         </div>
 
+        {leaveHours > 0 && (
+          <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+            <Calendar className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <div>
+              Approved leave takes <strong>{leaveHours}h</strong> off this week, so capacity
+              planning uses {Math.max(0, totalHours - leaveHours)}h.
+            </div>
+          </div>
+        )}
+
         {/* Instructions */}
         <div className="flex items-start gap-2 text-sm text-blue-600 bg-blue-50 rounded-lg p-3">
           <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
@@ -0,0 +1,353 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  CONDITION_OPERATORS_BY_FIELD,
+  FormCondition,
+  FormConditionGroup,
+  FormConditionOperator,
+  FormConditionRule,
+  isConditionGroup,
+  MAX_CONDITION_DEPTH,
+} from "@/lib/form-logic";
+
+// A field (or repeater/table column) a condition can read
+export interface ConditionFieldOption {
+  id: string;
+  label: string;
+  type: string;
+  options?: string[];
+}
+
+interface FieldLike {
+  id: string;
+  label: string;
+  type: string;
+  options?: string[];
+  subfields?: FieldLike[];
+}
+
+/**
+ * Fields usable in conditions: every field with operators, plus repeater and
+ * table columns as "fieldId.subfieldId" (matching when any row does)
+ */
+export function getConditionFieldOptions(fields: FieldLike[]): ConditionFieldOption[] {
+  return fields.flatMap((field) => [
+    ...(CONDITION_OPERATORS_BY_FIELD[field.type]
+      ? [{ id: field.id, label: field.label, type: field.type, options: field.options }]
+      : []),
+    ...(field.type === "repeater" || field.type === "table"
+      ? (field.subfields ?? []).map((sub) => ({
+          id: `${field.id}.${sub.id}`,
+          label: `${field.label} → ${sub.label} (any row)`,
+          type: sub.type,
+          options: sub.options,
+        }))
+      : []),
+  ]);
+}
+
+export function createConditionRule(field?: ConditionFieldOption): FormConditionRule {
+  const operator = field
+    ? CONDITION_OPERATORS_BY_FIELD[field.type]?.[0]?.value
+    : undefined;
+  return {
+    fieldId: field?.id ?? "",
+    operator: (operator ?? "equals") as FormConditionOperator,
+    value: "",
+  };
+}
+
+interface ConditionValueInputProps {
+  field?: ConditionFieldOption;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+}
+
+function ConditionValueInput({ field, value, onChange, placeholder }: ConditionValueInputProps) {
+  if (field?.options && field.options.length > 0) {
+    return (
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 text-xs w-32">
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {field.options.map((option) => (
+            <SelectItem key={option} value={option} className="text-xs">
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  const inputType =
+    field?.type === "date"
+      ? "date"
+      : ["number", "currency", "rating", "computed"].includes(field?.type ?? "")
+        ? "number"
+        : "text";
+
+  return (
+    <Input
+      type={inputType}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      className="h-8 text-xs w-32"
+    />
+  );
+}
+
+interface ConditionRuleEditorProps {
+  rule: FormConditionRule;
+  fields: ConditionFieldOption[];
+  onChange: (rule: FormConditionRule) => void;
+  onRemove: () => void;
+}
+
+function ConditionRuleEditor({ rule, fields, onChange, onRemove }: ConditionRuleEditorProps) {
+  const field = fields.find((f) => f.id === rule.fieldId);
+  const operators = field ? (CONDITION_OPERATORS_BY_FIELD[field.type] ?? []) : [];
+  const operator = operators.find((op) => op.value === rule.operator);
+  // Only plain fields of the same kind make sense as a comparison target
+  const comparableFields = fields.filter(
+    (f) => f.id !== rule.fieldId && !f.id.includes(".") && f.type === field?.type,
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <Select
+        value={rule.fieldId}
+        onValueChange={(fieldId) => {
+          onChange(createConditionRule(fields.find((f) => f.id === fieldId)));
+        }}
+      >
+        <SelectTrigger className="h-8 text-xs w-40">
+          <SelectValue placeholder="Field..." />
+        </SelectTrigger>
+        <SelectContent>
+          {fields.map((f) => (
+            <SelectItem key={f.id} value={f.id} className="text-xs">
+              {f.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={rule.operator}
+        onValueChange={(value) => {
+          onChange({ ...rule, operator: value as FormConditionOperator, value: "", value2: undefined, valueFieldId: undefined });
+        }}
+        disabled={!field}
+      >
+        <SelectTrigger className="h-8 text-xs w-36">
+          <SelectValue placeholder="Condition..." />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((op) => (
+            <SelectItem key={op.value} value={op.value} className="text-xs">
+              {op.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {operator?.needsValue && !operator.needsValue2 && comparableFields.length > 0 && (
+        <Select
+          value={rule.valueFieldId ? "field" : "value"}
+          onValueChange={(mode) => {
+            onChange({
+              ...rule,
+              value: "",
+              valueFieldId: mode === "field" ? comparableFields[0].id : undefined,
+            });
+          }}
+        >
+          <SelectTrigger className="h-8 text-xs w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="value" className="text-xs">a value</SelectItem>
+            <SelectItem value="field" className="text-xs">another field</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {operator?.needsValue && rule.valueFieldId && (
+        <Select
+          value={rule.valueFieldId}
+          onValueChange={(valueFieldId) => { onChange({ ...rule, valueFieldId }); }}
+        >
+          <SelectTrigger className="h-8 text-xs w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {comparableFields.map((f) => (
+              <SelectItem key={f.id} value={f.id} className="text-xs">
+                {f.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {operator?.needsValue && !rule.valueFieldId && (
+        <ConditionValueInput
+          field={operator.value.startsWith("count_") ? { ...field!, type: "number", options: undefined } : field}
+          value={rule.value ?? ""}
+          onChange={(value) => { onChange({ ...rule, value }); }}
+          placeholder="Value..."
+        />
+      )}
+
+      {operator?.needsValue2 && (
+        <>
+          <span className="text-xs text-gray-500">and</span>
+          <ConditionValueInput
+            field={field}
+            value={rule.value2 ?? ""}
+            onChange={(value2) => { onChange({ ...rule, value2 }); }}
+            placeholder="Max..."
+          />
+        </>
+      )}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onRemove}
+        className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+      >
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+}
+
+interface ConditionGroupEditorProps {
+  group: FormConditionGroup;
+  fields: ConditionFieldOption[];
+  onChange: (group: FormConditionGroup) => void;
+  onRemove?: () => void;
+  depth?: number;
+}
+
+/**
+ * Edit an AND/OR condition group; groups nest up to MAX_CONDITION_DEPTH levels
+ */
+export function ConditionGroupEditor({
+  group,
+  fields,
+  onChange,
+  onRemove,
+  depth = 1,
+}: ConditionGroupEditorProps) {
+  const updateCondition = (index: number, condition: FormCondition) => {
+    onChange({
+      ...group,
+      conditions: group.conditions.map((c, i) => (i === index ? condition : c)),
+    });
+  };
+
+  const removeCondition = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={`space-y-2 ${depth > 1 ? "p-2 border-l-2 border-purple-200 bg-purple-50/40 rounded" : ""}`}>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-600">Match</span>
+        <Select
+          value={group.combinator}
+          onValueChange={(value) => { onChange({ ...group, combinator: value as "and" | "or" }); }}
+        >
+          <SelectTrigger className="h-7 text-xs w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and" className="text-xs">all</SelectItem>
+            <SelectItem value="or" className="text-xs">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-gray-600">of these conditions</span>
+        {onRemove && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            className="h-7 w-7 p-0 ml-auto text-red-600 hover:text-red-700 hover:bg-red-50"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((condition, index) =>
+        isConditionGroup(condition) ? (
+          <ConditionGroupEditor
+            key={index}
+            group={condition}
+            fields={fields}
+            onChange={(updated) => { updateCondition(index, updated); }}
+            onRemove={() => { removeCondition(index); }}
+            depth={depth + 1}
+          />
+        ) : (
+          <ConditionRuleEditor
+            key={index}
+            rule={condition}
+            fields={fields}
+            onChange={(updated) => { updateCondition(index, updated); }}
+            onRemove={() => { removeCondition(index); }}
+          />
+        ),
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, createConditionRule(fields[0])] })}
+          disabled={fields.length === 0}
+          className="h-7 text-xs"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Condition
+        </Button>
+        {depth < MAX_CONDITION_DEPTH && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...group,
+                conditions: [
+                  ...group.conditions,
+                  { combinator: group.combinator === "and" ? "or" : "and", conditions: [createConditionRule(fields[0])] },
+                ],
+              })
+            }
+            disabled={fields.length === 0}
+            className="h-7 text-xs"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
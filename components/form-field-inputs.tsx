@@ -0,0 +1,637 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Eraser, Plus, Star, Trash2 } from 'lucide-react';
+import { createClientSupabase } from '@/lib/supabase';
+import {
+  DEFAULT_CURRENCY,
+  DEFAULT_MAX_RATING,
+  formatFormValue,
+  FormReferenceValue,
+  isFormReferenceValue,
+  isSignatureValue,
+  REFERENCE_FIELD_SOURCES,
+  ReferenceFieldType,
+  SignatureValue,
+} from '@/lib/form-field-types';
+import { getWorkflowAttachmentRefs } from '@/lib/workflow-attachments';
+import { WorkflowAttachmentLinks } from '@/components/workflow-attachments';
+
+// The parts of a form field definition these inputs read
+export interface FormFieldConfig {
+  id: string;
+  type: string;
+  label: string;
+  required: boolean;
+  placeholder?: string;
+  options?: string[];
+  subfields?: FormFieldConfig[];
+  rows?: string[];
+  currency?: string;
+  validation?: {
+    min?: number;
+    max?: number;
+  };
+}
+
+type Row = Record<string, unknown>;
+
+interface FieldInputProps<T> {
+  field: FormFieldConfig;
+  value: T;
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Amount input; the stored value is a number, or '' when cleared
+ */
+export function CurrencyFieldInput({ field, value, onChange, disabled }: FieldInputProps<unknown>) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm font-medium text-gray-500 w-10">{field.currency || DEFAULT_CURRENCY}</span>
+      <Input
+        id={`form-${field.id}`}
+        type="number"
+        step="0.01"
+        placeholder={field.placeholder || '0.00'}
+        min={field.validation?.min}
+        max={field.validation?.max}
+        value={value === '' || value === undefined || value === null ? '' : String(value)}
+        onChange={(e) => onChange(e.target.value === '' ? '' : Number(e.target.value))}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
+
+export function RatingFieldInput({ field, value, onChange, disabled }: FieldInputProps<unknown>) {
+  const maxRating = field.validation?.max || DEFAULT_MAX_RATING;
+  const current = Number(value) || 0;
+
+  return (
+    <div className="flex items-center gap-1">
+      {Array.from({ length: maxRating }, (_, i) => i + 1).map((rating) => (
+        <button
+          key={rating}
+          type="button"
+          onClick={() => onChange(rating === current ? '' : rating)}
+          disabled={disabled}
+          className="p-0.5 disabled:cursor-not-allowed"
+          title={`${rating} of ${maxRating}`}
+        >
+          <Star className={`w-5 h-5 ${rating <= current ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`} />
+        </button>
+      ))}
+      {current > 0 && <span className="ml-2 text-xs text-gray-500">{current} / {maxRating}</span>}
+    </div>
+  );
+}
+
+/**
+ * Pick a user, account or project by name; stores { id, name }
+ */
+export function ReferenceFieldInput({ field, value, onChange, disabled }: FieldInputProps<unknown>) {
+  const [options, setOptions] = useState<FormReferenceValue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const source = REFERENCE_FIELD_SOURCES[field.type as ReferenceFieldType];
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOptions = async () => {
+      const supabase = createClientSupabase();
+      if (!supabase || !source) {
+        setLoading(false);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from(source.table)
+        .select(`id, ${source.labelColumn}`)
+        .order(source.labelColumn)
+        .limit(500);
+
+      if (cancelled) return;
+      if (error) {
+        console.error(`Error loading ${field.type} options:`, error);
+      }
+      setOptions(((data || []) as unknown as Record<string, unknown>[]).map((row) => ({
+        id: row.id as string,
+        name: (row[source.labelColumn] as string) || 'Unnamed',
+      })));
+      setLoading(false);
+    };
+
+    loadOptions();
+    return () => { cancelled = true; };
+  }, [field.type, source]);
+
+  const selected = isFormReferenceValue(value) ? value : null;
+
+  return (
+    <Select
+      value={selected?.id || ''}
+      onValueChange={(id) => {
+        const option = options.find((o) => o.id === id);
+        if (option) onChange(option);
+      }}
+      disabled={disabled || loading}
+    >
+      <SelectTrigger id={`form-${field.id}`}>
+        <SelectValue placeholder={loading ? 'Loading...' : field.placeholder || `Select a ${field.type}`}>
+          {selected?.name}
+        </SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.id} value={option.id}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Drawn (canvas) or typed signature
+ */
+export function SignatureFieldInput({ field, value, onChange, disabled }: FieldInputProps<unknown>) {
+  const existing = isSignatureValue(value) ? value : null;
+  const [mode, setMode] = useState<SignatureValue['mode']>(existing?.mode || 'drawn');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  // Show a previously drawn signature (e.g. restored draft) on the canvas
+  useEffect(() => {
+    if (mode !== 'drawn' || !existing || existing.mode !== 'drawn' || !canvasRef.current) return;
+    const context = canvasRef.current.getContext('2d');
+    if (!context) return;
+    const image = new Image();
+    image.onload = () => context.drawImage(image, 0, 0);
+    image.src = existing.data;
+    // Only on mount / mode switch - strokes are drawn directly afterwards
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mode]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    drawingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = getPoint(e);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    onChange({ mode: 'drawn', data: e.currentTarget.toDataURL('image/png'), signedAt: new Date().toISOString() });
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        {(['drawn', 'typed'] as const).map((option) => (
+          <Button
+            key={option}
+            type="button"
+            size="sm"
+            variant={mode === option ? 'default' : 'outline'}
+            onClick={() => {
+              if (option === mode) return;
+              setMode(option);
+              onChange('');
+            }}
+            disabled={disabled}
+          >
+            {option === 'drawn' ? 'Draw' : 'Type'}
+          </Button>
+        ))}
+      </div>
+
+      {mode === 'drawn' ? (
+        <div className="space-y-1">
+          <canvas
+            ref={canvasRef}
+            width={480}
+            height={140}
+            className="w-full h-[140px] border rounded-md bg-white touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+          />
+          <Button type="button" variant="ghost" size="sm" onClick={clear} disabled={disabled}>
+            <Eraser className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+      ) : (
+        <Input
+          id={`form-${field.id}`}
+          placeholder={field.placeholder || 'Type your full name'}
+          value={existing?.mode === 'typed' ? existing.data : ''}
+          onChange={(e) => onChange(e.target.value.trim()
+            ? { mode: 'typed', data: e.target.value, signedAt: new Date().toISOString() }
+            : '')}
+          className="font-serif italic text-lg"
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * A single repeater/table cell - simple field types only
+ */
+function SubfieldInput({ field, value, onChange, disabled }: FieldInputProps<unknown>) {
+  const stringValue = value === undefined || value === null ? '' : String(value);
+
+  switch (field.type) {
+    case 'textarea':
+      return (
+        <Textarea
+          placeholder={field.placeholder}
+          value={stringValue}
+          onChange={(e) => onChange(e.target.value)}
+          rows={2}
+          disabled={disabled}
+        />
+      );
+    case 'currency':
+      return <CurrencyFieldInput field={field} value={value} onChange={onChange} disabled={disabled} />;
+    case 'dropdown':
+      return (
+        <Select value={stringValue} onValueChange={onChange} disabled={disabled}>
+          <SelectTrigger className="h-9">
+            <SelectValue placeholder={field.placeholder || 'Select'} />
+          </SelectTrigger>
+          <SelectContent>
+            {(field.options || []).map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'checkbox':
+      return (
+        <Checkbox
+          checked={Boolean(value)}
+          onCheckedChange={(checked) => onChange(checked === true)}
+          disabled={disabled}
+        />
+      );
+    default:
+      return (
+        <Input
+          type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : field.type === 'email' ? 'email' : field.type === 'url' ? 'url' : 'text'}
+          placeholder={field.placeholder}
+          value={stringValue}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-9"
+          disabled={disabled}
+        />
+      );
+  }
+}
+
+function toRows(value: unknown): Row[] {
+  return Array.isArray(value) ? value.filter((row): row is Row => typeof row === 'object' && row !== null) : [];
+}
+
+/**
+ * Repeating group: any number of rows (within validation.min/max), each with
+ * the field's subfields
+ */
+export function RepeaterFieldInput({ field, value, onChange, disabled }: FieldInputProps<unknown>) {
+  const rows = toRows(value);
+  const subfields = field.subfields || [];
+  const maxRows = field.validation?.max;
+
+  const updateCell = (index: number, subfieldId: string, cell: unknown) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, [subfieldId]: cell } : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="p-3 border rounded-md bg-gray-50 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-gray-500">#{index + 1}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(rows.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+              title="Remove row"
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {subfields.map((subfield) => (
+              <div key={subfield.id} className="space-y-1">
+                <span className="text-xs text-gray-600">
+                  {subfield.label}
+                  {subfield.required && <span className="text-red-500 ml-1">*</span>}
+                </span>
+                <SubfieldInput
+                  field={subfield}
+                  value={row[subfield.id]}
+                  onChange={(cell) => updateCell(index, subfield.id, cell)}
+                  disabled={disabled}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rows, {}])}
+        disabled={disabled || (maxRows !== undefined && rows.length >= maxRows)}
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add {rows.length === 0 ? 'row' : 'another'}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Fixed grid: one row per configured row label, one column per subfield
+ */
+export function TableFieldInput({ field, value, onChange, disabled }: FieldInputProps<unknown>) {
+  const rowLabels = field.rows || [];
+  const existing = toRows(value);
+  const rows = rowLabels.map((_, i) => existing[i] || {});
+  const columns = field.subfields || [];
+
+  const updateCell = (index: number, columnId: string, cell: unknown) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, [columnId]: cell } : row)));
+  };
+
+  return (
+    <div className="overflow-x-auto border rounded-md">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="p-2" />
+            {columns.map((column) => (
+              <th key={column.id} className="p-2 text-left text-xs font-medium text-gray-600">
+                {column.label}
+                {column.required && <span className="text-red-500 ml-1">*</span>}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rowLabels.map((rowLabel, index) => (
+            <tr key={index} className="border-t">
+              <td className="p-2 text-xs font-medium text-gray-600 whitespace-nowrap">{rowLabel}</td>
+              {columns.map((column) => (
+                <td key={column.id} className="p-1 min-w-[120px]">
+                  <SubfieldInput
+                    field={column}
+                    value={rows[index][column.id]}
+                    onChange={(cell) => updateCell(index, column.id, cell)}
+                    disabled={disabled}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Read-only result of a computed field; the value is filled in by
+ * applyComputedFields as the form changes
+ */
+export function ComputedFieldInput({ field, value }: FieldInputProps<unknown>) {
+  return (
+    <Input
+      id={`form-${field.id}`}
+      value={formatFormValue(field, value)}
+      placeholder="Calculated automatically"
+      readOnly
+      className="bg-gray-50"
+    />
+  );
+}
+
+/**
+ * Input for the structured field types (currency, rating, signature,
+ * user/account/project pickers, repeaters, tables and computed fields); null
+ * for other types
+ */
+export function StructuredFormFieldInput(props: FieldInputProps<unknown>) {
+  switch (props.field.type) {
+    case 'currency':
+      return <CurrencyFieldInput {...props} />;
+    case 'rating':
+      return <RatingFieldInput {...props} />;
+    case 'signature':
+      return <SignatureFieldInput {...props} />;
+    case 'user':
+    case 'account':
+    case 'project':
+      return <ReferenceFieldInput {...props} />;
+    case 'repeater':
+      return <RepeaterFieldInput {...props} />;
+    case 'table':
+      return <TableFieldInput {...props} />;
+    case 'computed':
+      return <ComputedFieldInput {...props} />;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Input for any field type except file uploads, which need a workflow
+ * instance (see WorkflowAttachmentUpload)
+ */
+export function FormFieldInput(props: FieldInputProps<unknown>) {
+  const { field, value, onChange, disabled } = props;
+
+  switch (field.type) {
+    case 'file':
+      return null;
+    case 'textarea':
+      return (
+        <Textarea
+          id={`form-${field.id}`}
+          placeholder={field.placeholder}
+          value={value === undefined || value === null ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          rows={4}
+          disabled={disabled}
+        />
+      );
+    case 'checkbox':
+      return (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id={`form-${field.id}`}
+            checked={Boolean(value)}
+            onCheckedChange={(checked) => onChange(checked === true)}
+            disabled={disabled}
+          />
+          <label htmlFor={`form-${field.id}`} className="text-sm text-gray-600 cursor-pointer">
+            {field.placeholder || 'Yes'}
+          </label>
+        </div>
+      );
+    case 'multiselect': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="space-y-2">
+          {(field.options || []).map((option) => (
+            <div key={option} className="flex items-center space-x-2">
+              <Checkbox
+                id={`form-${field.id}-${option}`}
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) =>
+                  onChange(checked ? [...selected, option] : selected.filter((v) => v !== option))
+                }
+                disabled={disabled}
+              />
+              <label htmlFor={`form-${field.id}-${option}`} className="text-sm text-gray-600 cursor-pointer">
+                {option}
+              </label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+    case 'text':
+    case 'number':
+    case 'date':
+    case 'email':
+    case 'url':
+    case 'dropdown':
+      return <SubfieldInput {...props} />;
+    default:
+      return <StructuredFormFieldInput {...props} />;
+  }
+}
+
+interface FormFieldValueProps {
+  field: FormFieldConfig;
+  value: unknown;
+}
+
+/**
+ * Read-only rendering of a submitted response value
+ */
+export function FormFieldValue({ field, value }: FormFieldValueProps) {
+  if (field.type === 'file') {
+    return <WorkflowAttachmentLinks attachments={getWorkflowAttachmentRefs(value)} />;
+  }
+
+  if (field.type === 'url' && typeof value === 'string') {
+    const href = /^https?:\/\//i.test(value) ? value : `https://${value}`;
+    return (
+      <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+        {value}
+      </a>
+    );
+  }
+
+  if (field.type === 'signature' && isSignatureValue(value)) {
+    return (
+      <span className="flex flex-col gap-1">
+        {value.mode === 'drawn' ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={value.data} alt={`Signature for ${field.label}`} className="h-16 w-auto border rounded bg-white" />
+        ) : (
+          <span className="font-serif italic text-lg">{value.data}</span>
+        )}
+        <span className="text-xs text-gray-500">Signed {new Date(value.signedAt).toLocaleString()}</span>
+      </span>
+    );
+  }
+
+  if ((field.type === 'repeater' || field.type === 'table') && Array.isArray(value)) {
+    const columns = field.subfields || [];
+    const rows = toRows(value);
+    return (
+      <span className="block overflow-x-auto">
+        <table className="text-xs border rounded">
+          <thead className="bg-gray-100">
+            <tr>
+              {field.type === 'table' && <th className="px-2 py-1" />}
+              {columns.map((column) => (
+                <th key={column.id} className="px-2 py-1 text-left font-medium">{column.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className="border-t">
+                {field.type === 'table' && (
+                  <td className="px-2 py-1 font-medium">{field.rows?.[index]}</td>
+                )}
+                {columns.map((column) => (
+                  <td key={column.id} className="px-2 py-1">{formatFormValue(column, row[column.id])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </span>
+    );
+  }
+
+  return <>{formatFormValue(field, value)}</>;
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { History, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { diffFormFields, FormFieldChange, FormTemplateVersion } from '@/lib/form-template-versions';
+
+interface FormVersionHistoryProps {
+  formTemplateId: string;
+}
+
+const CHANGE_BADGES: Record<FormFieldChange['kind'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-800 hover:bg-green-100' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800 hover:bg-red-100' },
+  changed: { label: 'Changed', className: 'bg-amber-100 text-amber-800 hover:bg-amber-100' },
+};
+
+function versionLabel(version: FormTemplateVersion): string {
+  return `v${version.version_number} - ${new Date(version.created_at).toLocaleString()}`;
+}
+
+/**
+ * "Version history" button for a form template: compares any two saved
+ * versions field by field
+ */
+export function FormVersionHistory({ formTemplateId }: FormVersionHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [versions, setVersions] = useState<FormTemplateVersion[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadVersions = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/admin/form-templates/${formTemplateId}/versions`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          toast.error(data.error || 'Failed to load versions');
+          return;
+        }
+
+        const loaded: FormTemplateVersion[] = data.versions;
+        setVersions(loaded);
+        // Newest against the one before it
+        setToId(loaded[0]?.id || '');
+        setFromId(loaded[1]?.id || loaded[0]?.id || '');
+      } catch (error: unknown) {
+        toast.error('Failed to load versions');
+        console.error('Error loading form template versions:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadVersions();
+  }, [open, formTemplateId]);
+
+  const from = versions.find((v) => v.id === fromId);
+  const to = versions.find((v) => v.id === toId);
+  const changes = from && to ? diffFormFields(from.fields, to.fields) : [];
+
+  return (
+    <>
+      <Button type="button" variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <History className="w-4 h-4 mr-2" />
+        Version history
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Version History</DialogTitle>
+            <DialogDescription>
+              Each save that changes the fields makes a new version. Responses always show the version they were filled in against.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No versions saved yet.</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                {[
+                  { label: 'Compare', value: fromId, onChange: setFromId },
+                  { label: 'With', value: toId, onChange: setToId },
+                ].map((picker) => (
+                  <div key={picker.label} className="space-y-1">
+                    <Label>{picker.label}</Label>
+                    <Select value={picker.value} onValueChange={picker.onChange}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((version) => (
+                          <SelectItem key={version.id} value={version.id}>{versionLabel(version)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {fromId === toId ? (
+                <p className="text-sm text-muted-foreground">
+                  {versions.length === 1 ? 'Only one version has been saved.' : 'Pick two different versions to compare.'}
+                </p>
+              ) : changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">These versions have the same fields.</p>
+              ) : (
+                <ul className="divide-y border rounded-md">
+                  {changes.map((change) => (
+                    <li key={`${change.kind}-${change.fieldId}`} className="p-3 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge className={CHANGE_BADGES[change.kind].className}>{CHANGE_BADGES[change.kind].label}</Badge>
+                        <span className="font-medium text-sm">{change.label}</span>
+                      </div>
+                      {change.details.length > 0 && (
+                        <ul className="list-disc pl-6 text-sm text-muted-foreground">
+                          {change.details.map((detail) => (
+                            <li key={detail}>{detail}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Card,
   CardContent,
@@ -27,8 +28,30 @@ import {
   ArrowDown,
   ChevronRight,
   ChevronDown,
+  Plus,
 } from "lucide-react";
 import { v4 as uuidv4 } from "uuid";
+import { StructuredFormFieldInput } from "@/components/form-field-inputs";
+import {
+  DEFAULT_CURRENCY,
+  DEFAULT_MAX_RATING,
+  getInitialFormValue,
+  isReferenceFieldType,
+  SUBFIELD_TYPES,
+} from "@/lib/form-field-types";
+import {
+  FieldConditional,
+  FORM_COMPUTATION_OPERATIONS,
+  FormComputation,
+  FormComputationOperation,
+  FormValidationRule,
+  toConditionGroup,
+} from "@/lib/form-logic";
+import {
+  ConditionGroupEditor,
+  createConditionRule,
+  getConditionFieldOptions,
+} from "@/components/form-condition-builder";
 
 export type FieldType =
   | "text"
@@ -39,7 +62,17 @@ export type FieldType =
   | "url"
   | "textarea"
   | "email"
-  | "checkbox";
+  | "checkbox"
+  | "file"
+  | "currency"
+  | "rating"
+  | "signature"
+  | "user"
+  | "account"
+  | "project"
+  | "repeater"
+  | "table"
+  | "computed";
 
 export interface FormField {
   id: string;
@@ -49,16 +82,18 @@ export interface FormField {
   placeholder?: string;
   options?: string[];
   defaultValue?: unknown;
+  subfields?: FormField[]; // Repeater row fields / table columns
+  rows?: string[]; // Table row labels
+  currency?: string;
   validation?: {
     min?: number;
     max?: number;
     pattern?: string;
     message?: string;
   };
-  conditional?: {
-    show_if: string;
-    equals: unknown;
-  };
+  conditional?: FieldConditional;
+  validationRules?: FormValidationRule[];
+  computation?: FormComputation;
 }
 
 const FIELD_TYPES: {
@@ -116,8 +151,320 @@ const FIELD_TYPES: {
     icon: "🔗",
     description: "Website URL with validation",
   },
+  {
+    value: "currency",
+    label: "Currency",
+    icon: "💲",
+    description: "Money amount in a fixed currency (e.g., budget)",
+  },
+  {
+    value: "rating",
+    label: "Rating",
+    icon: "⭐",
+    description: "Star rating from 1 to a maximum",
+  },
+  {
+    value: "file",
+    label: "File Upload",
+    icon: "📎",
+    description: "One or more uploaded files",
+  },
+  {
+    value: "signature",
+    label: "Signature",
+    icon: "✍",
+    description: "Drawn or typed signature",
+  },
+  {
+    value: "user",
+    label: "User Picker",
+    icon: "👤",
+    description: "Pick an internal user (e.g., owner)",
+  },
+  {
+    value: "account",
+    label: "Account Picker",
+    icon: "🏢",
+    description: "Pick a client account",
+  },
+  {
+    value: "project",
+    label: "Project Picker",
+    icon: "📁",
+    description: "Pick a project",
+  },
+  {
+    value: "repeater",
+    label: "Repeating Group",
+    icon: "🔁",
+    description: "List of items, each with its own fields (e.g., deliverables)",
+  },
+  {
+    value: "table",
+    label: "Table",
+    icon: "▦",
+    description: "Grid with fixed rows and typed columns",
+  },
+  {
+    value: "computed",
+    label: "Calculated",
+    icon: "∑",
+    description: "Read-only value calculated from other fields (e.g., total)",
+  },
 ];
 
+const SUBFIELD_TYPE_OPTIONS = FIELD_TYPES.filter((ft) =>
+  (SUBFIELD_TYPES as readonly string[]).includes(ft.value),
+);
+
+// Settings a field type starts with when it's added or switched to
+function getTypeDefaults(
+  type: FieldType,
+  field?: FormField,
+): Partial<FormField> {
+  const defaults: Partial<FormField> = {
+    options:
+      type === "dropdown" || type === "multiselect"
+        ? (field?.options ?? ["Option 1", "Option 2"])
+        : undefined,
+    subfields:
+      type === "repeater" || type === "table"
+        ? (field?.subfields ?? [
+            { id: uuidv4(), type: "text", label: "Item", required: false },
+          ])
+        : undefined,
+    rows: type === "table" ? (field?.rows ?? ["Row 1", "Row 2"]) : undefined,
+    currency:
+      type === "currency" ? (field?.currency ?? DEFAULT_CURRENCY) : undefined,
+    computation:
+      type === "computed"
+        ? (field?.computation ?? { operation: "sum", fieldIds: [] })
+        : undefined,
+  };
+  if (type === "rating") {
+    defaults.validation = { max: DEFAULT_MAX_RATING };
+  }
+  return defaults;
+}
+
+interface SubfieldEditorProps {
+  subfields: FormField[];
+  onChange: (subfields: FormField[]) => void;
+  itemLabel: string;
+}
+
+/**
+ * Edit the row fields of a repeater or the columns of a table
+ */
+function SubfieldEditor({ subfields, onChange, itemLabel }: SubfieldEditorProps) {
+  const updateSubfield = (index: number, updates: Partial<FormField>) => {
+    onChange(subfields.map((sub, i) => (i === index ? { ...sub, ...updates } : sub)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {subfields.map((subfield, index) => (
+        <div key={subfield.id} className="p-2 border rounded-md space-y-2 bg-gray-50">
+          <div className="flex items-center gap-2">
+            <Input
+              value={subfield.label}
+              onChange={(e) => { updateSubfield(index, { label: e.target.value }); }}
+              placeholder={`${itemLabel} label`}
+              className="h-8 text-sm flex-1"
+            />
+            <Select
+              value={subfield.type}
+              onValueChange={(value) => {
+                const newType = value as FieldType;
+                updateSubfield(index, {
+                  type: newType,
+                  options:
+                    newType === "dropdown"
+                      ? (subfield.options ?? ["Option 1", "Option 2"])
+                      : undefined,
+                  currency:
+                    newType === "currency"
+                      ? (subfield.currency ?? DEFAULT_CURRENCY)
+                      : undefined,
+                });
+              }}
+            >
+              <SelectTrigger className="h-8 text-sm w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUBFIELD_TYPE_OPTIONS.map((ft) => (
+                  <SelectItem key={ft.value} value={ft.value} className="text-sm">
+                    {ft.icon} {ft.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Switch
+              checked={subfield.required}
+              onCheckedChange={(checked) => { updateSubfield(index, { required: checked }); }}
+              title="Required"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => { onChange(subfields.filter((_, i) => i !== index)); }}
+              disabled={subfields.length === 1}
+              className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+          {subfield.type === "dropdown" && (
+            <Input
+              defaultValue={(subfield.options ?? []).join(", ")}
+              onBlur={(e) =>
+                updateSubfield(index, {
+                  options: e.target.value
+                    .split(",")
+                    .map((opt) => opt.trim())
+                    .filter((opt) => opt !== ""),
+                })
+              }
+              placeholder="Option 1, Option 2"
+              className="h-8 text-sm font-mono"
+            />
+          )}
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          onChange([
+            ...subfields,
+            { id: uuidv4(), type: "text", label: `New ${itemLabel.toLowerCase()}`, required: false },
+          ])
+        }
+        className="h-7 text-xs"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Add {itemLabel.toLowerCase()}
+      </Button>
+    </div>
+  );
+}
+
+const NUMERIC_SOURCE_TYPES = ["number", "currency", "rating", "computed"];
+
+interface ComputationEditorProps {
+  computation: FormComputation;
+  currency?: string;
+  earlierFields: FormField[];
+  onChange: (computation: FormComputation, currency?: string) => void;
+}
+
+// Calculated fields read earlier fields only, so there are no cycles
+function ComputationEditor({
+  computation,
+  currency,
+  earlierFields,
+  onChange,
+}: ComputationEditorProps) {
+  const sources = getConditionFieldOptions(earlierFields).filter(
+    (option) =>
+      computation.operation === "count" ||
+      NUMERIC_SOURCE_TYPES.includes(option.type),
+  );
+
+  const toggleSource = (id: string, checked: boolean) => {
+    onChange(
+      {
+        ...computation,
+        fieldIds: checked
+          ? [...computation.fieldIds, id]
+          : computation.fieldIds.filter((fieldId) => fieldId !== id),
+      },
+      currency,
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Calculation</Label>
+          <Select
+            value={computation.operation}
+            onValueChange={(value) =>
+              { onChange({ ...computation, operation: value as FormComputationOperation }, currency); }
+            }
+          >
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORM_COMPUTATION_OPERATIONS.map((op) => (
+                <SelectItem key={op.value} value={op.value} className="text-sm">
+                  {op.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Decimal Places</Label>
+          <Input
+            type="number"
+            min={0}
+            max={6}
+            value={computation.decimals ?? ""}
+            onChange={(e) =>
+              onChange(
+                {
+                  ...computation,
+                  decimals: e.target.value
+                    ? Math.min(6, Math.max(0, Number(e.target.value)))
+                    : undefined,
+                },
+                currency,
+              )
+            }
+            placeholder="2"
+            className="h-8 text-sm"
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Currency (optional ISO code)</Label>
+        <Input
+          value={currency ?? ""}
+          onChange={(e) =>
+            onChange(computation, e.target.value.toUpperCase().slice(0, 3) || undefined)
+          }
+          placeholder="None"
+          className="h-8 text-sm w-24 font-mono"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Fields to calculate from *</Label>
+        {sources.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Add number, currency or rating fields above this one first.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {sources.map((source) => (
+              <label key={source.id} className="flex items-center gap-2 text-xs">
+                <Checkbox
+                  checked={computation.fieldIds.includes(source.id)}
+                  onCheckedChange={(checked) => { toggleSource(source.id, checked === true); }}
+                />
+                {source.label}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 interface InlineFormBuilderProps {
   fields: FormField[];
   onChange: (fields: FormField[]) => void;
@@ -144,10 +491,7 @@ export function InlineFormBuilder({
       label: `New ${type} field`,
       required: false,
       placeholder: "",
-      options:
-        type === "dropdown" || type === "multiselect"
-          ? ["Option 1", "Option 2"]
-          : undefined,
+      ...getTypeDefaults(type),
     };
     onChange([...fields, newField]);
     setSelectedFieldIndex(fields.length);
@@ -356,21 +700,10 @@ export function InlineFormBuilder({
                           value={field.type}
                           onValueChange={(value) => {
                             const newType = value as FieldType;
-                            const updates: Partial<FormField> = {
+                            updateField(index, {
                               type: newType,
-                            };
-                            if (
-                              newType === "dropdown" ||
-                              newType === "multiselect"
-                            ) {
-                              updates.options = field.options ?? [
-                                "Option 1",
-                                "Option 2",
-                              ];
-                            } else {
-                              updates.options = undefined;
-                            }
-                            updateField(index, updates);
+                              ...getTypeDefaults(newType, field),
+                            });
                           }}
                         >
                           <SelectTrigger className="h-8 text-sm">
@@ -391,7 +724,7 @@ export function InlineFormBuilder({
                       </div>
 
                       {/* Placeholder */}
-                      {field.type !== "checkbox" && (
+                      {!["checkbox", "rating", "file", "repeater", "table", "computed"].includes(field.type) && (
                         <div className="space-y-1">
                           <Label
                             htmlFor={`field-${index}-placeholder`}
@@ -461,6 +794,109 @@ export function InlineFormBuilder({
                         </div>
                       )}
 
+                      {/* Currency code */}
+                      {field.type === "currency" && (
+                        <div className="space-y-1">
+                          <Label
+                            htmlFor={`field-${index}-currency`}
+                            className="text-xs"
+                          >
+                            Currency (ISO code)
+                          </Label>
+                          <Input
+                            id={`field-${index}-currency`}
+                            value={field.currency ?? DEFAULT_CURRENCY}
+                            onChange={(e) =>
+                              updateField(index, {
+                                currency: e.target.value.toUpperCase().slice(0, 3),
+                              })
+                            }
+                            placeholder="USD"
+                            className="h-8 text-sm w-24 font-mono"
+                          />
+                        </div>
+                      )}
+
+                      {/* Rating scale */}
+                      {field.type === "rating" && (
+                        <div className="space-y-1">
+                          <Label
+                            htmlFor={`field-${index}-rating-max`}
+                            className="text-xs"
+                          >
+                            Maximum Rating
+                          </Label>
+                          <Input
+                            id={`field-${index}-rating-max`}
+                            type="number"
+                            min={2}
+                            max={10}
+                            value={field.validation?.max ?? DEFAULT_MAX_RATING}
+                            onChange={(e) =>
+                              updateField(index, {
+                                validation: {
+                                  ...field.validation,
+                                  max: Math.min(10, Math.max(2, Number(e.target.value) || DEFAULT_MAX_RATING)),
+                                },
+                              })
+                            }
+                            className="h-8 text-sm w-24"
+                          />
+                        </div>
+                      )}
+
+                      {/* Table row labels */}
+                      {field.type === "table" && (
+                        <div className="space-y-1">
+                          <Label
+                            htmlFor={`field-${index}-rows`}
+                            className="text-xs"
+                          >
+                            Rows (one per line) *
+                          </Label>
+                          <Textarea
+                            id={`field-${index}-rows`}
+                            defaultValue={(field.rows ?? []).join("\n")}
+                            onBlur={(e) =>
+                              updateField(index, {
+                                rows: e.target.value
+                                  .split("\n")
+                                  .map((row) => row.trim())
+                                  .filter((row) => row !== ""),
+                              })
+                            }
+                            rows={3}
+                            className="text-sm"
+                          />
+                        </div>
+                      )}
+
+                      {/* Repeater row fields / table columns */}
+                      {(field.type === "repeater" || field.type === "table") && (
+                        <div className="space-y-1">
+                          <Label className="text-xs">
+                            {field.type === "table" ? "Columns" : "Fields in each row"} *
+                          </Label>
+                          <SubfieldEditor
+                            subfields={field.subfields ?? []}
+                            onChange={(subfields) => { updateField(index, { subfields }); }}
+                            itemLabel={field.type === "table" ? "Column" : "Field"}
+                          />
+                        </div>
+                      )}
+
+                      {/* Calculation (for computed fields) */}
+                      {field.type === "computed" && (
+                        <ComputationEditor
+                          computation={field.computation ?? { operation: "sum", fieldIds: [] }}
+                          currency={field.currency}
+                          earlierFields={fields.slice(0, index)}
+                          onChange={(computation, currency) =>
+                            { updateField(index, { computation, currency }); }
+                          }
+                        />
+                      )}
+
                       {/* Required Toggle */}
                       <div className="flex items-center justify-between">
                         <Label
@@ -480,6 +916,8 @@ export function InlineFormBuilder({
 
                       {/* Validation (for specific field types) */}
                       {(field.type === "number" ||
+                        field.type === "currency" ||
+                        field.type === "repeater" ||
                         field.type === "text" ||
                         field.type === "textarea") && (
                         <div className="space-y-2 border-t pt-3">
@@ -487,14 +925,16 @@ export function InlineFormBuilder({
                             Validation Rules (optional)
                           </Label>
                           <div className="grid grid-cols-2 gap-2">
-                            {field.type === "number" && (
+                            {(field.type === "number" ||
+                              field.type === "currency" ||
+                              field.type === "repeater") && (
                               <>
                                 <div className="space-y-1">
                                   <Label
                                     htmlFor={`field-${index}-min`}
                                     className="text-xs"
                                   >
-                                    Minimum Value
+                                    {field.type === "repeater" ? "Minimum Rows" : "Minimum Value"}
                                   </Label>
                                   <Input
                                     id={`field-${index}-min`}
@@ -519,7 +959,7 @@ export function InlineFormBuilder({
                                     htmlFor={`field-${index}-max`}
                                     className="text-xs"
                                   >
-                                    Maximum Value
+                                    {field.type === "repeater" ? "Maximum Rows" : "Maximum Value"}
                                   </Label>
                                   <Input
                                     id={`field-${index}-max`}
@@ -599,6 +1039,106 @@ export function InlineFormBuilder({
                           </div>
                         </div>
                       )}
+
+                      {/* Visibility - conditions on earlier fields */}
+                      {index > 0 && (
+                        <div className="space-y-2 border-t pt-3">
+                          <div className="flex items-center justify-between">
+                            <Label
+                              htmlFor={`field-${index}-conditional`}
+                              className="text-xs font-semibold"
+                            >
+                              Only show this field when...
+                            </Label>
+                            <Switch
+                              id={`field-${index}-conditional`}
+                              checked={!!field.conditional}
+                              onCheckedChange={(checked) => {
+                                const earlier = getConditionFieldOptions(fields.slice(0, index));
+                                updateField(index, {
+                                  conditional: checked
+                                    ? { combinator: "and", conditions: [createConditionRule(earlier[0])] }
+                                    : undefined,
+                                });
+                              }}
+                            />
+                          </div>
+                          {field.conditional && (
+                            <ConditionGroupEditor
+                              group={toConditionGroup(field.conditional) ?? { combinator: "and", conditions: [] }}
+                              fields={getConditionFieldOptions(fields.slice(0, index))}
+                              onChange={(conditional) => { updateField(index, { conditional }); }}
+                            />
+                          )}
+                        </div>
+                      )}
+
+                      {/* Cross-field validation rules */}
+                      {field.type !== "computed" && (
+                        <div className="space-y-2 border-t pt-3">
+                          <Label className="text-xs font-semibold">
+                            Answer Checks (optional)
+                          </Label>
+                          <p className="text-xs text-muted-foreground">
+                            Each check must pass for the answer to be accepted,
+                            e.g. end date after start date.
+                          </p>
+                          {(field.validationRules ?? []).map((rule: FormValidationRule, ruleIndex: number) => (
+                            <div key={ruleIndex} className="space-y-2 p-2 border rounded-md">
+                              <ConditionGroupEditor
+                                group={rule.condition}
+                                fields={getConditionFieldOptions(fields)}
+                                onChange={(condition) =>
+                                  updateField(index, {
+                                    validationRules: (field.validationRules ?? []).map((r: FormValidationRule, i: number) =>
+                                      i === ruleIndex ? { ...r, condition } : r,
+                                    ),
+                                  })
+                                }
+                                onRemove={() =>
+                                  updateField(index, {
+                                    validationRules: (field.validationRules ?? []).filter(
+                                      (_: FormValidationRule, i: number) => i !== ruleIndex,
+                                    ),
+                                  })
+                                }
+                              />
+                              <Input
+                                value={rule.message}
+                                onChange={(e) =>
+                                  updateField(index, {
+                                    validationRules: (field.validationRules ?? []).map((r: FormValidationRule, i: number) =>
+                                      i === ruleIndex ? { ...r, message: e.target.value } : r,
+                                    ),
+                                  })
+                                }
+                                placeholder="Message shown when the check fails"
+                                className="h-8 text-xs"
+                              />
+                            </div>
+                          ))}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              const self = getConditionFieldOptions([field]);
+                              updateField(index, {
+                                validationRules: [
+                                  ...(field.validationRules ?? []),
+                                  {
+                                    condition: { combinator: "and", conditions: [createConditionRule(self[0])] },
+                                    message: "",
+                                  },
+                                ],
+                              });
+                            }}
+                            className="h-7 text-xs"
+                          >
+                            <Plus className="w-3 h-3 mr-1" />
+                            Add check
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   )}
                 </Card>
@@ -724,24 +1264,57 @@ export function InlineFormBuilder({
                     </div>
                   )}
 
-                  {field.validation && (
+                  {isReferenceFieldType(field.type) && (
+                    <Select disabled>
+                      <SelectTrigger className="bg-gray-50">
+                        <SelectValue
+                          placeholder={field.placeholder || `Select a ${field.type}`}
+                        />
+                      </SelectTrigger>
+                      <SelectContent />
+                    </Select>
+                  )}
+
+                  {field.type === "file" && (
+                    <Button variant="outline" size="sm" disabled>
+                      Upload files
+                    </Button>
+                  )}
+
+                  {/* Currency, rating, signature, repeater, table and computed previews */}
+                  {!isReferenceFieldType(field.type) && (
+                    <StructuredFormFieldInput
+                      field={field}
+                      value={getInitialFormValue(field)}
+                      onChange={() => {}}
+                      disabled
+                    />
+                  )}
+
+                  {field.validation && field.type !== "rating" && (
                     <div className="text-xs text-muted-foreground">
                       {field.validation.min !== undefined &&
                       field.validation.max !== undefined ? (
                         <span>
-                          {field.type === "number"
+                          {field.type === "repeater"
+                            ? `Rows: ${field.validation.min} - ${field.validation.max}`
+                            : field.type === "number" || field.type === "currency"
                             ? `Range: ${field.validation.min} - ${field.validation.max}`
                             : `Length: ${field.validation.min} - ${field.validation.max} characters`}
                         </span>
                       ) : field.validation.min !== undefined ? (
                         <span>
-                          {field.type === "number"
+                          {field.type === "repeater"
+                            ? `At least ${field.validation.min} rows`
+                            : field.type === "number" || field.type === "currency"
                             ? `Minimum: ${field.validation.min}`
                             : `Min length: ${field.validation.min} characters`}
                         </span>
                       ) : field.validation.max !== undefined ? (
                         <span>
-                          {field.type === "number"
+                          {field.type === "repeater"
+                            ? `At most ${field.validation.max} rows`
+                            : field.type === "number" || field.type === "currency"
                             ? `Maximum: ${field.validation.max}`
                             : `Max length: ${field.validation.max} characters`}
                         </span>
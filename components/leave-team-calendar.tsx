@@ -0,0 +1,157 @@
+'use client';
+
+/**
+ * Team Leave Calendar
+ * A month of approved and pending leave for the people you work with - one
+ * row per person, one column per day.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { LeaveRequest } from '@/lib/leave';
+import { toDateKey } from '@/lib/business-calendar-service';
+
+interface LeaveTeamCalendarProps {
+  // Bump to reload after a request changes elsewhere on the page
+  refreshKey?: number;
+}
+
+function monthDays(month: string): string[] {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const count = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return Array.from({ length: count }, (_, i) => toDateKey(new Date(Date.UTC(year, monthIndex - 1, i + 1))));
+}
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return toDateKey(new Date(Date.UTC(year, monthIndex - 1 + delta, 1))).slice(0, 7);
+}
+
+export function LeaveTeamCalendar({ refreshKey = 0 }: LeaveTeamCalendarProps) {
+  const [month, setMonth] = useState(() => toDateKey(new Date()).slice(0, 7));
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const days = useMemo(() => monthDays(month), [month]);
+
+  const loadRequests = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ scope: 'team', from: days[0], to: days[days.length - 1] });
+      const response = await fetch(`/api/leave/requests?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load the team calendar');
+        return;
+      }
+      setRequests(data.requests || []);
+    } catch (error: unknown) {
+      console.error('Error loading team leave:', error);
+      toast.error('Failed to load the team calendar');
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    void loadRequests();
+  }, [loadRequests, refreshKey]);
+
+  const people = useMemo(() => {
+    const byUser = new Map<string, { name: string; requests: LeaveRequest[] }>();
+    for (const request of requests) {
+      const person = byUser.get(request.userId) ?? { name: request.userName ?? 'Unknown', requests: [] };
+      person.requests.push(request);
+      byUser.set(request.userId, person);
+    }
+    return Array.from(byUser.entries())
+      .map(([userId, person]) => ({ userId, ...person }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [requests]);
+
+  const monthLabel = new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Team Calendar</CardTitle>
+            <CardDescription>Approved leave is solid, pending requests are faded</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setMonth((m) => shiftMonth(m, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="w-36 text-center text-sm font-medium">{monthLabel}</span>
+            <Button variant="outline" size="sm" onClick={() => setMonth((m) => shiftMonth(m, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : people.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">Nobody on your team has leave this month.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 bg-white p-2 text-left font-medium text-gray-600">Person</th>
+                  {days.map((day) => {
+                    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+                    return (
+                      <th
+                        key={day}
+                        className={`min-w-[1.75rem] p-1 text-center font-normal ${weekday === 0 || weekday === 6 ? 'bg-gray-50 text-gray-400' : 'text-gray-600'}`}
+                      >
+                        {Number(day.slice(8))}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {people.map((person) => (
+                  <tr key={person.userId} className="border-t">
+                    <td className="sticky left-0 whitespace-nowrap bg-white p-2 font-medium">{person.name}</td>
+                    {days.map((day) => {
+                      const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+                      const leave = person.requests.find((r) => r.startDate <= day && r.endDate >= day);
+                      return (
+                        <td
+                          key={day}
+                          className={`p-0.5 ${weekday === 0 || weekday === 6 ? 'bg-gray-50' : ''}`}
+                          title={leave ? `${leave.leaveTypeName}${leave.halfDay ? ' (half day)' : ''} - ${leave.status}` : undefined}
+                        >
+                          {leave && (
+                            <div
+                              className="h-5 rounded-sm"
+                              style={{
+                                backgroundColor: leave.leaveTypeColor,
+                                opacity: leave.status === 'pending' ? 0.4 : 1,
+                                width: leave.halfDay ? '50%' : '100%',
+                              }}
+                            />
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
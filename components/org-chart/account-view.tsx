@@ -13,7 +13,8 @@ import {
   X,
   Briefcase,
   UserCog,
-  RefreshCw
+  RefreshCw,
+  PieChart
 } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
@@ -30,6 +31,7 @@ import { toast } from 'sonner';
 import { UserWithRoles } from '@/lib/rbac-types';
 import { Permission } from '@/lib/permissions';
 import { hasPermission } from '@/lib/rbac';
+import { CapacitySplitDialog } from '@/components/capacity-split-dialog';
 
 interface AccountMember {
   id: string;
@@ -129,6 +131,7 @@ function AccountCard({
   const [removingUserId, setRemovingUserId] = useState<string | null>(null);
   const [removeUserDialogOpen, setRemoveUserDialogOpen] = useState(false);
   const [userToRemove, setUserToRemove] = useState<string | null>(null);
+  const [splitUser, setSplitUser] = useState<{ id: string; name: string } | null>(null);
 
   // Check permissions
   useEffect(() => {
@@ -454,6 +457,17 @@ function AccountCard({
                           )}
                         </div>
                       </div>
+                      {member.user && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 shrink-0"
+                          title="Capacity split"
+                          onClick={() => setSplitUser({ id: member.user_id, name: member.user.name })}
+                        >
+                          <PieChart className="h-4 w-4" />
+                        </Button>
+                      )}
                       {!isReadOnly && canRemoveUsers && (
                         <Button
                           variant="ghost"
@@ -559,6 +573,17 @@ function AccountCard({
         </div>
       </CardContent>
 
+      {splitUser && (
+        <CapacitySplitDialog
+          open={!!splitUser}
+          onOpenChange={(open) => !open && setSplitUser(null)}
+          user={splitUser}
+          accountId={account.id}
+          accountName={account.name}
+          canEdit={!isReadOnly && canAssignUsers}
+        />
+      )}
+
       <AlertDialog open={removeUserDialogOpen} onOpenChange={setRemoveUserDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,132 @@
+'use client';
+
+/**
+ * Project Required Skills
+ * Card on the project page listing the skills the project needs. Tasks
+ * without their own requirements fall back to these when suggesting people.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { GraduationCap, Loader2, Pencil } from 'lucide-react';
+import { toast } from 'sonner';
+import { RequiredSkillsPicker } from '@/components/required-skills-picker';
+import { RequiredSkill, Skill, SKILL_PROFICIENCY_LABELS } from '@/lib/skills';
+
+interface ProjectRequiredSkillsProps {
+  projectId: string;
+  canEdit: boolean;
+  onSaved?: () => void;
+}
+
+export function ProjectRequiredSkills({ projectId, canEdit, onSaved }: ProjectRequiredSkillsProps) {
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [required, setRequired] = useState<RequiredSkill[]>([]);
+  const [draft, setDraft] = useState<RequiredSkill[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [skillsResponse, requiredResponse] = await Promise.all([
+        fetch('/api/skills'),
+        fetch(`/api/projects/${projectId}/required-skills`),
+      ]);
+      const skillsData = skillsResponse.ok ? await skillsResponse.json() : { skills: [] };
+      const requiredData = requiredResponse.ok ? await requiredResponse.json() : { required: [] };
+      setSkills(skillsData.skills || []);
+      setRequired(requiredData.required || []);
+    } catch (error: unknown) {
+      console.error('Error loading project required skills:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/required-skills`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          skills: draft.map((r) => ({ skill_id: r.skillId, min_proficiency: r.minProficiency })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save required skills');
+        return;
+      }
+      setRequired(data.required || []);
+      setEditing(false);
+      toast.success('Required skills saved');
+      onSaved?.();
+    } catch (error: unknown) {
+      console.error('Error saving project required skills:', error);
+      toast.error('Failed to save required skills');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const skillName = (id: string) => skills.find((s) => s.id === id)?.name ?? 'Unknown skill';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <GraduationCap className="w-5 h-5" />
+              Required Skills
+            </CardTitle>
+            <CardDescription>Used to suggest people for this project and its tasks</CardDescription>
+          </div>
+          {canEdit && !editing && !loading && (
+            <Button variant="outline" size="sm" onClick={() => { setDraft(required); setEditing(true); }}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-2">
+            <Loader2 className="w-5 h-5 animate-spin mx-auto text-gray-400" />
+          </div>
+        ) : editing ? (
+          <div className="space-y-3">
+            <RequiredSkillsPicker skills={skills} value={draft} onChange={setDraft} disabled={saving} />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setEditing(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        ) : required.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {required.map((r) => (
+              <Badge key={r.skillId} variant="secondary" className="px-3 py-1">
+                {skillName(r.skillId)} · {SKILL_PROFICIENCY_LABELS[r.minProficiency]}+
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No required skills set</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+/**
+ * Required Skills Picker
+ * Edits a list of skills with the minimum proficiency each needs. Used for
+ * tasks, projects and workflow role nodes.
+ */
+
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { X } from 'lucide-react';
+import {
+  RequiredSkill,
+  Skill,
+  SKILL_PROFICIENCIES,
+  SKILL_PROFICIENCY_LABELS,
+  SkillProficiency,
+} from '@/lib/skills';
+
+interface RequiredSkillsPickerProps {
+  skills: Skill[];
+  value: RequiredSkill[];
+  onChange: (value: RequiredSkill[]) => void;
+  disabled?: boolean;
+}
+
+export function RequiredSkillsPicker({ skills, value, onChange, disabled = false }: RequiredSkillsPickerProps) {
+  const skillName = (id: string) => skills.find((s) => s.id === id)?.name ?? 'Unknown skill';
+  const available = skills.filter((s) => s.isActive && !value.some((r) => r.skillId === s.id));
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="space-y-1.5">
+          {value.map((req) => (
+            <div key={req.skillId} className="flex items-center gap-2">
+              <span className="flex-1 truncate text-sm">{skillName(req.skillId)}</span>
+              <Select
+                value={String(req.minProficiency)}
+                disabled={disabled}
+                onValueChange={(level) => onChange(value.map((r) =>
+                  r.skillId === req.skillId ? { ...r, minProficiency: Number(level) as SkillProficiency } : r
+                ))}
+              >
+                <SelectTrigger className="h-8 w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SKILL_PROFICIENCIES.map((level) => (
+                    <SelectItem key={level} value={String(level)}>
+                      {SKILL_PROFICIENCY_LABELS[level]}+
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                disabled={disabled}
+                onClick={() => onChange(value.filter((r) => r.skillId !== req.skillId))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      {available.length > 0 && (
+        <Select
+          value=""
+          disabled={disabled}
+          onValueChange={(skillId) => onChange([...value, { skillId, minProficiency: 1 }])}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Add a required skill..." />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((skill) => (
+              <SelectItem key={skill.id} value={skill.id}>
+                {skill.category ? `${skill.category} - ${skill.name}` : skill.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {skills.length === 0 && (
+        <p className="text-xs text-muted-foreground">No skills have been set up yet.</p>
+      )}
+    </div>
+  );
+}
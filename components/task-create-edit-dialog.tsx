@@ -18,6 +18,9 @@ import { toast } from 'sonner';
 import { Task } from '@/lib/task-service-db';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { createClientSupabase } from '@/lib/supabase';
+import { RequiredSkillsPicker } from '@/components/required-skills-picker';
+import { AssigneeSuggestions } from '@/components/assignee-suggestions';
+import { AssigneeSuggestion, RequiredSkill, Skill, formatRequiredSkillsParam } from '@/lib/skills';
 
 
 interface TaskCreateEditDialogProps {
@@ -40,6 +43,10 @@ export default function TaskCreateEditDialog({
   const [users, setUsers] = useState<Array<{ id: string; name: string; roles: string[] }>>([]);
   const [loadingUsers, setLoadingUsers] = useState(false);
   const [project, setProject] = useState<{ start_date: string | null; end_date: string | null } | null>(null);
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [requiredSkills, setRequiredSkills] = useState<RequiredSkill[]>([]);
+  const [suggestions, setSuggestions] = useState<AssigneeSuggestion[]>([]);
+  const [loadingSuggestions, setLoadingSuggestions] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     description: '',
@@ -211,12 +218,92 @@ export default function TaskCreateEditDialog({
     }
   }, [projectId]);
 
+  const loadSkills = useCallback(async () => {
+    try {
+      const response = await fetch('/api/skills');
+      if (!response.ok) throw new Error('Failed to load skills');
+      const data = await response.json();
+      setSkills(data.skills || []);
+    } catch (error: unknown) {
+      console.error('Error loading skills:', error);
+      setSkills([]);
+    }
+  }, []);
+
   useEffect(() => {
     if (open && userProfile) {
       loadUsers();
       loadProject();
+      loadSkills();
+    }
+  }, [open, userProfile, projectId, loadUsers, loadProject, loadSkills]);
+
+  // Load the task's saved required skills (edit mode)
+  useEffect(() => {
+    if (!open || !task) {
+      setRequiredSkills([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/tasks/${task.id}/required-skills`)
+      .then((response) => response.ok ? response.json() : { required: [] })
+      .then((data) => {
+        if (!cancelled) setRequiredSkills(data.required || []);
+      })
+      .catch((error: unknown) => console.error('Error loading required skills:', error));
+
+    return () => { cancelled = true; };
+  }, [task, open]);
+
+  // Rank assignees against the skills as currently edited; with none picked
+  // the saved task / project requirements apply
+  useEffect(() => {
+    if (!open || !userProfile) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({ project_id: projectId });
+    if (task) params.set('task_id', task.id);
+    if (requiredSkills.length > 0) params.set('skills', formatRequiredSkillsParam(requiredSkills));
+
+    setLoadingSuggestions(true);
+    fetch(`/api/staffing/suggest-assignees?${params.toString()}`)
+      .then((response) => response.ok ? response.json() : { suggestions: [] })
+      .then((data) => {
+        if (!cancelled) setSuggestions(data.suggestions || []);
+      })
+      .catch((error: unknown) => {
+        console.error('Error loading assignee suggestions:', error);
+        if (!cancelled) setSuggestions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSuggestions(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [open, userProfile, projectId, task, requiredSkills]);
+
+  const handlePickSuggestion = (suggestion: AssigneeSuggestion) => {
+    // Suggestions can come from outside the account; assigning grants them access
+    if (!users.some((user) => user.id === suggestion.userId)) {
+      setUsers(prev => [...prev, { id: suggestion.userId, name: suggestion.name, roles: ['Team Member'] }]);
+    }
+    setFormData(prev => ({ ...prev, assigned_to: suggestion.userId }));
+  };
+
+  const saveRequiredSkills = async (taskId: string) => {
+    const response = await fetch(`/api/tasks/${taskId}/required-skills`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        skills: requiredSkills.map((r) => ({ skill_id: r.skillId, min_proficiency: r.minProficiency })),
+      }),
+    });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      toast.error(result.error || 'Task saved, but its required skills could not be saved');
     }
-  }, [open, userProfile, projectId, loadUsers, loadProject]);
+  };
 
   // Populate form when task changes (edit mode)
   useEffect(() => {
@@ -322,6 +409,7 @@ export default function TaskCreateEditDialog({
         const result = await response.json();
 
         if (response.ok && result.success) {
+          await saveRequiredSkills(task.id);
           onTaskSaved();
           onOpenChange(false);
         } else {
@@ -351,6 +439,9 @@ export default function TaskCreateEditDialog({
 
         if (response.ok && result.success) {
           console.log('Task created successfully:', result.task);
+          if (result.task?.id && requiredSkills.length > 0) {
+            await saveRequiredSkills(result.task.id);
+          }
           onTaskSaved();
           onOpenChange(false);
         } else {
@@ -490,6 +581,17 @@ export default function TaskCreateEditDialog({
             />
           </div>
 
+          {/* Required Skills - drive the assignee suggestions below */}
+          <div className="space-y-2">
+            <Label>Required Skills</Label>
+            <RequiredSkillsPicker
+              skills={skills}
+              value={requiredSkills}
+              onChange={setRequiredSkills}
+              disabled={loading}
+            />
+          </div>
+
           {/* Assigned To - Task assignment permissions are inherited from project access */}
           <div className="space-y-2">
             <Label htmlFor="assigned_to">Assign To</Label>
@@ -515,6 +617,13 @@ export default function TaskCreateEditDialog({
             <p className="text-xs text-muted-foreground">
               Assigned users will get access to this project and its account
             </p>
+            <AssigneeSuggestions
+              suggestions={suggestions}
+              loading={loadingSuggestions}
+              selectedUserId={formData.assigned_to}
+              onPick={handlePickSuggestion}
+              disabled={loading}
+            />
           </div>
 
           <DialogFooter>
@@ -0,0 +1,120 @@
+'use client';
+
+/**
+ * User Skills Editor
+ * Picks skills from the managed taxonomy with a proficiency level each.
+ * Controlled - the caller loads and saves the person's skills.
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { X } from 'lucide-react';
+import {
+  Skill,
+  SKILL_PROFICIENCIES,
+  SKILL_PROFICIENCY_LABELS,
+  SkillProficiency,
+  UserSkill,
+} from '@/lib/skills';
+
+interface UserSkillsEditorProps {
+  value: UserSkill[];
+  onChange: (value: UserSkill[]) => void;
+  disabled?: boolean;
+}
+
+export function UserSkillsEditor({ value, onChange, disabled = false }: UserSkillsEditorProps) {
+  const [skills, setSkills] = useState<Skill[]>([]);
+
+  useEffect(() => {
+    fetch('/api/skills')
+      .then((response) => response.ok ? response.json() : { skills: [] })
+      .then((data) => setSkills(data.skills || []))
+      .catch((error: unknown) => console.error('Error loading skills:', error));
+  }, []);
+
+  const available = skills.filter((s) => s.isActive && !value.some((us) => us.skillId === s.id));
+
+  const handleAdd = (skillId: string) => {
+    const skill = skills.find((s) => s.id === skillId);
+    if (!skill) return;
+    onChange([...value, { skillId, skillName: skill.name, category: skill.category, proficiency: 2 }]);
+  };
+
+  if (disabled) {
+    return value.length > 0 ? (
+      <div className="flex flex-wrap gap-2">
+        {value.map((us) => (
+          <span
+            key={us.skillId}
+            className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800"
+          >
+            {us.skillName}
+            <span className="ml-1.5 text-xs text-gray-500">{SKILL_PROFICIENCY_LABELS[us.proficiency]}</span>
+          </span>
+        ))}
+      </div>
+    ) : (
+      <p className="text-sm text-gray-500">No skills added yet</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.map((us) => (
+        <div key={us.skillId} className="flex items-center gap-2">
+          <span className="flex-1 truncate text-sm">{us.skillName}</span>
+          <Select
+            value={String(us.proficiency)}
+            onValueChange={(level) => onChange(value.map((s) =>
+              s.skillId === us.skillId ? { ...s, proficiency: Number(level) as SkillProficiency } : s
+            ))}
+          >
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SKILL_PROFICIENCIES.map((level) => (
+                <SelectItem key={level} value={String(level)}>
+                  {SKILL_PROFICIENCY_LABELS[level]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => onChange(value.filter((s) => s.skillId !== us.skillId))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {available.length > 0 ? (
+        <Select value="" onValueChange={handleAdd}>
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Add a skill..." />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((skill) => (
+              <SelectItem key={skill.id} value={skill.id}>
+                {skill.category ? `${skill.category} - ${skill.name}` : skill.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : skills.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No skills have been set up yet. Ask an admin to add some.</p>
+      ) : null}
+    </div>
+  );
+}
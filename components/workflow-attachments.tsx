@@ -0,0 +1,158 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, Paperclip, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  formatFileSize,
+  getAttachmentDownloadUrl,
+  WorkflowAttachmentRef,
+} from '@/lib/workflow-attachments';
+
+interface WorkflowAttachmentUploadProps {
+  workflowInstanceId: string;
+  nodeId?: string | null;
+  // Set for form file fields, omitted for step attachments
+  fieldId?: string | null;
+  value: WorkflowAttachmentRef[];
+  onChange: (value: WorkflowAttachmentRef[]) => void;
+  disabled?: boolean;
+  maxFiles?: number;
+}
+
+/**
+ * Upload files to a workflow step. Files are stored as drafts until the step
+ * is submitted; removing one here deletes the draft.
+ */
+export function WorkflowAttachmentUpload({
+  workflowInstanceId,
+  nodeId,
+  fieldId,
+  value,
+  onChange,
+  disabled,
+  maxFiles = 10,
+}: WorkflowAttachmentUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    if (value.length + files.length > maxFiles) {
+      toast.error(`You can attach up to ${maxFiles} files`);
+      return;
+    }
+
+    setUploading(true);
+    const uploaded: WorkflowAttachmentRef[] = [];
+    try {
+      for (const file of Array.from(files)) {
+        const body = new FormData();
+        body.append('file', file);
+        if (nodeId) body.append('nodeId', nodeId);
+        if (fieldId) body.append('fieldId', fieldId);
+
+        const response = await fetch(`/api/workflows/instances/${workflowInstanceId}/attachments`, {
+          method: 'POST',
+          body,
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          toast.error(data.error || `Failed to upload ${file.name}`);
+          continue;
+        }
+        uploaded.push(data.attachment);
+      }
+    } catch (error: unknown) {
+      toast.error('Failed to upload file');
+      console.error('Error uploading attachment:', error);
+    } finally {
+      if (uploaded.length > 0) onChange([...value, ...uploaded]);
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleRemove = async (attachment: WorkflowAttachmentRef) => {
+    onChange(value.filter((a) => a.id !== attachment.id));
+    try {
+      await fetch(getAttachmentDownloadUrl(attachment.id), { method: 'DELETE' });
+    } catch (error: unknown) {
+      // The draft is simply left unsubmitted
+      console.error('Error removing attachment:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <ul className="space-y-1">
+          {value.map((attachment) => (
+            <li key={attachment.id} className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 border rounded-md text-sm">
+              <span className="flex items-center gap-2 min-w-0">
+                <Paperclip className="w-4 h-4 flex-shrink-0 text-gray-500" />
+                <span className="truncate">{attachment.name}</span>
+                <span className="text-xs text-gray-500 flex-shrink-0">{formatFileSize(attachment.size)}</span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(attachment)}
+                disabled={disabled || uploading}
+                title="Remove file"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || uploading || value.length >= maxFiles}
+      >
+        {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+        {uploading ? 'Uploading...' : 'Upload files'}
+      </Button>
+    </div>
+  );
+}
+
+interface WorkflowAttachmentLinksProps {
+  attachments: WorkflowAttachmentRef[];
+}
+
+/**
+ * Download links for submitted attachments
+ */
+export function WorkflowAttachmentLinks({ attachments }: WorkflowAttachmentLinksProps) {
+  return (
+    <span className="flex flex-col gap-1">
+      {attachments.map((attachment) => (
+        <a
+          key={attachment.id}
+          href={getAttachmentDownloadUrl(attachment.id)}
+          className="inline-flex items-center gap-1 text-blue-600 hover:underline break-all"
+        >
+          <Paperclip className="w-3 h-3 flex-shrink-0" />
+          {attachment.name}
+          <span className="text-xs text-gray-500">({formatFileSize(attachment.size)})</span>
+        </a>
+      ))}
+    </span>
+  );
+}
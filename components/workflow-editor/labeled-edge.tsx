@@ -8,6 +8,8 @@ export interface LabeledEdgeData {
   conditionValue?: string;
   conditionType?: 'approval_decision' | 'sync_aggregate_decision' | 'form_value' | 'custom';
   decision?: string;
+  // Set by the canvas when a simulation has traversed this edge (never saved)
+  simulated?: boolean;
   [key: string]: unknown;
 }
 
@@ -143,8 +145,8 @@ export function LabeledEdge({
   const label = edgeData?.label ?? edgeData?.conditionValue;
 
   // Dynamic stroke width based on hover/selected state
-  const strokeWidth = isHovered || selected ? 3 : 2;
-  const strokeColor = isHovered || selected ? colors.strokeHover : colors.stroke;
+  const strokeWidth = isHovered || selected || edgeData?.simulated ? 3 : 2;
+  const strokeColor = edgeData?.simulated ? '#8B5CF6' : isHovered || selected ? colors.strokeHover : colors.stroke;
 
   return (
     <>
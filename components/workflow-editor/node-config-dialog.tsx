@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
+import useSWR from 'swr';
 import {
   Dialog,
   DialogContent,
@@ -23,6 +24,11 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { WorkflowNodeData } from './workflow-node';
 import { InlineFormBuilder, FormField } from '@/components/inline-form-builder';
+import { WorkflowActionEditor } from './workflow-action-editor';
+import type { WorkflowActionConfig } from '@/lib/workflow-action-service';
+import { RequiredSkillsPicker } from '@/components/required-skills-picker';
+import type { RequiredSkill, Skill } from '@/lib/skills';
+import { CONDITION_OPERATORS_BY_FIELD } from '@/lib/form-logic';
 import { Plus, Trash2, AlertTriangle, Info } from 'lucide-react';
 import { Node, Edge } from '@xyflow/react';
 
@@ -35,71 +41,10 @@ interface ConditionBranch {
   color: string;
 }
 
-// Condition types available for each field type
-const CONDITION_TYPES_BY_FIELD: Record<string, { value: string; label: string; needsValue: boolean; needsValue2?: boolean }[]> = {
-  text: [
-    { value: 'equals', label: 'Equals', needsValue: true },
-    { value: 'contains', label: 'Contains', needsValue: true },
-    { value: 'starts_with', label: 'Starts with', needsValue: true },
-    { value: 'ends_with', label: 'Ends with', needsValue: true },
-    { value: 'is_empty', label: 'Is empty', needsValue: false },
-    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
-  ],
-  textarea: [
-    { value: 'equals', label: 'Equals', needsValue: true },
-    { value: 'contains', label: 'Contains', needsValue: true },
-    { value: 'starts_with', label: 'Starts with', needsValue: true },
-    { value: 'ends_with', label: 'Ends with', needsValue: true },
-    { value: 'is_empty', label: 'Is empty', needsValue: false },
-    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
-  ],
-  email: [
-    { value: 'equals', label: 'Equals', needsValue: true },
-    { value: 'contains', label: 'Contains', needsValue: true },
-    { value: 'ends_with', label: 'Domain ends with', needsValue: true },
-    { value: 'is_empty', label: 'Is empty', needsValue: false },
-    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
-  ],
-  url: [
-    { value: 'equals', label: 'Equals', needsValue: true },
-    { value: 'contains', label: 'Contains', needsValue: true },
-    { value: 'starts_with', label: 'Starts with', needsValue: true },
-    { value: 'is_empty', label: 'Is empty', needsValue: false },
-    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
-  ],
-  number: [
-    { value: 'equals', label: 'Equals', needsValue: true },
-    { value: 'greater_than', label: 'Greater than', needsValue: true },
-    { value: 'less_than', label: 'Less than', needsValue: true },
-    { value: 'greater_or_equal', label: 'Greater than or equal', needsValue: true },
-    { value: 'less_or_equal', label: 'Less than or equal', needsValue: true },
-    { value: 'between', label: 'Between', needsValue: true, needsValue2: true },
-    { value: 'is_empty', label: 'Is empty', needsValue: false },
-    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
-  ],
-  date: [
-    { value: 'equals', label: 'Equals', needsValue: true },
-    { value: 'before', label: 'Before', needsValue: true },
-    { value: 'after', label: 'After', needsValue: true },
-    { value: 'between', label: 'Between', needsValue: true, needsValue2: true },
-    { value: 'is_empty', label: 'Is empty', needsValue: false },
-    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
-  ],
-  dropdown: [
-    { value: 'equals', label: 'Equals', needsValue: true },
-    { value: 'is_empty', label: 'Is empty', needsValue: false },
-    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
-  ],
-  multiselect: [
-    { value: 'contains', label: 'Contains', needsValue: true },
-    { value: 'is_empty', label: 'Is empty', needsValue: false },
-    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
-  ],
-  checkbox: [
-    { value: 'is_checked', label: 'Is checked (Yes)', needsValue: false },
-    { value: 'is_not_checked', label: 'Is not checked (No)', needsValue: false },
-  ],
-};
+// Numeric inputs for branch values (condition types per field type come from
+// CONDITION_OPERATORS_BY_FIELD, shared with form visibility rules)
+const NUMERIC_CONDITION_FIELD_TYPES = ['number', 'currency', 'rating', 'computed'];
+const COUNT_CONDITION_TYPES = ['count_greater_than', 'count_less_than', 'count_equals'];
 
 // Generate a human-readable label for a branch condition
 function generateBranchLabel(fieldLabel: string, conditionType: string, value?: string, value2?: string): string {
@@ -119,6 +64,9 @@ function generateBranchLabel(fieldLabel: string, conditionType: string, value?:
     after: `${fieldLabel} after ${value}`,
     is_checked: `${fieldLabel} = Yes`,
     is_not_checked: `${fieldLabel} = No`,
+    count_greater_than: `${fieldLabel} has more than ${value}`,
+    count_less_than: `${fieldLabel} has fewer than ${value}`,
+    count_equals: `${fieldLabel} has ${value}`,
   };
   return conditionLabels[conditionType] || `${fieldLabel} ${conditionType} ${value || ''}`;
 }
@@ -134,6 +82,20 @@ interface Role {
   department_id: string;
 }
 
+interface DirectoryUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+
+// Project dates a timer node can wait on (see TIMER_PROJECT_DATE_FIELDS)
+const PROJECT_DATE_FIELD_LABELS: Record<string, string> = {
+  start_date: 'Project start date',
+  end_date: 'Project end date',
+};
+
 interface NodeConfigDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -144,6 +106,7 @@ interface NodeConfigDialogProps {
   onSave: (data: WorkflowNodeData, clearOutgoingEdges?: boolean) => void;
   departments: Department[];
   roles: Role[];
+  workflowTemplates?: { id: string; name: string }[];
 }
 
 export function NodeConfigDialog({
@@ -156,13 +119,14 @@ export function NodeConfigDialog({
   onSave,
   departments,
   roles,
+  workflowTemplates = [],
 }: NodeConfigDialogProps) {
   const [label, setLabel] = useState('');
   const [selectedDepartment, setSelectedDepartment] = useState('');
   const [selectedRole, setSelectedRole] = useState('');
   const [selectedApproverRole, setSelectedApproverRole] = useState('');
   const [_selectedFormTemplate, setSelectedFormTemplate] = useState('');
-  const [_allowAttachments, setAllowAttachments] = useState(false);
+  const [allowAttachments, setAllowAttachments] = useState(false);
   const [conditionType, setConditionType] = useState<'form_value'>('form_value');
   const [conditionBranches, setConditionBranches] = useState<ConditionBranch[]>([]);
   const [formFields, setFormFields] = useState<FormField[]>([]);
@@ -171,6 +135,60 @@ export function NodeConfigDialog({
   const [isDraftForm, setIsDraftForm] = useState(false);
   const [selectedFormField, setSelectedFormField] = useState<string>('');
   const [previousConditionType, setPreviousConditionType] = useState<'form_value' | null>(null);
+  const [slaHours, setSlaHours] = useState('');
+  const [slaHourType, setSlaHourType] = useState<'business' | 'calendar'>('business');
+  const [escalationTarget, setEscalationTarget] = useState<'reporting_role' | 'user'>('reporting_role');
+  const [escalationUserId, setEscalationUserId] = useState('');
+  const [timerMode, setTimerMode] = useState<'duration' | 'date'>('duration');
+  const [timerDuration, setTimerDuration] = useState('');
+  const [timerUnit, setTimerUnit] = useState<'hours' | 'days' | 'business_days'>('business_days');
+  const [timerDateSource, setTimerDateSource] = useState<'project' | 'form'>('project');
+  const [timerDateField, setTimerDateField] = useState('');
+  const [actions, setActions] = useState<WorkflowActionConfig[]>([]);
+  const [approvalQuorumMode, setApprovalQuorumMode] = useState<'single' | 'n_of_m' | 'all'>('single');
+  const [requiredApprovals, setRequiredApprovals] = useState('2');
+  const [rejectOnAnyRejection, setRejectOnAnyRejection] = useState(true);
+  const [allowSendBack, setAllowSendBack] = useState(true);
+  const [subworkflowTemplateId, setSubworkflowTemplateId] = useState('');
+  const [subworkflowPassDataDown, setSubworkflowPassDataDown] = useState(true);
+  const [subworkflowPassDataUp, setSubworkflowPassDataUp] = useState(true);
+  const [joinPolicy, setJoinPolicy] = useState<'all' | 'any' | 'n_of_m'>('all');
+  const [joinRequiredBranches, setJoinRequiredBranches] = useState('2');
+  const [requiredSkills, setRequiredSkills] = useState<RequiredSkill[]>([]);
+
+  const supportsSla = nodeData?.type === 'role' || nodeData?.type === 'approval';
+
+  // Users are only needed when escalating to a specific person or configuring actions
+  const { data: usersData } = useSWR<{ users: DirectoryUser[] }>(
+    open && ((supportsSla && escalationTarget === 'user') || nodeData?.type === 'action') ? '/api/users' : null,
+    fetcher
+  );
+  const directoryUsers = usersData?.users || [];
+
+  // Skills taxonomy for role nodes' required skills
+  const { data: skillsData } = useSWR<{ skills: Skill[] }>(
+    open && nodeData?.type === 'role' ? '/api/skills' : null,
+    fetcher
+  );
+  const skills = skillsData?.skills || [];
+
+  // Date fields from every form in this workflow (timer nodes can wait on them)
+  const formDateFields = useMemo(() => {
+    if (nodeData?.type !== 'timer') return [];
+    return allNodes
+      .filter((n: any) => n.data.type === 'form')
+      .flatMap((n: any) =>
+        ((n.data.config?.formFields as unknown as FormField[]) || [])
+          .filter((f: FormField) => f.type === 'date')
+          .map((f: FormField) => ({ id: f.id, label: `${n.data.label}: ${f.label}` }))
+      );
+  }, [nodeData?.type, allNodes]);
+
+  // Branches connected to a join node
+  const joinBranchCount = useMemo(
+    () => (nodeData?.type === 'sync' ? allEdges.filter((e) => e.target === nodeId).length : 0),
+    [nodeData?.type, allEdges, nodeId]
+  );
 
   // Find the source node connected TO this conditional node
   const sourceNodeInfo = useMemo(() => {
@@ -201,7 +219,17 @@ export function NodeConfigDialog({
     const formConfig = sourceNodeInfo.node.data.config;
     if (!formConfig?.formFields) return [];
 
-    return formConfig.formFields;
+    // Repeater/table columns can be branched on too ("any row matches")
+    return (formConfig.formFields as unknown as FormField[]).flatMap((field: FormField) => [
+      field,
+      ...(field.type === 'repeater' || field.type === 'table'
+        ? (field.subfields || []).map((sub: FormField) => ({
+            ...sub,
+            id: `${field.id}.${sub.id}`,
+            label: `${field.label} → ${sub.label} (any row)`,
+          }))
+        : []),
+    ]);
   }, [sourceNodeInfo]);
 
   // Get the currently selected field's details
@@ -213,7 +241,7 @@ export function NodeConfigDialog({
   // Get condition types for the selected field
   const availableConditionTypes = useMemo(() => {
     if (!selectedField) return [];
-    return CONDITION_TYPES_BY_FIELD[selectedField.type as keyof typeof CONDITION_TYPES_BY_FIELD] || [];
+    return CONDITION_OPERATORS_BY_FIELD[selectedField.type] || [];
   }, [selectedField]);
 
   // State for the "Add Branch" form
@@ -286,6 +314,26 @@ export function NodeConfigDialog({
       setFormDescription(nodeData.config?.formDescription || '');
       setIsDraftForm(nodeData.config?.isDraftForm || false);
       setSelectedFormField(nodeData.config?.sourceFormFieldId || '');
+      setSlaHours(nodeData.config?.slaHours ? String(nodeData.config.slaHours) : '');
+      setSlaHourType(nodeData.config?.slaHourType || 'business');
+      setEscalationTarget(nodeData.config?.escalationTarget || 'reporting_role');
+      setEscalationUserId(nodeData.config?.escalationUserId || '');
+      setTimerMode(nodeData.config?.timerMode || 'duration');
+      setTimerDuration(nodeData.config?.timerDuration ? String(nodeData.config.timerDuration) : '');
+      setTimerUnit(nodeData.config?.timerUnit || 'business_days');
+      setTimerDateSource(nodeData.config?.timerDateSource || 'project');
+      setTimerDateField(nodeData.config?.timerDateField || '');
+      setActions(nodeData.config?.actions || []);
+      setApprovalQuorumMode(nodeData.config?.approvalQuorumMode || 'single');
+      setRequiredApprovals(String(nodeData.config?.requiredApprovals && nodeData.config.requiredApprovals > 1 ? nodeData.config.requiredApprovals : 2));
+      setRejectOnAnyRejection(nodeData.config?.rejectOnAnyRejection !== false);
+      setAllowSendBack(nodeData.config?.allowSendBack !== false);
+      setSubworkflowTemplateId(nodeData.config?.subworkflowTemplateId || '');
+      setSubworkflowPassDataDown(nodeData.config?.subworkflowPassDataDown !== false);
+      setSubworkflowPassDataUp(nodeData.config?.subworkflowPassDataUp !== false);
+      setJoinPolicy(nodeData.config?.joinPolicy || 'all');
+      setJoinRequiredBranches(String(nodeData.config?.joinRequiredBranches || 2));
+      setRequiredSkills(nodeData.config?.requiredSkills || []);
 
       // For conditional nodes, always use form_value type (approval nodes have built-in branching)
       if (nodeData.type === 'conditional') {
@@ -312,6 +360,7 @@ export function NodeConfigDialog({
       const role = roles.find((r:any) => r.id === selectedRole);
       config.roleId = selectedRole;
       config.roleName = role?.name;
+      config.requiredSkills = requiredSkills;
     }
 
     if (nodeData.type === 'approval') {
@@ -320,10 +369,75 @@ export function NodeConfigDialog({
         config.approverRoleId = selectedApproverRole;
         config.approverRoleName = role?.name;
       }
-      // Note: requiredApprovals, allowFeedback, allowSendBack removed
+      config.approvalQuorumMode = approvalQuorumMode;
+      if (approvalQuorumMode !== 'single') {
+        config.rejectOnAnyRejection = rejectOnAnyRejection;
+      }
+      if (approvalQuorumMode === 'n_of_m') {
+        const required = Math.floor(Number(requiredApprovals));
+        config.requiredApprovals = Number.isFinite(required) && required > 0 ? required : 1;
+      }
+      config.allowSendBack = allowSendBack;
+      config.allowAttachments = allowAttachments;
+      // Note: allowFeedback removed
       // Approval/Reject paths are always available via edge connections
     }
 
+    if (supportsSla) {
+      const hours = Number(slaHours);
+      if (Number.isFinite(hours) && hours > 0) {
+        config.slaHours = hours;
+        config.slaHourType = slaHourType;
+        config.escalationTarget = escalationTarget;
+        if (escalationTarget === 'user' && escalationUserId) {
+          const user = directoryUsers.find((u) => u.id === escalationUserId);
+          config.escalationUserId = escalationUserId;
+          config.escalationUserName = user?.name || nodeData.config?.escalationUserName;
+        }
+      }
+    }
+
+    if (nodeData.type === 'timer') {
+      config.timerMode = timerMode;
+      if (timerMode === 'duration') {
+        const duration = Number(timerDuration);
+        if (Number.isFinite(duration) && duration > 0) {
+          config.timerDuration = duration;
+        }
+        config.timerUnit = timerUnit;
+      } else {
+        config.timerDateSource = timerDateSource;
+        if (timerDateField) {
+          config.timerDateField = timerDateField;
+          config.timerDateFieldLabel = timerDateSource === 'project'
+            ? PROJECT_DATE_FIELD_LABELS[timerDateField]
+            : formDateFields.find((f) => f.id === timerDateField)?.label;
+        }
+      }
+    }
+
+    if (nodeData.type === 'action') {
+      config.actions = actions;
+    }
+
+    if (nodeData.type === 'subworkflow') {
+      if (subworkflowTemplateId) {
+        const template = workflowTemplates.find((t) => t.id === subworkflowTemplateId);
+        config.subworkflowTemplateId = subworkflowTemplateId;
+        config.subworkflowTemplateName = template?.name || nodeData.config?.subworkflowTemplateName;
+      }
+      config.subworkflowPassDataDown = subworkflowPassDataDown;
+      config.subworkflowPassDataUp = subworkflowPassDataUp;
+    }
+
+    if (nodeData.type === 'sync') {
+      config.joinPolicy = joinPolicy;
+      if (joinPolicy === 'n_of_m') {
+        const required = Math.floor(Number(joinRequiredBranches));
+        config.joinRequiredBranches = Number.isFinite(required) && required > 0 ? required : 1;
+      }
+    }
+
     if (nodeData.type === 'form') {
       config.formFields = formFields as unknown as Record<string, unknown>[];
       config.formName = formName;
@@ -434,6 +548,13 @@ export function NodeConfigDialog({
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label>Required Skills</Label>
+                <RequiredSkillsPicker skills={skills} value={requiredSkills} onChange={setRequiredSkills} />
+                <p className="text-xs text-muted-foreground">
+                  Used to rank who to assign when this step is staffed
+                </p>
+              </div>
             </>
           )}
 
@@ -455,6 +576,77 @@ export function NodeConfigDialog({
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-3 p-3 border rounded-lg">
+                <div className="space-y-2">
+                  <Label htmlFor="approval-quorum">Approvers</Label>
+                  <Select
+                    value={approvalQuorumMode}
+                    onValueChange={(value) => setApprovalQuorumMode(value as 'single' | 'n_of_m' | 'all')}
+                  >
+                    <SelectTrigger id="approval-quorum">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="single">First decision from anyone in the role</SelectItem>
+                      <SelectItem value="n_of_m">N of the role&apos;s approvers</SelectItem>
+                      <SelectItem value="all">Everyone in the role must approve</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {approvalQuorumMode === 'n_of_m' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="required-approvals">Approvals required *</Label>
+                    <Input
+                      id="required-approvals"
+                      type="number"
+                      min={1}
+                      value={requiredApprovals}
+                      onChange={(e) => setRequiredApprovals(e.target.value)}
+                    />
+                  </div>
+                )}
+                {approvalQuorumMode !== 'single' && (
+                  <div className="flex items-start gap-2">
+                    <Checkbox
+                      id="reject-on-any"
+                      checked={rejectOnAnyRejection}
+                      onCheckedChange={(checked) => setRejectOnAnyRejection(checked === true)}
+                    />
+                    <div>
+                      <Label htmlFor="reject-on-any" className="text-sm">Any rejection rejects</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Otherwise the step only rejects once the remaining approvers can no longer reach the required approvals.
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="allow-send-back"
+                  checked={allowSendBack}
+                  onCheckedChange={(checked) => setAllowSendBack(checked === true)}
+                />
+                <div>
+                  <Label htmlFor="allow-send-back" className="text-sm">Allow send-back</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Approvers can return the work to any step already completed, with a reason. Send-backs count as rework in workflow analytics.
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="allow-attachments"
+                  checked={allowAttachments}
+                  onCheckedChange={(checked) => setAllowAttachments(checked === true)}
+                />
+                <div>
+                  <Label htmlFor="allow-attachments" className="text-sm">Allow attachments</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Approvers can upload files with their decision. They appear with the step on the project&apos;s workflow form data.
+                  </p>
+                </div>
+              </div>
               <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
                 <p className="text-xs text-blue-800">
                   <strong>Note:</strong> Approval nodes have two automatic outputs:
@@ -465,6 +657,239 @@ export function NodeConfigDialog({
             </>
           )}
 
+          {/* SLA / Escalation (role and approval nodes) */}
+          {supportsSla && (
+            <div className="space-y-3 p-3 border rounded-lg">
+              <div>
+                <p className="text-sm font-medium">SLA &amp; Escalation</p>
+                <p className="text-xs text-muted-foreground">
+                  Escalate this step if it stays active longer than the SLA. Leave blank for no SLA.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="sla-hours">SLA (hours)</Label>
+                  <Input
+                    id="sla-hours"
+                    type="number"
+                    min={1}
+                    value={slaHours}
+                    onChange={(e) => setSlaHours(e.target.value)}
+                    placeholder="e.g., 24"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sla-hour-type">Counts</Label>
+                  <Select value={slaHourType} onValueChange={(value) => setSlaHourType(value as 'business' | 'calendar')}>
+                    <SelectTrigger id="sla-hour-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="business">Business hours</SelectItem>
+                      <SelectItem value="calendar">Calendar hours</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {slaHours && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="escalation-target">Escalate to</Label>
+                    <Select value={escalationTarget} onValueChange={(value) => setEscalationTarget(value as 'reporting_role' | 'user')}>
+                      <SelectTrigger id="escalation-target">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="reporting_role">Reporting role (role this step&apos;s role reports to)</SelectItem>
+                        <SelectItem value="user">Specific user</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {escalationTarget === 'user' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="escalation-user">User *</Label>
+                      <Select value={escalationUserId} onValueChange={setEscalationUserId}>
+                        <SelectTrigger id="escalation-user">
+                          <SelectValue placeholder={nodeData.config?.escalationUserName || 'Select user'} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {directoryUsers.map((user) => (
+                            <SelectItem key={user.id} value={user.id}>
+                              {user.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Timer Configuration */}
+          {nodeData.type === 'timer' && (
+            <div className="space-y-3 p-3 border rounded-lg">
+              <div>
+                <p className="text-sm font-medium">Wait Until</p>
+                <p className="text-xs text-muted-foreground">
+                  The workflow pauses here and continues automatically when the timer is up.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timer-mode">Timer type</Label>
+                <Select value={timerMode} onValueChange={(value) => setTimerMode(value as 'duration' | 'date')}>
+                  <SelectTrigger id="timer-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="duration">Fixed duration</SelectItem>
+                    <SelectItem value="date">Until a date</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {timerMode === 'duration' ? (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="timer-duration">Wait *</Label>
+                    <Input
+                      id="timer-duration"
+                      type="number"
+                      min={1}
+                      value={timerDuration}
+                      onChange={(e) => setTimerDuration(e.target.value)}
+                      placeholder="e.g., 3"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="timer-unit">Unit</Label>
+                    <Select value={timerUnit} onValueChange={(value) => setTimerUnit(value as 'hours' | 'days' | 'business_days')}>
+                      <SelectTrigger id="timer-unit">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="business_days">Business days</SelectItem>
+                        <SelectItem value="days">Calendar days</SelectItem>
+                        <SelectItem value="hours">Hours</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="timer-date-source">Date from</Label>
+                    <Select
+                      value={timerDateSource}
+                      onValueChange={(value) => {
+                        setTimerDateSource(value as 'project' | 'form');
+                        setTimerDateField('');
+                      }}
+                    >
+                      <SelectTrigger id="timer-date-source">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="project">Project</SelectItem>
+                        <SelectItem value="form">Form field</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="timer-date-field">Field *</Label>
+                    <Select value={timerDateField} onValueChange={setTimerDateField}>
+                      <SelectTrigger id="timer-date-field">
+                        <SelectValue placeholder="Select date" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {timerDateSource === 'project'
+                          ? Object.entries(PROJECT_DATE_FIELD_LABELS).map(([value, fieldLabel]) => (
+                              <SelectItem key={value} value={value}>{fieldLabel}</SelectItem>
+                            ))
+                          : formDateFields.map((field) => (
+                              <SelectItem key={field.id} value={field.id}>{field.label}</SelectItem>
+                            ))}
+                      </SelectContent>
+                    </Select>
+                    {timerDateSource === 'form' && formDateFields.length === 0 && (
+                      <p className="text-xs text-amber-600">Add a date field to a form in this workflow first.</p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Action Configuration */}
+          {nodeData.type === 'action' && (
+            <div className="space-y-3 p-3 border rounded-lg">
+              <div>
+                <p className="text-sm font-medium">Actions</p>
+                <p className="text-xs text-muted-foreground">
+                  Run automatically when the workflow reaches this step, then the workflow continues.
+                  Failed actions are recorded in the workflow history and don&apos;t stop the workflow.
+                </p>
+              </div>
+              <WorkflowActionEditor actions={actions} onChange={setActions} users={directoryUsers} />
+            </div>
+          )}
+
+          {/* Sub-workflow Configuration */}
+          {nodeData.type === 'subworkflow' && (
+            <div className="space-y-3 p-3 border rounded-lg">
+              <div>
+                <p className="text-sm font-medium">Sub-workflow</p>
+                <p className="text-xs text-muted-foreground">
+                  Starts the selected workflow on the same project. This branch waits here until the sub-workflow completes.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="subworkflow-template">Workflow template *</Label>
+                <Select value={subworkflowTemplateId} onValueChange={setSubworkflowTemplateId}>
+                  <SelectTrigger id="subworkflow-template">
+                    <SelectValue placeholder="Select a workflow..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workflowTemplates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {workflowTemplates.length === 0 && (
+                  <p className="text-xs text-muted-foreground">No other workflow templates exist yet.</p>
+                )}
+              </div>
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="subworkflow-pass-down"
+                  checked={subworkflowPassDataDown}
+                  onCheckedChange={(checked) => setSubworkflowPassDataDown(checked === true)}
+                />
+                <div>
+                  <Label htmlFor="subworkflow-pass-down" className="text-sm">Pass form data down</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Form answers collected so far are available to the sub-workflow&apos;s conditions and timers.
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="subworkflow-pass-up"
+                  checked={subworkflowPassDataUp}
+                  onCheckedChange={(checked) => setSubworkflowPassDataUp(checked === true)}
+                />
+                <div>
+                  <Label htmlFor="subworkflow-pass-up" className="text-sm">Pass form data back up</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Form answers from the sub-workflow are recorded on this step when it completes, so later conditions can use them.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Form Configuration */}
           {nodeData.type === 'form' && (
             <Tabs defaultValue="basic" className="w-full">
@@ -643,7 +1068,7 @@ export function NodeConfigDialog({
                                         ))}
                                       </SelectContent>
                                     </Select>
-                                  ) : selectedField.type === 'number' ? (
+                                  ) : NUMERIC_CONDITION_FIELD_TYPES.includes(selectedField.type) || COUNT_CONDITION_TYPES.includes(newBranchCondition) ? (
                                     <Input
                                       type="number"
                                       value={newBranchValue}
@@ -675,7 +1100,7 @@ export function NodeConfigDialog({
                             {selectedConditionType?.needsValue2 && (
                               <div className="flex items-center gap-2">
                                 <span className="text-xs text-gray-500">and</span>
-                                {selectedField.type === 'number' ? (
+                                {NUMERIC_CONDITION_FIELD_TYPES.includes(selectedField.type) ? (
                                   <Input
                                     type="number"
                                     value={newBranchValue2}
@@ -767,26 +1192,71 @@ export function NodeConfigDialog({
             </>
           )}
 
-          {/* Sync Node Configuration */}
-          {nodeData.type === 'sync' && (
-            <div className="p-4 bg-indigo-50 border border-indigo-200 rounded-lg">
+          {/* Fork Node Configuration */}
+          {nodeData.type === 'fork' && (
+            <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg">
               <div className="flex items-start gap-3">
-                <Info className="w-5 h-5 text-indigo-600 flex-shrink-0 mt-0.5" />
+                <Info className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
                 <div>
-                  <p className="text-sm font-medium text-indigo-800">Synchronization Point</p>
-                  <p className="text-xs text-indigo-700 mt-1">
-                    This node waits until <strong>all incoming parallel paths</strong> have completed
-                    before allowing the workflow to continue.
+                  <p className="text-sm font-medium text-orange-800">Parallel Split</p>
+                  <p className="text-xs text-orange-700 mt-1">
+                    Every path connected below this node starts <strong>at the same time</strong>.
                   </p>
-                  <ul className="text-xs text-indigo-700 mt-2 space-y-1 list-disc list-inside">
-                    <li>Connect multiple parallel branches to this node</li>
-                    <li>Workflow pauses here until all branches arrive</li>
-                    <li>Once all paths reach this node, workflow proceeds to the next step</li>
+                  <ul className="text-xs text-orange-700 mt-2 space-y-1 list-disc list-inside">
+                    <li>Connect two or more branches (e.g., Design and Copy)</li>
+                    <li>Every branch must end at the same Join node</li>
+                    <li>A rejection that loops back before this fork cancels the other branches</li>
                   </ul>
                 </div>
               </div>
             </div>
           )}
+
+          {/* Join (Sync) Node Configuration */}
+          {nodeData.type === 'sync' && (
+            <div className="space-y-3 p-3 border rounded-lg">
+              <div>
+                <p className="text-sm font-medium">Join Policy</p>
+                <p className="text-xs text-muted-foreground">
+                  When the workflow continues past this join. Branches still running when it continues are cancelled.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="join-policy">Continue when</Label>
+                <Select value={joinPolicy} onValueChange={(value) => setJoinPolicy(value as 'all' | 'any' | 'n_of_m')}>
+                  <SelectTrigger id="join-policy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All branches have arrived</SelectItem>
+                    <SelectItem value="any">Any branch arrives</SelectItem>
+                    <SelectItem value="n_of_m">N of the branches have arrived</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {joinPolicy === 'n_of_m' && (
+                <div className="space-y-2">
+                  <Label htmlFor="join-required">Branches required *</Label>
+                  <Input
+                    id="join-required"
+                    type="number"
+                    min={1}
+                    max={joinBranchCount || undefined}
+                    value={joinRequiredBranches}
+                    onChange={(e) => setJoinRequiredBranches(e.target.value)}
+                  />
+                  {joinBranchCount > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {joinBranchCount} branch{joinBranchCount === 1 ? '' : 'es'} connect to this join.
+                    </p>
+                  )}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Connect an &quot;All approved&quot; and an &quot;Any rejected&quot; path to route on the branches&apos; approval decisions.
+              </p>
+            </div>
+          )}
         </div>
 
         <DialogFooter>
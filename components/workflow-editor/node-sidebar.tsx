@@ -1,6 +1,6 @@
 'use client';
 
-import { Users, UserCheck, Play, Flag, FileText, GitMerge } from 'lucide-react';
+import { Users, UserCheck, Play, Flag, FileText, GitMerge, Split, Combine, Timer, Zap, Workflow } from 'lucide-react';
 import { WorkflowNodeType } from './workflow-node';
 
 interface NodeTypeConfig {
@@ -12,9 +12,9 @@ interface NodeTypeConfig {
   borderColor: string;
 }
 
-// Note: Sync node removed - parallel workflows are disabled for simplicity
 // Note: Department node removed - roles already have departments attached
-// Workflows now follow a single pathway with approval branching and conditional routing
+// Workflows follow a single pathway with approval branching and conditional routing;
+// parallel work is explicit via Fork and Join nodes
 const nodeTypes: NodeTypeConfig[] = [
   {
     type: 'start',
@@ -56,6 +56,46 @@ const nodeTypes: NodeTypeConfig[] = [
     bgColor: 'bg-pink-50',
     borderColor: 'border-pink-500',
   },
+  {
+    type: 'fork',
+    label: 'Fork',
+    icon: Split,
+    description: 'Parallel split: Starts every connected path at once (e.g., design and copy work side by side).',
+    bgColor: 'bg-orange-50',
+    borderColor: 'border-orange-500',
+  },
+  {
+    type: 'sync',
+    label: 'Join',
+    icon: Combine,
+    description: 'Brings a Fork\'s branches back together. Waits for all of them, any one, or N of them.',
+    bgColor: 'bg-violet-50',
+    borderColor: 'border-violet-500',
+  },
+  {
+    type: 'timer',
+    label: 'Timer',
+    icon: Timer,
+    description: 'Wait step: Pauses until a duration passes (e.g., 3 business days) or a date is reached, then continues automatically.',
+    bgColor: 'bg-indigo-50',
+    borderColor: 'border-indigo-500',
+  },
+  {
+    type: 'action',
+    label: 'Action',
+    icon: Zap,
+    description: 'Automation: Creates checklist tasks, posts an update, sets project status/priority, adds stakeholders or account members, then continues.',
+    bgColor: 'bg-teal-50',
+    borderColor: 'border-teal-500',
+  },
+  {
+    type: 'subworkflow',
+    label: 'Sub-workflow',
+    icon: Workflow,
+    description: 'Child process: Starts another workflow template on this project (e.g., video production) and continues once it completes.',
+    bgColor: 'bg-sky-50',
+    borderColor: 'border-sky-500',
+  },
   {
     type: 'end',
     label: 'End',
@@ -119,15 +159,17 @@ export function NodeSidebar() {
             <li><strong>Sequential:</strong> Role → Role → Role → End</li>
             <li><strong>Quality Gate:</strong> Role → Approval → End</li>
             <li><strong>Smart Routing:</strong> Form → Conditional → different End paths</li>
+            <li><strong>Parallel Work:</strong> Fork → Design &amp; Copy (Roles) → Join → Review</li>
           </ul>
         </div>
 
         <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
           <p className="text-xs font-semibold text-green-900 mb-2">Workflow Rules</p>
           <ul className="text-xs text-green-800 space-y-1">
-            <li>✓ Workflows follow ONE main path</li>
+            <li>✓ Workflows follow ONE main path, except between a Fork and its Join</li>
             <li>✓ Approval nodes: approved goes forward, rejected can loop back</li>
             <li>✓ Conditional nodes route to ONE path based on logic</li>
+            <li>✓ Every Fork branch must end at the same Join</li>
             <li>✓ Every workflow needs Start + End</li>
             <li>✓ All nodes must be connected</li>
           </ul>
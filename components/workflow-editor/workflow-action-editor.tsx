@@ -0,0 +1,303 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  WORKFLOW_ACTION_LABELS,
+  PROJECT_STATUSES,
+  PROJECT_PRIORITIES,
+  UPDATE_TEMPLATE_PLACEHOLDERS,
+  getActionConfigError,
+  type WorkflowActionConfig,
+  type WorkflowActionTask,
+  type WorkflowActionType,
+  type ProjectStatus,
+  type ProjectPriority,
+} from '@/lib/workflow-action-service';
+
+interface ActionUser {
+  id: string;
+  name: string;
+}
+
+interface WorkflowActionEditorProps {
+  actions: WorkflowActionConfig[];
+  onChange: (actions: WorkflowActionConfig[]) => void;
+  users: ActionUser[];
+}
+
+const NONE = '__none__';
+
+function formatOption(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).replace('_', ' ');
+}
+
+function newAction(type: WorkflowActionType): WorkflowActionConfig {
+  const action: WorkflowActionConfig = { id: uuidv4(), type };
+  if (type === 'create_tasks') action.tasks = [{ name: '', dueInDays: 1, dueUnit: 'business_days' }];
+  if (type === 'post_update') action.updateTemplate = '';
+  if (type === 'add_stakeholders') action.stakeholders = [];
+  return action;
+}
+
+function TaskChecklistEditor({
+  tasks,
+  onChange,
+}: {
+  tasks: WorkflowActionTask[];
+  onChange: (tasks: WorkflowActionTask[]) => void;
+}) {
+  const updateTask = (index: number, patch: Partial<WorkflowActionTask>) =>
+    onChange(tasks.map((task, i) => (i === index ? { ...task, ...patch } : task)));
+
+  return (
+    <div className="space-y-2">
+      {tasks.map((task, index) => (
+        <div key={index} className="grid grid-cols-12 gap-2 items-end">
+          <div className="col-span-5 space-y-1">
+            {index === 0 && <Label className="text-xs">Task</Label>}
+            <Input
+              className="h-8 text-xs"
+              value={task.name}
+              onChange={(e) => updateTask(index, { name: e.target.value })}
+              placeholder="e.g., Send kickoff email"
+            />
+          </div>
+          <div className="col-span-2 space-y-1">
+            {index === 0 && <Label className="text-xs">Due in</Label>}
+            <Input
+              className="h-8 text-xs"
+              type="number"
+              min={0}
+              value={task.dueInDays ?? ''}
+              onChange={(e) => updateTask(index, { dueInDays: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+          </div>
+          <div className="col-span-3 space-y-1">
+            {index === 0 && <Label className="text-xs">Unit</Label>}
+            <Select
+              value={task.dueUnit || 'days'}
+              onValueChange={(value) => updateTask(index, { dueUnit: value as 'days' | 'business_days' })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="business_days">Business days</SelectItem>
+                <SelectItem value="days">Calendar days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-1 space-y-1">
+            {index === 0 && <Label className="text-xs">Hrs</Label>}
+            <Input
+              className="h-8 text-xs px-1"
+              type="number"
+              min={0}
+              value={task.estimatedHours ?? ''}
+              onChange={(e) => updateTask(index, { estimatedHours: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="col-span-1 h-8 px-0"
+            onClick={() => onChange(tasks.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => onChange([...tasks, { name: '', dueInDays: 1, dueUnit: 'business_days' }])}
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Add task
+      </Button>
+      <p className="text-xs text-muted-foreground">Due dates are counted from when the workflow reaches this step.</p>
+    </div>
+  );
+}
+
+export function WorkflowActionEditor({ actions, onChange, users }: WorkflowActionEditorProps) {
+  const updateAction = (id: string, patch: Partial<WorkflowActionConfig>) =>
+    onChange(actions.map((action) => (action.id === id ? { ...action, ...patch } : action)));
+
+  const findUser = (id: string) => users.find((u) => u.id === id);
+
+  return (
+    <div className="space-y-3">
+      {actions.length === 0 && (
+        <p className="text-xs text-muted-foreground">No actions yet. Actions run in order when the workflow reaches this step.</p>
+      )}
+
+      {actions.map((action, index) => {
+        const configError = getActionConfigError(action);
+
+        return (
+          <div key={action.id} className="p-3 border rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">
+                {index + 1}. {WORKFLOW_ACTION_LABELS[action.type]}
+              </p>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => onChange(actions.filter((a) => a.id !== action.id))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {action.type === 'create_tasks' && (
+              <TaskChecklistEditor
+                tasks={action.tasks || []}
+                onChange={(tasks) => updateAction(action.id, { tasks })}
+              />
+            )}
+
+            {action.type === 'post_update' && (
+              <div className="space-y-2">
+                <Textarea
+                  rows={3}
+                  value={action.updateTemplate || ''}
+                  onChange={(e) => updateAction(action.id, { updateTemplate: e.target.value })}
+                  placeholder="e.g., {{project.name}} is ready for production."
+                />
+                <p className="text-xs text-muted-foreground">
+                  Placeholders: {UPDATE_TEMPLATE_PLACEHOLDERS.join(', ')}
+                </p>
+              </div>
+            )}
+
+            {action.type === 'set_project_fields' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Status</Label>
+                  <Select
+                    value={action.projectStatus || NONE}
+                    onValueChange={(value) =>
+                      updateAction(action.id, { projectStatus: value === NONE ? undefined : (value as ProjectStatus) })
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Leave unchanged</SelectItem>
+                      {PROJECT_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>{formatOption(status)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Priority</Label>
+                  <Select
+                    value={action.projectPriority || NONE}
+                    onValueChange={(value) =>
+                      updateAction(action.id, { projectPriority: value === NONE ? undefined : (value as ProjectPriority) })
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Leave unchanged</SelectItem>
+                      {PROJECT_PRIORITIES.map((priority) => (
+                        <SelectItem key={priority} value={priority}>{formatOption(priority)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {action.type === 'add_stakeholders' && (
+              <div className="space-y-2">
+                <div className="max-h-40 overflow-y-auto border rounded p-2 space-y-1">
+                  {users.map((user) => {
+                    const checked = (action.stakeholders || []).some((s) => s.id === user.id);
+                    return (
+                      <label key={user.id} className="flex items-center gap-2 text-xs">
+                        <Checkbox
+                          checked={checked}
+                          onCheckedChange={(value) =>
+                            updateAction(action.id, {
+                              stakeholders: value === true
+                                ? [...(action.stakeholders || []), { id: user.id, name: user.name }]
+                                : (action.stakeholders || []).filter((s) => s.id !== user.id),
+                            })
+                          }
+                        />
+                        {user.name}
+                      </label>
+                    );
+                  })}
+                  {users.length === 0 && <p className="text-xs text-muted-foreground">Loading users...</p>}
+                </div>
+                <Input
+                  className="h-8 text-xs"
+                  value={action.stakeholderRole || ''}
+                  onChange={(e) => updateAction(action.id, { stakeholderRole: e.target.value })}
+                  placeholder="Stakeholder role (optional), e.g., Reviewer"
+                />
+              </div>
+            )}
+
+            {action.type === 'assign_account_user' && (
+              <div className="space-y-1">
+                <Label className="text-xs">User to add to the project&apos;s account</Label>
+                <Select
+                  value={action.accountUser?.id || ''}
+                  onValueChange={(value) =>
+                    updateAction(action.id, { accountUser: { id: value, name: findUser(value)?.name } })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue placeholder={action.accountUser?.name || 'Select user'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {configError && <p className="text-xs text-amber-600">{configError}</p>}
+          </div>
+        );
+      })}
+
+      <Select value="" onValueChange={(value) => onChange([...actions, newAction(value as WorkflowActionType)])}>
+        <SelectTrigger>
+          <SelectValue placeholder="+ Add action" />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(WORKFLOW_ACTION_LABELS) as WorkflowActionType[]).map((type) => (
+            <SelectItem key={type} value={type}>{WORKFLOW_ACTION_LABELS[type]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
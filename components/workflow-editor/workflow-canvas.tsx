@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useRef, DragEvent } from 'react';
+import { useState, useCallback, useRef, useMemo, DragEvent } from 'react';
 import {
   ReactFlow,
   Node,
@@ -27,6 +27,7 @@ import { NodeConfigDialog } from './node-config-dialog';
 import { LabeledEdge, LabeledEdgeData } from './labeled-edge';
 import { EdgeConfigDialog } from './edge-config-dialog';
 import { WorkflowTutorialDialog } from './workflow-tutorial-dialog';
+import { WorkflowSimulationPanel } from './workflow-simulation-panel';
 import { Button } from '@/components/ui/button';
 import {
   AlertDialog,
@@ -38,9 +39,17 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Save, Trash2, BookOpen } from 'lucide-react';
+import { Save, Trash2, BookOpen, FlaskConical } from 'lucide-react';
 import { toast } from 'sonner';
-import { validateWorkflow } from '@/lib/workflow-validation';
+import { validateWorkflow, type SubworkflowReferenceMap } from '@/lib/workflow-validation';
+import {
+  buildSimulationModel,
+  startSimulation,
+  advanceSimulation,
+  SimulationModel,
+  SimulationState,
+  SimulationInput,
+} from '@/lib/workflow-simulation';
 
 interface Department {
   id: string;
@@ -60,6 +69,10 @@ interface WorkflowCanvasProps {
   initialEdges?: Edge[];
   departments: Department[];
   roles: Role[];
+  // Other templates a sub-workflow node can start
+  workflowTemplates?: { id: string; name: string }[];
+  // Sub-workflow references of other templates, for cross-template cycle detection
+  subworkflowReferences?: SubworkflowReferenceMap;
   onSave?: (nodes: Node<WorkflowNodeData>[], edges: Edge[]) => Promise<void>;
 }
 
@@ -85,11 +98,13 @@ const defaultEdgeOptions = {
 };
 
 function WorkflowCanvasInner({
-  templateId: _templateId,
+  templateId,
   initialNodes = [],
   initialEdges = [],
   departments,
   roles,
+  workflowTemplates = [],
+  subworkflowReferences,
   onSave,
 }: WorkflowCanvasProps) {
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
@@ -104,6 +119,10 @@ function WorkflowCanvasInner({
   const [pendingConnection, setPendingConnection] = useState<Connection | null>(null);
   const [tutorialDialogOpen, setTutorialDialogOpen] = useState(false);
   const [clearDialogOpen, setClearDialogOpen] = useState(false);
+  const [simulationModel, setSimulationModel] = useState<SimulationModel | null>(null);
+  const [simulation, setSimulation] = useState<SimulationState | null>(null);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const simulating = simulation !== null;
 
   const onConnect = useCallback(
     (params: Connection) => {
@@ -181,10 +200,15 @@ function WorkflowCanvasInner({
         return;
       }
 
-      // NOTE: Sync nodes are deprecated (parallel workflows disabled)
-      // Legacy sync nodes will be blocked by validation
+      // CASE 4: A join (sync) node's second exit - ask which aggregate decision
+      // takes it. A single exit is a plain continuation.
+      if (sourceNode?.data.type === 'sync' && edges.some((e) => e.source === params.source)) {
+        setPendingConnection(params);
+        setEdgeConfigDialogOpen(true);
+        return;
+      }
 
-      // CASE 4: All other connections - no dialog, just connect with curved style
+      // CASE 5: All other connections - no dialog, just connect with curved style
       const newEdge: Edge = {
         id: uuidv4(),
         source: params.source!,
@@ -196,7 +220,7 @@ function WorkflowCanvasInner({
       };
       setEdges((eds) => addEdge(newEdge, eds));
     },
-    [nodes, setEdges]
+    [nodes, edges, setEdges]
   );
 
   const handleEdgeConfigSave = useCallback(
@@ -255,7 +279,7 @@ function WorkflowCanvasInner({
       setNodes((nds) => nds.concat(newNode));
 
       // Open config dialog for nodes that need configuration
-      if (['department', 'role', 'approval'].includes(type)) {
+      if (['department', 'role', 'approval', 'timer', 'action', 'subworkflow'].includes(type)) {
         setSelectedNodeForConfig(newNodeId);
         setConfigDialogOpen(true);
       }
@@ -319,7 +343,7 @@ function WorkflowCanvasInner({
     // Run comprehensive workflow validation
     // Note: Role user count validation is NOT done here - workflows can be saved
     // even if roles don't have users yet. The validation happens when ACTIVATING.
-    const validation = validateWorkflow(nodes, edges);
+    const validation = validateWorkflow(nodes, edges, { templateId, subworkflowReferences });
 
     // Show errors first (blocking)
     if (!validation.valid) {
@@ -357,6 +381,14 @@ function WorkflowCanvasInner({
         unconfiguredNodes.push({ node, reason: 'Role not selected' });
       } else if (node.data.type === 'approval' && !node.data.config?.approverRoleId) {
         unconfiguredNodes.push({ node, reason: 'Approver role not selected' });
+      } else if (node.data.type === 'timer') {
+        if (node.data.config?.timerMode === 'date' ? !node.data.config?.timerDateField : !node.data.config?.timerDuration) {
+          unconfiguredNodes.push({ node, reason: 'Timer duration or date not set' });
+        }
+      } else if (node.data.type === 'action' && !node.data.config?.actions?.length) {
+        unconfiguredNodes.push({ node, reason: 'No actions configured' });
+      } else if (node.data.type === 'subworkflow' && !node.data.config?.subworkflowTemplateId) {
+        unconfiguredNodes.push({ node, reason: 'Sub-workflow template not selected' });
       } else if (node.data.type === 'form') {
         if (!node.data.config?.formName || !node.data.config?.formName.trim()) {
           unconfiguredNodes.push({ node, reason: 'Form name is required' });
@@ -405,6 +437,69 @@ function WorkflowCanvasInner({
     setEdges((eds) => eds.filter((edge:any) => !edge.selected));
   }, [setNodes, setEdges]);
 
+  const handleStartSimulation = useCallback(() => {
+    const validation = validateWorkflow(nodes, edges, { templateId, subworkflowReferences });
+    if (!validation.valid) {
+      // Still allow the dry run - seeing where an invalid workflow goes wrong is the point
+      toast.warning(`Workflow has validation errors:\n${validation.errors.map((e) => e.message).join('\n')}`, { duration: 6000 });
+    }
+
+    // Simulate against a frozen copy so edits can't change the model mid-run
+    const model = buildSimulationModel(nodes, edges);
+    const result = startSimulation(model);
+    if (!result.state) {
+      toast.error(result.error || 'Could not start simulation');
+      return;
+    }
+
+    setSimulationModel(model);
+    setSimulation(result.state);
+    setSimulationError(null);
+  }, [nodes, edges, templateId, subworkflowReferences]);
+
+  const handleAdvanceSimulation = useCallback((stepId: string, input: SimulationInput) => {
+    if (!simulationModel || !simulation) return;
+
+    const result = advanceSimulation(simulationModel, simulation, stepId, input);
+    if (result.state) {
+      setSimulation(result.state);
+      setSimulationError(null);
+    } else {
+      setSimulationError(result.error || 'Simulation step failed');
+    }
+  }, [simulationModel, simulation]);
+
+  const handleExitSimulation = useCallback(() => {
+    setSimulation(null);
+    setSimulationModel(null);
+    setSimulationError(null);
+  }, []);
+
+  // Overlay the simulation trace on the canvas without touching saved node/edge data
+  const displayNodes = useMemo((): Node<WorkflowNodeData>[] => {
+    if (!simulation) return nodes;
+    return nodes.map((node) => {
+      const steps = simulation.steps.filter((s) => s.node_id === node.id);
+      const state: WorkflowNodeData['simulation'] = steps.some((s) => s.status === 'active')
+        ? 'active'
+        : steps.some((s) => s.status === 'waiting')
+          ? 'waiting'
+          : simulation.visitedNodeIds.includes(node.id)
+            ? 'visited'
+            : undefined;
+      return state ? { ...node, data: { ...node.data, simulation: state } } : node;
+    });
+  }, [nodes, simulation]);
+
+  const displayEdges = useMemo(() => {
+    if (!simulation) return edges;
+    return edges.map((edge) =>
+      simulation.traversedEdgeIds.includes(edge.id)
+        ? { ...edge, animated: true, data: { ...edge.data, simulated: true } }
+        : edge
+    );
+  }, [edges, simulation]);
+
   const selectedNode = nodes.find((n:any) => n.id === selectedNodeForConfig);
 
   return (
@@ -412,14 +507,16 @@ function WorkflowCanvasInner({
       <NodeSidebar />
       <div className="flex-1 relative" ref={reactFlowWrapper}>
         <ReactFlow
-          nodes={nodes}
-          edges={edges}
+          nodes={displayNodes}
+          edges={displayEdges}
           onNodesChange={onNodesChange}
-          onEdgesChange={onEdgesChange}
-          onConnect={onConnect}
-          onDrop={onDrop}
+          onEdgesChange={simulating ? undefined : onEdgesChange}
+          onConnect={simulating ? undefined : onConnect}
+          onDrop={simulating ? undefined : onDrop}
           onDragOver={onDragOver}
-          onNodeDoubleClick={onNodeDoubleClick}
+          onNodeDoubleClick={simulating ? undefined : onNodeDoubleClick}
+          nodesConnectable={!simulating}
+          deleteKeyCode={simulating ? null : undefined}
           nodeTypes={nodeTypes}
           edgeTypes={edgeTypes}
           defaultEdgeOptions={defaultEdgeOptions}
@@ -430,6 +527,12 @@ function WorkflowCanvasInner({
           <Controls />
 
           <Panel position="top-right" className="flex gap-2">
+            {simulating ? (
+              <span className="px-2 py-1 text-xs font-medium bg-violet-100 text-violet-700 rounded">
+                Simulation mode - editing disabled
+              </span>
+            ) : (
+            <>
             <Button
               onClick={handleSave}
               disabled={saving}
@@ -451,6 +554,12 @@ function WorkflowCanvasInner({
               <BookOpen className="w-4 h-4 mr-1" />
               Tutorial
             </Button>
+            <Button onClick={handleStartSimulation} size="sm" variant="outline" disabled={nodes.length === 0}>
+              <FlaskConical className="w-4 h-4 mr-1" />
+              Simulate
+            </Button>
+            </>
+            )}
           </Panel>
         </ReactFlow>
 
@@ -464,6 +573,7 @@ function WorkflowCanvasInner({
           onSave={handleConfigSave}
           departments={departments}
           roles={roles}
+          workflowTemplates={workflowTemplates}
         />
 
         <EdgeConfigDialog
@@ -474,7 +584,11 @@ function WorkflowCanvasInner({
               ? nodes.find((n:any) => n.id === pendingConnection.source)?.data.type || 'approval'
               : 'approval'
           }
-          conditionType="approval_decision"
+          conditionType={
+            pendingConnection?.source && nodes.find((n:any) => n.id === pendingConnection.source)?.data.type === 'sync'
+              ? 'sync_aggregate_decision'
+              : 'approval_decision'
+          }
           onSave={handleEdgeConfigSave}
         />
 
@@ -500,6 +614,16 @@ function WorkflowCanvasInner({
           </AlertDialogContent>
         </AlertDialog>
       </div>
+      {simulation && (
+        <WorkflowSimulationPanel
+          nodes={nodes}
+          state={simulation}
+          error={simulationError}
+          onAdvance={handleAdvanceSimulation}
+          onRestart={handleStartSimulation}
+          onExit={handleExitSimulation}
+        />
+      )}
     </div>
   );
 }
@@ -2,10 +2,13 @@
 
 import { memo } from 'react';
 import { Handle, Position, NodeProps } from '@xyflow/react';
-import { Users, UserCheck, Play, Flag, FileText, GitMerge, Combine, Building2, LucideIcon } from 'lucide-react';
+import { Users, UserCheck, Play, Flag, FileText, GitMerge, Combine, Split, Building2, Timer, Zap, Workflow, LucideIcon } from 'lucide-react';
+import type { WorkflowActionConfig } from '@/lib/workflow-action-service';
+import type { RequiredSkill } from '@/lib/skills';
 
-// Note: 'department' and 'sync' kept for backwards compatibility with existing workflows
-export type WorkflowNodeType = 'start' | 'department' | 'role' | 'approval' | 'form' | 'conditional' | 'sync' | 'end' | 'client';
+// Note: 'department' kept for backwards compatibility with existing workflows
+// 'sync' is the Join node that closes a Fork
+export type WorkflowNodeType = 'start' | 'department' | 'role' | 'approval' | 'form' | 'conditional' | 'fork' | 'sync' | 'timer' | 'action' | 'subworkflow' | 'end' | 'client';
 
 export interface WorkflowNodeData {
   label: string;
@@ -17,9 +20,14 @@ export interface WorkflowNodeData {
     // Role config
     roleId?: string;
     roleName?: string;
+    // Skills wanted for the step, used to suggest who to assign (role nodes)
+    requiredSkills?: RequiredSkill[];
     approverRoleId?: string;
     approverRoleName?: string;
     requiredApprovals?: number;
+    // Multi-approver quorum (approval nodes)
+    approvalQuorumMode?: 'single' | 'n_of_m' | 'all';
+    rejectOnAnyRejection?: boolean;
     // Form node config
     formTemplateId?: string;
     formTemplateName?: string;
@@ -42,7 +50,32 @@ export interface WorkflowNodeData {
     // Approval feedback
     allowFeedback?: boolean;
     allowSendBack?: boolean;
+    // SLA / escalation (role and approval nodes)
+    slaHours?: number;
+    slaHourType?: 'business' | 'calendar';
+    escalationTarget?: 'reporting_role' | 'user';
+    escalationUserId?: string;
+    escalationUserName?: string;
+    // Timer node config
+    timerMode?: 'duration' | 'date';
+    timerDuration?: number;
+    timerUnit?: 'hours' | 'days' | 'business_days';
+    timerDateSource?: 'project' | 'form';
+    timerDateField?: string;
+    timerDateFieldLabel?: string;
+    // Action node config
+    actions?: WorkflowActionConfig[];
+    // Sub-workflow node config
+    subworkflowTemplateId?: string;
+    subworkflowTemplateName?: string;
+    subworkflowPassDataDown?: boolean;
+    subworkflowPassDataUp?: boolean;
+    // Join (sync) node config
+    joinPolicy?: 'all' | 'any' | 'n_of_m';
+    joinRequiredBranches?: number;
   };
+  // Set by the canvas while a simulation is running (never saved)
+  simulation?: 'active' | 'waiting' | 'visited';
   [key: string]: unknown;
 }
 
@@ -84,12 +117,35 @@ const nodeStyles: Record<WorkflowNodeType, { bg: string; border: string; icon: L
     icon: GitMerge,
     description: 'Smart routing: Takes ONE path based on conditions. Only one path is executed.',
   },
+  timer: {
+    bg: 'bg-indigo-50',
+    border: 'border-indigo-500',
+    icon: Timer,
+    description: 'Wait step: Pauses until a duration passes or a project/form date is reached, then continues automatically.',
+  },
+  action: {
+    bg: 'bg-teal-50',
+    border: 'border-teal-500',
+    icon: Zap,
+    description: 'Automation: Creates tasks, posts updates or changes the project when reached, then continues automatically.',
+  },
+  subworkflow: {
+    bg: 'bg-sky-50',
+    border: 'border-sky-500',
+    icon: Workflow,
+    description: 'Sub-workflow: Starts another workflow template on this project and continues when it completes.',
+  },
+  fork: {
+    bg: 'bg-orange-50',
+    border: 'border-orange-500',
+    icon: Split,
+    description: 'Parallel split: Starts every outgoing path at once. Close the branches with a Join.',
+  },
   sync: {
-    // Legacy - kept for backwards compatibility (parallel workflows disabled)
-    bg: 'bg-gray-100',
-    border: 'border-gray-400',
+    bg: 'bg-violet-50',
+    border: 'border-violet-500',
     icon: Combine,
-    description: 'Legacy sync node. Parallel workflows are disabled.',
+    description: 'Join: Waits for the branches of a Fork (all, any or N of them) before continuing.',
   },
   end: {
     bg: 'bg-gray-50',
@@ -117,6 +173,9 @@ export const WorkflowNode = memo(({ data, selected }: NodeProps) => {
         px-4 py-3 rounded-lg border-2 shadow-md min-w-[180px] relative
         ${style.bg} ${style.border}
         ${selected ? 'ring-2 ring-offset-2 ring-blue-500' : ''}
+        ${nodeData.simulation === 'active' ? 'ring-4 ring-offset-2 ring-violet-500 animate-pulse' : ''}
+        ${nodeData.simulation === 'waiting' ? 'ring-4 ring-offset-2 ring-amber-400' : ''}
+        ${nodeData.simulation === 'visited' ? 'ring-2 ring-offset-2 ring-violet-300' : ''}
         transition-all duration-200 hover:shadow-lg
       `}
     >
@@ -147,6 +206,13 @@ export const WorkflowNode = memo(({ data, selected }: NodeProps) => {
                 Approver: {nodeData.config.approverRoleName}
               </div>
             )}
+            {nodeData.type === 'approval' && nodeData.config?.approvalQuorumMode && nodeData.config.approvalQuorumMode !== 'single' && (
+              <div className="text-xs text-gray-600 truncate">
+                {nodeData.config.approvalQuorumMode === 'all'
+                  ? 'All must approve'
+                  : `${nodeData.config.requiredApprovals || 1} approvals needed`}
+              </div>
+            )}
             {nodeData.config?.formTemplateName && (
               <div className="text-xs text-gray-600 truncate">Form: {nodeData.config.formTemplateName}</div>
             )}
@@ -157,6 +223,37 @@ export const WorkflowNode = memo(({ data, selected }: NodeProps) => {
                 {nodeData.config.conditionType === 'custom' && 'Custom routing'}
               </div>
             )}
+            {nodeData.type === 'timer' && nodeData.config && (
+              <div className="text-xs text-gray-600 truncate">
+                {nodeData.config.timerMode === 'date'
+                  ? `Until ${nodeData.config.timerDateFieldLabel || nodeData.config.timerDateField || 'date'}`
+                  : `Wait ${nodeData.config.timerDuration ?? '?'} ${
+                      nodeData.config.timerUnit === 'hours' ? 'hours' : nodeData.config.timerUnit === 'days' ? 'days' : 'business days'
+                    }`}
+              </div>
+            )}
+            {nodeData.type === 'action' && nodeData.config?.actions?.length ? (
+              <div className="text-xs text-gray-600 truncate">
+                {nodeData.config.actions.length} action{nodeData.config.actions.length === 1 ? '' : 's'}
+              </div>
+            ) : null}
+            {nodeData.type === 'sync' && (
+              <div className="text-xs text-gray-600 truncate">
+                {nodeData.config?.joinPolicy === 'any'
+                  ? 'Waits for any branch'
+                  : nodeData.config?.joinPolicy === 'n_of_m'
+                    ? `Waits for ${nodeData.config.joinRequiredBranches || 1} branches`
+                    : 'Waits for all branches'}
+              </div>
+            )}
+            {nodeData.type === 'subworkflow' && nodeData.config?.subworkflowTemplateName && (
+              <div className="text-xs text-gray-600 truncate">Runs: {nodeData.config.subworkflowTemplateName}</div>
+            )}
+            {nodeData.config?.slaHours ? (
+              <div className="text-xs text-gray-600 truncate">
+                SLA: {nodeData.config.slaHours} {nodeData.config.slaHourType === 'calendar' ? 'hrs' : 'business hrs'}
+              </div>
+            ) : null}
           </div>
         </div>
 
@@ -0,0 +1,259 @@
+'use client';
+
+import { useState } from 'react';
+import { Node } from '@xyflow/react';
+import { WorkflowNodeData } from './workflow-node';
+import { FormField } from '@/components/inline-form-builder';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, X, Play, RotateCcw, LogOut, FlaskConical } from 'lucide-react';
+import type { SimulationState, SimulationInput } from '@/lib/workflow-simulation';
+import { WORKFLOW_ACTION_LABELS } from '@/lib/workflow-action-service';
+
+interface WorkflowSimulationPanelProps {
+  nodes: Node<WorkflowNodeData>[];
+  state: SimulationState;
+  error: string | null;
+  onAdvance: (stepId: string, input: SimulationInput) => void;
+  onRestart: () => void;
+  onExit: () => void;
+}
+
+const statusStyles: Record<SimulationState['status'], string> = {
+  running: 'bg-violet-100 text-violet-700',
+  completed: 'bg-green-100 text-green-700',
+  stuck: 'bg-red-100 text-red-700',
+};
+
+const eventStyles: Record<string, string> = {
+  approved: 'text-green-700',
+  rejected: 'text-red-700',
+  cancelled: 'text-red-600',
+  sync_waiting: 'text-amber-700',
+  sync_released: 'text-violet-700',
+  forked: 'text-violet-700',
+  conditional_routed: 'text-pink-700',
+  ended: 'text-gray-900 font-medium',
+};
+
+function SimulatedFormFields({
+  fields,
+  values,
+  onChange,
+}: {
+  fields: FormField[];
+  values: Record<string, unknown>;
+  onChange: (values: Record<string, unknown>) => void;
+}) {
+  const setValue = (fieldId: string, value: unknown) => onChange({ ...values, [fieldId]: value });
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-1">
+          <Label className="text-xs">{field.label}</Label>
+          {field.type === 'checkbox' ? (
+            <Checkbox
+              checked={values[field.id] === true}
+              onCheckedChange={(checked) => setValue(field.id, checked === true)}
+            />
+          ) : field.type === 'dropdown' && field.options?.length ? (
+            <Select
+              value={typeof values[field.id] === 'string' ? (values[field.id] as string) : ''}
+              onValueChange={(value) => setValue(field.id, value)}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Select..." />
+              </SelectTrigger>
+              <SelectContent>
+                {field.options.map((option) => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              className="h-8 text-xs"
+              type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+              placeholder={field.type === 'multiselect' ? 'Comma-separated values' : field.placeholder}
+              value={Array.isArray(values[field.id]) ? (values[field.id] as string[]).join(', ') : String(values[field.id] ?? '')}
+              onChange={(e) =>
+                setValue(
+                  field.id,
+                  field.type === 'multiselect'
+                    ? e.target.value.split(',').map((v) => v.trim()).filter(Boolean)
+                    : e.target.value
+                )
+              }
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function WorkflowSimulationPanel({
+  nodes,
+  state,
+  error,
+  onAdvance,
+  onRestart,
+  onExit,
+}: WorkflowSimulationPanelProps) {
+  const [projectName, setProjectName] = useState('');
+  const [formValues, setFormValues] = useState<Record<string, Record<string, unknown>>>({});
+
+  const activeSteps = state.steps.filter((s) => s.status === 'active');
+  const waitingSteps = state.steps.filter((s) => s.status === 'waiting');
+  const findNode = (nodeId: string) => nodes.find((n) => n.id === nodeId);
+
+  const advance = (stepId: string, input: SimulationInput) => {
+    onAdvance(stepId, input);
+    setFormValues((prev) => {
+      const next = { ...prev };
+      delete next[stepId];
+      return next;
+    });
+  };
+
+  return (
+    <div className="w-80 border-l border-gray-200 bg-white flex flex-col">
+      <div className="p-4 border-b border-gray-200 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold flex items-center gap-2">
+            <FlaskConical className="w-4 h-4 text-violet-600" />
+            Simulation
+          </h3>
+          <span className={`px-2 py-0.5 text-xs font-medium rounded ${statusStyles[state.status]}`}>
+            {state.status === 'running' ? 'Running' : state.status === 'completed' ? 'Completed' : 'Stuck'}
+          </span>
+        </div>
+        <p className="text-xs text-gray-500">
+          Dry run using the real routing rules. Nothing is saved and no one is notified.
+        </p>
+        <Input
+          className="h-8 text-xs"
+          placeholder="Hypothetical project name"
+          value={projectName}
+          onChange={(e) => setProjectName(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={onRestart} className="flex-1">
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Restart
+          </Button>
+          <Button size="sm" variant="outline" onClick={onExit} className="flex-1">
+            <LogOut className="w-3 h-3 mr-1" />
+            Exit
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-4">
+          {error && (
+            <div className="p-2 text-xs bg-red-50 border border-red-200 text-red-700 rounded">{error}</div>
+          )}
+
+          {state.status === 'stuck' && (
+            <div className="p-2 text-xs bg-red-50 border border-red-200 text-red-700 rounded">
+              No active steps remain but {waitingSteps.length} branch(es) are still waiting at a sync node.
+              A real instance would stall here.
+            </div>
+          )}
+
+          {activeSteps.map((step) => {
+            const node = findNode(step.node_id);
+            if (!node) return null;
+            const fields = (node.data.config?.formFields as unknown as FormField[] | undefined) || [];
+
+            return (
+              <div key={step.id} className="p-3 border border-violet-200 rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-sm truncate">{node.data.label}</span>
+                  <Badge variant="outline" className="text-[10px]">{step.branch_id}</Badge>
+                </div>
+                {projectName && (
+                  <p className="text-xs text-gray-500">Project: {projectName}</p>
+                )}
+
+                {node.data.type === 'approval' ? (
+                  <div className="flex gap-2">
+                    <Button size="sm" className="flex-1 bg-green-600 hover:bg-green-700" onClick={() => advance(step.id, { decision: 'approved' })}>
+                      <Check className="w-3 h-3 mr-1" />
+                      Approve
+                    </Button>
+                    <Button size="sm" variant="destructive" className="flex-1" onClick={() => advance(step.id, { decision: 'rejected' })}>
+                      <X className="w-3 h-3 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                ) : node.data.type === 'form' ? (
+                  <>
+                    <SimulatedFormFields
+                      fields={fields}
+                      values={formValues[step.id] || {}}
+                      onChange={(values) => setFormValues((prev) => ({ ...prev, [step.id]: values }))}
+                    />
+                    <Button size="sm" className="w-full" onClick={() => advance(step.id, { formData: formValues[step.id] || {} })}>
+                      <Play className="w-3 h-3 mr-1" />
+                      Submit form
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    {node.data.type === 'action' && (
+                      <ul className="text-xs text-gray-600 list-disc pl-4">
+                        {(node.data.config?.actions || []).map((action) => (
+                          <li key={action.id}>{WORKFLOW_ACTION_LABELS[action.type]} (not run)</li>
+                        ))}
+                      </ul>
+                    )}
+                    {node.data.type === 'sync' && step.aggregate_decision && (
+                      <p className="text-xs text-gray-600">Branch outcome: {step.aggregate_decision.replace('_', ' ')}</p>
+                    )}
+                    <Button size="sm" className="w-full" onClick={() => advance(step.id, {})}>
+                      <Play className="w-3 h-3 mr-1" />
+                      {node.data.type === 'timer'
+                        ? 'Skip wait'
+                        : node.data.type === 'action'
+                          ? 'Continue'
+                          : node.data.type === 'subworkflow'
+                            ? 'Complete sub-workflow'
+                            : 'Complete step'}
+                    </Button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          <div>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">Trace</h4>
+            <ol className="space-y-1 text-xs">
+              {state.trace.map((entry, index) => (
+                <li key={index} className={eventStyles[entry.event] || 'text-gray-700'}>
+                  <span className="text-gray-400 mr-1">{index + 1}.</span>
+                  {entry.message}
+                  {entry.branchId !== 'main' && <span className="text-gray-400"> [{entry.branchId}]</span>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
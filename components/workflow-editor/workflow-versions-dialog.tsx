@@ -0,0 +1,374 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Upload, ArrowRight, CheckCircle2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  suggestNodeMapping,
+  type NodeMapping,
+  type WorkflowTemplateVersionSummary,
+  type InstanceMigrationPlan,
+} from '@/lib/workflow-version-service';
+
+interface VersionNode {
+  id: string;
+  label: string;
+  node_type: string;
+}
+
+interface WorkflowVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templateId: string;
+  onPublished?: () => void;
+}
+
+const NO_EQUIVALENT = '__none__';
+
+export function WorkflowVersionsDialog({
+  open,
+  onOpenChange,
+  templateId,
+  onPublished,
+}: WorkflowVersionsDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [versions, setVersions] = useState<WorkflowTemplateVersionSummary[]>([]);
+  const [hasUnpublishedChanges, setHasUnpublishedChanges] = useState(false);
+  const [changeNotes, setChangeNotes] = useState('');
+  const [publishing, setPublishing] = useState(false);
+
+  // Migration state
+  const [migrateFrom, setMigrateFrom] = useState<WorkflowTemplateVersionSummary | null>(null);
+  const [fromNodes, setFromNodes] = useState<VersionNode[]>([]);
+  const [toNodes, setToNodes] = useState<VersionNode[]>([]);
+  const [nodeMapping, setNodeMapping] = useState<NodeMapping>({});
+  const [preview, setPreview] = useState<InstanceMigrationPlan[] | null>(null);
+  const [migrating, setMigrating] = useState(false);
+
+  const currentVersion = versions.find((v) => v.is_current) || null;
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/workflows/templates/${templateId}/versions`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load versions');
+      }
+      setVersions(data.versions || []);
+      setHasUnpublishedChanges(!!data.has_unpublished_changes);
+    } catch (error: unknown) {
+      console.error('Error loading workflow versions:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    if (open) {
+      loadVersions();
+      setMigrateFrom(null);
+      setPreview(null);
+    }
+  }, [open, loadVersions]);
+
+  const handlePublish = async () => {
+    setPublishing(true);
+    try {
+      const response = await fetch(`/api/admin/workflows/templates/${templateId}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ change_notes: changeNotes }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to publish workflow');
+      }
+      toast.success(`Published version ${data.version.version_number}`);
+      setChangeNotes('');
+      await loadVersions();
+      onPublished?.();
+    } catch (error: unknown) {
+      console.error('Error publishing workflow:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to publish workflow');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const startMigration = async (fromVersion: WorkflowTemplateVersionSummary) => {
+    if (!currentVersion) return;
+
+    setMigrateFrom(fromVersion);
+    setPreview(null);
+    try {
+      const [fromRes, toRes] = await Promise.all([
+        fetch(`/api/admin/workflows/templates/${templateId}/versions/${fromVersion.id}`),
+        fetch(`/api/admin/workflows/templates/${templateId}/versions/${currentVersion.id}`),
+      ]);
+      const [fromData, toData] = await Promise.all([fromRes.json(), toRes.json()]);
+      if (!fromData.success || !toData.success) {
+        throw new Error(fromData.error || toData.error || 'Failed to load versions');
+      }
+
+      const from = (fromData.version.nodes || []) as VersionNode[];
+      const to = (toData.version.nodes || []) as VersionNode[];
+      setFromNodes(from);
+      setToNodes(to);
+      setNodeMapping(suggestNodeMapping(
+        from as unknown as Record<string, unknown>[],
+        to as unknown as Record<string, unknown>[]
+      ));
+    } catch (error: unknown) {
+      console.error('Error preparing migration:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to prepare migration');
+      setMigrateFrom(null);
+    }
+  };
+
+  const runMigration = async (dryRun: boolean) => {
+    if (!currentVersion || !migrateFrom) return;
+
+    setMigrating(true);
+    try {
+      const response = await fetch(`/api/admin/workflows/templates/${templateId}/versions/migrate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          to_version_id: currentVersion.id,
+          node_mapping: nodeMapping,
+          // Only migrate the instances that were previewed for this version
+          instance_ids: dryRun ? undefined : (preview || []).map((i) => i.instanceId),
+          dry_run: dryRun,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Migration failed');
+      }
+
+      if (dryRun) {
+        setPreview((data.instances || []).filter((i: InstanceMigrationPlan) => i.fromVersionId === migrateFrom.id));
+        return;
+      }
+
+      const failedCount = data.failed?.length || 0;
+      if (failedCount > 0) {
+        toast.warning(`Migrated ${data.migrated.length} instance(s); ${failedCount} could not be migrated`);
+      } else {
+        toast.success(`Migrated ${data.migrated.length} instance(s) to v${currentVersion.version_number}`);
+      }
+      setMigrateFrom(null);
+      setPreview(null);
+      await loadVersions();
+    } catch (error: unknown) {
+      console.error('Error migrating instances:', error);
+      toast.error(error instanceof Error ? error.message : 'Migration failed');
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  // Only nodes that don't exist (by ID) in the target version need a manual mapping
+  const toNodeIds = new Set(toNodes.map((n) => n.id));
+  const unmatchedFromNodes = fromNodes.filter((n) => !toNodeIds.has(n.id) && n.node_type !== 'start');
+  const migratableCount = preview?.filter((i) => i.canMigrate).length || 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Versions</DialogTitle>
+          <DialogDescription>
+            Edits are saved as a draft. Publish the draft to use it for new projects; running projects stay on
+            the version they started with until you migrate them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : migrateFrom && currentVersion ? (
+          <div className="space-y-4 py-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Badge variant="outline">v{migrateFrom.version_number}</Badge>
+              <ArrowRight className="w-4 h-4" />
+              <Badge>v{currentVersion.version_number}</Badge>
+              <span className="text-gray-500 font-normal">
+                ({migrateFrom.active_instance_count} active instance{migrateFrom.active_instance_count === 1 ? '' : 's'})
+              </span>
+            </div>
+
+            {unmatchedFromNodes.length > 0 ? (
+              <div className="space-y-2">
+                <Label>Map removed or changed steps</Label>
+                {unmatchedFromNodes.map((node) => (
+                  <div key={node.id} className="grid grid-cols-2 gap-2 items-center">
+                    <span className="text-sm truncate" title={node.label}>
+                      {node.label} <span className="text-xs text-gray-500">({node.node_type})</span>
+                    </span>
+                    <Select
+                      value={nodeMapping[node.id] || NO_EQUIVALENT}
+                      onValueChange={(value) => {
+                        setNodeMapping({ ...nodeMapping, [node.id]: value === NO_EQUIVALENT ? null : value });
+                        setPreview(null);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_EQUIVALENT}>No equivalent</SelectItem>
+                        {toNodes.filter((n) => n.node_type === node.node_type).map((n) => (
+                          <SelectItem key={n.id} value={n.id}>
+                            {n.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">Every step in v{migrateFrom.version_number} still exists in v{currentVersion.version_number}.</p>
+            )}
+
+            {preview && (
+              <div className="space-y-2">
+                <Label>Preview</Label>
+                {preview.length === 0 && (
+                  <p className="text-sm text-gray-600">No active instances on this version.</p>
+                )}
+                {preview.map((instance) => (
+                  <div key={instance.instanceId} className="flex items-start gap-2 text-sm">
+                    {instance.canMigrate ? (
+                      <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                    ) : (
+                      <XCircle className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+                    )}
+                    <div>
+                      <p className="font-medium">{instance.projectName || instance.instanceId}</p>
+                      {instance.canMigrate ? (
+                        <p className="text-xs text-gray-600">
+                          {instance.steps.map((s) => `${s.fromNodeLabel} → ${s.toNodeLabel}`).join(', ') || 'No active steps'}
+                        </p>
+                      ) : (
+                        <ul className="text-xs text-red-700 list-disc list-inside">
+                          {instance.reasons.map((reason) => (
+                            <li key={reason}>{reason}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2 p-3 border rounded-lg">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="change-notes">Publish draft</Label>
+                {hasUnpublishedChanges ? (
+                  <Badge variant="secondary">Unpublished changes</Badge>
+                ) : (
+                  <span className="text-xs text-gray-500">Draft matches the current version</span>
+                )}
+              </div>
+              <Textarea
+                id="change-notes"
+                value={changeNotes}
+                onChange={(e) => setChangeNotes(e.target.value)}
+                placeholder="What changed in this version? (optional)"
+                rows={2}
+              />
+              <Button onClick={handlePublish} disabled={publishing} size="sm">
+                {publishing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                Publish v{(versions[0]?.version_number || 0) + 1}
+              </Button>
+            </div>
+
+            {versions.length === 0 ? (
+              <p className="text-sm text-gray-600">This workflow has not been published yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {versions.map((version) => (
+                  <div key={version.id} className="flex items-start justify-between gap-3 p-3 border rounded-lg">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">v{version.version_number}</span>
+                        {version.is_current && <Badge>Current</Badge>}
+                        <span className="text-xs text-gray-500">
+                          {new Date(version.published_at).toLocaleString()}
+                          {version.published_by_name && ` by ${version.published_by_name}`}
+                        </span>
+                      </div>
+                      {version.change_notes && (
+                        <p className="text-sm text-gray-600 mt-1">{version.change_notes}</p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        {version.node_count} nodes · {version.active_instance_count} active instance{version.active_instance_count === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    {!version.is_current && version.active_instance_count > 0 && currentVersion && (
+                      <Button variant="outline" size="sm" onClick={() => startMigration(version)}>
+                        Migrate to v{currentVersion.version_number}
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {migrateFrom ? (
+            <>
+              <Button variant="outline" onClick={() => { setMigrateFrom(null); setPreview(null); }} disabled={migrating}>
+                Back
+              </Button>
+              {preview ? (
+                <Button onClick={() => runMigration(false)} disabled={migrating || migratableCount === 0}>
+                  {migrating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Migrate {migratableCount} instance{migratableCount === 1 ? '' : 's'}
+                </Button>
+              ) : (
+                <Button onClick={() => runMigration(true)} disabled={migrating}>
+                  {migrating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Preview migration
+                </Button>
+              )}
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
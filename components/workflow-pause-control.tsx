@@ -0,0 +1,197 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Pause, Play, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { createClientSupabase } from '@/lib/supabase';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { hasPermission } from '@/lib/rbac';
+import { Permission } from '@/lib/permissions';
+
+interface WorkflowPauseControlProps {
+  projectId: string;
+  workflowInstanceId: string | null;
+  onChange?: () => void;
+}
+
+/**
+ * Pause / resume button for a project's workflow (e.g. client on hold).
+ * Only shown to users who can manage workflows.
+ */
+export function WorkflowPauseControl({ projectId, workflowInstanceId, onChange }: WorkflowPauseControlProps) {
+  const { userProfile } = useAuth();
+  const [canManageWorkflows, setCanManageWorkflows] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [pauseReason, setPauseReason] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    async function checkPermissions() {
+      if (!userProfile) {
+        setCanManageWorkflows(false);
+        return;
+      }
+      try {
+        setCanManageWorkflows(await hasPermission(userProfile, Permission.MANAGE_WORKFLOWS, { projectId }));
+      } catch (error: unknown) {
+        console.error('Error checking workflow permissions:', error);
+        setCanManageWorkflows(false);
+      }
+    }
+
+    checkPermissions();
+  }, [userProfile, projectId]);
+
+  const loadStatus = useCallback(async () => {
+    if (!workflowInstanceId) return;
+    const supabase = createClientSupabase() as any;
+    if (!supabase) return;
+
+    const { data, error } = await supabase
+      .from('workflow_instances')
+      .select('status, pause_reason')
+      .eq('id', workflowInstanceId)
+      .single();
+
+    if (error) {
+      console.error('Error loading workflow status:', error);
+      return;
+    }
+    setStatus(data?.status || null);
+    setPauseReason(data?.pause_reason || null);
+  }, [workflowInstanceId]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handlePause = async () => {
+    if (!workflowInstanceId) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/workflows/instances/${workflowInstanceId}/pause`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: reason.trim() || null }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to pause workflow');
+        return;
+      }
+
+      toast.success('Workflow paused');
+      setDialogOpen(false);
+      setReason('');
+      await loadStatus();
+      onChange?.();
+    } catch (error: unknown) {
+      toast.error('Failed to pause workflow');
+      console.error('Error pausing workflow:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleResume = async () => {
+    if (!workflowInstanceId) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/workflows/instances/${workflowInstanceId}/resume`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to resume workflow');
+        return;
+      }
+
+      toast.success('Workflow resumed');
+      await loadStatus();
+      onChange?.();
+    } catch (error: unknown) {
+      toast.error('Failed to resume workflow');
+      console.error('Error resuming workflow:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!workflowInstanceId || !canManageWorkflows || (status !== 'active' && status !== 'paused')) {
+    return null;
+  }
+
+  if (status === 'paused') {
+    return (
+      <Button
+        variant="outline"
+        size="lg"
+        className="gap-2"
+        onClick={handleResume}
+        disabled={submitting}
+        title={pauseReason ? `Paused: ${pauseReason}` : undefined}
+      >
+        {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+        Resume Workflow
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="lg" className="gap-2" onClick={() => setDialogOpen(true)}>
+        <Pause className="w-4 h-4" />
+        Pause
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pause Workflow</DialogTitle>
+            <DialogDescription>
+              Nobody can progress a paused workflow, and SLA deadlines and timers stop counting until it&apos;s resumed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="pause-reason">Reason (optional)</Label>
+            <Textarea
+              id="pause-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Client on hold until budget is approved"
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handlePause} disabled={submitting}>
+              {submitting ? 'Pausing...' : 'Pause Workflow'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -24,12 +24,31 @@ import {
 } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
-import { ArrowRight, CheckCircle2, XCircle, Send, Loader2, FileText, Clock, User } from 'lucide-react';
+import { ArrowRight, CheckCircle2, XCircle, Send, Loader2, FileText, Clock, User, Undo2, PauseCircle, Workflow, Save } from 'lucide-react';
 import { toast } from 'sonner';
 import { createClientSupabase } from '@/lib/supabase';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { hasPermission } from '@/lib/rbac';
 import { Permission } from '@/lib/permissions';
+import { getApprovalQuorumSettings } from '@/lib/workflow-approval-quorum';
+import { allowsSendBack, getSendBackTargets, type SendBackTarget } from '@/lib/workflow-send-back';
+import { getAttachmentIdsFromFormData, getWorkflowAttachmentRefs, type WorkflowAttachmentRef } from '@/lib/workflow-attachments';
+import { WorkflowAttachmentUpload } from '@/components/workflow-attachments';
+import { FormFieldValue, StructuredFormFieldInput } from '@/components/form-field-inputs';
+import { getInitialFormValue, isEmptyFormValue } from '@/lib/form-field-types';
+import {
+  applyComputedFields,
+  getValidationRuleError,
+  isFieldVisible as isFormFieldVisible,
+  type FieldConditional,
+  type FormComputation,
+  type FormValidationRule,
+} from '@/lib/form-logic';
+import { withResponseVersion } from '@/lib/form-template-versions';
+import type { WorkflowFormDraft } from '@/lib/workflow-form-draft-service';
+
+// Quiet period after the last change before a draft is autosaved
+const DRAFT_AUTOSAVE_DELAY_MS = 1500;
 
 interface WorkflowProgressButtonProps {
   projectId: string;
@@ -48,7 +67,7 @@ interface WorkflowInstance {
   status: string;
   workflow_nodes?: {
     id: string;
-    node_type: 'start' | 'department' | 'role' | 'approval' | 'form' | 'conditional' | 'sync' | 'end';
+    node_type: 'start' | 'department' | 'role' | 'approval' | 'form' | 'conditional' | 'fork' | 'sync' | 'timer' | 'action' | 'subworkflow' | 'end';
     label: string;
     settings: Record<string, unknown>;
     entity_id: string | null;
@@ -79,22 +98,25 @@ interface User {
 
 interface FormField {
   id: string;
-  type: 'text' | 'number' | 'date' | 'dropdown' | 'multiselect' | 'file' | 'textarea' | 'email' | 'checkbox' | 'url';
+  type: 'text' | 'number' | 'date' | 'dropdown' | 'multiselect' | 'file' | 'textarea' | 'email' | 'checkbox' | 'url'
+    | 'currency' | 'rating' | 'signature' | 'user' | 'account' | 'project' | 'repeater' | 'table' | 'computed';
   label: string;
   required: boolean;
   placeholder?: string;
   options?: string[];
   defaultValue?: Record<string, unknown>;
+  subfields?: FormField[]; // Repeater row fields / table columns
+  rows?: string[]; // Table row labels
+  currency?: string;
   validation?: {
     min?: number;
     max?: number;
     pattern?: string;
     message?: string;
   };
-  conditional?: {
-    show_if: string;
-    equals: Record<string, unknown>;
-  };
+  conditional?: FieldConditional;
+  validationRules?: FormValidationRule[];
+  computation?: FormComputation;
 }
 
 interface FormTemplate {
@@ -156,9 +178,12 @@ export function WorkflowProgressButton({
 
   // Track the active step ID (either from prop or loaded from API)
   const [currentActiveStepId, setCurrentActiveStepId] = useState<string | null>(null);
+  const [approvalVotes, setApprovalVotes] = useState<Array<{ id: string; decision: string; feedback: string | null; created_at: string; approver: { name: string } | null }>>([]);
+  const [sendBackTargets, setSendBackTargets] = useState<SendBackTarget[]>([]);
+  const [sendBackNodeId, setSendBackNodeId] = useState('');
   const [workflowInstance, setWorkflowInstance] = useState<WorkflowInstance | null>(null);
   const [nextNode, setNextNode] = useState<NextNodePreview | null>(null);
-  const [decision, setDecision] = useState<'approved' | 'rejected' | undefined>();
+  const [decision, setDecision] = useState<'approved' | 'rejected' | 'sent_back' | undefined>();
   const [feedback, setFeedback] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [availableUsers, setAvailableUsers] = useState<User[]>([]);
@@ -199,64 +224,145 @@ export function WorkflowProgressButton({
   // Form state
   const [formTemplate, setFormTemplate] = useState<FormTemplate | null>(null);
   const [formData, setFormData] = useState<Record<string, any>>({});
+  // Files attached to the step itself (nodes with allow_attachments)
+  const [stepAttachments, setStepAttachments] = useState<WorkflowAttachmentRef[]>([]);
+
+  // Server-side draft of the step's form (workflow-form-draft-service): autosaved
+  // while the assignee works and restored when they reopen the step
+  const [draftNodeId, setDraftNodeId] = useState<string | null>(null);
+  const [draftStatus, setDraftStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  // Form values as loaded (defaults or the restored draft) - untouched forms aren't saved
+  const draftBaselineRef = useRef<string | null>(null);
+  // Last draft written to the server, so an unchanged form isn't saved again
+  const lastSavedDraftRef = useRef<string | null>(null);
+  const draftTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Save the draft now. `force` saves a form that hasn't been touched yet (Save draft button).
+  const saveFormDraft = useCallback(async (force = false): Promise<boolean> => {
+    if (!workflowInstanceId || !draftNodeId || !formTemplate) return false;
+
+    const serializedForm = JSON.stringify(formData);
+    if (!force && serializedForm === draftBaselineRef.current && !decision && !feedback) return true;
+
+    const stepState = { decision: decision || null, feedback, selectedUserId, selectedUserPerNode };
+    const serialized = JSON.stringify({ formData, stepState });
+    if (serialized === lastSavedDraftRef.current) return true;
+
+    setDraftStatus('saving');
+    try {
+      const response = await fetch('/api/workflows/forms/drafts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          workflow_instance_id: workflowInstanceId,
+          node_id: draftNodeId,
+          active_step_id: currentActiveStepId,
+          form_data: formData,
+          step_state: stepState,
+        }),
+      });
+      const data = await response.json();
 
-  // Auto-save key for localStorage - unique per workflow instance + step
-  const getFormSaveKey = useCallback(() => {
-    const stepId = externalActiveStepId || currentActiveStepId || 'default';
-    return `workflow-form-draft-${workflowInstanceId}-${stepId}`;
-  }, [workflowInstanceId, externalActiveStepId, currentActiveStepId]);
-
-  // Auto-save form data to localStorage whenever it changes
-  useEffect(() => {
-    if (!workflowInstanceId || !dialogOpen || Object.keys(formData).length === 0) return;
+      if (!response.ok) {
+        console.warn('Failed to save form draft:', data.error);
+        setDraftStatus('error');
+        return false;
+      }
 
-    const saveKey = getFormSaveKey();
-    try {
-      localStorage.setItem(saveKey, JSON.stringify({
-        formData,
-        decision,
-        feedback,
-        selectedUserId,
-        selectedUserPerNode,
-        savedAt: new Date().toISOString(),
-      }));
+      lastSavedDraftRef.current = serialized;
+      setDraftSavedAt(data.draft?.updated_at || new Date().toISOString());
+      setDraftStatus('saved');
+      return true;
     } catch (e: unknown) {
-      console.warn('Failed to auto-save form data:', e);
+      console.warn('Failed to save form draft:', e);
+      setDraftStatus('error');
+      return false;
     }
-  }, [formData, decision, feedback, selectedUserId, selectedUserPerNode, workflowInstanceId, dialogOpen, getFormSaveKey]);
+  }, [workflowInstanceId, draftNodeId, currentActiveStepId, formTemplate, formData, decision, feedback, selectedUserId, selectedUserPerNode]);
 
-  // Load saved form data from localStorage when dialog opens
-  const loadSavedFormData = useCallback(() => {
-    const saveKey = getFormSaveKey();
-    try {
-      const saved = localStorage.getItem(saveKey);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        // Only restore if saved within last 24 hours
-        const savedAt = new Date(parsed.savedAt);
-        const hoursSinceSave = (Date.now() - savedAt.getTime()) / (1000 * 60 * 60);
-        if (hoursSinceSave < 24) {
-          return parsed;
-        } else {
-          // Clear stale data
-          localStorage.removeItem(saveKey);
-        }
+  // Autosave a moment after the assignee stops typing
+  useEffect(() => {
+    if (!dialogOpen || submitting || !formTemplate || !draftNodeId) return;
+
+    draftTimerRef.current = setTimeout(() => {
+      draftTimerRef.current = null;
+      saveFormDraft();
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+
+    return () => {
+      if (draftTimerRef.current) {
+        clearTimeout(draftTimerRef.current);
+        draftTimerRef.current = null;
       }
-    } catch (e: unknown) {
-      console.warn('Failed to load saved form data:', e);
+    };
+  }, [dialogOpen, submitting, formTemplate, draftNodeId, saveFormDraft]);
+
+  // Save any pending changes straight away (the dialog is being closed)
+  const flushFormDraft = () => {
+    if (draftTimerRef.current) {
+      clearTimeout(draftTimerRef.current);
+      draftTimerRef.current = null;
+      saveFormDraft();
     }
-    return null;
-  }, [getFormSaveKey]);
+  };
+
+  const handleSaveDraft = async () => {
+    if (draftTimerRef.current) {
+      clearTimeout(draftTimerRef.current);
+      draftTimerRef.current = null;
+    }
+    if (await saveFormDraft(true)) {
+      toast.success('Draft saved. You can pick up where you left off later.');
+      setDialogOpen(false);
+    } else {
+      toast.error('Failed to save draft');
+    }
+  };
+
+  // The current user's saved draft for a step, if they have one
+  const loadFormDraft = useCallback(async (nodeId: string, activeStepId: string | null): Promise<WorkflowFormDraft | null> => {
+    if (!workflowInstanceId) return null;
 
-  // Clear saved form data (call after successful submission)
-  const clearSavedFormData = useCallback(() => {
-    const saveKey = getFormSaveKey();
     try {
-      localStorage.removeItem(saveKey);
+      const params = new URLSearchParams({ workflow_instance_id: workflowInstanceId, node_id: nodeId });
+      if (activeStepId) params.set('active_step_id', activeStepId);
+
+      const response = await fetch(`/api/workflows/forms/drafts?${params.toString()}`);
+      if (!response.ok) return null;
+
+      const data = await response.json();
+      return data.draft || null;
     } catch (e: unknown) {
-      console.warn('Failed to clear saved form data:', e);
+      console.warn('Failed to load form draft:', e);
+      return null;
     }
-  }, [getFormSaveKey]);
+  }, [workflowInstanceId]);
+
+  // Fill the form from its defaults, overlaid with the saved draft if there is one
+  const initializeFormData = useCallback((initialData: Record<string, any>, draft: WorkflowFormDraft | null) => {
+    const restored = draft && Object.keys(draft.form_data).length > 0 ? draft : null;
+    const data = restored ? { ...initialData, ...restored.form_data } : initialData;
+
+    setFormData(data);
+    draftBaselineRef.current = JSON.stringify(data);
+    lastSavedDraftRef.current = null;
+    setDraftSavedAt(restored?.updated_at || null);
+    setDraftStatus(restored ? 'saved' : 'idle');
+
+    if (!restored) return;
+
+    const stepState = restored.step_state;
+    if (stepState.decision === 'approved' || stepState.decision === 'rejected' || stepState.decision === 'sent_back') {
+      setDecision(stepState.decision);
+    }
+    if (typeof stepState.feedback === 'string') setFeedback(stepState.feedback);
+    if (typeof stepState.selectedUserId === 'string') setSelectedUserId(stepState.selectedUserId);
+    if (stepState.selectedUserPerNode && typeof stepState.selectedUserPerNode === 'object') {
+      setSelectedUserPerNode(stepState.selectedUserPerNode as Record<string, string>);
+    }
+    toast.info(`Restored your draft from ${new Date(restored.updated_at).toLocaleString()}`);
+  }, []);
 
   // Parallel workflow state
   const [branchId, setBranchId] = useState<string | null>(null);
@@ -657,6 +763,7 @@ export function WorkflowProgressButton({
       }
 
       setCurrentActiveStepId(activeStepIdToUse);
+      setDraftNodeId(nodeIdToLoad || null);
 
       // Now get the node data - prefer snapshot over live tables
       // This ensures deleted/modified templates don't break in-progress workflows
@@ -686,6 +793,38 @@ export function WorkflowProgressButton({
 
       setWorkflowInstance(instanceWithNode);
 
+      // Multi-approver approvals: show the votes already cast on this step
+      setApprovalVotes([]);
+      if (currentNodeData?.node_type === 'approval' && activeStepIdToUse && getApprovalQuorumSettings(currentNodeData).mode !== 'single') {
+        const { data: votes } = await supabase
+          .from('workflow_approvals')
+          .select('id, decision, feedback, created_at, approver:user_profiles!workflow_approvals_approver_user_id_fkey(name)')
+          .eq('active_step_id', activeStepIdToUse)
+          .order('created_at', { ascending: true });
+        setApprovalVotes((votes || []) as any);
+      }
+
+      // Send-back: previously completed steps on this path the approver can return the work to
+      setSendBackTargets([]);
+      if (currentNodeData?.node_type === 'approval' && activeStepIdToUse && allowsSendBack(currentNodeData)) {
+        const { data: instanceSteps } = await supabase
+          .from('workflow_active_steps')
+          .select('id, node_id, branch_id, status, completed_at, assigned_user_id')
+          .eq('workflow_instance_id', workflowInstanceId as string);
+
+        let targetNodes = snapshotNodes;
+        if (!hasSnapshot) {
+          const { data: liveNodes } = await supabase
+            .from('workflow_nodes')
+            .select('id, node_type, label')
+            .eq('workflow_template_id', (instance as any).workflow_template_id);
+          targetNodes = liveNodes || [];
+        }
+
+        const currentStep = (instanceSteps || []).find((s: any) => s.id === activeStepIdToUse);
+        setSendBackTargets(getSendBackTargets(targetNodes, instanceSteps || [], currentNodeData.id, currentStep?.branch_id ?? null));
+      }
+
       // Check if form was already submitted - handles both form nodes and approval nodes
       setExistingFormData(null); // Reset first
       let foundExistingFormData = false; // Track if we found form data (for blocking editable form)
@@ -751,12 +890,15 @@ export function WorkflowProgressButton({
               .from('form_responses')
               .select(`
                 response_data,
-                form_template:form_templates(fields, name)
+                form_template:form_templates(fields, name),
+                form_template_version:form_template_versions(fields, name)
               `)
               .eq('id', formHistoryEntry.form_response_id)
               .single();
 
             if (formResponse) {
+              // Show the fields the response was filled in against, not the template's latest edit
+              const versionedResponse = withResponseVersion(formResponse as Record<string, unknown>);
               if (isFormNode) {
                 // Form node - store for pre-filling editable form
                 previousFormResponses = (formResponse as any).response_data;
@@ -764,8 +906,8 @@ export function WorkflowProgressButton({
                 // Non-form node - show as read-only
                 setExistingFormData({
                   data: (formResponse as any).response_data,
-                  fields: ((formResponse as any).form_template as any)?.fields as any[],
-                  formName: ((formResponse as any).form_template as any)?.name as string
+                  fields: (versionedResponse.form_template as any)?.fields as any[],
+                  formName: (versionedResponse.form_template as any)?.name as string
                 });
                 foundExistingFormData = true;
               }
@@ -827,8 +969,13 @@ export function WorkflowProgressButton({
             placeholder: field.placeholder || '',
             options: field.options || [],
             defaultValue: field.defaultValue,
+            subfields: field.subfields,
+            rows: field.rows,
+            currency: field.currency,
             validation: field.validation,
             conditional: field.conditional,
+            validationRules: field.validationRules,
+            computation: field.computation,
           })),
         };
 
@@ -838,32 +985,14 @@ export function WorkflowProgressButton({
         // Initialize form data with default values
         const initialData: Record<string, any> = {};
         for (const field of inlineTemplate.fields) {
-          if (field.defaultValue !== undefined) {
-            initialData[field.id] = field.defaultValue;
-          } else if (field.type === 'checkbox') {
-            initialData[field.id] = false;
-          } else if (field.type === 'multiselect') {
-            initialData[field.id] = [];
-          } else {
-            initialData[field.id] = '';
-          }
+          initialData[field.id] = getInitialFormValue(field);
         }
 
         // If we have previous form responses (revision after rejection), pre-fill the form
         if (previousFormResponses) {
-          setFormData({ ...initialData, ...previousFormResponses });
+          initializeFormData({ ...initialData, ...previousFormResponses }, null);
         } else {
-          // Check for auto-saved draft data
-          const savedDraft = loadSavedFormData();
-          if (savedDraft?.formData && Object.keys(savedDraft.formData).length > 0) {
-            setFormData({ ...initialData, ...savedDraft.formData });
-            if (savedDraft.decision) setDecision(savedDraft.decision);
-            if (savedDraft.feedback) setFeedback(savedDraft.feedback);
-            if (savedDraft.selectedUserId) setSelectedUserId(savedDraft.selectedUserId);
-            if (savedDraft.selectedUserPerNode) setSelectedUserPerNode(savedDraft.selectedUserPerNode);
-          } else {
-            setFormData(initialData);
-          }
+          initializeFormData(initialData, await loadFormDraft(nodeIdToLoad, activeStepIdToUse));
         }
       }
       // If no inline form, check for a linked form template
@@ -881,32 +1010,14 @@ export function WorkflowProgressButton({
           // Initialize form data with default values
           const initialData: Record<string, any> = {};
           for (const field of ((template as any).fields as FormField[]) || []) {
-            if (field.defaultValue !== undefined) {
-              initialData[field.id] = field.defaultValue;
-            } else if (field.type === 'checkbox') {
-              initialData[field.id] = false;
-            } else if (field.type === 'multiselect') {
-              initialData[field.id] = [];
-            } else {
-              initialData[field.id] = '';
-            }
+            initialData[field.id] = getInitialFormValue(field);
           }
 
           // If we have previous form responses (revision after rejection), pre-fill the form
           if (previousFormResponses) {
-            setFormData({ ...initialData, ...previousFormResponses });
+            initializeFormData({ ...initialData, ...previousFormResponses }, null);
           } else {
-            // Check for auto-saved draft data
-            const savedDraft = loadSavedFormData();
-            if (savedDraft?.formData && Object.keys(savedDraft.formData).length > 0) {
-              setFormData({ ...initialData, ...savedDraft.formData });
-              if (savedDraft.decision) setDecision(savedDraft.decision);
-              if (savedDraft.feedback) setFeedback(savedDraft.feedback);
-              if (savedDraft.selectedUserId) setSelectedUserId(savedDraft.selectedUserId);
-              if (savedDraft.selectedUserPerNode) setSelectedUserPerNode(savedDraft.selectedUserPerNode);
-            } else {
-              setFormData(initialData);
-            }
+            initializeFormData(initialData, await loadFormDraft(nodeIdToLoad, activeStepIdToUse));
           }
         }
       }
@@ -1143,7 +1254,7 @@ export function WorkflowProgressButton({
     } finally {
       setLoading(false);
     }
-  }, [workflowInstanceId, projectId, externalActiveStepId, branchId, lastKnownUpdatedAt, loadSavedFormData]);
+  }, [workflowInstanceId, projectId, externalActiveStepId, branchId, lastKnownUpdatedAt, loadFormDraft, initializeFormData]);
 
   useEffect(() => {
     if (workflowInstanceId && dialogOpen) {
@@ -1162,14 +1273,13 @@ export function WorkflowProgressButton({
     // The ref will naturally reset when a different workflowInstanceId is loaded
   }, [workflowInstanceId, dialogOpen, externalActiveStepId, loadWorkflowData]);
 
+  // Answers with computed fields filled in - what's shown, validated and submitted
+  const resolvedFormData = formTemplate ? applyComputedFields(formTemplate.fields, formData) : formData;
+
   // Helper to check if a field should be visible based on conditional logic
-  const isFieldVisible = (field: FormField): boolean => {
-    if (!field.conditional) return true;
-    const conditionalFieldValue = formData[field.conditional.show_if];
-    return conditionalFieldValue === field.conditional.equals;
-  };
+  const isFieldVisible = (field: FormField): boolean => isFormFieldVisible(field, resolvedFormData);
 
-  // Validate form data
+  // Validate form data (the server repeats these checks in validateFormResponse)
   const validateFormData = (): string | null => {
     if (!formTemplate) return null;
 
@@ -1177,14 +1287,11 @@ export function WorkflowProgressButton({
       // Skip hidden fields
       if (!isFieldVisible(field)) continue;
 
-      const value = formData[field.id];
+      const value = resolvedFormData[field.id];
 
       // Check required fields
-      if (field.required) {
-        if (value === undefined || value === null || value === '' ||
-            (Array.isArray(value) && value.length === 0)) {
-          return `${field.label} is required`;
-        }
+      if (field.required && isEmptyFormValue(value)) {
+        return `${field.label} is required`;
       }
 
       // Type-specific validation
@@ -1207,7 +1314,26 @@ export function WorkflowProgressButton({
               return `${field.label} must be at most ${field.validation.max}`;
             }
             break;
+          case 'repeater':
+          case 'table': {
+            const rows = Array.isArray(value) ? value as Record<string, unknown>[] : [];
+            if (field.type === 'repeater' && field.validation?.min !== undefined && rows.length < field.validation.min) {
+              return `${field.label} needs at least ${field.validation.min} rows`;
+            }
+            for (const [index, row] of rows.entries()) {
+              const missing = (field.subfields || []).find((sub) => sub.required && isEmptyFormValue(row[sub.id]));
+              if (missing) {
+                const rowLabel = field.type === 'table' ? field.rows?.[index] : `row ${index + 1}`;
+                return `${field.label} (${rowLabel}): ${missing.label} is required`;
+              }
+            }
+            break;
+          }
         }
+
+        // Cross-field rules, e.g. end date after start date
+        const ruleError = getValidationRuleError(field, resolvedFormData);
+        if (ruleError) return ruleError;
       }
     }
 
@@ -1227,6 +1353,12 @@ export function WorkflowProgressButton({
       return;
     }
 
+    const isSendBack = decision === 'sent_back';
+    if (isSendBack && (!sendBackNodeId || !feedback.trim())) {
+      toast.error('Choose the step to send back to and give a reason');
+      return;
+    }
+
     // For form nodes, validate the form data
     if (formTemplate) {
       const validationError = validateFormData();
@@ -1238,7 +1370,10 @@ export function WorkflowProgressButton({
 
     // User assignment validation - handle both single and parallel branches
     // SYNC NODES: Always require user assignment (the whole point is to assign the next step)
-    if (nextNodes.length > 1 && Object.keys(usersPerNode).length > 0) {
+    // Send-backs return the step to whoever completed it, so there's nothing to assign
+    if (isSendBack) {
+      // No assignment needed
+    } else if (nextNodes.length > 1 && Object.keys(usersPerNode).length > 0) {
       // Parallel branches - validate all assignments
       const nodesRequiringAssignment = nextNodes.filter((node:any) =>
         usersPerNode[node.id] && usersPerNode[node.id].length > 0
@@ -1277,7 +1412,7 @@ export function WorkflowProgressButton({
             formName: formTemplate.name as any,
             formDescription: formTemplate.description as any,
             fields: formTemplate.fields as any,
-            responses: formData,
+            responses: resolvedFormData,
           };
         } else {
           // For linked form templates, submit to the form_responses table
@@ -1285,8 +1420,10 @@ export function WorkflowProgressButton({
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-              formTemplateId: formTemplate.id,
-              responseData: formData,
+              form_template_id: formTemplate.id,
+              response_data: resolvedFormData,
+              workflow_instance_id: workflowInstanceId,
+              node_id: draftNodeId,
             }),
           });
 
@@ -1296,7 +1433,7 @@ export function WorkflowProgressButton({
             throw new Error(formResult.error || 'Failed to submit form');
           }
 
-          formResponseId = formResult.id;
+          formResponseId = formResult.response?.id;
         }
       }
 
@@ -1311,12 +1448,18 @@ export function WorkflowProgressButton({
         body: JSON.stringify({
           workflowInstanceId,
           activeStepId: currentActiveStepId, // Include for parallel workflow support
-          decision,
+          decision: isSendBack ? undefined : decision,
           feedback,
+          sendBackToNodeId: isSendBack ? sendBackNodeId : undefined,
+          sendBackReason: isSendBack ? feedback : undefined,
           assignedUserId: selectedUserId || undefined,
           assignedUsersPerNode, // NEW: map of nodeId -> userId for parallel branches
           formResponseId,
           formData: inlineFormData, // Include inline form data if present
+          attachmentIds: [
+            ...stepAttachments.map((attachment) => attachment.id),
+            ...getAttachmentIdsFromFormData(formTemplate?.fields, formData),
+          ],
         }),
       });
 
@@ -1326,15 +1469,27 @@ export function WorkflowProgressButton({
         throw new Error(data.error || 'Failed to progress workflow');
       }
 
-      toast.success('Project sent to next step successfully');
+      if (isSendBack) {
+        toast.success(`Sent back to "${sendBackTargets.find((t) => t.nodeId === sendBackNodeId)?.label || 'previous step'}"`);
+      } else if (data.quorum?.status === 'pending') {
+        toast.success(`Vote recorded (${data.quorum.tally}). Waiting for other approvers.`);
+      } else if (data.quorum?.status === 'late') {
+        toast.info('This approval was resolved before your vote was counted. Your vote was recorded but did not change the outcome.');
+      } else {
+        toast.success('Project sent to next step successfully');
+      }
 
-      // Clear the auto-saved draft since submission was successful
-      clearSavedFormData();
+      // The server cleared the draft along with the submission
+      setDraftNodeId(null);
+      setDraftStatus('idle');
+      setDraftSavedAt(null);
 
       setDialogOpen(false);
       setDecision(undefined);
       setFeedback('');
+      setSendBackNodeId('');
       setFormData({});
+      setStepAttachments([]);
       setFormTemplate(null);
       setSelectedUserId('');
       setCurrentActiveStepId(null);
@@ -1408,9 +1563,39 @@ export function WorkflowProgressButton({
   const isApprovalNode = currentNode?.node_type === 'approval';
   const isFormNode = currentNode?.node_type === 'form';
   const isSyncNode = currentNode?.node_type === 'sync';
+  const quorumSettings = isApprovalNode ? getApprovalQuorumSettings(currentNode) : null;
   // formTemplate is loaded from either inline settings or linked form_template_id
   const _hasFormTemplate = formTemplate !== null;
 
+  // Paused workflows can't be progressed until they're resumed
+  if (workflowInstance?.status === 'paused') {
+    return (
+      <Button disabled className="gap-2" size="lg" variant="outline">
+        <PauseCircle className="w-4 h-4" />
+        Workflow Paused
+      </Button>
+    );
+  }
+
+  // Timer steps are advanced by the timer cron job, not by hand
+  if (currentNode?.node_type === 'timer') {
+    return (
+      <Button disabled className="gap-2" size="lg" variant="outline">
+        <Clock className="w-4 h-4" />
+        Waiting on Timer
+      </Button>
+    );
+  }
+
+  // Sub-workflow steps continue when their child workflow completes
+  if (currentNode?.node_type === 'subworkflow') {
+    return (
+      <Button disabled className="gap-2" size="lg" variant="outline">
+        <Workflow className="w-4 h-4" />
+        Waiting on Sub-workflow
+      </Button>
+    );
+  }
 
   return (
     <>
@@ -1423,7 +1608,13 @@ export function WorkflowProgressButton({
         Send to Next Step
       </Button>
 
-      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+      <Dialog
+        open={dialogOpen}
+        onOpenChange={(open) => {
+          if (!open) flushFormDraft();
+          setDialogOpen(open);
+        }}
+      >
         <DialogContent
           className="max-w-2xl max-h-[90vh] flex flex-col"
           onInteractOutside={(e) => {
@@ -1508,7 +1699,7 @@ export function WorkflowProgressButton({
                 </div>
               )}
 
-              {nextNodes.length > 1 && Object.keys(usersPerNode).length > 0 && (
+              {decision !== 'sent_back' && nextNodes.length > 1 && Object.keys(usersPerNode).length > 0 && (
                 <div className="space-y-4">
                   <Label className="text-sm font-medium">Assign Users to Each Step *</Label>
                   <p className="text-xs text-gray-500 -mt-2">
@@ -1550,7 +1741,7 @@ export function WorkflowProgressButton({
               )}
 
               {/* User Assignment Selection - single branch (legacy) */}
-              {nextNodes.length <= 1 && availableUsers.length > 0 && (
+              {decision !== 'sent_back' && nextNodes.length <= 1 && availableUsers.length > 0 && (
                 <div className={`space-y-2 ${isSyncNode ? 'p-4 bg-amber-50 border border-amber-200 rounded-lg' : ''}`}>
                   <Label htmlFor="assign-user" className={isSyncNode ? 'text-amber-900 font-semibold' : ''}>
                     {isSyncNode ? 'Assign Next Step To *' : 'Assign To *'}
@@ -1575,10 +1766,36 @@ export function WorkflowProgressButton({
                 </div>
               )}
 
+              {(isApprovalNode && quorumSettings && quorumSettings.mode !== 'single' && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+                  <p className="text-sm font-medium text-amber-900">
+                    {quorumSettings.mode === 'all'
+                      ? 'Every approver must approve'
+                      : `${quorumSettings.requiredApprovals} approvals required`}
+                    {quorumSettings.rejectOnAnyRejection ? ' - any rejection rejects' : ''}
+                  </p>
+                  {approvalVotes.length === 0 ? (
+                    <p className="text-xs text-amber-800">No votes yet.</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {approvalVotes.map((vote) => (
+                        <li key={vote.id} className="text-xs text-amber-900">
+                          <span className={vote.decision === 'approved' ? 'text-green-700 font-medium' : 'text-red-700 font-medium'}>
+                            {vote.decision === 'approved' ? 'Approved' : 'Rejected'}
+                          </span>
+                          {' '}by {vote.approver?.name || 'Unknown'}
+                          {vote.feedback && <span className="text-amber-800">: {vote.feedback}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )) as React.ReactNode}
+
               {(isApprovalNode && (
                 <div className="space-y-3">
-                  <Label>Decision *</Label>
-                  <div className="grid grid-cols-2 gap-2">
+                  <Label>{quorumSettings && quorumSettings.mode !== 'single' ? 'Your Vote *' : 'Decision *'}</Label>
+                  <div className={`grid gap-2 ${sendBackTargets.length > 0 ? 'grid-cols-3' : 'grid-cols-2'}`}>
                     <Button
                       type="button"
                       variant={decision === 'approved' ? 'default' : 'outline'}
@@ -1597,7 +1814,38 @@ export function WorkflowProgressButton({
                       <XCircle className="w-4 h-4" />
                       Reject
                     </Button>
+                    {sendBackTargets.length > 0 && (
+                      <Button
+                        type="button"
+                        variant={decision === 'sent_back' ? 'secondary' : 'outline'}
+                        onClick={() => setDecision('sent_back')}
+                        className="flex items-center gap-2"
+                      >
+                        <Undo2 className="w-4 h-4" />
+                        Send back
+                      </Button>
+                    )}
                   </div>
+                  {decision === 'sent_back' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="send-back-target">Send Back To *</Label>
+                      <Select value={sendBackNodeId} onValueChange={setSendBackNodeId}>
+                        <SelectTrigger id="send-back-target">
+                          <SelectValue placeholder="Select a completed step" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {sendBackTargets.map((target) => (
+                            <SelectItem key={target.nodeId} value={target.nodeId}>
+                              {target.label} ({target.nodeType})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500">
+                        The step is reopened for whoever completed it. Sending back counts as rework for that step.
+                      </p>
+                    </div>
+                  )}
                 </div>
               )) as React.ReactNode}
 
@@ -1605,14 +1853,16 @@ export function WorkflowProgressButton({
               {((isApprovalNode || currentNode?.settings?.allow_feedback) && (
                 <div className="space-y-2">
                   <Label htmlFor="feedback">
-                    {isApprovalNode ? 'Feedback (Optional)' : 'Notes (Optional)'}
+                    {decision === 'sent_back' ? 'Reason *' : isApprovalNode ? 'Feedback (Optional)' : 'Notes (Optional)'}
                   </Label>
                   <Textarea
                     id="feedback"
                     value={feedback}
                     onChange={(e) => setFeedback(e.target.value)}
                     placeholder={
-                      isApprovalNode
+                      decision === 'sent_back'
+                        ? 'Explain what needs to be reworked...'
+                        : isApprovalNode
                         ? 'Provide feedback or comments...'
                         : 'Add any notes about the handoff...'
                     }
@@ -1621,6 +1871,19 @@ export function WorkflowProgressButton({
                 </div>
               )) as React.ReactNode}
 
+              {/* Step attachments */}
+              {(currentNode?.settings?.allow_attachments && workflowInstanceId && (
+                <div className="space-y-2">
+                  <Label>Attachments (Optional)</Label>
+                  <WorkflowAttachmentUpload
+                    workflowInstanceId={workflowInstanceId}
+                    nodeId={currentNode.id}
+                    value={stepAttachments}
+                    onChange={setStepAttachments}
+                  />
+                </div>
+              )) as React.ReactNode}
+
               {/* Existing Form Data (already submitted - show read-only) */}
               {(existingFormData && (
                 <div className="space-y-4">
@@ -1642,9 +1905,7 @@ export function WorkflowProgressButton({
                         <div key={field.id as string} className="flex flex-col">
                           <span className="text-xs text-gray-500 font-medium">{field.label as string}</span>
                           <span className="text-sm text-gray-900">
-                            {Array.isArray(value) ? value.join(', ') :
-                             typeof value === 'boolean' ? (value ? 'Yes' : 'No') :
-                             String(value)}
+                            <FormFieldValue field={field} value={value} />
                           </span>
                         </div>
                       );
@@ -1816,13 +2077,22 @@ export function WorkflowProgressButton({
                           </div>
                         )}
 
-                        {/* File Input (placeholder - requires backend file handling) */}
-                        {field.type === 'file' && (
-                          <div className="p-4 bg-gray-50 border border-dashed border-gray-300 rounded-lg text-center">
-                            <p className="text-sm text-gray-500">
-                              File upload coming soon
-                            </p>
-                          </div>
+                        {/* Currency, rating, signature, pickers, repeaters, tables and computed fields */}
+                        <StructuredFormFieldInput
+                          field={field}
+                          value={resolvedFormData[field.id]}
+                          onChange={(value) => setFormData((prev) => ({ ...prev, [field.id]: value }))}
+                        />
+
+                        {/* File Input - uploads are stored as drafts until the step is submitted */}
+                        {field.type === 'file' && workflowInstanceId && (
+                          <WorkflowAttachmentUpload
+                            workflowInstanceId={workflowInstanceId}
+                            nodeId={currentNode?.id}
+                            fieldId={field.id}
+                            value={getWorkflowAttachmentRefs(formData[field.id])}
+                            onChange={(files) => setFormData((prev) => ({ ...prev, [field.id]: files }))}
+                          />
                         )}
                       </div>
                     );
@@ -1842,24 +2112,54 @@ export function WorkflowProgressButton({
           )}
 
           <DialogFooter className="flex-shrink-0 border-t pt-4 mt-4">
-            {/* Auto-save indicator */}
-            {formTemplate && Object.keys(formData).length > 0 && (
+            {/* Draft autosave indicator */}
+            {formTemplate && (
               <div className="flex-1 text-xs text-gray-500 flex items-center gap-1">
-                <CheckCircle2 className="w-3 h-3 text-green-500" />
-                Draft auto-saved
+                {draftStatus === 'saving' ? (
+                  <>
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    Saving draft...
+                  </>
+                ) : draftStatus === 'error' ? (
+                  <>
+                    <XCircle className="w-3 h-3 text-red-500" />
+                    Draft not saved
+                  </>
+                ) : draftStatus === 'saved' && draftSavedAt ? (
+                  <>
+                    <CheckCircle2 className="w-3 h-3 text-green-500" />
+                    Draft saved {new Date(draftSavedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </>
+                ) : (
+                  'Changes are saved as a draft while you work'
+                )}
               </div>
             )}
             <Button
               type="button"
               variant="outline"
-              onClick={() => setDialogOpen(false)}
+              onClick={() => {
+                flushFormDraft();
+                setDialogOpen(false);
+              }}
               disabled={submitting}
             >
               Cancel
             </Button>
+            {formTemplate && draftNodeId && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleSaveDraft}
+                disabled={submitting || loading || draftStatus === 'saving'}
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Save Draft
+              </Button>
+            )}
             <Button
               onClick={handleProgressWorkflow}
-              disabled={submitting || loading || (isApprovalNode && !decision) || (isSyncNode && availableUsers.length > 0 && !selectedUserId)}
+              disabled={submitting || loading || (isApprovalNode && !decision) || (decision === 'sent_back' && (!sendBackNodeId || !feedback.trim())) || (isSyncNode && availableUsers.length > 0 && !selectedUserId)}
             >
               {submitting ? (
                 <>
@@ -1869,7 +2169,9 @@ export function WorkflowProgressButton({
               ) : (
                 <>
                   <Send className="w-4 h-4 mr-2" />
-                  {isApprovalNode
+                  {isApprovalNode && decision === 'sent_back'
+                    ? 'Send Back'
+                    : isApprovalNode
                     ? `${decision === 'approved' ? 'Approve' : 'Reject'} & Send`
                     : isSyncNode
                     ? 'Assign & Continue'
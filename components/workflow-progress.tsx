@@ -18,7 +18,10 @@ import {
   CheckCircle2,
   Clock,
   Loader2,
-  CircleDot
+  CircleDot,
+  Timer,
+  Zap,
+  Workflow
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -52,6 +55,7 @@ interface ActiveStep {
   branch_id: string;
   status: 'active' | 'completed' | 'waiting';
   assigned_user_id: string | null;
+  timer_resume_at?: string | null;
   assigned_user?: {
     name: string;
   };
@@ -85,7 +89,7 @@ interface NextStepInfo {
 }
 
 // Node types that should be skipped in visualization (they're just routing logic)
-const HIDDEN_NODE_TYPES = ['sync', 'conditional'];
+const HIDDEN_NODE_TYPES = ['fork', 'sync', 'conditional'];
 
 // Node type styling configuration
 const nodeConfig: Record<string, {
@@ -137,6 +141,27 @@ const nodeConfig: Record<string, {
     iconColor: 'text-white',
     label: 'Complete'
   },
+  timer: {
+    gradient: 'from-indigo-500 to-blue-600',
+    iconBg: 'bg-white/20',
+    icon: Timer,
+    iconColor: 'text-white',
+    label: 'Timer'
+  },
+  action: {
+    gradient: 'from-teal-500 to-emerald-600',
+    iconBg: 'bg-white/20',
+    icon: Zap,
+    iconColor: 'text-white',
+    label: 'Action'
+  },
+  subworkflow: {
+    gradient: 'from-sky-500 to-blue-600',
+    iconBg: 'bg-white/20',
+    icon: Workflow,
+    iconColor: 'text-white',
+    label: 'Sub-workflow'
+  },
   client: {
     gradient: 'from-orange-500 to-red-500',
     iconBg: 'bg-white/20',
@@ -150,6 +175,7 @@ function StepCard({
   node,
   status,
   assignedUserName,
+  resumeAt,
   conditionLabel,
   onClick,
   isClickable = false,
@@ -157,6 +183,7 @@ function StepCard({
   node: WorkflowNode;
   status: 'active' | 'completed' | 'waiting' | 'next';
   assignedUserName?: string;
+  resumeAt?: string | null;
   conditionLabel?: string | null;
   onClick?: () => void;
   isClickable?: boolean;
@@ -243,6 +270,23 @@ function StepCard({
             {assignedUserName}
           </div>
         )}
+
+        {/* Timer resume time */}
+        {node.node_type === 'timer' && isActive && (
+          <div className="mt-2 text-xs flex items-center gap-1 text-white/80">
+            <Clock className="w-3 h-3" />
+            {resumeAt
+              ? `Resumes ${new Date(resumeAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`
+              : 'Waiting for date to be set'}
+          </div>
+        )}
+
+        {node.node_type === 'subworkflow' && isActive && (
+          <div className="mt-2 text-xs flex items-center gap-1 text-white/80">
+            <Clock className="w-3 h-3" />
+            Waiting for sub-workflow to complete
+          </div>
+        )}
       </div>
     </div>
   );
@@ -552,6 +596,7 @@ export function WorkflowProgress({ workflowInstanceId, onStepClick }: WorkflowPr
                           : 'active'
                     }
                     assignedUserName={step.assignedUserName}
+                    resumeAt={step.activeStep?.timer_resume_at}
                     onClick={() => handleStepClick(step)}
                     isClickable={!!step.activeStep && !!onStepClick}
                   />
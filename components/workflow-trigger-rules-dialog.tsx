@@ -0,0 +1,336 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Plus, Trash2, Zap } from 'lucide-react';
+import { toast } from 'sonner';
+
+type TriggerEvent = 'project_created' | 'project_status_changed' | 'client_request_submitted';
+
+interface TriggerRule {
+  id: string;
+  name: string;
+  event: TriggerEvent;
+  conditions: { account_id?: string; priority?: string; status?: string };
+  is_active: boolean;
+}
+
+interface WorkflowTriggerRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templateId: string;
+  templateName: string;
+}
+
+const EVENT_LABELS: Record<TriggerEvent, string> = {
+  project_created: 'Project created',
+  project_status_changed: 'Project status changes',
+  client_request_submitted: 'Client submits a request form',
+};
+
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+const STATUSES = ['planning', 'in_progress', 'review', 'complete', 'on_hold'];
+
+// Radix Select can't hold an empty value
+const ANY = 'any';
+
+/**
+ * Manage the rules that start a workflow template on projects automatically
+ */
+export function WorkflowTriggerRulesDialog({ open, onOpenChange, templateId, templateName }: WorkflowTriggerRulesDialogProps) {
+  const [triggers, setTriggers] = useState<TriggerRule[]>([]);
+  const [accounts, setAccounts] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [event, setEvent] = useState<TriggerEvent>('project_created');
+  const [accountId, setAccountId] = useState(ANY);
+  const [priority, setPriority] = useState(ANY);
+  const [status, setStatus] = useState(ANY);
+
+  const loadTriggers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [triggersResponse, accountsResponse] = await Promise.all([
+        fetch(`/api/admin/workflows/templates/${templateId}/triggers`),
+        fetch('/api/accounts'),
+      ]);
+      const triggersData = await triggersResponse.json();
+      const accountsData = await accountsResponse.json();
+
+      if (!triggersResponse.ok) {
+        toast.error(triggersData.error || 'Failed to load trigger rules');
+        return;
+      }
+      setTriggers(triggersData.triggers || []);
+      setAccounts(accountsResponse.ok ? accountsData.accounts || [] : []);
+    } catch (error: unknown) {
+      toast.error('Failed to load trigger rules');
+      console.error('Error loading trigger rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    if (open) loadTriggers();
+  }, [open, loadTriggers]);
+
+  const resetForm = () => {
+    setName('');
+    setEvent('project_created');
+    setAccountId(ANY);
+    setPriority(ANY);
+    setStatus(ANY);
+  };
+
+  const handleAdd = async () => {
+    if (!name.trim()) {
+      toast.error('Please enter a trigger name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/admin/workflows/templates/${templateId}/triggers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          event,
+          conditions: {
+            account_id: accountId === ANY ? null : accountId,
+            priority: priority === ANY ? null : priority,
+            status: status === ANY ? null : status,
+          },
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to add trigger rule');
+        return;
+      }
+
+      toast.success('Trigger rule added');
+      resetForm();
+      await loadTriggers();
+    } catch (error: unknown) {
+      toast.error('Failed to add trigger rule');
+      console.error('Error adding trigger rule:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (trigger: TriggerRule, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/workflows/templates/${templateId}/triggers/${trigger.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: isActive }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update trigger rule');
+        return;
+      }
+
+      setTriggers((prev) => prev.map((t) => (t.id === trigger.id ? { ...t, is_active: isActive } : t)));
+    } catch (error: unknown) {
+      toast.error('Failed to update trigger rule');
+      console.error('Error updating trigger rule:', error);
+    }
+  };
+
+  const handleDelete = async (trigger: TriggerRule) => {
+    try {
+      const response = await fetch(`/api/admin/workflows/templates/${templateId}/triggers/${trigger.id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to delete trigger rule');
+        return;
+      }
+
+      setTriggers((prev) => prev.filter((t) => t.id !== trigger.id));
+    } catch (error: unknown) {
+      toast.error('Failed to delete trigger rule');
+      console.error('Error deleting trigger rule:', error);
+    }
+  };
+
+  const describeConditions = (trigger: TriggerRule) => {
+    const parts: string[] = [];
+    if (trigger.conditions.account_id) {
+      const account = accounts.find((a) => a.id === trigger.conditions.account_id);
+      parts.push(`account ${account?.name || 'unknown'}`);
+    }
+    if (trigger.conditions.priority) parts.push(`priority ${trigger.conditions.priority}`);
+    if (trigger.conditions.status) parts.push(`status ${trigger.conditions.status.replace('_', ' ')}`);
+    return parts.length > 0 ? parts.join(' · ') : 'any project';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="w-5 h-5" />
+            Trigger Rules - {templateName}
+          </DialogTitle>
+          <DialogDescription>
+            Start this workflow on a project automatically. The first active rule that matches wins, and
+            nothing starts if the project already has a workflow running.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : triggers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No trigger rules yet - this workflow is only started by hand.</p>
+          ) : (
+            <div className="space-y-2">
+              {triggers.map((trigger) => (
+                <div key={trigger.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm">{trigger.name}</span>
+                      <Badge variant="outline">{EVENT_LABELS[trigger.event]}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">{describeConditions(trigger)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={trigger.is_active}
+                      onCheckedChange={(checked) => handleToggle(trigger, checked)}
+                      title={trigger.is_active ? 'Active' : 'Inactive'}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(trigger)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      title="Delete trigger rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t pt-4 space-y-3">
+            <p className="text-sm font-medium">Add a trigger rule</p>
+            <div className="space-y-2">
+              <Label htmlFor="trigger-name">Name</Label>
+              <Input
+                id="trigger-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Urgent Acme projects"
+                maxLength={200}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>When</Label>
+                <Select value={event} onValueChange={(value) => setEvent(value as TriggerEvent)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(EVENT_LABELS) as TriggerEvent[]).map((value) => (
+                      <SelectItem key={value} value={value}>{EVENT_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Account</Label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any account</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={priority} onValueChange={setPriority}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any priority</SelectItem>
+                    {PRIORITIES.map((value) => (
+                      <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{event === 'project_status_changed' ? 'Status becomes' : 'Status'}</Label>
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any status</SelectItem>
+                    {STATUSES.map((value) => (
+                      <SelectItem key={value} value={value}>{value.replace('_', ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Close
+          </Button>
+          <Button onClick={handleAdd} disabled={saving}>
+            {saving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+            Add Rule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,14 +11,16 @@ import {
   FileText,
   GitMerge,
   Combine,
+  Split,
   CheckCircle2,
   Clock,
   Circle,
   Building2,
+  Workflow,
   LucideIcon,
 } from 'lucide-react';
 
-export type VisualizationNodeType = 'start' | 'department' | 'role' | 'approval' | 'form' | 'conditional' | 'sync' | 'end' | 'client';
+export type VisualizationNodeType = 'start' | 'department' | 'role' | 'approval' | 'form' | 'conditional' | 'fork' | 'sync' | 'subworkflow' | 'end' | 'client';
 
 export interface VisualizationNodeData {
   label: string;
@@ -28,6 +30,9 @@ export interface VisualizationNodeData {
   branchId?: string;
   assignedUserName?: string;
   isWorkflowCompleted?: boolean;
+  // Sub-workflow nodes: the child workflow started from this step
+  subworkflowName?: string;
+  subworkflowStatus?: string;
   config?: {
     departmentName?: string;
     roleName?: string;
@@ -67,11 +72,21 @@ const nodeStyles: Record<VisualizationNodeType, { bg: string; border: string; ic
     border: 'border-pink-500',
     icon: GitMerge,
   },
+  fork: {
+    bg: 'bg-orange-50',
+    border: 'border-orange-500',
+    icon: Split,
+  },
   sync: {
     bg: 'bg-indigo-50',
     border: 'border-indigo-500',
     icon: Combine,
   },
+  subworkflow: {
+    bg: 'bg-sky-50',
+    border: 'border-sky-500',
+    icon: Workflow,
+  },
   end: {
     bg: 'bg-gray-50',
     border: 'border-gray-500',
@@ -183,6 +198,13 @@ export const WorkflowVisualizationNode = memo(({ data, selected }: NodeProps) =>
         </div>
       )}
 
+      {/* Sub-workflow child indicator */}
+      {nodeData.type === 'subworkflow' && nodeData.subworkflowName && (
+        <div className="absolute -bottom-4 left-1/2 transform -translate-x-1/2 px-2 py-0.5 bg-sky-100 text-sky-800 text-[9px] font-medium rounded-sm border border-sky-300 whitespace-nowrap">
+          {nodeData.subworkflowName}{nodeData.subworkflowStatus ? ` (${nodeData.subworkflowStatus})` : ''}
+        </div>
+      )}
+
       {/* Output Handle - RIGHT side for horizontal flow (except for end) */}
       {nodeData.type !== 'end' && (
         <Handle
@@ -24,6 +24,7 @@ import { WorkflowVisualizationNode, VisualizationNodeData } from './workflow-vis
 interface WorkflowVisualizationProps {
   workflowInstanceId: string | null;
   onStepClick?: (stepId: string, nodeId: string) => void;
+  nested?: boolean; // Rendered inside a parent workflow's visualization
 }
 
 interface WorkflowNode {
@@ -72,6 +73,13 @@ interface ActiveStep {
   assigned_user_id: string | null;
 }
 
+interface ChildWorkflow {
+  id: string;
+  status: string;
+  name: string;
+  nodeId: string | null;
+}
+
 interface WorkflowHistory {
   id: string;
   from_node_id: string;
@@ -247,6 +255,7 @@ function calculateSimpleLayout(
 function WorkflowVisualizationInner({
   workflowInstanceId,
   onStepClick,
+  nested = false,
 }: WorkflowVisualizationProps) {
   const [loading, setLoading] = useState(true);
   const [workflowInstance, setWorkflowInstance] = useState<WorkflowInstance | null>(null);
@@ -254,6 +263,7 @@ function WorkflowVisualizationInner({
   const [edges, setEdges] = useState<Edge[]>([]);
   const [_activeSteps, setActiveSteps] = useState<ActiveStep[]>([]);
   const [_completedNodeIds, setCompletedNodeIds] = useState<Set<string>>(new Set());
+  const [childWorkflows, setChildWorkflows] = useState<ChildWorkflow[]>([]);
   const { fitView } = useReactFlow();
 
   const loadWorkflowVisualization = useCallback(async () => {
@@ -345,8 +355,29 @@ function WorkflowVisualizationInner({
       }
       setCompletedNodeIds(completed);
 
+      // Sub-workflows started from this workflow's steps
+      const { data: children } = await supabase
+        .from('workflow_instances')
+        .select('id, status, parent_active_step_id, started_snapshot, workflow_templates(name)')
+        .eq('parent_instance_id', workflowInstanceId!)
+        .neq('status', 'cancelled')
+        .order('started_at', { ascending: true });
+
+      const parentStepIds = (children || []).map((c: any) => c.parent_active_step_id).filter(Boolean);
+      const { data: parentSteps } = parentStepIds.length > 0
+        ? await supabase.from('workflow_active_steps').select('id, node_id').in('id', parentStepIds)
+        : { data: [] };
+
+      const childList: ChildWorkflow[] = (children || []).map((c: any) => ({
+        id: c.id,
+        status: c.status,
+        name: c.started_snapshot?.template_name || c.workflow_templates?.name || 'Sub-workflow',
+        nodeId: (parentSteps || []).find((s: any) => s.id === c.parent_active_step_id)?.node_id || null,
+      }));
+      setChildWorkflows(childList);
+
       // Build React Flow nodes and edges (async for ELK layout)
-      await buildVisualization(workflowNodes, connections || [], steps || [], completed, instance);
+      await buildVisualization(workflowNodes, connections || [], steps || [], completed, instance, childList);
 
     } catch (error: unknown) {
       console.error('Error loading workflow visualization:', error);
@@ -375,7 +406,8 @@ function WorkflowVisualizationInner({
     connections: WorkflowConnection[],
     steps: ActiveStep[],
     completed: Set<string>,
-    instance: WorkflowInstance
+    instance: WorkflowInstance,
+    children: ChildWorkflow[]
   ) => {
     // Calculate layout positions using ELK for proper hierarchical visualization
     const autoPositions = await calculateElkLayout(workflowNodes, connections);
@@ -416,6 +448,9 @@ function WorkflowVisualizationInner({
       // Get assigned user from snapshot (for completed workflows)
       const nodeAssignment = instance.completed_snapshot?.nodeAssignments?.[node.id];
 
+      // Latest sub-workflow started from this node (a send-back can start it again)
+      const childWorkflow = [...children].reverse().find((c) => c.nodeId === node.id);
+
       return {
         id: node.id,
         type: 'visualizationNode',
@@ -428,6 +463,8 @@ function WorkflowVisualizationInner({
           branchId: activeStep?.branch_id,
           assignedUserName: nodeAssignment?.userName,
           isWorkflowCompleted,
+          subworkflowName: childWorkflow?.name,
+          subworkflowStatus: childWorkflow?.status,
         },
         selectable: executionStatus === 'active',
       };
@@ -519,7 +556,7 @@ function WorkflowVisualizationInner({
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
-          <span>Workflow Progress</span>
+          <span>{nested ? 'Sub-workflow' : 'Workflow Progress'}</span>
           <div className="flex items-center gap-2">
             {workflowInstance.has_parallel_paths && (
               <Badge variant="outline" className="bg-indigo-50 text-indigo-700 border-indigo-300">
@@ -588,6 +625,21 @@ function WorkflowVisualizationInner({
             </Badge>
           </div>
         </div>
+
+        {/* Sub-workflows render nested under the step that started them */}
+        {childWorkflows.length > 0 && (
+          <div className="p-4 border-t space-y-4">
+            <p className="text-sm font-medium text-gray-700">Sub-workflows</p>
+            {childWorkflows.map((child) => (
+              <WorkflowVisualization
+                key={child.id}
+                workflowInstanceId={child.id}
+                onStepClick={onStepClick}
+                nested
+              />
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,341 @@
+/**
+ * Business Calendar Service
+ * The organization's working-hours model: which days of the week are worked,
+ * the working day's hours, public holidays (optionally per region) and company
+ * shutdowns. Workflow SLAs and timers, task due dates, workflow duration
+ * reporting and capacity all count time through this calendar.
+ *
+ * All date math is in UTC. Callers load the calendar once with
+ * getBusinessCalendar and pass it to the pure helpers below.
+ */
+
+import { isString, isRecord } from '@/lib/type-guards';
+
+export type BusinessCalendarClosureKind = 'holiday' | 'shutdown';
+
+export interface BusinessCalendarClosure {
+  id: string;
+  kind: BusinessCalendarClosureKind;
+  name: string;
+  start_date: string;
+  // Inclusive
+  end_date: string;
+  // null = applies to everyone
+  region: string | null;
+}
+
+export interface BusinessCalendar {
+  // 0 = Sunday ... 6 = Saturday (Date#getUTCDay)
+  workingDays: number[];
+  dayStartHour: number;
+  dayEndHour: number;
+  // Region used for org-level math (SLAs, due dates) and users without a region
+  defaultRegion: string | null;
+  closures: BusinessCalendarClosure[];
+}
+
+// Mon-Fri, 09:00-17:00 UTC, no holidays - used until an admin configures the calendar
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = {
+  workingDays: [1, 2, 3, 4, 5],
+  dayStartHour: 9,
+  dayEndHour: 17,
+  defaultRegion: null,
+  closures: [],
+};
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// The most consecutive non-working days the helpers below will step through
+// before giving up - a calendar with no open day in two years is misconfigured
+export const MAX_CLOSED_DAYS = 731;
+
+/**
+ * YYYY-MM-DD of a timestamp, in UTC
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * The closure (holiday or shutdown) covering a date for a region, if any.
+ * Closures without a region apply to every region.
+ */
+export function getClosureOn(
+  calendar: BusinessCalendar,
+  date: Date,
+  region: string | null = calendar.defaultRegion
+): BusinessCalendarClosure | null {
+  const key = toDateKey(date);
+  return calendar.closures.find((closure) =>
+    closure.start_date <= key &&
+    closure.end_date >= key &&
+    (closure.region === null || closure.region === region)
+  ) || null;
+}
+
+export function isWorkingDay(
+  calendar: BusinessCalendar,
+  date: Date,
+  region: string | null = calendar.defaultRegion
+): boolean {
+  if (!calendar.workingDays.includes(date.getUTCDay())) return false;
+  return getClosureOn(calendar, date, region) === null;
+}
+
+/**
+ * Add whole working days to a timestamp, keeping the time of day. Returns
+ * null if the calendar stays closed for more than MAX_CLOSED_DAYS in a row.
+ */
+export function addWorkingDays(
+  calendar: BusinessCalendar,
+  start: Date,
+  days: number,
+  region: string | null = calendar.defaultRegion
+): Date | null {
+  const cursor = new Date(start.getTime());
+  if (days <= 0) return cursor;
+  if (calendar.workingDays.length === 0) return null;
+
+  let remaining = days;
+  let closedRun = 0;
+  while (remaining > 0) {
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+    if (isWorkingDay(calendar, cursor, region)) {
+      remaining--;
+      closedRun = 0;
+    } else if (++closedRun > MAX_CLOSED_DAYS) {
+      return null;
+    }
+  }
+
+  return cursor;
+}
+
+function dayBoundary(date: Date, hour: number): Date {
+  const boundary = new Date(date.getTime());
+  boundary.setUTCHours(hour, 0, 0, 0);
+  return boundary;
+}
+
+/**
+ * Move a timestamp forward to the next moment that falls inside working hours,
+ * or null if there is none within MAX_CLOSED_DAYS.
+ */
+function nextWorkingMoment(calendar: BusinessCalendar, date: Date, region: string | null): Date | null {
+  const cursor = new Date(date.getTime());
+
+  for (let day = 0; day <= MAX_CLOSED_DAYS; day++) {
+    if (isWorkingDay(calendar, cursor, region)) {
+      const dayStart = dayBoundary(cursor, calendar.dayStartHour);
+      const dayEnd = dayBoundary(cursor, calendar.dayEndHour);
+
+      if (cursor < dayStart) return dayStart;
+      if (cursor < dayEnd) return cursor;
+    }
+
+    // Jump to the start of the next day and try again
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+    cursor.setUTCHours(calendar.dayStartHour, 0, 0, 0);
+  }
+
+  return null;
+}
+
+/**
+ * Add a number of working hours to a timestamp. Returns null if the calendar
+ * stays closed for more than MAX_CLOSED_DAYS in a row.
+ */
+export function addWorkingHours(
+  calendar: BusinessCalendar,
+  start: Date,
+  hours: number,
+  region: string | null = calendar.defaultRegion
+): Date | null {
+  if (calendar.workingDays.length === 0 || calendar.dayEndHour <= calendar.dayStartHour) return null;
+
+  let remainingMs = hours * MS_PER_HOUR;
+  let cursor = nextWorkingMoment(calendar, start, region);
+
+  while (cursor && remainingMs > 0) {
+    const dayEnd = dayBoundary(cursor, calendar.dayEndHour);
+    const availableMs = dayEnd.getTime() - cursor.getTime();
+
+    if (remainingMs <= availableMs) {
+      return new Date(cursor.getTime() + remainingMs);
+    }
+
+    remainingMs -= availableMs;
+    cursor = nextWorkingMoment(calendar, dayEnd, region);
+  }
+
+  return cursor;
+}
+
+/**
+ * Working hours elapsed between two timestamps (0 if end is before start).
+ */
+export function getWorkingHoursBetween(
+  calendar: BusinessCalendar,
+  start: Date,
+  end: Date,
+  region: string | null = calendar.defaultRegion
+): number {
+  if (end <= start) return 0;
+
+  let totalMs = 0;
+  const day = dayBoundary(start, 0);
+
+  while (day < end) {
+    if (isWorkingDay(calendar, day, region)) {
+      const windowStart = Math.max(dayBoundary(day, calendar.dayStartHour).getTime(), start.getTime());
+      const windowEnd = Math.min(dayBoundary(day, calendar.dayEndHour).getTime(), end.getTime());
+      if (windowEnd > windowStart) totalMs += windowEnd - windowStart;
+    }
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  return totalMs / MS_PER_HOUR;
+}
+
+/**
+ * Working days between two timestamps, counting a part-worked day as the
+ * fraction of the working day it covers.
+ */
+export function getWorkingDaysBetween(
+  calendar: BusinessCalendar,
+  start: Date,
+  end: Date,
+  region: string | null = calendar.defaultRegion
+): number {
+  const hoursPerDay = calendar.dayEndHour - calendar.dayStartHour;
+  if (hoursPerDay <= 0) return 0;
+  return getWorkingHoursBetween(calendar, start, end, region) / hoursPerDay;
+}
+
+/**
+ * Count the working days in an inclusive YYYY-MM-DD date range.
+ */
+export function countWorkingDays(
+  calendar: BusinessCalendar,
+  startDate: string,
+  endDate: string,
+  region: string | null = calendar.defaultRegion
+): number {
+  let count = 0;
+  const cursor = new Date(`${startDate}T00:00:00Z`);
+  const last = new Date(`${endDate}T00:00:00Z`);
+
+  while (cursor <= last) {
+    if (isWorkingDay(calendar, cursor, region)) count++;
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return count;
+}
+
+/**
+ * Scale a user's normal weekly hours to the working days actually open in
+ * the week starting `weekStartDate` - a week with one public holiday in a
+ * Mon-Fri calendar keeps 4/5 of the hours.
+ */
+export function adjustWeeklyHoursForCalendar(
+  calendar: BusinessCalendar,
+  weekStartDate: string,
+  weeklyHours: number,
+  region: string | null = calendar.defaultRegion
+): number {
+  if (calendar.workingDays.length === 0) return weeklyHours;
+
+  const weekEnd = new Date(`${weekStartDate}T00:00:00Z`);
+  weekEnd.setUTCDate(weekEnd.getUTCDate() + 6);
+
+  const openDays = countWorkingDays(calendar, weekStartDate, toDateKey(weekEnd), region);
+  if (openDays >= calendar.workingDays.length) return weeklyHours;
+
+  return Math.round((weeklyHours * openDays / calendar.workingDays.length) * 100) / 100;
+}
+
+/**
+ * A user's hours on a single YYYY-MM-DD day: their weekly hours spread evenly
+ * over the calendar's working days, and none on a closed day.
+ */
+export function getDailyHoursForCalendar(
+  calendar: BusinessCalendar,
+  date: string,
+  weeklyHours: number,
+  region: string | null = calendar.defaultRegion
+): number {
+  if (calendar.workingDays.length === 0) return weeklyHours / 5;
+  if (!isWorkingDay(calendar, new Date(`${date}T00:00:00Z`), region)) return 0;
+  return weeklyHours / calendar.workingDays.length;
+}
+
+/**
+ * Map business_calendar / business_calendar_closures rows to a calendar
+ */
+export function toBusinessCalendar(settings: unknown, closures: unknown[]): BusinessCalendar {
+  const row = isRecord(settings) ? settings : {};
+  const workingDays = Array.isArray(row.working_days)
+    ? row.working_days.map(Number).filter((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+    : DEFAULT_BUSINESS_CALENDAR.workingDays;
+  const dayStartHour = Number(row.day_start_hour ?? DEFAULT_BUSINESS_CALENDAR.dayStartHour);
+  const dayEndHour = Number(row.day_end_hour ?? DEFAULT_BUSINESS_CALENDAR.dayEndHour);
+  const hoursValid = Number.isFinite(dayStartHour) && Number.isFinite(dayEndHour) && dayStartHour < dayEndHour;
+
+  return {
+    workingDays,
+    dayStartHour: hoursValid ? dayStartHour : DEFAULT_BUSINESS_CALENDAR.dayStartHour,
+    dayEndHour: hoursValid ? dayEndHour : DEFAULT_BUSINESS_CALENDAR.dayEndHour,
+    defaultRegion: isString(row.default_region) && row.default_region ? row.default_region : null,
+    closures: closures.filter(isRecord).map((closure) => ({
+      id: String(closure.id),
+      kind: closure.kind === 'shutdown' ? 'shutdown' : 'holiday',
+      name: isString(closure.name) ? closure.name : '',
+      start_date: String(closure.start_date),
+      end_date: String(closure.end_date),
+      region: isString(closure.region) && closure.region ? closure.region : null,
+    })),
+  };
+}
+
+/**
+ * Each user's calendar region (user_profiles.region); users without one are
+ * left out, so callers fall back to the calendar's default region.
+ */
+export async function getUserRegions(supabase: any, userIds: string[]): Promise<Map<string, string>> {
+  const regions = new Map<string, string>();
+  if (userIds.length === 0) return regions;
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('id, region')
+    .in('id', userIds);
+
+  if (error) {
+    console.error('Error loading user regions:', error);
+    return regions;
+  }
+
+  for (const row of data || []) {
+    if (isString(row.id) && isString(row.region) && row.region) regions.set(row.id, row.region);
+  }
+  return regions;
+}
+
+/**
+ * Load the organization's business calendar. Falls back to the default
+ * calendar if it can't be read, so duration math never fails on it.
+ */
+export async function getBusinessCalendar(supabase: any): Promise<BusinessCalendar> {
+  const [settingsResult, closuresResult] = await Promise.all([
+    supabase.from('business_calendar').select('*').maybeSingle(),
+    supabase.from('business_calendar_closures').select('*').order('start_date', { ascending: true }),
+  ]);
+
+  if (settingsResult.error || closuresResult.error) {
+    console.error('Error loading business calendar:', settingsResult.error || closuresResult.error);
+    return DEFAULT_BUSINESS_CALENDAR;
+  }
+
+  return toBusinessCalendar(settingsResult.data, closuresResult.data || []);
+}
@@ -0,0 +1,241 @@
+/**
+ * Capacity Allocation Service
+ * Reads and writes user_capacity_allocations - the percentage of a person's
+ * capacity given to an account (or a project within it) over a date range.
+ * The capacity routes load these and resolve shares with capacity-allocation.
+ */
+
+import { AccountCapacityScope, CapacityAllocationWeight } from './capacity-allocation';
+import { isString, isRecord, first } from './type-guards';
+
+export interface CapacityAllocationRow extends CapacityAllocationWeight {
+  accountName: string;
+  projectName: string | null;
+}
+
+export interface CapacityAllocationInput {
+  userId: string;
+  accountId: string;
+  projectId: string | null;
+  percent: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+const WEIGHT_COLUMNS = 'id, user_id, account_id, project_id, allocation_percent, effective_from, effective_to';
+
+function toWeight(row: Record<string, unknown>): CapacityAllocationWeight {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    accountId: row.account_id as string,
+    projectId: isString(row.project_id) ? row.project_id : null,
+    percent: Number(row.allocation_percent) || 0,
+    effectiveFrom: row.effective_from as string,
+    effectiveTo: isString(row.effective_to) ? row.effective_to : null,
+  };
+}
+
+function toRow(row: Record<string, unknown>): CapacityAllocationRow {
+  const account = first(row.accounts);
+  const project = first(row.projects);
+  return {
+    ...toWeight(row),
+    accountName: isString(account?.name) ? account.name : 'Unknown account',
+    projectName: isString(project?.name) ? project.name : null,
+  };
+}
+
+/**
+ * Weights for a set of users that overlap a date range. Errors are logged
+ * and treated as "no weights", so capacity falls back to the even split.
+ */
+export async function getCapacityAllocationWeights(
+  supabase: any,
+  params: { userIds: string[]; from: string; to: string }
+): Promise<CapacityAllocationWeight[]> {
+  if (params.userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('user_capacity_allocations')
+    .select(WEIGHT_COLUMNS)
+    .in('user_id', params.userIds)
+    .lte('effective_from', params.to)
+    .or(`effective_to.is.null,effective_to.gte.${params.from}`);
+
+  if (error) {
+    console.error('Error loading capacity allocations:', error);
+    return [];
+  }
+
+  return (data || []).filter(isRecord).map(toWeight);
+}
+
+/**
+ * Load what's needed to report a set of users' capacity for one account
+ */
+export async function getAccountCapacityScope(
+  supabase: any,
+  params: { accountId: string; userIds: string[]; from: string; to: string }
+): Promise<AccountCapacityScope> {
+  const [projectsResult, assignmentsResult, weights] = await Promise.all([
+    supabase
+      .from('projects')
+      .select('id')
+      .eq('account_id', params.accountId),
+    params.userIds.length > 0
+      ? supabase
+          .from('project_assignments')
+          .select('user_id, projects!inner(account_id)')
+          .in('user_id', params.userIds)
+          .is('removed_at', null)
+      : Promise.resolve({ data: [], error: null }),
+    getCapacityAllocationWeights(supabase, params),
+  ]);
+
+  if (projectsResult.error) {
+    console.error('Error loading account projects for capacity:', projectsResult.error);
+  }
+  if (assignmentsResult.error) {
+    console.error('Error loading project assignments for capacity:', assignmentsResult.error);
+  }
+
+  const userAccounts = new Map<string, Set<string>>();
+  for (const row of (assignmentsResult.data || []).filter(isRecord)) {
+    const accountId = first(row.projects)?.account_id;
+    if (!isString(row.user_id) || !isString(accountId)) continue;
+    const accounts = userAccounts.get(row.user_id) ?? new Set<string>();
+    accounts.add(accountId);
+    userAccounts.set(row.user_id, accounts);
+  }
+
+  return {
+    accountId: params.accountId,
+    projectIds: new Set((projectsResult.data || []).filter(isRecord).map((p: Record<string, unknown>) => p.id as string)),
+    userAccounts,
+    weights,
+  };
+}
+
+/**
+ * Every allocation row for a user, with account and project names, for the editor
+ */
+export async function listCapacityAllocations(supabase: any, userId: string): Promise<CapacityAllocationRow[]> {
+  const { data, error } = await supabase
+    .from('user_capacity_allocations')
+    .select(`${WEIGHT_COLUMNS}, accounts(name), projects(name)`)
+    .eq('user_id', userId)
+    .order('effective_from', { ascending: false });
+
+  if (error) {
+    console.error('Error listing capacity allocations:', error);
+    throw new Error('Failed to load capacity allocations');
+  }
+
+  return (data || []).filter(isRecord).map(toRow);
+}
+
+async function validateProjectAccount(supabase: any, accountId: string, projectId: string | null): Promise<string | null> {
+  if (!projectId) return null;
+
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, account_id')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (!project) return 'Project not found';
+  if (project.account_id !== accountId) return 'The project does not belong to this account';
+  return null;
+}
+
+export async function createCapacityAllocation(
+  supabase: any,
+  input: CapacityAllocationInput,
+  createdBy: string
+): Promise<{ success: boolean; allocation?: CapacityAllocationRow; error?: string }> {
+  const projectError = await validateProjectAccount(supabase, input.accountId, input.projectId);
+  if (projectError) return { success: false, error: projectError };
+
+  const { data, error } = await supabase
+    .from('user_capacity_allocations')
+    .insert({
+      user_id: input.userId,
+      account_id: input.accountId,
+      project_id: input.projectId,
+      allocation_percent: input.percent,
+      effective_from: input.effectiveFrom,
+      effective_to: input.effectiveTo,
+      created_by: createdBy,
+    })
+    .select(`${WEIGHT_COLUMNS}, accounts(name), projects(name)`)
+    .single();
+
+  if (error) {
+    console.error('Error creating capacity allocation:', error);
+    return { success: false, error: 'Failed to save capacity allocation' };
+  }
+
+  return { success: true, allocation: toRow(data) };
+}
+
+export async function updateCapacityAllocation(
+  supabase: any,
+  id: string,
+  updates: Partial<Pick<CapacityAllocationInput, 'projectId' | 'percent' | 'effectiveFrom' | 'effectiveTo'>>
+): Promise<{ success: boolean; allocation?: CapacityAllocationRow; error?: string }> {
+  const { data: existing } = await supabase
+    .from('user_capacity_allocations')
+    .select(WEIGHT_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (!existing) {
+    return { success: false, error: 'Capacity allocation not found' };
+  }
+
+  const current = toWeight(existing);
+  const effectiveFrom = updates.effectiveFrom ?? current.effectiveFrom;
+  const effectiveTo = updates.effectiveTo !== undefined ? updates.effectiveTo : current.effectiveTo;
+  if (effectiveTo && effectiveTo < effectiveFrom) {
+    return { success: false, error: 'The end date must be on or after the start date' };
+  }
+
+  if (updates.projectId !== undefined) {
+    const projectError = await validateProjectAccount(supabase, current.accountId, updates.projectId);
+    if (projectError) return { success: false, error: projectError };
+  }
+
+  const { data, error } = await supabase
+    .from('user_capacity_allocations')
+    .update({
+      ...(updates.projectId !== undefined && { project_id: updates.projectId }),
+      ...(updates.percent !== undefined && { allocation_percent: updates.percent }),
+      effective_from: effectiveFrom,
+      effective_to: effectiveTo,
+    })
+    .eq('id', id)
+    .select(`${WEIGHT_COLUMNS}, accounts(name), projects(name)`)
+    .single();
+
+  if (error) {
+    console.error('Error updating capacity allocation:', error);
+    return { success: false, error: 'Failed to save capacity allocation' };
+  }
+
+  return { success: true, allocation: toRow(data) };
+}
+
+export async function deleteCapacityAllocation(supabase: any, id: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('user_capacity_allocations')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting capacity allocation:', error);
+    return { success: false, error: 'Failed to delete capacity allocation' };
+  }
+
+  return { success: true };
+}
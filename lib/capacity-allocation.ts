@@ -0,0 +1,115 @@
+/**
+ * Capacity Allocation
+ * How a person's available hours are divided between the accounts they work
+ * on. Explicit percentages (user_capacity_allocations) win; accounts without
+ * one share whatever is left of 100% evenly, which is the old behaviour when
+ * nobody has set a split.
+ *
+ * Pure and client-safe; reads and writes live in capacity-allocation-service.
+ */
+
+export interface CapacityAllocationWeight {
+  id: string;
+  userId: string;
+  accountId: string;
+  // null = the share is for the whole account
+  projectId: string | null;
+  percent: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+/**
+ * What a capacity report needs to narrow itself to one account: the
+ * account's projects, the accounts each person works on, and their weights
+ */
+export interface AccountCapacityScope {
+  accountId: string;
+  projectIds: Set<string>;
+  userAccounts: Map<string, Set<string>>;
+  weights: CapacityAllocationWeight[];
+}
+
+/**
+ * Whether a weight applies on a date (YYYY-MM-DD)
+ */
+export function isWeightEffective(weight: CapacityAllocationWeight, date: string): boolean {
+  return weight.effectiveFrom <= date && (weight.effectiveTo === null || weight.effectiveTo >= date);
+}
+
+/**
+ * Explicit percentage per account for a user on a date. An account-level
+ * weight wins over the sum of that account's project weights.
+ */
+export function getExplicitAccountPercents(
+  weights: CapacityAllocationWeight[],
+  userId: string,
+  date: string
+): Map<string, number> {
+  const accountLevel = new Map<string, number>();
+  const projectLevel = new Map<string, number>();
+
+  for (const weight of weights) {
+    if (weight.userId !== userId || !isWeightEffective(weight, date)) continue;
+    const target = weight.projectId ? projectLevel : accountLevel;
+    target.set(weight.accountId, (target.get(weight.accountId) ?? 0) + weight.percent);
+  }
+
+  const percents = new Map(projectLevel);
+  accountLevel.forEach((percent, accountId) => percents.set(accountId, percent));
+  return percents;
+}
+
+/**
+ * Fraction (0-1) of a user's capacity that goes to an account on a date.
+ * `userAccountIds` are the accounts the user works on; accounts among them
+ * without an explicit weight split what's left of 100% evenly.
+ */
+export function getAccountCapacityShare(
+  weights: CapacityAllocationWeight[],
+  userId: string,
+  accountId: string,
+  userAccountIds: Iterable<string>,
+  date: string
+): number {
+  const explicit = getExplicitAccountPercents(weights, userId, date);
+  const explicitPercent = explicit.get(accountId);
+  if (explicitPercent !== undefined) {
+    return Math.min(explicitPercent, 100) / 100;
+  }
+
+  const unweighted = new Set(Array.from(userAccountIds).filter((id) => !explicit.has(id)));
+  unweighted.add(accountId);
+
+  const explicitTotal = Array.from(explicit.values()).reduce((sum, percent) => sum + percent, 0);
+  const remaining = Math.max(0, 100 - explicitTotal);
+  return remaining / 100 / unweighted.size;
+}
+
+/**
+ * Total explicit percentage for a user on a date - over 100 means the split
+ * promises more time than they have
+ */
+export function getTotalAllocationPercent(
+  weights: CapacityAllocationWeight[],
+  userId: string,
+  date: string
+): number {
+  return Array.from(getExplicitAccountPercents(weights, userId, date).values())
+    .reduce((sum, percent) => sum + percent, 0);
+}
+
+/**
+ * Fraction of a user's week that counts towards a report - all of it when
+ * the report isn't scoped to an account
+ */
+export function getScopedCapacityShare(scope: AccountCapacityScope | null, userId: string, weekStartDate: string): number {
+  if (!scope) return 1;
+  return getAccountCapacityShare(
+    scope.weights,
+    userId,
+    scope.accountId,
+    scope.userAccounts.get(userId) ?? [],
+    weekStartDate
+  );
+}
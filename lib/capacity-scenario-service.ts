@@ -0,0 +1,319 @@
+/**
+ * Capacity Scenario Service
+ * Reads and writes what-if capacity scenarios and computes their impact:
+ * live department and organization capacity from capacityService, with the
+ * scenario's tentative hours added on top in memory.
+ *
+ * Scenario tables are separate from projects, tasks and allocations, so a
+ * scenario can't change real capacity numbers however it's edited.
+ */
+
+import { capacityService } from './services/capacity-service';
+import {
+  BaselineWeek,
+  buildScenarioImpact,
+  CapacityScenario,
+  getScenarioWeeks,
+  ScenarioDemand,
+  ScenarioImpact,
+  ScenarioProject,
+  ScenarioRole,
+} from './capacity-scenario';
+import { isString, isRecord, first } from './type-guards';
+
+export interface ScenarioProjectInput {
+  name: string;
+  accountId: string | null;
+  clientName: string | null;
+  notes: string | null;
+  demands: ScenarioDemand[];
+}
+
+const SCENARIO_COLUMNS = 'id, name, description, created_by, created_at, updated_at';
+
+function toScenario(row: Record<string, unknown>): CapacityScenario {
+  const owner = first(row.user_profiles);
+  const projects = Array.isArray(row.capacity_scenario_projects) ? row.capacity_scenario_projects : [];
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    description: isString(row.description) ? row.description : null,
+    createdBy: row.created_by as string,
+    createdByName: isString(owner?.name) ? owner.name : null,
+    projectCount: projects.length,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function toProject(row: Record<string, unknown>): ScenarioProject {
+  const demands = Array.isArray(row.capacity_scenario_demands) ? row.capacity_scenario_demands : [];
+  return {
+    id: row.id as string,
+    scenarioId: row.scenario_id as string,
+    name: row.name as string,
+    accountId: isString(row.account_id) ? row.account_id : null,
+    clientName: isString(row.client_name) ? row.client_name : null,
+    notes: isString(row.notes) ? row.notes : null,
+    demands: demands
+      .filter(isRecord)
+      .map((d: Record<string, unknown>) => ({
+        roleId: d.role_id as string,
+        weekStartDate: d.week_start_date as string,
+        hours: Number(d.hours) || 0,
+      }))
+      .sort((a: ScenarioDemand, b: ScenarioDemand) => a.weekStartDate.localeCompare(b.weekStartDate)),
+  };
+}
+
+/**
+ * Only the scenario's owner (or a superadmin) changes it; everyone else who
+ * can see org capacity may look
+ */
+export function canEditCapacityScenario(scenario: CapacityScenario, userId: string, superadmin: boolean): boolean {
+  return superadmin || scenario.createdBy === userId;
+}
+
+export async function listCapacityScenarios(supabase: any): Promise<CapacityScenario[]> {
+  const { data, error } = await supabase
+    .from('capacity_scenarios')
+    .select(`${SCENARIO_COLUMNS}, user_profiles!capacity_scenarios_created_by_fkey(name), capacity_scenario_projects(id)`)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    console.error('Error listing capacity scenarios:', error);
+    throw new Error('Failed to load capacity scenarios');
+  }
+
+  return (data || []).filter(isRecord).map(toScenario);
+}
+
+export async function getCapacityScenario(
+  supabase: any,
+  id: string
+): Promise<{ scenario: CapacityScenario; projects: ScenarioProject[] } | null> {
+  const { data, error } = await supabase
+    .from('capacity_scenarios')
+    .select(`${SCENARIO_COLUMNS}, user_profiles!capacity_scenarios_created_by_fkey(name), capacity_scenario_projects(id, scenario_id, name, account_id, client_name, notes, created_at, capacity_scenario_demands(role_id, week_start_date, hours))`)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading capacity scenario:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  const projectRows = (Array.isArray(data.capacity_scenario_projects) ? data.capacity_scenario_projects : [])
+    .filter(isRecord)
+    .sort((a: Record<string, unknown>, b: Record<string, unknown>) => String(a.created_at).localeCompare(String(b.created_at)));
+
+  return { scenario: toScenario(data), projects: projectRows.map(toProject) };
+}
+
+/**
+ * Roles a scenario can ask for, with the department their hours land on
+ */
+export async function getScenarioRoles(supabase: any): Promise<ScenarioRole[]> {
+  const { data, error } = await supabase
+    .from('roles')
+    .select('id, name, department_id, departments!roles_department_id_fkey(id, name)')
+    .order('name');
+
+  if (error) {
+    console.error('Error loading roles for capacity scenarios:', error);
+    return [];
+  }
+
+  return (data || []).filter(isRecord).map((row: Record<string, unknown>) => {
+    const department = first(row.departments);
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      departmentId: isString(row.department_id) ? row.department_id : null,
+      departmentName: isString(department?.name) ? department.name : null,
+    };
+  });
+}
+
+export async function createCapacityScenario(
+  supabase: any,
+  input: { name: string; description: string | null; createdBy: string }
+): Promise<{ success: boolean; scenario?: CapacityScenario; error?: string }> {
+  const { data, error } = await supabase
+    .from('capacity_scenarios')
+    .insert({ name: input.name.trim(), description: input.description, created_by: input.createdBy })
+    .select(`${SCENARIO_COLUMNS}, user_profiles!capacity_scenarios_created_by_fkey(name)`)
+    .single();
+
+  if (error) {
+    console.error('Error creating capacity scenario:', error);
+    return { success: false, error: 'Failed to create scenario' };
+  }
+
+  return { success: true, scenario: toScenario(data) };
+}
+
+export async function updateCapacityScenario(
+  supabase: any,
+  id: string,
+  updates: { name?: string; description?: string | null }
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('capacity_scenarios')
+    .update({
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.description !== undefined && { description: updates.description }),
+    })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating capacity scenario:', error);
+    return { success: false, error: 'Failed to update scenario' };
+  }
+
+  return { success: true };
+}
+
+export async function deleteCapacityScenario(supabase: any, id: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('capacity_scenarios')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting capacity scenario:', error);
+    return { success: false, error: 'Failed to delete scenario' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Create a tentative project (projectId null) or replace one's details and
+ * weekly demand
+ */
+export async function saveScenarioProject(
+  supabase: any,
+  scenarioId: string,
+  projectId: string | null,
+  input: ScenarioProjectInput
+): Promise<{ success: boolean; projectId?: string; error?: string }> {
+  const fields = {
+    name: input.name.trim(),
+    account_id: input.accountId,
+    client_name: input.clientName,
+    notes: input.notes,
+  };
+
+  let savedId = projectId;
+  if (projectId) {
+    const { data, error } = await supabase
+      .from('capacity_scenario_projects')
+      .update(fields)
+      .eq('id', projectId)
+      .eq('scenario_id', scenarioId)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating scenario project:', error);
+      return { success: false, error: 'Failed to save project' };
+    }
+    if (!data) return { success: false, error: 'Project not found' };
+
+    const { error: clearError } = await supabase
+      .from('capacity_scenario_demands')
+      .delete()
+      .eq('scenario_project_id', projectId);
+
+    if (clearError) {
+      console.error('Error clearing scenario project demand:', clearError);
+      return { success: false, error: 'Failed to save project' };
+    }
+  } else {
+    const { data, error } = await supabase
+      .from('capacity_scenario_projects')
+      .insert({ ...fields, scenario_id: scenarioId })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error creating scenario project:', error);
+      return { success: false, error: 'Failed to save project' };
+    }
+    savedId = data.id as string;
+  }
+
+  // One row per role per week - repeated entries are added together
+  const merged = new Map<string, ScenarioDemand>();
+  for (const demand of input.demands) {
+    const key = `${demand.roleId}:${demand.weekStartDate}`;
+    const existing = merged.get(key);
+    merged.set(key, { ...demand, hours: (existing?.hours ?? 0) + demand.hours });
+  }
+
+  if (merged.size > 0) {
+    const { error } = await supabase
+      .from('capacity_scenario_demands')
+      .insert(Array.from(merged.values()).map((d) => ({
+        scenario_project_id: savedId,
+        role_id: d.roleId,
+        week_start_date: d.weekStartDate,
+        hours: d.hours,
+      })));
+
+    if (error) {
+      console.error('Error saving scenario project demand:', error);
+      return { success: false, error: 'Failed to save the project\'s hours' };
+    }
+  }
+
+  return { success: true, projectId: savedId as string };
+}
+
+export async function deleteScenarioProject(
+  supabase: any,
+  scenarioId: string,
+  projectId: string
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('capacity_scenario_projects')
+    .delete()
+    .eq('id', projectId)
+    .eq('scenario_id', scenarioId);
+
+  if (error) {
+    console.error('Error deleting scenario project:', error);
+    return { success: false, error: 'Failed to delete project' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Department and organization utilization, week by week, with and without
+ * the scenario. Live numbers come from capacityService.getOrgCapacityMetrics.
+ */
+export async function getScenarioImpact(
+  supabase: any,
+  projects: ScenarioProject[]
+): Promise<ScenarioImpact> {
+  const weeks = getScenarioWeeks(projects);
+  const [roles, orgMetrics] = await Promise.all([
+    getScenarioRoles(supabase),
+    Promise.all(weeks.map((week) => capacityService.getOrgCapacityMetrics(week, supabase))),
+  ]);
+
+  const baseline: BaselineWeek[] = weeks.map((weekStartDate, i) => ({
+    weekStartDate,
+    departments: (orgMetrics[i]?.departmentMetrics || []).map((d) => ({
+      id: d.departmentId,
+      name: d.departmentName,
+      available: d.totalAvailableHours,
+      allocated: d.totalAllocatedHours,
+    })),
+  }));
+
+  return buildScenarioImpact(baseline, projects, roles);
+}
@@ -0,0 +1,252 @@
+/**
+ * Capacity Scenarios
+ * Shapes and arithmetic for what-if capacity sandboxes: tentative projects
+ * with the hours they'd need from each role per week, laid over the live
+ * department and organization capacity to show where utilization would go
+ * over 100%.
+ *
+ * Scenario hours are only ever added on top of capacityService numbers in
+ * memory - they're never written into allocations or read by the real
+ * capacity routes. Pure and client-safe; reads and writes live in
+ * capacity-scenario-service.
+ */
+
+import { getPlannerWeeks, roundHours, shiftWeek, splitHoursAcrossWeeks, toWeekStart } from './resource-planner';
+
+// Each week of impact recomputes org capacity, so keep the horizon bounded
+export const MAX_SCENARIO_WEEKS = 16;
+
+export interface CapacityScenario {
+  id: string;
+  name: string;
+  description: string | null;
+  createdBy: string;
+  createdByName: string | null;
+  projectCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScenarioDemand {
+  roleId: string;
+  weekStartDate: string;
+  hours: number;
+}
+
+export interface ScenarioProject {
+  id: string;
+  scenarioId: string;
+  name: string;
+  accountId: string | null;
+  clientName: string | null;
+  notes: string | null;
+  demands: ScenarioDemand[];
+}
+
+export interface ScenarioRole {
+  id: string;
+  name: string;
+  departmentId: string | null;
+  departmentName: string | null;
+}
+
+export interface ScenarioCapacityPoint {
+  weekStartDate: string;
+  available: number;
+  allocated: number;
+  scenarioHours: number;
+  baselineUtilization: number;
+  scenarioUtilization: number;
+}
+
+export interface ScenarioDepartmentImpact {
+  departmentId: string;
+  departmentName: string;
+  points: ScenarioCapacityPoint[];
+}
+
+export interface ScenarioOverload {
+  weekStartDate: string;
+  // null = the organization as a whole
+  departmentId: string | null;
+  departmentName: string;
+  baselineUtilization: number;
+  scenarioUtilization: number;
+}
+
+export interface ScenarioImpact {
+  weeks: string[];
+  organization: ScenarioCapacityPoint[];
+  departments: ScenarioDepartmentImpact[];
+  // Weeks that go over 100% because of the scenario (or were already over and get worse)
+  overloads: ScenarioOverload[];
+  // Demand for roles that don't belong to a department - counted in the org total only
+  unassignedHours: number;
+}
+
+/**
+ * Live capacity for one week, per department, as capacityService reports it
+ */
+export interface BaselineWeek {
+  weekStartDate: string;
+  departments: { id: string; name: string; available: number; allocated: number }[];
+}
+
+/**
+ * Spread a role's hours evenly over consecutive weeks from `startWeek`
+ */
+export function spreadDemand(roleId: string, totalHours: number, startWeek: string, weekCount: number): ScenarioDemand[] {
+  const weeks = getPlannerWeeks(startWeek, Math.min(weekCount, MAX_SCENARIO_WEEKS));
+  const hours = splitHoursAcrossWeeks(totalHours, weeks.length);
+  return weeks
+    .map((weekStartDate, i) => ({ roleId, weekStartDate, hours: hours[i] ?? 0 }))
+    .filter((demand) => demand.hours > 0);
+}
+
+/**
+ * A role's demand as planners enter it: a total spread over a run of weeks
+ */
+export interface ScenarioDemandLine {
+  roleId: string;
+  totalHours: number;
+  startWeek: string;
+  weekCount: number;
+}
+
+/**
+ * Collapse stored weekly demand back into one line per role, covering the
+ * weeks from its first to its last entry
+ */
+export function toDemandLines(demands: ScenarioDemand[]): ScenarioDemandLine[] {
+  const byRole = new Map<string, ScenarioDemand[]>();
+  for (const demand of demands) {
+    byRole.set(demand.roleId, [...(byRole.get(demand.roleId) ?? []), demand]);
+  }
+
+  return Array.from(byRole.entries()).map(([roleId, roleDemands]) => {
+    const weeks = roleDemands.map((d) => toWeekStart(d.weekStartDate)).sort();
+    let weekCount = 1;
+    for (let week = weeks[0]; week < weeks[weeks.length - 1]; week = shiftWeek(week, 1)) weekCount++;
+    return {
+      roleId,
+      totalHours: getTotalDemandHours(roleDemands),
+      startWeek: weeks[0],
+      weekCount: Math.min(weekCount, MAX_SCENARIO_WEEKS),
+    };
+  });
+}
+
+/**
+ * Every week from the first to the last demand across a scenario's projects,
+ * capped at MAX_SCENARIO_WEEKS
+ */
+export function getScenarioWeeks(projects: ScenarioProject[]): string[] {
+  const demandWeeks = projects.flatMap((p) => p.demands.map((d) => toWeekStart(d.weekStartDate))).sort();
+  if (demandWeeks.length === 0) return [];
+
+  const first = demandWeeks[0];
+  const last = demandWeeks[demandWeeks.length - 1];
+  const weeks: string[] = [];
+  for (let week = first; week <= last && weeks.length < MAX_SCENARIO_WEEKS; week = shiftWeek(week, 1)) {
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+export function getTotalDemandHours(demands: ScenarioDemand[]): number {
+  return roundHours(demands.reduce((sum, d) => sum + d.hours, 0));
+}
+
+/**
+ * Planned utilization: allocated hours as a percentage of available hours
+ */
+export function getPlannedUtilization(allocated: number, available: number): number {
+  if (available <= 0) return allocated > 0 ? 100 : 0;
+  return Math.round((allocated / available) * 100);
+}
+
+function toPoint(weekStartDate: string, available: number, allocated: number, scenarioHours: number): ScenarioCapacityPoint {
+  return {
+    weekStartDate,
+    available: roundHours(available),
+    allocated: roundHours(allocated),
+    scenarioHours: roundHours(scenarioHours),
+    baselineUtilization: getPlannedUtilization(allocated, available),
+    scenarioUtilization: getPlannedUtilization(allocated + scenarioHours, available),
+  };
+}
+
+/**
+ * Lay a scenario's demand over live capacity. Role demand lands on the
+ * role's department; the organization curve is the sum of departments plus
+ * any demand for roles without one.
+ */
+export function buildScenarioImpact(
+  baseline: BaselineWeek[],
+  projects: ScenarioProject[],
+  roles: ScenarioRole[]
+): ScenarioImpact {
+  const roleDepartments = new Map(roles.map((role) => [role.id, role.departmentId]));
+  const weeks = baseline.map((week) => week.weekStartDate);
+  const weekSet = new Set(weeks);
+
+  // week -> department (or '' for none) -> hours
+  const demandByWeek = new Map<string, Map<string, number>>();
+  let unassignedHours = 0;
+  for (const demand of projects.flatMap((p) => p.demands)) {
+    const week = toWeekStart(demand.weekStartDate);
+    if (!weekSet.has(week)) continue;
+    const departmentId = roleDepartments.get(demand.roleId) || '';
+    if (!departmentId) unassignedHours += demand.hours;
+    const byDepartment = demandByWeek.get(week) ?? new Map<string, number>();
+    byDepartment.set(departmentId, (byDepartment.get(departmentId) ?? 0) + demand.hours);
+    demandByWeek.set(week, byDepartment);
+  }
+
+  const departments = new Map<string, ScenarioDepartmentImpact>();
+  const organization: ScenarioCapacityPoint[] = [];
+
+  for (const week of baseline) {
+    const demand = demandByWeek.get(week.weekStartDate) ?? new Map<string, number>();
+    let orgAvailable = 0;
+    let orgAllocated = 0;
+
+    for (const department of week.departments) {
+      const entry = departments.get(department.id) ?? { departmentId: department.id, departmentName: department.name, points: [] };
+      entry.points.push(toPoint(week.weekStartDate, department.available, department.allocated, demand.get(department.id) ?? 0));
+      departments.set(department.id, entry);
+      orgAvailable += department.available;
+      orgAllocated += department.allocated;
+    }
+
+    const orgDemand = Array.from(demand.values()).reduce((sum, hours) => sum + hours, 0);
+    organization.push(toPoint(week.weekStartDate, orgAvailable, orgAllocated, orgDemand));
+  }
+
+  const overloads: ScenarioOverload[] = [];
+  const addOverloads = (departmentId: string | null, departmentName: string, points: ScenarioCapacityPoint[]) => {
+    for (const point of points) {
+      if (point.scenarioHours > 0 && point.scenarioUtilization > 100) {
+        overloads.push({
+          weekStartDate: point.weekStartDate,
+          departmentId,
+          departmentName,
+          baselineUtilization: point.baselineUtilization,
+          scenarioUtilization: point.scenarioUtilization,
+        });
+      }
+    }
+  };
+
+  addOverloads(null, 'Organization', organization);
+  const departmentList = Array.from(departments.values()).sort((a, b) => a.departmentName.localeCompare(b.departmentName));
+  departmentList.forEach((d) => addOverloads(d.departmentId, d.departmentName, d.points));
+
+  return {
+    weeks,
+    organization,
+    departments: departmentList,
+    overloads: overloads.sort((a, b) => a.weekStartDate.localeCompare(b.weekStartDate)),
+    unassignedHours: roundHours(unassignedHours),
+  };
+}
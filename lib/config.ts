@@ -53,6 +53,12 @@ export const config = {
       windowMs: 15 * 60 * 1000, // 15 minutes
       maxRequests: process.env.NODE_ENV === 'development' ? 1000 : 5,
     },
+
+    // Submissions per IP per intake form (public and client portal intake forms)
+    intake: {
+      windowMs: 60 * 60 * 1000, // 1 hour
+      maxRequests: process.env.NODE_ENV === 'development' ? 1000 : 5,
+    },
   },
 
   // Error handling configuration
@@ -95,6 +101,44 @@ export const config = {
     },
   },
 
+  // File upload configuration (form "file" fields and workflow step attachments)
+  uploads: {
+    // 'supabase' stores files in a private Supabase Storage bucket; 'local' writes
+    // them to disk for self-hosted installs without Storage
+    backend: (process.env.UPLOAD_STORAGE_BACKEND === 'local' ? 'local' : 'supabase') as 'supabase' | 'local',
+
+    // Supabase Storage bucket (created by the workflow attachments migration)
+    bucket: process.env.UPLOAD_STORAGE_BUCKET || 'workflow-attachments',
+
+    // Directory used by the local backend
+    localDirectory: process.env.UPLOAD_LOCAL_DIR || './uploads',
+
+    // Per-file size limit
+    maxFileSizeBytes: Number(process.env.UPLOAD_MAX_FILE_SIZE_MB || 10) * 1024 * 1024,
+
+    // Accepted MIME types
+    allowedMimeTypes: [
+      'application/pdf',
+      'image/png',
+      'image/jpeg',
+      'image/gif',
+      'image/webp',
+      'text/plain',
+      'text/csv',
+      'application/zip',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+
+    // Optional virus scanner: every upload is POSTed here and must come back
+    // { "clean": true } before it is stored. Unset = no scanning.
+    virusScanUrl: process.env.UPLOAD_VIRUS_SCAN_URL || '',
+  },
+
   // Validation configuration
   validation: {
     // Strict validation in production
@@ -113,4 +157,4 @@ export function getConfig<K extends keyof Config>(key: K): Config[K] {
 }
 
 // Export individual sections for convenience
-export const { demo, logging, rateLimit, errors, security, validation } = config;
+export const { demo, logging, rateLimit, errors, security, uploads, validation } = config;
@@ -0,0 +1,113 @@
+/**
+ * File Storage
+ * Pluggable backend for uploaded files. Supabase Storage (private bucket,
+ * accessed with the service role) is the default; self-hosted installs
+ * without Storage can set UPLOAD_STORAGE_BACKEND=local to write to disk.
+ *
+ * IMPORTANT: backends do no access checks of their own - callers must check
+ * the user may see a file (via its metadata row) before reading it.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from './config';
+import { createCronSupabaseClient } from './cron-auth';
+
+export type FileStorageBackendName = 'supabase' | 'local';
+
+export interface FileStorageBackend {
+  name: FileStorageBackendName;
+  put(storagePath: string, data: Buffer, contentType: string): Promise<void>;
+  get(storagePath: string): Promise<Buffer | null>;
+  remove(storagePath: string): Promise<void>;
+}
+
+const supabaseBackend: FileStorageBackend = {
+  name: 'supabase',
+
+  async put(storagePath, data, contentType) {
+    const client = createCronSupabaseClient();
+    if (!client) throw new Error('File storage is not configured (SUPABASE_SERVICE_ROLE_KEY missing)');
+
+    const { error } = await client.storage
+      .from(config.uploads.bucket)
+      .upload(storagePath, data, { contentType, upsert: false });
+    if (error) throw new Error(error.message);
+  },
+
+  async get(storagePath) {
+    const client = createCronSupabaseClient();
+    if (!client) return null;
+
+    const { data, error } = await client.storage.from(config.uploads.bucket).download(storagePath);
+    if (error || !data) return null;
+    return Buffer.from(await data.arrayBuffer());
+  },
+
+  async remove(storagePath) {
+    const client = createCronSupabaseClient();
+    if (!client) return;
+
+    const { error } = await client.storage.from(config.uploads.bucket).remove([storagePath]);
+    if (error) console.error('Error removing file from storage:', error);
+  },
+};
+
+/**
+ * Resolve a storage path inside the upload directory, refusing anything that
+ * would escape it.
+ */
+function resolveLocalPath(storagePath: string): string {
+  const root = path.resolve(config.uploads.localDirectory);
+  const resolved = path.resolve(root, storagePath);
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new Error('Invalid storage path');
+  }
+  return resolved;
+}
+
+const localBackend: FileStorageBackend = {
+  name: 'local',
+
+  async put(storagePath, data) {
+    const filePath = resolveLocalPath(storagePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data, { flag: 'wx' });
+  },
+
+  async get(storagePath) {
+    try {
+      return await fs.readFile(resolveLocalPath(storagePath));
+    } catch {
+      return null;
+    }
+  },
+
+  async remove(storagePath) {
+    try {
+      await fs.unlink(resolveLocalPath(storagePath));
+    } catch (error: unknown) {
+      console.error('Error removing file from local storage:', error);
+    }
+  },
+};
+
+const BACKENDS: Record<FileStorageBackendName, FileStorageBackend> = {
+  supabase: supabaseBackend,
+  local: localBackend,
+};
+
+/**
+ * The backend new uploads go to
+ */
+export function getFileStorage(): FileStorageBackend {
+  return BACKENDS[config.uploads.backend];
+}
+
+/**
+ * The backend an existing file was stored with (files stay readable after
+ * the configured backend changes)
+ */
+export function getFileStorageFor(name: string): FileStorageBackend | null {
+  return name === 'supabase' || name === 'local' ? BACKENDS[name] : null;
+}
@@ -0,0 +1,157 @@
+/**
+ * Form Field Types
+ * Value shapes and helpers for the structured form field types (repeaters,
+ * tables, signatures, user/account/project pickers, currency and rating).
+ * Pure and client-safe: shared by the form builder, the step form renderer,
+ * form-service validation and conditional routing.
+ *
+ * Stored values:
+ * - repeater: one object per row, keyed by subfield id
+ * - table: one object per configured row label, keyed by column (subfield) id
+ * - user/account/project: { id, name } - the name is kept so responses stay
+ *   readable without a lookup
+ * - signature: { mode, data, signedAt } - data is a PNG data URL when drawn,
+ *   the signer's typed name otherwise
+ * - currency: number (the currency code lives on the field)
+ * - rating: whole number from 1 to validation.max (default 5)
+ * - computed: number, calculated from other fields (see form-logic)
+ */
+
+import { isString, isRecord } from '@/lib/type-guards';
+
+export type ReferenceFieldType = 'user' | 'account' | 'project';
+
+export interface FormReferenceValue {
+  id: string;
+  name: string;
+}
+
+export interface SignatureValue {
+  mode: 'drawn' | 'typed';
+  data: string;
+  signedAt: string;
+}
+
+export const REFERENCE_FIELD_TYPES: ReferenceFieldType[] = ['user', 'account', 'project'];
+
+// Table each picker reads its options from, and the column shown to users
+export const REFERENCE_FIELD_SOURCES: Record<ReferenceFieldType, { table: string; labelColumn: string }> = {
+  user: { table: 'user_profiles', labelColumn: 'name' },
+  account: { table: 'accounts', labelColumn: 'name' },
+  project: { table: 'projects', labelColumn: 'name' },
+};
+
+// Field types that can be used as repeater subfields and table columns
+export const SUBFIELD_TYPES = [
+  'text',
+  'textarea',
+  'number',
+  'currency',
+  'date',
+  'dropdown',
+  'email',
+  'url',
+  'checkbox',
+] as const;
+
+export const DEFAULT_CURRENCY = 'USD';
+export const DEFAULT_MAX_RATING = 5;
+// Drawn signatures are small PNGs; anything bigger isn't a signature
+export const MAX_SIGNATURE_DATA_LENGTH = 200_000;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isReferenceFieldType(type: string): type is ReferenceFieldType {
+  return (REFERENCE_FIELD_TYPES as string[]).includes(type);
+}
+
+export function isSubfieldType(type: string): boolean {
+  return (SUBFIELD_TYPES as readonly string[]).includes(type);
+}
+
+export function isFormReferenceValue(value: unknown): value is FormReferenceValue {
+  return isRecord(value) && isString(value.id) && UUID_REGEX.test(value.id) && isString(value.name);
+}
+
+export function isSignatureValue(value: unknown): value is SignatureValue {
+  if (!isRecord(value) || !isString(value.data) || !isString(value.signedAt)) return false;
+  if (value.mode === 'typed') return value.data.trim().length > 0;
+  return value.mode === 'drawn' && value.data.startsWith('data:image/png;base64,');
+}
+
+/**
+ * Whether a response value counts as "not answered" - used for required
+ * checks and the is_empty / is_not_empty conditions
+ */
+export function isEmptyFormValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (isRecord(value) && 'signedAt' in value) return !isString(value.data) || value.data.trim() === '';
+  return false;
+}
+
+/**
+ * Initial value for a field when a form is opened
+ */
+export function getInitialFormValue(field: {
+  type: string;
+  defaultValue?: unknown;
+  rows?: string[];
+}): unknown {
+  if (field.defaultValue !== undefined) return field.defaultValue;
+  switch (field.type) {
+    case 'checkbox':
+      return false;
+    case 'multiselect':
+    case 'repeater':
+      return [];
+    case 'table':
+      return (field.rows || []).map(() => ({}));
+    default:
+      return '';
+  }
+}
+
+/**
+ * Plain-text rendering of a response value, for read-only views and exports
+ */
+export function formatFormValue(
+  field: { type: string; currency?: string; validation?: { max?: number } },
+  value: unknown
+): string {
+  if (isEmptyFormValue(value)) return '';
+
+  switch (field.type) {
+    case 'currency':
+      return formatCurrency(Number(value), field.currency);
+    case 'rating':
+      return `${value} / ${field.validation?.max || DEFAULT_MAX_RATING}`;
+    case 'computed':
+      return field.currency ? formatCurrency(Number(value), field.currency) : String(value);
+    case 'user':
+    case 'account':
+    case 'project':
+      return isFormReferenceValue(value) ? value.name : String(value);
+    case 'signature':
+      return isSignatureValue(value)
+        ? `Signed${value.mode === 'typed' ? ` by ${value.data}` : ''} on ${new Date(value.signedAt).toLocaleDateString()}`
+        : '';
+    case 'repeater':
+    case 'table':
+      return Array.isArray(value) ? `${value.length} row${value.length === 1 ? '' : 's'}` : '';
+  }
+
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  if (!Number.isFinite(amount)) return '';
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown currency code
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
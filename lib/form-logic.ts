@@ -0,0 +1,526 @@
+/**
+ * Form Logic
+ * Condition operators, visibility expressions, cross-field validation rules and
+ * computed fields. Pure and client-safe so the step form, validateFormResponse
+ * and conditional routing all evaluate a form the same way.
+ *
+ * - Visibility: FormField.conditional is either the original { show_if, equals }
+ *   pair or a FormConditionGroup - AND/OR groups of rules, nestable up to
+ *   MAX_CONDITION_DEPTH levels.
+ * - Validation rules: FormField.validationRules - each condition must hold for
+ *   the field's answer to be accepted (e.g. end date after start date).
+ * - Computed fields: type 'computed' with a FormComputation over other fields,
+ *   including repeater/table columns ("fieldId.subfieldId").
+ */
+
+import { isEmptyFormValue, isFormReferenceValue } from './form-field-types';
+import { isString, isRecord } from './type-guards';
+
+export type FormConditionOperator =
+  | 'equals'
+  | 'contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'greater_than'
+  | 'less_than'
+  | 'greater_or_equal'
+  | 'less_or_equal'
+  | 'between'
+  | 'before'
+  | 'after'
+  | 'is_checked'
+  | 'is_not_checked'
+  | 'count_equals'
+  | 'count_greater_than'
+  | 'count_less_than';
+
+export const FORM_CONDITION_OPERATORS: FormConditionOperator[] = [
+  'equals', 'contains', 'starts_with', 'ends_with', 'is_empty', 'is_not_empty',
+  'greater_than', 'less_than', 'greater_or_equal', 'less_or_equal', 'between',
+  'before', 'after', 'is_checked', 'is_not_checked',
+  'count_equals', 'count_greater_than', 'count_less_than',
+];
+
+export interface FormConditionRule {
+  // "fieldId.subfieldId" targets a repeater/table column and matches when any row does
+  fieldId: string;
+  operator: FormConditionOperator;
+  value?: string;
+  value2?: string;
+  // Compare against another field's answer instead of a fixed value
+  valueFieldId?: string;
+}
+
+export interface FormConditionGroup {
+  combinator: 'and' | 'or';
+  conditions: FormCondition[];
+}
+
+export type FormCondition = FormConditionRule | FormConditionGroup;
+
+// The original single-pair conditional, still supported
+export interface LegacyFieldConditional {
+  show_if: string;
+  equals: unknown;
+}
+
+export type FieldConditional = LegacyFieldConditional | FormConditionGroup;
+
+export interface FormValidationRule {
+  condition: FormConditionGroup;
+  message: string;
+}
+
+export type FormComputationOperation = 'sum' | 'average' | 'min' | 'max' | 'count' | 'product' | 'difference';
+
+export interface FormComputation {
+  operation: FormComputationOperation;
+  // Plain field ids, or "fieldId.subfieldId" to take every row of a repeater/table column
+  fieldIds: string[];
+  decimals?: number;
+}
+
+export const FORM_COMPUTATION_OPERATIONS: { value: FormComputationOperation; label: string }[] = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'average', label: 'Average' },
+  { value: 'min', label: 'Minimum' },
+  { value: 'max', label: 'Maximum' },
+  { value: 'count', label: 'Count of answers' },
+  { value: 'product', label: 'Multiply' },
+  { value: 'difference', label: 'First minus the rest' },
+];
+
+export const MAX_CONDITION_DEPTH = 3;
+const VALUELESS_OPERATORS: FormConditionOperator[] = ['is_empty', 'is_not_empty', 'is_checked', 'is_not_checked'];
+const DEFAULT_COMPUTED_DECIMALS = 2;
+
+// The parts of a field definition the logic reads
+export interface FormLogicField {
+  id: string;
+  type: string;
+  label: string;
+  conditional?: FieldConditional;
+  validationRules?: FormValidationRule[];
+  computation?: FormComputation;
+}
+
+type ConditionOperatorOption = { value: string; label: string; needsValue: boolean; needsValue2?: boolean };
+
+const TEXT_OPERATORS: ConditionOperatorOption[] = [
+  { value: 'equals', label: 'Equals', needsValue: true },
+  { value: 'contains', label: 'Contains', needsValue: true },
+  { value: 'starts_with', label: 'Starts with', needsValue: true },
+  { value: 'ends_with', label: 'Ends with', needsValue: true },
+  { value: 'is_empty', label: 'Is empty', needsValue: false },
+  { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
+];
+
+const NUMBER_OPERATORS: ConditionOperatorOption[] = [
+  { value: 'equals', label: 'Equals', needsValue: true },
+  { value: 'greater_than', label: 'Greater than', needsValue: true },
+  { value: 'less_than', label: 'Less than', needsValue: true },
+  { value: 'greater_or_equal', label: 'Greater than or equal', needsValue: true },
+  { value: 'less_or_equal', label: 'Less than or equal', needsValue: true },
+  { value: 'between', label: 'Between', needsValue: true, needsValue2: true },
+  { value: 'is_empty', label: 'Is empty', needsValue: false },
+  { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
+];
+
+const REFERENCE_OPERATORS: ConditionOperatorOption[] = [
+  { value: 'equals', label: 'Is (name)', needsValue: true },
+  { value: 'contains', label: 'Name contains', needsValue: true },
+  { value: 'is_empty', label: 'Is empty', needsValue: false },
+  { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
+];
+
+/**
+ * Operators offered for each field type - shared by conditional branches in
+ * the workflow editor and by form visibility/validation rules
+ */
+export const CONDITION_OPERATORS_BY_FIELD: Record<string, ConditionOperatorOption[]> = {
+  text: TEXT_OPERATORS,
+  textarea: TEXT_OPERATORS,
+  email: [
+    { value: 'equals', label: 'Equals', needsValue: true },
+    { value: 'contains', label: 'Contains', needsValue: true },
+    { value: 'ends_with', label: 'Domain ends with', needsValue: true },
+    { value: 'is_empty', label: 'Is empty', needsValue: false },
+    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
+  ],
+  url: [
+    { value: 'equals', label: 'Equals', needsValue: true },
+    { value: 'contains', label: 'Contains', needsValue: true },
+    { value: 'starts_with', label: 'Starts with', needsValue: true },
+    { value: 'is_empty', label: 'Is empty', needsValue: false },
+    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
+  ],
+  number: NUMBER_OPERATORS,
+  currency: NUMBER_OPERATORS,
+  computed: NUMBER_OPERATORS,
+  date: [
+    { value: 'equals', label: 'Equals', needsValue: true },
+    { value: 'before', label: 'Before', needsValue: true },
+    { value: 'after', label: 'After', needsValue: true },
+    { value: 'between', label: 'Between', needsValue: true, needsValue2: true },
+    { value: 'is_empty', label: 'Is empty', needsValue: false },
+    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
+  ],
+  dropdown: [
+    { value: 'equals', label: 'Equals', needsValue: true },
+    { value: 'is_empty', label: 'Is empty', needsValue: false },
+    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
+  ],
+  multiselect: [
+    { value: 'contains', label: 'Contains', needsValue: true },
+    { value: 'is_empty', label: 'Is empty', needsValue: false },
+    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
+  ],
+  checkbox: [
+    { value: 'is_checked', label: 'Is checked (Yes)', needsValue: false },
+    { value: 'is_not_checked', label: 'Is not checked (No)', needsValue: false },
+  ],
+  rating: [
+    { value: 'equals', label: 'Equals', needsValue: true },
+    { value: 'greater_or_equal', label: 'At least', needsValue: true },
+    { value: 'less_or_equal', label: 'At most', needsValue: true },
+    { value: 'is_empty', label: 'Is empty', needsValue: false },
+    { value: 'is_not_empty', label: 'Is not empty', needsValue: false },
+  ],
+  signature: [
+    { value: 'is_not_empty', label: 'Is signed', needsValue: false },
+    { value: 'is_empty', label: 'Is not signed', needsValue: false },
+  ],
+  user: REFERENCE_OPERATORS,
+  account: REFERENCE_OPERATORS,
+  project: REFERENCE_OPERATORS,
+  repeater: [
+    { value: 'count_greater_than', label: 'More rows than', needsValue: true },
+    { value: 'count_less_than', label: 'Fewer rows than', needsValue: true },
+    { value: 'count_equals', label: 'Row count equals', needsValue: true },
+    { value: 'is_empty', label: 'Has no rows', needsValue: false },
+    { value: 'is_not_empty', label: 'Has rows', needsValue: false },
+  ],
+  file: [
+    { value: 'count_greater_than', label: 'More files than', needsValue: true },
+    { value: 'is_empty', label: 'No files', needsValue: false },
+    { value: 'is_not_empty', label: 'Has files', needsValue: false },
+  ],
+};
+
+export function isConditionGroup(condition: unknown): condition is FormConditionGroup {
+  return isRecord(condition) &&
+    (condition.combinator === 'and' || condition.combinator === 'or') &&
+    Array.isArray(condition.conditions);
+}
+
+export function isLegacyConditional(conditional: unknown): conditional is LegacyFieldConditional {
+  return isRecord(conditional) && isString(conditional.show_if);
+}
+
+/**
+ * A field's visibility condition as a group (legacy pairs become a one-rule
+ * group), or null when the field is always shown
+ */
+export function toConditionGroup(conditional: FieldConditional | undefined | null): FormConditionGroup | null {
+  if (isConditionGroup(conditional)) return conditional;
+  if (isLegacyConditional(conditional)) {
+    return {
+      combinator: 'and',
+      conditions: [{ fieldId: conditional.show_if, operator: 'equals', value: String(conditional.equals ?? '') }],
+    };
+  }
+  return null;
+}
+
+/**
+ * Every field id a condition group reads (rule fields and compared fields)
+ */
+export function getConditionFieldIds(group: FormConditionGroup): string[] {
+  return group.conditions.flatMap((condition) =>
+    isConditionGroup(condition)
+      ? getConditionFieldIds(condition)
+      : [condition.fieldId, ...(condition.valueFieldId ? [condition.valueFieldId] : [])]
+  );
+}
+
+export function getConditionDepth(group: FormConditionGroup): number {
+  const childDepths = group.conditions.filter(isConditionGroup).map(getConditionDepth);
+  return 1 + (childDepths.length > 0 ? Math.max(...childDepths) : 0);
+}
+
+function isDateLike(value: string | undefined): boolean {
+  return !!value && isNaN(Number(value)) && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Evaluate one operator against a single answer
+ */
+export function evaluateFormValueCondition(
+  condition: {
+    conditionType?: string;
+    value?: string;
+    value2?: string;
+  },
+  fieldValue: unknown
+): boolean {
+  const conditionValue = condition.value;
+  const conditionValue2 = condition.value2;
+
+  // User/account/project picks match on either their name or id
+  if (isFormReferenceValue(fieldValue)) {
+    const conditionStr = (conditionValue || '').toLowerCase();
+    switch (condition.conditionType) {
+      case 'equals':
+        return fieldValue.id.toLowerCase() === conditionStr || fieldValue.name.toLowerCase() === conditionStr;
+      case 'contains':
+        return fieldValue.name.toLowerCase().includes(conditionStr);
+    }
+  }
+
+  // Handle null/undefined field values
+  const fieldStr = fieldValue !== null && fieldValue !== undefined ? String(fieldValue) : '';
+  const conditionStr = conditionValue !== null && conditionValue !== undefined ? String(conditionValue) : '';
+  const itemCount = Array.isArray(fieldValue) ? fieldValue.length : 0;
+
+  switch (condition.conditionType) {
+    // Text/String conditions
+    case 'equals':
+      return fieldStr.toLowerCase() === conditionStr.toLowerCase();
+
+    case 'contains':
+      return fieldStr.toLowerCase().includes(conditionStr.toLowerCase());
+
+    case 'starts_with':
+      return fieldStr.toLowerCase().startsWith(conditionStr.toLowerCase());
+
+    case 'ends_with':
+      return fieldStr.toLowerCase().endsWith(conditionStr.toLowerCase());
+
+    case 'is_empty':
+      return isEmptyFormValue(fieldValue);
+
+    case 'is_not_empty':
+      return !isEmptyFormValue(fieldValue);
+
+    // Repeater/table row counts (and multiselect/file item counts)
+    case 'count_equals':
+      return itemCount === Number(conditionValue);
+
+    case 'count_greater_than':
+      return itemCount > Number(conditionValue);
+
+    case 'count_less_than':
+      return itemCount < Number(conditionValue);
+
+    // Number conditions
+    case 'greater_than':
+      return Number(fieldValue) > Number(conditionValue);
+
+    case 'less_than':
+      return Number(fieldValue) < Number(conditionValue);
+
+    case 'greater_or_equal':
+      return Number(fieldValue) >= Number(conditionValue);
+
+    case 'less_or_equal':
+      return Number(fieldValue) <= Number(conditionValue);
+
+    case 'between': {
+      // Dates compare as dates, everything else numerically
+      if (isDateLike(conditionValue) && isDateLike(conditionValue2)) {
+        const date = new Date(fieldStr);
+        return date >= new Date(conditionValue!) && date <= new Date(conditionValue2!);
+      }
+      const numVal = Number(fieldValue);
+      return numVal >= Number(conditionValue) && numVal <= Number(conditionValue2);
+    }
+
+    // Date conditions
+    case 'before':
+      return new Date(fieldStr) < new Date(conditionValue!);
+
+    case 'after':
+      return new Date(fieldStr) > new Date(conditionValue!);
+
+    // Checkbox conditions
+    case 'is_checked':
+      return fieldValue === true || fieldValue === 'true' || fieldValue === 'yes';
+
+    case 'is_not_checked':
+      return fieldValue === false || fieldValue === 'false' || fieldValue === 'no' || !fieldValue;
+
+    default:
+      console.warn(`[evaluateFormValueCondition] Unknown condition type: ${condition.conditionType}`);
+      return false;
+  }
+}
+
+/**
+ * Evaluate a condition against a field of the form data. A
+ * "fieldId.subfieldId" source matches when any row satisfies the condition.
+ */
+export function matchesFormCondition(
+  condition: {
+    sourceFormFieldId?: string;
+    conditionType?: string;
+    value?: string;
+    value2?: string;
+  },
+  formData: Record<string, unknown>
+): boolean {
+  if (!condition.sourceFormFieldId || !condition.conditionType) {
+    return false;
+  }
+
+  const [fieldId, subfieldId] = condition.sourceFormFieldId.split('.');
+  if (subfieldId && !(condition.sourceFormFieldId in formData)) {
+    const rows = formData[fieldId];
+    if (!Array.isArray(rows)) return false;
+    return rows.some((row) => isRecord(row) && evaluateFormValueCondition(condition, row[subfieldId]));
+  }
+
+  return evaluateFormValueCondition(condition, formData[condition.sourceFormFieldId]);
+}
+
+// Another field's answer as a comparison value
+function toComparisonValue(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (isFormReferenceValue(value)) return value.id;
+  return String(value);
+}
+
+/**
+ * Evaluate an AND/OR condition group; an empty group is always true
+ */
+export function evaluateConditionGroup(
+  group: FormConditionGroup,
+  formData: Record<string, unknown>,
+  depth = 1
+): boolean {
+  // Deeper groups can't be built or saved; treat them as unmet rather than recursing
+  if (depth > MAX_CONDITION_DEPTH) return false;
+
+  const evaluate = (condition: FormCondition): boolean => {
+    if (isConditionGroup(condition)) {
+      return evaluateConditionGroup(condition, formData, depth + 1);
+    }
+
+    const value = condition.valueFieldId
+      ? toComparisonValue(formData[condition.valueFieldId])
+      : condition.value;
+
+    // A comparison against an unanswered field can't hold yet
+    if (condition.valueFieldId && value === undefined && !VALUELESS_OPERATORS.includes(condition.operator)) {
+      return false;
+    }
+
+    return matchesFormCondition(
+      { sourceFormFieldId: condition.fieldId, conditionType: condition.operator, value, value2: condition.value2 },
+      formData
+    );
+  };
+
+  return group.combinator === 'or'
+    ? group.conditions.length === 0 || group.conditions.some(evaluate)
+    : group.conditions.every(evaluate);
+}
+
+/**
+ * Check if a field should be visible based on its conditional logic
+ */
+export function isFieldVisible(field: FormLogicField, formData: Record<string, unknown>): boolean {
+  if (!field.conditional) return true;
+
+  // Legacy pairs keep their exact-match behaviour
+  if (isLegacyConditional(field.conditional)) {
+    return formData[field.conditional.show_if] === field.conditional.equals;
+  }
+
+  const group = toConditionGroup(field.conditional);
+  return group ? evaluateConditionGroup(group, formData) : true;
+}
+
+/**
+ * The message of the first validation rule an answered field breaks, or null
+ */
+export function getValidationRuleError(field: FormLogicField, formData: Record<string, unknown>): string | null {
+  for (const rule of field.validationRules || []) {
+    if (!evaluateConditionGroup(rule.condition, formData)) {
+      return rule.message || `${field.label} is not valid`;
+    }
+  }
+  return null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === '' || value === null || value === undefined || typeof value === 'boolean') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Calculate a computed field from the current answers
+ */
+export function computeFieldValue(computation: FormComputation, formData: Record<string, unknown>): number | '' {
+  const values: unknown[] = computation.fieldIds.flatMap((id) => {
+    const [fieldId, subfieldId] = id.split('.');
+    if (subfieldId) {
+      const rows = formData[fieldId];
+      return Array.isArray(rows) ? rows.map((row) => (isRecord(row) ? row[subfieldId] : undefined)) : [];
+    }
+    return [formData[id]];
+  });
+
+  if (computation.operation === 'count') {
+    return values.filter((value) => !isEmptyFormValue(value)).length;
+  }
+
+  const numbers = values.map(toNumber).filter((num): num is number => num !== null);
+  if (numbers.length === 0) return computation.operation === 'sum' ? 0 : '';
+
+  let result: number;
+  switch (computation.operation) {
+    case 'sum':
+      result = numbers.reduce((total, num) => total + num, 0);
+      break;
+    case 'average':
+      result = numbers.reduce((total, num) => total + num, 0) / numbers.length;
+      break;
+    case 'min':
+      result = Math.min(...numbers);
+      break;
+    case 'max':
+      result = Math.max(...numbers);
+      break;
+    case 'product':
+      result = numbers.reduce((total, num) => total * num, 1);
+      break;
+    case 'difference':
+      result = numbers.slice(1).reduce((total, num) => total - num, numbers[0]);
+      break;
+    default:
+      return '';
+  }
+
+  const factor = 10 ** (computation.decimals ?? DEFAULT_COMPUTED_DECIMALS);
+  return Math.round(result * factor) / factor;
+}
+
+/**
+ * The form data with every computed field filled in, in field order (so a
+ * computed field can build on an earlier one)
+ */
+export function applyComputedFields<T extends Record<string, unknown>>(
+  fields: FormLogicField[],
+  formData: T
+): T {
+  const result: Record<string, unknown> = { ...formData };
+  for (const field of fields) {
+    if (field.type === 'computed' && field.computation) {
+      result[field.id] = computeFieldValue(field.computation, result);
+    }
+  }
+  return result as T;
+}
@@ -0,0 +1,215 @@
+/**
+ * Form Report Service
+ * Loads a form template's responses for the admin responses report and its
+ * CSV/XLSX export. Each response is tied to a project - directly for intake
+ * submissions, through its workflow history entry for workflow forms - so it
+ * can be filtered by project and account as well as date and submitter.
+ */
+
+import {
+  buildReportColumns,
+  computeFieldAggregates,
+  FormReportField,
+  FormReportFilters,
+  FormReportOption,
+  FormReportRow,
+  FormResponseReport,
+} from './form-report';
+import { isString, isRecord } from '@/lib/type-guards';
+
+// Keeps a report (and its export) to a size the browser and a spreadsheet handle
+export const MAX_REPORT_RESPONSES = 5000;
+
+// Ids per .in() filter, so the request URL stays short
+const IN_FILTER_BATCH_SIZE = 200;
+
+interface ProjectContext {
+  project: FormReportOption;
+  account: FormReportOption | null;
+}
+
+async function selectInBatches(
+  supabase: any,
+  table: string,
+  columns: string,
+  column: string,
+  ids: string[]
+): Promise<Record<string, unknown>[]> {
+  const results: Record<string, unknown>[] = [];
+  for (let i = 0; i < ids.length; i += IN_FILTER_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .in(column, ids.slice(i, i + IN_FILTER_BATCH_SIZE));
+
+    if (error) {
+      console.error(`Error loading ${table} for form report:`, error);
+      continue;
+    }
+    results.push(...(data || []));
+  }
+  return results;
+}
+
+/**
+ * Project (and its account) for each response, by response id
+ */
+async function resolveResponseProjects(
+  supabase: any,
+  responses: Record<string, unknown>[]
+): Promise<Map<string, ProjectContext>> {
+  const projectIdByResponse = new Map<string, string>();
+  const workflowResponseIds: string[] = [];
+
+  for (const response of responses) {
+    if (isString(response.project_id)) {
+      projectIdByResponse.set(response.id as string, response.project_id);
+    } else {
+      workflowResponseIds.push(response.id as string);
+    }
+  }
+
+  // Workflow forms: the history entry the response was handed off with
+  const historyRows = await selectInBatches(
+    supabase,
+    'workflow_history',
+    'form_response_id, workflow_instances(project_id)',
+    'form_response_id',
+    workflowResponseIds
+  );
+  for (const history of historyRows) {
+    const instance = Array.isArray(history.workflow_instances) ? history.workflow_instances[0] : history.workflow_instances;
+    if (isString(history.form_response_id) && isRecord(instance) && isString(instance.project_id)) {
+      projectIdByResponse.set(history.form_response_id, instance.project_id);
+    }
+  }
+
+  const projectIds = Array.from(new Set(projectIdByResponse.values()));
+  const projectRows = await selectInBatches(supabase, 'projects', 'id, name, accounts(id, name)', 'id', projectIds);
+  const contextByProject = new Map<string, ProjectContext>();
+  for (const project of projectRows) {
+    const account = Array.isArray(project.accounts) ? project.accounts[0] : project.accounts;
+    contextByProject.set(project.id as string, {
+      project: { id: project.id as string, name: project.name as string },
+      account: isRecord(account) ? { id: account.id as string, name: account.name as string } : null,
+    });
+  }
+
+  const contextByResponse = new Map<string, ProjectContext>();
+  for (const [responseId, projectId] of projectIdByResponse) {
+    const context = contextByProject.get(projectId);
+    if (context) contextByResponse.set(responseId, context);
+  }
+  return contextByResponse;
+}
+
+function uniqueOptions(options: (FormReportOption | null)[]): FormReportOption[] {
+  const byId = new Map<string, FormReportOption>();
+  for (const option of options) {
+    if (option && !byId.has(option.id)) byId.set(option.id, option);
+  }
+  return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The responses report for a form template, or null if the template doesn't exist
+ */
+export async function getFormResponseReport(
+  supabase: any,
+  formTemplateId: string,
+  filters: FormReportFilters = {}
+): Promise<FormResponseReport | null> {
+  const { data: template } = await supabase
+    .from('form_templates')
+    .select('*')
+    .eq('id', formTemplateId)
+    .maybeSingle();
+
+  if (!template) return null;
+
+  let query = supabase
+    .from('form_responses')
+    .select(`
+      id,
+      response_data,
+      field_snapshot,
+      submitted_at,
+      submitted_by,
+      submitter_name,
+      submitter_email,
+      intake_form_id,
+      project_id,
+      submitter:user_profiles!form_responses_submitted_by_fkey(id, name, email),
+      form_template_version:form_template_versions(fields)
+    `)
+    .eq('form_template_id', formTemplateId)
+    .order('submitted_at', { ascending: false })
+    .limit(MAX_REPORT_RESPONSES + 1);
+
+  if (filters.from) {
+    query = query.gte('submitted_at', `${filters.from}T00:00:00.000Z`);
+  }
+  if (filters.to) {
+    query = query.lte('submitted_at', `${filters.to}T23:59:59.999Z`);
+  }
+
+  const { data: responseData, error } = await query;
+  if (error) {
+    console.error('Error loading form responses for report:', error);
+    throw error;
+  }
+
+  const truncated = (responseData || []).length > MAX_REPORT_RESPONSES;
+  const responses: Record<string, unknown>[] = (responseData || []).slice(0, MAX_REPORT_RESPONSES);
+  const projectContexts = await resolveResponseProjects(supabase, responses);
+
+  const allRows: FormReportRow[] = responses.map((response) => {
+    const submitter = isRecord(response.submitter) ? response.submitter : null;
+    const submitterEmail = (submitter?.email as string | null) || (response.submitter_email as string | null) || null;
+    const context = projectContexts.get(response.id as string);
+
+    return {
+      id: response.id as string,
+      submittedAt: response.submitted_at as string,
+      // Public intake submitters have no account, so they're told apart by email
+      submitterKey: (response.submitted_by as string | null) || submitterEmail?.toLowerCase() || null,
+      submitterName: (submitter?.name as string | null) || (response.submitter_name as string | null) || null,
+      submitterEmail,
+      source: response.intake_form_id ? 'intake' : 'workflow',
+      project: context?.project || null,
+      account: context?.account || null,
+      values: isRecord(response.response_data) ? response.response_data : {},
+    };
+  });
+
+  const rows = allRows.filter((row) =>
+    (!filters.projectId || row.project?.id === filters.projectId) &&
+    (!filters.accountId || row.account?.id === filters.accountId) &&
+    (!filters.submitter || row.submitterKey === filters.submitter)
+  );
+
+  const fields: FormReportField[] = Array.isArray(template.fields) ? template.fields : [];
+  const columns = buildReportColumns(fields, responses.map((response) => {
+    const version = isRecord(response.form_template_version) ? response.form_template_version : null;
+    return {
+      response_data: response.response_data,
+      // The full version describes removed fields better than the label snapshot
+      field_snapshot: Array.isArray(version?.fields) ? version.fields : response.field_snapshot,
+    };
+  }));
+
+  return {
+    template: { id: template.id, name: template.name },
+    columns,
+    rows,
+    aggregates: computeFieldAggregates(columns, rows),
+    filterOptions: {
+      projects: uniqueOptions(allRows.map((row) => row.project)),
+      accounts: uniqueOptions(allRows.map((row) => row.account)),
+      submitters: uniqueOptions(allRows.map((row) => (row.submitterKey
+        ? { id: row.submitterKey, name: row.submitterName || row.submitterEmail || 'Unknown' }
+        : null))),
+    },
+    truncated,
+  };
+}
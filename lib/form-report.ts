@@ -0,0 +1,282 @@
+/**
+ * Form Report
+ * Turns a form template's responses into a table: one column per field,
+ * aggregates for numeric and choice fields, and export rows for CSV/XLSX.
+ *
+ * Columns come from the template's current fields plus any field a response
+ * was answered against that the template no longer has - described by the
+ * response's template version (or its field_snapshot), so removed fields keep
+ * their old label. Older responses with neither fall back to the field id.
+ *
+ * Pure and client-safe: shared by form-report-service and the admin report page.
+ */
+
+import { formatFormValue } from './form-field-types';
+import { isString, isRecord } from './type-guards';
+
+// The part of a field stored with each response
+export interface FormFieldSnapshot {
+  id: string;
+  label: string;
+  type: string;
+}
+
+// The part of a field a report needs to label and format its answers
+export interface FormReportField extends FormFieldSnapshot {
+  options?: string[];
+  currency?: string;
+  validation?: { max?: number };
+}
+
+export interface FormReportColumn extends FormReportField {
+  // No longer on the template; labelled from the newest response that had it
+  removed: boolean;
+}
+
+export interface FormReportOption {
+  id: string;
+  name: string;
+}
+
+export interface FormReportRow {
+  id: string;
+  submittedAt: string;
+  submitterKey: string | null;
+  submitterName: string | null;
+  submitterEmail: string | null;
+  source: 'workflow' | 'intake';
+  project: FormReportOption | null;
+  account: FormReportOption | null;
+  values: Record<string, unknown>;
+}
+
+export interface FormNumericAggregate {
+  kind: 'numeric';
+  fieldId: string;
+  label: string;
+  count: number;
+  sum: number;
+  average: number;
+  min: number;
+  max: number;
+}
+
+export interface FormChoiceAggregate {
+  kind: 'choice';
+  fieldId: string;
+  label: string;
+  answered: number;
+  counts: { option: string; count: number }[];
+}
+
+export type FormFieldAggregate = FormNumericAggregate | FormChoiceAggregate;
+
+export interface FormReportFilters {
+  from?: string | null; // YYYY-MM-DD, inclusive
+  to?: string | null; // YYYY-MM-DD, inclusive
+  projectId?: string | null;
+  accountId?: string | null;
+  submitter?: string | null; // FormReportRow.submitterKey
+}
+
+export interface FormResponseReport {
+  template: { id: string; name: string };
+  columns: FormReportColumn[];
+  rows: FormReportRow[];
+  aggregates: FormFieldAggregate[];
+  // Built from the responses in the date range, before the other filters apply
+  filterOptions: {
+    projects: FormReportOption[];
+    accounts: FormReportOption[];
+    submitters: FormReportOption[];
+  };
+  // More responses matched than a report holds; narrow the date range
+  truncated: boolean;
+}
+
+export type SpreadsheetCell = string | number | null;
+
+export const NUMERIC_REPORT_FIELD_TYPES = ['number', 'currency', 'rating', 'computed'];
+export const CHOICE_REPORT_FIELD_TYPES = ['dropdown', 'multiselect', 'checkbox'];
+
+// Fixed columns that lead every export, before the form's own fields
+const EXPORT_LEADING_HEADERS = ['Submitted at', 'Submitted by', 'Submitter email', 'Source', 'Project', 'Account'];
+
+/**
+ * The field list stored with a response
+ */
+export function snapshotFormFields(fields: FormFieldSnapshot[]): FormFieldSnapshot[] {
+  return fields.map((field) => ({ id: field.id, label: field.label, type: field.type }));
+}
+
+function parseFieldSnapshot(value: unknown): FormReportField[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is FormReportField => isRecord(entry) && isString(entry.id) && isString(entry.label) && isString(entry.type))
+    .map((entry) => ({
+      id: entry.id,
+      label: entry.label,
+      type: entry.type,
+      options: entry.options,
+      currency: entry.currency,
+      validation: entry.validation,
+    }));
+}
+
+/**
+ * Report columns: the template's fields in order, then fields only older
+ * responses have. Responses must be ordered newest first so a removed field
+ * takes the label it had most recently.
+ */
+export function buildReportColumns(
+  fields: FormReportField[],
+  // field_snapshot: the fields the response was answered against, full or snapshotted
+  responses: { response_data: unknown; field_snapshot?: unknown }[]
+): FormReportColumn[] {
+  const columns: FormReportColumn[] = fields.map((field) => ({
+    id: field.id,
+    label: field.label,
+    type: field.type,
+    options: field.options,
+    currency: field.currency,
+    validation: field.validation,
+    removed: false,
+  }));
+  const known = new Set(columns.map((column) => column.id));
+
+  for (const response of responses) {
+    for (const snapshot of parseFieldSnapshot(response.field_snapshot)) {
+      if (known.has(snapshot.id)) continue;
+      known.add(snapshot.id);
+      columns.push({ ...snapshot, removed: true });
+    }
+  }
+
+  // Answers with no field anywhere - responses from before snapshots were kept
+  for (const response of responses) {
+    if (!isRecord(response.response_data)) continue;
+    for (const fieldId of Object.keys(response.response_data)) {
+      if (known.has(fieldId)) continue;
+      known.add(fieldId);
+      columns.push({ id: fieldId, label: fieldId, type: 'text', removed: true });
+    }
+  }
+
+  return columns;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === '' || value === null || value === undefined || typeof value === 'boolean') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Totals for numeric fields and answer counts for choice fields
+ */
+export function computeFieldAggregates(columns: FormReportColumn[], rows: FormReportRow[]): FormFieldAggregate[] {
+  const aggregates: FormFieldAggregate[] = [];
+
+  for (const column of columns) {
+    if (NUMERIC_REPORT_FIELD_TYPES.includes(column.type)) {
+      const numbers = rows
+        .map((row) => toNumber(row.values[column.id]))
+        .filter((value): value is number => value !== null);
+      if (numbers.length === 0) continue;
+
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      aggregates.push({
+        kind: 'numeric',
+        fieldId: column.id,
+        label: column.label,
+        count: numbers.length,
+        sum,
+        average: sum / numbers.length,
+        min: Math.min(...numbers),
+        max: Math.max(...numbers),
+      });
+    } else if (CHOICE_REPORT_FIELD_TYPES.includes(column.type)) {
+      // Configured options first (so unpicked ones show as 0), then anything else answered
+      const counts = new Map<string, number>(
+        column.type === 'checkbox'
+          ? [['Yes', 0], ['No', 0]]
+          : (column.options || []).map((option) => [option, 0])
+      );
+      let answered = 0;
+
+      for (const row of rows) {
+        const value = row.values[column.id];
+        let picked: string[];
+        if (column.type === 'checkbox') {
+          if (typeof value !== 'boolean') continue;
+          picked = [value ? 'Yes' : 'No'];
+        } else if (Array.isArray(value)) {
+          picked = value.filter(isString);
+        } else {
+          picked = isString(value) && value !== '' ? [value] : [];
+        }
+        if (picked.length === 0) continue;
+
+        answered++;
+        for (const option of picked) {
+          counts.set(option, (counts.get(option) || 0) + 1);
+        }
+      }
+      if (answered === 0) continue;
+
+      aggregates.push({
+        kind: 'choice',
+        fieldId: column.id,
+        label: column.label,
+        answered,
+        counts: Array.from(counts, ([option, count]) => ({ option, count })),
+      });
+    }
+  }
+
+  return aggregates;
+}
+
+/**
+ * A response value as shown in the report table
+ */
+export function formatReportValue(column: FormReportColumn, value: unknown): string {
+  // File fields hold attachment references (see workflow-attachments)
+  if (column.type === 'file') {
+    if (!Array.isArray(value)) return '';
+    return value.map((file) => (isRecord(file) && isString(file.name) ? file.name : '')).filter(Boolean).join(', ');
+  }
+  return formatFormValue(column, value);
+}
+
+/**
+ * A response value as written to a spreadsheet cell - numbers stay numbers so
+ * they can be summed, everything else is its plain-text rendering
+ */
+export function getExportCellValue(column: FormReportColumn, value: unknown): SpreadsheetCell {
+  if (NUMERIC_REPORT_FIELD_TYPES.includes(column.type)) {
+    return toNumber(value);
+  }
+  const text = formatReportValue(column, value);
+  return text === '' ? null : text;
+}
+
+/**
+ * Header row plus one row per response
+ */
+export function buildExportTable(columns: FormReportColumn[], rows: FormReportRow[]): SpreadsheetCell[][] {
+  const header = [...EXPORT_LEADING_HEADERS, ...columns.map((column) => column.label)];
+
+  return [
+    header,
+    ...rows.map((row) => [
+      row.submittedAt,
+      row.submitterName,
+      row.submitterEmail,
+      row.source === 'intake' ? 'Intake form' : 'Workflow',
+      row.project?.name ?? null,
+      row.account?.name ?? null,
+      ...columns.map((column) => getExportCellValue(column, row.values[column.id])),
+    ]),
+  ];
+}
@@ -6,6 +6,34 @@
 
 import { createServerSupabase } from './supabase-server';
 import { logger } from './debug-logger';
+import { getWorkflowAttachmentRefs } from './workflow-attachments';
+import {
+  DEFAULT_MAX_RATING,
+  isEmptyFormValue,
+  isFormReferenceValue,
+  isSignatureValue,
+  isSubfieldType,
+  MAX_SIGNATURE_DATA_LENGTH,
+} from './form-field-types';
+import {
+  applyComputedFields,
+  FieldConditional,
+  FORM_COMPUTATION_OPERATIONS,
+  FORM_CONDITION_OPERATORS,
+  FormComputation,
+  FormConditionGroup,
+  FormValidationRule,
+  getConditionDepth,
+  getConditionFieldIds,
+  getValidationRuleError,
+  isConditionGroup,
+  isFieldVisible as isFormFieldVisible,
+  isLegacyConditional,
+  MAX_CONDITION_DEPTH,
+} from './form-logic';
+import { FormFieldSnapshot, snapshotFormFields } from './form-report';
+import { FormTemplateVersion, withResponseVersion } from './form-template-versions';
+import { getCurrentFormTemplateVersionId, recordFormTemplateVersion } from './form-template-version-service';
 
 // Helper to get supabase client with null check
 async function getSupabase() {
@@ -20,7 +48,31 @@ async function getSupabase() {
 // TYPES & INTERFACES
 // =====================================================
 
-export type FieldType = 'text' | 'number' | 'date' | 'dropdown' | 'multiselect' | 'file' | 'textarea' | 'email' | 'checkbox';
+export type FieldType =
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'dropdown'
+  | 'multiselect'
+  | 'file'
+  | 'textarea'
+  | 'email'
+  | 'checkbox'
+  | 'url'
+  | 'currency'
+  | 'rating'
+  | 'signature'
+  | 'user'
+  | 'account'
+  | 'project'
+  | 'repeater'
+  | 'table'
+  | 'computed';
+
+const FIELD_TYPES: FieldType[] = [
+  'text', 'number', 'date', 'dropdown', 'multiselect', 'file', 'textarea', 'email', 'checkbox',
+  'url', 'currency', 'rating', 'signature', 'user', 'account', 'project', 'repeater', 'table', 'computed',
+];
 
 export interface FormField {
   id: string;
@@ -30,16 +82,19 @@ export interface FormField {
   placeholder?: string;
   options?: string[]; // For dropdown/multiselect
   defaultValue?: any;
+  subfields?: FormField[]; // Repeater row fields / table columns
+  rows?: string[]; // Table row labels
+  currency?: string; // ISO 4217 code for currency fields
   validation?: {
-    min?: number;
-    max?: number;
+    min?: number; // Also the minimum row count for repeaters
+    max?: number; // Also the maximum row count for repeaters and the scale for ratings
     pattern?: string;
     message?: string;
   };
-  conditional?: {
-    show_if: string; // field ID
-    equals: any; // value to match
-  };
+  // { show_if, equals } or an AND/OR condition group (see form-logic)
+  conditional?: FieldConditional;
+  validationRules?: FormValidationRule[]; // Cross-field checks, e.g. end date after start date
+  computation?: FormComputation; // For computed fields
 }
 
 export interface FormTemplate {
@@ -60,10 +115,13 @@ export interface FormResponse {
   submitted_by: string | null;
   submitted_at: string;
   response_data: Record<string, any>; // { field_id: value }
+  field_snapshot: FormFieldSnapshot[] | null; // Fields as they were when submitted
+  form_template_version_id: string | null; // Template version the response was filled in against
 }
 
 export interface FormResponseWithTemplate extends FormResponse {
-  form_template: FormTemplate;
+  form_template: FormTemplate; // Carries the fields of the response's version, when it has one
+  form_template_version: FormTemplateVersion | null;
 }
 
 // =====================================================
@@ -141,12 +199,15 @@ export async function createFormTemplate(
     throw error;
   }
 
+  await recordFormTemplateVersion(supabase, { formTemplateId: data.id, name, fields, createdBy });
+
   logger.info('Form template created', { templateId: data.id, name });
   return data;
 }
 
 /**
- * Update form template
+ * Update form template. Changed fields are saved as a new version; responses
+ * already submitted keep rendering with the version they were filled in against.
  */
 export async function updateFormTemplate(
   templateId: string,
@@ -155,7 +216,8 @@ export async function updateFormTemplate(
     description?: string;
     fields?: FormField[];
     is_active?: boolean;
-  }
+  },
+  updatedBy: string | null = null
 ): Promise<FormTemplate> {
   const supabase = await getSupabase();
 
@@ -176,6 +238,15 @@ export async function updateFormTemplate(
     throw error;
   }
 
+  if (updates.fields) {
+    await recordFormTemplateVersion(supabase, {
+      formTemplateId: templateId,
+      name: data.name,
+      fields: updates.fields,
+      createdBy: updatedBy,
+    });
+  }
+
   logger.info('Form template updated', { templateId });
   return data;
 }
@@ -232,6 +303,8 @@ export async function submitFormResponse(params: {
       workflow_history_id: workflowHistoryId || null,
       submitted_by: submittedBy,
       response_data: responseData,
+      field_snapshot: snapshotFormFields(template.fields),
+      form_template_version_id: await getCurrentFormTemplateVersionId(supabase, template),
     })
     .select()
     .single();
@@ -260,7 +333,8 @@ export async function getFormResponseById(responseId: string): Promise<FormRespo
     .from('form_responses')
     .select(`
       *,
-      form_template:form_templates(*)
+      form_template:form_templates(*),
+      form_template_version:form_template_versions(*)
     `)
     .eq('id', responseId)
     .single();
@@ -270,7 +344,7 @@ export async function getFormResponseById(responseId: string): Promise<FormRespo
     throw error;
   }
 
-  return data || null;
+  return data ? withResponseVersion(data) : null;
 }
 
 /**
@@ -303,7 +377,8 @@ export async function getFormResponseForWorkflowHistory(workflowHistoryId: strin
     .from('form_responses')
     .select(`
       *,
-      form_template:form_templates(*)
+      form_template:form_templates(*),
+      form_template_version:form_template_versions(*)
     `)
     .eq('workflow_history_id', workflowHistoryId)
     .single();
@@ -313,7 +388,7 @@ export async function getFormResponseForWorkflowHistory(workflowHistoryId: strin
     throw error;
   }
 
-  return data || null;
+  return data ? withResponseVersion(data) : null;
 }
 
 // =====================================================
@@ -323,7 +398,7 @@ export async function getFormResponseForWorkflowHistory(workflowHistoryId: strin
 /**
  * Validate form fields structure
  */
-function validateFormFields(fields: FormField[]): void {
+export function validateFormFields(fields: FormField[]): void {
   if (!Array.isArray(fields) || fields.length === 0) {
     throw new Error('Form must have at least one field');
   }
@@ -343,8 +418,7 @@ function validateFormFields(fields: FormField[]): void {
     }
 
     // Validate field type
-    const validTypes: FieldType[] = ['text', 'number', 'date', 'dropdown', 'multiselect', 'file', 'textarea', 'email', 'checkbox'];
-    if (!validTypes.includes(field.type)) {
+    if (!FIELD_TYPES.includes(field.type)) {
       throw new Error(`Invalid field type: ${field.type}`);
     }
 
@@ -353,102 +427,315 @@ function validateFormFields(fields: FormField[]): void {
       throw new Error(`Field ${field.id} (${field.type}) must have options`);
     }
 
+    if (field.type === 'currency' && field.currency && !/^[A-Z]{3}$/.test(field.currency)) {
+      throw new Error(`Field ${field.id} has an invalid currency code: ${field.currency}`);
+    }
+
+    if (field.type === 'repeater' || field.type === 'table') {
+      validateSubfields(field);
+    }
+
     // Validate conditional logic
     if (field.conditional) {
-      if (!field.conditional.show_if || field.conditional.equals === undefined) {
-        throw new Error(`Field ${field.id} has invalid conditional logic`);
+      if (isLegacyConditional(field.conditional)) {
+        if (!field.conditional.show_if || field.conditional.equals === undefined) {
+          throw new Error(`Field ${field.id} has invalid conditional logic`);
+        }
+        // Check if referenced field exists
+        if (!fieldIds.has(field.conditional.show_if)) {
+          throw new Error(`Field ${field.id} references non-existent field ${field.conditional.show_if} in conditional`);
+        }
+      } else {
+        validateConditionGroup(field.conditional, fieldIds, `Field ${field.id} conditional`);
       }
-      // Check if referenced field exists
-      if (!fieldIds.has(field.conditional.show_if)) {
-        throw new Error(`Field ${field.id} references non-existent field ${field.conditional.show_if} in conditional`);
+    }
+
+    if (field.type === 'computed') {
+      validateComputation(field, fieldIds);
+    }
+  }
+
+  // Validation rules may compare against any field, including later ones
+  for (const field of fields) {
+    for (const rule of field.validationRules || []) {
+      if (!rule.message?.trim()) {
+        throw new Error(`Field ${field.id} has a validation rule without a message`);
       }
+      validateConditionGroup(rule.condition, fieldIds, `Field ${field.id} validation rule`);
     }
   }
 }
 
 /**
- * Validate form response data
+ * Check a visibility/validation condition group is well formed and only
+ * reads known fields
  */
-function validateFormResponse(fields: FormField[], responseData: Record<string, any>): void {
-  // Check required fields
-  for (const field of fields) {
-    if (field.required) {
-      const value = responseData[field.id];
-      if (value === undefined || value === null || value === '') {
-        throw new Error(`Required field missing: ${field.label} (${field.id})`);
+function validateConditionGroup(group: unknown, knownFieldIds: Set<string>, context: string): void {
+  if (!isConditionGroup(group)) {
+    throw new Error(`${context} is invalid`);
+  }
+  if (getConditionDepth(group) > MAX_CONDITION_DEPTH) {
+    throw new Error(`${context} nests more than ${MAX_CONDITION_DEPTH} levels`);
+  }
+
+  const checkRules = (current: FormConditionGroup) => {
+    for (const condition of current.conditions) {
+      if (isConditionGroup(condition)) {
+        checkRules(condition);
+      } else if (!FORM_CONDITION_OPERATORS.includes(condition.operator)) {
+        throw new Error(`${context} uses an unknown operator: ${condition.operator}`);
       }
     }
+  };
+  checkRules(group);
+
+  for (const id of getConditionFieldIds(group)) {
+    // Repeater/table columns are addressed as fieldId.subfieldId
+    if (!knownFieldIds.has(id.split('.')[0])) {
+      throw new Error(`${context} references non-existent field ${id}`);
+    }
   }
+}
+
+/**
+ * Computed fields may only read fields defined before them, so computed
+ * values can be filled in a single pass
+ */
+function validateComputation(field: FormField, earlierFieldIds: Set<string>): void {
+  const computation = field.computation;
+  if (!computation || !FORM_COMPUTATION_OPERATIONS.some((op) => op.value === computation.operation)) {
+    throw new Error(`Field ${field.id} (computed) must have a calculation`);
+  }
+  if (!Array.isArray(computation.fieldIds) || computation.fieldIds.length === 0) {
+    throw new Error(`Field ${field.id} (computed) must use at least one field`);
+  }
+  for (const id of computation.fieldIds) {
+    const baseId = id.split('.')[0];
+    if (baseId === field.id || !earlierFieldIds.has(baseId)) {
+      throw new Error(`Field ${field.id} (computed) can only use fields above it, not ${id}`);
+    }
+  }
+}
+
+/**
+ * Validate the row fields of a repeater or the columns of a table
+ */
+function validateSubfields(field: FormField): void {
+  if (!field.subfields || field.subfields.length === 0) {
+    throw new Error(`Field ${field.id} (${field.type}) must have at least one ${field.type === 'table' ? 'column' : 'subfield'}`);
+  }
+
+  const subfieldIds = new Set<string>();
+  for (const subfield of field.subfields) {
+    if (!subfield.id || !subfield.type || !subfield.label) {
+      throw new Error(`Each subfield of ${field.id} must have id, type, and label`);
+    }
+    if (subfieldIds.has(subfield.id)) {
+      throw new Error(`Duplicate subfield ID in ${field.id}: ${subfield.id}`);
+    }
+    subfieldIds.add(subfield.id);
+
+    // One level of nesting only - no repeaters in tables, no signatures per row
+    if (!isSubfieldType(subfield.type)) {
+      throw new Error(`Field type ${subfield.type} can't be used inside ${field.id} (${field.type})`);
+    }
+    if (subfield.type === 'dropdown' && (!subfield.options || subfield.options.length === 0)) {
+      throw new Error(`Subfield ${field.id}.${subfield.id} (dropdown) must have options`);
+    }
+  }
+
+  if (field.type === 'table' && (!field.rows || field.rows.length === 0)) {
+    throw new Error(`Field ${field.id} (table) must have at least one row`);
+  }
+}
+
+/**
+ * Validate form response data. Fields hidden by their conditional aren't
+ * required and aren't checked; computed fields must match their calculation
+ * and validation rules are checked once a field is answered.
+ */
+export function validateFormResponse(fields: FormField[], responseData: Record<string, any>): void {
+  const computed = applyComputedFields(fields, responseData);
 
-  // Validate field values
   for (const field of fields) {
+    if (!isFieldVisible(field, responseData)) continue;
+
     const value = responseData[field.id];
-    if (value === undefined || value === null) continue;
 
-    switch (field.type) {
-      case 'number':
-        if (isNaN(Number(value))) {
-          throw new Error(`Field ${field.label} must be a number`);
-        }
-        if (field.validation?.min !== undefined && Number(value) < field.validation.min) {
-          throw new Error(`Field ${field.label} must be at least ${field.validation.min}`);
-        }
-        if (field.validation?.max !== undefined && Number(value) > field.validation.max) {
-          throw new Error(`Field ${field.label} must be at most ${field.validation.max}`);
-        }
-        break;
+    if (field.type === 'computed') {
+      if (String(value ?? '') !== String(computed[field.id])) {
+        throw new Error(`Field ${field.label} doesn't match its calculation`);
+      }
+      continue;
+    }
 
-      case 'email':
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        if (!emailRegex.test(String(value))) {
-          throw new Error(`Field ${field.label} must be a valid email address`);
-        }
-        break;
+    if (isEmptyFormValue(value)) {
+      if (field.required) {
+        throw new Error(`Required field missing: ${field.label} (${field.id})`);
+      }
+      continue;
+    }
 
-      case 'dropdown':
-        if (field.options && !field.options.includes(String(value))) {
-          throw new Error(`Field ${field.label} has invalid option: ${value}`);
-        }
-        break;
+    validateFieldValue(field, value, field.label);
 
-      case 'multiselect':
-        if (!Array.isArray(value)) {
-          throw new Error(`Field ${field.label} must be an array`);
-        }
-        if (field.options) {
-          for (const item of value) {
-            if (!field.options.includes(String(item))) {
-              throw new Error(`Field ${field.label} has invalid option: ${item}`);
-            }
+    const ruleError = getValidationRuleError(field, responseData);
+    if (ruleError) {
+      throw new Error(ruleError);
+    }
+  }
+}
+
+/**
+ * Validate one answered value against its field definition. The label is
+ * passed separately so repeater/table cells can name their row.
+ */
+function validateFieldValue(field: FormField, value: any, label: string): void {
+  switch (field.type) {
+    case 'number':
+    case 'currency':
+      if (typeof value === 'boolean' || isNaN(Number(value))) {
+        throw new Error(`Field ${label} must be a number`);
+      }
+      if (field.validation?.min !== undefined && Number(value) < field.validation.min) {
+        throw new Error(`Field ${label} must be at least ${field.validation.min}`);
+      }
+      if (field.validation?.max !== undefined && Number(value) > field.validation.max) {
+        throw new Error(`Field ${label} must be at most ${field.validation.max}`);
+      }
+      break;
+
+    case 'email':
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(String(value))) {
+        throw new Error(`Field ${label} must be a valid email address`);
+      }
+      break;
+
+    case 'url': {
+      // Links are rendered as hrefs, so only web addresses (scheme optional)
+      const url = String(value);
+      const scheme = url.match(/^([a-z][a-z0-9+.-]*):(?!\d)/i)?.[1];
+      if (/\s/.test(url) || (scheme && !['http', 'https'].includes(scheme.toLowerCase()))) {
+        throw new Error(`Field ${label} must be a valid web address`);
+      }
+      break;
+    }
+
+    case 'dropdown':
+      if (field.options && !field.options.includes(String(value))) {
+        throw new Error(`Field ${label} has invalid option: ${value}`);
+      }
+      break;
+
+    case 'multiselect':
+      if (!Array.isArray(value)) {
+        throw new Error(`Field ${label} must be an array`);
+      }
+      if (field.options) {
+        for (const item of value) {
+          if (!field.options.includes(String(item))) {
+            throw new Error(`Field ${label} has invalid option: ${item}`);
           }
         }
-        break;
+      }
+      break;
 
-      case 'checkbox':
-        if (typeof value !== 'boolean') {
-          throw new Error(`Field ${field.label} must be a boolean`);
-        }
-        break;
+    case 'checkbox':
+      if (typeof value !== 'boolean') {
+        throw new Error(`Field ${label} must be a boolean`);
+      }
+      break;
+
+    case 'file':
+      // Uploaded attachment references, never raw strings
+      if (!Array.isArray(value) || getWorkflowAttachmentRefs(value).length !== value.length) {
+        throw new Error(`Field ${label} must be a list of uploaded files`);
+      }
+      return;
+
+    case 'rating': {
+      const maxRating = field.validation?.max || DEFAULT_MAX_RATING;
+      if (!Number.isInteger(Number(value)) || Number(value) < 1 || Number(value) > maxRating) {
+        throw new Error(`Field ${label} must be a rating from 1 to ${maxRating}`);
+      }
+      return;
     }
 
-    // Custom pattern validation
-    if (field.validation?.pattern) {
-      const regex = new RegExp(field.validation.pattern);
-      if (!regex.test(String(value))) {
-        throw new Error(field.validation.message || `Field ${field.label} does not match required pattern`);
+    case 'signature':
+      if (!isSignatureValue(value)) {
+        throw new Error(`Field ${label} must be a drawn or typed signature`);
+      }
+      if (value.data.length > MAX_SIGNATURE_DATA_LENGTH) {
+        throw new Error(`Field ${label}: signature image is too large`);
+      }
+      return;
+
+    case 'user':
+    case 'account':
+    case 'project':
+      if (!isFormReferenceValue(value)) {
+        throw new Error(`Field ${label} must be a selected ${field.type}`);
       }
+      return;
+
+    case 'repeater':
+    case 'table':
+      validateRows(field, value, label);
+      return;
+  }
+
+  // Custom pattern validation
+  if (field.validation?.pattern) {
+    const regex = new RegExp(field.validation.pattern);
+    if (!regex.test(String(value))) {
+      throw new Error(field.validation.message || `Field ${label} does not match required pattern`);
+    }
+  }
+}
+
+/**
+ * Validate the rows of a repeater (row count within validation.min/max) or a
+ * table (one row per configured row label), cell by cell
+ */
+function validateRows(field: FormField, value: any, label: string): void {
+  if (!Array.isArray(value) || !value.every((row) => typeof row === 'object' && row !== null && !Array.isArray(row))) {
+    throw new Error(`Field ${label} must be a list of rows`);
+  }
+
+  if (field.type === 'table') {
+    if (value.length !== (field.rows || []).length) {
+      throw new Error(`Field ${label} must have ${(field.rows || []).length} rows`);
+    }
+  } else {
+    if (field.validation?.min !== undefined && value.length < field.validation.min) {
+      throw new Error(`Field ${label} needs at least ${field.validation.min} rows`);
+    }
+    if (field.validation?.max !== undefined && value.length > field.validation.max) {
+      throw new Error(`Field ${label} allows at most ${field.validation.max} rows`);
     }
   }
+
+  value.forEach((row: Record<string, any>, index: number) => {
+    const rowLabel = field.type === 'table' ? field.rows![index] : `row ${index + 1}`;
+    for (const subfield of field.subfields || []) {
+      const cellLabel = `${label} (${rowLabel}) ${subfield.label}`;
+      const cell = row[subfield.id];
+      if (isEmptyFormValue(cell)) {
+        if (subfield.required) {
+          throw new Error(`Required field missing: ${cellLabel}`);
+        }
+        continue;
+      }
+      validateFieldValue(subfield, cell, cellLabel);
+    }
+  });
 }
 
 /**
  * Check if field should be visible based on conditional logic
  */
 export function isFieldVisible(field: FormField, formData: Record<string, any>): boolean {
-  if (!field.conditional) return true;
-
-  const conditionalFieldValue = formData[field.conditional.show_if];
-  return conditionalFieldValue === field.conditional.equals;
+  return isFormFieldVisible(field, formData);
 }
 
 /**
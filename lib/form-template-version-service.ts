@@ -0,0 +1,116 @@
+/**
+ * Form Template Version Service
+ * Reads and writes form_template_versions. A version is recorded whenever a
+ * template's fields are saved with a change, and responses are stamped with
+ * the template's latest version when they're submitted (see form-template-versions).
+ *
+ * Versions can only be added by form managers, so a submitter whose template
+ * predates versioning may be unable to create its first version; the response
+ * is then stored unstamped and renders with the current template.
+ */
+
+import type { FormField } from './form-service';
+import { FormTemplateVersion, haveFormFieldsChanged } from './form-template-versions';
+
+/**
+ * Newest version of a template, or null if it has none yet
+ */
+export async function getLatestFormTemplateVersion(
+  supabase: any,
+  formTemplateId: string
+): Promise<FormTemplateVersion | null> {
+  const { data, error } = await supabase
+    .from('form_template_versions')
+    .select('*')
+    .eq('form_template_id', formTemplateId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading form template version:', error);
+    return null;
+  }
+  return data || null;
+}
+
+/**
+ * All versions of a template, newest first
+ */
+export async function getFormTemplateVersions(
+  supabase: any,
+  formTemplateId: string
+): Promise<FormTemplateVersion[]> {
+  const { data, error } = await supabase
+    .from('form_template_versions')
+    .select('*')
+    .eq('form_template_id', formTemplateId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    console.error('Error loading form template versions:', error);
+    throw error;
+  }
+  return data || [];
+}
+
+/**
+ * Record a template's fields as a new version, unless they match the latest
+ * version already. Returns the version that now describes the template.
+ */
+export async function recordFormTemplateVersion(
+  supabase: any,
+  params: {
+    formTemplateId: string;
+    name: string;
+    fields: FormField[];
+    createdBy: string | null;
+  }
+): Promise<FormTemplateVersion | null> {
+  const { formTemplateId, name, fields, createdBy } = params;
+
+  const latest = await getLatestFormTemplateVersion(supabase, formTemplateId);
+  if (latest && !haveFormFieldsChanged(latest.fields, fields)) {
+    return latest;
+  }
+
+  const { data, error } = await supabase
+    .from('form_template_versions')
+    .insert({
+      form_template_id: formTemplateId,
+      version_number: (latest?.version_number || 0) + 1,
+      name,
+      fields,
+      created_by: createdBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Someone else saved a version at the same moment - theirs is the latest now
+    if (error.code === '23505') {
+      return getLatestFormTemplateVersion(supabase, formTemplateId);
+    }
+    console.error('Error recording form template version:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Id of the version a response submitted now is filled in against. Creates
+ * the first version for templates that predate versioning.
+ */
+export async function getCurrentFormTemplateVersionId(
+  supabase: any,
+  template: { id: string; name: string; fields: FormField[]; created_by?: string | null }
+): Promise<string | null> {
+  const version = await recordFormTemplateVersion(supabase, {
+    formTemplateId: template.id,
+    name: template.name,
+    fields: template.fields,
+    createdBy: template.created_by ?? null,
+  });
+  return version?.id || null;
+}
@@ -0,0 +1,127 @@
+/**
+ * Form Template Versions
+ * Every change to a form template's fields is kept as an immutable version,
+ * and each response records the version it was filled in against, so old
+ * responses render with the labels, options and layout they were answered
+ * with. This module holds the version shape, the field diff shown in the
+ * form builder and the helper that swaps a response's template for its
+ * version.
+ *
+ * Pure and client-safe; reads and writes live in form-template-version-service.
+ */
+
+import type { FormField } from './form-service';
+import { isRecord } from './type-guards';
+
+export interface FormTemplateVersion {
+  id: string;
+  form_template_id: string;
+  version_number: number;
+  name: string;
+  fields: FormField[];
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface FormFieldChange {
+  kind: 'added' | 'removed' | 'changed';
+  fieldId: string;
+  label: string;
+  // What changed, in words - empty for added and removed fields
+  details: string[];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Whether two field lists differ - any difference makes a new version
+ */
+export function haveFormFieldsChanged(before: FormField[], after: FormField[]): boolean {
+  return !sameValue(before, after);
+}
+
+function describeFieldChanges(before: FormField, after: FormField, beforeIndex: number, afterIndex: number): string[] {
+  const details: string[] = [];
+
+  if (before.label !== after.label) details.push(`Renamed from "${before.label}"`);
+  if (before.type !== after.type) details.push(`Type changed from ${before.type} to ${after.type}`);
+  if (!!before.required !== !!after.required) details.push(after.required ? 'Now required' : 'No longer required');
+
+  const beforeOptions = before.options || [];
+  const afterOptions = after.options || [];
+  const addedOptions = afterOptions.filter((option) => !beforeOptions.includes(option));
+  const removedOptions = beforeOptions.filter((option) => !afterOptions.includes(option));
+  if (addedOptions.length > 0) details.push(`Options added: ${addedOptions.join(', ')}`);
+  if (removedOptions.length > 0) details.push(`Options removed: ${removedOptions.join(', ')}`);
+  if (addedOptions.length === 0 && removedOptions.length === 0 && !sameValue(beforeOptions, afterOptions)) {
+    details.push('Options reordered');
+  }
+
+  if (!sameValue(before.subfields, after.subfields)) details.push(after.type === 'table' ? 'Columns changed' : 'Subfields changed');
+  if (!sameValue(before.rows, after.rows)) details.push('Rows changed');
+  if (!sameValue(before.validation, after.validation)) details.push('Validation changed');
+  if (!sameValue(before.conditional, after.conditional)) details.push('Visibility conditions changed');
+  if (!sameValue(before.validationRules, after.validationRules)) details.push('Cross-field rules changed');
+  if (!sameValue(before.computation, after.computation)) details.push('Calculation changed');
+  if ((before.currency || null) !== (after.currency || null)) details.push(`Currency changed to ${after.currency || 'default'}`);
+  if ((before.placeholder || '') !== (after.placeholder || '')) details.push('Placeholder changed');
+  if (!sameValue(before.defaultValue, after.defaultValue)) details.push('Default value changed');
+  if (beforeIndex !== afterIndex) details.push(`Moved from position ${beforeIndex + 1} to ${afterIndex + 1}`);
+
+  return details;
+}
+
+/**
+ * Field-by-field changes from one version to another, in the order of the
+ * newer version with removed fields last
+ */
+export function diffFormFields(before: FormField[], after: FormField[]): FormFieldChange[] {
+  const beforeIndex = new Map(before.map((field, index) => [field.id, index]));
+  const afterIds = new Set(after.map((field) => field.id));
+  const changes: FormFieldChange[] = [];
+
+  // Positions among the fields both versions share, so an insert doesn't count as moving everything after it
+  const sharedBefore = before.filter((field) => afterIds.has(field.id)).map((field) => field.id);
+  const sharedAfter = after.filter((field) => beforeIndex.has(field.id)).map((field) => field.id);
+
+  for (const field of after) {
+    const index = beforeIndex.get(field.id);
+    if (index === undefined) {
+      changes.push({ kind: 'added', fieldId: field.id, label: field.label, details: [] });
+      continue;
+    }
+
+    const details = describeFieldChanges(
+      before[index],
+      field,
+      sharedBefore.indexOf(field.id),
+      sharedAfter.indexOf(field.id)
+    );
+    if (details.length > 0) {
+      changes.push({ kind: 'changed', fieldId: field.id, label: field.label, details });
+    }
+  }
+
+  for (const field of before) {
+    if (!afterIds.has(field.id)) {
+      changes.push({ kind: 'removed', fieldId: field.id, label: field.label, details: [] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * A response's template as it was when the response was submitted: the
+ * current template with the fields (and name) of the response's version.
+ * Responses from before versioning keep the current template.
+ */
+export function withResponseVersion<T extends { form_template?: unknown; form_template_version?: unknown }>(response: T): T {
+  const version = response.form_template_version;
+  if (!isRecord(version) || !Array.isArray(version.fields)) return response;
+
+  const template = isRecord(response.form_template) ? response.form_template : {};
+  return { ...response, form_template: { ...template, name: version.name, fields: version.fields } };
+}
@@ -0,0 +1,287 @@
+/**
+ * Intake Form Service
+ * Form templates published as intake forms with a shareable link. A
+ * submission creates a project (status planning) under the intake form's
+ * account - or, for client portal forms, the submitting client's account -
+ * with mapped form fields copied onto project columns, stores the answers in
+ * form_responses and starts the intake form's workflow if it has one - else
+ * the org's client_request_submitted (then project_created) trigger rules.
+ *
+ * Public submissions are anonymous, so the submit route passes a service-role
+ * client; everything here trusts its caller to have checked access.
+ */
+
+import { randomBytes } from 'crypto';
+import type { FormField } from './form-service';
+import { applyComputedFields } from './form-logic';
+import { snapshotFormFields } from './form-report';
+import { getCurrentFormTemplateVersionId } from './form-template-version-service';
+import { startWorkflowForProject } from './workflow-execution-service';
+import { evaluateWorkflowTriggers } from './workflow-trigger-service';
+import { IntakeFieldMappings, IntakeForm, IntakeProjectColumn } from './intake-forms';
+import { isString, isRecord } from './type-guards';
+
+export interface IntakeSubmissionResult {
+  success: boolean;
+  projectId?: string;
+  responseId?: string;
+  workflowInstanceId?: string | null;
+  error?: string;
+}
+
+// Humans take longer than this to fill in a form; bots usually don't
+export const MIN_INTAKE_FILL_MS = 3000;
+
+const PROJECT_PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+const MAX_PROJECT_NAME_LENGTH = 200;
+const MAX_PROJECT_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * Unguessable link token for a new intake form
+ */
+export function generateIntakeSlug(): string {
+  return randomBytes(12).toString('base64url');
+}
+
+/**
+ * Honeypot and fill-time check. Spam is answered like a normal submission so
+ * bots don't learn to avoid the checks.
+ */
+export function isLikelySpam(submission: { website?: string | null; started_at?: number | null }, now: number = Date.now()): boolean {
+  if (submission.website && submission.website.trim() !== '') return true;
+  if (!submission.started_at) return true;
+  return now - submission.started_at < MIN_INTAKE_FILL_MS;
+}
+
+function toDateColumn(value: unknown): string | null {
+  if (!isString(value) || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : value.slice(0, 10);
+}
+
+/**
+ * Project columns filled from a submission's answers
+ */
+export function buildProjectFromResponses(
+  mappings: IntakeFieldMappings,
+  responses: Record<string, unknown>,
+  defaultPriority: string
+): {
+  name: string;
+  description: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  priority: string;
+  estimated_hours: number | null;
+} {
+  const valueOf = (column: IntakeProjectColumn): unknown => {
+    const fieldId = mappings[column];
+    return fieldId ? responses[fieldId] : undefined;
+  };
+
+  const name = String(valueOf('name') ?? '').trim().slice(0, MAX_PROJECT_NAME_LENGTH);
+  const description = valueOf('description');
+  const priority = String(valueOf('priority') ?? '').trim().toLowerCase();
+  const hours = Number(valueOf('estimated_hours'));
+
+  return {
+    name: name || 'Intake request',
+    description: isString(description) && description.trim()
+      ? description.trim().slice(0, MAX_PROJECT_DESCRIPTION_LENGTH)
+      : null,
+    start_date: toDateColumn(valueOf('start_date')),
+    end_date: toDateColumn(valueOf('end_date')),
+    priority: PROJECT_PRIORITIES.includes(priority) ? priority : defaultPriority,
+    estimated_hours: valueOf('estimated_hours') !== '' && Number.isFinite(hours) && hours >= 0 ? hours : null,
+  };
+}
+
+function toIntakeForm(row: Record<string, unknown>): IntakeForm {
+  return {
+    ...(row as unknown as IntakeForm),
+    field_mappings: isRecord(row.field_mappings) ? (row.field_mappings as IntakeFieldMappings) : {},
+  };
+}
+
+/**
+ * All intake forms with their template and account names, newest first
+ */
+export async function getIntakeForms(supabase: any): Promise<(IntakeForm & {
+  form_templates: { id: string; name: string } | null;
+  accounts: { id: string; name: string } | null;
+})[]> {
+  const { data, error } = await supabase
+    .from('form_intake_forms')
+    .select('*, form_templates(id, name), accounts(id, name)')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading intake forms:', error);
+    return [];
+  }
+
+  return (data || []).map((row: any) => ({ ...toIntakeForm(row), form_templates: row.form_templates, accounts: row.accounts }));
+}
+
+/**
+ * Fields of a form template, or null if there's no such template
+ */
+export async function getFormTemplateFields(supabase: any, templateId: string): Promise<FormField[] | null> {
+  const { data, error } = await supabase
+    .from('form_templates')
+    .select('*')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading form template:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  return Array.isArray(data.fields) ? (data.fields as FormField[]) : [];
+}
+
+/**
+ * An active intake form and its template fields, by link slug
+ */
+export async function getIntakeFormBySlug(
+  supabase: any,
+  slug: string
+): Promise<{ intakeForm: IntakeForm; fields: FormField[] } | null> {
+  const { data, error } = await supabase
+    .from('form_intake_forms')
+    .select('*, form_templates(*)')
+    .eq('slug', slug)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading intake form:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  const fields = Array.isArray(data.form_templates?.fields) ? (data.form_templates.fields as FormField[]) : [];
+  return { intakeForm: toIntakeForm(data), fields };
+}
+
+/**
+ * Create the project, store the response and start the workflow for a
+ * submission whose answers have already passed validateFormResponse
+ */
+export async function submitIntakeForm(
+  supabase: any,
+  params: {
+    intakeForm: IntakeForm;
+    fields: FormField[];
+    responses: Record<string, unknown>;
+    accountId: string;
+    // Signed-in client user, null for public submissions
+    submittedBy: string | null;
+    submitterName: string | null;
+    submitterEmail: string | null;
+  }
+): Promise<IntakeSubmissionResult> {
+  const { intakeForm, fields, accountId, submittedBy, submitterName, submitterEmail } = params;
+  const responses = applyComputedFields(fields, params.responses);
+  // Public submissions have no user - the publisher owns the new project
+  const actorId = submittedBy || intakeForm.created_by;
+
+  try {
+    const projectColumns = buildProjectFromResponses(intakeForm.field_mappings, responses, intakeForm.default_priority);
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .insert({
+        ...projectColumns,
+        account_id: accountId,
+        status: 'planning',
+        assigned_user_id: intakeForm.created_by,
+        created_by: actorId,
+        created_at: new Date().toISOString(),
+      })
+      .select('id, account_id, priority, status')
+      .single();
+
+    if (projectError || !project) {
+      console.error('Error creating project from intake form:', projectError);
+      return { success: false, error: 'Failed to create project' };
+    }
+
+    if (intakeForm.created_by) {
+      await supabase.from('project_assignments').insert({
+        project_id: project.id,
+        user_id: intakeForm.created_by,
+        role_in_project: 'Intake Owner',
+        assigned_at: new Date().toISOString(),
+        assigned_by: intakeForm.created_by,
+        source_type: 'creator',
+      });
+    }
+
+    const { data: response, error: responseError } = await supabase
+      .from('form_responses')
+      .insert({
+        form_template_id: intakeForm.form_template_id,
+        intake_form_id: intakeForm.id,
+        project_id: project.id,
+        submitted_by: submittedBy,
+        submitter_name: submitterName,
+        submitter_email: submitterEmail,
+        response_data: responses,
+        field_snapshot: snapshotFormFields(fields),
+        form_template_version_id: await getCurrentFormTemplateVersionId(supabase, {
+          id: intakeForm.form_template_id,
+          // Only used if the template has no version yet; intake templates are named after the form
+          name: intakeForm.title,
+          fields,
+          created_by: intakeForm.created_by,
+        }),
+      })
+      .select('id')
+      .single();
+
+    if (responseError) {
+      // The project exists and carries the mapped answers - don't fail the submission
+      console.error('Error storing intake form response:', responseError);
+    }
+
+    const submitter = submitterName
+      ? `${submitterName}${submitterEmail ? ` (${submitterEmail})` : ''}`
+      : submitterEmail || 'a client';
+    await supabase.from('project_updates').insert({
+      project_id: project.id,
+      content: `**Submitted via intake form**: ${intakeForm.title} by ${submitter}`,
+      created_by: actorId,
+    });
+
+    let workflowInstanceId: string | null = null;
+    if (intakeForm.workflow_template_id && actorId) {
+      const started = await startWorkflowForProject(supabase, project.id, intakeForm.workflow_template_id, actorId);
+      if (started.success && started.workflowInstanceId) {
+        workflowInstanceId = started.workflowInstanceId;
+      } else {
+        await supabase.from('project_updates').insert({
+          project_id: project.id,
+          content: `**Workflow not started**: ${started.error || 'Unknown error'}`,
+          created_by: null,
+        });
+      }
+    } else if (!intakeForm.workflow_template_id && actorId) {
+      // No workflow chosen on the form - the org's trigger rules apply. A
+      // submission is a client request first; project_created rules only run
+      // if no client request rule started a workflow.
+      for (const type of ['client_request_submitted', 'project_created'] as const) {
+        const triggerResult = await evaluateWorkflowTriggers(supabase, { type, project }, actorId);
+        workflowInstanceId = triggerResult.started?.workflowInstanceId || null;
+        if (workflowInstanceId) break;
+      }
+    }
+
+    return { success: true, projectId: project.id, responseId: response?.id, workflowInstanceId };
+  } catch (error: unknown) {
+    console.error('Error submitting intake form:', error);
+    return { success: false, error: 'Failed to submit intake form' };
+  }
+}
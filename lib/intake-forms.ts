@@ -0,0 +1,87 @@
+/**
+ * Intake Forms
+ * Types and checks for form templates published as intake forms (see
+ * intake-form-service): which project columns a form field can fill and which
+ * field types an intake form can't use.
+ *
+ * Shared by the API routes and the admin page, so nothing here touches the
+ * database.
+ */
+
+import type { FormField } from './form-service';
+
+export type IntakeFormAccess = 'public' | 'client_portal';
+
+export type IntakeProjectColumn = 'name' | 'description' | 'start_date' | 'end_date' | 'priority' | 'estimated_hours';
+
+export type IntakeFieldMappings = Partial<Record<IntakeProjectColumn, string | null>>;
+
+export interface IntakeForm {
+  id: string;
+  form_template_id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  access: IntakeFormAccess;
+  account_id: string | null;
+  field_mappings: IntakeFieldMappings;
+  default_priority: string;
+  workflow_template_id: string | null;
+  confirmation_message: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What the intake page needs to render the form - no account or mappings
+export interface PublishedIntakeForm {
+  slug: string;
+  title: string;
+  description: string | null;
+  access: IntakeFormAccess;
+  fields: FormField[];
+}
+
+// Project columns a form field can fill, and the field types that fit each
+export const INTAKE_PROJECT_COLUMNS: { column: IntakeProjectColumn; label: string; fieldTypes: string[] }[] = [
+  { column: 'name', label: 'Project name', fieldTypes: ['text', 'textarea', 'dropdown'] },
+  { column: 'description', label: 'Description', fieldTypes: ['text', 'textarea'] },
+  { column: 'start_date', label: 'Start date', fieldTypes: ['date'] },
+  { column: 'end_date', label: 'Due date', fieldTypes: ['date'] },
+  { column: 'priority', label: 'Priority', fieldTypes: ['dropdown', 'text'] },
+  { column: 'estimated_hours', label: 'Estimated hours', fieldTypes: ['number', 'computed'] },
+];
+
+// Fields that need a workflow instance (file) or read internal data (pickers)
+export const INTAKE_UNSUPPORTED_FIELD_TYPES = ['file', 'user', 'account', 'project'];
+
+/**
+ * Check that a form can be published as an intake form with these mappings.
+ * Returns an error message, or null if it's fine.
+ */
+export function validateIntakeConfig(fields: FormField[], mappings: IntakeFieldMappings): string | null {
+  const unsupported = fields.find((field) => INTAKE_UNSUPPORTED_FIELD_TYPES.includes(field.type));
+  if (unsupported) {
+    return `Field "${unsupported.label}" can't be used on an intake form (${unsupported.type} fields are for internal workflows only)`;
+  }
+
+  if (!mappings.name) {
+    return 'Map a form field to the project name';
+  }
+
+  for (const { column, label, fieldTypes } of INTAKE_PROJECT_COLUMNS) {
+    const fieldId = mappings[column];
+    if (!fieldId) continue;
+
+    const field = fields.find((f) => f.id === fieldId);
+    if (!field) {
+      return `${label} is mapped to a field that isn't on the form`;
+    }
+    if (!fieldTypes.includes(field.type)) {
+      return `${label} can't be filled from the ${field.type} field "${field.label}"`;
+    }
+  }
+
+  return null;
+}
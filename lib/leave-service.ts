@@ -0,0 +1,708 @@
+/**
+ * Leave Service
+ * Reads and writes leave types, balance adjustments and leave requests, and
+ * keeps user_availability in step with approved leave. Approvers are whoever
+ * holds a role that one of the requester's roles reports to
+ * (roles.reporting_role_id).
+ */
+
+import { getBusinessCalendar, toDateKey } from './business-calendar-service';
+import { hasPermission } from './permission-checker';
+import { Permission } from './permissions';
+import { UserWithRoles } from './rbac-types';
+import { shiftWeek, toWeekStart } from './resource-planner';
+import {
+  applyLeaveToAvailability,
+  buildLeaveBalances,
+  countLeaveDays,
+  getLeaveDays,
+  LeaveAccrual,
+  LeaveBalance,
+  LeaveBalanceAdjustment,
+  LeaveDay,
+  LeaveRequest,
+  LeaveStatus,
+  LeaveType,
+  MAX_LEAVE_REQUEST_DAYS,
+} from './leave';
+import { isString, isRecord, first } from './type-guards';
+
+export interface LeaveTypeInput {
+  name: string;
+  color: string;
+  isPaid: boolean;
+  requiresApproval: boolean;
+  accrual: LeaveAccrual;
+  annualAllowanceDays: number | null;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+export interface LeaveRequestInput {
+  leaveTypeId: string;
+  startDate: string;
+  endDate: string;
+  halfDay: boolean;
+  reason: string | null;
+}
+
+const REQUEST_COLUMNS = `id, user_id, leave_type_id, start_date, end_date, half_day, days, reason, status, reviewed_by, reviewed_at, review_note, created_at,
+  requester:user_profiles!leave_requests_user_id_fkey(name),
+  reviewer:user_profiles!leave_requests_reviewed_by_fkey(name),
+  leave_types(name, color)`;
+
+function toLeaveType(row: Record<string, unknown>): LeaveType {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    color: isString(row.color) ? row.color : '#3B82F6',
+    isPaid: row.is_paid !== false,
+    requiresApproval: row.requires_approval !== false,
+    accrual: row.accrual === 'monthly' || row.accrual === 'none' ? row.accrual : 'annual',
+    annualAllowanceDays: row.annual_allowance_days === null || row.annual_allowance_days === undefined
+      ? null
+      : Number(row.annual_allowance_days),
+    isActive: row.is_active !== false,
+    sortOrder: Number(row.sort_order) || 0,
+  };
+}
+
+function toLeaveRequest(row: Record<string, unknown>): LeaveRequest {
+  const requester = first(row.requester);
+  const reviewer = first(row.reviewer);
+  const type = first(row.leave_types);
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    userName: isString(requester?.name) ? requester.name : null,
+    leaveTypeId: row.leave_type_id as string,
+    leaveTypeName: isString(type?.name) ? type.name : 'Leave',
+    leaveTypeColor: isString(type?.color) ? type.color : '#3B82F6',
+    startDate: row.start_date as string,
+    endDate: row.end_date as string,
+    halfDay: row.half_day === true,
+    days: Number(row.days) || 0,
+    reason: isString(row.reason) ? row.reason : null,
+    status: row.status as LeaveStatus,
+    reviewedBy: isString(row.reviewed_by) ? row.reviewed_by : null,
+    reviewedByName: isString(reviewer?.name) ? reviewer.name : null,
+    reviewedAt: isString(row.reviewed_at) ? row.reviewed_at : null,
+    reviewNote: isString(row.review_note) ? row.review_note : null,
+    createdAt: row.created_at as string,
+  };
+}
+
+function toAdjustment(row: Record<string, unknown>): LeaveBalanceAdjustment {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    leaveTypeId: row.leave_type_id as string,
+    year: Number(row.year),
+    days: Number(row.days) || 0,
+    reason: isString(row.reason) ? row.reason : null,
+    createdAt: row.created_at as string,
+  };
+}
+
+// ============================================================================
+// LEAVE TYPES
+// ============================================================================
+
+export async function listLeaveTypes(supabase: any, options: { includeInactive?: boolean } = {}): Promise<LeaveType[]> {
+  let query = supabase
+    .from('leave_types')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (!options.includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error listing leave types:', error);
+    throw new Error('Failed to load leave types');
+  }
+
+  return (data || []).filter(isRecord).map(toLeaveType);
+}
+
+function toLeaveTypeRow(input: Partial<LeaveTypeInput>): Record<string, unknown> {
+  return {
+    ...(input.name !== undefined && { name: input.name.trim() }),
+    ...(input.color !== undefined && { color: input.color }),
+    ...(input.isPaid !== undefined && { is_paid: input.isPaid }),
+    ...(input.requiresApproval !== undefined && { requires_approval: input.requiresApproval }),
+    ...(input.accrual !== undefined && { accrual: input.accrual }),
+    ...(input.annualAllowanceDays !== undefined && { annual_allowance_days: input.annualAllowanceDays }),
+    ...(input.isActive !== undefined && { is_active: input.isActive }),
+    ...(input.sortOrder !== undefined && { sort_order: input.sortOrder }),
+  };
+}
+
+export async function createLeaveType(
+  supabase: any,
+  input: LeaveTypeInput
+): Promise<{ success: boolean; leaveType?: LeaveType; error?: string }> {
+  const { data, error } = await supabase
+    .from('leave_types')
+    .insert(toLeaveTypeRow(input))
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error creating leave type:', error);
+    return { success: false, error: error.code === '23505' ? 'A leave type with that name already exists' : 'Failed to create leave type' };
+  }
+
+  return { success: true, leaveType: toLeaveType(data) };
+}
+
+export async function updateLeaveType(
+  supabase: any,
+  id: string,
+  updates: Partial<LeaveTypeInput>
+): Promise<{ success: boolean; leaveType?: LeaveType; error?: string }> {
+  const { data, error } = await supabase
+    .from('leave_types')
+    .update(toLeaveTypeRow(updates))
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating leave type:', error);
+    return { success: false, error: error.code === '23505' ? 'A leave type with that name already exists' : 'Failed to update leave type' };
+  }
+  if (!data) return { success: false, error: 'Leave type not found' };
+
+  return { success: true, leaveType: toLeaveType(data) };
+}
+
+// ============================================================================
+// APPROVERS AND TEAMS
+// ============================================================================
+
+/**
+ * Users holding a role that one of `userId`'s roles reports to
+ */
+export async function getLeaveApproverIds(supabase: any, userId: string): Promise<string[]> {
+  const { data: roles, error } = await supabase
+    .from('user_roles')
+    .select('roles!user_roles_role_id_fkey(reporting_role_id)')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error loading roles for leave approval:', error);
+    return [];
+  }
+
+  const reportingRoleIds = (roles || [])
+    .map((row: Record<string, unknown>) => first(row.roles)?.reporting_role_id)
+    .filter(isString);
+  if (reportingRoleIds.length === 0) return [];
+
+  const { data: approvers, error: approverError } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .in('role_id', reportingRoleIds);
+
+  if (approverError) {
+    console.error('Error loading leave approvers:', approverError);
+    return [];
+  }
+
+  return Array.from(new Set<string>((approvers || [])
+    .map((row: Record<string, unknown>) => row.user_id)
+    .filter((id: unknown): id is string => isString(id) && id !== userId)));
+}
+
+/**
+ * Users whose leave `approverId` approves - the holders of roles that report
+ * to a role they hold
+ */
+export async function getLeaveReportIds(supabase: any, approverId: string): Promise<string[]> {
+  const { data: myRoles, error } = await supabase
+    .from('user_roles')
+    .select('role_id')
+    .eq('user_id', approverId);
+
+  if (error) {
+    console.error('Error loading approver roles:', error);
+    return [];
+  }
+
+  const roleIds = (myRoles || []).map((row: Record<string, unknown>) => row.role_id).filter(isString);
+  if (roleIds.length === 0) return [];
+
+  const { data: reports, error: reportError } = await supabase
+    .from('user_roles')
+    .select('user_id, roles!user_roles_role_id_fkey!inner(reporting_role_id)')
+    .in('roles.reporting_role_id', roleIds);
+
+  if (reportError) {
+    console.error('Error loading leave reports:', reportError);
+    return [];
+  }
+
+  return Array.from(new Set<string>((reports || [])
+    .map((row: Record<string, unknown>) => row.user_id)
+    .filter((id: unknown): id is string => isString(id) && id !== approverId)));
+}
+
+export async function isLeaveApprover(supabase: any, approverId: string, userId: string): Promise<boolean> {
+  const approvers = await getLeaveApproverIds(supabase, userId);
+  return approvers.includes(approverId);
+}
+
+/**
+ * Whether `reviewer` may decide on (and see the balances behind) `userId`'s
+ * leave: user managers for anyone, otherwise the holders of the roles the
+ * user reports to
+ */
+export async function canReviewLeaveFor(supabase: any, reviewer: UserWithRoles, userId: string): Promise<boolean> {
+  if ((reviewer as any).id === userId) return false;
+  if (await hasPermission(reviewer, Permission.MANAGE_USERS, undefined, supabase)) return true;
+  return isLeaveApprover(supabase, (reviewer as any).id, userId);
+}
+
+/**
+ * Everyone sharing a department with `userId`, for the team leave calendar
+ */
+export async function getDepartmentTeammateIds(supabase: any, userId: string): Promise<string[]> {
+  const { data: myRoles, error } = await supabase
+    .from('user_roles')
+    .select('roles!user_roles_role_id_fkey(department_id)')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error loading departments for leave calendar:', error);
+    return [userId];
+  }
+
+  const departmentIds = (myRoles || [])
+    .map((row: Record<string, unknown>) => first(row.roles)?.department_id)
+    .filter(isString);
+  if (departmentIds.length === 0) return [userId];
+
+  const { data: teammates, error: teamError } = await supabase
+    .from('user_roles')
+    .select('user_id, roles!user_roles_role_id_fkey!inner(department_id)')
+    .in('roles.department_id', departmentIds);
+
+  if (teamError) {
+    console.error('Error loading teammates for leave calendar:', teamError);
+    return [userId];
+  }
+
+  return Array.from(new Set<string>([
+    userId,
+    ...(teammates || []).map((row: Record<string, unknown>) => row.user_id).filter(isString),
+  ]));
+}
+
+// ============================================================================
+// REQUESTS AND BALANCES
+// ============================================================================
+
+/**
+ * Leave requests, newest first. `from`/`to` keep requests that overlap the
+ * range; `userIds` undefined means everyone the caller can see.
+ */
+export async function listLeaveRequests(
+  supabase: any,
+  filters: { userIds?: string[]; statuses?: LeaveStatus[]; from?: string; to?: string } = {}
+): Promise<LeaveRequest[]> {
+  if (filters.userIds && filters.userIds.length === 0) return [];
+
+  let query = supabase
+    .from('leave_requests')
+    .select(REQUEST_COLUMNS)
+    .order('start_date', { ascending: false });
+
+  if (filters.userIds) query = query.in('user_id', filters.userIds);
+  if (filters.statuses && filters.statuses.length > 0) query = query.in('status', filters.statuses);
+  if (filters.from) query = query.gte('end_date', filters.from);
+  if (filters.to) query = query.lte('start_date', filters.to);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error listing leave requests:', error);
+    throw new Error('Failed to load leave requests');
+  }
+
+  return (data || []).filter(isRecord).map(toLeaveRequest);
+}
+
+export async function getLeaveRequest(supabase: any, id: string): Promise<LeaveRequest | null> {
+  const { data, error } = await supabase
+    .from('leave_requests')
+    .select(REQUEST_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading leave request:', error);
+    return null;
+  }
+
+  return data ? toLeaveRequest(data) : null;
+}
+
+export async function getLeaveBalances(
+  supabase: any,
+  userId: string,
+  year: number
+): Promise<{ balances: LeaveBalance[]; adjustments: LeaveBalanceAdjustment[] }> {
+  const [types, requestsResult, adjustmentsResult] = await Promise.all([
+    listLeaveTypes(supabase),
+    supabase
+      .from('leave_requests')
+      .select('leave_type_id, start_date, days, status')
+      .eq('user_id', userId)
+      .gte('start_date', `${year}-01-01`)
+      .lte('start_date', `${year}-12-31`)
+      .in('status', ['pending', 'approved']),
+    supabase
+      .from('leave_balance_adjustments')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('year', year)
+      .order('created_at', { ascending: false }),
+  ]);
+
+  if (requestsResult.error) {
+    console.error('Error loading leave taken:', requestsResult.error);
+    throw new Error('Failed to load leave balances');
+  }
+  if (adjustmentsResult.error) {
+    console.error('Error loading leave balance adjustments:', adjustmentsResult.error);
+    throw new Error('Failed to load leave balances');
+  }
+
+  const requests = (requestsResult.data || []).filter(isRecord).map((row: Record<string, unknown>) => ({
+    leaveTypeId: row.leave_type_id as string,
+    startDate: row.start_date as string,
+    days: Number(row.days) || 0,
+    status: row.status as LeaveStatus,
+  }));
+  const adjustments = (adjustmentsResult.data || []).filter(isRecord).map(toAdjustment);
+
+  return {
+    balances: buildLeaveBalances(types, year, toDateKey(new Date()), requests, adjustments),
+    adjustments,
+  };
+}
+
+export async function createLeaveBalanceAdjustment(
+  supabase: any,
+  input: { userId: string; leaveTypeId: string; year: number; days: number; reason: string | null },
+  createdBy: string
+): Promise<{ success: boolean; adjustment?: LeaveBalanceAdjustment; error?: string }> {
+  const { data, error } = await supabase
+    .from('leave_balance_adjustments')
+    .insert({
+      user_id: input.userId,
+      leave_type_id: input.leaveTypeId,
+      year: input.year,
+      days: input.days,
+      reason: input.reason,
+      created_by: createdBy,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error creating leave balance adjustment:', error);
+    return { success: false, error: 'Failed to adjust leave balance' };
+  }
+
+  return { success: true, adjustment: toAdjustment(data) };
+}
+
+async function getUserRegion(supabase: any, userId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('region')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return isString(data?.region) && data.region ? data.region : null;
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / 86400000) + 1;
+}
+
+export async function createLeaveRequest(
+  supabase: any,
+  userId: string,
+  input: LeaveRequestInput
+): Promise<{ success: boolean; request?: LeaveRequest; error?: string }> {
+  if (input.endDate < input.startDate) {
+    return { success: false, error: 'The last day must be on or after the first day' };
+  }
+  if (daysBetween(input.startDate, input.endDate) > MAX_LEAVE_REQUEST_DAYS) {
+    return { success: false, error: `A single request can cover at most ${MAX_LEAVE_REQUEST_DAYS} days` };
+  }
+  if (input.halfDay && input.startDate !== input.endDate) {
+    return { success: false, error: 'Half days can only be requested for a single day' };
+  }
+
+  const { data: typeRow } = await supabase
+    .from('leave_types')
+    .select('*')
+    .eq('id', input.leaveTypeId)
+    .maybeSingle();
+
+  if (!typeRow || typeRow.is_active === false) {
+    return { success: false, error: 'Leave type not found' };
+  }
+  const leaveType = toLeaveType(typeRow);
+
+  const [calendar, region] = await Promise.all([
+    getBusinessCalendar(supabase),
+    getUserRegion(supabase, userId),
+  ]);
+  const days = countLeaveDays(getLeaveDays(calendar, input.startDate, input.endDate, input.halfDay, region ?? calendar.defaultRegion));
+  if (days === 0) {
+    return { success: false, error: 'Those dates are all non-working days' };
+  }
+
+  const { data: overlapping } = await supabase
+    .from('leave_requests')
+    .select('id')
+    .eq('user_id', userId)
+    .in('status', ['pending', 'approved'])
+    .lte('start_date', input.endDate)
+    .gte('end_date', input.startDate)
+    .limit(1);
+
+  if (overlapping && overlapping.length > 0) {
+    return { success: false, error: 'You already have leave booked on some of those days' };
+  }
+
+  const year = Number(input.startDate.slice(0, 4));
+  const { balances } = await getLeaveBalances(supabase, userId, year);
+  const balance = balances.find((b) => b.leaveTypeId === leaveType.id);
+  if (balance?.tracked && balance.remaining < days) {
+    return {
+      success: false,
+      error: `Not enough ${leaveType.name} left - ${balance.remaining} day${balance.remaining === 1 ? '' : 's'} available, ${days} requested`,
+    };
+  }
+
+  const autoApproved = !leaveType.requiresApproval;
+  const { data, error } = await supabase
+    .from('leave_requests')
+    .insert({
+      user_id: userId,
+      leave_type_id: leaveType.id,
+      start_date: input.startDate,
+      end_date: input.endDate,
+      half_day: input.halfDay,
+      days,
+      reason: input.reason,
+      status: 'pending',
+    })
+    .select(REQUEST_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error creating leave request:', error);
+    return { success: false, error: 'Failed to submit leave request' };
+  }
+
+  let request = toLeaveRequest(data);
+  if (autoApproved) {
+    // Requests are always inserted pending; review_leave_request lets the
+    // requester approve leave types that don't need an approver
+    const { error: approveError } = await supabase.rpc('review_leave_request', {
+      p_request_id: request.id,
+      p_decision: 'approved',
+      p_note: null,
+    });
+    if (approveError) {
+      console.error('Error auto-approving leave request:', approveError);
+      return { success: false, request, error: 'Leave request submitted but could not be approved' };
+    }
+
+    request = (await getLeaveRequest(supabase, request.id)) ?? { ...request, status: 'approved' };
+    const sync = await syncLeaveAvailability(supabase, userId, request.startDate, request.endDate);
+    if (!sync.success) {
+      return { success: false, request, error: `Leave approved, but ${sync.error?.toLowerCase() ?? 'availability was not updated'}` };
+    }
+  }
+
+  return { success: true, request };
+}
+
+/**
+ * Approve or reject a pending request. Approval takes the leave out of the
+ * user's availability for the weeks it covers; if that fails the request is
+ * still approved and the error is returned alongside it.
+ */
+export async function reviewLeaveRequest(
+  supabase: any,
+  id: string,
+  decision: 'approved' | 'rejected',
+  note: string | null
+): Promise<{ success: boolean; request?: LeaveRequest; error?: string }> {
+  const existing = await getLeaveRequest(supabase, id);
+  if (!existing) return { success: false, error: 'Leave request not found' };
+  if (existing.status !== 'pending') {
+    return { success: false, error: `This request has already been ${existing.status}` };
+  }
+
+  // The function re-checks that the caller approves for this requester
+  const { data: reviewed, error } = await supabase.rpc('review_leave_request', {
+    p_request_id: id,
+    p_decision: decision,
+    p_note: note,
+  });
+
+  if (error) {
+    console.error('Error reviewing leave request:', error);
+    return { success: false, error: error.code === '42501' ? 'You cannot review this leave request' : 'Failed to review leave request' };
+  }
+  if (!reviewed) return { success: false, error: 'This request has already been reviewed' };
+
+  const request = (await getLeaveRequest(supabase, id)) ?? { ...existing, status: decision };
+
+  if (decision === 'approved') {
+    const sync = await syncLeaveAvailability(supabase, existing.userId, existing.startDate, existing.endDate);
+    if (!sync.success) {
+      return { success: false, request, error: `Leave approved, but ${sync.error?.toLowerCase() ?? 'availability was not updated'}` };
+    }
+  }
+
+  return { success: true, request };
+}
+
+/**
+ * Withdraw a pending request or cancel approved leave. Cancelling approved
+ * leave gives the hours back to the user's availability.
+ */
+export async function cancelLeaveRequest(
+  supabase: any,
+  id: string
+): Promise<{ success: boolean; request?: LeaveRequest; error?: string }> {
+  const existing = await getLeaveRequest(supabase, id);
+  if (!existing) return { success: false, error: 'Leave request not found' };
+  if (existing.status !== 'pending' && existing.status !== 'approved') {
+    return { success: false, error: `This request has already been ${existing.status}` };
+  }
+
+  const { data: cancelled, error } = await supabase.rpc('cancel_leave_request', { p_request_id: id });
+
+  if (error) {
+    console.error('Error cancelling leave request:', error);
+    return { success: false, error: error.code === '42501' ? 'You can only cancel your own leave' : 'Failed to cancel leave request' };
+  }
+  if (!cancelled) return { success: false, error: 'This request has already been closed' };
+
+  const request = (await getLeaveRequest(supabase, id)) ?? { ...existing, status: 'cancelled' as const };
+
+  if (existing.status === 'approved') {
+    const sync = await syncLeaveAvailability(supabase, existing.userId, existing.startDate, existing.endDate);
+    if (!sync.success) {
+      return { success: false, request, error: `Leave cancelled, but ${sync.error?.toLowerCase() ?? 'availability was not updated'}` };
+    }
+  }
+
+  return { success: true, request };
+}
+
+// ============================================================================
+// AVAILABILITY
+// ============================================================================
+
+/**
+ * Rewrite user_availability for every week touched by startDate..endDate so
+ * available_hours reflects all of the user's approved leave in those weeks.
+ * Safe to call repeatedly - each week is recomputed from its pre-leave hours.
+ */
+export async function syncLeaveAvailability(
+  supabase: any,
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<{ success: boolean; error?: string }> {
+  const [calendar, region] = await Promise.all([
+    getBusinessCalendar(supabase),
+    getUserRegion(supabase, userId),
+  ]);
+  const userRegion = region ?? calendar.defaultRegion;
+
+  const weeks: string[] = [];
+  for (let week = toWeekStart(startDate); week <= endDate; week = shiftWeek(week, 1)) {
+    weeks.push(week);
+  }
+  if (weeks.length === 0) return { success: true };
+
+  // Whole weeks, so other leave in the same weeks is counted too
+  const rangeStart = weeks[0];
+  const rangeEnd = shiftWeek(weeks[weeks.length - 1], 1);
+
+  const [leaveResult, availabilityResult] = await Promise.all([
+    supabase
+      .from('leave_requests')
+      .select('start_date, end_date, half_day')
+      .eq('user_id', userId)
+      .eq('status', 'approved')
+      .lt('start_date', rangeEnd)
+      .gte('end_date', rangeStart),
+    supabase
+      .from('user_availability')
+      .select('id, week_start_date, available_hours, schedule_data')
+      .eq('user_id', userId)
+      .in('week_start_date', weeks),
+  ]);
+
+  if (leaveResult.error || availabilityResult.error) {
+    console.error('Error loading leave for availability:', leaveResult.error || availabilityResult.error);
+    return { success: false, error: 'Failed to update availability for leave' };
+  }
+
+  const leaveByWeek = new Map<string, LeaveDay[]>();
+  for (const row of (leaveResult.data || []).filter(isRecord)) {
+    const days = getLeaveDays(calendar, row.start_date as string, row.end_date as string, row.half_day === true, userRegion);
+    for (const day of days) {
+      const week = toWeekStart(day.date);
+      leaveByWeek.set(week, [...(leaveByWeek.get(week) ?? []), day]);
+    }
+  }
+
+  const existingByWeek = new Map<string, Record<string, unknown>>(
+    (availabilityResult.data || []).filter(isRecord).map((row: Record<string, unknown>) => [row.week_start_date as string, row])
+  );
+
+  for (const week of weeks) {
+    const existing = existingByWeek.get(week) ?? null;
+    const update = applyLeaveToAvailability(
+      existing ? { available_hours: existing.available_hours as number, schedule_data: existing.schedule_data } : null,
+      leaveByWeek.get(week) ?? [],
+      calendar
+    );
+    if (!update) continue;
+
+    const { error } = update.remove
+      ? await supabase.from('user_availability').delete().eq('id', existing?.id)
+      : await supabase
+          .from('user_availability')
+          .upsert({
+            user_id: userId,
+            week_start_date: week,
+            available_hours: update.availableHours,
+            schedule_data: update.scheduleData,
+          }, { onConflict: 'user_id,week_start_date' });
+
+    if (error) {
+      console.error('Error updating availability for leave:', error);
+      return { success: false, error: 'Failed to update availability for leave' };
+    }
+  }
+
+  return { success: true };
+}
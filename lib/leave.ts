@@ -0,0 +1,259 @@
+/**
+ * Leave
+ * Shapes and arithmetic for time off: which working days a request takes
+ * (the business calendar's closed days don't count), how allowances accrue
+ * and what's left of them, and how approved leave changes a week of
+ * user_availability.
+ *
+ * Leave is written into user_availability rather than read by the capacity
+ * routes, so every capacity view picks it up. schedule_data.leave keeps the
+ * week's hours before leave (baseAvailableHours) and the hours taken per
+ * date, so cancelling leave restores the week exactly.
+ *
+ * Pure and client-safe; reads and writes live in leave-service.
+ */
+
+import { BusinessCalendar, isWorkingDay, toDateKey } from './business-calendar-service';
+import { DEFAULT_WEEKLY_HOURS } from './constants';
+import { isRecord } from './type-guards';
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type LeaveAccrual = 'annual' | 'monthly' | 'none';
+
+export const LEAVE_STATUSES: LeaveStatus[] = ['pending', 'approved', 'rejected', 'cancelled'];
+export const LEAVE_ACCRUALS: LeaveAccrual[] = ['annual', 'monthly', 'none'];
+
+// Longest single request in calendar days - keeps availability rewrites bounded
+export const MAX_LEAVE_REQUEST_DAYS = 92;
+
+export interface LeaveType {
+  id: string;
+  name: string;
+  color: string;
+  isPaid: boolean;
+  requiresApproval: boolean;
+  accrual: LeaveAccrual;
+  // null = unlimited
+  annualAllowanceDays: number | null;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+export interface LeaveRequest {
+  id: string;
+  userId: string;
+  userName: string | null;
+  leaveTypeId: string;
+  leaveTypeName: string;
+  leaveTypeColor: string;
+  startDate: string;
+  // Inclusive
+  endDate: string;
+  halfDay: boolean;
+  days: number;
+  reason: string | null;
+  status: LeaveStatus;
+  reviewedBy: string | null;
+  reviewedByName: string | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  createdAt: string;
+}
+
+export interface LeaveBalanceAdjustment {
+  id: string;
+  userId: string;
+  leaveTypeId: string;
+  year: number;
+  days: number;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface LeaveBalance {
+  leaveTypeId: string;
+  leaveTypeName: string;
+  color: string;
+  // false = no allowance, so there's nothing to run out of
+  tracked: boolean;
+  accrued: number;
+  adjustments: number;
+  taken: number;
+  pending: number;
+  remaining: number;
+}
+
+export interface LeaveDay {
+  date: string;
+  // 1 for a full day, 0.5 for a half day
+  fraction: number;
+}
+
+/**
+ * What approved leave has done to a week of user_availability
+ */
+export interface AvailabilityLeave {
+  baseAvailableHours: number;
+  // The row only exists because of leave - remove it when the leave goes
+  createdForLeave: boolean;
+  hours: Record<string, number>;
+}
+
+export interface AvailabilityRow {
+  available_hours: number | string | null;
+  schedule_data: unknown;
+}
+
+// Keys of schedule_data.hoursPerDay, indexed by Date#getUTCDay
+const WEEKDAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+function roundDays(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toDateKey(d);
+}
+
+/**
+ * The working days a request covers. Weekends, public holidays and shutdowns
+ * in the user's region aren't leave - they're closed anyway.
+ */
+export function getLeaveDays(
+  calendar: BusinessCalendar,
+  startDate: string,
+  endDate: string,
+  halfDay: boolean,
+  region: string | null = calendar.defaultRegion
+): LeaveDay[] {
+  const days: LeaveDay[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    if (isWorkingDay(calendar, new Date(`${date}T00:00:00Z`), region)) {
+      days.push({ date, fraction: halfDay ? 0.5 : 1 });
+    }
+  }
+  return days;
+}
+
+export function countLeaveDays(days: LeaveDay[]): number {
+  return roundDays(days.reduce((sum, day) => sum + day.fraction, 0));
+}
+
+/**
+ * Days of a leave type earned in `year` as of `asOf` (YYYY-MM-DD). Monthly
+ * accrual earns a twelfth at the start of each month. null = not tracked.
+ */
+export function getAccruedLeaveDays(type: LeaveType, year: number, asOf: string): number | null {
+  if (type.accrual === 'none' || type.annualAllowanceDays === null) return null;
+  if (type.accrual === 'annual') return type.annualAllowanceDays;
+
+  const asOfYear = Number(asOf.slice(0, 4));
+  if (asOfYear > year) return type.annualAllowanceDays;
+  if (asOfYear < year) return 0;
+  const monthsStarted = Number(asOf.slice(5, 7));
+  return roundDays((type.annualAllowanceDays * monthsStarted) / 12);
+}
+
+/**
+ * A user's balance of each active leave type for a year. Requests count
+ * towards the year they start in.
+ */
+export function buildLeaveBalances(
+  types: LeaveType[],
+  year: number,
+  asOf: string,
+  requests: Pick<LeaveRequest, 'leaveTypeId' | 'startDate' | 'days' | 'status'>[],
+  adjustments: Pick<LeaveBalanceAdjustment, 'leaveTypeId' | 'year' | 'days'>[]
+): LeaveBalance[] {
+  const inYear = requests.filter((r) => Number(r.startDate.slice(0, 4)) === year);
+
+  return types
+    .filter((type) => type.isActive)
+    .map((type) => {
+      const accrued = getAccruedLeaveDays(type, year, asOf);
+      const adjustmentDays = adjustments
+        .filter((a) => a.leaveTypeId === type.id && a.year === year)
+        .reduce((sum, a) => sum + a.days, 0);
+      const sumDays = (status: LeaveStatus) => inYear
+        .filter((r) => r.leaveTypeId === type.id && r.status === status)
+        .reduce((sum, r) => sum + r.days, 0);
+      const taken = sumDays('approved');
+      const pending = sumDays('pending');
+
+      return {
+        leaveTypeId: type.id,
+        leaveTypeName: type.name,
+        color: type.color,
+        tracked: accrued !== null,
+        accrued: roundDays(accrued ?? 0),
+        adjustments: roundDays(adjustmentDays),
+        taken: roundDays(taken),
+        pending: roundDays(pending),
+        remaining: roundDays((accrued ?? 0) + adjustmentDays - taken - pending),
+      };
+    });
+}
+
+export function readAvailabilityLeave(scheduleData: unknown): AvailabilityLeave | null {
+  const leave = isRecord(scheduleData) && isRecord(scheduleData.leave) ? scheduleData.leave : null;
+  if (!leave || typeof leave.baseAvailableHours !== 'number') return null;
+  return {
+    baseAvailableHours: leave.baseAvailableHours,
+    createdForLeave: leave.createdForLeave === true,
+    hours: isRecord(leave.hours)
+      ? Object.fromEntries(Object.entries(leave.hours).map(([date, hours]) => [date, Number(hours) || 0]))
+      : {},
+  };
+}
+
+/**
+ * Rewrite one week of user_availability for the approved leave in it.
+ * Leave days cost that weekday's hours from schedule_data.hoursPerDay when
+ * the user has drawn a schedule, otherwise an even share of the week over
+ * the calendar's working days.
+ *
+ * Returns null when there's nothing to write, `{ remove: true }` when the
+ * row only existed for leave that's gone.
+ */
+export function applyLeaveToAvailability(
+  existing: AvailabilityRow | null,
+  leaveDays: LeaveDay[],
+  calendar: BusinessCalendar
+): { remove: true } | { remove: false; availableHours: number; scheduleData: Record<string, unknown> } | null {
+  const schedule = isRecord(existing?.schedule_data) ? { ...existing.schedule_data } : {};
+  const previous = readAvailabilityLeave(schedule);
+  delete schedule.leave;
+
+  if (leaveDays.length === 0) {
+    if (!previous) return null;
+    if (previous.createdForLeave && Object.keys(schedule).length === 0) return { remove: true };
+    return { remove: false, availableHours: previous.baseAvailableHours, scheduleData: schedule };
+  }
+
+  const base = previous?.baseAvailableHours ?? (existing ? Number(existing.available_hours) || 0 : DEFAULT_WEEKLY_HOURS);
+  const hoursPerDay = isRecord(schedule.hoursPerDay) ? schedule.hoursPerDay : null;
+  const evenShare = calendar.workingDays.length > 0 ? base / calendar.workingDays.length : 0;
+
+  const hours: Record<string, number> = {};
+  for (const day of leaveDays) {
+    const weekday = new Date(`${day.date}T00:00:00Z`).getUTCDay();
+    const dayHours = hoursPerDay ? Number(hoursPerDay[WEEKDAY_KEYS[weekday]]) || 0 : evenShare;
+    hours[day.date] = roundDays((hours[day.date] ?? 0) + dayHours * day.fraction);
+  }
+
+  const leaveHours = Object.values(hours).reduce((sum, h) => sum + h, 0);
+  return {
+    remove: false,
+    availableHours: roundDays(Math.max(0, base - leaveHours)),
+    scheduleData: {
+      ...schedule,
+      leave: {
+        baseAvailableHours: base,
+        createdForLeave: existing ? previous?.createdForLeave === true : true,
+        hours,
+      },
+    },
+  };
+}
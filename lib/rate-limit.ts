@@ -21,6 +21,7 @@ if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN)
 // Create rate limiters
 let generalLimiter: Ratelimit | undefined;
 let authLimiter: Ratelimit | undefined;
+let intakeLimiter: Ratelimit | undefined;
 
 if (redis) {
   // General API rate limiter
@@ -38,6 +39,14 @@ if (redis) {
     analytics: true,
     prefix: 'ratelimit:auth',
   });
+
+  // Intake form submissions, keyed by form and IP
+  intakeLimiter = new Ratelimit({
+    redis,
+    limiter: Ratelimit.slidingWindow(config.rateLimit.intake.maxRequests, `${config.rateLimit.intake.windowMs}ms`),
+    analytics: true,
+    prefix: 'ratelimit:intake',
+  });
 }
 
 /**
@@ -59,6 +68,28 @@ function getClientIp(request: NextRequest): string {
   return '127.0.0.1';
 }
 
+/**
+ * Build the 429 response returned when a limiter blocks a request
+ */
+function rateLimitedResponse(limit: number, remaining: number, reset: number): NextResponse {
+  return new NextResponse(
+    JSON.stringify({
+      error: 'Too many requests. Please try again later.',
+      retryAfter: Math.ceil((reset - Date.now()) / 1000),
+    }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-RateLimit-Limit': limit.toString(),
+        'X-RateLimit-Remaining': remaining.toString(),
+        'X-RateLimit-Reset': reset.toString(),
+        'Retry-After': Math.ceil((reset - Date.now()) / 1000).toString(),
+      },
+    }
+  );
+}
+
 /**
  * Check if endpoint is an authentication endpoint
  */
@@ -119,22 +150,7 @@ export async function applyRateLimit(request: NextRequest): Promise<NextResponse
         limiter: limiterType,
       });
 
-      return new NextResponse(
-        JSON.stringify({
-          error: 'Too many requests. Please try again later.',
-          retryAfter: Math.ceil((reset - Date.now()) / 1000),
-        }),
-        {
-          status: 429,
-          headers: {
-            'Content-Type': 'application/json',
-            'X-RateLimit-Limit': limit.toString(),
-            'X-RateLimit-Remaining': remaining.toString(),
-            'X-RateLimit-Reset': reset.toString(),
-            'Retry-After': Math.ceil((reset - Date.now()) / 1000).toString(),
-          },
-        }
-      );
+      return rateLimitedResponse(limit, remaining, reset);
     }
 
     // Add rate limit headers to successful requests
@@ -150,6 +166,44 @@ export async function applyRateLimit(request: NextRequest): Promise<NextResponse
   }
 }
 
+/**
+ * Apply the intake form submission limit (per form, per IP) on top of the
+ * general API limit. Returns null if the submission is allowed, or a 429
+ * NextResponse if this IP has submitted the form too often.
+ */
+export async function applyIntakeRateLimit(request: NextRequest, intakeFormId: string): Promise<NextResponse | null> {
+  if (!config.rateLimit.enabled) {
+    return null;
+  }
+
+  if (!intakeLimiter) {
+    logger.warn('Intake rate limiting skipped: Redis not configured', { action: 'rate_limit' });
+    return null;
+  }
+
+  const ip = getClientIp(request);
+
+  try {
+    const { success, limit, remaining, reset } = await intakeLimiter.limit(`${intakeFormId}:${ip}`);
+
+    if (!success) {
+      logger.warn('Intake rate limit exceeded', {
+        action: 'rate_limit_exceeded',
+        ip,
+        intakeFormId,
+        limiter: 'intake',
+      });
+      return rateLimitedResponse(limit, remaining, reset);
+    }
+
+    return null;
+  } catch (error: unknown) {
+    logger.error('Intake rate limit check failed', { action: 'rate_limit', intakeFormId, ip }, error as Error);
+    // Allow request on error (fail open)
+    return null;
+  }
+}
+
 /**
  * Check rate limit for a specific identifier (e.g., user ID)
  * Useful for custom rate limiting logic
@@ -0,0 +1,370 @@
+/**
+ * Resource Planner Service
+ * Loads the weekly resource plan - people, their availability after
+ * holidays and shutdowns, their task_week_allocations and the open tasks
+ * that can be scheduled - and writes allocations from the planner grid.
+ *
+ * Allocations are keyed by (task, week, person): setting a cell replaces its
+ * hours, and zero hours removes the row.
+ */
+
+import { DEFAULT_WEEKLY_HOURS } from './constants';
+import { adjustWeeklyHoursForCalendar, getBusinessCalendar } from './business-calendar-service';
+import {
+  PlannerAllocation,
+  PlannerGroup,
+  PlannerPerson,
+  PlannerTask,
+  ResourcePlan,
+  roundHours,
+  splitHoursAcrossWeeks,
+} from './resource-planner';
+import { isString, first } from './type-guards';
+
+// Open tasks offered for scheduling, soonest due first
+const MAX_PLANNER_TASKS = 500;
+
+const ALLOCATION_COLUMNS = 'id, task_id, assigned_user_id, week_start_date, allocated_hours, notes';
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toAllocation(row: Record<string, unknown>): PlannerAllocation {
+  return {
+    id: row.id as string,
+    taskId: row.task_id as string,
+    userId: row.assigned_user_id as string,
+    weekStartDate: row.week_start_date as string,
+    hours: Number(row.allocated_hours) || 0,
+    notes: isString(row.notes) ? row.notes : null,
+  };
+}
+
+function toPlannerTask(row: Record<string, unknown>): PlannerTask {
+  const project = first(row.projects);
+  const account = first(project?.accounts);
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    status: isString(row.status) ? row.status : null,
+    projectId: row.project_id as string,
+    projectName: isString(project?.name) ? project.name : 'Unknown project',
+    accountId: isString(account?.id) ? account.id : null,
+    accountName: isString(account?.name) ? account.name : null,
+    assignedTo: isString(row.assigned_to) ? row.assigned_to : null,
+    estimatedHours: toNumberOrNull(row.estimated_hours),
+    remainingHours: toNumberOrNull(row.remaining_hours),
+    dueDate: isString(row.due_date) ? row.due_date : null,
+  };
+}
+
+function addGroup(groups: Map<string, PlannerGroup[]>, userId: string, group: PlannerGroup) {
+  const list = groups.get(userId) || [];
+  if (!list.some((g) => g.id === group.id)) list.push(group);
+  groups.set(userId, list);
+}
+
+/**
+ * The resource plan for a range of weeks. With `teamOf` set only people who
+ * share a department with that user are included (VIEW_TEAM_CAPACITY).
+ */
+export async function getResourcePlan(
+  supabase: any,
+  params: { weeks: string[]; teamOf?: string | null; canEdit: boolean }
+): Promise<ResourcePlan> {
+  const { weeks, teamOf, canEdit } = params;
+
+  const [
+    { data: profiles, error: profilesError },
+    { data: roleRows },
+    { data: memberRows },
+    calendar,
+  ] = await Promise.all([
+    supabase.from('user_profiles').select('id, name, email, region, is_client').order('name'),
+    supabase.from('user_roles').select('user_id, roles!user_roles_role_id_fkey(department_id, departments!roles_department_id_fkey(id, name))'),
+    supabase.from('account_members').select('user_id, accounts(id, name)'),
+    getBusinessCalendar(supabase),
+  ]);
+
+  if (profilesError) {
+    console.error('Error loading people for resource plan:', profilesError);
+    throw profilesError;
+  }
+
+  const departmentsByUser = new Map<string, PlannerGroup[]>();
+  for (const row of roleRows || []) {
+    const department = first(first(row.roles)?.departments);
+    if (department && isString(row.user_id)) {
+      addGroup(departmentsByUser, row.user_id, { id: department.id as string, name: department.name as string });
+    }
+  }
+
+  const accountsByUser = new Map<string, PlannerGroup[]>();
+  for (const row of memberRows || []) {
+    const account = first(row.accounts);
+    if (account && isString(row.user_id)) {
+      addGroup(accountsByUser, row.user_id, { id: account.id as string, name: account.name as string });
+    }
+  }
+
+  const teamDepartmentIds = teamOf
+    ? new Set((departmentsByUser.get(teamOf) || []).map((d) => d.id))
+    : null;
+
+  const regionByUser = new Map<string, string | null>();
+  const people: PlannerPerson[] = [];
+  for (const profile of profiles || []) {
+    if (profile.is_client) continue;
+    const departments = departmentsByUser.get(profile.id) || [];
+    if (teamDepartmentIds && profile.id !== teamOf && !departments.some((d) => teamDepartmentIds.has(d.id))) continue;
+
+    regionByUser.set(profile.id, profile.region || null);
+    people.push({
+      id: profile.id,
+      name: profile.name || profile.email || 'Unknown',
+      email: profile.email || '',
+      departments,
+      accounts: accountsByUser.get(profile.id) || [],
+    });
+  }
+
+  const userIds = people.map((p) => p.id);
+  const firstWeek = weeks[0];
+  const lastWeek = weeks[weeks.length - 1];
+
+  const [
+    { data: availabilityRows },
+    { data: allocationRows, error: allocationsError },
+    { data: taskRows, error: tasksError },
+  ] = await Promise.all([
+    supabase
+      .from('user_availability')
+      .select('user_id, week_start_date, available_hours')
+      .gte('week_start_date', firstWeek)
+      .lte('week_start_date', lastWeek),
+    supabase
+      .from('task_week_allocations')
+      .select(ALLOCATION_COLUMNS)
+      .gte('week_start_date', firstWeek)
+      .lte('week_start_date', lastWeek)
+      .not('assigned_user_id', 'is', null),
+    supabase
+      .from('tasks')
+      .select('id, name, status, project_id, assigned_to, estimated_hours, remaining_hours, due_date, projects!inner(id, name, status, accounts(id, name))')
+      .neq('status', 'done')
+      .neq('projects.status', 'complete')
+      .order('due_date', { ascending: true, nullsFirst: false })
+      .limit(MAX_PLANNER_TASKS),
+  ]);
+
+  if (allocationsError) {
+    console.error('Error loading allocations for resource plan:', allocationsError);
+    throw allocationsError;
+  }
+  if (tasksError) {
+    console.error('Error loading tasks for resource plan:', tasksError);
+  }
+
+  const availableByUserWeek = new Map<string, number>();
+  for (const row of availabilityRows || []) {
+    availableByUserWeek.set(`${row.user_id}:${row.week_start_date}`, Number(row.available_hours));
+  }
+
+  const availability: Record<string, Record<string, number>> = {};
+  for (const userId of userIds) {
+    availability[userId] = {};
+    for (const week of weeks) {
+      availability[userId][week] = adjustWeeklyHoursForCalendar(
+        calendar,
+        week,
+        availableByUserWeek.get(`${userId}:${week}`) ?? DEFAULT_WEEKLY_HOURS,
+        regionByUser.get(userId) || calendar.defaultRegion
+      );
+    }
+  }
+
+  const peopleIds = new Set(userIds);
+  const allocations: PlannerAllocation[] = (allocationRows || [])
+    .map(toAllocation)
+    .filter((a: PlannerAllocation) => peopleIds.has(a.userId));
+
+  const tasks: PlannerTask[] = (taskRows || []).map(toPlannerTask);
+
+  // Tasks that already have hours in range stay on the grid even if they're not in the open list
+  const taskIds = new Set(tasks.map((t) => t.id));
+  const missingTaskIds = Array.from(new Set(allocations.map((a) => a.taskId))).filter((id) => !taskIds.has(id));
+  if (missingTaskIds.length > 0) {
+    const { data: extraTasks } = await supabase
+      .from('tasks')
+      .select('id, name, status, project_id, assigned_to, estimated_hours, remaining_hours, due_date, projects(id, name, accounts(id, name))')
+      .in('id', missingTaskIds);
+
+    tasks.push(...(extraTasks || []).map(toPlannerTask));
+  }
+
+  return { weeks, people, availability, allocations, tasks, canEdit };
+}
+
+/**
+ * Set one person's hours on a task for a week. Zero removes the allocation.
+ */
+export async function setTaskWeekAllocation(
+  supabase: any,
+  params: { taskId: string; userId: string; weekStartDate: string; hours: number; notes?: string | null }
+): Promise<{ success: boolean; allocation?: PlannerAllocation | null; error?: string }> {
+  const { taskId, userId, weekStartDate } = params;
+  const hours = roundHours(params.hours);
+
+  if (hours <= 0) {
+    const { error } = await supabase
+      .from('task_week_allocations')
+      .delete()
+      .eq('task_id', taskId)
+      .eq('assigned_user_id', userId)
+      .eq('week_start_date', weekStartDate);
+
+    if (error) {
+      console.error('Error removing task allocation:', error);
+      return { success: false, error: 'Failed to remove allocation' };
+    }
+    return { success: true, allocation: null };
+  }
+
+  const { data, error } = await supabase
+    .from('task_week_allocations')
+    .upsert({
+      task_id: taskId,
+      assigned_user_id: userId,
+      week_start_date: weekStartDate,
+      allocated_hours: hours,
+      ...(params.notes !== undefined ? { notes: params.notes } : {}),
+    }, { onConflict: 'task_id,week_start_date,assigned_user_id' })
+    .select(ALLOCATION_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error saving task allocation:', error);
+    return { success: false, error: 'Failed to save allocation' };
+  }
+  return { success: true, allocation: toAllocation(data) };
+}
+
+/**
+ * Move an allocation to another week and/or person, adding its hours to
+ * anything already allocated there for the same task
+ */
+export async function moveTaskWeekAllocation(
+  supabase: any,
+  allocationId: string,
+  target: { userId: string; weekStartDate: string }
+): Promise<{ success: boolean; allocation?: PlannerAllocation; error?: string }> {
+  const { data: source } = await supabase
+    .from('task_week_allocations')
+    .select(ALLOCATION_COLUMNS)
+    .eq('id', allocationId)
+    .maybeSingle();
+
+  if (!source) {
+    return { success: false, error: 'Allocation not found' };
+  }
+
+  const moving = toAllocation(source);
+  if (moving.userId === target.userId && moving.weekStartDate === target.weekStartDate) {
+    return { success: true, allocation: moving };
+  }
+
+  const { data: existing } = await supabase
+    .from('task_week_allocations')
+    .select('allocated_hours')
+    .eq('task_id', moving.taskId)
+    .eq('assigned_user_id', target.userId)
+    .eq('week_start_date', target.weekStartDate)
+    .maybeSingle();
+
+  const result = await setTaskWeekAllocation(supabase, {
+    taskId: moving.taskId,
+    userId: target.userId,
+    weekStartDate: target.weekStartDate,
+    hours: moving.hours + (Number(existing?.allocated_hours) || 0),
+  });
+  if (!result.success || !result.allocation) {
+    return { success: false, error: result.error };
+  }
+
+  const { error } = await supabase
+    .from('task_week_allocations')
+    .delete()
+    .eq('id', allocationId);
+
+  if (error) {
+    console.error('Error removing moved allocation:', error);
+    return { success: false, error: 'Failed to move allocation' };
+  }
+
+  return { success: true, allocation: result.allocation };
+}
+
+/**
+ * Spread a task's remaining hours (or its estimate) evenly over the given
+ * weeks for one person, replacing their allocations on the task in those
+ * weeks. Hours the person or others have in other weeks are left alone and
+ * don't count towards the split.
+ */
+export async function splitTaskAcrossWeeks(
+  supabase: any,
+  params: { taskId: string; userId: string; weekStartDates: string[] }
+): Promise<{ success: boolean; allocations?: PlannerAllocation[]; error?: string }> {
+  const { taskId, userId } = params;
+  const weekStartDates = Array.from(new Set(params.weekStartDates)).sort();
+
+  const { data: task } = await supabase
+    .from('tasks')
+    .select('id, estimated_hours, remaining_hours')
+    .eq('id', taskId)
+    .maybeSingle();
+
+  if (!task) {
+    return { success: false, error: 'Task not found' };
+  }
+
+  const total = toNumberOrNull(task.remaining_hours) ?? toNumberOrNull(task.estimated_hours);
+  if (!total || total <= 0) {
+    return { success: false, error: 'The task has no estimate to split' };
+  }
+
+  const { data: otherRows } = await supabase
+    .from('task_week_allocations')
+    .select('allocated_hours, week_start_date, assigned_user_id')
+    .eq('task_id', taskId);
+
+  const chosenWeeks = new Set(weekStartDates);
+  const allocatedElsewhere = (otherRows || [])
+    .filter((row: Record<string, unknown>) => !(row.assigned_user_id === userId && chosenWeeks.has(row.week_start_date as string)))
+    .reduce((sum: number, row: Record<string, unknown>) => sum + (Number(row.allocated_hours) || 0), 0);
+
+  const toSplit = roundHours(total - allocatedElsewhere);
+  if (toSplit <= 0) {
+    return { success: false, error: 'All of the task\'s hours are already allocated' };
+  }
+
+  const shares = splitHoursAcrossWeeks(toSplit, weekStartDates.length);
+  const allocations: PlannerAllocation[] = [];
+
+  for (let i = 0; i < weekStartDates.length; i++) {
+    const result = await setTaskWeekAllocation(supabase, {
+      taskId,
+      userId,
+      weekStartDate: weekStartDates[i],
+      hours: shares[i],
+    });
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    if (result.allocation) allocations.push(result.allocation);
+  }
+
+  return { success: true, allocations };
+}
@@ -0,0 +1,183 @@
+/**
+ * Resource Planner
+ * Shapes for the weekly resource-scheduling grid (people x weeks) and the
+ * arithmetic behind it: week ranges, per-person load against availability
+ * and splitting a task's estimate across weeks. Allocations are rows of
+ * task_week_allocations - explicit hours for one person on one task in one week.
+ *
+ * Pure and client-safe; reads and writes live in resource-planner-service.
+ */
+
+import { toDateKey } from './business-calendar-service';
+
+export const DEFAULT_PLANNER_WEEKS = 6;
+export const MAX_PLANNER_WEEKS = 26;
+
+// task_week_allocations.allocated_hours is numeric(5,2); a week has 168 hours anyway
+export const MAX_ALLOCATION_HOURS = 168;
+
+export type PlannerGrouping = 'department' | 'account';
+
+export interface PlannerGroup {
+  id: string;
+  name: string;
+}
+
+export interface PlannerPerson {
+  id: string;
+  name: string;
+  email: string;
+  departments: PlannerGroup[];
+  accounts: PlannerGroup[];
+}
+
+export interface PlannerTask {
+  id: string;
+  name: string;
+  status: string | null;
+  projectId: string;
+  projectName: string;
+  accountId: string | null;
+  accountName: string | null;
+  assignedTo: string | null;
+  estimatedHours: number | null;
+  remainingHours: number | null;
+  dueDate: string | null;
+}
+
+export interface PlannerAllocation {
+  id: string;
+  taskId: string;
+  userId: string;
+  weekStartDate: string;
+  hours: number;
+  notes: string | null;
+}
+
+export interface ResourcePlan {
+  weeks: string[];
+  people: PlannerPerson[];
+  // Hours each person can work, by user id then week - after holidays and shutdowns
+  availability: Record<string, Record<string, number>>;
+  allocations: PlannerAllocation[];
+  tasks: PlannerTask[];
+  canEdit: boolean;
+}
+
+export type AllocationLoad = 'free' | 'partial' | 'full' | 'over';
+
+function toUtcDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+/**
+ * Monday of the week a date (YYYY-MM-DD) falls in
+ */
+export function toWeekStart(date: string): string {
+  const d = toUtcDate(date);
+  const day = d.getUTCDay();
+  d.setUTCDate(d.getUTCDate() - (day === 0 ? 6 : day - 1));
+  return toDateKey(d);
+}
+
+/**
+ * Week start dates from the week containing `start`, `count` weeks long
+ */
+export function getPlannerWeeks(start: string, count: number = DEFAULT_PLANNER_WEEKS): string[] {
+  const first = toUtcDate(toWeekStart(start));
+  const weeks: string[] = [];
+  for (let i = 0; i < Math.min(Math.max(count, 1), MAX_PLANNER_WEEKS); i++) {
+    const week = new Date(first);
+    week.setUTCDate(first.getUTCDate() + i * 7);
+    weeks.push(toDateKey(week));
+  }
+  return weeks;
+}
+
+export function shiftWeek(weekStartDate: string, weeks: number): string {
+  const d = toUtcDate(weekStartDate);
+  d.setUTCDate(d.getUTCDate() + weeks * 7);
+  return toDateKey(d);
+}
+
+/**
+ * Hours allocated to a person in a week, across all their tasks
+ */
+export function getAllocatedHours(allocations: PlannerAllocation[], userId: string, weekStartDate: string): number {
+  return roundHours(allocations
+    .filter((a) => a.userId === userId && a.weekStartDate === weekStartDate)
+    .reduce((sum, a) => sum + a.hours, 0));
+}
+
+/**
+ * Hours planned for a task, across everyone and every week loaded
+ */
+export function getTaskPlannedHours(allocations: PlannerAllocation[], taskId: string): number {
+  return roundHours(allocations.filter((a) => a.taskId === taskId).reduce((sum, a) => sum + a.hours, 0));
+}
+
+export function getAllocationLoad(allocatedHours: number, availableHours: number): AllocationLoad {
+  if (allocatedHours > availableHours) return 'over';
+  if (allocatedHours === 0) return 'free';
+  return allocatedHours === availableHours ? 'full' : 'partial';
+}
+
+export function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Split a number of hours evenly over `weekCount` weeks in quarter hours,
+ * with any remainder going to the earliest weeks
+ */
+export function splitHoursAcrossWeeks(totalHours: number, weekCount: number): number[] {
+  if (weekCount <= 0 || totalHours <= 0) return [];
+
+  const quarters = Math.round(totalHours * 4);
+  const base = Math.floor(quarters / weekCount);
+  const remainder = quarters % weekCount;
+
+  return Array.from({ length: weekCount }, (_, i) => (base + (i < remainder ? 1 : 0)) / 4);
+}
+
+/**
+ * The hours still to schedule for a task: what's left of it (or its
+ * estimate) less what's already allocated
+ */
+export function getUnplannedHours(task: PlannerTask, allocations: PlannerAllocation[]): number | null {
+  const total = task.remainingHours ?? task.estimatedHours;
+  if (total === null) return null;
+  return Math.max(0, roundHours(total - getTaskPlannedHours(allocations, task.id)));
+}
+
+/**
+ * People under each department or account they belong to, by group name.
+ * Someone in two groups appears in both; people in none are grouped last.
+ */
+export function groupPlannerPeople(
+  people: PlannerPerson[],
+  grouping: PlannerGrouping
+): { group: PlannerGroup | null; people: PlannerPerson[] }[] {
+  const groups = new Map<string, { group: PlannerGroup; people: PlannerPerson[] }>();
+  const ungrouped: PlannerPerson[] = [];
+
+  for (const person of people) {
+    const memberships = grouping === 'department' ? person.departments : person.accounts;
+    if (memberships.length === 0) ungrouped.push(person);
+    for (const group of memberships) {
+      const entry = groups.get(group.id) || { group, people: [] };
+      entry.people.push(person);
+      groups.set(group.id, entry);
+    }
+  }
+
+  const byName = (a: PlannerPerson, b: PlannerPerson) => a.name.localeCompare(b.name);
+  const result: { group: PlannerGroup | null; people: PlannerPerson[] }[] = Array.from(groups.values())
+    .sort((a, b) => a.group.name.localeCompare(b.group.name))
+    .map((entry) => ({ group: entry.group, people: entry.people.sort(byName) }));
+
+  if (ungrouped.length > 0) {
+    result.push({ group: null, people: ungrouped.sort(byName) });
+  }
+  return result;
+}
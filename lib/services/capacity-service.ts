@@ -6,6 +6,7 @@
 import { createClientSupabase } from '../supabase';
 import { availabilityService } from './availability-service';
 import { DEFAULT_WEEKLY_HOURS } from '../constants';
+import { adjustWeeklyHoursForCalendar, getBusinessCalendar, BusinessCalendar } from '../business-calendar-service';
 
 
 export interface UserCapacityMetrics {
@@ -58,16 +59,20 @@ export interface OrgCapacityMetrics {
 
 class CapacityService {
   /**
-   * Get capacity metrics for a single user for a specific week
+   * Get capacity metrics for a single user for a specific week.
+   * Available hours are reduced for holidays and shutdowns in the user's region.
    */
   async getUserCapacityMetrics(
     userId: string,
     weekStartDate: string,
-    supabaseClient?: any
+    supabaseClient?: any,
+    calendar?: BusinessCalendar
   ): Promise<UserCapacityMetrics | null> {
     const supabase = supabaseClient || createClientSupabase() as any;
     if (!supabase) return null;
 
+    const businessCalendar = calendar || await getBusinessCalendar(supabase);
+
     // OPTIMIZATION: Calculate week end date once
     const weekEnd = new Date(weekStartDate);
     weekEnd.setDate(weekEnd.getDate() + 6);
@@ -84,7 +89,7 @@ class CapacityService {
     ] = await Promise.all([
       supabase
         .from('user_profiles')
-        .select('id, name, email')
+        .select('id, name, email, region')
         .eq('id', userId)
         .single(),
       supabase
@@ -120,8 +125,13 @@ class CapacityService {
       return null;
     }
 
-    // Default to 40 hours/week if no availability is set
-    const availableHours = availability?.available_hours ?? DEFAULT_WEEKLY_HOURS;
+    // Default to 40 hours/week if no availability is set, then take out closed days
+    const availableHours = adjustWeeklyHoursForCalendar(
+      businessCalendar,
+      weekStartDate,
+      availability?.available_hours ?? DEFAULT_WEEKLY_HOURS,
+      (userProfile as any).region || businessCalendar.defaultRegion
+    );
 
     const weekAllocatedHours = allocError || !allocations
       ? 0
@@ -183,8 +193,12 @@ class CapacityService {
           }, 0)
       : 0;
 
-    // Total allocated is the max of all sources to avoid double-counting
-    const allocatedHours = Math.max(weekAllocatedHours, projectAllocatedHours, taskAllocatedHours);
+    // Hours planned for this week in the resource planner are authoritative. Without
+    // any, estimate from the max of all sources to avoid double-counting
+    const hasExplicitAllocations = !allocError && (allocations?.length || 0) > 0;
+    const allocatedHours = hasExplicitAllocations
+      ? weekAllocatedHours
+      : Math.max(weekAllocatedHours, projectAllocatedHours, taskAllocatedHours);
 
     const actualHours = timeEntries
       ? timeEntries.reduce((sum: number, e: any) => sum + (e.hours_logged || 0), 0)
@@ -216,11 +230,15 @@ class CapacityService {
   async getDepartmentCapacityMetrics(
     departmentId: string,
     weekStartDate: string,
-    supabaseClient?: any
+    supabaseClient?: any,
+    calendar?: BusinessCalendar
   ): Promise<DepartmentCapacityMetrics | null> {
     const supabase = supabaseClient || createClientSupabase() as any;
     if (!supabase) return null;
 
+    // Load the calendar once for every member rather than per user
+    const businessCalendar = calendar || await getBusinessCalendar(supabase);
+
     // OPTIMIZATION: Parallelize department info and user roles queries
     const [
       { data: department, error: deptError },
@@ -251,7 +269,7 @@ class CapacityService {
 
     // Get metrics for each user
     const userMetricsPromises = userIds.map(userId =>
-      this.getUserCapacityMetrics(userId, weekStartDate, supabase)
+      this.getUserCapacityMetrics(userId, weekStartDate, supabase, businessCalendar)
     );
 
     const userMetrics = (await Promise.all(userMetricsPromises)).filter(
@@ -392,6 +410,8 @@ class CapacityService {
     const supabase = supabaseClient || createClientSupabase() as any;
     if (!supabase) return null;
 
+    const businessCalendar = await getBusinessCalendar(supabase);
+
     // Get all departments
     const { data: departments, error: deptsError } = await supabase
       .from('departments')
@@ -404,7 +424,7 @@ class CapacityService {
 
     // Get metrics for each department
     const departmentMetricsPromises = departments.map((dept: any) =>
-      this.getDepartmentCapacityMetrics(dept.id, weekStartDate, supabase)
+      this.getDepartmentCapacityMetrics(dept.id, weekStartDate, supabase, businessCalendar)
     );
 
     const departmentMetrics = (await Promise.all(departmentMetricsPromises)).filter(
@@ -0,0 +1,496 @@
+/**
+ * Skills Service
+ * Reads and writes the skills taxonomy, people's proficiencies and the skills
+ * projects and tasks require, and ranks who should pick up a piece of work:
+ * skill match, this week's load from capacityService and familiarity with
+ * the project's account (account_members, or earlier projects on it).
+ */
+
+import { getBusinessCalendar, toDateKey } from './business-calendar-service';
+import { toWeekStart } from './resource-planner';
+import { capacityService } from './services/capacity-service';
+import {
+  AccountFamiliarity,
+  AssigneeCandidate,
+  AssigneeSuggestion,
+  getSkillScore,
+  isSkillProficiency,
+  rankAssignees,
+  readNodeRequiredSkills,
+  RequiredSkill,
+  Skill,
+  SkillProficiency,
+  UserSkill,
+} from './skills';
+import { isString, isRecord, first } from './type-guards';
+
+export interface SkillInput {
+  name: string;
+  category: string | null;
+  description: string | null;
+  isActive: boolean;
+}
+
+export interface SkillsMatrix {
+  users: Array<{ id: string; name: string; email: string | null }>;
+  entries: Array<{ userId: string; skillId: string; proficiency: SkillProficiency }>;
+}
+
+export interface SuggestAssigneesOptions {
+  projectId: string;
+  taskId?: string;
+  workflowNodeId?: string;
+  // Overrides whatever the task / node / project requires (e.g. unsaved dialog edits)
+  required?: RequiredSkill[];
+  excludeUserIds?: string[];
+  limit?: number;
+}
+
+// Candidates whose capacity is looked up - the rest are too weak a skill match to surface
+const MAX_CAPACITY_LOOKUPS = 20;
+
+function toSkill(row: Record<string, unknown>): Skill {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    category: isString(row.category) && row.category ? row.category : null,
+    description: isString(row.description) && row.description ? row.description : null,
+    isActive: row.is_active !== false,
+  };
+}
+
+function toRequiredSkill(row: Record<string, unknown>): RequiredSkill {
+  const level = Number(row.min_proficiency);
+  return {
+    skillId: row.skill_id as string,
+    minProficiency: isSkillProficiency(level) ? level : 1,
+  };
+}
+
+// ============================================================================
+// TAXONOMY
+// ============================================================================
+
+export async function listSkills(supabase: any, options: { includeInactive?: boolean } = {}): Promise<Skill[]> {
+  let query = supabase
+    .from('skills')
+    .select('*')
+    .order('category', { ascending: true, nullsFirst: false })
+    .order('name', { ascending: true });
+
+  if (!options.includeInactive) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error listing skills:', error);
+    throw new Error('Failed to load skills');
+  }
+
+  return (data || []).filter(isRecord).map(toSkill);
+}
+
+function toSkillRow(input: Partial<SkillInput>): Record<string, unknown> {
+  return {
+    ...(input.name !== undefined && { name: input.name.trim() }),
+    ...(input.category !== undefined && { category: input.category?.trim() || null }),
+    ...(input.description !== undefined && { description: input.description?.trim() || null }),
+    ...(input.isActive !== undefined && { is_active: input.isActive }),
+  };
+}
+
+export async function createSkill(
+  supabase: any,
+  input: SkillInput
+): Promise<{ success: boolean; skill?: Skill; error?: string }> {
+  const { data, error } = await supabase
+    .from('skills')
+    .insert(toSkillRow(input))
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error creating skill:', error);
+    return { success: false, error: error.code === '23505' ? 'A skill with that name already exists' : 'Failed to create skill' };
+  }
+
+  return { success: true, skill: toSkill(data) };
+}
+
+export async function updateSkill(
+  supabase: any,
+  id: string,
+  updates: Partial<SkillInput>
+): Promise<{ success: boolean; skill?: Skill; error?: string }> {
+  const { data, error } = await supabase
+    .from('skills')
+    .update(toSkillRow(updates))
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating skill:', error);
+    return { success: false, error: error.code === '23505' ? 'A skill with that name already exists' : 'Failed to update skill' };
+  }
+  if (!data) return { success: false, error: 'Skill not found' };
+
+  return { success: true, skill: toSkill(data) };
+}
+
+// ============================================================================
+// PEOPLE
+// ============================================================================
+
+export async function getUserSkills(supabase: any, userId: string): Promise<UserSkill[]> {
+  const { data, error } = await supabase
+    .from('user_skills')
+    .select('skill_id, proficiency, skills(name, category)')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error loading user skills:', error);
+    throw new Error('Failed to load skills');
+  }
+
+  return (data || [])
+    .filter(isRecord)
+    .map((row: Record<string, unknown>) => {
+      const skill = first(row.skills);
+      const level = Number(row.proficiency);
+      return {
+        skillId: row.skill_id as string,
+        skillName: isString(skill?.name) ? skill.name : 'Unknown skill',
+        category: isString(skill?.category) && skill.category ? skill.category : null,
+        proficiency: isSkillProficiency(level) ? level : 2,
+      };
+    })
+    .sort((a: UserSkill, b: UserSkill) => a.skillName.localeCompare(b.skillName));
+}
+
+/**
+ * Replace a user's skills. user_profiles.skills is rewritten with the skill
+ * names so older readers of the free-text array keep working.
+ */
+export async function setUserSkills(
+  supabase: any,
+  userId: string,
+  entries: Array<{ skillId: string; proficiency: SkillProficiency }>
+): Promise<{ success: boolean; skills?: UserSkill[]; error?: string }> {
+  const keepIds = entries.map((e) => e.skillId);
+
+  let deleteQuery = supabase.from('user_skills').delete().eq('user_id', userId);
+  if (keepIds.length > 0) deleteQuery = deleteQuery.not('skill_id', 'in', `(${keepIds.join(',')})`);
+  const { error: deleteError } = await deleteQuery;
+  if (deleteError) {
+    console.error('Error removing user skills:', deleteError);
+    return { success: false, error: 'Failed to save skills' };
+  }
+
+  if (entries.length > 0) {
+    const { error } = await supabase
+      .from('user_skills')
+      .upsert(
+        entries.map((e) => ({ user_id: userId, skill_id: e.skillId, proficiency: e.proficiency })),
+        { onConflict: 'user_id,skill_id' }
+      );
+    if (error) {
+      console.error('Error saving user skills:', error);
+      return { success: false, error: 'Failed to save skills' };
+    }
+  }
+
+  const skills = await getUserSkills(supabase, userId);
+
+  const { error: profileError } = await supabase
+    .from('user_profiles')
+    .update({ skills: skills.map((s) => s.skillName) })
+    .eq('id', userId);
+  if (profileError) {
+    console.error('Error syncing profile skills:', profileError);
+  }
+
+  return { success: true, skills };
+}
+
+/**
+ * Everyone with a role and the skills they hold, for the admin matrix
+ */
+export async function getSkillsMatrix(supabase: any): Promise<SkillsMatrix> {
+  const [usersResult, entriesResult] = await Promise.all([
+    supabase
+      .from('user_profiles')
+      .select('id, name, email, user_roles!user_roles_user_id_fkey!inner(id)')
+      .order('name'),
+    supabase
+      .from('user_skills')
+      .select('user_id, skill_id, proficiency'),
+  ]);
+
+  if (usersResult.error || entriesResult.error) {
+    console.error('Error loading skills matrix:', usersResult.error || entriesResult.error);
+    throw new Error('Failed to load skills matrix');
+  }
+
+  return {
+    users: (usersResult.data || []).filter(isRecord).map((row: Record<string, unknown>) => ({
+      id: row.id as string,
+      name: isString(row.name) ? row.name : 'Unknown',
+      email: isString(row.email) ? row.email : null,
+    })),
+    entries: (entriesResult.data || []).filter(isRecord).flatMap((row: Record<string, unknown>) => {
+      const level = Number(row.proficiency);
+      return isSkillProficiency(level)
+        ? [{ userId: row.user_id as string, skillId: row.skill_id as string, proficiency: level }]
+        : [];
+    }),
+  };
+}
+
+// ============================================================================
+// REQUIRED SKILLS
+// ============================================================================
+
+type RequiredSkillOwner = { table: 'project_required_skills'; column: 'project_id' } | { table: 'task_required_skills'; column: 'task_id' };
+
+const PROJECT_OWNER: RequiredSkillOwner = { table: 'project_required_skills', column: 'project_id' };
+const TASK_OWNER: RequiredSkillOwner = { table: 'task_required_skills', column: 'task_id' };
+
+async function getRequiredSkills(supabase: any, owner: RequiredSkillOwner, id: string): Promise<RequiredSkill[]> {
+  const { data, error } = await supabase
+    .from(owner.table)
+    .select('skill_id, min_proficiency')
+    .eq(owner.column, id);
+
+  if (error) {
+    console.error(`Error loading ${owner.table}:`, error);
+    throw new Error('Failed to load required skills');
+  }
+
+  return (data || []).filter(isRecord).map(toRequiredSkill);
+}
+
+async function setRequiredSkills(
+  supabase: any,
+  owner: RequiredSkillOwner,
+  id: string,
+  required: RequiredSkill[]
+): Promise<{ success: boolean; required?: RequiredSkill[]; error?: string }> {
+  const { error: deleteError } = await supabase
+    .from(owner.table)
+    .delete()
+    .eq(owner.column, id);
+
+  if (deleteError) {
+    console.error(`Error clearing ${owner.table}:`, deleteError);
+    return { success: false, error: 'Failed to save required skills' };
+  }
+
+  if (required.length > 0) {
+    const { error } = await supabase
+      .from(owner.table)
+      .insert(required.map((r) => ({ [owner.column]: id, skill_id: r.skillId, min_proficiency: r.minProficiency })));
+    if (error) {
+      console.error(`Error saving ${owner.table}:`, error);
+      return { success: false, error: 'Failed to save required skills' };
+    }
+  }
+
+  return { success: true, required };
+}
+
+export function getProjectRequiredSkills(supabase: any, projectId: string): Promise<RequiredSkill[]> {
+  return getRequiredSkills(supabase, PROJECT_OWNER, projectId);
+}
+
+export function setProjectRequiredSkills(supabase: any, projectId: string, required: RequiredSkill[]) {
+  return setRequiredSkills(supabase, PROJECT_OWNER, projectId, required);
+}
+
+export function getTaskRequiredSkills(supabase: any, taskId: string): Promise<RequiredSkill[]> {
+  return getRequiredSkills(supabase, TASK_OWNER, taskId);
+}
+
+export function setTaskRequiredSkills(supabase: any, taskId: string, required: RequiredSkill[]) {
+  return setRequiredSkills(supabase, TASK_OWNER, taskId, required);
+}
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+/**
+ * Who should pick up a task, project or workflow step, best first.
+ * Workflow steps only consider holders of the node's role; otherwise
+ * everyone with a role is a candidate. Requirements come from the explicit
+ * list, else the node, else the task, else the project.
+ */
+export async function suggestAssignees(
+  supabase: any,
+  options: SuggestAssigneesOptions
+): Promise<{ required: RequiredSkill[]; suggestions: AssigneeSuggestion[] }> {
+  const limit = options.limit ?? 5;
+
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id, account_id')
+    .eq('id', options.projectId)
+    .maybeSingle();
+
+  if (projectError || !project) {
+    console.error('Error loading project for suggestions:', projectError);
+    throw new Error('Project not found');
+  }
+
+  // Requirements and the candidate pool
+  let required: RequiredSkill[] | null = options.required ?? null;
+  let roleId: string | null = null;
+
+  if (options.workflowNodeId) {
+    const { data: node } = await supabase
+      .from('workflow_nodes')
+      .select('node_type, entity_id, settings')
+      .eq('id', options.workflowNodeId)
+      .maybeSingle();
+    if (node?.node_type === 'role' || node?.node_type === 'approval') {
+      roleId = isString(node.entity_id) ? node.entity_id : null;
+    }
+    if (!required && node) {
+      const nodeSkills = readNodeRequiredSkills(node.settings);
+      if (nodeSkills.length > 0) required = nodeSkills;
+    }
+  }
+  if (!required && options.taskId) {
+    const taskSkills = await getTaskRequiredSkills(supabase, options.taskId);
+    if (taskSkills.length > 0) required = taskSkills;
+  }
+  if (!required) {
+    required = await getProjectRequiredSkills(supabase, options.projectId);
+  }
+
+  let rolesQuery = supabase.from('user_roles').select('user_id');
+  if (roleId) rolesQuery = rolesQuery.eq('role_id', roleId);
+  const { data: roleRows, error: rolesError } = await rolesQuery;
+  if (rolesError) {
+    console.error('Error loading candidates:', rolesError);
+    throw new Error('Failed to load candidates');
+  }
+
+  const excluded = new Set(options.excludeUserIds || []);
+  const candidateIds = Array.from(new Set<string>(
+    (roleRows || []).map((row: Record<string, unknown>) => row.user_id).filter(isString)
+  )).filter((id) => !excluded.has(id));
+  if (candidateIds.length === 0) return { required, suggestions: [] };
+
+  const [profilesResult, skillsResult, skillNamesResult] = await Promise.all([
+    supabase
+      .from('user_profiles')
+      .select('id, name, email, image')
+      .in('id', candidateIds),
+    supabase
+      .from('user_skills')
+      .select('user_id, skill_id, proficiency')
+      .in('user_id', candidateIds),
+    required.length > 0
+      ? supabase.from('skills').select('id, name').in('id', required.map((r) => r.skillId))
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  if (profilesResult.error || skillsResult.error) {
+    console.error('Error loading candidate skills:', profilesResult.error || skillsResult.error);
+    throw new Error('Failed to load candidates');
+  }
+
+  const skillsByUser: Record<string, Record<string, SkillProficiency>> = {};
+  for (const row of (skillsResult.data || []).filter(isRecord)) {
+    const level = Number(row.proficiency);
+    if (!isString(row.user_id) || !isString(row.skill_id) || !isSkillProficiency(level)) continue;
+    if (!skillsByUser[row.user_id]) skillsByUser[row.user_id] = {};
+    skillsByUser[row.user_id][row.skill_id] = level;
+  }
+  const skillNames: Record<string, string> = Object.fromEntries(
+    (skillNamesResult.data || []).filter(isRecord).map((row: Record<string, unknown>) => [row.id, row.name])
+  );
+
+  // Capacity lookups are the expensive part - only do them for the best skill matches
+  const requiredSkills = required;
+  const shortlist = (profilesResult.data || [])
+    .filter(isRecord)
+    .map((profile: Record<string, unknown>) => ({
+      profile,
+      skillScore: getSkillScore(requiredSkills, skillsByUser[profile.id as string] || {}).score,
+    }))
+    .sort((a: { skillScore: number }, b: { skillScore: number }) => b.skillScore - a.skillScore)
+    .slice(0, Math.max(limit, MAX_CAPACITY_LOOKUPS));
+  const shortlistIds = shortlist.map((entry: { profile: Record<string, unknown> }) => entry.profile.id as string);
+
+  const accountId = isString(project.account_id) ? project.account_id : null;
+  const weekStartDate = toWeekStart(toDateKey(new Date()));
+  const calendar = await getBusinessCalendar(supabase);
+
+  const [metrics, familiarity] = await Promise.all([
+    Promise.all(shortlistIds.map((userId: string) =>
+      capacityService.getUserCapacityMetrics(userId, weekStartDate, supabase, calendar)
+    )),
+    getAccountFamiliarity(supabase, accountId, options.projectId, shortlistIds),
+  ]);
+
+  const candidates: AssigneeCandidate[] = shortlist.map(({ profile }: { profile: Record<string, unknown> }, index: number) => {
+    const userId = profile.id as string;
+    const metric = metrics[index];
+    return {
+      userId,
+      name: isString(profile.name) ? profile.name : 'Unknown',
+      email: isString(profile.email) ? profile.email : null,
+      image: isString(profile.image) ? profile.image : null,
+      skills: skillsByUser[userId] || {},
+      availableHours: metric?.availableHours ?? 0,
+      allocatedHours: metric?.allocatedHours ?? 0,
+      utilizationRate: metric?.utilizationRate ?? 0,
+      accountFamiliarity: familiarity[userId] ?? 'none',
+    };
+  });
+
+  return {
+    required,
+    suggestions: rankAssignees(candidates, required, skillNames).slice(0, limit),
+  };
+}
+
+/**
+ * 'member' for account_members of the project's account, 'past_work' for
+ * people on another of its projects
+ */
+async function getAccountFamiliarity(
+  supabase: any,
+  accountId: string | null,
+  projectId: string,
+  userIds: string[]
+): Promise<Record<string, AccountFamiliarity>> {
+  if (!accountId || userIds.length === 0) return {};
+
+  const [membersResult, pastWorkResult] = await Promise.all([
+    supabase
+      .from('account_members')
+      .select('user_id')
+      .eq('account_id', accountId)
+      .in('user_id', userIds),
+    supabase
+      .from('project_assignments')
+      .select('user_id, projects!inner(account_id)')
+      .eq('projects.account_id', accountId)
+      .neq('project_id', projectId)
+      .in('user_id', userIds),
+  ]);
+
+  if (membersResult.error) console.error('Error loading account members:', membersResult.error);
+  if (pastWorkResult.error) console.error('Error loading account history:', pastWorkResult.error);
+
+  const familiarity: Record<string, AccountFamiliarity> = {};
+  for (const row of (pastWorkResult.data || []).filter(isRecord)) {
+    if (isString(row.user_id)) familiarity[row.user_id] = 'past_work';
+  }
+  for (const row of (membersResult.data || []).filter(isRecord)) {
+    if (isString(row.user_id)) familiarity[row.user_id] = 'member';
+  }
+  return familiarity;
+}
@@ -0,0 +1,214 @@
+/**
+ * Skills
+ * Shapes for the skills taxonomy and the arithmetic behind staffing
+ * suggestions: how well someone's skills cover what a task, project or
+ * workflow step needs, how much room they have this week, and how well they
+ * know the account - folded into one 0-100 score.
+ *
+ * Pure and client-safe; reads and writes live in skills-service.
+ */
+
+export type SkillProficiency = 1 | 2 | 3 | 4;
+
+export const SKILL_PROFICIENCY_LABELS: Record<SkillProficiency, string> = {
+  1: 'Beginner',
+  2: 'Intermediate',
+  3: 'Advanced',
+  4: 'Expert',
+};
+
+export const SKILL_PROFICIENCIES: SkillProficiency[] = [1, 2, 3, 4];
+
+// Share of the score each signal contributes
+export const SUGGESTION_WEIGHTS = {
+  skills: 0.6,
+  availability: 0.25,
+  familiarity: 0.15,
+};
+
+export type AccountFamiliarity = 'member' | 'past_work' | 'none';
+
+export interface Skill {
+  id: string;
+  name: string;
+  category: string | null;
+  description: string | null;
+  isActive: boolean;
+}
+
+export interface UserSkill {
+  skillId: string;
+  skillName: string;
+  category: string | null;
+  proficiency: SkillProficiency;
+}
+
+export interface RequiredSkill {
+  skillId: string;
+  minProficiency: SkillProficiency;
+}
+
+export interface SkillMatch {
+  skillId: string;
+  skillName: string;
+  required: SkillProficiency;
+  // null = doesn't have the skill at all
+  actual: SkillProficiency | null;
+  met: boolean;
+}
+
+export interface AssigneeCandidate {
+  userId: string;
+  name: string;
+  email: string | null;
+  image: string | null;
+  skills: Record<string, SkillProficiency>;
+  availableHours: number;
+  allocatedHours: number;
+  utilizationRate: number;
+  accountFamiliarity: AccountFamiliarity;
+}
+
+export interface AssigneeSuggestion {
+  userId: string;
+  name: string;
+  email: string | null;
+  image: string | null;
+  score: number;
+  skillScore: number;
+  availabilityScore: number;
+  familiarityScore: number;
+  matches: SkillMatch[];
+  availableHours: number;
+  allocatedHours: number;
+  utilizationRate: number;
+  accountFamiliarity: AccountFamiliarity;
+}
+
+export function isSkillProficiency(value: unknown): value is SkillProficiency {
+  return value === 1 || value === 2 || value === 3 || value === 4;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Required skills stored on a workflow role node
+ * (settings.required_skills = [{ skill_id, min_proficiency }])
+ */
+export function readNodeRequiredSkills(settings: unknown): RequiredSkill[] {
+  if (typeof settings !== 'object' || settings === null) return [];
+  const raw = (settings as Record<string, unknown>).required_skills;
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((entry: unknown) => {
+    if (typeof entry !== 'object' || entry === null) return [];
+    const { skill_id, min_proficiency } = entry as Record<string, unknown>;
+    if (typeof skill_id !== 'string' || !skill_id) return [];
+    return [{ skillId: skill_id, minProficiency: isSkillProficiency(min_proficiency) ? min_proficiency : 1 }];
+  });
+}
+
+/**
+ * Required skills as a query param: skill_id:level pairs, comma separated
+ */
+export function formatRequiredSkillsParam(required: RequiredSkill[]): string {
+  return required.map((r) => `${r.skillId}:${r.minProficiency}`).join(',');
+}
+
+export function parseRequiredSkillsParam(value: string): RequiredSkill[] {
+  return value.split(',').flatMap((pair) => {
+    const [skillId, level] = pair.split(':');
+    const minProficiency = Number(level);
+    return skillId && isSkillProficiency(minProficiency) ? [{ skillId, minProficiency }] : [];
+  });
+}
+
+/**
+ * How well someone's skills cover a requirement, 0-1. A skill held below
+ * the required level earns partial credit; nothing required scores 1 so
+ * the other signals decide.
+ */
+export function getSkillScore(
+  required: RequiredSkill[],
+  skills: Record<string, SkillProficiency>,
+  skillNames: Record<string, string> = {}
+): { score: number; matches: SkillMatch[] } {
+  if (required.length === 0) return { score: 1, matches: [] };
+
+  const matches = required.map((req) => {
+    const actual = skills[req.skillId] ?? null;
+    return {
+      skillId: req.skillId,
+      skillName: skillNames[req.skillId] ?? 'Unknown skill',
+      required: req.minProficiency,
+      actual,
+      met: actual !== null && actual >= req.minProficiency,
+    };
+  });
+
+  const total = matches.reduce((sum, match) => {
+    if (match.met) return sum + 1;
+    if (match.actual !== null) return sum + (match.actual / match.required) * 0.5;
+    return sum;
+  }, 0);
+
+  return { score: round(total / required.length), matches };
+}
+
+/**
+ * Room left this week, 0-1: 1 with nothing allocated, 0 at or over capacity
+ */
+export function getAvailabilityScore(availableHours: number, allocatedHours: number): number {
+  if (availableHours <= 0) return 0;
+  return round(Math.min(1, Math.max(0, 1 - allocatedHours / availableHours)));
+}
+
+export function getFamiliarityScore(familiarity: AccountFamiliarity): number {
+  if (familiarity === 'member') return 1;
+  if (familiarity === 'past_work') return 0.5;
+  return 0;
+}
+
+/**
+ * Score and sort candidates, best first. Ties go to whoever has more room.
+ */
+export function rankAssignees(
+  candidates: AssigneeCandidate[],
+  required: RequiredSkill[],
+  skillNames: Record<string, string> = {}
+): AssigneeSuggestion[] {
+  return candidates
+    .map((candidate) => {
+      const { score: skillScore, matches } = getSkillScore(required, candidate.skills, skillNames);
+      const availabilityScore = getAvailabilityScore(candidate.availableHours, candidate.allocatedHours);
+      const familiarityScore = getFamiliarityScore(candidate.accountFamiliarity);
+      const score = Math.round(100 * (
+        SUGGESTION_WEIGHTS.skills * skillScore +
+        SUGGESTION_WEIGHTS.availability * availabilityScore +
+        SUGGESTION_WEIGHTS.familiarity * familiarityScore
+      ));
+
+      return {
+        userId: candidate.userId,
+        name: candidate.name,
+        email: candidate.email,
+        image: candidate.image,
+        score,
+        skillScore,
+        availabilityScore,
+        familiarityScore,
+        matches,
+        availableHours: candidate.availableHours,
+        allocatedHours: candidate.allocatedHours,
+        utilizationRate: candidate.utilizationRate,
+        accountFamiliarity: candidate.accountFamiliarity,
+      };
+    })
+    .sort((a, b) =>
+      b.score - a.score ||
+      b.availabilityScore - a.availabilityScore ||
+      a.name.localeCompare(b.name)
+    );
+}
@@ -0,0 +1,22 @@
+/**
+ * Type Guards
+ * Narrowing helpers for untyped values: Supabase rows, jsonb settings and
+ * parsed request bodies.
+ */
+
+export function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A joined to-one relation, which Supabase returns as an object or a
+ * one-element array depending on how the foreign key is inferred
+ */
+export function first(value: unknown): Record<string, unknown> | null {
+  const item = Array.isArray(value) ? value[0] : value;
+  return isRecord(item) ? item : null;
+}
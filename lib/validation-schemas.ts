@@ -40,6 +40,7 @@ export const createProjectSchema = z.object({
   start_date: dateSchema.optional().nullable(),
   end_date: dateSchema.optional().nullable(),
   budget: positiveNumberSchema.optional().nullable(),
+  priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
   assigned_user_id: uuidSchema.optional(),
 });
 
@@ -50,6 +51,7 @@ export const updateProjectSchema = z.object({
   start_date: dateSchema.optional().nullable(),
   end_date: dateSchema.optional().nullable(),
   budget: positiveNumberSchema.optional().nullable(),
+  priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
   assigned_user_id: uuidSchema.optional().nullable(),
 });
 
@@ -165,6 +167,43 @@ export const updateAvailabilitySchema = z.object({
   available_hours: z.number().min(0).max(168),
 });
 
+// ============================================================================
+// BUSINESS CALENDAR SCHEMAS
+// ============================================================================
+
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+const calendarRegionSchema = z.string().trim().max(50, 'Region too long');
+
+export const updateBusinessCalendarSchema = z.object({
+  working_days: z.array(z.number().int().min(0).max(6))
+    .min(1, 'Select at least one working day')
+    .transform((days) => Array.from(new Set(days)).sort((a, b) => a - b)),
+  day_start_hour: z.number().int().min(0).max(23),
+  day_end_hour: z.number().int().min(1).max(24),
+  default_region: calendarRegionSchema.optional().nullable()
+    .transform((region) => region || null),
+}).refine((data) => data.day_start_hour < data.day_end_hour, {
+  message: 'The working day must end after it starts',
+  path: ['day_end_hour'],
+});
+
+export const createBusinessCalendarClosureSchema = z.object({
+  kind: z.enum(['holiday', 'shutdown']),
+  name: z.string().min(1, 'Name is required').max(200, 'Name too long'),
+  start_date: calendarDateSchema,
+  end_date: calendarDateSchema,
+  region: calendarRegionSchema.optional().nullable()
+    .transform((region) => region || null),
+}).refine((data) => data.end_date >= data.start_date, {
+  message: 'End date must be on or after the start date',
+  path: ['end_date'],
+});
+
+export const updateUserRegionSchema = z.object({
+  region: calendarRegionSchema.nullable()
+    .transform((region) => region || null),
+});
+
 // ============================================================================
 // DEPARTMENT SCHEMAS
 // ============================================================================
@@ -219,6 +258,189 @@ export const getCapacityQuerySchema = z.object({
   accountId: uuidSchema.optional(),
 });
 
+export const resourcePlanQuerySchema = z.object({
+  start: calendarDateSchema.optional(),
+  weeks: z.string().regex(/^\d{1,2}$/, 'weeks must be a whole number').optional(),
+});
+
+const allocationHoursSchema = z.number().min(0, 'Hours cannot be negative').max(168, 'A week only has 168 hours');
+
+export const setTaskAllocationSchema = z.object({
+  task_id: uuidSchema,
+  user_id: uuidSchema,
+  week_start_date: calendarDateSchema,
+  hours: allocationHoursSchema,
+  notes: z.string().max(500, 'Notes too long').optional().nullable(),
+});
+
+export const moveTaskAllocationSchema = z.object({
+  user_id: uuidSchema,
+  week_start_date: calendarDateSchema,
+});
+
+export const splitTaskAllocationSchema = z.object({
+  task_id: uuidSchema,
+  user_id: uuidSchema,
+  week_start_dates: z.array(calendarDateSchema).min(1, 'Pick at least one week').max(26),
+});
+
+export const capacityAllocationQuerySchema = z.object({
+  user_id: uuidSchema,
+});
+
+const allocationPercentSchema = z.number().gt(0, 'Percentage must be more than 0').max(100, 'Percentage cannot exceed 100');
+
+export const createCapacityAllocationSchema = z.object({
+  user_id: uuidSchema,
+  account_id: uuidSchema,
+  project_id: uuidSchema.optional().nullable(),
+  allocation_percent: allocationPercentSchema,
+  effective_from: calendarDateSchema,
+  effective_to: calendarDateSchema.optional().nullable(),
+}).refine(
+  (data) => !data.effective_to || data.effective_to >= data.effective_from,
+  { message: 'The end date must be on or after the start date', path: ['effective_to'] }
+);
+
+export const updateCapacityAllocationSchema = z.object({
+  project_id: uuidSchema.optional().nullable(),
+  allocation_percent: allocationPercentSchema.optional(),
+  effective_from: calendarDateSchema.optional(),
+  effective_to: calendarDateSchema.optional().nullable(),
+});
+
+export const createCapacityScenarioSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name too long'),
+  description: z.string().max(2000, 'Description too long').optional().nullable(),
+});
+
+export const updateCapacityScenarioSchema = createCapacityScenarioSchema.partial();
+
+export const saveScenarioProjectSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name too long'),
+  account_id: uuidSchema.optional().nullable(),
+  client_name: z.string().max(200, 'Client name too long').optional().nullable(),
+  notes: z.string().max(2000, 'Notes too long').optional().nullable(),
+  demands: z.array(z.object({
+    role_id: uuidSchema,
+    week_start_date: calendarDateSchema,
+    hours: z.number().gt(0, 'Hours must be more than 0').max(9999, 'Too many hours for one week'),
+  })).max(500, 'Too many weekly estimates'),
+});
+
+// ============================================================================
+// LEAVE SCHEMAS
+// ============================================================================
+
+const leaveTypeFields = {
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3B82F6'),
+  is_paid: z.boolean(),
+  requires_approval: z.boolean(),
+  accrual: z.enum(['annual', 'monthly', 'none']),
+  annual_allowance_days: z.number().min(0, 'Allowance cannot be negative').max(365, 'Allowance too large').nullable(),
+  is_active: z.boolean(),
+  sort_order: z.number().int().min(0).max(1000),
+};
+
+export const createLeaveTypeSchema = z.object({
+  ...leaveTypeFields,
+  color: leaveTypeFields.color.optional(),
+  is_paid: leaveTypeFields.is_paid.optional(),
+  requires_approval: leaveTypeFields.requires_approval.optional(),
+  accrual: leaveTypeFields.accrual.optional(),
+  annual_allowance_days: leaveTypeFields.annual_allowance_days.optional(),
+  is_active: leaveTypeFields.is_active.optional(),
+  sort_order: leaveTypeFields.sort_order.optional(),
+});
+
+export const updateLeaveTypeSchema = z.object(leaveTypeFields).partial();
+
+export const createLeaveRequestSchema = z.object({
+  leave_type_id: uuidSchema,
+  start_date: calendarDateSchema,
+  end_date: calendarDateSchema,
+  half_day: z.boolean().optional(),
+  reason: z.string().max(1000, 'Reason too long').optional().nullable(),
+}).refine(
+  (data) => data.end_date >= data.start_date,
+  { message: 'The last day must be on or after the first day', path: ['end_date'] }
+);
+
+export const updateLeaveRequestSchema = z.object({
+  action: z.enum(['approve', 'reject', 'cancel']),
+  note: z.string().max(1000, 'Note too long').optional().nullable(),
+});
+
+export const leaveRequestQuerySchema = z.object({
+  scope: z.enum(['mine', 'approvals', 'team']).optional(),
+  from: calendarDateSchema.optional(),
+  to: calendarDateSchema.optional(),
+});
+
+export const leaveBalanceQuerySchema = z.object({
+  user_id: uuidSchema.optional(),
+  year: z.string().regex(/^\d{4}$/, 'year must be YYYY').optional(),
+});
+
+export const createLeaveAdjustmentSchema = z.object({
+  user_id: uuidSchema,
+  leave_type_id: uuidSchema,
+  year: z.number().int().min(2000).max(2100),
+  days: z.number().min(-365).max(365).refine((days) => days !== 0, 'Days cannot be 0'),
+  reason: z.string().max(500, 'Reason too long').optional().nullable(),
+});
+
+// ============================================================================
+// SKILLS SCHEMAS
+// ============================================================================
+
+const proficiencySchema = z.number().int().min(1, 'Proficiency must be 1-4').max(4, 'Proficiency must be 1-4');
+
+export const createSkillSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  category: z.string().max(100, 'Category too long').optional().nullable(),
+  description: z.string().max(500, 'Description too long').optional().nullable(),
+  is_active: z.boolean().optional(),
+});
+
+export const updateSkillSchema = createSkillSchema.partial();
+
+export const setUserSkillsSchema = z.object({
+  skills: z.array(z.object({
+    skill_id: uuidSchema,
+    proficiency: proficiencySchema,
+  })).max(200, 'Too many skills'),
+}).refine(
+  (data) => new Set(data.skills.map((s) => s.skill_id)).size === data.skills.length,
+  { message: 'Each skill can only be listed once', path: ['skills'] }
+);
+
+export const setRequiredSkillsSchema = z.object({
+  skills: z.array(z.object({
+    skill_id: uuidSchema,
+    min_proficiency: proficiencySchema,
+  })).max(50, 'Too many required skills'),
+}).refine(
+  (data) => new Set(data.skills.map((s) => s.skill_id)).size === data.skills.length,
+  { message: 'Each skill can only be listed once', path: ['skills'] }
+);
+
+export const suggestAssigneesQuerySchema = z.object({
+  project_id: uuidSchema.optional(),
+  task_id: uuidSchema.optional(),
+  workflow_node_id: uuidSchema.optional(),
+  // skill_id:min_proficiency pairs, comma separated - overrides the saved requirements
+  skills: z.string().regex(
+    /^([0-9a-fA-F-]{36}:[1-4])(,[0-9a-fA-F-]{36}:[1-4])*$/,
+    'skills must be skill_id:level pairs'
+  ).optional(),
+  limit: z.string().regex(/^\d+$/, 'limit must be a number').optional(),
+}).refine(
+  (data) => data.project_id || data.task_id,
+  { message: 'project_id or task_id is required', path: ['project_id'] }
+);
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -338,27 +560,123 @@ export const workflowHandoffSchema = z.object({
   out_of_order: z.boolean().optional(),
 });
 
+export const migrateWorkflowInstancesSchema = z.object({
+  to_version_id: uuidSchema,
+  // Old node ID -> new node ID (null = no equivalent). Unlisted nodes keep their ID if it exists in the target version.
+  node_mapping: z.record(z.string(), uuidSchema.nullable()).optional().default({}),
+  instance_ids: z.array(uuidSchema).optional(),
+  // When true, only report what would happen
+  dry_run: z.boolean().optional().default(true),
+});
+
+export const pauseWorkflowInstanceSchema = z.object({
+  reason: z.string().max(500).optional().nullable(),
+});
+
+export const reassignWorkflowStepsSchema = z.object({
+  from_user_id: uuidSchema,
+  to_user_id: uuidSchema,
+  // Limit to these instances (defaults to every active or paused instance)
+  instance_ids: z.array(uuidSchema).optional(),
+  // When true, only report what would be reassigned
+  dry_run: z.boolean().optional().default(true),
+}).refine((data) => data.from_user_id !== data.to_user_id, {
+  message: 'Choose a different user to reassign to',
+  path: ['to_user_id'],
+});
+
+export const workflowTriggerRuleSchema = z.object({
+  name: z.string().min(1, 'Trigger name is required').max(200, 'Trigger name too long'),
+  event: z.enum(['project_created', 'project_status_changed', 'client_request_submitted']),
+  conditions: z.object({
+    account_id: uuidSchema.optional().nullable(),
+    priority: z.enum(['low', 'medium', 'high', 'urgent']).optional().nullable(),
+    status: z.enum(['planning', 'in_progress', 'review', 'complete', 'on_hold']).optional().nullable(),
+  }).optional().default({}),
+  is_active: z.boolean().optional(),
+});
+
+export const updateWorkflowTriggerRuleSchema = workflowTriggerRuleSchema.partial();
+
 // ============================================================================
 // FORM SCHEMAS (Phase 1)
 // ============================================================================
 
+const formFieldValidationSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  pattern: z.string().optional(),
+  message: z.string().optional(),
+});
+
+const formConditionRuleSchema = z.object({
+  fieldId: z.string().min(1),
+  operator: z.enum([
+    'equals', 'contains', 'starts_with', 'ends_with', 'is_empty', 'is_not_empty',
+    'greater_than', 'less_than', 'greater_or_equal', 'less_or_equal', 'between',
+    'before', 'after', 'is_checked', 'is_not_checked',
+    'count_equals', 'count_greater_than', 'count_less_than',
+  ]),
+  value: z.string().optional(),
+  value2: z.string().optional(),
+  valueFieldId: z.string().optional(),
+});
+
+type FormConditionGroupInput = {
+  combinator: 'and' | 'or';
+  conditions: Array<z.infer<typeof formConditionRuleSchema> | FormConditionGroupInput>;
+};
+
+// AND/OR groups of rules; nesting depth is checked by form-service
+export const formConditionGroupSchema: z.ZodType<FormConditionGroupInput> = z.lazy(() =>
+  z.object({
+    combinator: z.enum(['and', 'or']),
+    conditions: z.array(z.union([formConditionRuleSchema, formConditionGroupSchema])).max(20, 'Too many conditions'),
+  })
+);
+
+// Repeater row fields and table columns - simple field types only
+export const formSubfieldSchema = z.object({
+  id: z.string().min(1, 'Field ID is required'),
+  type: z.enum(['text', 'textarea', 'number', 'currency', 'date', 'dropdown', 'email', 'url', 'checkbox']),
+  label: z.string().min(1, 'Field label is required'),
+  required: z.boolean(),
+  placeholder: z.string().optional(),
+  options: z.array(z.string()).optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code').optional(),
+  validation: formFieldValidationSchema.optional(),
+});
+
 export const formFieldSchema = z.object({
   id: z.string().min(1, 'Field ID is required'),
-  type: z.enum(['text', 'number', 'date', 'dropdown', 'multiselect', 'file', 'textarea', 'email', 'checkbox']),
+  type: z.enum([
+    'text', 'number', 'date', 'dropdown', 'multiselect', 'file', 'textarea', 'email', 'checkbox',
+    'url', 'currency', 'rating', 'signature', 'user', 'account', 'project', 'repeater', 'table', 'computed',
+  ]),
   label: z.string().min(1, 'Field label is required'),
   required: z.boolean(),
   placeholder: z.string().optional(),
   options: z.array(z.string()).optional(),
   defaultValue: z.any().optional(),
-  validation: z.object({
-    min: z.number().optional(),
-    max: z.number().optional(),
-    pattern: z.string().optional(),
-    message: z.string().optional(),
-  }).optional(),
-  conditional: z.object({
-    show_if: z.string(),
-    equals: z.any(),
+  subfields: z.array(formSubfieldSchema).max(20, 'Too many subfields').optional(),
+  rows: z.array(z.string().min(1)).max(50, 'Too many rows').optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code').optional(),
+  validation: formFieldValidationSchema.optional(),
+  conditional: z.union([
+    z.object({
+      show_if: z.string(),
+      equals: z.any(),
+    }),
+    formConditionGroupSchema,
+  ]).optional(),
+  validationRules: z.array(z.object({
+    condition: formConditionGroupSchema,
+    message: z.string().min(1, 'Validation rule message is required').max(300),
+  })).max(10, 'Too many validation rules').optional(),
+  computation: z.object({
+    operation: z.enum(['sum', 'average', 'min', 'max', 'count', 'product', 'difference']),
+    fieldIds: z.array(z.string().min(1)).min(1, 'Choose at least one field'),
+    decimals: z.number().int().min(0).max(6).optional(),
   }).optional(),
 });
 
@@ -379,6 +697,86 @@ export const submitFormResponseSchema = z.object({
   form_template_id: uuidSchema,
   response_data: z.record(z.string(), z.any()),
   workflow_history_id: uuidSchema.optional().nullable(),
+  // The step the form was filled in for, so the submitter's draft is cleared
+  workflow_instance_id: uuidSchema.optional().nullable(),
+  node_id: uuidSchema.optional().nullable(),
+});
+
+const intakeFieldMappingsSchema = z.object({
+  name: z.string().min(1, 'Map a form field to the project name'),
+  description: z.string().min(1).optional().nullable(),
+  start_date: z.string().min(1).optional().nullable(),
+  end_date: z.string().min(1).optional().nullable(),
+  priority: z.string().min(1).optional().nullable(),
+  estimated_hours: z.string().min(1).optional().nullable(),
+});
+
+export const intakeFormSchema = z.object({
+  title: z.string().min(1, 'Intake form title is required').max(200, 'Title too long'),
+  description: z.string().max(2000, 'Description too long').optional().nullable(),
+  access: z.enum(['public', 'client_portal']),
+  account_id: uuidSchema.optional().nullable(),
+  // Publish an existing form template, or build a new one from fields
+  form_template_id: uuidSchema.optional().nullable(),
+  fields: z.array(formFieldSchema).min(1, 'Form must have at least one field').optional(),
+  field_mappings: intakeFieldMappingsSchema,
+  default_priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
+  workflow_template_id: uuidSchema.optional().nullable(),
+  confirmation_message: z.string().max(1000, 'Message too long').optional().nullable(),
+  is_active: z.boolean().optional(),
+}).refine((data) => data.access !== 'public' || !!data.account_id, {
+  message: 'Public intake forms need an account for new projects',
+  path: ['account_id'],
+}).refine((data) => !!data.form_template_id || !!data.fields, {
+  message: 'Choose a form template or add fields',
+  path: ['fields'],
+});
+
+export const updateIntakeFormSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  description: z.string().max(2000).optional().nullable(),
+  access: z.enum(['public', 'client_portal']).optional(),
+  account_id: uuidSchema.optional().nullable(),
+  fields: z.array(formFieldSchema).min(1, 'Form must have at least one field').optional(),
+  field_mappings: intakeFieldMappingsSchema.optional(),
+  default_priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
+  workflow_template_id: uuidSchema.optional().nullable(),
+  confirmation_message: z.string().max(1000).optional().nullable(),
+  is_active: z.boolean().optional(),
+});
+
+export const submitIntakeFormSchema = z.object({
+  responses: z.record(z.string(), z.any()),
+  // Contact details - required on public forms, taken from the profile on client portal forms
+  submitter_name: z.string().trim().max(200, 'Name too long').optional().nullable(),
+  submitter_email: emailSchema.max(320).optional().nullable(),
+  // Anti-spam: a hidden field people never fill in, and when the form was opened
+  website: z.string().optional().nullable(),
+  started_at: z.number().int().optional().nullable(),
+});
+
+export const formResponseReportQuerySchema = z.object({
+  from: calendarDateSchema.optional(),
+  to: calendarDateSchema.optional(),
+  project_id: uuidSchema.optional(),
+  account_id: uuidSchema.optional(),
+  // A user id, or the email of a public intake submitter
+  submitter: z.string().max(320).optional(),
+  format: z.enum(['csv', 'xlsx']).optional(),
+});
+
+export const workflowFormDraftQuerySchema = z.object({
+  workflow_instance_id: uuidSchema,
+  node_id: uuidSchema,
+  active_step_id: uuidSchema.optional(),
+});
+
+export const saveWorkflowFormDraftSchema = z.object({
+  workflow_instance_id: uuidSchema,
+  node_id: uuidSchema,
+  active_step_id: uuidSchema.optional().nullable(),
+  form_data: z.record(z.string(), z.any()),
+  step_state: z.record(z.string(), z.any()).optional(),
 });
 
 // ============================================================================
@@ -427,6 +825,14 @@ export type UpdateWorkflowNodeInput = z.infer<typeof updateWorkflowNodeSchema>;
 export type CreateWorkflowConnectionInput = z.infer<typeof createWorkflowConnectionSchema>;
 export type StartWorkflowInstanceInput = z.infer<typeof startWorkflowInstanceSchema>;
 export type WorkflowHandoffInput = z.infer<typeof workflowHandoffSchema>;
+export type MigrateWorkflowInstancesInput = z.infer<typeof migrateWorkflowInstancesSchema>;
+export type PauseWorkflowInstanceInput = z.infer<typeof pauseWorkflowInstanceSchema>;
+export type ReassignWorkflowStepsInput = z.infer<typeof reassignWorkflowStepsSchema>;
+export type WorkflowTriggerRuleInput = z.infer<typeof workflowTriggerRuleSchema>;
+export type UpdateWorkflowTriggerRuleInput = z.infer<typeof updateWorkflowTriggerRuleSchema>;
+export type UpdateBusinessCalendarInput = z.infer<typeof updateBusinessCalendarSchema>;
+export type CreateBusinessCalendarClosureInput = z.infer<typeof createBusinessCalendarClosureSchema>;
+export type UpdateUserRegionInput = z.infer<typeof updateUserRegionSchema>;
 export type FormFieldInput = z.infer<typeof formFieldSchema>;
 export type CreateFormTemplateInput = z.infer<typeof createFormTemplateSchema>;
 export type UpdateFormTemplateInput = z.infer<typeof updateFormTemplateSchema>;
@@ -0,0 +1,376 @@
+/**
+ * Workflow Action Service
+ * Action nodes run automated steps when a workflow reaches them - creating
+ * tasks from a checklist, posting a project update, changing project
+ * status/priority, adding stakeholders or adding a user to the account - and
+ * then continue to the next node without anyone handing off.
+ *
+ * Actions are best-effort: a failed action doesn't stop the others or block the
+ * workflow. Every result is recorded in the workflow_history entry for the
+ * action node so failures can be followed up.
+ */
+
+import { addWorkingDays, getBusinessCalendar, DEFAULT_BUSINESS_CALENDAR, BusinessCalendar } from './business-calendar-service';
+import { isString, isRecord } from './type-guards';
+
+export type WorkflowActionType =
+  | 'create_tasks'
+  | 'post_update'
+  | 'set_project_fields'
+  | 'add_stakeholders'
+  | 'assign_account_user';
+
+export type ProjectPriority = 'low' | 'medium' | 'high' | 'urgent';
+export type ProjectStatus = 'planning' | 'in_progress' | 'review' | 'complete' | 'on_hold';
+
+export interface WorkflowActionTask {
+  name: string;
+  description?: string;
+  dueInDays?: number;
+  dueUnit?: 'days' | 'business_days';
+  estimatedHours?: number;
+  priority?: ProjectPriority;
+}
+
+export interface WorkflowActionUser {
+  id: string;
+  name?: string;
+}
+
+/**
+ * One action on an action node. Stored as-is in workflow_nodes.settings.actions
+ * (like inline form fields), so the editor and the engine share this shape.
+ */
+export interface WorkflowActionConfig {
+  id: string;
+  type: WorkflowActionType;
+  // create_tasks
+  tasks?: WorkflowActionTask[];
+  // post_update
+  updateTemplate?: string;
+  // set_project_fields
+  projectStatus?: ProjectStatus;
+  projectPriority?: ProjectPriority;
+  // add_stakeholders
+  stakeholders?: WorkflowActionUser[];
+  stakeholderRole?: string;
+  // assign_account_user
+  accountUser?: WorkflowActionUser;
+}
+
+export interface WorkflowActionResult {
+  actionId: string;
+  type: WorkflowActionType;
+  success: boolean;
+  summary: string;
+  error?: string;
+}
+
+export interface WorkflowActionContext {
+  workflowInstanceId: string;
+  projectId: string | null;
+  workflowName: string;
+  nodeLabel: string;
+  actorId: string | null;
+}
+
+export const WORKFLOW_ACTION_LABELS: Record<WorkflowActionType, string> = {
+  create_tasks: 'Create tasks',
+  post_update: 'Post project update',
+  set_project_fields: 'Set project status/priority',
+  add_stakeholders: 'Add stakeholders',
+  assign_account_user: 'Assign user to account',
+};
+
+export const PROJECT_STATUSES: ProjectStatus[] = ['planning', 'in_progress', 'review', 'complete', 'on_hold'];
+export const PROJECT_PRIORITIES: ProjectPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+// Placeholders available in post_update templates
+export const UPDATE_TEMPLATE_PLACEHOLDERS = [
+  '{{project.name}}',
+  '{{project.status}}',
+  '{{project.priority}}',
+  '{{account.name}}',
+  '{{workflow.name}}',
+  '{{step.label}}',
+  '{{date}}',
+] as const;
+
+/**
+ * Read the configured actions from a workflow node (snapshot or template row).
+ */
+export function getNodeActions(node: Record<string, unknown>): WorkflowActionConfig[] {
+  if (node.node_type !== 'action') return [];
+  const settings = isRecord(node.settings) ? node.settings : {};
+  if (!Array.isArray(settings.actions)) return [];
+  return settings.actions.filter(
+    (action): action is WorkflowActionConfig => isRecord(action) && isString(action.type)
+  );
+}
+
+/**
+ * Describe why an action can't run, or null if it is fully configured.
+ * Shared by editor validation and the engine.
+ */
+export function getActionConfigError(action: WorkflowActionConfig): string | null {
+  switch (action.type) {
+    case 'create_tasks': {
+      const tasks = action.tasks || [];
+      if (tasks.length === 0) return 'No tasks in checklist';
+      if (tasks.some((t) => !isString(t.name) || !t.name.trim())) return 'Every task needs a name';
+      if (tasks.some((t) => t.dueInDays !== undefined && (!Number.isFinite(Number(t.dueInDays)) || Number(t.dueInDays) < 0))) {
+        return 'Task due offsets must be zero or more days';
+      }
+      return null;
+    }
+    case 'post_update':
+      return action.updateTemplate?.trim() ? null : 'Update text is empty';
+    case 'set_project_fields':
+      if (!action.projectStatus && !action.projectPriority) return 'Choose a status or priority';
+      if (action.projectStatus && !PROJECT_STATUSES.includes(action.projectStatus)) return 'Unknown project status';
+      if (action.projectPriority && !PROJECT_PRIORITIES.includes(action.projectPriority)) return 'Unknown project priority';
+      return null;
+    case 'add_stakeholders':
+      return action.stakeholders?.length ? null : 'No stakeholders selected';
+    case 'assign_account_user':
+      return action.accountUser?.id ? null : 'No user selected';
+    default:
+      return 'Unknown action type';
+  }
+}
+
+/**
+ * Fill {{placeholders}} in an update template. Unknown placeholders are left as-is.
+ */
+export function renderActionTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+}
+
+/**
+ * Due date for a checklist task, relative to when the action runs. Business
+ * days skip the non-working days of the business calendar.
+ */
+export function computeTaskDueDate(
+  task: WorkflowActionTask,
+  from: Date,
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): string | null {
+  if (task.dueInDays === undefined || task.dueInDays === null) return null;
+  const days = Math.floor(Number(task.dueInDays));
+  if (!Number.isFinite(days) || days < 0) return null;
+
+  const due = task.dueUnit === 'business_days'
+    ? addWorkingDays(calendar, from, days)
+    : new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+
+  return due ? due.toISOString().split('T')[0] : null;
+}
+
+async function runCreateTasks(
+  supabase: any,
+  action: WorkflowActionConfig,
+  context: WorkflowActionContext,
+  now: Date
+): Promise<string> {
+  const tasks = action.tasks || [];
+  const calendar = tasks.some((task) => task.dueUnit === 'business_days')
+    ? await getBusinessCalendar(supabase)
+    : DEFAULT_BUSINESS_CALENDAR;
+
+  const rows = tasks.map((task) => ({
+    name: task.name.trim(),
+    description: task.description?.trim() || null,
+    project_id: context.projectId,
+    status: 'todo',
+    priority: task.priority || 'medium',
+    start_date: now.toISOString().split('T')[0],
+    due_date: computeTaskDueDate(task, now, calendar),
+    estimated_hours: task.estimatedHours ?? null,
+    remaining_hours: task.estimatedHours ?? null,
+    created_by: context.actorId,
+  }));
+
+  const { error } = await supabase.from('tasks').insert(rows);
+  if (error) throw new Error(error.message);
+
+  return `Created ${rows.length} task${rows.length === 1 ? '' : 's'}`;
+}
+
+async function runPostUpdate(
+  supabase: any,
+  action: WorkflowActionConfig,
+  context: WorkflowActionContext,
+  now: Date
+): Promise<string> {
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('name, status, priority, accounts(name)')
+    .eq('id', context.projectId)
+    .single();
+
+  if (projectError || !project) throw new Error('Project not found');
+
+  const account = Array.isArray(project.accounts) ? project.accounts[0] : project.accounts;
+  const content = renderActionTemplate(action.updateTemplate || '', {
+    'project.name': project.name || '',
+    'project.status': project.status || '',
+    'project.priority': project.priority || '',
+    'account.name': account?.name || '',
+    'workflow.name': context.workflowName,
+    'step.label': context.nodeLabel,
+    date: now.toISOString().split('T')[0],
+  });
+
+  const { error } = await supabase.from('project_updates').insert({
+    project_id: context.projectId,
+    content,
+    created_by: context.actorId,
+  });
+  if (error) throw new Error(error.message);
+
+  return 'Posted project update';
+}
+
+async function runSetProjectFields(
+  supabase: any,
+  action: WorkflowActionConfig,
+  context: WorkflowActionContext
+): Promise<string> {
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  const changes: string[] = [];
+
+  if (action.projectStatus) {
+    updates.status = action.projectStatus;
+    changes.push(`status to ${action.projectStatus.replace('_', ' ')}`);
+  }
+  if (action.projectPriority) {
+    updates.priority = action.projectPriority;
+    changes.push(`priority to ${action.projectPriority}`);
+  }
+
+  const { error } = await supabase.from('projects').update(updates).eq('id', context.projectId);
+  if (error) throw new Error(error.message);
+
+  return `Set ${changes.join(' and ')}`;
+}
+
+async function runAddStakeholders(
+  supabase: any,
+  action: WorkflowActionConfig,
+  context: WorkflowActionContext
+): Promise<string> {
+  const userIds = (action.stakeholders || []).map((s) => s.id).filter(isString);
+
+  const { data: existing, error: existingError } = await supabase
+    .from('project_stakeholders')
+    .select('user_id')
+    .eq('project_id', context.projectId)
+    .in('user_id', userIds);
+
+  if (existingError) throw new Error(existingError.message);
+
+  const existingIds = new Set((existing || []).map((s: { user_id: string }) => s.user_id));
+  const toAdd = userIds.filter((id) => !existingIds.has(id));
+
+  if (toAdd.length > 0) {
+    const { error } = await supabase.from('project_stakeholders').insert(
+      toAdd.map((userId) => ({
+        project_id: context.projectId,
+        user_id: userId,
+        role: action.stakeholderRole?.trim() || null,
+        added_by: context.actorId,
+      }))
+    );
+    if (error) throw new Error(error.message);
+  }
+
+  const skipped = userIds.length - toAdd.length;
+  return `Added ${toAdd.length} stakeholder${toAdd.length === 1 ? '' : 's'}` +
+    (skipped > 0 ? ` (${skipped} already on the project)` : '');
+}
+
+async function runAssignAccountUser(
+  supabase: any,
+  action: WorkflowActionConfig,
+  context: WorkflowActionContext
+): Promise<string> {
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('account_id')
+    .eq('id', context.projectId)
+    .single();
+
+  if (projectError || !project?.account_id) throw new Error('Project account not found');
+
+  const { error } = await supabase
+    .from('account_members')
+    .upsert(
+      { user_id: action.accountUser!.id, account_id: project.account_id },
+      { onConflict: 'user_id,account_id', ignoreDuplicates: true }
+    );
+  if (error) throw new Error(error.message);
+
+  return `Added ${action.accountUser!.name || 'user'} to the account`;
+}
+
+/**
+ * Run every action on an action node, in order. Never throws - each failure is
+ * captured in its result.
+ */
+export async function executeWorkflowActions(
+  supabase: any,
+  node: Record<string, unknown>,
+  context: WorkflowActionContext,
+  now: Date = new Date()
+): Promise<WorkflowActionResult[]> {
+  const results: WorkflowActionResult[] = [];
+
+  for (const action of getNodeActions(node)) {
+    const base = { actionId: action.id, type: action.type };
+    const configError = getActionConfigError(action);
+
+    if (configError) {
+      results.push({ ...base, success: false, summary: WORKFLOW_ACTION_LABELS[action.type] || action.type, error: configError });
+      continue;
+    }
+
+    if (!context.projectId) {
+      results.push({ ...base, success: false, summary: WORKFLOW_ACTION_LABELS[action.type], error: 'Workflow is not linked to a project' });
+      continue;
+    }
+
+    try {
+      let summary: string;
+      switch (action.type) {
+        case 'create_tasks':
+          summary = await runCreateTasks(supabase, action, context, now);
+          break;
+        case 'post_update':
+          summary = await runPostUpdate(supabase, action, context, now);
+          break;
+        case 'set_project_fields':
+          summary = await runSetProjectFields(supabase, action, context);
+          break;
+        case 'add_stakeholders':
+          summary = await runAddStakeholders(supabase, action, context);
+          break;
+        case 'assign_account_user':
+          summary = await runAssignAccountUser(supabase, action, context);
+          break;
+      }
+      results.push({ ...base, success: true, summary });
+    } catch (error: unknown) {
+      console.error('Workflow action failed:', { workflowInstanceId: context.workflowInstanceId, action, error });
+      results.push({
+        ...base,
+        success: false,
+        summary: WORKFLOW_ACTION_LABELS[action.type],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,295 @@
+/**
+ * Workflow Approval Quorum
+ * Approval nodes can require more than one approver: N of M approvers from the
+ * node's role, or all of them. Each approver's vote (with comment) is recorded
+ * in workflow_approvals against the active step; the step resolves once the
+ * quorum is reached or can no longer be reached.
+ *
+ * Rules (evaluated in vote order):
+ * - Each approver votes once. The pool is everyone currently eligible (holds
+ *   the node's role or is assigned to the node) plus anyone who already voted:
+ *   a vote stands even if its approver is later removed from the role.
+ * - "Reject on any rejection" resolves as rejected on the first counted rejection.
+ * - Otherwise a rejection rejects the step once the remaining approvers can't
+ *   make up the required number of approvals. A quorum put out of reach by
+ *   approvers leaving the pool stays pending (unreachable) for an admin to
+ *   sort out - people changing roles never rejects a workflow by itself.
+ * - Votes that arrive after the step resolved (e.g. cast concurrently) are
+ *   late and never change the outcome.
+ * - A superadmin outside the pool may vote, but it is one vote like any
+ *   other - it never overrides the quorum.
+ */
+
+import { isString, isRecord } from '@/lib/type-guards';
+
+export type ApprovalQuorumMode = 'single' | 'n_of_m' | 'all';
+export type ApprovalDecision = 'approved' | 'rejected';
+export type QuorumStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ApprovalQuorumSettings {
+  mode: ApprovalQuorumMode;
+  requiredApprovals: number;
+  rejectOnAnyRejection: boolean;
+}
+
+export interface ApprovalVote {
+  approverUserId: string;
+  decision: ApprovalDecision;
+  createdAt: string;
+  feedback?: string | null;
+}
+
+export interface QuorumEvaluation {
+  status: QuorumStatus;
+  required: number;
+  approvals: number;
+  rejections: number;
+  eligibleCount: number;
+  // Eligible approvers who haven't voted yet
+  outstanding: number;
+  // Still pending, but the outstanding approvers can no longer make up the quorum
+  unreachable: boolean;
+  countedVotes: ApprovalVote[];
+  lateVotes: ApprovalVote[];
+  ignoredVotes: ApprovalVote[];
+  // The vote that resolved the step (null while pending)
+  resolvingVote: ApprovalVote | null;
+}
+
+/**
+ * Read quorum settings from an approval node (snapshot or template row).
+ * Nodes without quorum settings behave as before: the first decision resolves.
+ */
+export function getApprovalQuorumSettings(node: Record<string, unknown>): ApprovalQuorumSettings {
+  const settings = isRecord(node.settings) ? node.settings : {};
+  const mode: ApprovalQuorumMode = settings.approval_quorum_mode === 'n_of_m' || settings.approval_quorum_mode === 'all'
+    ? settings.approval_quorum_mode
+    : 'single';
+  const required = Math.floor(Number(settings.required_approvals));
+
+  return {
+    mode,
+    requiredApprovals: Number.isFinite(required) && required > 0 ? required : 1,
+    rejectOnAnyRejection: settings.reject_on_any_rejection !== false,
+  };
+}
+
+export function isQuorumApproval(node: Record<string, unknown>): boolean {
+  return node.node_type === 'approval' && getApprovalQuorumSettings(node).mode !== 'single';
+}
+
+/**
+ * Evaluate a quorum from the votes cast so far and the current approver pool.
+ */
+export function evaluateApprovalQuorum(
+  settings: ApprovalQuorumSettings,
+  votes: ApprovalVote[],
+  eligibleApproverIds: string[]
+): QuorumEvaluation {
+  const eligible = new Set([...eligibleApproverIds, ...votes.map((vote) => vote.approverUserId)]);
+  const required = settings.mode === 'all'
+    ? eligible.size
+    : settings.mode === 'n_of_m'
+    ? settings.requiredApprovals
+    : 1;
+
+  const ordered = [...votes].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const seen = new Set<string>();
+  const countedVotes: ApprovalVote[] = [];
+  const lateVotes: ApprovalVote[] = [];
+  const ignoredVotes: ApprovalVote[] = [];
+  let approvals = 0;
+  let rejections = 0;
+  let status: QuorumStatus = 'pending';
+  let resolvingVote: ApprovalVote | null = null;
+
+  const isOutOfReach = () => approvals + (eligible.size - approvals - rejections) < required;
+
+  const resolve = (vote: ApprovalVote): QuorumStatus => {
+    // Nobody currently holds the role or is assigned - wait for an admin
+    if (eligibleApproverIds.length === 0) return 'pending';
+    if (settings.mode === 'single') {
+      return approvals > 0 ? 'approved' : rejections > 0 ? 'rejected' : 'pending';
+    }
+    if (settings.rejectOnAnyRejection && rejections > 0) return 'rejected';
+    if (approvals >= required) return 'approved';
+    if (vote.decision === 'rejected' && isOutOfReach()) return 'rejected';
+    return 'pending';
+  };
+
+  for (const vote of ordered) {
+    if (status !== 'pending') {
+      lateVotes.push(vote);
+      continue;
+    }
+    if (seen.has(vote.approverUserId)) {
+      ignoredVotes.push(vote);
+      continue;
+    }
+
+    seen.add(vote.approverUserId);
+    countedVotes.push(vote);
+    if (vote.decision === 'approved') approvals++;
+    else rejections++;
+
+    status = resolve(vote);
+    if (status !== 'pending') resolvingVote = vote;
+  }
+
+  return {
+    status,
+    required,
+    approvals,
+    rejections,
+    eligibleCount: eligible.size,
+    outstanding: Math.max(0, eligible.size - approvals - rejections),
+    unreachable: status === 'pending' && settings.mode !== 'single' && isOutOfReach(),
+    countedVotes,
+    lateVotes,
+    ignoredVotes,
+    resolvingVote,
+  };
+}
+
+/**
+ * Users who may vote on an approval node: holders of the node's role plus
+ * anyone explicitly assigned to the node for this workflow instance.
+ */
+export async function getEligibleApproverIds(
+  supabase: any,
+  workflowInstanceId: string,
+  node: Record<string, unknown>
+): Promise<string[]> {
+  const ids = new Set<string>();
+
+  if (isString(node.entity_id)) {
+    const { data: roleUsers } = await supabase
+      .from('user_roles')
+      .select('user_id')
+      .eq('role_id', node.entity_id);
+    for (const row of roleUsers || []) {
+      if (isString(row.user_id)) ids.add(row.user_id);
+    }
+  }
+
+  const { data: nodeAssignments } = await supabase
+    .from('workflow_node_assignments')
+    .select('user_id')
+    .eq('workflow_instance_id', workflowInstanceId)
+    .eq('node_id', node.id);
+  for (const row of nodeAssignments || []) {
+    if (isString(row.user_id)) ids.add(row.user_id);
+  }
+
+  return [...ids];
+}
+
+/**
+ * Load the votes recorded against one active step.
+ */
+export async function getStepApprovalVotes(supabase: any, activeStepId: string): Promise<ApprovalVote[]> {
+  const { data, error } = await supabase
+    .from('workflow_approvals')
+    .select('approver_user_id, decision, feedback, created_at')
+    .eq('active_step_id', activeStepId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading approval votes:', error);
+    return [];
+  }
+
+  return (data || [])
+    .filter((row: Record<string, unknown>) => row.decision === 'approved' || row.decision === 'rejected')
+    .map((row: Record<string, unknown>) => ({
+      approverUserId: row.approver_user_id as string,
+      decision: row.decision as ApprovalDecision,
+      feedback: (row.feedback as string | null) ?? null,
+      createdAt: row.created_at as string,
+    }));
+}
+
+/**
+ * One-line tally for project updates and the UI, e.g. "2 of 3 approvals, 1 rejection".
+ */
+export function formatQuorumTally(evaluation: QuorumEvaluation): string {
+  return `${evaluation.approvals} of ${evaluation.required} approval${evaluation.required === 1 ? '' : 's'}` +
+    (evaluation.rejections > 0 ? `, ${evaluation.rejections} rejection${evaluation.rejections === 1 ? '' : 's'}` : '');
+}
+
+export interface ApprovalVoteRecord {
+  id: string;
+  approver_user_id: string;
+  approver_name: string | null;
+  decision: ApprovalDecision;
+  feedback: string | null;
+  created_at: string;
+}
+
+/**
+ * Attach per-approver votes and the quorum summary to pending approvals
+ * (my-approvals rows carry active_step_id and the snapshot node as
+ * workflow_nodes). When votedByUserId is given, multi-approver steps that user
+ * has already voted on are dropped - they're no longer waiting on them.
+ */
+export async function attachApprovalVotes(
+  supabase: any,
+  approvals: Record<string, unknown>[],
+  votedByUserId?: string
+): Promise<Record<string, unknown>[]> {
+  const stepIds = approvals.map((a) => a.active_step_id).filter(isString);
+  if (stepIds.length === 0) return approvals;
+
+  const { data, error } = await supabase
+    .from('workflow_approvals')
+    .select('id, active_step_id, approver_user_id, decision, feedback, created_at, approver:user_profiles!workflow_approvals_approver_user_id_fkey(name)')
+    .in('active_step_id', stepIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading approval votes for pending approvals:', error);
+    return approvals;
+  }
+
+  const votesByStep = new Map<string, ApprovalVoteRecord[]>();
+  for (const row of data || []) {
+    const approver = Array.isArray(row.approver) ? row.approver[0] : row.approver;
+    const list = votesByStep.get(row.active_step_id) || [];
+    list.push({
+      id: row.id,
+      approver_user_id: row.approver_user_id,
+      approver_name: isRecord(approver) && isString(approver.name) ? approver.name : null,
+      decision: row.decision,
+      feedback: row.feedback ?? null,
+      created_at: row.created_at,
+    });
+    votesByStep.set(row.active_step_id, list);
+  }
+
+  const result: Record<string, unknown>[] = [];
+  for (const approval of approvals) {
+    const node = isRecord(approval.workflow_nodes) ? approval.workflow_nodes : null;
+    const settings = node ? getApprovalQuorumSettings(node) : null;
+    if (!settings || settings.mode === 'single') {
+      result.push(approval);
+      continue;
+    }
+
+    const votes = votesByStep.get(approval.active_step_id as string) || [];
+    if (votedByUserId && votes.some((v) => v.approver_user_id === votedByUserId)) continue;
+
+    result.push({
+      ...approval,
+      approval_votes: votes,
+      quorum: {
+        mode: settings.mode,
+        required_approvals: settings.mode === 'n_of_m' ? settings.requiredApprovals : null,
+        reject_on_any_rejection: settings.rejectOnAnyRejection,
+        approvals: votes.filter((v) => v.decision === 'approved').length,
+        rejections: votes.filter((v) => v.decision === 'rejected').length,
+      },
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,283 @@
+/**
+ * Workflow Attachment Service
+ * Upload pipeline for form file fields and step attachments: size/type limits
+ * from config.uploads, the virus-scan hook, storage through the configured
+ * backend and the workflow_attachments metadata row.
+ *
+ * Access is enforced by the workflow_attachments RLS policies
+ * (user_can_view_workflow), so every function takes the acting user's client -
+ * a file is only read from storage once its row was visible to them.
+ */
+
+import { randomUUID } from 'crypto';
+import { config } from './config';
+import { getFileStorage, getFileStorageFor } from './file-storage';
+import { formatFileSize, WorkflowAttachment } from './workflow-attachments';
+
+export interface AttachmentUploadInput {
+  workflowInstanceId: string;
+  nodeId: string | null;
+  fieldId: string | null;
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+  uploadedBy: string;
+}
+
+export interface AttachmentUploadResult {
+  success: boolean;
+  attachment?: WorkflowAttachment;
+  error?: string;
+  // The file itself was refused (limits or virus scan) rather than a server failure
+  rejected?: boolean;
+}
+
+type ScanResult = { status: 'clean' | 'skipped' } | { status: 'infected' | 'error'; error: string };
+
+const ATTACHMENT_COLUMNS = 'id, workflow_instance_id, node_id, field_id, file_name, mime_type, size_bytes, scan_status, uploaded_by, submitted_at, created_at';
+
+/**
+ * Check a file against the configured size and type limits
+ */
+export function getUploadValidationError(file: { name: string; size: number; type: string }): string | null {
+  if (!file.name.trim()) return 'File name is required';
+  if (file.size === 0) return 'File is empty';
+  if (file.size > config.uploads.maxFileSizeBytes) {
+    return `${file.name} is larger than the ${formatFileSize(config.uploads.maxFileSizeBytes)} limit`;
+  }
+  if (!config.uploads.allowedMimeTypes.includes(file.type)) {
+    return `${file.name}: files of type ${file.type || 'unknown'} are not allowed`;
+  }
+  return null;
+}
+
+/**
+ * Run the virus-scan hook. With no scanner configured files are stored as
+ * 'skipped'; with one configured a file is only accepted on an explicit
+ * { clean: true }, so scanner outages fail closed.
+ */
+async function scanUpload(data: Buffer, fileName: string): Promise<ScanResult> {
+  if (!config.uploads.virusScanUrl) return { status: 'skipped' };
+
+  try {
+    const response = await fetch(config.uploads.virusScanUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-File-Name': encodeURIComponent(fileName),
+      },
+      body: new Uint8Array(data),
+      signal: AbortSignal.timeout(30000),
+    });
+
+    if (!response.ok) {
+      return { status: 'error', error: `Virus scanner returned ${response.status}` };
+    }
+
+    const result = await response.json();
+    return result?.clean === true
+      ? { status: 'clean' }
+      : { status: 'infected', error: result?.reason || 'File failed the virus scan' };
+  } catch (error: unknown) {
+    console.error('Virus scan failed:', error);
+    return { status: 'error', error: 'Virus scanner unavailable' };
+  }
+}
+
+/**
+ * Keep storage paths to a safe character set; the original name is kept in
+ * the metadata row.
+ */
+function toStorageFileName(fileName: string): string {
+  const safe = fileName.replace(/[^a-zA-Z0-9._-]+/g, '_').replace(/^\.+/, '');
+  return safe.slice(-100) || 'file';
+}
+
+/**
+ * Whether a stored path sits under the workflow instance's folder, as every
+ * path written by uploadWorkflowAttachment does
+ */
+function isInstanceStoragePath(workflowInstanceId: string, storagePath: unknown): boolean {
+  return typeof storagePath === 'string'
+    && storagePath.startsWith(`${workflowInstanceId}/`)
+    && !storagePath.split('/').includes('..');
+}
+
+/**
+ * Validate, scan and store an uploaded file, then record it as a draft
+ * attachment of the uploader (submitted_at is set when the step is submitted).
+ */
+export async function uploadWorkflowAttachment(
+  supabase: any,
+  input: AttachmentUploadInput
+): Promise<AttachmentUploadResult> {
+  const validationError = getUploadValidationError({
+    name: input.fileName,
+    size: input.data.length,
+    type: input.mimeType,
+  });
+  if (validationError) return { success: false, error: validationError, rejected: true };
+
+  // The row's RLS would refuse the insert too, but check before storing anything
+  const { data: instance } = await supabase
+    .from('workflow_instances')
+    .select('id')
+    .eq('id', input.workflowInstanceId)
+    .maybeSingle();
+
+  if (!instance) return { success: false, error: 'Workflow instance not found' };
+
+  const scan = await scanUpload(input.data, input.fileName);
+  if (scan.status === 'infected') return { success: false, error: scan.error, rejected: true };
+  if (scan.status === 'error') return { success: false, error: scan.error };
+
+  const storage = getFileStorage();
+  const storagePath = `${input.workflowInstanceId}/${randomUUID()}/${toStorageFileName(input.fileName)}`;
+
+  try {
+    await storage.put(storagePath, input.data, input.mimeType);
+  } catch (error: unknown) {
+    console.error('Error storing workflow attachment:', error);
+    return { success: false, error: 'Failed to store file' };
+  }
+
+  const { data: attachment, error } = await supabase
+    .from('workflow_attachments')
+    .insert({
+      workflow_instance_id: input.workflowInstanceId,
+      node_id: input.nodeId,
+      field_id: input.fieldId,
+      file_name: input.fileName,
+      mime_type: input.mimeType,
+      size_bytes: input.data.length,
+      storage_backend: storage.name,
+      storage_path: storagePath,
+      scan_status: scan.status,
+      uploaded_by: input.uploadedBy,
+    })
+    .select(ATTACHMENT_COLUMNS)
+    .single();
+
+  if (error || !attachment) {
+    console.error('Error recording workflow attachment:', error);
+    await storage.remove(storagePath);
+    return { success: false, error: 'Failed to save attachment' };
+  }
+
+  return { success: true, attachment };
+}
+
+/**
+ * Load an attachment and its bytes, or null if the user can't see it
+ */
+export async function getWorkflowAttachmentContent(
+  supabase: any,
+  attachmentId: string
+): Promise<{ attachment: WorkflowAttachment; data: Buffer } | null> {
+  const { data: row, error } = await supabase
+    .from('workflow_attachments')
+    .select(`${ATTACHMENT_COLUMNS}, storage_backend, storage_path`)
+    .eq('id', attachmentId)
+    .maybeSingle();
+
+  if (error || !row) return null;
+
+  // Files are read with the service role, so only ever follow a path inside this
+  // workflow's own folder - never one a client wrote into the row
+  if (!isInstanceStoragePath(row.workflow_instance_id, row.storage_path)) {
+    console.error('Workflow attachment has a storage path outside its workflow:', { attachmentId });
+    return null;
+  }
+
+  const storage = getFileStorageFor(row.storage_backend);
+  const data = storage ? await storage.get(row.storage_path) : null;
+  if (!data) {
+    console.error('Workflow attachment missing from storage:', { attachmentId, backend: row.storage_backend });
+    return null;
+  }
+
+  const { storage_backend: _backend, storage_path: _path, ...attachment } = row;
+  return { attachment, data };
+}
+
+/**
+ * Remove a draft upload (one that hasn't been submitted with its step yet)
+ */
+export async function deleteWorkflowAttachment(
+  supabase: any,
+  attachmentId: string
+): Promise<{ success: boolean; error?: string }> {
+  const { data: row } = await supabase
+    .from('workflow_attachments')
+    .select('id, storage_backend, storage_path, submitted_at')
+    .eq('id', attachmentId)
+    .maybeSingle();
+
+  if (!row) return { success: false, error: 'Attachment not found' };
+  if (row.submitted_at) return { success: false, error: 'Submitted attachments cannot be removed' };
+
+  // RLS only lets the uploader delete their own drafts
+  const { data: deleted, error } = await supabase
+    .from('workflow_attachments')
+    .delete()
+    .eq('id', attachmentId)
+    .select('id');
+
+  if (error || !deleted || deleted.length === 0) {
+    return { success: false, error: 'Failed to remove attachment' };
+  }
+
+  await getFileStorageFor(row.storage_backend)?.remove(row.storage_path);
+  return { success: true };
+}
+
+/**
+ * Check that every attachment submitted with a step was uploaded by this user
+ * to this workflow and isn't already attached to an earlier submission.
+ */
+export async function getSubmittedAttachmentsError(
+  supabase: any,
+  workflowInstanceId: string,
+  attachmentIds: string[],
+  userId: string
+): Promise<string | null> {
+  if (attachmentIds.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from('workflow_attachments')
+    .select('id')
+    .in('id', attachmentIds)
+    .eq('workflow_instance_id', workflowInstanceId)
+    .eq('uploaded_by', userId)
+    .is('submitted_at', null);
+
+  if (error) {
+    console.error('Error checking workflow attachments:', error);
+    return 'Failed to check attachments';
+  }
+
+  const found = new Set((data || []).map((row: { id: string }) => row.id));
+  return attachmentIds.every((id) => found.has(id))
+    ? null
+    : 'One or more attachments are missing or were already submitted - please upload them again';
+}
+
+/**
+ * Publish draft uploads once their step has been submitted
+ */
+export async function markWorkflowAttachmentsSubmitted(
+  supabase: any,
+  attachmentIds: string[]
+): Promise<void> {
+  if (attachmentIds.length === 0) return;
+
+  // Users can't update attachment rows directly; the function only sets submitted_at
+  // on the caller's own drafts
+  const { error } = await supabase.rpc('mark_workflow_attachments_submitted', {
+    p_attachment_ids: attachmentIds,
+  });
+
+  if (error) {
+    console.error('Error marking workflow attachments submitted:', error);
+  }
+}
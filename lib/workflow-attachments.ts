@@ -0,0 +1,76 @@
+/**
+ * Workflow Attachments
+ * Files uploaded to form "file" fields and to steps on nodes with
+ * allow_attachments. The bytes live in the storage backend (see
+ * workflow-attachment-service); forms and steps only hold references -
+ * a form's file field value is a list of WorkflowAttachmentRef.
+ *
+ * Shared by the API routes and the client, so nothing here touches storage.
+ */
+
+import { isString, isRecord } from '@/lib/type-guards';
+
+export interface WorkflowAttachmentRef {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+}
+
+export interface WorkflowAttachment {
+  id: string;
+  workflow_instance_id: string;
+  node_id: string | null;
+  field_id: string | null;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  scan_status: 'clean' | 'skipped';
+  uploaded_by: string | null;
+  submitted_at: string | null;
+  created_at: string;
+}
+
+export function isWorkflowAttachmentRef(value: unknown): value is WorkflowAttachmentRef {
+  return isRecord(value) && isString(value.id) && isString(value.name);
+}
+
+/**
+ * Attachment references held in a form value (non-file values give [])
+ */
+export function getWorkflowAttachmentRefs(value: unknown): WorkflowAttachmentRef[] {
+  return Array.isArray(value) ? value.filter(isWorkflowAttachmentRef) : [];
+}
+
+/**
+ * Every attachment id referenced by a form's file fields
+ */
+export function getAttachmentIdsFromFormData(
+  fields: { id: string; type: string }[] | null | undefined,
+  responses: Record<string, unknown> | null | undefined
+): string[] {
+  if (!fields || !responses) return [];
+
+  return fields
+    .filter((field) => field.type === 'file')
+    .flatMap((field) => getWorkflowAttachmentRefs(responses[field.id]).map((ref) => ref.id));
+}
+
+export function toWorkflowAttachmentRef(attachment: Pick<WorkflowAttachment, 'id' | 'file_name' | 'size_bytes' | 'mime_type'>): WorkflowAttachmentRef {
+  return {
+    id: attachment.id,
+    name: attachment.file_name,
+    size: attachment.size_bytes,
+    type: attachment.mime_type,
+  };
+}
+
+export function getAttachmentDownloadUrl(attachmentId: string): string {
+  return `/api/workflows/attachments/${attachmentId}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,252 @@
+/**
+ * Workflow Editor Mapping
+ * Converts between workflow_nodes / workflow_connections rows and the React Flow
+ * nodes/edges used by the workflow editor.
+ *
+ * Shared by the editor page (rows -> editor), the save route (editor -> rows)
+ * and template import/export so the three stay in sync.
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import type { WorkflowNodeData } from '@/components/workflow-editor/workflow-node';
+import { readNodeRequiredSkills } from '@/lib/skills';
+
+interface NamedEntity {
+  id: string;
+  name: string;
+}
+
+export interface EditorMappingLookups {
+  departments?: NamedEntity[];
+  roles?: NamedEntity[];
+}
+
+/**
+ * Convert a workflow_nodes row into a React Flow node for the editor
+ */
+export function workflowNodeRowToEditorNode(
+  node: Record<string, any>,
+  lookups: EditorMappingLookups = {}
+): Node<WorkflowNodeData> {
+  const config: Record<string, unknown> = {};
+  const settings = node.settings as Record<string, unknown> | undefined;
+  const departments = lookups.departments || [];
+  const roles = lookups.roles || [];
+
+  // Handle department nodes
+  if (settings?.department_id) {
+    config.departmentId = settings.department_id;
+    config.departmentName = departments.find((d) => d.id === settings.department_id)?.name;
+  }
+
+  // Handle role and approval nodes with entity_id
+  if (node.entity_id) {
+    if (node.node_type === 'role') {
+      config.roleId = node.entity_id;
+      config.roleName = roles.find((r) => r.id === node.entity_id)?.name;
+      config.requiredSkills = readNodeRequiredSkills(settings);
+    } else if (node.node_type === 'approval') {
+      config.approverRoleId = node.entity_id;
+      config.approverRoleName = roles.find((r) => r.id === node.entity_id)?.name;
+      config.requiredApprovals = settings?.required_approvals || 1;
+      config.approvalQuorumMode = settings?.approval_quorum_mode || 'single';
+      config.rejectOnAnyRejection = settings?.reject_on_any_rejection !== undefined ? settings.reject_on_any_rejection : true;
+      config.allowFeedback = settings?.allow_feedback !== undefined ? settings.allow_feedback : true;
+      config.allowSendBack = settings?.allow_send_back !== undefined ? settings.allow_send_back : true;
+    }
+  }
+
+  // Handle SLA / escalation on role and approval nodes
+  if ((node.node_type === 'role' || node.node_type === 'approval') && settings?.sla_hours) {
+    config.slaHours = settings.sla_hours;
+    config.slaHourType = settings.sla_hour_type || 'business';
+    config.escalationTarget = settings.escalation_target || 'reporting_role';
+    config.escalationUserId = settings.escalation_user_id;
+    config.escalationUserName = settings.escalation_user_name;
+  }
+
+  // Handle timer nodes
+  if (node.node_type === 'timer') {
+    config.timerMode = settings?.timer_mode || 'duration';
+    config.timerDuration = settings?.timer_duration;
+    config.timerUnit = settings?.timer_unit || 'business_days';
+    config.timerDateSource = settings?.timer_date_source || 'project';
+    config.timerDateField = settings?.timer_date_field;
+    config.timerDateFieldLabel = settings?.timer_date_field_label;
+  }
+
+  // Handle action nodes
+  if (node.node_type === 'action') {
+    config.actions = settings?.actions || [];
+  }
+
+  // Handle sub-workflow nodes
+  if (node.node_type === 'subworkflow') {
+    config.subworkflowTemplateId = settings?.subworkflow_template_id;
+    config.subworkflowTemplateName = settings?.subworkflow_template_name;
+    config.subworkflowPassDataDown = settings?.subworkflow_pass_data_down !== undefined ? settings.subworkflow_pass_data_down : true;
+    config.subworkflowPassDataUp = settings?.subworkflow_pass_data_up !== undefined ? settings.subworkflow_pass_data_up : true;
+  }
+
+  // Handle join (sync) nodes
+  if (node.node_type === 'sync') {
+    config.joinPolicy = settings?.join_policy || 'all';
+    config.joinRequiredBranches = settings?.join_required_branches;
+  }
+
+  // Handle form nodes
+  if (node.node_type === 'form') {
+    config.formTemplateId = node.form_template_id;
+    config.formTemplateName = 'Form Template'; // TODO: Load from form_templates
+    config.allowAttachments = settings?.allow_attachments || false;
+    config.formFields = settings?.formFields || [];
+    config.formName = settings?.formName || '';
+    config.formDescription = settings?.formDescription || '';
+    config.isDraftForm = settings?.isDraftForm || false;
+  }
+
+  // Handle conditional nodes
+  if (node.node_type === 'conditional') {
+    config.conditionType = settings?.condition_type || 'form_value';
+    config.conditions = settings?.conditions || [];
+    // Critical: Load sourceFormFieldId for form-based conditional routing
+    config.sourceFormFieldId = settings?.sourceFormFieldId;
+    config.sourceFormNodeId = settings?.sourceFormNodeId;
+  }
+
+  return {
+    id: node.id,
+    type: 'workflowNode',
+    position: { x: node.position_x || 0, y: node.position_y || 0 },
+    data: {
+      label: node.label,
+      type: node.node_type,
+      config: Object.keys(config).length > 0 ? config : undefined,
+    },
+  };
+}
+
+/**
+ * Convert a workflow_connections row into a React Flow edge for the editor
+ */
+export function workflowConnectionRowToEditorEdge(conn: Record<string, any>): Edge {
+  const edge: Edge = {
+    // Use the connection's actual UUID if available, otherwise create a composite ID
+    id: (conn.id as string) || `${conn.from_node_id as string}-${conn.to_node_id as string}`,
+    source: conn.from_node_id as string,
+    target: conn.to_node_id as string,
+    type: 'labeled', // Use labeled for all edges for consistent styling
+    // Restore sourceHandle for conditional branch edges
+    sourceHandle: (conn.condition as Record<string, unknown> | undefined)?.sourceHandle as string | undefined || undefined,
+  };
+
+  // Add condition data if present (for decision-based routing)
+  if (conn.condition) {
+    const condition = conn.condition as Record<string, unknown>;
+    edge.data = {
+      label: condition.label,
+      conditionValue: condition.conditionValue,
+      conditionType: condition.conditionType,
+      decision: condition.decision,  // For approval node routing
+      // Critical: Load form-based conditional routing fields
+      sourceFormFieldId: condition.sourceFormFieldId,
+      value: condition.value,
+      value2: condition.value2,
+    };
+  }
+
+  return edge;
+}
+
+/**
+ * Convert an editor node into a workflow_nodes row for insert
+ */
+export function editorNodeToWorkflowNodeRow(
+  node: Record<string, unknown>,
+  templateId: string,
+  index: number
+): Record<string, unknown> {
+  const data = node.data as Record<string, unknown>;
+  const position = node.position as Record<string, unknown>;
+  const config = data.config as Record<string, unknown> | undefined;
+  const requiredSkills = Array.isArray(config?.requiredSkills)
+    ? (config?.requiredSkills as Array<Record<string, unknown>>)
+    : [];
+
+  return {
+    id: node.id,
+    workflow_template_id: templateId,
+    node_type: data.type,
+    label: data.label,
+    position_x: position.x,
+    position_y: position.y,
+    step_order: index,
+    entity_id: config?.roleId || config?.approverRoleId || null,
+    form_template_id: config?.formTemplateId || null,
+    settings: {
+      department_id: config?.departmentId,
+      required_approvals: config?.requiredApprovals,
+      approval_quorum_mode: config?.approvalQuorumMode,
+      reject_on_any_rejection: config?.rejectOnAnyRejection,
+      allow_feedback: config?.allowFeedback,
+      allow_send_back: config?.allowSendBack,
+      allow_attachments: config?.allowAttachments,
+      formFields: config?.formFields,
+      formName: config?.formName,
+      formDescription: config?.formDescription,
+      isDraftForm: config?.isDraftForm,
+      condition_type: config?.conditionType,
+      conditions: config?.conditions,
+      sourceFormFieldId: config?.sourceFormFieldId,
+      sla_hours: config?.slaHours,
+      sla_hour_type: config?.slaHourType,
+      escalation_target: config?.escalationTarget,
+      escalation_user_id: config?.escalationUserId,
+      escalation_user_name: config?.escalationUserName,
+      timer_mode: config?.timerMode,
+      timer_duration: config?.timerDuration,
+      timer_unit: config?.timerUnit,
+      timer_date_source: config?.timerDateSource,
+      timer_date_field: config?.timerDateField,
+      timer_date_field_label: config?.timerDateFieldLabel,
+      actions: config?.actions,
+      subworkflow_template_id: config?.subworkflowTemplateId,
+      subworkflow_template_name: config?.subworkflowTemplateName,
+      subworkflow_pass_data_down: config?.subworkflowPassDataDown,
+      subworkflow_pass_data_up: config?.subworkflowPassDataUp,
+      join_policy: config?.joinPolicy,
+      join_required_branches: config?.joinRequiredBranches,
+      required_skills: requiredSkills.length > 0
+        ? requiredSkills.map((r) => ({ skill_id: r.skillId, min_proficiency: r.minProficiency }))
+        : undefined,
+    },
+  };
+}
+
+/**
+ * Convert an editor edge into a workflow_connections row for insert
+ */
+export function editorEdgeToWorkflowConnectionRow(
+  edge: Record<string, any>,
+  templateId: string
+): Record<string, unknown> {
+  const data = edge.data as Record<string, unknown> | undefined;
+
+  return {
+    workflow_template_id: templateId,
+    from_node_id: edge.source,
+    to_node_id: edge.target,
+    condition: data || edge.sourceHandle ? {
+      label: data?.label,
+      conditionValue: data?.conditionValue,
+      conditionType: data?.conditionType,
+      decision: data?.decision,
+      // Critical fields for form-based conditional routing
+      sourceFormFieldId: data?.sourceFormFieldId,
+      value: data?.value,
+      value2: data?.value2,
+      // Store sourceHandle for conditional branch edges
+      sourceHandle: edge.sourceHandle,
+    } : null,
+  };
+}
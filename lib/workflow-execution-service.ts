@@ -6,21 +6,34 @@
  * to maintain authentication context from API routes
  */
 
-
-
-// Type guard helpers
-function isString(value: unknown): value is string {
-  return typeof value === 'string';
-}
-
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
-}
+import { getVersionForNewInstance } from './workflow-version-service';
+import { getNodeTimerSettings, computeTimerResumeAt } from './workflow-timer-service';
+import { executeWorkflowActions, WorkflowActionResult } from './workflow-action-service';
+import {
+  getApprovalQuorumSettings,
+  isQuorumApproval,
+  evaluateApprovalQuorum,
+  getEligibleApproverIds,
+  getStepApprovalVotes,
+  formatQuorumTally,
+  attachApprovalVotes,
+  QuorumEvaluation,
+  QuorumStatus,
+} from './workflow-approval-quorum';
+import { allowsSendBack, getSendBackTargets, SendBackNotes } from './workflow-send-back';
+import { launchReachedSubworkflows, resumeParentWorkflow, WorkflowFormData } from './workflow-subworkflow-service';
+import { getJoinPolicySettings, evaluateJoin, formatJoinPolicy, JoinEvaluation } from './workflow-join-policy';
+import { matchesFormCondition } from './form-logic';
+import { isString, isRecord } from './type-guards';
+
+// Nodes that run as soon as they're reached instead of waiting for someone:
+// action nodes execute their actions, fork nodes start their parallel branches
+const AUTOMATIC_NODE_TYPES: unknown[] = ['action', 'fork'];
 
 export interface WorkflowNode {
   id: string;
   workflow_template_id: string;
-  node_type: 'start' | 'department' | 'role' | 'approval' | 'form' | 'conditional' | 'sync' | 'end';
+  node_type: 'start' | 'department' | 'role' | 'approval' | 'form' | 'conditional' | 'fork' | 'sync' | 'timer' | 'action' | 'subworkflow' | 'end';
   entity_id: string | null;
   label: string;
   settings: Record<string, unknown>;
@@ -32,12 +45,13 @@ export interface WorkflowActiveStep {
   workflow_instance_id: string;
   node_id: string;
   branch_id: string;
-  status: 'active' | 'completed' | 'waiting';
+  status: 'active' | 'completed' | 'waiting' | 'cancelled';
   assigned_user_id: string | null;
   activated_at: string;
   completed_at: string | null;
   created_at: string;
   aggregate_decision?: 'all_approved' | 'any_rejected' | 'no_approvals' | null;
+  timer_resume_at?: string | null;
 }
 
 export interface WorkflowConnection {
@@ -50,6 +64,7 @@ export interface WorkflowConnection {
 export interface WorkflowInstance {
   id: string;
   workflow_template_id: string;
+  workflow_template_version_id?: string | null;
   project_id: string | null;
   task_id: string | null;
   current_node_id: string | null;
@@ -78,30 +93,39 @@ export interface WorkflowInstance {
  */
 async function captureWorkflowSnapshot(
   supabase: any,
-  workflowTemplateId: string,
+  instance: Record<string, unknown>,
   workflowInstanceId: string
 ): Promise<{ nodes: Record<string, unknown>[]; connections: Record<string, unknown>[]; history?: Record<string, unknown>[]; nodeAssignments?: Record<string, { userId: string; userName: string }> } | null> {
   try {
-    // Get all nodes for this workflow template
-    const { data: nodes, error: nodesError } = await supabase
-      .from('workflow_nodes')
-      .select('*')
-      .eq('workflow_template_id', workflowTemplateId);
+    // The instance's nodes/connections come from the version it ran on (started_snapshot),
+    // not the template draft, which may have been edited since the instance started
+    const startedSnapshot = isRecord(instance.started_snapshot) ? instance.started_snapshot : null;
+    let nodes = Array.isArray(startedSnapshot?.nodes) ? startedSnapshot.nodes as Record<string, unknown>[] : null;
+    let connections = Array.isArray(startedSnapshot?.connections) ? startedSnapshot.connections as Record<string, unknown>[] : null;
+
+    // Legacy instances without a snapshot fall back to the template's current nodes
+    if (!nodes) {
+      const { data: templateNodes, error: nodesError } = await supabase
+        .from('workflow_nodes')
+        .select('*')
+        .eq('workflow_template_id', instance.workflow_template_id);
 
-    if (nodesError || !nodes) {
-      console.error('Error capturing workflow nodes snapshot:', nodesError);
-      return null;
-    }
+      if (nodesError || !templateNodes) {
+        console.error('Error capturing workflow nodes snapshot:', nodesError);
+        return null;
+      }
+      nodes = templateNodes;
 
-    // Get all connections for this workflow template
-    const { data: connections, error: connectionsError } = await supabase
-      .from('workflow_connections')
-      .select('*')
-      .eq('workflow_template_id', workflowTemplateId);
+      const { data: templateConnections, error: connectionsError } = await supabase
+        .from('workflow_connections')
+        .select('*')
+        .eq('workflow_template_id', instance.workflow_template_id);
 
-    if (connectionsError) {
-      console.error('Error capturing workflow connections snapshot:', connectionsError);
-      return null;
+      if (connectionsError) {
+        console.error('Error capturing workflow connections snapshot:', connectionsError);
+        return null;
+      }
+      connections = templateConnections;
     }
 
     // Get workflow history for this instance to capture user assignments
@@ -152,7 +176,7 @@ async function captureWorkflowSnapshot(
     }
 
     return {
-      nodes,
+      nodes: nodes || [],
       connections: connections || [],
       history: history || [],
       nodeAssignments
@@ -165,12 +189,15 @@ async function captureWorkflowSnapshot(
 
 /**
  * Start a new workflow instance for a project
+ * When `parent` is given the instance runs as a sub-workflow of that step and
+ * doesn't replace the project's main workflow.
  */
 export async function startWorkflowForProject(
   supabase: any,
   projectId: string,
   workflowTemplateId: string,
-  startedBy: string
+  startedBy: string,
+  parent?: { instanceId: string; activeStepId: string; inputData?: WorkflowFormData }
 ): Promise<{ success: boolean; workflowInstanceId?: string; error?: string }> {
   if (!supabase) {
     return { success: false, error: 'Database connection failed' };
@@ -203,25 +230,29 @@ export async function startWorkflowForProject(
       };
     }
 
-    // Get workflow nodes and find the start node
-    const { data: nodes, error: nodesError } = await supabase
-      .from('workflow_nodes')
-      .select('*')
-      .eq('workflow_template_id', workflowTemplateId)
-      .order('position_y');
+    // New instances run on the template's current published version, never the editable draft
+    const { version, error: versionError } = await getVersionForNewInstance(supabase, workflowTemplateId, startedBy);
+
+    if (!version) {
+      console.error('No published version for workflow template:', workflowTemplateId, versionError);
+      return {
+        success: false,
+        error: versionError || `Workflow "${template.name}" has no published version. Please publish it in the workflow editor.`
+      };
+    }
 
-    console.log('Workflow nodes query result:', {
+    const nodes = [...(version.nodes || [])].sort(
+      (a: any, b: any) => (Number(a.position_y) || 0) - (Number(b.position_y) || 0)
+    );
+    const connections = version.connections || [];
+
+    console.log('Workflow version loaded:', {
       templateId: workflowTemplateId,
-      nodesCount: nodes?.length || 0,
-      error: nodesError?.message || null
+      versionNumber: version.version_number,
+      nodesCount: nodes.length
     });
 
-    if (nodesError) {
-      console.error('Error loading workflow nodes:', nodesError);
-      return { success: false, error: `Failed to load workflow nodes: ${nodesError.message}` };
-    }
-
-    if (!nodes || nodes.length === 0) {
+    if (nodes.length === 0) {
       console.error('No workflow nodes found for template:', workflowTemplateId);
       return {
         success: false,
@@ -230,22 +261,18 @@ export async function startWorkflowForProject(
     }
 
     // Find start node or first node
-    const startNode = nodes.find((n: any) => n.node_type === 'start') || nodes[0];
-
-    // Get connections to find next node after start
-    const { data: connections } = await supabase
-      .from('workflow_connections')
-      .select('*')
-      .eq('workflow_template_id', workflowTemplateId);
+    const startNode: any = nodes.find((n: any) => n.node_type === 'start') || nodes[0];
 
     const nextNode = findNextNode(startNode.id, connections, nodes);
 
-    // Create workflow snapshot - this preserves the workflow state at the time the project starts
-    // Any future changes to the workflow template will NOT affect this project
+    // Create workflow snapshot from the pinned version - this preserves the workflow state at the time the project starts
+    // Any future changes to the workflow template will NOT affect this project until an admin migrates it
     const startedSnapshot = {
       nodes: nodes,
-      connections: connections || [],
+      connections: connections,
       template_name: template.name,
+      version_id: version.id,
+      version_number: version.version_number,
       captured_at: new Date().toISOString()
     };
 
@@ -254,10 +281,13 @@ export async function startWorkflowForProject(
       .from('workflow_instances')
       .insert({
         workflow_template_id: workflowTemplateId,
+        workflow_template_version_id: version.id,
         project_id: projectId,
         current_node_id: nextNode?.id || startNode.id,
         status: 'active',
         started_snapshot: startedSnapshot, // Store snapshot for independent execution
+        parent_instance_id: parent?.instanceId ?? null,
+        parent_active_step_id: parent?.activeStepId ?? null,
       })
       .select()
       .single();
@@ -270,21 +300,23 @@ export async function startWorkflowForProject(
       };
     }
 
-    // Update project with workflow instance
-    const { error: projectUpdateError } = await supabase
-      .from('projects')
-      .update({ workflow_instance_id: instance.id })
-      .eq('id', projectId);
-
-    if (projectUpdateError) {
-      console.error('Failed to link workflow to project:', projectUpdateError);
-      // Don't fail the whole operation - workflow instance was created successfully
-      // The link can be established via workflow_instances.project_id
-    } else {
-      console.log('Successfully linked workflow instance to project:', {
-        projectId,
-        workflowInstanceId: instance.id
-      });
+    // Update project with workflow instance (sub-workflows stay linked through their parent)
+    if (!parent) {
+      const { error: projectUpdateError } = await supabase
+        .from('projects')
+        .update({ workflow_instance_id: instance.id })
+        .eq('id', projectId);
+
+      if (projectUpdateError) {
+        console.error('Failed to link workflow to project:', projectUpdateError);
+        // Don't fail the whole operation - workflow instance was created successfully
+        // The link can be established via workflow_instances.project_id
+      } else {
+        console.log('Successfully linked workflow instance to project:', {
+          projectId,
+          workflowInstanceId: instance.id
+        });
+      }
     }
 
     // Create initial workflow history entry
@@ -293,23 +325,52 @@ export async function startWorkflowForProject(
       from_node_id: startNode.id,
       to_node_id: nextNode?.id || startNode.id,
       handed_off_by: startedBy,
-      notes: 'Workflow started',
+      // Form answers passed down from a parent workflow are recorded like an inline form submission
+      notes: parent?.inputData && Object.keys(parent.inputData.responses).length > 0
+        ? JSON.stringify({
+            type: 'inline_form',
+            data: { formName: 'From parent workflow', fields: parent.inputData.fields, responses: parent.inputData.responses }
+          })
+        : 'Workflow started',
       branch_id: 'main'
     });
 
     // Create initial active step for parallel workflow tracking
     if (nextNode) {
-      await supabase.from('workflow_active_steps').insert({
-        workflow_instance_id: instance.id,
-        node_id: nextNode.id,
-        branch_id: 'main',
-        status: 'active',
-        assigned_user_id: null // Will be assigned based on node type
-      });
+      const timerSettings = getNodeTimerSettings(nextNode);
+      const timerResumeAt = timerSettings
+        ? await computeTimerResumeAt(supabase, timerSettings, {
+            workflowInstanceId: instance.id,
+            projectId,
+            activatedAt: new Date(),
+          })
+        : null;
+
+      const { data: firstStep } = await supabase
+        .from('workflow_active_steps')
+        .insert({
+          workflow_instance_id: instance.id,
+          node_id: nextNode.id,
+          branch_id: 'main',
+          status: 'active',
+          assigned_user_id: null, // Will be assigned based on node type
+          timer_resume_at: timerResumeAt?.toISOString() ?? null
+        })
+        .select()
+        .single();
+
+      // Workflows that open with an action or fork node run it straight away
+      if (firstStep && AUTOMATIC_NODE_TYPES.includes(nextNode.node_type)) {
+        await runReachedAutomaticSteps(supabase, instance.id, [firstStep], nodes, startedBy, 0);
+      }
+
+      if (firstStep && nextNode.node_type === 'subworkflow') {
+        await launchReachedSubworkflows(supabase, instance, [firstStep], nodes, startedBy);
+      }
     }
 
     // Assign project to appropriate user based on node type
-    if (nextNode) {
+    if (nextNode && !AUTOMATIC_NODE_TYPES.includes(nextNode.node_type)) {
       await assignProjectToNode(supabase, projectId, nextNode, startedBy);
     }
 
@@ -376,6 +437,45 @@ async function isUserSuperadmin(supabase: any, userId: string): Promise<boolean>
   return false;
 }
 
+/**
+ * The nodes and connections an instance runs on: its started_snapshot, else
+ * the published version it is pinned to. Only legacy instances from before
+ * versioning fall back to the template's editable draft.
+ */
+async function getInstanceGraph(
+  supabase: any,
+  instance: Record<string, unknown>
+): Promise<{ nodes: Record<string, unknown>[]; connections: Record<string, unknown>[] }> {
+  const snapshot = isRecord(instance.started_snapshot) ? instance.started_snapshot : null;
+  if (Array.isArray(snapshot?.nodes) && Array.isArray(snapshot?.connections)) {
+    return { nodes: snapshot.nodes, connections: snapshot.connections };
+  }
+
+  if (isString(instance.workflow_template_version_id)) {
+    const { data: version } = await supabase
+      .from('workflow_template_versions')
+      .select('nodes, connections')
+      .eq('id', instance.workflow_template_version_id)
+      .single();
+
+    if (version && Array.isArray(version.nodes) && Array.isArray(version.connections)) {
+      return { nodes: version.nodes, connections: version.connections };
+    }
+  }
+
+  const { data: liveNodes } = await supabase
+    .from('workflow_nodes')
+    .select('*')
+    .eq('workflow_template_id', instance.workflow_template_id);
+
+  const { data: liveConnections } = await supabase
+    .from('workflow_connections')
+    .select('*')
+    .eq('workflow_template_id', instance.workflow_template_id);
+
+  return { nodes: liveNodes || [], connections: liveConnections || [] };
+}
+
 /**
  * Progress workflow to next step
  */
@@ -405,32 +505,8 @@ export async function progressWorkflow(
       return { success: false, error: 'Workflow instance not found' };
     }
 
-    // Use snapshot data if available (for workflow independence from template changes)
-    // Fall back to querying live tables for backwards compatibility with older instances
-    let nodes: Record<string, unknown>[];
-    let connections: Record<string, unknown>[];
-
-    if (instance.started_snapshot?.nodes && instance.started_snapshot?.connections) {
-      // Use the snapshot - this ensures template changes don't affect in-progress workflows
-      nodes = instance.started_snapshot.nodes;
-      connections = instance.started_snapshot.connections;
-      console.log('[Workflow] Using snapshot data for instance:', workflowInstanceId);
-    } else {
-      // Fallback for older instances without snapshot - query live tables
-      console.log('[Workflow] No snapshot found, querying live tables for instance:', workflowInstanceId);
-      const { data: liveNodes } = await supabase
-        .from('workflow_nodes')
-        .select('*')
-        .eq('workflow_template_id', instance.workflow_template_id);
-
-      const { data: liveConnections } = await supabase
-        .from('workflow_connections')
-        .select('*')
-        .eq('workflow_template_id', instance.workflow_template_id);
-
-      nodes = liveNodes || [];
-      connections = liveConnections || [];
-    }
+    // Use the version the instance runs on, so template edits don't affect in-progress workflows
+    const { nodes, connections } = await getInstanceGraph(supabase, instance);
 
     const currentNode = nodes?.find((n: any) => n.id === instance.current_node_id);
     if (!currentNode) {
@@ -665,7 +741,7 @@ export async function progressWorkflow(
 /**
  * Find next node in workflow
  */
-function findNextNode(
+export function findNextNode(
   currentNodeId: string,
   connections: Record<string, unknown>[] | null,
   nodes: Record<string, unknown>[] | null
@@ -682,7 +758,7 @@ function findNextNode(
 /**
  * Find next node for conditional routing (legacy support)
  */
-function findConditionalNextNode(
+export function findConditionalNextNode(
   conditionalNode: Record<string, unknown>,
   decision: string | undefined,
   connections: Record<string, unknown>[] | null,
@@ -716,7 +792,7 @@ function findConditionalNextNode(
  * Find next node for approval nodes with decision-based routing
  * This is the new pattern where approval nodes directly have multiple outgoing edges
  */
-function findDecisionBasedNextNode(
+export function findDecisionBasedNextNode(
   approvalNode: Record<string, unknown>,
   decision: string,
   connections: Record<string, unknown>[] | null,
@@ -760,94 +836,73 @@ function findDecisionBasedNextNode(
 }
 
 /**
- * Evaluate a single form condition against submitted form data
- * Returns true if the condition is satisfied
+ * Find next node from a sync node based on the aggregate decision of its branches
+ * any_rejected follows the rejection edge, otherwise the approved edge; both fall
+ * back to an unlabeled default edge
  */
-function evaluateFormCondition(
-  condition: {
-    sourceFormFieldId?: string;
-    conditionType?: string;
-    value?: string;
-    value2?: string;
-  },
-  formData: Record<string, unknown>
-): boolean {
-  if (!condition.sourceFormFieldId || !condition.conditionType) {
-    return false;
-  }
-
-  const fieldValue = formData[condition.sourceFormFieldId];
-  const conditionValue = condition.value;
-  const conditionValue2 = condition.value2;
-
-  // Handle null/undefined field values
-  const fieldStr = fieldValue !== null && fieldValue !== undefined ? String(fieldValue) : '';
-  const conditionStr = conditionValue !== null && conditionValue !== undefined ? String(conditionValue) : '';
-
-  switch (condition.conditionType) {
-    // Text/String conditions
-    case 'equals':
-      return fieldStr.toLowerCase() === conditionStr.toLowerCase();
-
-    case 'contains':
-      return fieldStr.toLowerCase().includes(conditionStr.toLowerCase());
-
-    case 'starts_with':
-      return fieldStr.toLowerCase().startsWith(conditionStr.toLowerCase());
-
-    case 'ends_with':
-      return fieldStr.toLowerCase().endsWith(conditionStr.toLowerCase());
-
-    case 'is_empty':
-      return fieldValue === undefined || fieldValue === null || fieldValue === '' ||
-             (Array.isArray(fieldValue) && fieldValue.length === 0);
-
-    case 'is_not_empty':
-      return fieldValue !== undefined && fieldValue !== null && fieldValue !== '' &&
-             !(Array.isArray(fieldValue) && fieldValue.length === 0);
-
-    // Number conditions
-    case 'greater_than':
-      return Number(fieldValue) > Number(conditionValue);
-
-    case 'less_than':
-      return Number(fieldValue) < Number(conditionValue);
-
-    case 'greater_or_equal':
-      return Number(fieldValue) >= Number(conditionValue);
-
-    case 'less_or_equal':
-      return Number(fieldValue) <= Number(conditionValue);
-
-    case 'between':
-      const numVal = Number(fieldValue);
-      return numVal >= Number(conditionValue) && numVal <= Number(conditionValue2);
-
-    // Date conditions
-    case 'before':
-      return new Date(String(fieldValue)) < new Date(conditionValue!);
-
-    case 'after':
-      return new Date(String(fieldValue)) > new Date(conditionValue!);
+export function findSyncNextNode(
+  syncNode: Record<string, unknown>,
+  aggregateDecision: 'all_approved' | 'any_rejected' | 'no_approvals' | null | undefined,
+  connections: Record<string, unknown>[] | null,
+  nodes: Record<string, unknown>[] | null
+): Record<string, unknown> | null {
+  // Find outgoing connections from sync node
+  const outgoingFromSync = (connections || []).filter((c: any) => c.from_node_id === syncNode.id);
 
-    // Checkbox conditions
-    case 'is_checked':
-      return fieldValue === true || fieldValue === 'true' || fieldValue === 'yes';
+  if (aggregateDecision === 'any_rejected') {
+    // Look for a rejection edge (condition contains 'rejected' or 'any_rejected')
+    const rejectionEdge = outgoingFromSync.find((c: any) => {
+      const condition = c.condition;
+      if (!isRecord(condition)) return false;
+      const condVal = condition.conditionValue || condition.decision;
+      return condVal === 'rejected' || condVal === 'any_rejected';
+    });
 
-    case 'is_not_checked':
-      return fieldValue === false || fieldValue === 'false' || fieldValue === 'no' || !fieldValue;
+    if (rejectionEdge) {
+      const targetNode = (nodes || []).find((n: any) => n.id === rejectionEdge.to_node_id);
+      console.log('Sync routing to rejection path:', targetNode?.label);
+      if (targetNode) return targetNode;
+    } else {
+      // No explicit rejection edge - use default edge if available
+      const defaultEdge = outgoingFromSync.find((c: any) => !c.condition);
+      if (defaultEdge) {
+        const targetNode = (nodes || []).find((n: any) => n.id === defaultEdge.to_node_id);
+        console.log('Sync routing to default path (no rejection edge):', targetNode?.label);
+        if (targetNode) return targetNode;
+      }
+    }
+  } else {
+    // all_approved or no_approvals - route to approved/default path
+    const approvedEdge = outgoingFromSync.find((c: any) => {
+      const condition = c.condition;
+      if (!isRecord(condition)) return false;
+      const condVal = condition.conditionValue || condition.decision;
+      return condVal === 'approved' || condVal === 'all_approved';
+    });
 
-    default:
-      console.warn(`[evaluateFormCondition] Unknown condition type: ${condition.conditionType}`);
-      return false;
+    if (approvedEdge) {
+      const targetNode = (nodes || []).find((n: any) => n.id === approvedEdge.to_node_id);
+      console.log('Sync routing to approved path:', targetNode?.label);
+      if (targetNode) return targetNode;
+    } else {
+      // No explicit approved edge - use default edge
+      const defaultEdge = outgoingFromSync.find((c: any) => !c.condition);
+      if (defaultEdge) {
+        const targetNode = (nodes || []).find((n: any) => n.id === defaultEdge.to_node_id);
+        console.log('Sync routing to default path:', targetNode?.label);
+        if (targetNode) return targetNode;
+      }
+    }
   }
+
+  return null;
 }
 
 /**
  * Find next node for conditional routing based on form data evaluation
  * Evaluates conditions defined in the connection's condition object
  */
-function findConditionalNextNodeWithFormData(
+export function findConditionalNextNodeWithFormData(
   conditionalNode: Record<string, unknown>,
   formData: Record<string, Record<string, unknown>>,
   connections: Record<string, unknown>[] | null,
@@ -882,11 +937,11 @@ function findConditionalNextNodeWithFormData(
   const flatFormData: Record<string, unknown> = {};
   for (const [key, value] of Object.entries(formData)) {
     if (isRecord(value)) {
-      // If value is a record, merge its contents
+      // If value is a record, merge its contents - but keep it under its own
+      // key too, since signatures and user/account/project picks are records
       Object.assign(flatFormData, value);
-    } else {
-      flatFormData[key] = value;
     }
+    flatFormData[key] = value;
   }
 
   // Try each connection's condition
@@ -900,10 +955,16 @@ function findConditionalNextNodeWithFormData(
     const sourceFormFieldId = condition.sourceFormFieldId;
     const conditionType = condition.conditionType;
     const value = condition.value;
+    const value2 = condition.value2;
 
     if (isString(sourceFormFieldId) && isString(conditionType)) {
-      const matches = evaluateFormCondition(
-        { sourceFormFieldId, conditionType, value: isString(value) ? value : undefined },
+      const matches = matchesFormCondition(
+        {
+          sourceFormFieldId,
+          conditionType,
+          value: isString(value) ? value : undefined,
+          value2: isString(value2) ? value2 : undefined,
+        },
         flatFormData
       );
       console.log('[findConditionalNextNodeWithFormData] Condition evaluation:', {
@@ -946,12 +1007,62 @@ function findConditionalNextNodeWithFormData(
   return null;
 }
 
+/**
+ * Auto-route through conditional nodes
+ * If the next node is a conditional, evaluate it against the form data (falling
+ * back to the legacy decision routing) until a non-conditional node is reached.
+ * onRoute is called for every hop taken.
+ */
+export function routeThroughConditionalNodes(
+  nextNode: Record<string, unknown>,
+  formData: Record<string, Record<string, unknown>>,
+  decision: string | undefined,
+  connections: Record<string, unknown>[] | null,
+  nodes: Record<string, unknown>[] | null,
+  onRoute?: (from: Record<string, unknown>, to: Record<string, unknown>) => void
+): Record<string, unknown> {
+  let routingIterations = 0;
+  const maxIterations = 10; // Prevent infinite loops
+
+  while (nextNode && nextNode.node_type === 'conditional' && routingIterations < maxIterations) {
+    routingIterations++;
+    console.log(`[routeThroughConditionalNodes] Auto-routing through conditional node: ${nextNode.label} (iteration ${routingIterations})`);
+
+    // Try form-based routing first
+    const conditionalNextNode = findConditionalNextNodeWithFormData(
+      nextNode,
+      formData,
+      connections,
+      nodes
+    );
+
+    if (conditionalNextNode) {
+      console.log(`[routeThroughConditionalNodes] Conditional routed to: ${conditionalNextNode.label}`);
+      onRoute?.(nextNode, conditionalNextNode);
+      nextNode = conditionalNextNode;
+    } else {
+      // Fallback to legacy decision-based routing if no form match
+      const legacyNext = findConditionalNextNode(nextNode, decision, connections, nodes);
+      if (legacyNext) {
+        onRoute?.(nextNode, legacyNext);
+        nextNode = legacyNext;
+      } else {
+        // No route found - stop at the conditional
+        console.warn(`[routeThroughConditionalNodes] No route found from conditional node: ${nextNode.label}`);
+        break;
+      }
+    }
+  }
+
+  return nextNode;
+}
+
 /**
  * Assign project to user(s) based on workflow node
  * Team members ACCUMULATE across workflow steps - they are not removed
  * Each member tracks whether they were added manually or via workflow step
  */
-async function assignProjectToNode(
+export async function assignProjectToNode(
   supabase: any,
   projectId: string,
   node: Record<string, unknown>,
@@ -1017,9 +1128,10 @@ async function assignProjectToNode(
         .not('removed_at', 'is', null)
         .single();
 
+      let assignError: unknown = null;
       if (existingInactive) {
         // Reactivate existing assignment with workflow source
-        await supabase
+        ({ error: assignError } = await supabase
           .from('project_assignments')
           .update({
             removed_at: null,
@@ -1029,10 +1141,10 @@ async function assignProjectToNode(
             workflow_node_id: nodeId,
             workflow_node_label: nodeLabel
           })
-          .eq('id', existingInactive.id);
+          .eq('id', existingInactive.id));
       } else {
         // Insert new assignment with workflow source
-        await supabase.from('project_assignments').insert({
+        ({ error: assignError } = await supabase.from('project_assignments').insert({
           project_id: projectId,
           user_id: userId,
           role_in_project: nodeLabel || node.node_type,
@@ -1040,7 +1152,12 @@ async function assignProjectToNode(
           source_type: 'workflow',
           workflow_node_id: nodeId,
           workflow_node_label: nodeLabel
-        });
+        }));
+      }
+
+      if (assignError) {
+        console.error(`[assignProjectToNode] Failed to assign user ${userId} to project ${projectId}:`, assignError);
+        continue;
       }
 
       // Add to project_contributors for time tracking history
@@ -1148,9 +1265,10 @@ async function assignProjectToParallelNodes(
         .not('removed_at', 'is', null)
         .single();
 
+      let assignError: unknown = null;
       if (existingInactive) {
         // Reactivate existing assignment with workflow source
-        await supabase
+        ({ error: assignError } = await supabase
           .from('project_assignments')
           .update({
             removed_at: null,
@@ -1160,10 +1278,10 @@ async function assignProjectToParallelNodes(
             workflow_node_id: nodeInfo.nodeId,
             workflow_node_label: nodeInfo.nodeLabel
           })
-          .eq('id', existingInactive.id);
+          .eq('id', existingInactive.id));
       } else {
         // Insert new assignment with workflow source
-        await supabase.from('project_assignments').insert({
+        ({ error: assignError } = await supabase.from('project_assignments').insert({
           project_id: projectId,
           user_id: userId,
           role_in_project: nodeInfo.nodeLabel || 'workflow',
@@ -1171,7 +1289,12 @@ async function assignProjectToParallelNodes(
           source_type: 'workflow',
           workflow_node_id: nodeInfo.nodeId,
           workflow_node_label: nodeInfo.nodeLabel
-        });
+        }));
+      }
+
+      if (assignError) {
+        console.error(`[assignProjectToParallelNodes] Failed to assign user ${userId} to project ${projectId}:`, assignError);
+        continue;
       }
 
       // Add to project_contributors for time tracking history
@@ -1409,15 +1532,18 @@ export async function getUserPendingApprovals(supabase: any, userId: string): Pr
       };
     });
 
+    // Multi-approver steps: include the votes so far, minus the ones this user already voted on
+    const withVotes = await attachApprovalVotes(supabase, result, userId);
+
     console.log('Pending approvals query (parallel-aware):', {
       userId,
       roleIds,
       totalActiveSteps: activeSteps?.length || 0,
       nodeAssignmentCount: nodeAssignments?.length || 0,
-      filteredCount: result.length
+      filteredCount: withVotes.length
     });
 
-    return result;
+    return withVotes;
   } catch (error: unknown) {
     console.error('Error fetching pending workflow tasks:', error);
     return [];
@@ -1510,49 +1636,21 @@ export async function getAllActiveAndWaitingSteps(
 }
 
 /**
- * Cancel all parallel sibling branches and waiting sync nodes
- * Called when a parallel branch rejects and routes back past the fork point
- * This ensures the workflow can cleanly restart from the rejection target (e.g., Form Node)
- *
- * Now includes flow ID tracking to:
- * 1. Only cancel steps from the same parallel flow iteration
- * 2. Also cancel orphaned steps that progressed past the sync (e.g., Videographer)
+ * Select the steps a parallel-branch rejection cancels: sibling branches from the
+ * same fork and flow iteration, same-flow steps waiting at sync nodes, and
+ * orphaned steps on the fork point branch itself
  */
-async function cancelParallelSiblingsAndSyncNodes(
-  supabase: any,
-  workflowInstanceId: string,
+export function selectParallelSiblingSteps<T extends { id: string; branch_id: string | null; status: string }>(
+  steps: T[],
   currentBranchId: string,
   currentStepId?: string
-): Promise<{ cancelledCount: number }> {
-  if (!supabase || !currentBranchId) {
-    return { cancelledCount: 0 };
-  }
-
-  // Use the new helper functions for proper branch identification
+): T[] {
   const forkPointBranch = extractForkPointBranch(currentBranchId);
   const currentFlowId = extractFlowId(currentBranchId);
 
-  // If we can't identify a fork point or this is already at the base level, nothing to cancel
-  if (forkPointBranch === currentBranchId) {
-    return { cancelledCount: 0 };
-  }
-
-  // Find all sibling active/waiting steps to cancel
-  // This includes: other parallel branches, waiting sync nodes, and orphaned post-sync steps
-  const { data: stepsToCancel, error: fetchError } = await supabase
-    .from('workflow_active_steps')
-    .select('id, branch_id, status, node_id')
-    .eq('workflow_instance_id', workflowInstanceId)
-    .in('status', ['active', 'waiting']);
-
-  if (fetchError || !stepsToCancel) {
-    console.error('Error fetching steps to cancel:', fetchError);
-    return { cancelledCount: 0 };
-  }
-
   // Filter to sibling branches (same fork point) and same flow iteration
   // Also include orphaned steps that progressed past the sync
-  const siblingSteps = stepsToCancel.filter((step: any) => {
+  return steps.filter((step) => {
     // Skip the current step (it will be marked completed normally)
     if (currentStepId && step.id === currentStepId) return false;
 
@@ -1589,6 +1687,50 @@ async function cancelParallelSiblingsAndSyncNodes(
 
     return false;
   });
+}
+
+/**
+ * Cancel all parallel sibling branches and waiting sync nodes
+ * Called when a parallel branch rejects and routes back past the fork point
+ * This ensures the workflow can cleanly restart from the rejection target (e.g., Form Node)
+ *
+ * Now includes flow ID tracking to:
+ * 1. Only cancel steps from the same parallel flow iteration
+ * 2. Also cancel orphaned steps that progressed past the sync (e.g., Videographer)
+ */
+async function cancelParallelSiblingsAndSyncNodes(
+  supabase: any,
+  workflowInstanceId: string,
+  currentBranchId: string,
+  currentStepId?: string
+): Promise<{ cancelledCount: number }> {
+  if (!supabase || !currentBranchId) {
+    return { cancelledCount: 0 };
+  }
+
+  // Use the new helper functions for proper branch identification
+  const forkPointBranch = extractForkPointBranch(currentBranchId);
+  const currentFlowId = extractFlowId(currentBranchId);
+
+  // If we can't identify a fork point or this is already at the base level, nothing to cancel
+  if (forkPointBranch === currentBranchId) {
+    return { cancelledCount: 0 };
+  }
+
+  // Find all sibling active/waiting steps to cancel
+  // This includes: other parallel branches, waiting sync nodes, and orphaned post-sync steps
+  const { data: stepsToCancel, error: fetchError } = await supabase
+    .from('workflow_active_steps')
+    .select('id, branch_id, status, node_id')
+    .eq('workflow_instance_id', workflowInstanceId)
+    .in('status', ['active', 'waiting']);
+
+  if (fetchError || !stepsToCancel) {
+    console.error('Error fetching steps to cancel:', fetchError);
+    return { cancelledCount: 0 };
+  }
+
+  const siblingSteps = selectParallelSiblingSteps(stepsToCancel, currentBranchId, currentStepId);
 
   if (siblingSteps.length === 0) {
     return { cancelledCount: 0 };
@@ -1623,18 +1765,15 @@ async function cancelParallelSiblingsAndSyncNodes(
   // but are now orphaned because we're going back before the sync
   const cancelledNodeIds = siblingSteps.map((s: any) => s.node_id);
 
-  // Get workflow connections to find downstream nodes
+  // Get the instance's own connections (its pinned version) to find downstream nodes
   const { data: instance } = await supabase
     .from('workflow_instances')
-    .select('workflow_template_id')
+    .select('workflow_template_id, workflow_template_version_id, started_snapshot')
     .eq('id', workflowInstanceId)
     .single();
 
-  if (instance?.workflow_template_id) {
-    const { data: connections } = await supabase
-      .from('workflow_connections')
-      .select('from_node_id, to_node_id')
-      .eq('workflow_template_id', instance.workflow_template_id);
+  if (instance) {
+    const { connections } = await getInstanceGraph(supabase, instance);
 
     if (connections && connections.length > 0) {
       // Find all downstream node IDs from cancelled nodes
@@ -1706,11 +1845,59 @@ async function cancelParallelSiblingsAndSyncNodes(
   return { cancelledCount: siblingSteps.length };
 }
 
+/**
+ * Cancel the branches a join no longer needs after releasing early under a
+ * wait-any or N-of-M policy
+ */
+async function cancelUnfinishedJoinBranches(
+  supabase: any,
+  workflowInstanceId: string,
+  arrivingBranchId: string,
+  joinNodeId: string
+): Promise<{ cancelledCount: number }> {
+  const { data: openSteps, error: fetchError } = await supabase
+    .from('workflow_active_steps')
+    .select('id, node_id, branch_id, status')
+    .eq('workflow_instance_id', workflowInstanceId)
+    .in('status', ['active', 'waiting']);
+
+  if (fetchError || !openSteps) {
+    console.error('Error fetching unfinished join branches:', fetchError);
+    return { cancelledCount: 0 };
+  }
+
+  const unfinishedSteps = selectUnfinishedJoinBranchSteps(openSteps, arrivingBranchId, joinNodeId);
+  if (unfinishedSteps.length === 0) {
+    return { cancelledCount: 0 };
+  }
+
+  const { error: updateError } = await supabase
+    .from('workflow_active_steps')
+    .update({
+      status: 'cancelled',
+      completed_at: new Date().toISOString()
+    })
+    .in('id', unfinishedSteps.map((s: any) => s.id));
+
+  if (updateError) {
+    console.error('Error cancelling unfinished join branches:', updateError);
+    return { cancelledCount: 0 };
+  }
+
+  console.log('Cancelled unfinished branches after early join release:', {
+    workflowInstanceId,
+    joinNodeId,
+    cancelledSteps: unfinishedSteps.map((s: any) => ({ id: s.id, branch: s.branch_id, status: s.status }))
+  });
+
+  return { cancelledCount: unfinishedSteps.length };
+}
+
 /**
  * Find ALL next nodes from a given node (for fork detection)
  * Returns array of nodes connected by outgoing edges
  */
-function findNextNodes(
+export function findNextNodes(
   currentNodeId: string,
   connections: Record<string, unknown>[] | null,
   nodes: Record<string, unknown>[] | null
@@ -1751,15 +1938,16 @@ function _isForkPoint(nodeId: string, connections: Record<string, unknown>[] | n
  * Each time the workflow forks into parallel branches, a new flow ID is generated
  * This allows us to distinguish between different "generations" of parallel execution
  */
-function generateFlowId(): string {
-  return Date.now().toString(36);
+export function generateFlowId(): string {
+  // Random suffix keeps nested forks reached in the same millisecond apart
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
 }
 
 /**
  * Extract flow ID from a branch ID
  * Handles both old format (main-0-timestamp) and new format (main-0_flowid)
  */
-function extractFlowId(branchId: string): string | null {
+export function extractFlowId(branchId: string): string | null {
   if (!branchId) return null;
 
   // New format: main-0_flowid -> extract flowid after underscore
@@ -1789,7 +1977,7 @@ function extractFlowId(branchId: string): string | null {
  * - "main-0_abc-1_def" -> "main" (nested forks)
  * - "main" -> "main"
  */
-function extractForkPointBranch(branchId: string): string {
+export function extractForkPointBranch(branchId: string): string {
   if (!branchId || branchId === 'main') return 'main';
 
   // Remove timestamp suffixes (after underscore) for new format
@@ -1827,16 +2015,55 @@ function extractForkPointBranch(branchId: string): string {
  * Format: {parentBranch}-{index}_{flowId}
  * Example: main-0_abc123, main-1_abc123
  */
-function generateBranchId(parentBranchId: string, index: number, flowId?: string): string {
+export function generateBranchId(parentBranchId: string, index: number, flowId?: string): string {
   const fid = flowId || generateFlowId();
   return `${parentBranchId}-${index}_${fid}`;
 }
 
 /**
- * Find the sync node downstream from a given node in a parallel branch
- * Used to determine if rejection should route through sync instead of directly back
- */
-function findDownstreamSyncNode(
+ * Extract the branch a fork was taken from - one level up, unlike
+ * extractForkPointBranch which goes all the way back to the base branch
+ *
+ * Examples:
+ * - "main-0_abc123" -> "main"
+ * - "main-0_abc-1_def" -> "main-0_abc" (nested forks)
+ * - "main" -> "main"
+ */
+export function extractParentBranch(branchId: string): string {
+  const match = branchId?.match(/^(.+)-\d+_[a-z0-9]+$/);
+  return match ? match[1] : extractForkPointBranch(branchId);
+}
+
+/**
+ * Select the steps a join that released early (wait-any / N-of-M) cancels:
+ * everything still running on the other branches of the same fork and flow
+ * iteration, including branches nested inside them. Steps waiting at the
+ * join itself are released with it, not cancelled.
+ */
+export function selectUnfinishedJoinBranchSteps<T extends { id: string; node_id: string; branch_id: string | null; status: string }>(
+  steps: T[],
+  arrivingBranchId: string,
+  joinNodeId: string
+): T[] {
+  const match = arrivingBranchId.match(/^(.+)-\d+_([a-z0-9]+)$/);
+  if (!match) return [];
+
+  const [, parentBranch, flowId] = match;
+  const sameForkBranch = new RegExp(`^\\d+_${flowId}(-|$)`);
+
+  return steps.filter((step) => {
+    if (step.status !== 'active' && step.status !== 'waiting') return false;
+    if (step.node_id === joinNodeId && step.status === 'waiting') return false;
+    if (!isString(step.branch_id) || !step.branch_id.startsWith(`${parentBranch}-`)) return false;
+    return sameForkBranch.test(step.branch_id.slice(parentBranch.length + 1));
+  });
+}
+
+/**
+ * Find the sync node downstream from a given node in a parallel branch
+ * Used to determine if rejection should route through sync instead of directly back
+ */
+export function findDownstreamSyncNode(
   currentNodeId: string,
   connections: Record<string, unknown>[] | null,
   nodes: Record<string, unknown>[] | null
@@ -1879,7 +2106,7 @@ function findDownstreamSyncNode(
  * Check if a sync node has an 'any_rejected' outgoing edge
  * This indicates the workflow is designed to handle rejections through sync aggregation
  */
-function syncHasRejectionPath(
+export function syncHasRejectionPath(
   syncNodeId: string,
   connections: Record<string, unknown>[] | null
 ): boolean {
@@ -2007,7 +2234,7 @@ export async function isWorkflowComplete(
 /**
  * Get count of incoming connections to a sync node
  */
-function getSyncNodeExpectedBranches(
+export function getSyncNodeExpectedBranches(
   syncNodeId: string,
   connections: Record<string, unknown>[] | null
 ): number {
@@ -2016,8 +2243,45 @@ function getSyncNodeExpectedBranches(
 }
 
 /**
- * Handle arrival at a sync node
- * Returns whether the sync should release (all branches arrived)
+ * Aggregate approval decisions from the branches arriving at a sync node
+ * Approvals must be ordered newest first - only the most recent decision per
+ * node counts (in case of re-approvals after rejection loops)
+ */
+export function aggregateBranchDecisions(
+  approvals: Array<{ node_id: string; decision: string }>
+): {
+  aggregateDecision: 'all_approved' | 'any_rejected' | 'no_approvals';
+  branchDecisions: Array<{ nodeId: string; decision: string }>;
+} {
+  const latestDecisionByNode = new Map<string, string>();
+  for (const approval of approvals) {
+    if (!latestDecisionByNode.has(approval.node_id)) {
+      latestDecisionByNode.set(approval.node_id, approval.decision);
+    }
+  }
+
+  const branchDecisions = Array.from(latestDecisionByNode.entries()).map(([nodeId, decision]) => ({
+    nodeId,
+    decision
+  }));
+
+  const hasRejection = branchDecisions.some((d) => d.decision === 'rejected');
+  const allApproved = branchDecisions.length > 0 && branchDecisions.every((d) => d.decision === 'approved');
+
+  let aggregateDecision: 'all_approved' | 'any_rejected' | 'no_approvals' = 'no_approvals';
+  if (hasRejection) {
+    aggregateDecision = 'any_rejected';
+  } else if (allApproved) {
+    aggregateDecision = 'all_approved';
+  }
+
+  return { aggregateDecision, branchDecisions };
+}
+
+/**
+ * Handle arrival at a sync (join) node
+ * Returns whether the join should release under its policy (all branches,
+ * any branch or N of M have arrived)
  * Also aggregates approval decisions from parallel branches
  *
  * Now includes flow ID tracking to ensure only steps from the SAME parallel
@@ -2030,16 +2294,19 @@ function getSyncNodeExpectedBranches(
 async function handleSyncNode(
   supabase: any,
   workflowInstanceId: string,
-  syncNodeId: string,
+  syncNode: Record<string, unknown>,
   completingBranchId: string,
   connections: Record<string, unknown>[] | null
 ): Promise<{
-  allArrived: boolean;
+  released: boolean;
   canProgress: boolean;
   aggregateDecision: 'all_approved' | 'any_rejected' | 'no_approvals';
   branchDecisions: Array<{ nodeId: string; decision: string }>;
+  joinEvaluation: JoinEvaluation | null;
   lockAcquired: boolean;
 }> {
+  const syncNodeId = syncNode.id as string;
+
   // Try to acquire a lock for this sync operation
   // This prevents race conditions when multiple branches complete simultaneously
   const { data: lockAcquired } = await supabase
@@ -2057,10 +2324,11 @@ async function handleSyncNode(
       completingBranchId
     });
     return {
-      allArrived: false,
+      released: false,
       canProgress: false,
       aggregateDecision: 'no_approvals',
       branchDecisions: [],
+      joinEvaluation: null,
       lockAcquired: false
     };
   }
@@ -2094,7 +2362,9 @@ async function handleSyncNode(
   // Current branch will become waiting, so total waiting will be sameFlowWaiting + 1
   const totalWaiting = sameFlowWaiting.length + 1;
 
-  const allArrived = totalWaiting >= expectedBranches;
+  // The join policy decides how many of them are needed
+  const joinEvaluation = evaluateJoin(getJoinPolicySettings(syncNode), expectedBranches, totalWaiting);
+  const released = joinEvaluation.released;
 
   // Aggregate approval decisions from parallel branches
   // Find the node IDs that connect TO this sync node (the parallel branches)
@@ -2106,7 +2376,7 @@ async function handleSyncNode(
   let branchDecisions: Array<{ nodeId: string; decision: string }> = [];
   let aggregateDecision: 'all_approved' | 'any_rejected' | 'no_approvals' = 'no_approvals';
 
-  if (incomingNodeIds.length > 0 && allArrived) {
+  if (incomingNodeIds.length > 0 && released) {
     const { data: approvals } = await supabase
       .from('workflow_approvals')
       .select('node_id, decision, created_at')
@@ -2115,28 +2385,7 @@ async function handleSyncNode(
       .order('created_at', { ascending: false });
 
     if (approvals && approvals.length > 0) {
-      // Get the most recent decision for each node (in case of re-approvals after rejection loops)
-      const latestDecisionByNode = new Map<string, string>();
-      for (const approval of approvals) {
-        if (!latestDecisionByNode.has(approval.node_id)) {
-          latestDecisionByNode.set(approval.node_id, approval.decision);
-        }
-      }
-
-      branchDecisions = Array.from(latestDecisionByNode.entries()).map(([nodeId, decision]) => ({
-        nodeId,
-        decision
-      }));
-
-      // Determine aggregate decision
-      const hasRejection = branchDecisions.some((d: any) => d.decision === 'rejected');
-      const allApproved = branchDecisions.length > 0 && branchDecisions.every((d: any) => d.decision === 'approved');
-
-      if (hasRejection) {
-        aggregateDecision = 'any_rejected';
-      } else if (allApproved) {
-        aggregateDecision = 'all_approved';
-      }
+      ({ branchDecisions, aggregateDecision } = aggregateBranchDecisions(approvals));
     }
   }
 
@@ -2147,22 +2396,522 @@ async function handleSyncNode(
     sameFlowWaiting: sameFlowWaiting.length,
     allWaiting: waitingSteps?.length || 0,
     willBeWaiting: totalWaiting,
-    allArrived,
+    required: joinEvaluation.required,
+    released,
     aggregateDecision,
     branchDecisions,
     lockAcquired: true
   });
 
-  // If all branches arrived, we'll release the lock after sync completion in the caller
-  // If not all arrived, release the lock now so other branches can check
-  if (!allArrived) {
+  // If the join released, we'll release the lock after sync completion in the caller
+  // If not, release the lock now so other branches can check
+  if (!released) {
     await supabase.rpc('release_sync_lock', {
       p_workflow_instance_id: workflowInstanceId,
       p_sync_node_id: syncNodeId
     });
   }
 
-  return { allArrived, canProgress: allArrived, aggregateDecision, branchDecisions, lockAcquired: true };
+  return { released, canProgress: released, aggregateDecision, branchDecisions, joinEvaluation, lockAcquired: true };
+}
+
+/**
+ * Record one approver's vote on a multi-approver approval step and evaluate the
+ * quorum. Only the vote that resolves the step (atomically claiming it) lets
+ * the workflow route on; concurrent votes that lose the race are 'late'.
+ * A superadmin who isn't one of the step's approvers casts an ordinary vote -
+ * it counts toward the quorum like anyone else's. Resubmitting the same
+ * decision retries a vote whose quorum resolved but couldn't route on.
+ */
+async function castApprovalQuorumVote(
+  supabase: any,
+  workflowInstanceId: string,
+  node: Record<string, unknown>,
+  activeStep: WorkflowActiveStep,
+  userId: string,
+  decision: 'approved' | 'rejected',
+  feedback: string | undefined,
+  isSuperadmin: boolean
+): Promise<{ status?: QuorumStatus | 'late'; evaluation?: QuorumEvaluation; error?: string }> {
+  if (activeStep.status !== 'active') {
+    return { error: `"${node.label}" has already been resolved` };
+  }
+
+  const settings = getApprovalQuorumSettings(node);
+  const eligibleIds = await getStepApproverIds(supabase, workflowInstanceId, node, activeStep);
+  const existingVotes = await getStepApprovalVotes(supabase, activeStep.id);
+  const existingVote = existingVotes.find((v) => v.approverUserId === userId);
+
+  if (existingVote) {
+    // The quorum was released after routing failed - claim it again and retry
+    const evaluation = evaluateApprovalQuorum(settings, existingVotes, eligibleIds);
+    if (existingVote.decision !== decision || evaluation.status === 'pending') {
+      return { error: 'You have already voted on this approval' };
+    }
+    return { status: await claimQuorumResolution(supabase, activeStep.id, evaluation.status), evaluation };
+  }
+
+  if (!eligibleIds.includes(userId) && !isSuperadmin) {
+    return { error: `You are not one of the approvers for "${node.label}"` };
+  }
+
+  const { error: voteError } = await supabase.from('workflow_approvals').insert({
+    workflow_instance_id: workflowInstanceId,
+    node_id: node.id,
+    active_step_id: activeStep.id,
+    approver_user_id: userId,
+    decision,
+    feedback,
+  });
+
+  if (voteError) {
+    console.error('Failed to record approval vote:', voteError);
+    return { error: voteError.code === '23505' ? 'You have already voted on this approval' : 'Failed to record your vote' };
+  }
+
+  const votes = await getStepApprovalVotes(supabase, activeStep.id);
+  const evaluation = evaluateApprovalQuorum(settings, votes, eligibleIds);
+
+  return { status: await claimQuorumResolution(supabase, activeStep.id, evaluation.status), evaluation };
+}
+
+/**
+ * The step's approver pool: the node's role holders and node assignees, plus
+ * whoever the step itself is assigned to.
+ */
+async function getStepApproverIds(
+  supabase: any,
+  workflowInstanceId: string,
+  node: Record<string, unknown>,
+  activeStep: Pick<WorkflowActiveStep, 'assigned_user_id'>
+): Promise<string[]> {
+  const eligibleIds = await getEligibleApproverIds(supabase, workflowInstanceId, node);
+  if (activeStep.assigned_user_id && !eligibleIds.includes(activeStep.assigned_user_id)) {
+    eligibleIds.push(activeStep.assigned_user_id);
+  }
+  return eligibleIds;
+}
+
+/**
+ * Record a quorum outcome on the step. A resolved outcome is claimed
+ * atomically so only one caller routes the workflow on; losers get 'late'.
+ * An 'unreachable' marker left by the quorum sweep is kept while pending.
+ */
+async function claimQuorumResolution(
+  supabase: any,
+  activeStepId: string,
+  status: QuorumStatus
+): Promise<QuorumStatus | 'late'> {
+  if (status === 'pending') {
+    await supabase
+      .from('workflow_active_steps')
+      .update({ aggregate_decision: 'pending' })
+      .eq('id', activeStepId)
+      .eq('status', 'active')
+      .is('aggregate_decision', null);
+    return status;
+  }
+
+  const { data: claimed } = await supabase
+    .from('workflow_active_steps')
+    .update({ aggregate_decision: status })
+    .eq('id', activeStepId)
+    .eq('status', 'active')
+    .or('aggregate_decision.is.null,aggregate_decision.eq.pending,aggregate_decision.eq.unreachable')
+    .select('id');
+
+  return claimed && claimed.length > 0 ? status : 'late';
+}
+
+/**
+ * Undo a quorum claim when routing the step on failed, so the step goes back
+ * to waiting and the next vote (or a retry of the resolving one) can claim it.
+ */
+async function releaseQuorumClaim(supabase: any, activeStepId: string): Promise<void> {
+  const { error } = await supabase
+    .from('workflow_active_steps')
+    .update({ aggregate_decision: 'pending' })
+    .eq('id', activeStepId)
+    .eq('status', 'active')
+    .in('aggregate_decision', ['approved', 'rejected']);
+
+  if (error) {
+    console.error('Failed to release quorum claim:', { activeStepId, error });
+  }
+}
+
+/**
+ * Re-evaluate a multi-approver step's quorum without a new vote. Needed when
+ * the approver pool changes: removing the last outstanding approver can meet
+ * the quorum with nobody left to cast the vote that would notice, and that
+ * approval is claimed here. A pool change never rejects - a quorum it puts
+ * out of reach comes back as 'unreachable' and the step stays pending.
+ */
+export async function resolveStepApprovalQuorum(
+  supabase: any,
+  workflowInstanceId: string,
+  node: Record<string, unknown>,
+  activeStep: Pick<WorkflowActiveStep, 'id' | 'status' | 'assigned_user_id'>
+): Promise<{ status: QuorumStatus | 'unreachable' | 'late'; evaluation: QuorumEvaluation } | null> {
+  if (activeStep.status !== 'active' || !isQuorumApproval(node)) return null;
+
+  const eligibleIds = await getStepApproverIds(supabase, workflowInstanceId, node, activeStep);
+  const votes = await getStepApprovalVotes(supabase, activeStep.id);
+  const evaluation = evaluateApprovalQuorum(getApprovalQuorumSettings(node), votes, eligibleIds);
+
+  if (evaluation.status === 'approved') {
+    return { status: await claimQuorumResolution(supabase, activeStep.id, 'approved'), evaluation };
+  }
+  if (evaluation.status === 'rejected' || evaluation.unreachable) {
+    return { status: 'unreachable', evaluation };
+  }
+  return { status: 'pending', evaluation };
+}
+
+/**
+ * Flag a step whose quorum can no longer be reached and tell the step's
+ * assignee and the project owner, so an admin can add approvers or reassign
+ * the step. The flag is set once, so later sweeps don't notify again.
+ */
+async function flagUnreachableQuorum(
+  supabase: any,
+  step: { id: string; assigned_user_id: string | null },
+  node: Record<string, unknown>,
+  project: Record<string, unknown> | null,
+  evaluation: QuorumEvaluation
+): Promise<void> {
+  const { data: flagged, error: flagError } = await supabase
+    .from('workflow_active_steps')
+    .update({ aggregate_decision: 'unreachable' })
+    .eq('id', step.id)
+    .eq('status', 'active')
+    .or('aggregate_decision.is.null,aggregate_decision.eq.pending')
+    .select('id');
+
+  if (flagError) throw flagError;
+  if (!flagged || flagged.length === 0) return;
+
+  const recipients = [...new Set(
+    [step.assigned_user_id, project && isString(project.created_by) ? project.created_by : null].filter(isString)
+  )];
+  if (recipients.length === 0) return;
+
+  const projectName = project && isString(project.name) ? project.name : 'a project';
+  const { error: notifyError } = await supabase.from('notifications').insert(
+    recipients.map((userId) => ({
+      user_id: userId,
+      title: 'Approval quorum out of reach',
+      message: `"${node.label}" on ${projectName} can no longer reach its quorum (${formatQuorumTally(evaluation)}, ${evaluation.outstanding} outstanding). Add approvers or reassign the step.`,
+      type: 'workflow_approval',
+      link: project && isString(project.id) ? `/projects/${project.id}` : null,
+    }))
+  );
+
+  if (notifyError) {
+    console.error('Quorum sweep: error creating notifications:', notifyError);
+  }
+}
+
+export interface QuorumSweepResult {
+  checked: number;
+  resolved: number;
+  errors: string[];
+}
+
+/**
+ * Sweep active multi-approver steps and route on the ones whose quorum has
+ * been met since the last vote; steps whose quorum fell out of reach are
+ * flagged for an admin instead. Scope to a role or workflow instance when
+ * called right after that role's or instance's approvers changed.
+ */
+export async function reevaluatePendingApprovalQuorums(
+  supabase: any,
+  scope: { roleId?: string; workflowInstanceId?: string } = {}
+): Promise<QuorumSweepResult> {
+  const result: QuorumSweepResult = { checked: 0, resolved: 0, errors: [] };
+
+  let query = supabase
+    .from('workflow_active_steps')
+    .select(`
+      id,
+      workflow_instance_id,
+      node_id,
+      status,
+      assigned_user_id,
+      workflow_instances!inner(
+        id,
+        status,
+        started_snapshot,
+        projects(id, name, created_by)
+      )
+    `)
+    .eq('status', 'active');
+  if (scope.workflowInstanceId) {
+    query = query.eq('workflow_instance_id', scope.workflowInstanceId);
+  }
+  if (scope.roleId) {
+    // Only instances with an approval node for this role
+    query = query.contains('workflow_instances.started_snapshot', {
+      nodes: [{ node_type: 'approval', entity_id: scope.roleId }],
+    });
+  }
+
+  const { data: steps, error: stepsError } = await query;
+  if (stepsError) {
+    console.error('Quorum sweep: error loading active steps:', stepsError);
+    result.errors.push(stepsError.message);
+    return result;
+  }
+
+  for (const step of steps || []) {
+    const instance = step.workflow_instances;
+    if (!isRecord(instance) || instance.status !== 'active') continue;
+
+    const snapshot = isRecord(instance.started_snapshot) ? instance.started_snapshot : {};
+    const snapshotNodes = Array.isArray(snapshot.nodes) ? snapshot.nodes : [];
+    const node = snapshotNodes.find((n: unknown) => isRecord(n) && n.id === step.node_id) as Record<string, unknown> | undefined;
+    if (!node || !isQuorumApproval(node)) continue;
+    if (scope.roleId && node.entity_id !== scope.roleId) continue;
+
+    result.checked++;
+
+    try {
+      const resolution = await resolveStepApprovalQuorum(supabase, step.workflow_instance_id, node, step);
+      if (!resolution || resolution.status === 'pending' || resolution.status === 'late') continue;
+
+      const project = isRecord(instance.projects) ? instance.projects : null;
+      if (resolution.status === 'unreachable') {
+        await flagUnreachableQuorum(supabase, step, node, project, resolution.evaluation);
+        continue;
+      }
+
+      // Attribute the transition to the last counted voter, else the project creator
+      const lastVote = resolution.evaluation.countedVotes[resolution.evaluation.countedVotes.length - 1];
+      const actorId = lastVote?.approverUserId || (project && isString(project.created_by) ? project.created_by : null);
+      if (!actorId) {
+        result.errors.push(`Step ${step.id}: no user to attribute the transition to`);
+        continue;
+      }
+
+      const progress = await progressWorkflowStep(
+        supabase,
+        step.workflow_instance_id,
+        step.id,
+        actorId,
+        resolution.status,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { transitionType: 'auto', resolvedQuorum: resolution.evaluation }
+      );
+
+      if (progress.success) {
+        result.resolved++;
+      } else {
+        result.errors.push(`Step ${step.id}: ${progress.error}`);
+      }
+    } catch (error: unknown) {
+      console.error('Quorum sweep: error re-evaluating step:', { stepId: step.id, error });
+      result.errors.push(`Step ${step.id}: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Send an approval step back to a previously completed step, chosen by the
+ * approver. The target's step is reopened on its branch (cancelling parallel
+ * siblings when it lies before a fork) and the send-back is recorded in
+ * workflow_history with the target's rework count for this instance.
+ */
+async function sendBackWorkflowStep(
+  supabase: any,
+  instance: Record<string, any>,
+  nodes: Record<string, unknown>[],
+  currentNode: Record<string, unknown>,
+  activeStep: WorkflowActiveStep | null,
+  userId: string,
+  targetNodeId: string,
+  reason: string
+): Promise<{ success: boolean; nextNode?: Record<string, unknown>; newActiveSteps?: WorkflowActiveStep[]; error?: string }> {
+  if (!allowsSendBack(currentNode)) {
+    return { success: false, error: `"${currentNode.label}" doesn't allow sending work back` };
+  }
+
+  const trimmedReason = reason.trim();
+  if (!trimmedReason) {
+    return { success: false, error: 'A reason is required to send work back' };
+  }
+
+  if (!activeStep || activeStep.status !== 'active') {
+    return { success: false, error: `"${currentNode.label}" has already been resolved` };
+  }
+
+  const { data: steps, error: stepsError } = await supabase
+    .from('workflow_active_steps')
+    .select('id, node_id, branch_id, status, completed_at, assigned_user_id')
+    .eq('workflow_instance_id', instance.id);
+
+  if (stepsError) {
+    console.error('Error loading steps for send-back:', stepsError);
+    return { success: false, error: 'Failed to load workflow steps' };
+  }
+
+  const target = getSendBackTargets(nodes, steps || [], currentNode.id as string, activeStep.branch_id)
+    .find((t) => t.nodeId === targetNodeId);
+  if (!target) {
+    return { success: false, error: 'Work can only be sent back to a step that was already completed on this path' };
+  }
+  const targetNode = nodes.find((n: any) => n.id === targetNodeId)!;
+
+  // Claim the current step - a concurrent decision or vote may have resolved it already
+  const { data: claimed } = await supabase
+    .from('workflow_active_steps')
+    .update({ status: 'completed', completed_at: new Date().toISOString() })
+    .eq('id', activeStep.id)
+    .eq('status', 'active')
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    return { success: false, error: `"${currentNode.label}" has already been resolved` };
+  }
+
+  // Sending back past a fork resets the parallel branches, like a rejection routing back
+  if ((target.step.branch_id || 'main') !== (activeStep.branch_id || 'main')) {
+    const { cancelledCount } = await cancelParallelSiblingsAndSyncNodes(
+      supabase,
+      instance.id,
+      activeStep.branch_id,
+      activeStep.id
+    );
+    console.log('Send-back past fork: Cancelled', cancelledCount, 'sibling steps');
+  }
+
+  const { data: reopenedStep, error: reopenError } = await supabase
+    .from('workflow_active_steps')
+    .update({
+      status: 'active',
+      activated_at: new Date().toISOString(),
+      completed_at: null,
+    })
+    .eq('id', target.step.id)
+    .select()
+    .single();
+
+  if (reopenError || !reopenedStep) {
+    console.error('Failed to reopen step for send-back:', { error: reopenError, stepId: target.step.id });
+    return { success: false, error: `Failed to reopen "${target.label}"` };
+  }
+
+  const { count: previousReworks } = await supabase
+    .from('workflow_history')
+    .select('id', { count: 'exact', head: true })
+    .eq('workflow_instance_id', instance.id)
+    .eq('to_node_id', targetNodeId)
+    .eq('transition_type', 'send_back');
+  const reworkCount = (previousReworks ?? 0) + 1;
+
+  const notes: SendBackNotes = {
+    type: 'send_back',
+    data: { reason: trimmedReason, targetNodeLabel: target.label, reworkCount },
+  };
+
+  const { data: historyEntry } = await supabase.from('workflow_history').insert({
+    workflow_instance_id: instance.id,
+    from_node_id: currentNode.id,
+    to_node_id: targetNodeId,
+    handed_off_by: userId,
+    transition_type: 'send_back',
+    approval_feedback: trimmedReason,
+    notes: JSON.stringify(notes),
+    branch_id: activeStep.branch_id,
+    rework_count: reworkCount,
+  }).select('id').single();
+
+  await supabase
+    .from('workflow_instances')
+    .update({ current_node_id: targetNodeId })
+    .eq('id', instance.id);
+
+  if (instance.project_id) {
+    await assignProjectToParallelNodes(
+      supabase,
+      instance.project_id,
+      [{ node: targetNode, userId: target.step.assigned_user_id ?? null }],
+      userId
+    );
+
+    await supabase.from('project_updates').insert({
+      project_id: instance.project_id,
+      content: `**Sent back**: ${currentNode.label} → ${target.label}\n` +
+        `Reason: ${trimmedReason}` +
+        (reworkCount > 1 ? `\nRework #${reworkCount} for ${target.label}` : ''),
+      created_by: userId,
+      workflow_history_id: historyEntry?.id || null,
+    });
+  }
+
+  return { success: true, nextNode: targetNode, newActiveSteps: [reopenedStep] };
+}
+
+// Guards against action nodes routing into each other forever
+const MAX_ACTION_CHAIN_DEPTH = 10;
+
+/**
+ * Run the action and fork nodes among newly activated steps. Each is progressed
+ * as a system transition, which executes its actions (or starts its parallel
+ * branches) and routes on; the steps that replace it are returned in its place.
+ */
+async function runReachedAutomaticSteps(
+  supabase: any,
+  workflowInstanceId: string,
+  steps: WorkflowActiveStep[],
+  nodes: Record<string, unknown>[],
+  actorId: string,
+  depth: number
+): Promise<WorkflowActiveStep[]> {
+  const resultingSteps: WorkflowActiveStep[] = [];
+
+  for (const step of steps) {
+    const node = nodes.find((n: any) => n.id === step.node_id);
+    if (!AUTOMATIC_NODE_TYPES.includes(node?.node_type) || step.status !== 'active') {
+      resultingSteps.push(step);
+      continue;
+    }
+
+    if (depth >= MAX_ACTION_CHAIN_DEPTH) {
+      console.error('Automatic node chain too deep - leaving step active:', { workflowInstanceId, stepId: step.id, depth });
+      resultingSteps.push(step);
+      continue;
+    }
+
+    const result = await progressWorkflowStep(
+      supabase,
+      workflowInstanceId,
+      step.id,
+      actorId,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { transitionType: 'auto', actionDepth: depth + 1 }
+    );
+
+    if (result.success) {
+      resultingSteps.push(...(result.newActiveSteps || []));
+    } else {
+      // Leave the step active so it can be retried by progressing it manually
+      console.error('Failed to run automatic node:', { workflowInstanceId, stepId: step.id, error: result.error });
+      resultingSteps.push(step);
+    }
+  }
+
+  return resultingSteps;
 }
 
 /**
@@ -2179,12 +2928,33 @@ export async function progressWorkflowStep(
   formResponseId?: string,
   assignedUserId?: string,
   inlineFormData?: Record<string, Record<string, unknown>>,
-  assignedUsersPerNode?: Record<string, string> // NEW: map of nodeId -> userId for parallel branches
-): Promise<{ success: boolean; nextNode?: Record<string, unknown>; newActiveSteps?: WorkflowActiveStep[]; error?: string }> {
+  assignedUsersPerNode?: Record<string, string>, // NEW: map of nodeId -> userId for parallel branches
+  options: {
+    transitionType?: 'normal' | 'auto'; // 'auto' = system transition (timer cron, action nodes), skips user authorization
+    actionDepth?: number;
+    sendBack?: { targetNodeId: string; reason: string }; // Approver returns the work to a previously completed step
+    resolvedQuorum?: QuorumEvaluation; // Quorum already resolved and claimed outside a vote (auto transitions only)
+  } = {}
+): Promise<{
+  success: boolean;
+  nextNode?: Record<string, unknown>;
+  newActiveSteps?: WorkflowActiveStep[];
+  quorum?: { status: QuorumStatus | 'late'; tally: string };
+  error?: string;
+}> {
+  const isAutoTransition = options.transitionType === 'auto';
+
   if (!supabase) {
     return { success: false, error: 'Database connection failed' };
   }
 
+  // A quorum claimed for this step is released again if routing it on fails
+  let claimedQuorumStepId: string | null = null;
+  const failRouting = async (error: string) => {
+    if (claimedQuorumStepId) await releaseQuorumClaim(supabase, claimedQuorumStepId);
+    return { success: false, error };
+  };
+
   try {
     // Get workflow instance with snapshot
     const { data: instance, error: instanceError } = await supabase
@@ -2197,33 +2967,14 @@ export async function progressWorkflowStep(
       return { success: false, error: 'Workflow instance not found' };
     }
 
-    // Get nodes and connections - prefer snapshot over live tables
-    // This ensures deleted/modified templates don't break in-progress workflows
-    let nodes: Record<string, unknown>[] = [];
-    let connections: Record<string, unknown>[] = [];
-
-    if (instance.started_snapshot?.nodes && instance.started_snapshot?.connections) {
-      // Use snapshot data (protects against template deletion/modification)
-      nodes = instance.started_snapshot.nodes;
-      connections = instance.started_snapshot.connections;
-      console.log('[progressWorkflowStep] Using snapshot data');
-    } else {
-      // Fallback to live tables for older instances without snapshot
-      console.log('[progressWorkflowStep] Falling back to live table queries');
-      const { data: liveNodes } = await supabase
-        .from('workflow_nodes')
-        .select('*')
-        .eq('workflow_template_id', instance.workflow_template_id);
-
-      const { data: liveConnections } = await supabase
-        .from('workflow_connections')
-        .select('*')
-        .eq('workflow_template_id', instance.workflow_template_id);
-
-      nodes = liveNodes || [];
-      connections = liveConnections || [];
+    if (instance.status === 'paused') {
+      return { success: false, error: 'This workflow is paused. It must be resumed before it can be progressed.' };
     }
 
+    // Get nodes and connections from the version the instance runs on
+    // This ensures deleted/modified templates don't break in-progress workflows
+    const { nodes, connections } = await getInstanceGraph(supabase, instance);
+
     // Determine current node based on whether we're using parallel or legacy mode
     let currentNode: Record<string, unknown> | null = null;
     let currentBranchId = 'main';
@@ -2273,8 +3024,36 @@ export async function progressWorkflowStep(
       return { success: false, error: 'Current node not found' };
     }
 
+    // Completed steps and cancelled parallel branches (a sibling was rejected,
+    // or a wait-any join went ahead without them) can't be progressed
+    if (activeStep && activeStep.status !== 'active') {
+      return {
+        success: false,
+        error: activeStep.status === 'cancelled'
+          ? `"${currentNode.label}" was cancelled - its parallel branch is no longer needed`
+          : `"${currentNode.label}" has already been completed`
+      };
+    }
+
+    // Timer steps only resume through the timer sweep
+    if (currentNode.node_type === 'timer' && !isAutoTransition) {
+      return {
+        success: false,
+        error: `"${currentNode.label}" is a timer step and resumes automatically${activeStep?.timer_resume_at ? ` at ${new Date(activeStep.timer_resume_at).toLocaleString()}` : ''}`
+      };
+    }
+
+    // Sub-workflow steps resume when their child workflow completes
+    if (currentNode.node_type === 'subworkflow' && !isAutoTransition) {
+      return {
+        success: false,
+        error: `"${currentNode.label}" is a sub-workflow step and continues automatically when the sub-workflow completes`
+      };
+    }
+
     // AUTHORIZATION: Check if user can progress this workflow step
-    const isSuperadmin = await isUserSuperadmin(supabase, currentUserId);
+    // System transitions (timers) are not tied to a user's permissions
+    const isSuperadmin = isAutoTransition || await isUserSuperadmin(supabase, currentUserId);
 
     if (!isSuperadmin) {
       // 0. CHECK FOR EXPLICIT NODE ASSIGNMENT (bypasses entity check)
@@ -2377,6 +3156,76 @@ export async function progressWorkflowStep(
       }
     }
 
+    // Send-back: reopen a previously completed step instead of routing on
+    if (options.sendBack) {
+      return await sendBackWorkflowStep(
+        supabase,
+        instance,
+        nodes,
+        currentNode,
+        activeStep,
+        currentUserId,
+        options.sendBack.targetNodeId,
+        options.sendBack.reason
+      );
+    }
+
+    // Action nodes run their automated actions before routing on
+    // Failures don't block the workflow - they're recorded in this step's history entry
+    let actionResults: WorkflowActionResult[] | null = null;
+    if (currentNode.node_type === 'action') {
+      actionResults = await executeWorkflowActions(supabase, currentNode, {
+        workflowInstanceId,
+        projectId: instance.project_id,
+        workflowName: instance.started_snapshot?.template_name || instance.workflow_templates?.name || 'Workflow',
+        nodeLabel: currentNode.label as string,
+        actorId: currentUserId,
+      });
+    }
+
+    // Multi-approver approval nodes: record this vote and only route on once the quorum resolves
+    let quorumEvaluation: QuorumEvaluation | null = null;
+    if (isAutoTransition && options.resolvedQuorum) {
+      quorumEvaluation = options.resolvedQuorum;
+      claimedQuorumStepId = activeStep?.id ?? null;
+    } else if (currentNode.node_type === 'approval' && decision && activeStep && isQuorumApproval(currentNode)) {
+      const vote = await castApprovalQuorumVote(
+        supabase,
+        workflowInstanceId,
+        currentNode,
+        activeStep,
+        currentUserId,
+        decision,
+        feedback,
+        isSuperadmin
+      );
+
+      if (vote.error || !vote.evaluation || !vote.status) {
+        return { success: false, error: vote.error || 'Failed to record your vote' };
+      }
+
+      if (vote.status === 'pending' || vote.status === 'late') {
+        if (instance.project_id && vote.status === 'pending') {
+          await supabase.from('project_updates').insert({
+            project_id: instance.project_id,
+            content: `**Vote**: ${decision === 'approved' ? 'Approved' : 'Rejected'} ${currentNode.label} (${formatQuorumTally(vote.evaluation)})` +
+              (feedback ? `\nNotes: ${feedback}` : ''),
+            created_by: currentUserId,
+          });
+        }
+        return {
+          success: true,
+          newActiveSteps: [],
+          quorum: { status: vote.status, tally: formatQuorumTally(vote.evaluation) }
+        };
+      }
+
+      // The quorum decides where the workflow goes, not this individual vote
+      decision = vote.status;
+      quorumEvaluation = vote.evaluation;
+      claimedQuorumStepId = activeStep.id;
+    }
+
     // Determine next nodes based on node type and decision
     let nextNodes: Record<string, unknown>[] = [];
 
@@ -2399,54 +3248,8 @@ export async function progressWorkflowStep(
         activeStepId: activeStep?.id
       });
 
-      // Find outgoing connections from sync node
-      const outgoingFromSync = (connections || []).filter((c: any) => c.from_node_id === currentNode.id);
-
-      if (aggregateDecision === 'any_rejected') {
-        // Look for a rejection edge (condition contains 'rejected' or 'any_rejected')
-        const rejectionEdge = outgoingFromSync.find((c: any) => {
-          const condition = c.condition;
-          if (!isRecord(condition)) return false;
-          const condVal = condition.conditionValue || condition.decision;
-          return condVal === 'rejected' || condVal === 'any_rejected';
-        });
-
-        if (rejectionEdge) {
-          const targetNode = (nodes || []).find((n: any) => n.id === rejectionEdge.to_node_id);
-          if (targetNode) nextNodes = [targetNode];
-          console.log('Sync routing to rejection path:', targetNode?.label);
-        } else {
-          // No explicit rejection edge - use default edge if available
-          const defaultEdge = outgoingFromSync.find((c: any) => !c.condition);
-          if (defaultEdge) {
-            const targetNode = (nodes || []).find((n: any) => n.id === defaultEdge.to_node_id);
-            if (targetNode) nextNodes = [targetNode];
-            console.log('Sync routing to default path (no rejection edge):', targetNode?.label);
-          }
-        }
-      } else {
-        // all_approved or no_approvals - route to approved/default path
-        const approvedEdge = outgoingFromSync.find((c: any) => {
-          const condition = c.condition;
-          if (!isRecord(condition)) return false;
-          const condVal = condition.conditionValue || condition.decision;
-          return condVal === 'approved' || condVal === 'all_approved';
-        });
-
-        if (approvedEdge) {
-          const targetNode = (nodes || []).find((n: any) => n.id === approvedEdge.to_node_id);
-          if (targetNode) nextNodes = [targetNode];
-          console.log('Sync routing to approved path:', targetNode?.label);
-        } else {
-          // No explicit approved edge - use default edge
-          const defaultEdge = outgoingFromSync.find((c: any) => !c.condition);
-          if (defaultEdge) {
-            const targetNode = (nodes || []).find((n: any) => n.id === defaultEdge.to_node_id);
-            if (targetNode) nextNodes = [targetNode];
-            console.log('Sync routing to default path:', targetNode?.label);
-          }
-        }
-      }
+      const nextNode = findSyncNextNode(currentNode, aggregateDecision, connections, nodes);
+      if (nextNode) nextNodes = [nextNode];
     } else {
       // Check if this is a fork point
       nextNodes = findNextNodes(currentNode.id as string, connections, nodes);
@@ -2514,41 +3317,7 @@ export async function progressWorkflowStep(
 
       // Now auto-route through any conditional nodes
       for (let i = 0; i < nextNodes.length; i++) {
-        let nextNode = nextNodes[i];
-        let routingIterations = 0;
-        const maxIterations = 10; // Prevent infinite loops
-
-        while (nextNode && nextNode.node_type === 'conditional' && routingIterations < maxIterations) {
-          routingIterations++;
-          console.log(`[progressWorkflowStep] Auto-routing through conditional node: ${nextNode.label} (iteration ${routingIterations})`);
-
-          // Try form-based routing first
-          const conditionalNextNode = findConditionalNextNodeWithFormData(
-            nextNode,
-            accumulatedFormData,
-            connections,
-            nodes
-          );
-
-          if (conditionalNextNode) {
-            // Log the routing for history
-            console.log(`[progressWorkflowStep] Conditional routed to: ${conditionalNextNode.label}`);
-            nextNode = conditionalNextNode;
-          } else {
-            // Fallback to legacy decision-based routing if no form match
-            const legacyNext = findConditionalNextNode(nextNode, decision, connections, nodes);
-            if (legacyNext) {
-              nextNode = legacyNext;
-            } else {
-              // No route found - break the loop
-              console.warn(`[progressWorkflowStep] No route found from conditional node: ${nextNode.label}`);
-              break;
-            }
-          }
-        }
-
-        // Update the next node in the array
-        nextNodes[i] = nextNode;
+        nextNodes[i] = routeThroughConditionalNodes(nextNodes[i], accumulatedFormData, decision, connections, nodes);
       }
     }
 
@@ -2561,10 +3330,7 @@ export async function progressWorkflowStep(
         currentNodeLabel: currentNode.label,
         nodeType: currentNode.node_type
       });
-      return {
-        success: false,
-        error: `Rejection routing failed: No rejection path configured for "${currentNode.label}". Please add a rejection edge in the workflow editor.`
-      };
+      return failRouting(`Rejection routing failed: No rejection path configured for "${currentNode.label}". Please add a rejection edge in the workflow editor.`);
     }
 
     // Validate rejection doesn't create an immediate cycle (routing to self)
@@ -2578,10 +3344,7 @@ export async function progressWorkflowStep(
           targetNodeId: rejectionTarget.id,
           targetNodeLabel: rejectionTarget.label
         });
-        return {
-          success: false,
-          error: `Rejection routing failed: "${currentNode.label}" cannot reject to itself. Please configure a different rejection target.`
-        };
+        return failRouting(`Rejection routing failed: "${currentNode.label}" cannot reject to itself. Please configure a different rejection target.`);
       }
 
       // Check for short cycles (rejection target leads directly back to current node)
@@ -2600,11 +3363,12 @@ export async function progressWorkflowStep(
       }
     }
 
-    // Record approval if applicable
-    if (currentNode.node_type === 'approval' && decision) {
+    // Record approval if applicable (quorum votes were already recorded)
+    if (currentNode.node_type === 'approval' && decision && !quorumEvaluation) {
       await supabase.from('workflow_approvals').insert({
         workflow_instance_id: workflowInstanceId,
         node_id: currentNode.id,
+        active_step_id: activeStep?.id ?? null,
         approver_user_id: currentUserId,
         decision,
         feedback,
@@ -2748,7 +3512,7 @@ export async function progressWorkflowStep(
         const syncResult = await handleSyncNode(
           supabase,
           workflowInstanceId,
-          nextNode.id as string,
+          nextNode,
           newBranchId,
           connections
         );
@@ -2772,8 +3536,8 @@ export async function progressWorkflowStep(
           continue;
         }
 
-        if (syncResult.allArrived) {
-          // All branches arrived - determine sync leader
+        if (syncResult.released) {
+          // Enough branches arrived for the join policy - determine sync leader
           // The sync leader is the user with the highest role hierarchy level
           // They will be responsible for ASSIGNING someone to the next step
           // The sync node becomes an ACTIVE task for them
@@ -2856,6 +3620,26 @@ export async function progressWorkflowStep(
             .eq('node_id', nextNode.id)
             .eq('status', 'waiting');
 
+          // Wait-any / N-of-M joins don't need the branches still running
+          const joinEvaluation = syncResult.joinEvaluation;
+          if (joinEvaluation?.early) {
+            const { cancelledCount } = await cancelUnfinishedJoinBranches(
+              supabase,
+              workflowInstanceId,
+              newBranchId,
+              nextNode.id as string
+            );
+
+            if (instance.project_id) {
+              await supabase.from('project_updates').insert({
+                project_id: instance.project_id,
+                content: `**Join Released**: "${nextNode.label}" continued after ${joinEvaluation.arrived} of ${joinEvaluation.expected} branches (waits for ${formatJoinPolicy(getJoinPolicySettings(nextNode), joinEvaluation.expected)})` +
+                  (cancelledCount > 0 ? ` - ${cancelledCount} unfinished step(s) on the other branches were cancelled` : ''),
+                update_type: 'workflow',
+              });
+            }
+          }
+
           // DON'T auto-progress past the sync node!
           // Instead, create an ACTIVE step AT the sync node for the sync leader
           // The sync leader must assign someone to the next step before the workflow progresses
@@ -2865,7 +3649,7 @@ export async function progressWorkflowStep(
             .insert({
               workflow_instance_id: workflowInstanceId,
               node_id: nextNode.id, // Stay at the sync node
-              branch_id: 'main',
+              branch_id: extractParentBranch(newBranchId), // Back on the branch the fork was taken from
               status: 'active', // Active, waiting for sync leader to assign next step
               assigned_user_id: syncLeaderId || currentUserId || null,
               aggregate_decision: syncResult.aggregateDecision // Store aggregate for routing
@@ -2943,10 +3727,7 @@ export async function progressWorkflowStep(
           const roleName = roleInfo?.name || 'the required role';
           console.error('No users available for role:', { nodeId: nextNode.id, roleName, entityId: nextNode.entity_id });
 
-          return {
-            success: false,
-            error: `Cannot proceed to "${nextNode.label}": No users have the "${roleName}" role. Please assign at least one user to this role.`
-          };
+          return failRouting(`Cannot proceed to "${nextNode.label}": No users have the "${roleName}" role. Please assign at least one user to this role.`);
         }
       } else if (nextNode.node_type === 'department' && nextNode.entity_id && !nodeAssignedUserId) {
         // Check if there are any users in this department
@@ -2967,16 +3748,23 @@ export async function progressWorkflowStep(
           const deptName = deptInfo?.name || 'the required department';
           console.error('No users available for department:', { nodeId: nextNode.id, deptName, entityId: nextNode.entity_id });
 
-          return {
-            success: false,
-            error: `Cannot proceed to "${nextNode.label}": No users are assigned to the "${deptName}" department. Please assign at least one user to a role in this department.`
-          };
+          return failRouting(`Cannot proceed to "${nextNode.label}": No users are assigned to the "${deptName}" department. Please assign at least one user to a role in this department.`);
         }
       }
 
       let newStep: unknown = null;
       let stepCreationError: unknown = null;
 
+      // Timer nodes pause the branch - stamp when the timer sweep should resume it
+      const timerSettings = getNodeTimerSettings(nextNode);
+      const timerResumeAt = timerSettings
+        ? await computeTimerResumeAt(supabase, timerSettings, {
+            workflowInstanceId,
+            projectId: instance.project_id,
+            activatedAt: new Date(),
+          })
+        : null;
+
       // First, try to insert a new active step
       const { data: insertedStep, error: insertError } = await supabase
         .from('workflow_active_steps')
@@ -2985,7 +3773,8 @@ export async function progressWorkflowStep(
           node_id: nextNode.id,
           branch_id: newBranchId,
           status: 'active',
-          assigned_user_id: nodeAssignedUserId
+          assigned_user_id: nodeAssignedUserId,
+          timer_resume_at: timerResumeAt?.toISOString() ?? null
         })
         .select()
         .single();
@@ -3008,7 +3797,8 @@ export async function progressWorkflowStep(
               status: 'active',
               activated_at: new Date().toISOString(),
               completed_at: null,
-              assigned_user_id: nodeAssignedUserId
+              assigned_user_id: nodeAssignedUserId,
+              timer_resume_at: timerResumeAt?.toISOString() ?? null
             })
             .eq('workflow_instance_id', workflowInstanceId)
             .eq('node_id', nextNode.id)
@@ -3058,10 +3848,7 @@ export async function progressWorkflowStep(
 
       // CRITICAL: If we couldn't create or reactivate a step, fail the operation
       if (!newStep && stepCreationError) {
-        return {
-          success: false,
-          error: `Failed to create workflow step for "${nextNode.label}": ${(stepCreationError as Error).message || 'Unknown error'}`
-        };
+        return failRouting(`Failed to create workflow step for "${nextNode.label}": ${(stepCreationError as Error).message || 'Unknown error'}`);
       }
 
       if (newStep) {
@@ -3087,13 +3874,24 @@ export async function progressWorkflowStep(
     // Update workflow_history with branch_id
     const notesContent = inlineFormData
       ? JSON.stringify({ type: 'inline_form', data: inlineFormData })
+      : actionResults
+      ? JSON.stringify({ type: 'workflow_actions', data: { results: actionResults } })
+      : quorumEvaluation
+      ? JSON.stringify({
+          type: 'approval_quorum',
+          data: {
+            tally: formatQuorumTally(quorumEvaluation),
+            votes: quorumEvaluation.countedVotes,
+          }
+        })
       : null;
 
     const { data: historyEntry } = await supabase.from('workflow_history').insert({
       workflow_instance_id: workflowInstanceId,
       from_node_id: currentNode.id,
       to_node_id: nextNodes.length > 0 ? nextNodes[0]?.id : null,
-      handed_off_by: currentUserId,
+      handed_off_by: isAutoTransition ? null : currentUserId,
+      transition_type: isAutoTransition ? 'auto' : 'normal',
       approval_decision: decision,
       approval_feedback: feedback,
       form_response_id: formResponseId,
@@ -3133,8 +3931,21 @@ export async function progressWorkflowStep(
       } else if (decision === 'rejected') {
         updateContent = `**Rejected**: ${currentNode.label}\n` +
           `Reason: ${feedback || 'No reason provided'}`;
+      } else if (currentNode.node_type === 'fork') {
+        updateContent = `**Parallel**: ${currentNode.label} → ${allNextLabels || 'Complete'}`;
+      } else if (actionResults) {
+        const actionLines = actionResults.map((r) =>
+          r.success ? `- ${r.summary}` : `- Failed: ${r.summary} (${r.error})`
+        );
+        updateContent = [`**Automated**: ${currentNode.label} → ${allNextLabels || 'Complete'}`, ...actionLines].join('\n');
       } else {
-        updateContent = `**Progressed**: ${currentNode.label} → ${allNextLabels || 'Complete'}`;
+        updateContent = isAutoTransition
+          ? `**Resumed**: ${currentNode.label} → ${allNextLabels || 'Complete'}`
+          : `**Progressed**: ${currentNode.label} → ${allNextLabels || 'Complete'}`;
+      }
+
+      if (quorumEvaluation) {
+        updateContent += `\nQuorum: ${formatQuorumTally(quorumEvaluation)}`;
       }
 
       // NOTE: Form data is NOT included in project updates.
@@ -3144,7 +3955,7 @@ export async function progressWorkflowStep(
       await supabase.from('project_updates').insert({
         project_id: instance.project_id,
         content: updateContent,
-        created_by: currentUserId,
+        created_by: isAutoTransition ? null : currentUserId,
         workflow_history_id: workflowHistoryId,
       });
     }
@@ -3172,16 +3983,13 @@ export async function progressWorkflowStep(
         nextNodesCount: nextNodes.length,
         newActiveStepsCount: newActiveSteps.length
       });
-      return {
-        success: false,
-        error: `Rejection failed: Could not route "${currentNode.label}" to next step. The workflow cannot be completed on rejection - please check the workflow configuration.`
-      };
+      return failRouting(`Rejection failed: Could not route "${currentNode.label}" to next step. The workflow cannot be completed on rejection - please check the workflow configuration.`);
     }
 
     // Capture snapshot if workflow is completing
     let completedSnapshot = null;
     if (workflowComplete) {
-      completedSnapshot = await captureWorkflowSnapshot(supabase, instance.workflow_template_id, workflowInstanceId);
+      completedSnapshot = await captureWorkflowSnapshot(supabase, instance, workflowInstanceId);
     }
 
     // Update workflow instance
@@ -3197,13 +4005,15 @@ export async function progressWorkflowStep(
       })
       .eq('id', workflowInstanceId);
 
-    // Handle workflow completion
-    if (workflowComplete && instance.project_id) {
+    // Handle workflow completion - a finished sub-workflow hands back to its parent instead of completing the project
+    if (workflowComplete && instance.parent_instance_id) {
+      await resumeParentWorkflow(supabase, instance, currentUserId);
+    } else if (workflowComplete && instance.project_id) {
       await completeProject(supabase, instance.project_id);
     }
 
-    // Add contributors
-    if (instance.project_id) {
+    // Add contributors (system transitions don't count as a contribution)
+    if (instance.project_id && !isAutoTransition) {
       await supabase
         .from('project_contributors')
         .upsert({
@@ -3214,13 +4024,26 @@ export async function progressWorkflowStep(
         }, { onConflict: 'project_id,user_id' });
     }
 
+    // Action and fork nodes don't wait for anyone - run any we just reached and continue past them
+    const resultingActiveSteps = await runReachedAutomaticSteps(
+      supabase,
+      workflowInstanceId,
+      newActiveSteps,
+      nodes,
+      currentUserId,
+      options.actionDepth ?? 0
+    );
+
+    // Sub-workflow nodes start their child workflow and wait for it
+    await launchReachedSubworkflows(supabase, instance, newActiveSteps, nodes, currentUserId);
+
     return {
       success: true,
       nextNode: primaryNextNode ?? undefined,
-      newActiveSteps
+      newActiveSteps: resultingActiveSteps
     };
   } catch (error: unknown) {
     console.error('Error progressing workflow step:', error);
-    return { success: false, error: 'Internal server error' };
+    return failRouting('Internal server error');
   }
 }
@@ -0,0 +1,124 @@
+/**
+ * Workflow Form Draft Service
+ * Server-side drafts of in-progress workflow step forms, one per user per
+ * step. The step dialog autosaves into a draft while the assignee types and
+ * restores it when they come back, on any device.
+ *
+ * Drafts are private to their author (workflow_form_drafts RLS). They're
+ * cleared when the step is progressed with its form, and when the step or
+ * node assignment moves to someone else.
+ */
+
+import { isRecord } from '@/lib/type-guards';
+
+export interface WorkflowFormDraft {
+  id: string;
+  workflow_instance_id: string;
+  node_id: string;
+  active_step_id: string | null;
+  user_id: string;
+  form_data: Record<string, unknown>;
+  // Decision, feedback and next-step assignees picked in the step dialog
+  step_state: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkflowFormDraftInput {
+  workflowInstanceId: string;
+  nodeId: string;
+  activeStepId: string | null;
+  userId: string;
+  formData: Record<string, unknown>;
+  stepState: Record<string, unknown>;
+}
+
+/**
+ * The user's draft for a step, or null. A draft written for an earlier
+ * activation of the node (the step was sent back and reached again) is stale
+ * and is discarded.
+ */
+export async function getWorkflowFormDraft(
+  supabase: any,
+  userId: string,
+  workflowInstanceId: string,
+  nodeId: string,
+  activeStepId: string | null
+): Promise<WorkflowFormDraft | null> {
+  const { data, error } = await supabase
+    .from('workflow_form_drafts')
+    .select('*')
+    .eq('workflow_instance_id', workflowInstanceId)
+    .eq('node_id', nodeId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading workflow form draft:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  if (activeStepId && data.active_step_id && data.active_step_id !== activeStepId) {
+    await clearWorkflowFormDrafts(supabase, { workflowInstanceId, nodeId, userId });
+    return null;
+  }
+
+  return {
+    ...data,
+    form_data: isRecord(data.form_data) ? data.form_data : {},
+    step_state: isRecord(data.step_state) ? data.step_state : {},
+  };
+}
+
+/**
+ * Create or replace the user's draft for a step
+ */
+export async function saveWorkflowFormDraft(
+  supabase: any,
+  input: WorkflowFormDraftInput
+): Promise<{ success: boolean; draft?: WorkflowFormDraft; error?: string }> {
+  const { data, error } = await supabase
+    .from('workflow_form_drafts')
+    .upsert({
+      workflow_instance_id: input.workflowInstanceId,
+      node_id: input.nodeId,
+      active_step_id: input.activeStepId,
+      user_id: input.userId,
+      form_data: input.formData,
+      step_state: input.stepState,
+    }, { onConflict: 'workflow_instance_id,node_id,user_id' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving workflow form draft:', error);
+    return { success: false, error: 'Failed to save draft' };
+  }
+
+  return { success: true, draft: data };
+}
+
+/**
+ * Delete the drafts for a step - everyone's, or only one user's. Best effort:
+ * RLS limits it to the caller's own drafts unless they can manage the workflow.
+ */
+export async function clearWorkflowFormDrafts(
+  supabase: any,
+  params: { workflowInstanceId: string; nodeId: string; userId?: string }
+): Promise<void> {
+  let query = supabase
+    .from('workflow_form_drafts')
+    .delete()
+    .eq('workflow_instance_id', params.workflowInstanceId)
+    .eq('node_id', params.nodeId);
+
+  if (params.userId) {
+    query = query.eq('user_id', params.userId);
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error('Error clearing workflow form drafts:', error);
+  }
+}
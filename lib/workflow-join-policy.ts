@@ -0,0 +1,91 @@
+/**
+ * Workflow Join Policy
+ * Fork nodes start every outgoing branch at once; the join (sync) node they
+ * lead to decides when the workflow continues:
+ * - all:    wait for every branch (the default, and how sync nodes always behaved)
+ * - any:    continue as soon as one branch arrives
+ * - n_of_m: continue once N of the fork's branches have arrived
+ *
+ * When a join releases before every branch has arrived, the branches still
+ * running are cancelled - their work is no longer needed.
+ */
+
+import { isRecord } from '@/lib/type-guards';
+
+export type JoinPolicy = 'all' | 'any' | 'n_of_m';
+
+export interface JoinPolicySettings {
+  policy: JoinPolicy;
+  requiredBranches: number;
+}
+
+export interface JoinEvaluation {
+  released: boolean;
+  required: number;
+  arrived: number;
+  expected: number;
+  // Released before every branch arrived - the rest are cancelled
+  early: boolean;
+}
+
+/**
+ * Read the join policy from a join (sync) node (snapshot or template row).
+ * Nodes without a policy wait for every branch.
+ */
+export function getJoinPolicySettings(node: Record<string, unknown>): JoinPolicySettings {
+  const settings = isRecord(node.settings) ? node.settings : {};
+  const policy: JoinPolicy = settings.join_policy === 'any' || settings.join_policy === 'n_of_m'
+    ? settings.join_policy
+    : 'all';
+  const required = Math.floor(Number(settings.join_required_branches));
+
+  return {
+    policy,
+    requiredBranches: Number.isFinite(required) && required > 0 ? required : 1,
+  };
+}
+
+/**
+ * How many branches must arrive before the join releases, out of the
+ * branches the fork started
+ */
+export function getJoinRequiredBranches(settings: JoinPolicySettings, expectedBranches: number): number {
+  if (expectedBranches <= 0) return 1;
+  if (settings.policy === 'any') return 1;
+  if (settings.policy === 'n_of_m') return Math.min(settings.requiredBranches, expectedBranches);
+  return expectedBranches;
+}
+
+/**
+ * Decide whether a join releases now that another branch has arrived
+ * @param arrivedBranches - branches of the current fork at the join, including the one arriving
+ */
+export function evaluateJoin(
+  settings: JoinPolicySettings,
+  expectedBranches: number,
+  arrivedBranches: number
+): JoinEvaluation {
+  const required = getJoinRequiredBranches(settings, expectedBranches);
+  const released = arrivedBranches >= required;
+
+  return {
+    released,
+    required,
+    arrived: arrivedBranches,
+    expected: expectedBranches,
+    early: released && arrivedBranches < expectedBranches,
+  };
+}
+
+/**
+ * Human readable policy, e.g. "all 3 branches", "any branch", "2 of 3 branches"
+ */
+export function formatJoinPolicy(settings: JoinPolicySettings, expectedBranches?: number): string {
+  if (settings.policy === 'any') return 'any branch';
+  if (settings.policy === 'n_of_m') {
+    return expectedBranches
+      ? `${getJoinRequiredBranches(settings, expectedBranches)} of ${expectedBranches} branches`
+      : `${settings.requiredBranches} branch${settings.requiredBranches === 1 ? '' : 'es'}`;
+  }
+  return expectedBranches ? `all ${expectedBranches} branches` : 'all branches';
+}
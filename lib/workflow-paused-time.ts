@@ -0,0 +1,62 @@
+/**
+ * Workflow Paused Time
+ * A paused workflow's clocks stop: SLAs, duration timers and duration
+ * analytics leave out the time it spent paused. Every pause is recorded on the
+ * instance as an interval (workflow_instances.paused_intervals), so the paused
+ * time can be measured in the unit each clock counts in - wall-clock time for
+ * calendar hours and days, working hours for business-time clocks. A pause
+ * from Friday evening to Monday morning holds no working time at all.
+ */
+
+import { getWorkingHoursBetween, BusinessCalendar } from '@/lib/business-calendar-service';
+import { isString, isRecord } from '@/lib/type-guards';
+
+export interface PausedInterval {
+  paused_at: string;
+  resumed_at: string;
+}
+
+export interface PausedTime {
+  ms: number;
+  // Paused time that fell inside the business calendar's working hours
+  workingHours: number;
+}
+
+export const NO_PAUSED_TIME: PausedTime = { ms: 0, workingHours: 0 };
+
+/**
+ * Read workflow_instances.paused_intervals, dropping malformed entries.
+ */
+export function parsePausedIntervals(value: unknown): PausedInterval[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((interval): interval is PausedInterval =>
+    isRecord(interval) && isString(interval.paused_at) && isString(interval.resumed_at)
+  );
+}
+
+/**
+ * Paused time falling between start and end (no upper limit when end is
+ * omitted), e.g. the pauses since a step was activated.
+ */
+export function getPausedTimeBetween(
+  calendar: BusinessCalendar,
+  intervals: PausedInterval[],
+  start: Date,
+  end?: Date | null
+): PausedTime {
+  const endMs = end ? end.getTime() : Number.POSITIVE_INFINITY;
+  let ms = 0;
+  let workingHours = 0;
+
+  for (const interval of intervals) {
+    const fromMs = Math.max(new Date(interval.paused_at).getTime(), start.getTime());
+    const toMs = Math.min(new Date(interval.resumed_at).getTime(), endMs);
+    // Also skips intervals with unparseable timestamps (NaN)
+    if (!(toMs > fromMs)) continue;
+
+    ms += toMs - fromMs;
+    workingHours += getWorkingHoursBetween(calendar, new Date(fromMs), new Date(toMs));
+  }
+
+  return { ms, workingHours };
+}
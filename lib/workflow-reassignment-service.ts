@@ -0,0 +1,292 @@
+/**
+ * Workflow Reassignment Service
+ * Bulk-moves workflow work from one user to another (e.g. someone left the
+ * team): active/waiting steps assigned to them and their
+ * workflow_node_assignments, across every active or paused instance.
+ *
+ * planWorkflowReassignment is side-effect free and powers the admin preview;
+ * reassignWorkflowSteps applies the same plan.
+ */
+
+import { assignProjectToNode, reevaluatePendingApprovalQuorums } from './workflow-execution-service';
+import { clearWorkflowFormDrafts } from './workflow-form-draft-service';
+import { isString, isRecord } from './type-guards';
+
+export interface ReassignmentItem {
+  kind: 'active_step' | 'node_assignment';
+  id: string;
+  workflowInstanceId: string;
+  instanceStatus: string;
+  projectId: string | null;
+  projectName: string | null;
+  nodeId: string;
+  nodeLabel: string;
+  // active_step: 'active' or 'waiting'
+  stepStatus: string | null;
+  // node_assignment: the new user is already assigned to this node, so the old row is just removed
+  alreadyAssigned: boolean;
+  // The new user doesn't hold the node's role - they can still act on it through the assignment
+  missingRole: boolean;
+}
+
+export interface ReassignmentPlan {
+  fromUser: { id: string; name: string | null };
+  toUser: { id: string; name: string | null };
+  items: ReassignmentItem[];
+}
+
+export interface ReassignmentResult {
+  success: boolean;
+  reassignedSteps: number;
+  reassignedAssignments: number;
+  removedDuplicates: number;
+  errors: string[];
+  error?: string;
+}
+
+async function getUserName(supabase: any, userId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('name')
+    .eq('id', userId)
+    .maybeSingle();
+  return isString(data?.name) ? data.name : null;
+}
+
+/**
+ * Work out everything that would move from one user to another.
+ */
+export async function planWorkflowReassignment(
+  supabase: any,
+  fromUserId: string,
+  toUserId: string,
+  instanceIds?: string[]
+): Promise<{ plan?: ReassignmentPlan; error?: string }> {
+  const [fromName, toName] = await Promise.all([
+    getUserName(supabase, fromUserId),
+    getUserName(supabase, toUserId),
+  ]);
+
+  if (!toName) {
+    return { error: 'User to reassign to was not found' };
+  }
+
+  let stepsQuery = supabase
+    .from('workflow_active_steps')
+    .select('id, workflow_instance_id, node_id, status')
+    .eq('assigned_user_id', fromUserId)
+    .in('status', ['active', 'waiting']);
+  let assignmentsQuery = supabase
+    .from('workflow_node_assignments')
+    .select('id, workflow_instance_id, node_id')
+    .eq('user_id', fromUserId);
+
+  if (instanceIds?.length) {
+    stepsQuery = stepsQuery.in('workflow_instance_id', instanceIds);
+    assignmentsQuery = assignmentsQuery.in('workflow_instance_id', instanceIds);
+  }
+
+  const [{ data: steps, error: stepsError }, { data: assignments, error: assignmentsError }] = await Promise.all([
+    stepsQuery,
+    assignmentsQuery,
+  ]);
+
+  if (stepsError || assignmentsError) {
+    console.error('Error loading work to reassign:', stepsError || assignmentsError);
+    return { error: 'Failed to load workflow assignments' };
+  }
+
+  const touchedInstanceIds = [...new Set([
+    ...(steps || []).map((s: Record<string, unknown>) => s.workflow_instance_id),
+    ...(assignments || []).map((a: Record<string, unknown>) => a.workflow_instance_id),
+  ].filter(isString))];
+
+  const plan: ReassignmentPlan = {
+    fromUser: { id: fromUserId, name: fromName },
+    toUser: { id: toUserId, name: toName },
+    items: [],
+  };
+
+  if (touchedInstanceIds.length === 0) {
+    return { plan };
+  }
+
+  const [{ data: instances, error: instancesError }, { data: existingAssignments }, { data: toUserRoles }] = await Promise.all([
+    supabase
+      .from('workflow_instances')
+      .select('id, status, project_id, started_snapshot, projects(name)')
+      .in('id', touchedInstanceIds)
+      .in('status', ['active', 'paused']),
+    supabase
+      .from('workflow_node_assignments')
+      .select('workflow_instance_id, node_id')
+      .eq('user_id', toUserId)
+      .in('workflow_instance_id', touchedInstanceIds),
+    supabase
+      .from('user_roles')
+      .select('role_id')
+      .eq('user_id', toUserId),
+  ]);
+
+  if (instancesError) {
+    console.error('Error loading workflow instances to reassign:', instancesError);
+    return { error: 'Failed to load workflow instances' };
+  }
+
+  const instanceMap = new Map<string, Record<string, any>>((instances || []).map((i: Record<string, any>) => [i.id, i]));
+  const toUserAssigned = new Set((existingAssignments || []).map((a: Record<string, unknown>) => `${a.workflow_instance_id}:${a.node_id}`));
+  const toUserRoleIds = new Set((toUserRoles || []).map((r: Record<string, unknown>) => r.role_id));
+
+  const describe = (instanceId: string, nodeId: string) => {
+    const instance = instanceMap.get(instanceId);
+    if (!instance) return null;
+
+    const snapshotNodes = isRecord(instance.started_snapshot) && Array.isArray(instance.started_snapshot.nodes)
+      ? instance.started_snapshot.nodes
+      : [];
+    const node = snapshotNodes.find((n: unknown) => isRecord(n) && n.id === nodeId) as Record<string, unknown> | undefined;
+    const project = Array.isArray(instance.projects) ? instance.projects[0] : instance.projects;
+
+    return {
+      instanceStatus: instance.status as string,
+      projectId: isString(instance.project_id) ? instance.project_id : null,
+      projectName: isRecord(project) && isString(project.name) ? project.name : null,
+      nodeLabel: node && isString(node.label) ? node.label : 'Unknown step',
+      missingRole: !!node && isString(node.entity_id) && (node.node_type === 'role' || node.node_type === 'approval') && !toUserRoleIds.has(node.entity_id),
+    };
+  };
+
+  for (const step of steps || []) {
+    const details = describe(step.workflow_instance_id, step.node_id);
+    if (!details) continue;
+    plan.items.push({
+      kind: 'active_step',
+      id: step.id,
+      workflowInstanceId: step.workflow_instance_id,
+      nodeId: step.node_id,
+      stepStatus: step.status,
+      alreadyAssigned: false,
+      ...details,
+    });
+  }
+
+  for (const assignment of assignments || []) {
+    const details = describe(assignment.workflow_instance_id, assignment.node_id);
+    if (!details) continue;
+    plan.items.push({
+      kind: 'node_assignment',
+      id: assignment.id,
+      workflowInstanceId: assignment.workflow_instance_id,
+      nodeId: assignment.node_id,
+      stepStatus: null,
+      alreadyAssigned: toUserAssigned.has(`${assignment.workflow_instance_id}:${assignment.node_id}`),
+      ...details,
+    });
+  }
+
+  plan.items.sort((a, b) =>
+    (a.projectName || '').localeCompare(b.projectName || '') || a.kind.localeCompare(b.kind)
+  );
+
+  return { plan };
+}
+
+/**
+ * Move the planned work from one user to another. Active steps are added to
+ * the new user's project assignments so they can progress them straight away;
+ * the old user's form drafts for the moved steps are discarded.
+ */
+export async function reassignWorkflowSteps(
+  supabase: any,
+  fromUserId: string,
+  toUserId: string,
+  actorId: string,
+  instanceIds?: string[]
+): Promise<ReassignmentResult> {
+  const result: ReassignmentResult = { success: true, reassignedSteps: 0, reassignedAssignments: 0, removedDuplicates: 0, errors: [] };
+
+  const { plan, error } = await planWorkflowReassignment(supabase, fromUserId, toUserId, instanceIds);
+  if (!plan) {
+    return { ...result, success: false, error };
+  }
+
+  const touchedProjects = new Map<string, number>();
+  const touchedInstances = new Set<string>();
+
+  for (const item of plan.items) {
+    try {
+      if (item.kind === 'active_step') {
+        const { error: stepError } = await supabase
+          .from('workflow_active_steps')
+          .update({ assigned_user_id: toUserId })
+          .eq('id', item.id)
+          .eq('assigned_user_id', fromUserId);
+        if (stepError) throw stepError;
+        result.reassignedSteps++;
+
+        if (item.projectId) {
+          await assignProjectToNode(supabase, item.projectId, { id: item.nodeId, label: item.nodeLabel }, actorId, toUserId);
+        }
+      } else if (item.alreadyAssigned) {
+        const { error: deleteError } = await supabase
+          .from('workflow_node_assignments')
+          .delete()
+          .eq('id', item.id);
+        if (deleteError) throw deleteError;
+        result.removedDuplicates++;
+      } else {
+        const { error: assignmentError } = await supabase
+          .from('workflow_node_assignments')
+          .update({ user_id: toUserId, assigned_by: actorId, assigned_at: new Date().toISOString() })
+          .eq('id', item.id);
+        if (assignmentError) throw assignmentError;
+        result.reassignedAssignments++;
+      }
+
+      // The old assignee's half-filled form goes with the work they handed over
+      await clearWorkflowFormDrafts(supabase, { workflowInstanceId: item.workflowInstanceId, nodeId: item.nodeId, userId: fromUserId });
+      touchedInstances.add(item.workflowInstanceId);
+
+      if (item.projectId) {
+        touchedProjects.set(item.projectId, (touchedProjects.get(item.projectId) || 0) + 1);
+      }
+    } catch (itemError: unknown) {
+      console.error('Error reassigning workflow item:', { item, error: itemError });
+      const message = itemError instanceof Error ? itemError.message : (isRecord(itemError) && isString(itemError.message) ? itemError.message : 'Unknown error');
+      result.errors.push(`${item.projectName || item.workflowInstanceId} - ${item.nodeLabel}: ${message}`);
+    }
+  }
+
+  // Dropping a duplicate assignee shrinks an approval node's pool, which can settle its quorum
+  for (const workflowInstanceId of touchedInstances) {
+    const sweep = await reevaluatePendingApprovalQuorums(supabase, { workflowInstanceId });
+    result.errors.push(...sweep.errors);
+  }
+
+  const fromName = plan.fromUser.name || 'a former assignee';
+  const toName = plan.toUser.name || 'another user';
+
+  for (const [projectId, count] of touchedProjects) {
+    await supabase.from('project_updates').insert({
+      project_id: projectId,
+      content: `**Workflow Reassigned**: ${count} workflow assignment${count === 1 ? '' : 's'} moved from ${fromName} to ${toName}`,
+      created_by: actorId,
+    });
+  }
+
+  if (result.reassignedSteps > 0) {
+    const { error: notifyError } = await supabase.from('notifications').insert({
+      user_id: toUserId,
+      title: 'Workflow steps reassigned to you',
+      message: `${result.reassignedSteps} workflow step${result.reassignedSteps === 1 ? ' was' : 's were'} reassigned to you from ${fromName}.`,
+      type: 'workflow_reassignment',
+      link: '/dashboard',
+    });
+    if (notifyError) {
+      console.error('Error notifying reassigned user:', notifyError);
+    }
+  }
+
+  result.success = result.errors.length === 0;
+  return result;
+}
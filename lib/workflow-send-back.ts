@@ -0,0 +1,116 @@
+/**
+ * Workflow Send-Back
+ * Approvers on nodes with allow_send_back can return the work to any step that
+ * was already completed in this workflow instance (not just the configured
+ * rejection edge), with a required reason. The engine reopens the target's
+ * step on its branch; history is never rewritten - the send-back is recorded
+ * as its own workflow_history entry (transition_type 'send_back') carrying the
+ * target's rework count for this instance.
+ */
+
+import { isString, isRecord } from '@/lib/type-guards';
+
+// Node types that hold human work and can be sent back to
+export const SEND_BACK_TARGET_NODE_TYPES = ['role', 'approval', 'form'] as const;
+
+export interface SendBackStep {
+  id: string;
+  node_id: string;
+  branch_id: string | null;
+  status: string;
+  completed_at?: string | null;
+  assigned_user_id?: string | null;
+}
+
+export interface SendBackTarget {
+  nodeId: string;
+  label: string;
+  nodeType: string;
+  // The completed step that gets reopened
+  step: SendBackStep;
+}
+
+export interface SendBackNotes {
+  type: 'send_back';
+  data: {
+    reason: string;
+    targetNodeLabel: string;
+    reworkCount: number;
+  };
+}
+
+/**
+ * Whether an approval node lets approvers send work back. Defaults to on,
+ * matching the editor's default for allow_send_back.
+ */
+export function allowsSendBack(node: Record<string, unknown>): boolean {
+  if (node.node_type !== 'approval') return false;
+  const settings = isRecord(node.settings) ? node.settings : {};
+  return settings.allow_send_back !== false;
+}
+
+/**
+ * A step on `branchId` can be reopened from `currentBranchId` when it's the same
+ * branch or a branch the current one forked from (e.g. "main" from "main-0_abc").
+ * Steps on sibling branches can't - reopening them wouldn't bring the work back here.
+ */
+export function isSameOrAncestorBranch(branchId: string | null, currentBranchId: string | null): boolean {
+  const target = branchId || 'main';
+  const current = currentBranchId || 'main';
+  return current === target || current.startsWith(`${target}-`);
+}
+
+/**
+ * Steps an approver can send the current step back to: completed human steps
+ * on this branch or an ancestor branch, most recently completed first.
+ * Nodes that are currently active elsewhere in the instance are excluded.
+ */
+export function getSendBackTargets(
+  nodes: Record<string, unknown>[],
+  steps: SendBackStep[],
+  currentNodeId: string,
+  currentBranchId: string | null
+): SendBackTarget[] {
+  const activeNodeIds = new Set(
+    steps.filter((s) => s.status === 'active' || s.status === 'waiting').map((s) => s.node_id)
+  );
+
+  const completed = steps
+    .filter((s) => s.status === 'completed' && s.node_id !== currentNodeId)
+    .filter((s) => isSameOrAncestorBranch(s.branch_id, currentBranchId))
+    .sort((a, b) => new Date(b.completed_at || 0).getTime() - new Date(a.completed_at || 0).getTime());
+
+  const targets: SendBackTarget[] = [];
+  const seen = new Set<string>();
+
+  for (const step of completed) {
+    if (seen.has(step.node_id) || activeNodeIds.has(step.node_id)) continue;
+
+    const node = nodes.find((n) => n.id === step.node_id);
+    if (!node || !(SEND_BACK_TARGET_NODE_TYPES as readonly unknown[]).includes(node.node_type)) continue;
+
+    seen.add(step.node_id);
+    targets.push({
+      nodeId: step.node_id,
+      label: isString(node.label) ? node.label : 'Untitled step',
+      nodeType: node.node_type as string,
+      step,
+    });
+  }
+
+  return targets;
+}
+
+/**
+ * Read send-back details from a workflow_history notes value, or null if the
+ * entry isn't a send-back.
+ */
+export function parseSendBackNotes(notes: unknown): SendBackNotes['data'] | null {
+  if (!isString(notes)) return null;
+  try {
+    const parsed = JSON.parse(notes);
+    return parsed?.type === 'send_back' && isRecord(parsed.data) ? (parsed.data as SendBackNotes['data']) : null;
+  } catch {
+    return null;
+  }
+}
@@ -10,6 +10,10 @@
 import { createServerSupabase } from './supabase-server';
 
 import { logger } from './debug-logger';
+import { resumeParentWorkflow } from './workflow-subworkflow-service';
+import { getNodeTimerSettings } from './workflow-timer-service';
+import { parsePausedIntervals, PausedInterval } from './workflow-paused-time';
+import { isRecord } from './type-guards';
 
 // Helper to get supabase client with null check
 async function getSupabase() {
@@ -30,6 +34,8 @@ export interface WorkflowTemplate {
   description: string | null;
   created_by: string | null;
   is_active: boolean;
+  current_version_id?: string | null;
+  has_unpublished_changes?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -63,9 +69,15 @@ export interface WorkflowInstance {
   project_id: string | null;
   task_id: string | null;
   current_node_id: string | null;
-  status: 'active' | 'completed' | 'cancelled';
+  status: 'active' | 'paused' | 'completed' | 'cancelled';
+  workflow_template_version_id?: string | null;
   started_at: string;
   completed_at: string | null;
+  paused_at?: string | null;
+  paused_by?: string | null;
+  pause_reason?: string | null;
+  total_paused_seconds?: number;
+  paused_intervals?: PausedInterval[];
 }
 
 export interface WorkflowHistory {
@@ -833,22 +845,259 @@ export async function completeWorkflow(instanceId: string): Promise<void> {
 }
 
 /**
- * Cancel workflow instance
+ * Cancel workflow instance (and any sub-workflows still running under it)
  */
 export async function cancelWorkflow(instanceId: string): Promise<void> {
   const supabase = await getSupabase();
 
-  const { error } = await supabase
+  let instanceIds = [instanceId];
+  while (instanceIds.length > 0) {
+    const { error } = await supabase
+      .from('workflow_instances')
+      .update({ status: 'cancelled' })
+      .in('id', instanceIds);
+
+    if (error) {
+      logger.error('Error cancelling workflow instance', { action: 'cancelWorkflow', instanceId }, error);
+      throw error;
+    }
+
+    const { data: children } = await supabase
+      .from('workflow_instances')
+      .select('id')
+      .in('parent_instance_id', instanceIds)
+      .in('status', ['active', 'paused']);
+    instanceIds = (children || []).map((child: { id: string }) => child.id);
+  }
+
+  logger.info('Workflow cancelled', { instanceId });
+}
+
+/**
+ * Pause an active workflow instance (e.g. client on hold). Its active steps
+ * stay where they are but can't be progressed until it is resumed. Running
+ * sub-workflows are paused with it.
+ */
+export async function pauseWorkflow(
+  supabase: any,
+  instanceId: string,
+  userId: string,
+  reason?: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const pauseFields = {
+    status: 'paused',
+    paused_at: new Date().toISOString(),
+    paused_by: userId,
+    pause_reason: reason?.trim() || null,
+  };
+
+  const { data: paused, error } = await supabase
     .from('workflow_instances')
-    .update({ status: 'cancelled' })
-    .eq('id', instanceId);
+    .update(pauseFields)
+    .eq('id', instanceId)
+    .eq('status', 'active')
+    .select('id, project_id')
+    .maybeSingle();
 
   if (error) {
-    logger.error('Error cancelling workflow instance', { action: 'cancelWorkflow', instanceId }, error);
-    throw error;
+    logger.error('Error pausing workflow instance', { action: 'pauseWorkflow', instanceId }, error);
+    return { success: false, error: 'Failed to pause workflow' };
   }
 
-  logger.info('Workflow cancelled', { instanceId });
+  if (!paused) {
+    return { success: false, error: 'Only active workflows can be paused' };
+  }
+
+  let parentIds = [instanceId];
+  while (parentIds.length > 0) {
+    const { data: children, error: childError } = await supabase
+      .from('workflow_instances')
+      .update(pauseFields)
+      .in('parent_instance_id', parentIds)
+      .eq('status', 'active')
+      .select('id');
+
+    if (childError) {
+      logger.error('Error pausing sub-workflows', { action: 'pauseWorkflow', instanceId }, childError);
+      break;
+    }
+    parentIds = (children || []).map((child: { id: string }) => child.id);
+  }
+
+  if (paused.project_id) {
+    await supabase.from('project_updates').insert({
+      project_id: paused.project_id,
+      content: '**Workflow Paused**' + (reason?.trim() ? `\nReason: ${reason.trim()}` : ''),
+      created_by: userId,
+    });
+  }
+
+  logger.info('Workflow paused', { instanceId });
+  return { success: true };
+}
+
+/**
+ * Flip one paused instance back to active and record the pause in its
+ * paused_intervals. Returns null if it wasn't paused.
+ */
+async function resumePausedInstance(
+  supabase: any,
+  instance: {
+    id: string;
+    paused_at: string | null;
+    total_paused_seconds: number | null;
+    paused_intervals: unknown;
+    started_snapshot: unknown;
+  },
+  now: Date
+): Promise<{ pausedSeconds: number } | { error: string } | null> {
+  const pausedMs = instance.paused_at ? Math.max(0, now.getTime() - new Date(instance.paused_at).getTime()) : 0;
+  const pausedSeconds = Math.round(pausedMs / 1000);
+  const pausedIntervals = parsePausedIntervals(instance.paused_intervals);
+  if (instance.paused_at && pausedMs > 0) {
+    pausedIntervals.push({ paused_at: instance.paused_at, resumed_at: now.toISOString() });
+  }
+
+  const { data: resumed, error: resumeError } = await supabase
+    .from('workflow_instances')
+    .update({
+      status: 'active',
+      paused_at: null,
+      paused_by: null,
+      pause_reason: null,
+      total_paused_seconds: (instance.total_paused_seconds || 0) + pausedSeconds,
+      paused_intervals: pausedIntervals,
+    })
+    .eq('id', instance.id)
+    .eq('status', 'paused')
+    .select('id')
+    .maybeSingle();
+
+  if (resumeError) {
+    logger.error('Error resuming workflow instance', { action: 'resumeWorkflow', instanceId: instance.id }, resumeError);
+    return { error: 'Failed to resume workflow' };
+  }
+
+  if (!resumed) {
+    return null;
+  }
+
+  if (pausedMs > 0) {
+    const { data: steps } = await supabase
+      .from('workflow_active_steps')
+      .select('id, node_id, timer_resume_at')
+      .eq('workflow_instance_id', instance.id)
+      .eq('status', 'active');
+
+    const snapshot = isRecord(instance.started_snapshot) ? instance.started_snapshot : {};
+    const snapshotNodes = Array.isArray(snapshot.nodes) ? snapshot.nodes : [];
+
+    for (const step of steps || []) {
+      const node = snapshotNodes.find((n: unknown) => isRecord(n) && n.id === step.node_id);
+      const timer = isRecord(node) ? getNodeTimerSettings(node) : null;
+
+      // Re-stamped by the SLA and timer sweeps with the paused time left out.
+      // Date timers keep their date - a pause doesn't move it.
+      const { error: stepError } = await supabase
+        .from('workflow_active_steps')
+        .update({
+          sla_due_at: null,
+          timer_resume_at: timer?.mode === 'duration' ? null : step.timer_resume_at,
+        })
+        .eq('id', step.id);
+
+      if (stepError) {
+        logger.error('Error clearing clocks on resumed step', { action: 'resumeWorkflow', instanceId: instance.id, stepId: step.id }, stepError);
+      }
+    }
+  }
+
+  return { pausedSeconds };
+}
+
+/**
+ * Resume a paused workflow instance. The pause is recorded as an interval on
+ * the instance so SLAs, duration timers and analytics don't count it.
+ * Sub-workflows paused with it resume too, and any that finished while it was
+ * paused hand back to it now.
+ */
+export async function resumeWorkflow(
+  supabase: any,
+  instanceId: string,
+  userId: string
+): Promise<{ success: boolean; pausedSeconds?: number; error?: string }> {
+  const { data: instance, error: instanceError } = await supabase
+    .from('workflow_instances')
+    .select('id, status, project_id, paused_at, total_paused_seconds, paused_intervals, started_snapshot')
+    .eq('id', instanceId)
+    .single();
+
+  if (instanceError || !instance) {
+    return { success: false, error: 'Workflow instance not found' };
+  }
+
+  if (instance.status !== 'paused') {
+    return { success: false, error: 'Only paused workflows can be resumed' };
+  }
+
+  const now = new Date();
+  const result = await resumePausedInstance(supabase, instance, now);
+
+  if (!result) {
+    return { success: false, error: 'Only paused workflows can be resumed' };
+  }
+  if ('error' in result) {
+    return { success: false, error: result.error };
+  }
+
+  const resumedIds = [instanceId];
+  let parentIds = [instanceId];
+  while (parentIds.length > 0) {
+    const { data: children } = await supabase
+      .from('workflow_instances')
+      .select('id, paused_at, total_paused_seconds, paused_intervals, started_snapshot')
+      .in('parent_instance_id', parentIds)
+      .eq('status', 'paused');
+
+    for (const child of children || []) {
+      await resumePausedInstance(supabase, child, now);
+    }
+    parentIds = (children || []).map((child: { id: string }) => child.id);
+    resumedIds.push(...parentIds);
+  }
+
+  if (instance.project_id) {
+    await supabase.from('project_updates').insert({
+      project_id: instance.project_id,
+      content: '**Workflow Resumed**',
+      created_by: userId,
+    });
+  }
+
+  // Sub-workflows that completed while their parent was paused couldn't hand back yet (deepest first)
+  for (const parentId of resumedIds.reverse()) {
+    const { data: finishedChildren } = await supabase
+      .from('workflow_instances')
+      .select('*')
+      .eq('parent_instance_id', parentId)
+      .eq('status', 'completed');
+
+    for (const child of finishedChildren || []) {
+      const { data: parentStep } = await supabase
+        .from('workflow_active_steps')
+        .select('id')
+        .eq('id', child.parent_active_step_id)
+        .eq('status', 'active')
+        .maybeSingle();
+
+      if (parentStep) {
+        await resumeParentWorkflow(supabase, child, userId);
+      }
+    }
+  }
+
+  logger.info('Workflow resumed', { instanceId, pausedSeconds: result.pausedSeconds });
+  return { success: true, pausedSeconds: result.pausedSeconds };
 }
 
 /**
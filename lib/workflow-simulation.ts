@@ -0,0 +1,459 @@
+/**
+ * Workflow Simulation
+ * Dry-runs a workflow template entirely in memory so it can be "played" in the
+ * editor before publishing. Nothing is written to workflow_instances.
+ *
+ * Routing reuses the exported helpers from workflow-execution-service (the same
+ * functions progressWorkflowStep and handleSyncNode call), so the path taken
+ * here is the path a real instance would take. Only the database side effects -
+ * assignments, notifications, project updates - are left out.
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import type { WorkflowNodeData } from '@/components/workflow-editor/workflow-node';
+import { editorNodeToWorkflowNodeRow, editorEdgeToWorkflowConnectionRow } from './workflow-editor-mapping';
+import {
+  aggregateBranchDecisions,
+  extractFlowId,
+  extractForkPointBranch,
+  extractParentBranch,
+  findConditionalNextNode,
+  findDecisionBasedNextNode,
+  findDownstreamSyncNode,
+  findNextNode,
+  findNextNodes,
+  findSyncNextNode,
+  generateBranchId,
+  getSyncNodeExpectedBranches,
+  routeThroughConditionalNodes,
+  selectParallelSiblingSteps,
+  selectUnfinishedJoinBranchSteps,
+  syncHasRejectionPath,
+} from './workflow-execution-service';
+import { evaluateJoin, formatJoinPolicy, getJoinPolicySettings } from './workflow-join-policy';
+
+export interface SimulationModel {
+  nodes: Record<string, unknown>[];
+  connections: Record<string, unknown>[];
+}
+
+export interface SimulationStep {
+  id: string;
+  node_id: string;
+  branch_id: string;
+  status: 'active' | 'waiting' | 'completed' | 'cancelled';
+  aggregate_decision?: 'all_approved' | 'any_rejected' | 'no_approvals' | null;
+}
+
+export interface SimulationTraceEntry {
+  nodeId: string;
+  nodeLabel: string;
+  branchId: string;
+  event:
+    | 'started'
+    | 'completed'
+    | 'approved'
+    | 'rejected'
+    | 'form_submitted'
+    | 'conditional_routed'
+    | 'forked'
+    | 'sync_waiting'
+    | 'sync_released'
+    | 'cancelled'
+    | 'ended';
+  message: string;
+}
+
+export interface SimulationState {
+  steps: SimulationStep[];
+  // Newest first, like the workflow_approvals query in handleSyncNode
+  approvals: Array<{ node_id: string; decision: string }>;
+  // Most recent form submission - what progressWorkflowStep routes conditionals on
+  lastFormData: Record<string, unknown>;
+  trace: SimulationTraceEntry[];
+  visitedNodeIds: string[];
+  traversedEdgeIds: string[];
+  status: 'running' | 'completed' | 'stuck';
+  flowCounter: number;
+  stepCounter: number;
+}
+
+export interface SimulationInput {
+  decision?: 'approved' | 'rejected';
+  formData?: Record<string, unknown>;
+}
+
+/**
+ * Build the in-memory model from the editor's nodes/edges, using the same
+ * conversion the save route applies so routing sees identical rows
+ */
+export function buildSimulationModel(nodes: Node<WorkflowNodeData>[], edges: Edge[]): SimulationModel {
+  return {
+    nodes: nodes.map((node, index) => editorNodeToWorkflowNodeRow(node as unknown as Record<string, unknown>, 'simulation', index)),
+    connections: edges.map((edge) => ({
+      id: edge.id,
+      ...editorEdgeToWorkflowConnectionRow(edge as unknown as Record<string, unknown>, 'simulation'),
+    })),
+  };
+}
+
+function nodeLabel(node: Record<string, unknown> | undefined): string {
+  return typeof node?.label === 'string' ? node.label : 'Unknown';
+}
+
+function markVisited(state: SimulationState, model: SimulationModel, fromNodeId: string, toNodeId: string) {
+  const edge = model.connections.find((c) => c.from_node_id === fromNodeId && c.to_node_id === toNodeId);
+  if (edge && typeof edge.id === 'string' && !state.traversedEdgeIds.includes(edge.id)) {
+    state.traversedEdgeIds.push(edge.id);
+  }
+  if (!state.visitedNodeIds.includes(toNodeId)) {
+    state.visitedNodeIds.push(toNodeId);
+  }
+}
+
+function addStep(state: SimulationState, step: Omit<SimulationStep, 'id'>): SimulationStep {
+  state.stepCounter++;
+  const created = { ...step, id: `sim-step-${state.stepCounter}` };
+  state.steps.push(created);
+  return created;
+}
+
+/**
+ * Fork steps don't wait for anyone - complete them straight away so their
+ * branches start, as runReachedAutomaticSteps does for real instances
+ */
+function runReachedForkSteps(model: SimulationModel, state: SimulationState): { state?: SimulationState; error?: string } {
+  const forkStep = state.steps.find((s) =>
+    s.status === 'active' && model.nodes.find((n) => n.id === s.node_id)?.node_type === 'fork'
+  );
+  return forkStep ? advanceSimulation(model, state, forkStep.id) : { state };
+}
+
+function finalizeStatus(state: SimulationState): SimulationState {
+  const active = state.steps.filter((s) => s.status === 'active');
+  const waiting = state.steps.filter((s) => s.status === 'waiting');
+
+  if (active.length > 0) {
+    state.status = 'running';
+  } else if (waiting.length > 0) {
+    // Branches are parked at a sync that can never release
+    state.status = 'stuck';
+  } else {
+    state.status = 'completed';
+  }
+  return state;
+}
+
+/**
+ * Start a simulation at the node after Start, as startWorkflowForProject does
+ */
+export function startSimulation(model: SimulationModel): { state?: SimulationState; error?: string } {
+  const startNode = model.nodes.find((n) => n.node_type === 'start') || model.nodes[0];
+  if (!startNode) {
+    return { error: 'Workflow has no nodes to simulate' };
+  }
+
+  const state: SimulationState = {
+    steps: [],
+    approvals: [],
+    lastFormData: {},
+    trace: [],
+    visitedNodeIds: [startNode.id as string],
+    traversedEdgeIds: [],
+    status: 'running',
+    flowCounter: 0,
+    stepCounter: 0,
+  };
+
+  state.trace.push({
+    nodeId: startNode.id as string,
+    nodeLabel: nodeLabel(startNode),
+    branchId: 'main',
+    event: 'started',
+    message: 'Workflow started',
+  });
+
+  const nextNode = findNextNode(startNode.id as string, model.connections, model.nodes);
+  if (!nextNode) {
+    return { error: `"${nodeLabel(startNode)}" has no outgoing connection` };
+  }
+
+  markVisited(state, model, startNode.id as string, nextNode.id as string);
+  if (nextNode.node_type === 'end') {
+    state.trace.push({ nodeId: nextNode.id as string, nodeLabel: nodeLabel(nextNode), branchId: 'main', event: 'ended', message: 'Reached End' });
+  } else {
+    addStep(state, { node_id: nextNode.id as string, branch_id: 'main', status: 'active' });
+  }
+
+  return runReachedForkSteps(model, finalizeStatus(state));
+}
+
+/**
+ * Complete one active step with the given decision/form data and route onward.
+ * Mirrors progressWorkflowStep: decision routing, conditional auto-routing,
+ * rejection validation, parallel fork/rejection handling and sync arrival.
+ */
+export function advanceSimulation(
+  model: SimulationModel,
+  previous: SimulationState,
+  stepId: string,
+  input: SimulationInput = {}
+): { state?: SimulationState; error?: string } {
+  const state: SimulationState = JSON.parse(JSON.stringify(previous));
+  const { nodes, connections } = model;
+  const { decision } = input;
+
+  const activeStep = state.steps.find((s) => s.id === stepId && s.status === 'active');
+  if (!activeStep) {
+    return { error: 'Step is not active' };
+  }
+
+  const currentNode = nodes.find((n) => n.id === activeStep.node_id);
+  if (!currentNode) {
+    return { error: 'Current node not found' };
+  }
+
+  const currentBranchId = activeStep.branch_id;
+
+  if (currentNode.node_type === 'approval' && !decision) {
+    return { error: 'Choose approve or reject for approval steps' };
+  }
+
+  if (input.formData) {
+    state.lastFormData = { ...input.formData };
+  }
+
+  // Determine next nodes based on node type and decision
+  let nextNodes: Record<string, unknown>[] = [];
+
+  if (currentNode.node_type === 'conditional') {
+    const nextNode = findConditionalNextNode(currentNode, decision, connections, nodes);
+    if (nextNode) nextNodes = [nextNode];
+  } else if (currentNode.node_type === 'approval' && decision) {
+    const nextNode = findDecisionBasedNextNode(currentNode, decision, connections, nodes);
+    if (nextNode) nextNodes = [nextNode];
+  } else if (currentNode.node_type === 'sync') {
+    const nextNode = findSyncNextNode(currentNode, activeStep.aggregate_decision, connections, nodes);
+    if (nextNode) nextNodes = [nextNode];
+  } else {
+    nextNodes = findNextNodes(currentNode.id as string, connections, nodes);
+  }
+
+  // Auto-route through conditional nodes, recording each hop for the trace
+  const conditionalHops: Array<{ from: Record<string, unknown>; to: Record<string, unknown> }> = [];
+  nextNodes = nextNodes.map((nextNode) =>
+    routeThroughConditionalNodes(
+      nextNode,
+      state.lastFormData as Record<string, Record<string, unknown>>,
+      decision,
+      connections,
+      nodes,
+      (from, to) => conditionalHops.push({ from, to })
+    )
+  );
+
+  if (decision === 'rejected' && nextNodes.length === 0) {
+    return { error: `Rejection routing failed: No rejection path configured for "${nodeLabel(currentNode)}"` };
+  }
+
+  if (decision === 'rejected' && nextNodes[0].id === currentNode.id) {
+    return { error: `Rejection routing failed: "${nodeLabel(currentNode)}" cannot reject to itself` };
+  }
+
+  // Record the outcome of the current step
+  if (currentNode.node_type === 'approval' && decision) {
+    state.approvals.unshift({ node_id: currentNode.id as string, decision });
+  }
+
+  activeStep.status = 'completed';
+  state.trace.push({
+    nodeId: currentNode.id as string,
+    nodeLabel: nodeLabel(currentNode),
+    branchId: currentBranchId,
+    event: decision === 'approved' ? 'approved' : decision === 'rejected' ? 'rejected' : input.formData ? 'form_submitted' : 'completed',
+    message: decision
+      ? `"${nodeLabel(currentNode)}" ${decision}`
+      : input.formData
+        ? `"${nodeLabel(currentNode)}" form submitted`
+        : `"${nodeLabel(currentNode)}" completed`,
+  });
+
+  for (const hop of conditionalHops) {
+    if (!conditionalHops.some((h) => h.to.id === hop.from.id)) {
+      markVisited(state, model, currentNode.id as string, hop.from.id as string);
+    }
+    markVisited(state, model, hop.from.id as string, hop.to.id as string);
+    state.trace.push({
+      nodeId: hop.from.id as string,
+      nodeLabel: nodeLabel(hop.from),
+      branchId: currentBranchId,
+      event: 'conditional_routed',
+      message: `"${nodeLabel(hop.from)}" routed to "${nodeLabel(hop.to)}"`,
+    });
+  }
+
+  // Parallel branch rejection - same smart routing as progressWorkflowStep
+  let rejectionRoutingBack = false;
+  let rejectionRoutingToSync = false;
+  let targetBranchAfterRejection = currentBranchId;
+
+  if (decision === 'rejected' && currentBranchId.includes('-')) {
+    const rejectionTarget = nextNodes[0];
+
+    if (rejectionTarget && rejectionTarget.node_type !== 'sync' && rejectionTarget.node_type !== 'end') {
+      const downstreamSync = findDownstreamSyncNode(currentNode.id as string, connections, nodes);
+      const syncHasRejectionRoute = downstreamSync ? syncHasRejectionPath(downstreamSync.id as string, connections) : false;
+
+      const flowId = extractFlowId(currentBranchId);
+      const forkPoint = extractForkPointBranch(currentBranchId);
+      const isSameFork = (branchId: string) =>
+        extractForkPointBranch(branchId) === forkPoint && extractFlowId(branchId) === flowId;
+      const hasSiblingsWithWork = state.steps.some((s) =>
+        s.branch_id !== currentBranchId &&
+        (s.status === 'active' || s.status === 'waiting') &&
+        isSameFork(s.branch_id) &&
+        state.steps.some((done) => done.branch_id === s.branch_id && done.status === 'completed')
+      );
+
+      if (downstreamSync && (syncHasRejectionRoute || hasSiblingsWithWork)) {
+        rejectionRoutingToSync = true;
+        nextNodes = [downstreamSync];
+      } else {
+        rejectionRoutingBack = true;
+        const siblings = selectParallelSiblingSteps(
+          state.steps.filter((s) => s.status === 'active' || s.status === 'waiting'),
+          currentBranchId,
+          activeStep.id
+        );
+        for (const sibling of siblings) {
+          sibling.status = 'cancelled';
+          const siblingNode = nodes.find((n) => n.id === sibling.node_id);
+          state.trace.push({
+            nodeId: sibling.node_id,
+            nodeLabel: nodeLabel(siblingNode),
+            branchId: sibling.branch_id,
+            event: 'cancelled',
+            message: `Parallel branch at "${nodeLabel(siblingNode)}" cancelled by rejection`,
+          });
+        }
+        targetBranchAfterRejection = forkPoint;
+      }
+    }
+  }
+
+  if (nextNodes.length === 0) {
+    state.trace.push({
+      nodeId: currentNode.id as string,
+      nodeLabel: nodeLabel(currentNode),
+      branchId: currentBranchId,
+      event: 'ended',
+      message: `"${nodeLabel(currentNode)}" has no matching outgoing path - branch ends here`,
+    });
+  }
+
+  const isParallel = nextNodes.length > 1 && !rejectionRoutingBack && !rejectionRoutingToSync;
+  let flowId: string | null = null;
+  if (isParallel) {
+    state.flowCounter++;
+    flowId = `sim${state.flowCounter}`;
+    state.trace.push({
+      nodeId: currentNode.id as string,
+      nodeLabel: nodeLabel(currentNode),
+      branchId: currentBranchId,
+      event: 'forked',
+      message: `Forked into ${nextNodes.length} parallel branches`,
+    });
+  }
+
+  for (let i = 0; i < nextNodes.length; i++) {
+    const nextNode = nextNodes[i];
+    const baseBranchId = rejectionRoutingBack ? targetBranchAfterRejection : currentBranchId;
+    const newBranchId = isParallel ? generateBranchId(baseBranchId, i, flowId!) : baseBranchId;
+    const nextNodeId = nextNode.id as string;
+
+    const lastHop = conditionalHops.filter((h) => h.to.id === nextNodeId).pop();
+    markVisited(state, model, lastHop ? (lastHop.from.id as string) : (currentNode.id as string), nextNodeId);
+
+    if (nextNode.node_type === 'sync') {
+      // Same arrival rules as handleSyncNode, counting in-memory waiting steps
+      const expectedBranches = getSyncNodeExpectedBranches(nextNodeId, connections);
+      const currentFlowId = extractFlowId(newBranchId);
+      const waitingAtSync = state.steps.filter((s) => s.node_id === nextNodeId && s.status === 'waiting');
+      const sameFlowWaiting = currentFlowId
+        ? waitingAtSync.filter((s) => extractFlowId(s.branch_id) === currentFlowId)
+        : waitingAtSync;
+      const joinSettings = getJoinPolicySettings(nextNode);
+      const joinEvaluation = evaluateJoin(joinSettings, expectedBranches, sameFlowWaiting.length + 1);
+
+      if (joinEvaluation.released) {
+        const incomingNodeIds = connections.filter((c) => c.to_node_id === nextNodeId).map((c) => c.from_node_id);
+        const { aggregateDecision } = aggregateBranchDecisions(
+          state.approvals.filter((a) => incomingNodeIds.includes(a.node_id))
+        );
+
+        for (const waiting of waitingAtSync) {
+          waiting.status = 'completed';
+        }
+
+        if (joinEvaluation.early) {
+          for (const unfinished of selectUnfinishedJoinBranchSteps(state.steps, newBranchId, nextNodeId)) {
+            unfinished.status = 'cancelled';
+            const unfinishedNode = nodes.find((n) => n.id === unfinished.node_id);
+            state.trace.push({
+              nodeId: unfinished.node_id,
+              nodeLabel: nodeLabel(unfinishedNode),
+              branchId: unfinished.branch_id,
+              event: 'cancelled',
+              message: `Parallel branch at "${nodeLabel(unfinishedNode)}" cancelled - "${nodeLabel(nextNode)}" no longer needs it`,
+            });
+          }
+        }
+
+        const releasedBranchId = extractParentBranch(newBranchId);
+        addStep(state, { node_id: nextNodeId, branch_id: releasedBranchId, status: 'active', aggregate_decision: aggregateDecision });
+        state.trace.push({
+          nodeId: nextNodeId,
+          nodeLabel: nodeLabel(nextNode),
+          branchId: releasedBranchId,
+          event: 'sync_released',
+          message: joinEvaluation.early
+            ? `${joinEvaluation.arrived} of ${expectedBranches} branches arrived at "${nodeLabel(nextNode)}" - waits for ${formatJoinPolicy(joinSettings, expectedBranches)} (${aggregateDecision.replace('_', ' ')})`
+            : `All ${expectedBranches} branches arrived at "${nodeLabel(nextNode)}" (${aggregateDecision.replace('_', ' ')})`,
+        });
+      } else {
+        addStep(state, { node_id: nextNodeId, branch_id: newBranchId, status: 'waiting' });
+        state.trace.push({
+          nodeId: nextNodeId,
+          nodeLabel: nodeLabel(nextNode),
+          branchId: newBranchId,
+          event: 'sync_waiting',
+          message: `Waiting at "${nodeLabel(nextNode)}" (${joinEvaluation.arrived} of ${joinEvaluation.required} needed branches arrived)`,
+        });
+      }
+      continue;
+    }
+
+    if (nextNode.node_type === 'end') {
+      state.trace.push({
+        nodeId: nextNodeId,
+        nodeLabel: nodeLabel(nextNode),
+        branchId: newBranchId,
+        event: 'ended',
+        message: `Branch ${newBranchId} reached "${nodeLabel(nextNode)}"`,
+      });
+      continue;
+    }
+
+    // Routing back to a visited node reactivates its step, like the unique
+    // constraint fallback in progressWorkflowStep
+    const existing = state.steps.find((s) => s.node_id === nextNodeId && s.branch_id === newBranchId);
+    if (existing) {
+      existing.status = 'active';
+      existing.aggregate_decision = null;
+    } else {
+      addStep(state, { node_id: nextNodeId, branch_id: newBranchId, status: 'active' });
+    }
+  }
+
+  return runReachedForkSteps(model, finalizeStatus(state));
+}
@@ -0,0 +1,266 @@
+/**
+ * Workflow SLA Service
+ * Computes SLA due times for role/approval steps and escalates steps that
+ * have been waiting longer than their node's SLA.
+ *
+ * IMPORTANT: checkWorkflowSlaBreaches is called from the SLA cron job with a
+ * service-role client - it does not rely on RLS to scope what it sees.
+ */
+
+import { addWorkingHours, getBusinessCalendar, DEFAULT_BUSINESS_CALENDAR, BusinessCalendar } from './business-calendar-service';
+import { getPausedTimeBetween, parsePausedIntervals, NO_PAUSED_TIME, PausedTime } from './workflow-paused-time';
+import { isString, isRecord } from './type-guards';
+
+export type SlaHourType = 'business' | 'calendar';
+export type EscalationTarget = 'reporting_role' | 'user';
+
+export interface NodeSlaSettings {
+  slaHours: number;
+  slaHourType: SlaHourType;
+  escalationTarget: EscalationTarget;
+  escalationUserId: string | null;
+}
+
+export interface SlaSweepResult {
+  checked: number;
+  breached: number;
+  escalated: number;
+  errors: string[];
+}
+
+const SLA_NODE_TYPES = ['role', 'approval'];
+
+/**
+ * Read SLA settings from a workflow node (snapshot or template row).
+ * Returns null if the node type doesn't support SLAs or no SLA is set.
+ */
+export function getNodeSlaSettings(node: Record<string, unknown>): NodeSlaSettings | null {
+  if (!SLA_NODE_TYPES.includes(node.node_type as string)) return null;
+
+  const settings = isRecord(node.settings) ? node.settings : {};
+  const slaHours = Number(settings.sla_hours);
+  if (!Number.isFinite(slaHours) || slaHours <= 0) return null;
+
+  return {
+    slaHours,
+    slaHourType: settings.sla_hour_type === 'calendar' ? 'calendar' : 'business',
+    escalationTarget: settings.escalation_target === 'user' ? 'user' : 'reporting_role',
+    escalationUserId: isString(settings.escalation_user_id) ? settings.escalation_user_id : null,
+  };
+}
+
+/**
+ * Compute when a step activated at `activatedAt` breaches its SLA. Time the
+ * step spent with its workflow paused doesn't count: calendar-hour SLAs are
+ * extended by the paused wall-clock time, business-hour SLAs by the working
+ * hours that fell inside the pauses. Business hours are counted on the
+ * organization's business calendar; null if the calendar has no working time
+ * to count them in.
+ */
+export function computeSlaDueAt(
+  activatedAt: string | Date,
+  sla: NodeSlaSettings,
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR,
+  paused: PausedTime = NO_PAUSED_TIME
+): Date | null {
+  const start = new Date(activatedAt);
+
+  if (sla.slaHourType === 'calendar') {
+    return new Date(start.getTime() + sla.slaHours * 60 * 60 * 1000 + paused.ms);
+  }
+
+  return addWorkingHours(calendar, start, sla.slaHours + paused.workingHours);
+}
+
+/**
+ * Resolve who should be notified when a step breaches its SLA.
+ * - 'user': the specific user configured on the node
+ * - 'reporting_role': everyone holding the role the node's role reports to
+ */
+async function resolveEscalationRecipients(
+  supabase: any,
+  node: Record<string, unknown>,
+  sla: NodeSlaSettings
+): Promise<string[]> {
+  if (sla.escalationTarget === 'user') {
+    return sla.escalationUserId ? [sla.escalationUserId] : [];
+  }
+
+  if (!isString(node.entity_id)) return [];
+
+  const { data: role, error: roleError } = await supabase
+    .from('roles')
+    .select('id, reporting_role_id')
+    .eq('id', node.entity_id)
+    .single();
+
+  if (roleError || !role?.reporting_role_id) {
+    console.warn('SLA escalation: no reporting role for node', { nodeId: node.id, roleId: node.entity_id });
+    return [];
+  }
+
+  const { data: userRoles, error: userRolesError } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .eq('role_id', role.reporting_role_id);
+
+  if (userRolesError) {
+    console.error('SLA escalation: error loading reporting role users:', userRolesError);
+    return [];
+  }
+
+  const userIds = (userRoles || [])
+    .map((ur: Record<string, unknown>) => ur.user_id)
+    .filter(isString);
+
+  return Array.from(new Set<string>(userIds));
+}
+
+/**
+ * Sweep all active workflow steps, stamp their SLA due time and escalate
+ * any that have breached. Each step is escalated at most once.
+ */
+export async function checkWorkflowSlaBreaches(
+  supabase: any,
+  now: Date = new Date()
+): Promise<SlaSweepResult> {
+  const result: SlaSweepResult = { checked: 0, breached: 0, escalated: 0, errors: [] };
+
+  const { data: steps, error: stepsError } = await supabase
+    .from('workflow_active_steps')
+    .select(`
+      id,
+      workflow_instance_id,
+      node_id,
+      branch_id,
+      activated_at,
+      sla_due_at,
+      workflow_instances!inner(
+        id,
+        status,
+        project_id,
+        started_snapshot,
+        paused_intervals,
+        projects(id, name)
+      )
+    `)
+    .eq('status', 'active')
+    .is('escalated_at', null);
+
+  if (stepsError) {
+    console.error('SLA sweep: error loading active steps:', stepsError);
+    result.errors.push(stepsError.message);
+    return result;
+  }
+
+  const calendar = await getBusinessCalendar(supabase);
+
+  for (const step of steps || []) {
+    const instance = step.workflow_instances;
+    if (!isRecord(instance) || instance.status !== 'active') continue;
+
+    const snapshot = isRecord(instance.started_snapshot) ? instance.started_snapshot : {};
+    const snapshotNodes = Array.isArray(snapshot.nodes) ? snapshot.nodes : [];
+    const node = snapshotNodes.find((n: unknown) => isRecord(n) && n.id === step.node_id) as Record<string, unknown> | undefined;
+    if (!node) continue;
+
+    const sla = getNodeSlaSettings(node);
+    if (!sla) continue;
+
+    result.checked++;
+
+    const paused = getPausedTimeBetween(calendar, parsePausedIntervals(instance.paused_intervals), new Date(step.activated_at));
+    const dueAt = computeSlaDueAt(step.activated_at, sla, calendar, paused);
+    if (!dueAt) {
+      result.errors.push(`Step ${step.id}: the business calendar has no working hours to count the SLA in`);
+      continue;
+    }
+
+    if (now < dueAt) {
+      // Re-stamp whenever the stored due time no longer matches the computed one
+      if (!step.sla_due_at || new Date(step.sla_due_at).getTime() !== dueAt.getTime()) {
+        const { error: stampError } = await supabase
+          .from('workflow_active_steps')
+          .update({ sla_due_at: dueAt.toISOString() })
+          .eq('id', step.id);
+
+        if (stampError) {
+          console.error('SLA sweep: error stamping due time', step.id, stampError);
+          result.errors.push(`${step.id}: ${stampError.message}`);
+        }
+      }
+      continue;
+    }
+
+    result.breached++;
+
+    try {
+      const recipients = await resolveEscalationRecipients(supabase, node, sla);
+      const project = isRecord(instance.projects) ? instance.projects : null;
+      const projectName = project && isString(project.name) ? project.name : 'a project';
+      const hourLabel = sla.slaHourType === 'business' ? 'business hours' : 'hours';
+
+      // Claim the escalation before notifying anyone, so a failure further on
+      // (or a concurrent sweep) can never escalate the same step twice
+      const { data: claimed, error: claimError } = await supabase
+        .from('workflow_active_steps')
+        .update({
+          sla_due_at: dueAt.toISOString(),
+          escalated_at: now.toISOString(),
+          escalated_to: recipients,
+        })
+        .eq('id', step.id)
+        .is('escalated_at', null)
+        .select('id');
+
+      if (claimError) throw claimError;
+      if (!claimed || claimed.length === 0) continue;
+
+      const { error: historyError } = await supabase.from('workflow_history').insert({
+        workflow_instance_id: step.workflow_instance_id,
+        from_node_id: step.node_id,
+        to_node_id: step.node_id,
+        handed_off_by: null,
+        transition_type: 'auto',
+        branch_id: step.branch_id,
+        notes: JSON.stringify({
+          type: 'sla_breach',
+          sla_hours: sla.slaHours,
+          sla_hour_type: sla.slaHourType,
+          due_at: dueAt.toISOString(),
+          escalation_target: sla.escalationTarget,
+          escalated_to: recipients,
+        }),
+      });
+
+      if (historyError) {
+        console.error('SLA sweep: error recording breach in workflow history', step.id, historyError);
+        result.errors.push(`${step.id}: ${historyError.message}`);
+      }
+
+      if (recipients.length > 0) {
+        const { error: notifyError } = await supabase.from('notifications').insert(
+          recipients.map((userId) => ({
+            user_id: userId,
+            title: 'Workflow step overdue',
+            message: `"${node.label}" on ${projectName} has exceeded its ${sla.slaHours} ${hourLabel} SLA.`,
+            type: 'workflow_sla',
+            link: instance.project_id ? `/projects/${instance.project_id}` : null,
+          }))
+        );
+
+        if (notifyError) {
+          console.error('SLA sweep: error creating notifications:', notifyError);
+        }
+      }
+
+      result.escalated++;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : (isRecord(error) && isString(error.message) ? error.message : 'Unknown error');
+      console.error('SLA sweep: error escalating step', step.id, error);
+      result.errors.push(`${step.id}: ${message}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,309 @@
+/**
+ * Workflow Sub-workflow Service
+ * Sub-workflow nodes start another workflow template on the same project as a
+ * child workflow_instances row. The parent's step stays active until the
+ * child completes, then the parent is resumed as a system transition.
+ *
+ * Form data can flow both ways: answers collected by the parent are recorded
+ * as the child's first history entry, and the child's answers are recorded on
+ * the parent's sub-workflow step when it resumes.
+ */
+
+import { progressWorkflowStep, startWorkflowForProject, WorkflowActiveStep } from './workflow-execution-service';
+import type { SubworkflowReferenceMap } from './workflow-validation';
+import { isString, isRecord } from './type-guards';
+
+export interface NodeSubworkflowSettings {
+  templateId: string;
+  templateName: string | null;
+  passDataDown: boolean;
+  passDataUp: boolean;
+}
+
+export interface WorkflowFormData {
+  fields: Record<string, unknown>[];
+  responses: Record<string, unknown>;
+}
+
+// Guards against runaway nesting if a cycle slips past the editor (e.g. via an older published version)
+export const MAX_SUBWORKFLOW_DEPTH = 5;
+
+/**
+ * Read sub-workflow settings from a workflow node (snapshot or template row).
+ * Returns null if the node isn't a sub-workflow or has no template selected.
+ */
+export function getNodeSubworkflowSettings(node: Record<string, unknown>): NodeSubworkflowSettings | null {
+  if (node.node_type !== 'subworkflow') return null;
+
+  const settings = isRecord(node.settings) ? node.settings : {};
+  if (!isString(settings.subworkflow_template_id) || !settings.subworkflow_template_id) return null;
+
+  return {
+    templateId: settings.subworkflow_template_id,
+    templateName: isString(settings.subworkflow_template_name) ? settings.subworkflow_template_name : null,
+    passDataDown: settings.subworkflow_pass_data_down !== false,
+    passDataUp: settings.subworkflow_pass_data_up !== false,
+  };
+}
+
+/**
+ * Which templates each template's sub-workflow nodes start, for cross-template
+ * cycle detection. Built from the editable draft nodes, since that's what
+ * admins are about to publish.
+ */
+export async function getSubworkflowReferences(supabase: any): Promise<SubworkflowReferenceMap> {
+  const [{ data: templates, error: templatesError }, { data: subworkflowNodes, error: nodesError }] = await Promise.all([
+    supabase.from('workflow_templates').select('id, name'),
+    supabase
+      .from('workflow_nodes')
+      .select('workflow_template_id, settings')
+      .eq('node_type', 'subworkflow'),
+  ]);
+
+  if (templatesError || nodesError) {
+    console.error('Error loading sub-workflow references:', templatesError || nodesError);
+    return {};
+  }
+
+  const references: SubworkflowReferenceMap = {};
+  for (const template of templates || []) {
+    references[template.id] = { name: template.name, references: [] };
+  }
+
+  for (const node of subworkflowNodes || []) {
+    const settings = isRecord(node.settings) ? node.settings : {};
+    const entry = references[node.workflow_template_id];
+    if (entry && isString(settings.subworkflow_template_id) && !entry.references.includes(settings.subworkflow_template_id)) {
+      entry.references.push(settings.subworkflow_template_id);
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Everything submitted on a workflow instance so far, merged oldest-first so
+ * later answers win. Covers inline forms and form template responses.
+ */
+export async function collectWorkflowFormData(supabase: any, workflowInstanceId: string): Promise<WorkflowFormData> {
+  const { data: history, error } = await supabase
+    .from('workflow_history')
+    .select('notes, form_response_id, form_responses(response_data)')
+    .eq('workflow_instance_id', workflowInstanceId)
+    .order('handed_off_at', { ascending: true });
+
+  const formData: WorkflowFormData = { fields: [], responses: {} };
+
+  if (error) {
+    console.error('Error loading workflow history for form data:', error);
+    return formData;
+  }
+
+  const fieldsById = new Map<string, Record<string, unknown>>();
+
+  for (const entry of history || []) {
+    const formResponses = Array.isArray(entry.form_responses) ? entry.form_responses[0] : entry.form_responses;
+    if (isRecord(formResponses) && isRecord(formResponses.response_data)) {
+      Object.assign(formData.responses, formResponses.response_data);
+    }
+
+    if (isString(entry.notes)) {
+      try {
+        const notes = JSON.parse(entry.notes);
+        if (notes?.type === 'inline_form' && isRecord(notes.data)) {
+          if (isRecord(notes.data.responses)) {
+            Object.assign(formData.responses, notes.data.responses);
+          }
+          for (const field of Array.isArray(notes.data.fields) ? notes.data.fields : []) {
+            if (isRecord(field) && isString(field.id)) {
+              fieldsById.set(field.id, field);
+            }
+          }
+        }
+      } catch {
+        // Notes is not JSON, ignore
+      }
+    }
+  }
+
+  formData.fields = [...fieldsById.values()];
+  return formData;
+}
+
+/**
+ * Template ids of this instance and every parent above it, nearest first.
+ */
+async function getAncestorTemplateIds(supabase: any, instance: Record<string, unknown>): Promise<string[]> {
+  const templateIds: string[] = [];
+  let current: Record<string, unknown> | null = instance;
+
+  while (current && templateIds.length <= MAX_SUBWORKFLOW_DEPTH) {
+    if (isString(current.workflow_template_id)) {
+      templateIds.push(current.workflow_template_id);
+    }
+    if (!isString(current.parent_instance_id)) break;
+
+    const { data: parent }: { data: Record<string, unknown> | null } = await supabase
+      .from('workflow_instances')
+      .select('id, workflow_template_id, parent_instance_id')
+      .eq('id', current.parent_instance_id)
+      .maybeSingle();
+    current = parent || null;
+  }
+
+  return templateIds;
+}
+
+/**
+ * Start child workflows for the sub-workflow nodes among newly activated
+ * steps. The steps stay active - the child resumes them when it completes.
+ * Safe to call again for the same steps: a step that already has a running
+ * child is skipped.
+ */
+export async function launchReachedSubworkflows(
+  supabase: any,
+  instance: Record<string, unknown>,
+  steps: WorkflowActiveStep[],
+  nodes: Record<string, unknown>[],
+  actorId: string
+): Promise<void> {
+  const subworkflowSteps = steps
+    .filter((step) => step.status === 'active')
+    .map((step) => ({ step, node: nodes.find((n: any) => n.id === step.node_id) }))
+    .filter((s): s is { step: WorkflowActiveStep; node: Record<string, unknown> } => s.node?.node_type === 'subworkflow');
+
+  if (subworkflowSteps.length === 0) return;
+
+  const instanceId = instance.id as string;
+  const projectId = isString(instance.project_id) ? instance.project_id : null;
+
+  if (!projectId) {
+    console.error('Sub-workflow reached on an instance without a project:', instanceId);
+    return;
+  }
+
+  const postUpdate = async (content: string) => {
+    await supabase.from('project_updates').insert({ project_id: projectId, content, created_by: null });
+  };
+
+  const ancestorTemplateIds = await getAncestorTemplateIds(supabase, instance);
+
+  for (const { step, node } of subworkflowSteps) {
+    const settings = getNodeSubworkflowSettings(node);
+    if (!settings) {
+      await postUpdate(`**Sub-workflow not started**: "${node.label}" has no workflow template selected`);
+      continue;
+    }
+
+    const { data: existingChild } = await supabase
+      .from('workflow_instances')
+      .select('id')
+      .eq('parent_active_step_id', step.id)
+      .in('status', ['active', 'paused'])
+      .limit(1)
+      .maybeSingle();
+
+    if (existingChild) continue;
+
+    if (ancestorTemplateIds.includes(settings.templateId) || ancestorTemplateIds.length > MAX_SUBWORKFLOW_DEPTH) {
+      console.error('Sub-workflow would nest too deeply or start itself - leaving step active:', {
+        instanceId,
+        stepId: step.id,
+        templateId: settings.templateId,
+      });
+      await postUpdate(`**Sub-workflow not started**: "${node.label}" would start a workflow that is already running above it`);
+      continue;
+    }
+
+    const inputData = settings.passDataDown ? await collectWorkflowFormData(supabase, instanceId) : undefined;
+
+    const result = await startWorkflowForProject(supabase, projectId, settings.templateId, actorId, {
+      instanceId,
+      activeStepId: step.id,
+      inputData,
+    });
+
+    if (!result.success) {
+      // Leave the step active - an admin can fix the child template and relaunch
+      console.error('Failed to start sub-workflow:', { instanceId, stepId: step.id, error: result.error });
+      await postUpdate(`**Sub-workflow not started**: "${node.label}" - ${result.error || 'Unknown error'}`);
+      continue;
+    }
+
+    await postUpdate(`**Sub-workflow started**: ${settings.templateName || node.label}`);
+  }
+}
+
+/**
+ * A child workflow finished - progress the parent past its sub-workflow step,
+ * carrying the child's form answers back up when the node asks for it.
+ */
+export async function resumeParentWorkflow(
+  supabase: any,
+  childInstance: Record<string, unknown>,
+  actorId: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!isString(childInstance.parent_instance_id) || !isString(childInstance.parent_active_step_id)) {
+    return { success: false, error: 'Workflow has no parent step to resume' };
+  }
+
+  const { data: parent } = await supabase
+    .from('workflow_instances')
+    .select('id, status, started_snapshot')
+    .eq('id', childInstance.parent_instance_id)
+    .maybeSingle();
+
+  if (!parent || parent.status !== 'active') {
+    // A paused parent picks the finished child up when it's resumed
+    return { success: false, error: 'Parent workflow is not active' };
+  }
+
+  const { data: parentStep } = await supabase
+    .from('workflow_active_steps')
+    .select('id, node_id, status')
+    .eq('id', childInstance.parent_active_step_id)
+    .maybeSingle();
+
+  if (!parentStep || parentStep.status !== 'active') {
+    return { success: false, error: 'Parent sub-workflow step is no longer active' };
+  }
+
+  const parentNodes: Record<string, unknown>[] = Array.isArray(parent.started_snapshot?.nodes) ? parent.started_snapshot.nodes : [];
+  const parentNode = parentNodes.find((n: any) => n.id === parentStep.node_id);
+  const settings = parentNode ? getNodeSubworkflowSettings(parentNode) : null;
+
+  let inlineFormData: Record<string, Record<string, unknown>> | undefined;
+  if (settings?.passDataUp) {
+    const childData = await collectWorkflowFormData(supabase, childInstance.id as string);
+    if (Object.keys(childData.responses).length > 0) {
+      const childName = isRecord(childInstance.started_snapshot) && isString(childInstance.started_snapshot.template_name)
+        ? childInstance.started_snapshot.template_name
+        : settings.templateName || 'Sub-workflow';
+      inlineFormData = {
+        formName: `${childName} (sub-workflow)`,
+        fields: childData.fields,
+        responses: childData.responses,
+      } as unknown as Record<string, Record<string, unknown>>;
+    }
+  }
+
+  const result = await progressWorkflowStep(
+    supabase,
+    parent.id,
+    parentStep.id,
+    actorId,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    inlineFormData,
+    undefined,
+    { transitionType: 'auto' }
+  );
+
+  if (!result.success) {
+    console.error('Failed to resume parent workflow:', { parentId: parent.id, stepId: parentStep.id, error: result.error });
+  }
+
+  return { success: result.success, error: result.error };
+}
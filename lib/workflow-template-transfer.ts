@@ -0,0 +1,532 @@
+/**
+ * Workflow Template Transfer
+ * Exports a workflow template (nodes, connections, conditions and the form
+ * schemas it uses) to a portable JSON document, and imports such a document
+ * into another organization by remapping roles, departments, users and form
+ * templates by name.
+ *
+ * IMPORTANT: All functions accept a Supabase client as a parameter
+ * to maintain authentication context from API routes
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import type { WorkflowNodeData } from '@/components/workflow-editor/workflow-node';
+import { validateWorkflow, type ValidationResult } from './workflow-validation';
+import {
+  workflowNodeRowToEditorNode,
+  workflowConnectionRowToEditorEdge,
+  editorNodeToWorkflowNodeRow,
+  editorEdgeToWorkflowConnectionRow,
+} from './workflow-editor-mapping';
+import { readNodeRequiredSkills } from './skills';
+import { isString, isRecord } from '@/lib/type-guards';
+
+export const WORKFLOW_EXPORT_FORMAT = 'prismpsa.workflow-template';
+export const WORKFLOW_EXPORT_FORMAT_VERSION = 1;
+
+export interface WorkflowTemplateExport {
+  format: typeof WORKFLOW_EXPORT_FORMAT;
+  format_version: number;
+  exported_at: string;
+  template: {
+    name: string;
+    description: string | null;
+  };
+  // Editor-shaped nodes/edges; IDs inside config refer to the `references` below
+  nodes: Node<WorkflowNodeData>[];
+  edges: Edge[];
+  references: {
+    roles: { id: string; name: string; department_name: string | null }[];
+    departments: { id: string; name: string }[];
+    users: { id: string; name: string; email: string }[];
+    form_templates: { id: string; name: string; description: string | null; schema: unknown }[];
+    // Templates started by sub-workflow nodes (matched by name on import, never created)
+    workflow_templates?: { id: string; name: string }[];
+    // Skills required by role nodes (matched by name on import, never created)
+    skills?: { id: string; name: string }[];
+  };
+}
+
+export type UnresolvedReferenceKind = 'role' | 'department' | 'user' | 'workflow' | 'skill';
+
+export interface UnresolvedReference {
+  kind: UnresolvedReferenceKind;
+  name: string;
+  detail?: string;
+  reason: 'not_found' | 'ambiguous';
+  nodeLabels: string[];
+}
+
+export interface WorkflowImportPlan {
+  templateName: string;
+  templateDescription: string | null;
+  nodes: Node<WorkflowNodeData>[];
+  edges: Edge[];
+  unresolved: UnresolvedReference[];
+  formTemplatesToCreate: { sourceId: string; name: string }[];
+  validation: ValidationResult;
+  canImport: boolean;
+}
+
+/**
+ * Build the portable export document for a template's current draft
+ */
+export async function exportWorkflowTemplate(
+  supabase: any,
+  templateId: string
+): Promise<{ document?: WorkflowTemplateExport; error?: string }> {
+  const { data: template, error: templateError } = await supabase
+    .from('workflow_templates')
+    .select('id, name, description')
+    .eq('id', templateId)
+    .single();
+
+  if (templateError || !template) {
+    return { error: 'Workflow template not found' };
+  }
+
+  const [{ data: nodeRows, error: nodesError }, { data: connectionRows, error: connectionsError }] = await Promise.all([
+    supabase.from('workflow_nodes').select('*').eq('workflow_template_id', templateId).order('step_order'),
+    supabase.from('workflow_connections').select('*').eq('workflow_template_id', templateId),
+  ]);
+
+  if (nodesError || connectionsError) {
+    console.error('Error loading workflow for export:', nodesError || connectionsError);
+    return { error: 'Failed to load workflow nodes' };
+  }
+
+  const rows = (nodeRows || []) as Record<string, any>[];
+
+  const roleIds = new Set<string>();
+  const departmentIds = new Set<string>();
+  const userIds = new Set<string>();
+  const formTemplateIds = new Set<string>();
+  const workflowTemplateIds = new Set<string>();
+  const skillIds = new Set<string>();
+
+  rows.forEach((row) => {
+    const settings = isRecord(row.settings) ? row.settings : {};
+    if (isString(row.entity_id)) roleIds.add(row.entity_id);
+    if (isString(settings.department_id)) departmentIds.add(settings.department_id);
+    if (isString(settings.escalation_user_id)) userIds.add(settings.escalation_user_id);
+    // Action nodes name users to add as stakeholders or to the account
+    (Array.isArray(settings.actions) ? settings.actions : []).forEach((action: unknown) => {
+      if (!isRecord(action)) return;
+      (Array.isArray(action.stakeholders) ? action.stakeholders : []).forEach((stakeholder: unknown) => {
+        if (isRecord(stakeholder) && isString(stakeholder.id)) userIds.add(stakeholder.id);
+      });
+      if (isRecord(action.accountUser) && isString(action.accountUser.id)) userIds.add(action.accountUser.id);
+    });
+    if (isString(row.form_template_id)) formTemplateIds.add(row.form_template_id);
+    if (isString(settings.subworkflow_template_id)) workflowTemplateIds.add(settings.subworkflow_template_id);
+    readNodeRequiredSkills(settings).forEach((required) => skillIds.add(required.skillId));
+  });
+
+  const [
+    { data: roles },
+    { data: departments },
+    { data: users },
+    { data: formTemplates },
+    { data: workflowTemplates },
+    { data: skills },
+  ] = await Promise.all([
+    roleIds.size > 0
+      ? supabase.from('roles').select('id, name, departments(name)').in('id', Array.from(roleIds))
+      : Promise.resolve({ data: [] }),
+    departmentIds.size > 0
+      ? supabase.from('departments').select('id, name').in('id', Array.from(departmentIds))
+      : Promise.resolve({ data: [] }),
+    userIds.size > 0
+      ? supabase.from('user_profiles').select('id, name, email').in('id', Array.from(userIds))
+      : Promise.resolve({ data: [] }),
+    formTemplateIds.size > 0
+      ? supabase.from('form_templates').select('id, name, description, schema').in('id', Array.from(formTemplateIds))
+      : Promise.resolve({ data: [] }),
+    workflowTemplateIds.size > 0
+      ? supabase.from('workflow_templates').select('id, name').in('id', Array.from(workflowTemplateIds))
+      : Promise.resolve({ data: [] }),
+    skillIds.size > 0
+      ? supabase.from('skills').select('id, name').in('id', Array.from(skillIds))
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const roleRefs = (roles || []).map((r: Record<string, any>) => ({
+    id: r.id as string,
+    name: r.name as string,
+    department_name: isRecord(r.departments) && isString(r.departments.name) ? r.departments.name : null,
+  }));
+
+  const document: WorkflowTemplateExport = {
+    format: WORKFLOW_EXPORT_FORMAT,
+    format_version: WORKFLOW_EXPORT_FORMAT_VERSION,
+    exported_at: new Date().toISOString(),
+    template: {
+      name: template.name,
+      description: template.description ?? null,
+    },
+    nodes: rows.map((row) => workflowNodeRowToEditorNode(row, { departments: departments || [], roles: roleRefs })),
+    edges: (connectionRows || []).map((conn: Record<string, any>) => workflowConnectionRowToEditorEdge(conn)),
+    references: {
+      roles: roleRefs,
+      departments: departments || [],
+      users: users || [],
+      form_templates: formTemplates || [],
+      workflow_templates: workflowTemplates || [],
+      skills: skills || [],
+    },
+  };
+
+  return { document };
+}
+
+/**
+ * Check that an uploaded document is a workflow export this version understands
+ */
+export function parseWorkflowTemplateExport(input: unknown): { document?: WorkflowTemplateExport; error?: string } {
+  if (!isRecord(input)) {
+    return { error: 'Import file must be a JSON object' };
+  }
+  if (input.format !== WORKFLOW_EXPORT_FORMAT) {
+    return { error: 'Not a workflow template export (unrecognized format)' };
+  }
+  if (typeof input.format_version !== 'number' || input.format_version > WORKFLOW_EXPORT_FORMAT_VERSION) {
+    return { error: `Unsupported export format version ${String(input.format_version)}. This app supports up to version ${WORKFLOW_EXPORT_FORMAT_VERSION}.` };
+  }
+  if (!isRecord(input.template) || !isString(input.template.name)) {
+    return { error: 'Export is missing the template name' };
+  }
+  if (!Array.isArray(input.nodes) || !Array.isArray(input.edges)) {
+    return { error: 'Export is missing nodes or edges' };
+  }
+
+  const references = isRecord(input.references) ? input.references : {};
+
+  return {
+    document: {
+      ...(input as unknown as WorkflowTemplateExport),
+      references: {
+        roles: Array.isArray(references.roles) ? references.roles : [],
+        departments: Array.isArray(references.departments) ? references.departments : [],
+        users: Array.isArray(references.users) ? references.users : [],
+        form_templates: Array.isArray(references.form_templates) ? references.form_templates : [],
+        workflow_templates: Array.isArray(references.workflow_templates) ? references.workflow_templates : [],
+        skills: Array.isArray(references.skills) ? references.skills : [],
+      },
+    },
+  };
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Resolve every org-specific reference in an export against this organization,
+ * give nodes fresh IDs and validate the result. Nothing is written.
+ */
+export async function planWorkflowTemplateImport(
+  supabase: any,
+  document: WorkflowTemplateExport,
+  templateName?: string
+): Promise<WorkflowImportPlan> {
+  const [
+    { data: localRoles },
+    { data: localDepartments },
+    { data: localFormTemplates },
+    { data: localWorkflowTemplates },
+    { data: localSkills },
+  ] = await Promise.all([
+    supabase.from('roles').select('id, name, department_id, departments(name)'),
+    supabase.from('departments').select('id, name'),
+    supabase.from('form_templates').select('id, name'),
+    supabase.from('workflow_templates').select('id, name'),
+    supabase.from('skills').select('id, name'),
+  ]);
+
+  const exportedEmails = document.references.users.map((u) => u.email).filter(isString);
+  const { data: localUsers } = exportedEmails.length > 0
+    ? await supabase.from('user_profiles').select('id, name, email').in('email', exportedEmails)
+    : { data: [] };
+
+  const unresolvedByKey = new Map<string, UnresolvedReference>();
+  const addUnresolved = (ref: Omit<UnresolvedReference, 'nodeLabels'>, nodeLabel: string) => {
+    const key = `${ref.kind}:${ref.name}:${ref.detail || ''}`;
+    const existing = unresolvedByKey.get(key);
+    if (existing) {
+      if (!existing.nodeLabels.includes(nodeLabel)) existing.nodeLabels.push(nodeLabel);
+    } else {
+      unresolvedByKey.set(key, { ...ref, nodeLabels: [nodeLabel] });
+    }
+  };
+
+  // Roles match by name, preferring the one in the department with the same name
+  const resolveRole = (exportedRoleId: string, nodeLabel: string): { id: string; name: string } | null => {
+    const ref = document.references.roles.find((r) => r.id === exportedRoleId);
+    if (!ref) {
+      addUnresolved({ kind: 'role', name: exportedRoleId, reason: 'not_found' }, nodeLabel);
+      return null;
+    }
+
+    const byName = (localRoles || []).filter((r: Record<string, any>) => normalizeName(r.name) === normalizeName(ref.name));
+    const inDepartment = ref.department_name
+      ? byName.filter((r: Record<string, any>) =>
+          isRecord(r.departments) && isString(r.departments.name) &&
+          normalizeName(r.departments.name) === normalizeName(ref.department_name as string))
+      : [];
+    const matches = inDepartment.length > 0 ? inDepartment : byName;
+
+    if (matches.length === 1) {
+      return { id: matches[0].id, name: matches[0].name };
+    }
+
+    addUnresolved({
+      kind: 'role',
+      name: ref.name,
+      detail: ref.department_name || undefined,
+      reason: matches.length === 0 ? 'not_found' : 'ambiguous',
+    }, nodeLabel);
+    return null;
+  };
+
+  const resolveDepartment = (exportedDepartmentId: string, nodeLabel: string): { id: string; name: string } | null => {
+    const ref = document.references.departments.find((d) => d.id === exportedDepartmentId);
+    const match = ref
+      ? (localDepartments || []).find((d: Record<string, any>) => normalizeName(d.name) === normalizeName(ref.name))
+      : null;
+
+    if (match) return { id: match.id, name: match.name };
+
+    addUnresolved({ kind: 'department', name: ref?.name || exportedDepartmentId, reason: 'not_found' }, nodeLabel);
+    return null;
+  };
+
+  const resolveUser = (exportedUserId: string, nodeLabel: string): { id: string; name: string } | null => {
+    const ref = document.references.users.find((u) => u.id === exportedUserId);
+    const match = ref
+      ? (localUsers || []).find((u: Record<string, any>) => normalizeName(u.email) === normalizeName(ref.email))
+      : null;
+
+    if (match) return { id: match.id, name: match.name };
+
+    addUnresolved({ kind: 'user', name: ref?.name || exportedUserId, detail: ref?.email, reason: 'not_found' }, nodeLabel);
+    return null;
+  };
+
+  const resolveWorkflowTemplate = (exportedTemplateId: string, nodeLabel: string): { id: string; name: string } | null => {
+    const ref = (document.references.workflow_templates || []).find((t) => t.id === exportedTemplateId);
+    const matches = ref
+      ? (localWorkflowTemplates || []).filter((t: Record<string, any>) => normalizeName(t.name) === normalizeName(ref.name))
+      : [];
+
+    if (matches.length === 1) return { id: matches[0].id, name: matches[0].name };
+
+    addUnresolved({
+      kind: 'workflow',
+      name: ref?.name || exportedTemplateId,
+      reason: matches.length === 0 ? 'not_found' : 'ambiguous',
+    }, nodeLabel);
+    return null;
+  };
+
+  const resolveSkill = (exportedSkillId: string, nodeLabel: string): string | null => {
+    const ref = (document.references.skills || []).find((sk) => sk.id === exportedSkillId);
+    const match = ref
+      ? (localSkills || []).find((sk: Record<string, any>) => normalizeName(sk.name) === normalizeName(ref.name))
+      : null;
+
+    if (match) return match.id;
+
+    addUnresolved({ kind: 'skill', name: ref?.name || exportedSkillId, reason: 'not_found' }, nodeLabel);
+    return null;
+  };
+
+  // Form templates are matched by name; missing ones are created from the embedded schema on import
+  const formTemplatesToCreate: { sourceId: string; name: string }[] = [];
+  const formTemplateIdMap = new Map<string, string | null>();
+  document.references.form_templates.forEach((ft) => {
+    const match = (localFormTemplates || []).find((f: Record<string, any>) => normalizeName(f.name) === normalizeName(ft.name));
+    if (match) {
+      formTemplateIdMap.set(ft.id, match.id);
+    } else {
+      formTemplateIdMap.set(ft.id, null);
+      formTemplatesToCreate.push({ sourceId: ft.id, name: ft.name });
+    }
+  });
+
+  // Fresh node IDs so the same export can be imported more than once
+  const nodeIdMap = new Map<string, string>();
+  document.nodes.forEach((node) => nodeIdMap.set(node.id, crypto.randomUUID()));
+
+  const nodes: Node<WorkflowNodeData>[] = document.nodes.map((node) => {
+    const data = node.data;
+    const label = data?.label || 'Untitled';
+    const config: NonNullable<WorkflowNodeData['config']> = { ...(data?.config || {}) };
+
+    if (config.roleId) {
+      const role = resolveRole(config.roleId, label);
+      config.roleId = role?.id;
+      config.roleName = role?.name || config.roleName;
+    }
+    if (config.approverRoleId) {
+      const role = resolveRole(config.approverRoleId, label);
+      config.approverRoleId = role?.id;
+      config.approverRoleName = role?.name || config.approverRoleName;
+    }
+    if (config.departmentId) {
+      const department = resolveDepartment(config.departmentId, label);
+      config.departmentId = department?.id;
+      config.departmentName = department?.name || config.departmentName;
+    }
+    if (config.escalationUserId) {
+      const user = resolveUser(config.escalationUserId, label);
+      config.escalationUserId = user?.id;
+      config.escalationUserName = user?.name || config.escalationUserName;
+    }
+    if (Array.isArray(config.actions)) {
+      config.actions = config.actions.map((action) => {
+        const resolveActionUser = (actionUser: { id: string; name?: string }) => {
+          const user = resolveUser(actionUser.id, label);
+          return user ? { id: user.id, name: user.name } : null;
+        };
+        return {
+          ...action,
+          stakeholders: action.stakeholders
+            ?.map(resolveActionUser)
+            .filter((stakeholder): stakeholder is { id: string; name: string } => stakeholder !== null),
+          accountUser: action.accountUser ? resolveActionUser(action.accountUser) || undefined : undefined,
+        };
+      });
+    }
+    if (config.requiredSkills?.length) {
+      config.requiredSkills = config.requiredSkills.flatMap((required) => {
+        const skillId = resolveSkill(required.skillId, label);
+        return skillId ? [{ ...required, skillId }] : [];
+      });
+    }
+    if (config.subworkflowTemplateId) {
+      const workflowTemplate = resolveWorkflowTemplate(config.subworkflowTemplateId, label);
+      config.subworkflowTemplateId = workflowTemplate?.id;
+      config.subworkflowTemplateName = workflowTemplate?.name || config.subworkflowTemplateName;
+    }
+    if (config.formTemplateId) {
+      // Placeholder for forms that will be created - swapped for the real ID on commit
+      config.formTemplateId = formTemplateIdMap.get(config.formTemplateId) || config.formTemplateId;
+    }
+    if (config.sourceFormNodeId) {
+      config.sourceFormNodeId = nodeIdMap.get(config.sourceFormNodeId);
+    }
+
+    return {
+      ...node,
+      id: nodeIdMap.get(node.id) as string,
+      data: { ...data, label, config },
+    };
+  });
+
+  const edges: Edge[] = document.edges
+    .filter((edge) => nodeIdMap.has(edge.source) && nodeIdMap.has(edge.target))
+    .map((edge) => ({
+      ...edge,
+      id: crypto.randomUUID(),
+      source: nodeIdMap.get(edge.source) as string,
+      target: nodeIdMap.get(edge.target) as string,
+    }));
+
+  const validation = validateWorkflow(nodes, edges);
+  const unresolved = Array.from(unresolvedByKey.values());
+
+  return {
+    templateName: templateName?.trim() || document.template.name,
+    templateDescription: document.template.description ?? null,
+    nodes,
+    edges,
+    unresolved,
+    formTemplatesToCreate,
+    validation,
+    canImport: unresolved.length === 0 && validation.valid,
+  };
+}
+
+/**
+ * Create the template (as an unpublished draft) from a plan that has no unresolved
+ * references and passes validation.
+ */
+export async function commitWorkflowTemplateImport(
+  supabase: any,
+  plan: WorkflowImportPlan,
+  document: WorkflowTemplateExport,
+  userId: string
+): Promise<{ success: boolean; templateId?: string; error?: string }> {
+  if (!plan.canImport) {
+    return { success: false, error: 'Resolve all references and validation errors before importing' };
+  }
+
+  // Create any form templates that don't exist here yet
+  const createdFormIds = new Map<string, string>();
+  for (const formToCreate of plan.formTemplatesToCreate) {
+    const source = document.references.form_templates.find((ft) => ft.id === formToCreate.sourceId);
+    if (!source) continue;
+
+    const { data: created, error: formError } = await supabase
+      .from('form_templates')
+      .insert({
+        name: source.name,
+        description: source.description,
+        schema: source.schema,
+        created_by: userId,
+      })
+      .select('id')
+      .single();
+
+    if (formError || !created) {
+      console.error('Error creating form template during import:', formError);
+      return { success: false, error: `Failed to create form template "${source.name}"` };
+    }
+    createdFormIds.set(source.id, created.id);
+  }
+
+  const { data: template, error: templateError } = await supabase
+    .from('workflow_templates')
+    .insert({
+      name: plan.templateName,
+      description: plan.templateDescription,
+      created_by: userId,
+      // Imported workflows start inactive so they can be reviewed before use
+      is_active: false,
+      has_unpublished_changes: true,
+    })
+    .select('id')
+    .single();
+
+  if (templateError || !template) {
+    console.error('Error creating imported workflow template:', templateError);
+    return { success: false, error: `Failed to create workflow template: ${templateError?.message || 'Unknown error'}` };
+  }
+
+  const nodeInserts = plan.nodes.map((node, index) => {
+    const formTemplateId = node.data.config?.formTemplateId;
+    const resolvedNode = formTemplateId && createdFormIds.has(formTemplateId)
+      ? { ...node, data: { ...node.data, config: { ...node.data.config, formTemplateId: createdFormIds.get(formTemplateId) } } }
+      : node;
+    return editorNodeToWorkflowNodeRow(resolvedNode as unknown as Record<string, unknown>, template.id, index);
+  });
+
+  const { error: nodesError } = await supabase.from('workflow_nodes').insert(nodeInserts);
+  if (nodesError) {
+    console.error('Error inserting imported workflow nodes:', nodesError);
+    await supabase.from('workflow_templates').delete().eq('id', template.id);
+    return { success: false, error: `Failed to save workflow nodes: ${nodesError.message}` };
+  }
+
+  if (plan.edges.length > 0) {
+    const connectionInserts = plan.edges.map((edge) => editorEdgeToWorkflowConnectionRow(edge, template.id));
+    const { error: connectionsError } = await supabase.from('workflow_connections').insert(connectionInserts);
+    if (connectionsError) {
+      console.error('Error inserting imported workflow connections:', connectionsError);
+      await supabase.from('workflow_templates').delete().eq('id', template.id);
+      return { success: false, error: `Failed to save workflow connections: ${connectionsError.message}` };
+    }
+  }
+
+  return { success: true, templateId: template.id };
+}
@@ -0,0 +1,310 @@
+/**
+ * Workflow Timer Service
+ * Timer nodes pause their branch until a fixed duration has elapsed or a date
+ * (from the project or an earlier form) is reached. The timer cron job sweeps
+ * running timers and auto-advances the ones that are due.
+ *
+ * IMPORTANT: advanceDueWorkflowTimers is called from the timer cron job with a
+ * service-role client - it does not rely on RLS to scope what it sees.
+ */
+
+import { addWorkingDays, addWorkingHours, getBusinessCalendar, BusinessCalendar } from './business-calendar-service';
+import { progressWorkflowStep } from './workflow-execution-service';
+import { getPausedTimeBetween, parsePausedIntervals, NO_PAUSED_TIME, PausedTime } from './workflow-paused-time';
+import { isString, isRecord } from './type-guards';
+
+export type TimerMode = 'duration' | 'date';
+export type TimerUnit = 'hours' | 'days' | 'business_days';
+export type TimerDateSource = 'project' | 'form';
+
+export interface NodeTimerSettings {
+  mode: TimerMode;
+  duration: number;
+  unit: TimerUnit;
+  dateSource: TimerDateSource;
+  dateField: string | null;
+}
+
+export interface TimerSweepResult {
+  checked: number;
+  scheduled: number;
+  advanced: number;
+  unresolved: number;
+  errors: string[];
+}
+
+// Project columns a timer can wait on
+export const TIMER_PROJECT_DATE_FIELDS = ['start_date', 'end_date'] as const;
+
+/**
+ * Read timer settings from a workflow node (snapshot or template row).
+ * Returns null if the node isn't a timer or is not configured.
+ */
+export function getNodeTimerSettings(node: Record<string, unknown>): NodeTimerSettings | null {
+  if (node.node_type !== 'timer') return null;
+
+  const settings = isRecord(node.settings) ? node.settings : {};
+  const mode: TimerMode = settings.timer_mode === 'date' ? 'date' : 'duration';
+  const duration = Number(settings.timer_duration);
+  const unit: TimerUnit = settings.timer_unit === 'hours' || settings.timer_unit === 'days'
+    ? settings.timer_unit
+    : 'business_days';
+  const dateSource: TimerDateSource = settings.timer_date_source === 'form' ? 'form' : 'project';
+  const dateField = isString(settings.timer_date_field) && settings.timer_date_field ? settings.timer_date_field : null;
+
+  if (mode === 'duration' && (!Number.isFinite(duration) || duration <= 0)) return null;
+  if (mode === 'date' && !dateField) return null;
+
+  return { mode, duration, unit, dateSource, dateField };
+}
+
+/**
+ * Parse a project/form date value. Plain dates (YYYY-MM-DD) resume at the start
+ * of that day (UTC).
+ */
+function parseTimerDate(value: unknown): Date | null {
+  if (!isString(value) || !value) return null;
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00.000Z`) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Find the most recent value submitted for a form field in this workflow
+ * (inline form notes or linked form responses).
+ */
+async function findLatestFormFieldValue(
+  supabase: any,
+  workflowInstanceId: string,
+  fieldId: string
+): Promise<unknown> {
+  const { data: history, error } = await supabase
+    .from('workflow_history')
+    .select('notes, form_response_id, form_responses(response_data)')
+    .eq('workflow_instance_id', workflowInstanceId)
+    .order('handed_off_at', { ascending: false });
+
+  if (error) {
+    console.error('Timer: error loading workflow history for form value:', error);
+    return undefined;
+  }
+
+  for (const entry of history || []) {
+    const formResponses = Array.isArray(entry.form_responses) ? entry.form_responses[0] : entry.form_responses;
+    if (isRecord(formResponses) && isRecord(formResponses.response_data) && fieldId in formResponses.response_data) {
+      return formResponses.response_data[fieldId];
+    }
+
+    if (isString(entry.notes)) {
+      try {
+        const notes = JSON.parse(entry.notes);
+        const responses = notes?.type === 'inline_form' && isRecord(notes.data) ? notes.data.responses : null;
+        if (isRecord(responses) && fieldId in responses) {
+          return responses[fieldId];
+        }
+      } catch {
+        // Notes is not JSON, ignore
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * When a duration timer activated at `activatedAt` resumes. Time its workflow
+ * spent paused doesn't count: hour and day timers are extended by the paused
+ * wall-clock time, business-day timers by the working hours that fell inside
+ * the pauses. Null if the business calendar has no working day to land on.
+ */
+export function computeDurationTimerResumeAt(
+  timer: NodeTimerSettings,
+  activatedAt: string | Date,
+  calendar: BusinessCalendar,
+  paused: PausedTime = NO_PAUSED_TIME
+): Date | null {
+  const start = new Date(activatedAt);
+
+  if (timer.unit === 'hours') return new Date(start.getTime() + timer.duration * 60 * 60 * 1000 + paused.ms);
+  if (timer.unit === 'days') return new Date(start.getTime() + timer.duration * 24 * 60 * 60 * 1000 + paused.ms);
+
+  const resumeAt = addWorkingDays(calendar, start, timer.duration);
+  if (!resumeAt || paused.workingHours <= 0) return resumeAt;
+  return addWorkingHours(calendar, resumeAt, paused.workingHours);
+}
+
+/**
+ * Compute when a timer step resumes. Date timers resume on their date
+ * regardless of pauses. Returns null when the date it waits on isn't
+ * available yet, or the business calendar has no working day to land on (the
+ * sweep retries on every run).
+ */
+export async function computeTimerResumeAt(
+  supabase: any,
+  timer: NodeTimerSettings,
+  context: {
+    workflowInstanceId: string;
+    projectId: string | null;
+    activatedAt: string | Date;
+    calendar?: BusinessCalendar;
+    paused?: PausedTime;
+  }
+): Promise<Date | null> {
+  if (timer.mode === 'duration') {
+    const calendar = context.calendar || await getBusinessCalendar(supabase);
+    return computeDurationTimerResumeAt(timer, context.activatedAt, calendar, context.paused);
+  }
+
+  if (timer.dateSource === 'project') {
+    if (!context.projectId || !(TIMER_PROJECT_DATE_FIELDS as readonly string[]).includes(timer.dateField!)) return null;
+
+    const { data: project, error } = await supabase
+      .from('projects')
+      .select('start_date, end_date')
+      .eq('id', context.projectId)
+      .single();
+
+    if (error || !project) return null;
+    return parseTimerDate(project[timer.dateField!]);
+  }
+
+  return parseTimerDate(await findLatestFormFieldValue(supabase, context.workflowInstanceId, timer.dateField!));
+}
+
+/**
+ * Who a timer's auto-transition is attributed to: the user who handed off
+ * into the timer, falling back to the project creator.
+ */
+async function resolveTimerActor(
+  supabase: any,
+  step: Record<string, unknown>,
+  projectCreatedBy: string | null
+): Promise<string | null> {
+  const { data: handoff } = await supabase
+    .from('workflow_history')
+    .select('handed_off_by')
+    .eq('workflow_instance_id', step.workflow_instance_id)
+    .eq('to_node_id', step.node_id)
+    .not('handed_off_by', 'is', null)
+    .order('handed_off_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return isString(handoff?.handed_off_by) ? handoff.handed_off_by : projectCreatedBy;
+}
+
+/**
+ * Sweep running timer steps: stamp their resume time and auto-advance the
+ * ones that are due. Date-based timers are recomputed each run so a changed
+ * project date moves the resume time with it.
+ */
+export async function advanceDueWorkflowTimers(
+  supabase: any,
+  now: Date = new Date()
+): Promise<TimerSweepResult> {
+  const result: TimerSweepResult = { checked: 0, scheduled: 0, advanced: 0, unresolved: 0, errors: [] };
+
+  const { data: steps, error: stepsError } = await supabase
+    .from('workflow_active_steps')
+    .select(`
+      id,
+      workflow_instance_id,
+      node_id,
+      branch_id,
+      activated_at,
+      timer_resume_at,
+      workflow_instances!inner(
+        id,
+        status,
+        project_id,
+        started_snapshot,
+        paused_intervals,
+        projects(id, created_by)
+      )
+    `)
+    .eq('status', 'active');
+
+  if (stepsError) {
+    console.error('Timer sweep: error loading active steps:', stepsError);
+    result.errors.push(stepsError.message);
+    return result;
+  }
+
+  const calendar = await getBusinessCalendar(supabase);
+
+  for (const step of steps || []) {
+    const instance = step.workflow_instances;
+    if (!isRecord(instance) || instance.status !== 'active') continue;
+
+    const snapshot = isRecord(instance.started_snapshot) ? instance.started_snapshot : {};
+    const snapshotNodes = Array.isArray(snapshot.nodes) ? snapshot.nodes : [];
+    const node = snapshotNodes.find((n: unknown) => isRecord(n) && n.id === step.node_id) as Record<string, unknown> | undefined;
+    if (!node) continue;
+
+    const timer = getNodeTimerSettings(node);
+    if (!timer) continue;
+
+    result.checked++;
+
+    try {
+      let resumeAt = step.timer_resume_at ? new Date(step.timer_resume_at) : null;
+
+      if (!resumeAt || timer.mode === 'date') {
+        const computed = await computeTimerResumeAt(supabase, timer, {
+          workflowInstanceId: step.workflow_instance_id,
+          projectId: isString(instance.project_id) ? instance.project_id : null,
+          activatedAt: step.activated_at,
+          calendar,
+          paused: getPausedTimeBetween(calendar, parsePausedIntervals(instance.paused_intervals), new Date(step.activated_at)),
+        });
+
+        if (!computed) {
+          result.unresolved++;
+          continue;
+        }
+
+        if (!resumeAt || computed.getTime() !== resumeAt.getTime()) {
+          await supabase
+            .from('workflow_active_steps')
+            .update({ timer_resume_at: computed.toISOString() })
+            .eq('id', step.id);
+          result.scheduled++;
+        }
+        resumeAt = computed;
+      }
+
+      if (now < resumeAt) continue;
+
+      const project = isRecord(instance.projects) ? instance.projects : null;
+      const actorId = await resolveTimerActor(supabase, step, project && isString(project.created_by) ? project.created_by : null);
+      if (!actorId) {
+        result.errors.push(`Step ${step.id}: no user to attribute the transition to`);
+        continue;
+      }
+
+      const progress = await progressWorkflowStep(
+        supabase,
+        step.workflow_instance_id,
+        step.id,
+        actorId,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { transitionType: 'auto' }
+      );
+
+      if (progress.success) {
+        result.advanced++;
+      } else {
+        result.errors.push(`Step ${step.id}: ${progress.error}`);
+      }
+    } catch (error: unknown) {
+      console.error('Timer sweep: error advancing step:', { stepId: step.id, error });
+      result.errors.push(`Step ${step.id}: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }
+
+  return result;
+}
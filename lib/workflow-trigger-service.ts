@@ -0,0 +1,196 @@
+/**
+ * Workflow Trigger Service
+ * Templates declare trigger rules ("on project created in account X with
+ * priority urgent", "when status becomes in_progress", "when a client submits
+ * a request") that start the template on a project automatically. The project
+ * API routes call evaluateWorkflowTriggers after the event; the first active
+ * rule whose conditions match starts its workflow via startWorkflowForProject.
+ *
+ * A project only runs one top-level workflow at a time, so nothing is started
+ * if one is already active or paused.
+ */
+
+import { startWorkflowForProject } from './workflow-execution-service';
+import { isString, isRecord } from './type-guards';
+
+export type WorkflowTriggerEventType = 'project_created' | 'project_status_changed' | 'client_request_submitted';
+
+export interface WorkflowTriggerConditions {
+  account_id?: string | null;
+  priority?: string | null;
+  // project_status_changed: the status the project moved to
+  status?: string | null;
+}
+
+export interface WorkflowTriggerRule {
+  id: string;
+  workflow_template_id: string;
+  name: string;
+  event: WorkflowTriggerEventType;
+  conditions: WorkflowTriggerConditions;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkflowTriggerEvent {
+  type: WorkflowTriggerEventType;
+  project: {
+    id: string;
+    account_id: string | null;
+    priority?: string | null;
+    status?: string | null;
+  };
+  previousStatus?: string | null;
+}
+
+export interface WorkflowTriggerResult {
+  started: { ruleId: string; templateId: string; workflowInstanceId: string } | null;
+  // Why nothing was started, when a rule matched
+  skippedReason?: string;
+  errors: string[];
+}
+
+/**
+ * Read the conditions object of a rule row, dropping empty values
+ */
+export function getTriggerConditions(rule: Record<string, unknown>): WorkflowTriggerConditions {
+  const conditions = isRecord(rule.conditions) ? rule.conditions : {};
+  const result: WorkflowTriggerConditions = {};
+
+  if (isString(conditions.account_id) && conditions.account_id) result.account_id = conditions.account_id;
+  if (isString(conditions.priority) && conditions.priority) result.priority = conditions.priority;
+  if (isString(conditions.status) && conditions.status) result.status = conditions.status;
+
+  return result;
+}
+
+/**
+ * Does an event satisfy a rule? Conditions left empty match any project.
+ */
+export function matchesTriggerRule(rule: Record<string, unknown>, event: WorkflowTriggerEvent): boolean {
+  if (rule.is_active === false || rule.event !== event.type) return false;
+
+  // A status change that didn't change anything isn't an event
+  if (event.type === 'project_status_changed' && event.previousStatus === event.project.status) return false;
+
+  const conditions = getTriggerConditions(rule);
+  if (conditions.account_id && conditions.account_id !== event.project.account_id) return false;
+  if (conditions.priority && conditions.priority !== event.project.priority) return false;
+  if (conditions.status && conditions.status !== event.project.status) return false;
+
+  return true;
+}
+
+/**
+ * Trigger rules for one template, oldest first
+ */
+export async function getWorkflowTriggerRules(supabase: any, templateId: string): Promise<WorkflowTriggerRule[]> {
+  const { data, error } = await supabase
+    .from('workflow_trigger_rules')
+    .select('*')
+    .eq('workflow_template_id', templateId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading workflow trigger rules:', error);
+    return [];
+  }
+
+  return (data || []).map((rule: any) => ({ ...rule, conditions: getTriggerConditions(rule) }));
+}
+
+/**
+ * Start the workflow of the first matching trigger rule on the event's
+ * project. Never throws - the event that fired it (creating or updating a
+ * project) has already succeeded, so failures are logged and reported on
+ * the project instead.
+ */
+export async function evaluateWorkflowTriggers(
+  supabase: any,
+  event: WorkflowTriggerEvent,
+  actorId: string
+): Promise<WorkflowTriggerResult> {
+  const result: WorkflowTriggerResult = { started: null, errors: [] };
+
+  try {
+    const { data: rules, error: rulesError } = await supabase
+      .from('workflow_trigger_rules')
+      .select('*, workflow_templates(id, name, is_active)')
+      .eq('event', event.type)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (rulesError) {
+      console.error('Error loading workflow trigger rules:', rulesError);
+      result.errors.push('Failed to load workflow trigger rules');
+      return result;
+    }
+
+    const matching = (rules || []).filter((rule: any) =>
+      rule.workflow_templates?.is_active && matchesTriggerRule(rule, event)
+    );
+
+    if (matching.length === 0) return result;
+
+    const { data: running } = await supabase
+      .from('workflow_instances')
+      .select('id')
+      .eq('project_id', event.project.id)
+      .is('parent_instance_id', null)
+      .in('status', ['active', 'paused'])
+      .limit(1)
+      .maybeSingle();
+
+    if (running) {
+      result.skippedReason = 'Project already has a running workflow';
+      return result;
+    }
+
+    for (const rule of matching) {
+      const templateName = rule.workflow_templates?.name || 'Workflow';
+      const started = await startWorkflowForProject(supabase, event.project.id, rule.workflow_template_id, actorId);
+
+      if (!started.success || !started.workflowInstanceId) {
+        // Try the next matching rule - this one's template may be unpublished
+        console.error('Workflow trigger failed to start workflow:', {
+          ruleId: rule.id,
+          projectId: event.project.id,
+          error: started.error,
+        });
+        result.errors.push(`${rule.name}: ${started.error || 'Unknown error'}`);
+        continue;
+      }
+
+      await supabase
+        .from('workflow_instances')
+        .update({ trigger_rule_id: rule.id })
+        .eq('id', started.workflowInstanceId);
+
+      await supabase.from('project_updates').insert({
+        project_id: event.project.id,
+        content: `**Workflow Started Automatically**: ${templateName} (trigger "${rule.name}")`,
+        created_by: actorId,
+      });
+
+      result.started = {
+        ruleId: rule.id,
+        templateId: rule.workflow_template_id,
+        workflowInstanceId: started.workflowInstanceId,
+      };
+      return result;
+    }
+
+    await supabase.from('project_updates').insert({
+      project_id: event.project.id,
+      content: `**Workflow not started**: ${matching.length} trigger rule(s) matched but none could start - ${result.errors.join('; ')}`,
+      created_by: null,
+    });
+  } catch (error: unknown) {
+    console.error('Error evaluating workflow triggers:', error);
+    result.errors.push('Failed to evaluate workflow triggers');
+  }
+
+  return result;
+}
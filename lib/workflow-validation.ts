@@ -2,14 +2,16 @@
  * Workflow Validation Module
  * Validates workflow templates before saving to prevent invalid configurations
  *
- * IMPORTANT: This version enforces SINGLE-PATHWAY workflows.
- * - No parallel execution
+ * Parallel work must be explicit:
+ * - Only Fork nodes start parallel branches; every Fork is closed by one Join (sync) node
  * - Approval nodes can have approve/reject paths (reject can loop back)
  * - Conditional nodes route to ONE path based on conditions (not parallel)
- * - Sync nodes are deprecated/not allowed
+ * - Join nodes can route on the branches' aggregate decision (all approved / any rejected)
  */
 
 import type { Node, Edge } from '@xyflow/react';
+import { getActionConfigError, WorkflowActionConfig } from './workflow-action-service';
+import { getJoinPolicySettings, formatJoinPolicy } from './workflow-join-policy';
 
 export interface ValidationResult {
   valid: boolean;
@@ -40,11 +42,25 @@ export interface RoleWithUserCount {
   user_count: number;
 }
 
-// Node types that are allowed to have multiple outgoing edges (for branching, not parallel execution)
-const BRANCHING_NODE_TYPES = ['approval', 'conditional'];
+// Node types that are allowed to have multiple outgoing edges
+// (fork starts them all in parallel, the rest take one path by decision/condition)
+const BRANCHING_NODE_TYPES = ['approval', 'conditional', 'sync', 'fork'];
+
+// Edge decisions that loop back for rework rather than moving the workflow forward
+const LOOP_BACK_DECISIONS = ['rejected', 'any_rejected'];
+
+/**
+ * Sub-workflow references between templates, keyed by template ID:
+ * the template's name and the templates its subworkflow nodes start.
+ */
+export type SubworkflowReferenceMap = Record<string, { name: string; references: string[] }>;
 
 export interface ValidateWorkflowOptions {
   roles?: RoleWithUserCount[];
+  // The template being validated and the other templates' sub-workflow
+  // references - needed to catch cycles that go through other templates
+  templateId?: string;
+  subworkflowReferences?: SubworkflowReferenceMap;
 }
 
 /**
@@ -98,10 +114,6 @@ export function validateWorkflow(
     });
   }
 
-  // Check for deprecated sync nodes (parallel workflows are disabled)
-  const syncErrors = validateNoSyncNodes(nodes);
-  errors.push(...syncErrors);
-
   // Check for orphaned nodes (nodes with no incoming or outgoing edges, except start/end)
   const orphanedNodes = findOrphanedNodes(nodes, edges);
   for (const node of orphanedNodes) {
@@ -114,13 +126,12 @@ export function validateWorkflow(
     });
   }
 
-  // Enforce single pathway - nodes should only have ONE outgoing edge
-  // (except approval/conditional which can branch)
-  const singlePathErrors = validateSinglePathway(nodes, edges);
-  errors.push(...singlePathErrors);
+  // Parallel work only through Fork nodes, each closed by a Join
+  const parallelErrors = validateParallelPaths(nodes, edges);
+  errors.push(...parallelErrors);
 
-  // Check for cycles (allowing rejection loops)
-  const cycleErrors = detectCycles(nodes, edges);
+  // Check for cycles (allowing rejection loops), including through sub-workflows
+  const cycleErrors = detectCycles(nodes, edges, options);
   errors.push(...cycleErrors);
 
   // Check approval nodes have required edges
@@ -131,6 +142,18 @@ export function validateWorkflow(
   const conditionalWarnings = validateConditionalNodes(nodes, edges);
   warnings.push(...conditionalWarnings);
 
+  // Check timer nodes know how long to wait
+  const timerErrors = validateTimerNodes(nodes);
+  errors.push(...timerErrors);
+
+  // Check action nodes have runnable actions
+  const actionErrors = validateActionNodes(nodes);
+  errors.push(...actionErrors);
+
+  // Check sub-workflow nodes know which template to start
+  const subworkflowErrors = validateSubworkflowNodes(nodes);
+  errors.push(...subworkflowErrors);
+
   // Check for roles with no users assigned (if roles data provided)
   if (options?.roles) {
     const roleErrors = validateRoleAssignments(nodes, options.roles);
@@ -145,31 +168,137 @@ export function validateWorkflow(
 }
 
 /**
- * Validate that sync nodes are not used (parallel workflows disabled)
+ * Validate that timer nodes have a duration or a date to wait for
  */
-function validateNoSyncNodes(nodes: Node[]): ValidationError[] {
+function validateTimerNodes(nodes: Node[]): ValidationError[] {
   const errors: ValidationError[] = [];
 
-  const syncNodes = nodes.filter((n: any) => n.data?.type === 'sync');
+  for (const node of nodes.filter((n: any) => n.data?.type === 'timer')) {
+    const config = (node.data as any)?.config;
+    const configured = config?.timerMode === 'date'
+      ? !!config?.timerDateField
+      : Number(config?.timerDuration) > 0;
 
-  for (const node of syncNodes) {
-    errors.push({
-      type: 'error',
-      code: 'SYNC_NOT_ALLOWED',
-      message: `Sync node "${node.data?.label || 'node'}" is not allowed. Parallel workflows have been disabled. Please remove sync nodes and use a single pathway.`,
-      nodeId: node.id,
-      nodeLabel: node.data?.label as string
+    if (!configured) {
+      errors.push({
+        type: 'error',
+        code: 'TIMER_NOT_CONFIGURED',
+        message: `Timer "${node.data?.label || 'Unknown'}" needs a wait duration or a date to wait for`,
+        nodeId: node.id,
+        nodeLabel: node.data?.label as string
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate that action nodes have at least one action and every action is complete
+ */
+function validateActionNodes(nodes: Node[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const node of nodes.filter((n: any) => n.data?.type === 'action')) {
+    const actions: WorkflowActionConfig[] = (node.data as any)?.config?.actions || [];
+    const label = node.data?.label || 'Unknown';
+
+    if (actions.length === 0) {
+      errors.push({
+        type: 'error',
+        code: 'ACTION_NOT_CONFIGURED',
+        message: `Action node "${label}" has no actions configured`,
+        nodeId: node.id,
+        nodeLabel: node.data?.label as string
+      });
+      continue;
+    }
+
+    actions.forEach((action, index) => {
+      const configError = getActionConfigError(action);
+      if (configError) {
+        errors.push({
+          type: 'error',
+          code: 'ACTION_NOT_CONFIGURED',
+          message: `Action node "${label}", action ${index + 1}: ${configError}`,
+          nodeId: node.id,
+          nodeLabel: node.data?.label as string
+        });
+      }
     });
   }
 
   return errors;
 }
 
+/**
+ * Validate that sub-workflow nodes have a template to start
+ */
+function validateSubworkflowNodes(nodes: Node[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const node of nodes.filter((n: any) => n.data?.type === 'subworkflow')) {
+    if (!(node.data as any)?.config?.subworkflowTemplateId) {
+      errors.push({
+        type: 'error',
+        code: 'SUBWORKFLOW_NOT_CONFIGURED',
+        message: `Sub-workflow "${node.data?.label || 'Unknown'}" has no workflow template selected`,
+        nodeId: node.id,
+        nodeLabel: node.data?.label as string
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Find a chain of sub-workflow references that leads from a template back to
+ * itself. Returns the template IDs along the cycle (starting and ending with
+ * templateId), or null when there is none.
+ */
+export function findSubworkflowCycle(
+  templateId: string,
+  startTemplateIds: string[],
+  references: SubworkflowReferenceMap
+): string[] | null {
+  const visited = new Set<string>();
+
+  function walk(currentId: string, path: string[]): string[] | null {
+    if (currentId === templateId) return [...path, currentId];
+    if (visited.has(currentId)) return null;
+    visited.add(currentId);
+
+    for (const nextId of references[currentId]?.references || []) {
+      const cycle = walk(nextId, [...path, currentId]);
+      if (cycle) return cycle;
+    }
+    return null;
+  }
+
+  for (const startId of startTemplateIds) {
+    const cycle = walk(startId, [templateId]);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
+
+/**
+ * Validate parallel paths: single-pathway rules for ordinary nodes plus
+ * fork/join matching. Also run by the save route.
+ */
+export function validateParallelPaths(nodes: Node[], edges: Edge[]): ValidationError[] {
+  return [...validateSinglePathway(nodes, edges), ...validateForkJoin(nodes, edges)];
+}
+
 /**
  * Validate single pathway - most nodes can only have one outgoing edge
  * Exceptions:
  * - approval: can have approved/rejected paths
  * - conditional: can have multiple condition-based paths (only ONE is taken at runtime)
+ * - sync (join): can route on the aggregate decision of its branches
+ * - fork: starts every outgoing path in parallel
  */
 function validateSinglePathway(nodes: Node[], edges: Edge[]): ValidationError[] {
   const errors: ValidationError[] = [];
@@ -194,7 +323,7 @@ function validateSinglePathway(nodes: Node[], edges: Edge[]): ValidationError[]
       errors.push({
         type: 'error',
         code: 'PARALLEL_NOT_ALLOWED',
-        message: `Node "${node.data?.label || 'node'}" has ${outgoingEdges.length} outgoing connections. Only ONE is allowed. Parallel workflows are disabled.`,
+        message: `Node "${node.data?.label || 'node'}" has ${outgoingEdges.length} outgoing connections. Only ONE is allowed. Use a Fork node to run steps in parallel.`,
         nodeId: node.id,
         nodeLabel: node.data?.label as string
       });
@@ -204,6 +333,190 @@ function validateSinglePathway(nodes: Node[], edges: Edge[]): ValidationError[]
   return errors;
 }
 
+function isLoopBackEdge(edge: Edge): boolean {
+  const data = edge.data as Record<string, unknown> | undefined;
+  return LOOP_BACK_DECISIONS.includes(data?.decision as string) ||
+    LOOP_BACK_DECISIONS.includes(data?.conditionValue as string);
+}
+
+/**
+ * Validate that every Fork is matched by exactly one Join:
+ * - a Fork starts at least two branches
+ * - every path of every branch (ignoring rejection loops) reaches the same
+ *   Join before it ends - nested forks are skipped over via their own Join
+ * - the Join has one incoming connection per branch, since the engine counts
+ *   incoming connections to know how many branches to expect
+ * - every Join closes exactly one Fork, and its policy fits the branch count
+ */
+function validateForkJoin(nodes: Node[], edges: Edge[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const label = (id: string) => (nodeById.get(id)?.data?.label as string) || 'node';
+  const typeOf = (id: string) => nodeById.get(id)?.data?.type as string | undefined;
+  const forwardTargets = (id: string) =>
+    edges.filter((e) => e.source === id && !isLoopBackEdge(e)).map((e) => e.target);
+
+  const forks = nodes.filter((n) => n.data?.type === 'fork');
+  const joins = nodes.filter((n) => n.data?.type === 'sync');
+  const joinByFork = new Map<string, string | null>();
+  const forksByJoin = new Map<string, string[]>();
+
+  // Joins reachable from a node on every path, stopping at the first join.
+  // 'end' marks a path that finishes without one.
+  function findClosingJoins(fromId: string, resolving: Set<string>): Set<string> {
+    const found = new Set<string>();
+    const visited = new Set<string>();
+    const queue = [fromId];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (visited.has(id)) continue;
+      visited.add(id);
+
+      const type = typeOf(id);
+      if (type === 'sync') {
+        found.add(id);
+        continue;
+      }
+
+      if (type === 'fork' && id !== fromId) {
+        // A nested fork: continue after its own join
+        const innerJoin = resolveFork(id, resolving);
+        if (innerJoin) queue.push(...forwardTargets(innerJoin));
+        continue;
+      }
+
+      const targets = forwardTargets(id);
+      if (targets.length === 0) {
+        found.add('end');
+      }
+      queue.push(...targets);
+    }
+
+    return found;
+  }
+
+  function resolveFork(forkId: string, resolving: Set<string> = new Set()): string | null {
+    if (joinByFork.has(forkId)) return joinByFork.get(forkId)!;
+    if (resolving.has(forkId)) return null;
+    resolving.add(forkId);
+
+    const branchStarts = forwardTargets(forkId);
+    const joinsReached = new Set<string>();
+    let branchEnds = false;
+
+    for (const start of branchStarts) {
+      const closing = typeOf(start) === 'sync' ? new Set([start]) : findClosingJoins(start, resolving);
+      for (const joinId of closing) {
+        if (joinId === 'end') {
+          branchEnds = true;
+        } else {
+          joinsReached.add(joinId);
+        }
+      }
+    }
+
+    const joinId = joinsReached.size === 1 && !branchEnds ? [...joinsReached][0] : null;
+
+    if (branchStarts.length >= 2) {
+      if (branchEnds) {
+        errors.push({
+          type: 'error',
+          code: 'FORK_BRANCH_NOT_JOINED',
+          message: `A branch of Fork "${label(forkId)}" finishes without reaching a Join. Every parallel branch must end at the fork's Join node.`,
+          nodeId: forkId,
+          nodeLabel: label(forkId)
+        });
+      } else if (joinsReached.size > 1) {
+        errors.push({
+          type: 'error',
+          code: 'FORK_JOIN_MISMATCH',
+          message: `Branches of Fork "${label(forkId)}" end at different Joins (${[...joinsReached].map((id) => `"${label(id)}"`).join(', ')}). All branches of a fork must meet at one Join.`,
+          nodeId: forkId,
+          nodeLabel: label(forkId)
+        });
+      }
+    }
+
+    joinByFork.set(forkId, joinId);
+    return joinId;
+  }
+
+  for (const fork of forks) {
+    const branchCount = forwardTargets(fork.id).length;
+
+    if (branchCount < 2) {
+      errors.push({
+        type: 'error',
+        code: 'FORK_TOO_FEW_BRANCHES',
+        message: `Fork "${label(fork.id)}" needs at least two outgoing connections to run steps in parallel.`,
+        nodeId: fork.id,
+        nodeLabel: label(fork.id)
+      });
+      continue;
+    }
+
+    const joinId = resolveFork(fork.id);
+    if (!joinId) continue;
+
+    forksByJoin.set(joinId, [...(forksByJoin.get(joinId) || []), fork.id]);
+
+    const joinIncoming = edges.filter((e) => e.target === joinId && !isLoopBackEdge(e)).length;
+    if (joinIncoming !== branchCount) {
+      errors.push({
+        type: 'error',
+        code: 'JOIN_BRANCH_COUNT_MISMATCH',
+        message: `Join "${label(joinId)}" has ${joinIncoming} incoming connections but Fork "${label(fork.id)}" starts ${branchCount} branches. Connect each branch to the Join exactly once.`,
+        nodeId: joinId,
+        nodeLabel: label(joinId)
+      });
+    }
+  }
+
+  for (const join of joins) {
+    const matchingForks = forksByJoin.get(join.id) || [];
+
+    if (matchingForks.length === 0) {
+      errors.push({
+        type: 'error',
+        code: 'JOIN_WITHOUT_FORK',
+        message: `Join "${label(join.id)}" isn't closing a Fork. Add a Fork node where the parallel branches start.`,
+        nodeId: join.id,
+        nodeLabel: label(join.id)
+      });
+      continue;
+    }
+
+    if (matchingForks.length > 1) {
+      errors.push({
+        type: 'error',
+        code: 'JOIN_SHARED_BY_FORKS',
+        message: `Join "${label(join.id)}" closes more than one Fork (${matchingForks.map((id) => `"${label(id)}"`).join(', ')}). Give each Fork its own Join.`,
+        nodeId: join.id,
+        nodeLabel: label(join.id)
+      });
+      continue;
+    }
+
+    const config = (join.data as any)?.config || {};
+    const policy = getJoinPolicySettings({
+      settings: { join_policy: config.joinPolicy, join_required_branches: config.joinRequiredBranches }
+    });
+    const branchCount = forwardTargets(matchingForks[0]).length;
+    if (policy.policy === 'n_of_m' && policy.requiredBranches > branchCount) {
+      errors.push({
+        type: 'error',
+        code: 'JOIN_POLICY_UNREACHABLE',
+        message: `Join "${label(join.id)}" waits for ${formatJoinPolicy(policy)} but its Fork only starts ${branchCount}.`,
+        nodeId: join.id,
+        nodeLabel: label(join.id)
+      });
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Validate conditional nodes have proper configuration
  */
@@ -288,9 +601,11 @@ function findOrphanedNodes(nodes: Node[], edges: Edge[]): Node[] {
 
 /**
  * Detect cycles in the workflow
- * Allows intentional rejection loops (edges marked with decision === 'rejected')
+ * Allows intentional rejection loops (edges marked with decision === 'rejected').
+ * Sub-workflow nodes that would (directly or through other templates) start
+ * this template again are cycles too.
  */
-function detectCycles(nodes: Node[], edges: Edge[]): ValidationError[] {
+function detectCycles(nodes: Node[], edges: Edge[], options?: ValidateWorkflowOptions): ValidationError[] {
   const errors: ValidationError[] = [];
   const visited = new Set<string>();
   const recursionStack = new Set<string>();
@@ -303,9 +618,9 @@ function detectCycles(nodes: Node[], edges: Edge[]): ValidationError[] {
 
     const outgoing = edges.filter((e: any) => e.source === nodeId);
     for (const edge of outgoing) {
-      // Skip edges that are explicitly marked as rejection loops (intentional back-edges)
-      const edgeData = edge.data as Record<string, unknown>;
-      if (edgeData?.decision === 'rejected' || edgeData?.conditionValue === 'rejected') {
+      // Skip edges that are explicitly marked as rejection loops (intentional back-edges),
+      // including a join's "any rejected" path back to before its fork
+      if (isLoopBackEdge(edge)) {
         continue; // Rejection loops are allowed
       }
 
@@ -342,6 +657,32 @@ function detectCycles(nodes: Node[], edges: Edge[]): ValidationError[] {
     }
   }
 
+  // Cycles across templates through sub-workflow nodes
+  if (options?.templateId) {
+    const references = options.subworkflowReferences || {};
+    const templateName = (id: string) => id === options.templateId
+      ? 'this workflow'
+      : `"${references[id]?.name || 'Unknown workflow'}"`;
+
+    for (const node of nodes.filter((n: any) => n.data?.type === 'subworkflow')) {
+      const targetId = (node.data as any)?.config?.subworkflowTemplateId as string | undefined;
+      if (!targetId) continue;
+
+      const cycle = findSubworkflowCycle(options.templateId, [targetId], references);
+      if (cycle) {
+        errors.push({
+          type: 'error',
+          code: 'SUBWORKFLOW_CYCLE',
+          message: cycle.length === 2
+            ? `Sub-workflow "${node.data?.label || 'Unknown'}" starts this workflow again. A workflow can't include itself.`
+            : `Sub-workflow "${node.data?.label || 'Unknown'}" creates a cycle: ${cycle.map(templateName).join(' → ')}. Workflows can't start each other in a loop.`,
+          nodeId: node.id,
+          nodeLabel: node.data?.label as string
+        });
+      }
+    }
+  }
+
   return errors;
 }
 
@@ -432,6 +773,18 @@ function validateRoleAssignments(nodes: Node[], roles: RoleWithUserCount[]): Val
           nodeId: node.id,
           nodeLabel: node.data?.label as string
         });
+      } else if (
+        role &&
+        config.approvalQuorumMode === 'n_of_m' &&
+        role.user_count < (Number(config.requiredApprovals) || 1)
+      ) {
+        errors.push({
+          type: 'error',
+          code: 'APPROVAL_QUORUM_UNREACHABLE',
+          message: `"${node.data?.label || 'Approval'}" needs ${config.requiredApprovals} approvals but only ${role.user_count} user(s) have the "${role.name}" role.`,
+          nodeId: node.id,
+          nodeLabel: node.data?.label as string
+        });
       }
     }
   }
@@ -0,0 +1,584 @@
+/**
+ * Workflow Version Service
+ * Manages published versions of workflow templates and migration of running
+ * instances between versions.
+ *
+ * Model:
+ * - workflow_nodes / workflow_connections are the editable DRAFT of a template
+ * - Publishing freezes the draft into a workflow_template_versions row
+ * - New instances start on the template's current version (copied into started_snapshot)
+ * - Running instances stay on their version until an admin migrates them
+ *
+ * IMPORTANT: All functions accept a Supabase client as a parameter
+ * to maintain authentication context from API routes
+ */
+
+import { isString, isRecord } from '@/lib/type-guards';
+
+export interface WorkflowTemplateVersion {
+  id: string;
+  workflow_template_id: string;
+  version_number: number;
+  nodes: Record<string, unknown>[];
+  connections: Record<string, unknown>[];
+  change_notes: string | null;
+  published_by: string | null;
+  published_at: string;
+}
+
+export interface WorkflowTemplateVersionSummary {
+  id: string;
+  version_number: number;
+  change_notes: string | null;
+  published_by: string | null;
+  published_by_name: string | null;
+  published_at: string;
+  node_count: number;
+  active_instance_count: number;
+  is_current: boolean;
+}
+
+/** Maps a node ID from the instance's version to a node ID in the target version (null = unmapped) */
+export type NodeMapping = Record<string, string | null>;
+
+export interface InstanceMigrationStep {
+  stepId: string | null;
+  fromNodeId: string;
+  fromNodeLabel: string;
+  toNodeId: string | null;
+  toNodeLabel: string | null;
+}
+
+export interface InstanceMigrationPlan {
+  instanceId: string;
+  projectId: string | null;
+  projectName: string | null;
+  fromVersionId: string | null;
+  fromVersionNumber: number | null;
+  canMigrate: boolean;
+  reasons: string[];
+  steps: InstanceMigrationStep[];
+}
+
+export interface MigrationPlan {
+  toVersion: Pick<WorkflowTemplateVersion, 'id' | 'version_number'>;
+  instances: InstanceMigrationPlan[];
+}
+
+export interface MigrationResult {
+  success: boolean;
+  migrated: string[];
+  failed: { instanceId: string; projectName: string | null; reasons: string[] }[];
+  error?: string;
+}
+
+function nodeLabel(node: Record<string, unknown> | undefined, fallbackId: string): string {
+  return node && isString(node.label) ? node.label : fallbackId;
+}
+
+/**
+ * Get the version a template currently publishes (null if never published)
+ */
+export async function getCurrentTemplateVersion(
+  supabase: any,
+  templateId: string
+): Promise<WorkflowTemplateVersion | null> {
+  const { data: template, error: templateError } = await supabase
+    .from('workflow_templates')
+    .select('current_version_id')
+    .eq('id', templateId)
+    .single();
+
+  if (templateError || !template?.current_version_id) {
+    return null;
+  }
+
+  const { data: version, error: versionError } = await supabase
+    .from('workflow_template_versions')
+    .select('*')
+    .eq('id', template.current_version_id)
+    .single();
+
+  if (versionError) {
+    console.error('Error loading current template version:', versionError);
+    return null;
+  }
+
+  return version as WorkflowTemplateVersion;
+}
+
+/**
+ * Get a specific version of a template
+ */
+export async function getTemplateVersion(
+  supabase: any,
+  templateId: string,
+  versionId: string
+): Promise<WorkflowTemplateVersion | null> {
+  const { data: version, error } = await supabase
+    .from('workflow_template_versions')
+    .select('*')
+    .eq('id', versionId)
+    .eq('workflow_template_id', templateId)
+    .single();
+
+  if (error || !version) {
+    return null;
+  }
+
+  return version as WorkflowTemplateVersion;
+}
+
+/**
+ * List all published versions of a template with how many active instances run on each
+ */
+export async function getTemplateVersions(
+  supabase: any,
+  templateId: string
+): Promise<WorkflowTemplateVersionSummary[]> {
+  const { data: template } = await supabase
+    .from('workflow_templates')
+    .select('current_version_id')
+    .eq('id', templateId)
+    .single();
+
+  const { data: versions, error } = await supabase
+    .from('workflow_template_versions')
+    .select('id, version_number, nodes, change_notes, published_by, published_at, user_profiles:published_by(name)')
+    .eq('workflow_template_id', templateId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    console.error('Error loading template versions:', error);
+    return [];
+  }
+
+  const { data: instances } = await supabase
+    .from('workflow_instances')
+    .select('workflow_template_version_id')
+    .eq('workflow_template_id', templateId)
+    .eq('status', 'active');
+
+  const activeCounts = new Map<string, number>();
+  (instances || []).forEach((i: Record<string, unknown>) => {
+    if (isString(i.workflow_template_version_id)) {
+      activeCounts.set(i.workflow_template_version_id, (activeCounts.get(i.workflow_template_version_id) || 0) + 1);
+    }
+  });
+
+  return (versions || []).map((v: Record<string, unknown>) => {
+    const publisher = isRecord(v.user_profiles) ? v.user_profiles : null;
+    return {
+      id: v.id as string,
+      version_number: v.version_number as number,
+      change_notes: (v.change_notes as string | null) ?? null,
+      published_by: (v.published_by as string | null) ?? null,
+      published_by_name: publisher && isString(publisher.name) ? publisher.name : null,
+      published_at: v.published_at as string,
+      node_count: Array.isArray(v.nodes) ? v.nodes.length : 0,
+      active_instance_count: activeCounts.get(v.id as string) || 0,
+      is_current: v.id === template?.current_version_id,
+    };
+  });
+}
+
+/**
+ * Flag a template's draft as differing from its published version
+ * (called whenever the editor saves nodes/connections)
+ */
+export async function markTemplateDraftChanged(supabase: any, templateId: string): Promise<void> {
+  const { error } = await supabase
+    .from('workflow_templates')
+    .update({ has_unpublished_changes: true, updated_at: new Date().toISOString() })
+    .eq('id', templateId);
+
+  if (error) {
+    console.error('Error marking template draft as changed:', error);
+  }
+}
+
+/**
+ * Publish the template's current draft as a new immutable version
+ */
+export async function publishTemplateVersion(
+  supabase: any,
+  templateId: string,
+  publishedBy: string | null,
+  changeNotes?: string | null
+): Promise<{ success: boolean; version?: WorkflowTemplateVersion; error?: string }> {
+  const { data: nodes, error: nodesError } = await supabase
+    .from('workflow_nodes')
+    .select('*')
+    .eq('workflow_template_id', templateId)
+    .order('step_order');
+
+  if (nodesError) {
+    console.error('Error loading draft nodes for publish:', nodesError);
+    return { success: false, error: `Failed to load workflow nodes: ${nodesError.message}` };
+  }
+
+  if (!nodes || nodes.length === 0) {
+    return { success: false, error: 'Cannot publish a workflow with no nodes' };
+  }
+
+  const { data: connections, error: connectionsError } = await supabase
+    .from('workflow_connections')
+    .select('*')
+    .eq('workflow_template_id', templateId);
+
+  if (connectionsError) {
+    console.error('Error loading draft connections for publish:', connectionsError);
+    return { success: false, error: `Failed to load workflow connections: ${connectionsError.message}` };
+  }
+
+  const { data: latest } = await supabase
+    .from('workflow_template_versions')
+    .select('version_number')
+    .eq('workflow_template_id', templateId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const versionNumber = (latest?.version_number || 0) + 1;
+
+  const { data: version, error: insertError } = await supabase
+    .from('workflow_template_versions')
+    .insert({
+      workflow_template_id: templateId,
+      version_number: versionNumber,
+      nodes,
+      connections: connections || [],
+      change_notes: changeNotes || null,
+      published_by: publishedBy,
+    })
+    .select()
+    .single();
+
+  if (insertError || !version) {
+    console.error('Error publishing template version:', insertError);
+    return { success: false, error: `Failed to publish version: ${insertError?.message || 'Unknown error'}` };
+  }
+
+  const { error: templateError } = await supabase
+    .from('workflow_templates')
+    .update({
+      current_version_id: version.id,
+      has_unpublished_changes: false,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', templateId);
+
+  if (templateError) {
+    console.error('Error pointing template at new version:', templateError);
+    return { success: false, error: `Version ${versionNumber} was created but could not be made current: ${templateError.message}` };
+  }
+
+  return { success: true, version: version as WorkflowTemplateVersion };
+}
+
+/**
+ * Get the version new instances should start on. Templates that were never
+ * published (e.g. created before versioning) get v1 published from their draft.
+ */
+export async function getVersionForNewInstance(
+  supabase: any,
+  templateId: string,
+  startedBy: string | null
+): Promise<{ version: WorkflowTemplateVersion | null; error?: string }> {
+  const current = await getCurrentTemplateVersion(supabase, templateId);
+  if (current) {
+    return { version: current };
+  }
+
+  const published = await publishTemplateVersion(supabase, templateId, startedBy, 'Published automatically on first use');
+  if (!published.success || !published.version) {
+    return { version: null, error: published.error };
+  }
+
+  return { version: published.version };
+}
+
+/**
+ * Suggest a node mapping from one version to another:
+ * same node ID first, then a unique node with the same type and label.
+ */
+export function suggestNodeMapping(
+  fromNodes: Record<string, unknown>[],
+  toNodes: Record<string, unknown>[]
+): NodeMapping {
+  const mapping: NodeMapping = {};
+  const toIds = new Set(toNodes.map((n) => n.id));
+
+  for (const fromNode of fromNodes) {
+    const fromId = fromNode.id as string;
+
+    if (toIds.has(fromId)) {
+      mapping[fromId] = fromId;
+      continue;
+    }
+
+    const candidates = toNodes.filter((n) => n.node_type === fromNode.node_type && n.label === fromNode.label);
+    mapping[fromId] = candidates.length === 1 ? (candidates[0].id as string) : null;
+  }
+
+  return mapping;
+}
+
+/**
+ * Resolve where a node lands in the target version.
+ * Explicit mapping entries win (null means deliberately unmapped); otherwise the same ID is kept if it still exists.
+ */
+function resolveMappedNodeId(
+  fromNodeId: string,
+  nodeMapping: NodeMapping,
+  toNodesById: Map<string, Record<string, unknown>>
+): string | null {
+  if (Object.prototype.hasOwnProperty.call(nodeMapping, fromNodeId)) {
+    const mapped = nodeMapping[fromNodeId];
+    return mapped && toNodesById.has(mapped) ? mapped : null;
+  }
+  return toNodesById.has(fromNodeId) ? fromNodeId : null;
+}
+
+/**
+ * Work out, for every active instance of a template that is not already on the
+ * target version, whether its in-flight steps can be mapped onto the target version.
+ */
+export async function planInstanceMigration(
+  supabase: any,
+  templateId: string,
+  toVersionId: string,
+  nodeMapping: NodeMapping = {},
+  instanceIds?: string[]
+): Promise<{ plan?: MigrationPlan; error?: string }> {
+  const toVersion = await getTemplateVersion(supabase, templateId, toVersionId);
+  if (!toVersion) {
+    return { error: 'Target version not found' };
+  }
+
+  const toNodesById = new Map<string, Record<string, unknown>>(
+    (toVersion.nodes || []).map((n) => [n.id as string, n])
+  );
+
+  let query = supabase
+    .from('workflow_instances')
+    .select(`
+      id,
+      project_id,
+      current_node_id,
+      started_snapshot,
+      workflow_template_version_id,
+      workflow_template_versions:workflow_template_version_id(version_number),
+      projects(name)
+    `)
+    .eq('workflow_template_id', templateId)
+    .eq('status', 'active');
+
+  if (instanceIds && instanceIds.length > 0) {
+    query = query.in('id', instanceIds);
+  }
+
+  const { data: instances, error: instancesError } = await query;
+
+  if (instancesError) {
+    console.error('Error loading instances for migration:', instancesError);
+    return { error: `Failed to load workflow instances: ${instancesError.message}` };
+  }
+
+  const candidates = (instances || []).filter((i: Record<string, unknown>) => i.workflow_template_version_id !== toVersionId);
+  const candidateIds = candidates.map((i: Record<string, unknown>) => i.id as string);
+
+  const { data: activeSteps } = candidateIds.length > 0
+    ? await supabase
+        .from('workflow_active_steps')
+        .select('id, workflow_instance_id, node_id, status')
+        .in('workflow_instance_id', candidateIds)
+        .in('status', ['active', 'waiting'])
+    : { data: [] };
+
+  const plans: InstanceMigrationPlan[] = candidates.map((instance: Record<string, unknown>) => {
+    const snapshot = isRecord(instance.started_snapshot) ? instance.started_snapshot : {};
+    const fromNodes = Array.isArray(snapshot.nodes) ? (snapshot.nodes as Record<string, unknown>[]) : [];
+    const fromNodesById = new Map<string, Record<string, unknown>>(fromNodes.map((n) => [n.id as string, n]));
+    const fromVersion = isRecord(instance.workflow_template_versions) ? instance.workflow_template_versions : null;
+    const project = isRecord(instance.projects) ? instance.projects : null;
+
+    const reasons: string[] = [];
+    const steps: InstanceMigrationStep[] = [];
+
+    const instanceSteps = (activeSteps || []).filter((s: Record<string, unknown>) => s.workflow_instance_id === instance.id);
+
+    // Instances without active-step rows are tracked by current_node_id only
+    const inFlight: { stepId: string | null; nodeId: string }[] = instanceSteps.length > 0
+      ? instanceSteps.map((s: Record<string, unknown>) => ({ stepId: s.id as string, nodeId: s.node_id as string }))
+      : isString(instance.current_node_id) ? [{ stepId: null, nodeId: instance.current_node_id }] : [];
+
+    if (fromNodes.length === 0) {
+      reasons.push('Instance has no workflow snapshot to migrate from');
+    }
+
+    for (const { stepId, nodeId } of inFlight) {
+      const fromNode = fromNodesById.get(nodeId);
+      const toNodeId = resolveMappedNodeId(nodeId, nodeMapping, toNodesById);
+      const toNode = toNodeId ? toNodesById.get(toNodeId) : undefined;
+
+      steps.push({
+        stepId,
+        fromNodeId: nodeId,
+        fromNodeLabel: nodeLabel(fromNode, nodeId),
+        toNodeId,
+        toNodeLabel: toNode ? nodeLabel(toNode, toNodeId as string) : null,
+      });
+
+      if (!toNode) {
+        reasons.push(`Step "${nodeLabel(fromNode, nodeId)}" has no matching node in v${toVersion.version_number}`);
+      } else if (fromNode && fromNode.node_type !== toNode.node_type) {
+        reasons.push(`Step "${nodeLabel(fromNode, nodeId)}" maps to "${nodeLabel(toNode, toNodeId as string)}" which is a different node type (${fromNode.node_type} → ${toNode.node_type})`);
+      }
+    }
+
+    return {
+      instanceId: instance.id as string,
+      projectId: (instance.project_id as string | null) ?? null,
+      projectName: project && isString(project.name) ? project.name : null,
+      fromVersionId: (instance.workflow_template_version_id as string | null) ?? null,
+      fromVersionNumber: fromVersion && typeof fromVersion.version_number === 'number' ? fromVersion.version_number : null,
+      canMigrate: reasons.length === 0,
+      reasons,
+      steps,
+    };
+  });
+
+  return {
+    plan: {
+      toVersion: { id: toVersion.id, version_number: toVersion.version_number },
+      instances: plans,
+    },
+  };
+}
+
+/**
+ * Move active instances onto the target version. Instances whose in-flight steps
+ * cannot be mapped are left untouched and reported back; each instance moves
+ * in one transaction (migrate_workflow_instance_version).
+ */
+export async function migrateInstancesToVersion(
+  supabase: any,
+  templateId: string,
+  toVersionId: string,
+  nodeMapping: NodeMapping,
+  migratedBy: string,
+  instanceIds?: string[]
+): Promise<MigrationResult> {
+  const { plan, error } = await planInstanceMigration(supabase, templateId, toVersionId, nodeMapping, instanceIds);
+  if (!plan) {
+    return { success: false, migrated: [], failed: [], error };
+  }
+
+  const toVersion = await getTemplateVersion(supabase, templateId, toVersionId);
+  if (!toVersion) {
+    return { success: false, migrated: [], failed: [], error: 'Target version not found' };
+  }
+
+  const { data: template } = await supabase
+    .from('workflow_templates')
+    .select('name')
+    .eq('id', templateId)
+    .single();
+
+  const toNodesById = new Map<string, Record<string, unknown>>(
+    (toVersion.nodes || []).map((n) => [n.id as string, n])
+  );
+
+  const result: MigrationResult = { success: true, migrated: [], failed: [] };
+
+  for (const instancePlan of plan.instances) {
+    if (!instancePlan.canMigrate) {
+      result.failed.push({
+        instanceId: instancePlan.instanceId,
+        projectName: instancePlan.projectName,
+        reasons: instancePlan.reasons,
+      });
+      continue;
+    }
+
+    try {
+      const [{ data: instance, error: loadError }, { data: nodeAssignments, error: assignmentsError }] = await Promise.all([
+        supabase
+          .from('workflow_instances')
+          .select('current_node_id, started_snapshot')
+          .eq('id', instancePlan.instanceId)
+          .single(),
+        supabase
+          .from('workflow_node_assignments')
+          .select('id, node_id')
+          .eq('workflow_instance_id', instancePlan.instanceId),
+      ]);
+
+      if (loadError) throw loadError;
+      if (assignmentsError) throw assignmentsError;
+
+      const previousSnapshot = isRecord(instance?.started_snapshot) ? instance.started_snapshot : {};
+      const currentNodeId = isString(instance?.current_node_id) ? instance.current_node_id : null;
+      const mappedCurrentNodeId = currentNodeId
+        ? resolveMappedNodeId(currentNodeId, nodeMapping, toNodesById)
+        : null;
+
+      const stepNodes = instancePlan.steps
+        .filter((step) => step.stepId && step.toNodeId && step.toNodeId !== step.fromNodeId)
+        .map((step) => ({ id: step.stepId, node_id: step.toNodeId }));
+
+      // Keep explicit per-node user assignments attached to the mapped nodes
+      const assignmentNodes = (nodeAssignments || []).flatMap((assignment: { id: string; node_id: string }) => {
+        const mapped = resolveMappedNodeId(assignment.node_id, nodeMapping, toNodesById);
+        return mapped && mapped !== assignment.node_id ? [{ id: assignment.id, node_id: mapped }] : [];
+      });
+
+      // Snapshot, steps and assignments move together or not at all - a
+      // half-migrated instance would have steps on nodes its snapshot lacks
+      const { error: migrateError } = await supabase.rpc('migrate_workflow_instance_version', {
+        p_instance_id: instancePlan.instanceId,
+        p_version_id: toVersion.id,
+        p_current_node_id: mappedCurrentNodeId || currentNodeId,
+        p_snapshot: {
+          ...previousSnapshot,
+          nodes: toVersion.nodes,
+          connections: toVersion.connections,
+          template_name: template?.name || previousSnapshot.template_name,
+          version_id: toVersion.id,
+          version_number: toVersion.version_number,
+          migrated_at: new Date().toISOString(),
+          migrated_from_version_id: instancePlan.fromVersionId,
+        },
+        p_step_nodes: stepNodes,
+        p_assignment_nodes: assignmentNodes,
+      });
+
+      if (migrateError) throw migrateError;
+
+      await supabase.from('workflow_history').insert({
+        workflow_instance_id: instancePlan.instanceId,
+        from_node_id: currentNodeId,
+        to_node_id: mappedCurrentNodeId || currentNodeId,
+        handed_off_by: migratedBy,
+        branch_id: 'main',
+        notes: JSON.stringify({
+          type: 'version_migration',
+          from_version: instancePlan.fromVersionNumber,
+          to_version: toVersion.version_number,
+        }),
+      });
+
+      result.migrated.push(instancePlan.instanceId);
+    } catch (migrationError: unknown) {
+      console.error('Error migrating workflow instance:', instancePlan.instanceId, migrationError);
+      result.failed.push({
+        instanceId: instancePlan.instanceId,
+        projectName: instancePlan.projectName,
+        reasons: [isRecord(migrationError) && isString(migrationError.message) ? migrationError.message : 'Failed to update instance'],
+      });
+    }
+  }
+
+  return result;
+}
@@ -75,8 +75,14 @@ export async function middleware(req: NextRequest) {
     res.headers.set('Strict-Transport-Security', 'max-age=31536000; includeSubDomains');
   }
 
-  // Allow public routes, Next.js internals, and API routes
-  if (publicRoutes.includes(pathname) || pathname.startsWith('/_next') || pathname.startsWith('/api')) {
+  // Allow public routes, intake form links, Next.js internals, and API routes
+  // (client-portal-only intake forms check the session themselves)
+  if (
+    publicRoutes.includes(pathname) ||
+    pathname.startsWith('/intake/') ||
+    pathname.startsWith('/_next') ||
+    pathname.startsWith('/api')
+  ) {
     return res;
   }
 
@@ -0,0 +1,23 @@
+-- Migration: SLA timers and escalation for workflow steps
+-- Role and approval nodes can declare an SLA in workflow_nodes.settings
+-- (sla_hours, sla_hour_type, escalation_target, escalation_user_id).
+-- The SLA cron job stamps the due time on each active step and records
+-- when (and to whom) a breached step was escalated so it only fires once.
+
+ALTER TABLE "public"."workflow_active_steps"
+ADD COLUMN IF NOT EXISTS "sla_due_at" timestamp with time zone;
+
+ALTER TABLE "public"."workflow_active_steps"
+ADD COLUMN IF NOT EXISTS "escalated_at" timestamp with time zone;
+
+ALTER TABLE "public"."workflow_active_steps"
+ADD COLUMN IF NOT EXISTS "escalated_to" "uuid"[];
+
+-- Partial index so the cron sweep only scans steps that can still breach
+CREATE INDEX IF NOT EXISTS "idx_workflow_active_steps_sla_pending"
+ON "public"."workflow_active_steps" ("activated_at")
+WHERE "status" = 'active' AND "escalated_at" IS NULL;
+
+COMMENT ON COLUMN "public"."workflow_active_steps"."sla_due_at" IS 'When this step breaches the SLA configured on its node (null if the node has no SLA)';
+COMMENT ON COLUMN "public"."workflow_active_steps"."escalated_at" IS 'When the SLA cron job escalated this step (null if not escalated)';
+COMMENT ON COLUMN "public"."workflow_active_steps"."escalated_to" IS 'User IDs that were notified when this step was escalated';
@@ -0,0 +1,173 @@
+-- Migration: Versioned workflow templates
+-- workflow_nodes / workflow_connections become the editable DRAFT of a template.
+-- Publishing copies the draft into an immutable workflow_template_versions row,
+-- and every workflow instance is pinned to the version it started on.
+-- Running instances can be moved to a newer version with the admin migrate tool.
+
+CREATE TABLE IF NOT EXISTS "public"."workflow_template_versions" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "workflow_template_id" "uuid" NOT NULL,
+    "version_number" integer NOT NULL,
+    "nodes" "jsonb" DEFAULT '[]'::"jsonb" NOT NULL,
+    "connections" "jsonb" DEFAULT '[]'::"jsonb" NOT NULL,
+    "change_notes" "text",
+    "published_by" "uuid",
+    "published_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "workflow_template_versions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "workflow_template_versions_template_version_key" UNIQUE ("workflow_template_id", "version_number"),
+    CONSTRAINT "workflow_template_versions_workflow_template_id_fkey" FOREIGN KEY ("workflow_template_id") REFERENCES "public"."workflow_templates"("id") ON DELETE CASCADE,
+    CONSTRAINT "workflow_template_versions_published_by_fkey" FOREIGN KEY ("published_by") REFERENCES "public"."user_profiles"("id") ON DELETE SET NULL
+);
+
+ALTER TABLE "public"."workflow_template_versions" OWNER TO "postgres";
+
+CREATE INDEX IF NOT EXISTS "idx_workflow_template_versions_template_id"
+ON "public"."workflow_template_versions" ("workflow_template_id");
+
+COMMENT ON TABLE "public"."workflow_template_versions" IS 'Immutable published versions of a workflow template (nodes and connections frozen at publish time)';
+
+-- Template pointers to its latest published version
+ALTER TABLE "public"."workflow_templates"
+ADD COLUMN IF NOT EXISTS "current_version_id" "uuid";
+
+ALTER TABLE "public"."workflow_templates"
+ADD COLUMN IF NOT EXISTS "has_unpublished_changes" boolean DEFAULT false NOT NULL;
+
+ALTER TABLE "public"."workflow_templates"
+DROP CONSTRAINT IF EXISTS "workflow_templates_current_version_id_fkey";
+
+ALTER TABLE "public"."workflow_templates"
+ADD CONSTRAINT "workflow_templates_current_version_id_fkey"
+FOREIGN KEY ("current_version_id") REFERENCES "public"."workflow_template_versions"("id") ON DELETE SET NULL;
+
+COMMENT ON COLUMN "public"."workflow_templates"."current_version_id" IS 'Latest published version - new workflow instances start on this version';
+COMMENT ON COLUMN "public"."workflow_templates"."has_unpublished_changes" IS 'True when the draft (workflow_nodes/workflow_connections) differs from the current published version';
+
+-- Pin instances to the version they run on
+ALTER TABLE "public"."workflow_instances"
+ADD COLUMN IF NOT EXISTS "workflow_template_version_id" "uuid";
+
+ALTER TABLE "public"."workflow_instances"
+DROP CONSTRAINT IF EXISTS "workflow_instances_workflow_template_version_id_fkey";
+
+ALTER TABLE "public"."workflow_instances"
+ADD CONSTRAINT "workflow_instances_workflow_template_version_id_fkey"
+FOREIGN KEY ("workflow_template_version_id") REFERENCES "public"."workflow_template_versions"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_workflow_instances_template_version_id"
+ON "public"."workflow_instances" ("workflow_template_version_id");
+
+COMMENT ON COLUMN "public"."workflow_instances"."workflow_template_version_id" IS 'Published template version this instance executes (its nodes are copied into started_snapshot)';
+
+-- Running instances reference node IDs from their pinned version, which may no
+-- longer exist in the editable draft. Drop the FKs to the draft nodes so editing
+-- a template can never break (or cascade-delete data from) a running instance.
+ALTER TABLE "public"."workflow_instances" DROP CONSTRAINT IF EXISTS "workflow_instances_current_node_id_fkey";
+ALTER TABLE "public"."workflow_active_steps" DROP CONSTRAINT IF EXISTS "workflow_active_steps_node_id_fkey";
+ALTER TABLE "public"."workflow_history" DROP CONSTRAINT IF EXISTS "workflow_history_from_node_id_fkey";
+ALTER TABLE "public"."workflow_history" DROP CONSTRAINT IF EXISTS "workflow_history_to_node_id_fkey";
+ALTER TABLE "public"."workflow_node_assignments" DROP CONSTRAINT IF EXISTS "workflow_node_assignments_node_id_fkey";
+-- project_assignments.workflow_node_id records which (snapshot) node added the user
+ALTER TABLE "public"."project_assignments" DROP CONSTRAINT IF EXISTS "project_assignments_workflow_node_id_fkey";
+
+-- Backfill: publish v1 for every template that already has nodes, and pin
+-- existing instances to it (their started_snapshot remains authoritative).
+INSERT INTO "public"."workflow_template_versions" ("workflow_template_id", "version_number", "nodes", "connections", "change_notes", "published_by")
+SELECT
+    t."id",
+    1,
+    COALESCE((SELECT "jsonb_agg"("to_jsonb"(n.*)) FROM "public"."workflow_nodes" n WHERE n."workflow_template_id" = t."id"), '[]'::"jsonb"),
+    COALESCE((SELECT "jsonb_agg"("to_jsonb"(c.*)) FROM "public"."workflow_connections" c WHERE c."workflow_template_id" = t."id"), '[]'::"jsonb"),
+    'Initial version (created by versioning migration)',
+    t."created_by"
+FROM "public"."workflow_templates" t
+WHERE EXISTS (SELECT 1 FROM "public"."workflow_nodes" n WHERE n."workflow_template_id" = t."id")
+ON CONFLICT ("workflow_template_id", "version_number") DO NOTHING;
+
+UPDATE "public"."workflow_templates" t
+SET "current_version_id" = v."id"
+FROM "public"."workflow_template_versions" v
+WHERE v."workflow_template_id" = t."id"
+AND v."version_number" = 1
+AND t."current_version_id" IS NULL;
+
+UPDATE "public"."workflow_instances" i
+SET "workflow_template_version_id" = t."current_version_id"
+FROM "public"."workflow_templates" t
+WHERE i."workflow_template_id" = t."id"
+AND i."workflow_template_version_id" IS NULL;
+
+-- RLS: anyone signed in can read versions (instances embed them anyway);
+-- only workflow managers can publish.
+ALTER TABLE "public"."workflow_template_versions" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_template_versions_select" ON "public"."workflow_template_versions";
+CREATE POLICY "workflow_template_versions_select" ON "public"."workflow_template_versions"
+FOR SELECT USING ("auth"."uid"() IS NOT NULL);
+
+DROP POLICY IF EXISTS "workflow_template_versions_insert" ON "public"."workflow_template_versions";
+CREATE POLICY "workflow_template_versions_insert" ON "public"."workflow_template_versions"
+FOR INSERT WITH CHECK ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_workflows'::"text"));
+
+GRANT ALL ON TABLE "public"."workflow_template_versions" TO "anon";
+GRANT ALL ON TABLE "public"."workflow_template_versions" TO "authenticated";
+GRANT ALL ON TABLE "public"."workflow_template_versions" TO "service_role";
+
+-- Moves one instance onto another version in a single transaction: the new
+-- snapshot, its current node and the node ids of its in-flight steps and
+-- per-node assignments either all change or none do. Runs with the caller's
+-- rights, so the usual RLS on each table still applies.
+CREATE OR REPLACE FUNCTION "public"."migrate_workflow_instance_version"(
+    "p_instance_id" "uuid",
+    "p_version_id" "uuid",
+    "p_current_node_id" "uuid",
+    "p_snapshot" "jsonb",
+    "p_step_nodes" "jsonb",
+    "p_assignment_nodes" "jsonb"
+) RETURNS "void"
+    LANGUAGE "plpgsql"
+    SET "search_path" TO 'public'
+    AS $$
+DECLARE
+  mapped record;
+BEGIN
+  UPDATE "public"."workflow_instances"
+  SET "workflow_template_version_id" = p_version_id,
+      "current_node_id" = p_current_node_id,
+      "started_snapshot" = p_snapshot
+  WHERE "id" = p_instance_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workflow instance % not found', p_instance_id USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR mapped IN SELECT * FROM "jsonb_to_recordset"(COALESCE(p_step_nodes, '[]'::"jsonb")) AS m("id" "uuid", "node_id" "uuid") LOOP
+    UPDATE "public"."workflow_active_steps"
+    SET "node_id" = mapped."node_id"
+    WHERE "id" = mapped."id"
+      AND "workflow_instance_id" = p_instance_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Active step % could not be moved', mapped."id" USING ERRCODE = 'P0002';
+    END IF;
+  END LOOP;
+
+  FOR mapped IN SELECT * FROM "jsonb_to_recordset"(COALESCE(p_assignment_nodes, '[]'::"jsonb")) AS m("id" "uuid", "node_id" "uuid") LOOP
+    UPDATE "public"."workflow_node_assignments"
+    SET "node_id" = mapped."node_id"
+    WHERE "id" = mapped."id"
+      AND "workflow_instance_id" = p_instance_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Node assignment % could not be moved', mapped."id" USING ERRCODE = 'P0002';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+ALTER FUNCTION "public"."migrate_workflow_instance_version"("p_instance_id" "uuid", "p_version_id" "uuid", "p_current_node_id" "uuid", "p_snapshot" "jsonb", "p_step_nodes" "jsonb", "p_assignment_nodes" "jsonb") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."migrate_workflow_instance_version"("p_instance_id" "uuid", "p_version_id" "uuid", "p_current_node_id" "uuid", "p_snapshot" "jsonb", "p_step_nodes" "jsonb", "p_assignment_nodes" "jsonb") IS 'Atomically moves a workflow instance, its in-flight steps and node assignments onto another template version.';
+
+GRANT ALL ON FUNCTION "public"."migrate_workflow_instance_version"("p_instance_id" "uuid", "p_version_id" "uuid", "p_current_node_id" "uuid", "p_snapshot" "jsonb", "p_step_nodes" "jsonb", "p_assignment_nodes" "jsonb") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."migrate_workflow_instance_version"("p_instance_id" "uuid", "p_version_id" "uuid", "p_current_node_id" "uuid", "p_snapshot" "jsonb", "p_step_nodes" "jsonb", "p_assignment_nodes" "jsonb") TO "service_role";
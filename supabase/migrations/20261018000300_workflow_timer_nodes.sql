@@ -0,0 +1,20 @@
+-- Migration: Timer / wait nodes for workflows
+-- A timer node pauses its branch until a fixed duration has elapsed or a date
+-- (project start/end date, or a date field from an earlier form) is reached.
+-- The timer cron job then advances the step with transition_type = 'auto'.
+
+ALTER TABLE "public"."workflow_nodes" DROP CONSTRAINT IF EXISTS "workflow_nodes_node_type_check";
+
+ALTER TABLE "public"."workflow_nodes"
+ADD CONSTRAINT "workflow_nodes_node_type_check"
+CHECK (("node_type" = ANY (ARRAY['start'::"text", 'role'::"text", 'approval'::"text", 'form'::"text", 'conditional'::"text", 'timer'::"text", 'end'::"text"])));
+
+ALTER TABLE "public"."workflow_active_steps"
+ADD COLUMN IF NOT EXISTS "timer_resume_at" timestamp with time zone;
+
+-- Partial index so the cron sweep only scans running timers
+CREATE INDEX IF NOT EXISTS "idx_workflow_active_steps_timer_pending"
+ON "public"."workflow_active_steps" ("timer_resume_at")
+WHERE "status" = 'active' AND "timer_resume_at" IS NOT NULL;
+
+COMMENT ON COLUMN "public"."workflow_active_steps"."timer_resume_at" IS 'For timer nodes: when the branch automatically resumes (null for other node types)';
@@ -0,0 +1,12 @@
+-- Migration: Automated action nodes for workflows
+-- An action node runs its configured actions (create tasks, post a project
+-- update, set project status/priority, add stakeholders, add a user to the
+-- account) when reached, then continues with transition_type = 'auto'.
+-- Actions are stored in workflow_nodes.settings.actions; results (including
+-- failures) are recorded in workflow_history.notes.
+
+ALTER TABLE "public"."workflow_nodes" DROP CONSTRAINT IF EXISTS "workflow_nodes_node_type_check";
+
+ALTER TABLE "public"."workflow_nodes"
+ADD CONSTRAINT "workflow_nodes_node_type_check"
+CHECK (("node_type" = ANY (ARRAY['start'::"text", 'role'::"text", 'approval'::"text", 'form'::"text", 'conditional'::"text", 'timer'::"text", 'action'::"text", 'end'::"text"])));
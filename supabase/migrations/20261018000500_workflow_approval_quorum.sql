@@ -0,0 +1,55 @@
+-- Migration: Multi-approver approval nodes with quorum rules
+-- Approval nodes can require N of M approvers from their role, or all of them
+-- (workflow_nodes.settings: approval_quorum_mode, required_approvals,
+-- reject_on_any_rejection). Every approver's vote and comment is recorded in
+-- workflow_approvals against the active step being voted on; the step's
+-- aggregate_decision holds 'pending' while votes are open and 'approved' /
+-- 'rejected' once the quorum resolves. 'unreachable' flags a step that is
+-- still open but whose quorum fell out of reach after approvers were removed.
+
+CREATE TABLE IF NOT EXISTS "public"."workflow_approvals" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "workflow_instance_id" "uuid" NOT NULL,
+    "node_id" "uuid" NOT NULL,
+    "approver_user_id" "uuid" NOT NULL,
+    "decision" "text" NOT NULL,
+    "feedback" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "workflow_approvals_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "workflow_approvals_workflow_instance_id_fkey" FOREIGN KEY ("workflow_instance_id") REFERENCES "public"."workflow_instances"("id") ON DELETE CASCADE,
+    CONSTRAINT "workflow_approvals_approver_user_id_fkey" FOREIGN KEY ("approver_user_id") REFERENCES "public"."user_profiles"("id") ON DELETE CASCADE
+);
+
+ALTER TABLE "public"."workflow_approvals"
+ADD COLUMN IF NOT EXISTS "active_step_id" "uuid" REFERENCES "public"."workflow_active_steps"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_workflow_approvals_active_step"
+ON "public"."workflow_approvals" ("active_step_id", "created_at");
+
+CREATE INDEX IF NOT EXISTS "idx_workflow_approvals_instance_node"
+ON "public"."workflow_approvals" ("workflow_instance_id", "node_id");
+
+-- One vote per approver per step
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_workflow_approvals_one_vote_per_step"
+ON "public"."workflow_approvals" ("active_step_id", "approver_user_id")
+WHERE "active_step_id" IS NOT NULL;
+
+COMMENT ON COLUMN "public"."workflow_approvals"."active_step_id" IS 'The active step this vote was cast on (a node can be revisited, e.g. after a rejection loop)';
+
+-- RLS: anyone who can see the workflow can see its votes; approvers can only vote as themselves
+ALTER TABLE "public"."workflow_approvals" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_approvals_select" ON "public"."workflow_approvals";
+CREATE POLICY "workflow_approvals_select" ON "public"."workflow_approvals"
+FOR SELECT USING ("public"."user_can_view_workflow"("workflow_instance_id"));
+
+DROP POLICY IF EXISTS "workflow_approvals_insert" ON "public"."workflow_approvals";
+CREATE POLICY "workflow_approvals_insert" ON "public"."workflow_approvals"
+FOR INSERT WITH CHECK (
+  "public"."user_is_superadmin"()
+  OR ("approver_user_id" = "auth"."uid"() AND "public"."user_can_view_workflow"("workflow_instance_id"))
+);
+
+GRANT ALL ON TABLE "public"."workflow_approvals" TO "anon";
+GRANT ALL ON TABLE "public"."workflow_approvals" TO "authenticated";
+GRANT ALL ON TABLE "public"."workflow_approvals" TO "service_role";
@@ -0,0 +1,22 @@
+-- Migration: Send-back to any prior step with rework tracking
+-- Approvers can send work back to any step already completed in the workflow
+-- instance, with a required reason. The send-back is recorded in
+-- workflow_history as transition_type = 'send_back' (reason in
+-- approval_feedback and notes), and rework_count holds how many times the
+-- target node has been sent back to in this instance, including this one.
+
+ALTER TABLE "public"."workflow_history" DROP CONSTRAINT IF EXISTS "workflow_history_transition_type_check";
+
+ALTER TABLE "public"."workflow_history"
+ADD CONSTRAINT "workflow_history_transition_type_check"
+CHECK (("transition_type" = ANY (ARRAY['normal'::"text", 'out_of_order'::"text", 'auto'::"text", 'send_back'::"text"])));
+
+ALTER TABLE "public"."workflow_history"
+ADD COLUMN IF NOT EXISTS "rework_count" integer;
+
+-- Rework analytics and per-node rework counts only look at send-backs
+CREATE INDEX IF NOT EXISTS "idx_workflow_history_send_back"
+ON "public"."workflow_history" ("workflow_instance_id", "to_node_id")
+WHERE "transition_type" = 'send_back';
+
+COMMENT ON COLUMN "public"."workflow_history"."rework_count" IS 'For send-backs: how many times to_node_id has been sent back to in this workflow instance (1 = first rework)';
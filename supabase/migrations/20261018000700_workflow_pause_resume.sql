@@ -0,0 +1,34 @@
+-- Migration: Pause / resume workflow instances
+-- A paused instance (e.g. client on hold) keeps its active steps but can't be
+-- progressed, and the SLA and timer sweeps skip it. On resume the pause
+-- (paused_at to now) is appended to paused_intervals. SLAs, duration timers
+-- and workflow duration analytics leave those intervals out, measured in
+-- working hours for business-time clocks; activated_at is never moved and
+-- date-based timers keep their date. total_paused_seconds keeps the running
+-- wall-clock total.
+
+ALTER TABLE "public"."workflow_instances" DROP CONSTRAINT IF EXISTS "workflow_instances_status_check";
+
+ALTER TABLE "public"."workflow_instances"
+ADD CONSTRAINT "workflow_instances_status_check"
+CHECK (("status" = ANY (ARRAY['active'::"text", 'paused'::"text", 'completed'::"text", 'cancelled'::"text"])));
+
+ALTER TABLE "public"."workflow_instances"
+ADD COLUMN IF NOT EXISTS "paused_at" timestamp with time zone;
+
+ALTER TABLE "public"."workflow_instances"
+ADD COLUMN IF NOT EXISTS "paused_by" "uuid" REFERENCES "public"."user_profiles"("id") ON DELETE SET NULL;
+
+ALTER TABLE "public"."workflow_instances"
+ADD COLUMN IF NOT EXISTS "pause_reason" "text";
+
+ALTER TABLE "public"."workflow_instances"
+ADD COLUMN IF NOT EXISTS "total_paused_seconds" integer DEFAULT 0 NOT NULL;
+
+ALTER TABLE "public"."workflow_instances"
+ADD COLUMN IF NOT EXISTS "paused_intervals" "jsonb" DEFAULT '[]'::"jsonb" NOT NULL;
+
+COMMENT ON COLUMN "public"."workflow_instances"."paused_at" IS 'When the instance was paused (null unless status = paused)';
+COMMENT ON COLUMN "public"."workflow_instances"."pause_reason" IS 'Why the instance was paused, e.g. client on hold';
+COMMENT ON COLUMN "public"."workflow_instances"."total_paused_seconds" IS 'Total time spent paused across all pauses, excluded from workflow duration analytics';
+COMMENT ON COLUMN "public"."workflow_instances"."paused_intervals" IS 'Completed pauses as [{paused_at, resumed_at}], left out of SLAs, duration timers and duration analytics';
@@ -0,0 +1,28 @@
+-- Migration: Sub-workflow nodes
+-- A subworkflow node starts another template as a child workflow instance on
+-- the same project and blocks its branch until the child completes. The child
+-- points back at the parent instance and at the parent's active step so the
+-- step can be advanced (with the child's form data) when the child finishes.
+
+ALTER TABLE "public"."workflow_nodes" DROP CONSTRAINT IF EXISTS "workflow_nodes_node_type_check";
+
+ALTER TABLE "public"."workflow_nodes"
+ADD CONSTRAINT "workflow_nodes_node_type_check"
+CHECK (("node_type" = ANY (ARRAY['start'::"text", 'role'::"text", 'approval'::"text", 'form'::"text", 'conditional'::"text", 'timer'::"text", 'action'::"text", 'subworkflow'::"text", 'end'::"text"])));
+
+ALTER TABLE "public"."workflow_instances"
+ADD COLUMN IF NOT EXISTS "parent_instance_id" "uuid" REFERENCES "public"."workflow_instances"("id") ON DELETE CASCADE;
+
+ALTER TABLE "public"."workflow_instances"
+ADD COLUMN IF NOT EXISTS "parent_active_step_id" "uuid" REFERENCES "public"."workflow_active_steps"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_workflow_instances_parent_instance"
+ON "public"."workflow_instances" ("parent_instance_id")
+WHERE "parent_instance_id" IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_workflow_instances_parent_active_step"
+ON "public"."workflow_instances" ("parent_active_step_id")
+WHERE "parent_active_step_id" IS NOT NULL;
+
+COMMENT ON COLUMN "public"."workflow_instances"."parent_instance_id" IS 'For sub-workflows: the workflow instance whose subworkflow node started this one (null for top-level workflows)';
+COMMENT ON COLUMN "public"."workflow_instances"."parent_active_step_id" IS 'For sub-workflows: the parent''s subworkflow step that resumes when this instance completes';
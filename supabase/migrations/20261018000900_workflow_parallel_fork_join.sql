@@ -0,0 +1,86 @@
+-- Migration: Parallel fork / join
+-- Fork nodes start every outgoing branch at once; sync (join) nodes bring the
+-- branches back together under a join policy (workflow_nodes.settings:
+-- join_policy 'all' | 'any' | 'n_of_m', join_required_branches). Branches a
+-- join no longer needs - and siblings of a branch rejected back past its fork -
+-- are marked 'cancelled'.
+--
+-- Arrivals at a join are serialised with a per-join lock so two branches
+-- finishing at the same moment can't both (or neither) release it.
+
+ALTER TABLE "public"."workflow_nodes" DROP CONSTRAINT IF EXISTS "workflow_nodes_node_type_check";
+
+ALTER TABLE "public"."workflow_nodes"
+ADD CONSTRAINT "workflow_nodes_node_type_check"
+CHECK (("node_type" = ANY (ARRAY['start'::"text", 'role'::"text", 'approval'::"text", 'form'::"text", 'conditional'::"text", 'fork'::"text", 'sync'::"text", 'timer'::"text", 'action'::"text", 'subworkflow'::"text", 'end'::"text"])));
+
+ALTER TABLE "public"."workflow_active_steps" DROP CONSTRAINT IF EXISTS "workflow_active_steps_status_check";
+
+ALTER TABLE "public"."workflow_active_steps"
+ADD CONSTRAINT "workflow_active_steps_status_check"
+CHECK (("status" = ANY (ARRAY['active'::"text", 'completed'::"text", 'waiting'::"text", 'cancelled'::"text"])));
+
+CREATE INDEX IF NOT EXISTS "idx_workflow_active_steps_instance_node_status"
+ON "public"."workflow_active_steps" ("workflow_instance_id", "node_id", "status");
+
+CREATE TABLE IF NOT EXISTS "public"."workflow_sync_locks" (
+    "workflow_instance_id" "uuid" NOT NULL,
+    "sync_node_id" "uuid" NOT NULL,
+    "locked_by" "text",
+    "locked_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "workflow_sync_locks_pkey" PRIMARY KEY ("workflow_instance_id", "sync_node_id"),
+    CONSTRAINT "workflow_sync_locks_workflow_instance_id_fkey" FOREIGN KEY ("workflow_instance_id") REFERENCES "public"."workflow_instances"("id") ON DELETE CASCADE
+);
+
+COMMENT ON TABLE "public"."workflow_sync_locks" IS 'Held while a branch arriving at a join node decides whether the join releases. Only touched through acquire_sync_lock / release_sync_lock.';
+
+-- Locks are only taken through the functions below
+ALTER TABLE "public"."workflow_sync_locks" ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE "public"."workflow_sync_locks" TO "service_role";
+
+CREATE OR REPLACE FUNCTION "public"."acquire_sync_lock"("p_workflow_instance_id" "uuid", "p_sync_node_id" "uuid", "p_locked_by" "text") RETURNS boolean
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public'
+    AS $$
+DECLARE
+  acquired boolean;
+BEGIN
+  -- Locks older than 30 seconds belong to a request that died mid-sync
+  DELETE FROM "public"."workflow_sync_locks"
+  WHERE "workflow_instance_id" = p_workflow_instance_id
+    AND "sync_node_id" = p_sync_node_id
+    AND "locked_at" < now() - interval '30 seconds';
+
+  INSERT INTO "public"."workflow_sync_locks" ("workflow_instance_id", "sync_node_id", "locked_by", "locked_at")
+  VALUES (p_workflow_instance_id, p_sync_node_id, p_locked_by, now())
+  ON CONFLICT ("workflow_instance_id", "sync_node_id") DO NOTHING
+  RETURNING true INTO acquired;
+
+  RETURN COALESCE(acquired, false);
+END;
+$$;
+
+ALTER FUNCTION "public"."acquire_sync_lock"("p_workflow_instance_id" "uuid", "p_sync_node_id" "uuid", "p_locked_by" "text") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."acquire_sync_lock"("p_workflow_instance_id" "uuid", "p_sync_node_id" "uuid", "p_locked_by" "text") IS 'Takes the per-join lock for a workflow instance. Returns false if another branch holds it.';
+
+CREATE OR REPLACE FUNCTION "public"."release_sync_lock"("p_workflow_instance_id" "uuid", "p_sync_node_id" "uuid") RETURNS "void"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public'
+    AS $$
+BEGIN
+  DELETE FROM "public"."workflow_sync_locks"
+  WHERE "workflow_instance_id" = p_workflow_instance_id
+    AND "sync_node_id" = p_sync_node_id;
+END;
+$$;
+
+ALTER FUNCTION "public"."release_sync_lock"("p_workflow_instance_id" "uuid", "p_sync_node_id" "uuid") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."release_sync_lock"("p_workflow_instance_id" "uuid", "p_sync_node_id" "uuid") IS 'Releases the per-join lock taken by acquire_sync_lock.';
+
+GRANT ALL ON FUNCTION "public"."acquire_sync_lock"("p_workflow_instance_id" "uuid", "p_sync_node_id" "uuid", "p_locked_by" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."acquire_sync_lock"("p_workflow_instance_id" "uuid", "p_sync_node_id" "uuid", "p_locked_by" "text") TO "service_role";
+GRANT ALL ON FUNCTION "public"."release_sync_lock"("p_workflow_instance_id" "uuid", "p_sync_node_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."release_sync_lock"("p_workflow_instance_id" "uuid", "p_sync_node_id" "uuid") TO "service_role";
@@ -0,0 +1,73 @@
+-- Migration: Workflow trigger rules
+-- Templates can declare rules that start them on a project automatically when
+-- a project event happens (project created, status changed, client request
+-- submitted) and the project matches the rule's conditions (account, priority,
+-- status). Rules are evaluated server-side by the project API routes.
+--
+-- workflow_instances.trigger_rule_id records which rule started an instance,
+-- so an admin can tell automatic starts from manual ones.
+
+CREATE TABLE IF NOT EXISTS "public"."workflow_trigger_rules" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "workflow_template_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "event" "text" NOT NULL,
+    "conditions" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "is_active" boolean DEFAULT true NOT NULL,
+    "created_by" "uuid",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "workflow_trigger_rules_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "workflow_trigger_rules_event_check" CHECK (("event" = ANY (ARRAY['project_created'::"text", 'project_status_changed'::"text", 'client_request_submitted'::"text"]))),
+    CONSTRAINT "workflow_trigger_rules_workflow_template_id_fkey" FOREIGN KEY ("workflow_template_id") REFERENCES "public"."workflow_templates"("id") ON DELETE CASCADE,
+    CONSTRAINT "workflow_trigger_rules_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."user_profiles"("id") ON DELETE SET NULL
+);
+
+ALTER TABLE "public"."workflow_trigger_rules" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."workflow_trigger_rules" IS 'Rules that start a workflow template on a project when a project event matches';
+COMMENT ON COLUMN "public"."workflow_trigger_rules"."event" IS 'project_created, project_status_changed or client_request_submitted';
+COMMENT ON COLUMN "public"."workflow_trigger_rules"."conditions" IS 'Project filters, all optional: account_id, priority, status (for project_status_changed, the status the project moved to)';
+
+-- Event lookups only ever want the active rules
+CREATE INDEX IF NOT EXISTS "idx_workflow_trigger_rules_event_active"
+ON "public"."workflow_trigger_rules" ("event")
+WHERE "is_active" = true;
+
+CREATE INDEX IF NOT EXISTS "idx_workflow_trigger_rules_template"
+ON "public"."workflow_trigger_rules" ("workflow_template_id");
+
+ALTER TABLE "public"."workflow_instances"
+ADD COLUMN IF NOT EXISTS "trigger_rule_id" "uuid";
+
+ALTER TABLE "public"."workflow_instances" DROP CONSTRAINT IF EXISTS "workflow_instances_trigger_rule_id_fkey";
+
+ALTER TABLE "public"."workflow_instances"
+ADD CONSTRAINT "workflow_instances_trigger_rule_id_fkey"
+FOREIGN KEY ("trigger_rule_id") REFERENCES "public"."workflow_trigger_rules"("id") ON DELETE SET NULL;
+
+COMMENT ON COLUMN "public"."workflow_instances"."trigger_rule_id" IS 'Trigger rule that started this instance automatically (null if started by hand)';
+
+-- RLS: anyone signed in can read rules (the project routes evaluate them as
+-- the acting user); only workflow managers can change them.
+ALTER TABLE "public"."workflow_trigger_rules" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_trigger_rules_select" ON "public"."workflow_trigger_rules";
+CREATE POLICY "workflow_trigger_rules_select" ON "public"."workflow_trigger_rules"
+FOR SELECT USING ("auth"."uid"() IS NOT NULL);
+
+DROP POLICY IF EXISTS "workflow_trigger_rules_insert" ON "public"."workflow_trigger_rules";
+CREATE POLICY "workflow_trigger_rules_insert" ON "public"."workflow_trigger_rules"
+FOR INSERT WITH CHECK ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_workflows'::"text"));
+
+DROP POLICY IF EXISTS "workflow_trigger_rules_update" ON "public"."workflow_trigger_rules";
+CREATE POLICY "workflow_trigger_rules_update" ON "public"."workflow_trigger_rules"
+FOR UPDATE USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_workflows'::"text"));
+
+DROP POLICY IF EXISTS "workflow_trigger_rules_delete" ON "public"."workflow_trigger_rules";
+CREATE POLICY "workflow_trigger_rules_delete" ON "public"."workflow_trigger_rules"
+FOR DELETE USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_workflows'::"text"));
+
+GRANT ALL ON TABLE "public"."workflow_trigger_rules" TO "anon";
+GRANT ALL ON TABLE "public"."workflow_trigger_rules" TO "authenticated";
+GRANT ALL ON TABLE "public"."workflow_trigger_rules" TO "service_role";
@@ -0,0 +1,108 @@
+-- Migration: Business calendar
+-- One org-level working-hours model shared by workflow SLAs and timers, task
+-- due-date calculation, workflow duration reporting and capacity:
+--   - business_calendar: a single settings row (working days, daily hours,
+--     the region used when no user is involved)
+--   - business_calendar_closures: public holidays (optionally per region) and
+--     company shutdown periods, as inclusive date ranges
+--   - user_profiles.region: which regional holidays apply to a user
+--
+-- Dates and hours are UTC, matching the SLA and timer sweeps.
+
+CREATE TABLE IF NOT EXISTS "public"."business_calendar" (
+    "id" boolean DEFAULT true NOT NULL,
+    "working_days" smallint[] DEFAULT '{1,2,3,4,5}'::smallint[] NOT NULL,
+    "day_start_hour" smallint DEFAULT 9 NOT NULL,
+    "day_end_hour" smallint DEFAULT 17 NOT NULL,
+    "default_region" "text",
+    "updated_by" "uuid",
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "business_calendar_pkey" PRIMARY KEY ("id"),
+    -- Only ever one row
+    CONSTRAINT "business_calendar_singleton_check" CHECK ("id"),
+    CONSTRAINT "business_calendar_working_days_check" CHECK (
+        "cardinality"("working_days") > 0 AND "working_days" <@ '{0,1,2,3,4,5,6}'::smallint[]
+    ),
+    CONSTRAINT "business_calendar_hours_check" CHECK (
+        "day_start_hour" >= 0 AND "day_end_hour" <= 24 AND "day_start_hour" < "day_end_hour"
+    ),
+    CONSTRAINT "business_calendar_updated_by_fkey" FOREIGN KEY ("updated_by") REFERENCES "public"."user_profiles"("id") ON DELETE SET NULL
+);
+
+ALTER TABLE "public"."business_calendar" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."business_calendar" IS 'Organization working days and hours (single row)';
+COMMENT ON COLUMN "public"."business_calendar"."working_days" IS 'Days of the week that are worked, 0 = Sunday ... 6 = Saturday';
+COMMENT ON COLUMN "public"."business_calendar"."day_start_hour" IS 'Start of the working day, hour in UTC';
+COMMENT ON COLUMN "public"."business_calendar"."day_end_hour" IS 'End of the working day, hour in UTC';
+COMMENT ON COLUMN "public"."business_calendar"."default_region" IS 'Region whose holidays apply to workflow SLAs/due dates and to users without a region';
+
+INSERT INTO "public"."business_calendar" ("id") VALUES (true)
+ON CONFLICT ("id") DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS "public"."business_calendar_closures" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "kind" "text" NOT NULL,
+    "name" "text" NOT NULL,
+    "start_date" "date" NOT NULL,
+    "end_date" "date" NOT NULL,
+    "region" "text",
+    "created_by" "uuid",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "business_calendar_closures_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "business_calendar_closures_kind_check" CHECK (("kind" = ANY (ARRAY['holiday'::"text", 'shutdown'::"text"]))),
+    CONSTRAINT "business_calendar_closures_dates_check" CHECK ("end_date" >= "start_date"),
+    CONSTRAINT "business_calendar_closures_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."user_profiles"("id") ON DELETE SET NULL
+);
+
+ALTER TABLE "public"."business_calendar_closures" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."business_calendar_closures" IS 'Public holidays and company shutdowns - non-working date ranges';
+COMMENT ON COLUMN "public"."business_calendar_closures"."kind" IS 'holiday or shutdown';
+COMMENT ON COLUMN "public"."business_calendar_closures"."end_date" IS 'Last closed day (inclusive)';
+COMMENT ON COLUMN "public"."business_calendar_closures"."region" IS 'Region the closure applies to (null = everyone)';
+
+CREATE INDEX IF NOT EXISTS "idx_business_calendar_closures_dates"
+ON "public"."business_calendar_closures" ("start_date", "end_date");
+
+ALTER TABLE "public"."user_profiles"
+ADD COLUMN IF NOT EXISTS "region" "text";
+
+COMMENT ON COLUMN "public"."user_profiles"."region" IS 'Business calendar region whose public holidays apply to this user';
+
+-- RLS: everyone signed in reads the calendar (capacity and due dates are
+-- computed as the acting user); only user managers can change it.
+ALTER TABLE "public"."business_calendar" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."business_calendar_closures" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "business_calendar_select" ON "public"."business_calendar";
+CREATE POLICY "business_calendar_select" ON "public"."business_calendar"
+FOR SELECT USING ("auth"."uid"() IS NOT NULL);
+
+DROP POLICY IF EXISTS "business_calendar_update" ON "public"."business_calendar";
+CREATE POLICY "business_calendar_update" ON "public"."business_calendar"
+FOR UPDATE USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users'::"text"));
+
+DROP POLICY IF EXISTS "business_calendar_closures_select" ON "public"."business_calendar_closures";
+CREATE POLICY "business_calendar_closures_select" ON "public"."business_calendar_closures"
+FOR SELECT USING ("auth"."uid"() IS NOT NULL);
+
+DROP POLICY IF EXISTS "business_calendar_closures_insert" ON "public"."business_calendar_closures";
+CREATE POLICY "business_calendar_closures_insert" ON "public"."business_calendar_closures"
+FOR INSERT WITH CHECK ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users'::"text"));
+
+DROP POLICY IF EXISTS "business_calendar_closures_update" ON "public"."business_calendar_closures";
+CREATE POLICY "business_calendar_closures_update" ON "public"."business_calendar_closures"
+FOR UPDATE USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users'::"text"));
+
+DROP POLICY IF EXISTS "business_calendar_closures_delete" ON "public"."business_calendar_closures";
+CREATE POLICY "business_calendar_closures_delete" ON "public"."business_calendar_closures"
+FOR DELETE USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users'::"text"));
+
+GRANT ALL ON TABLE "public"."business_calendar" TO "anon";
+GRANT ALL ON TABLE "public"."business_calendar" TO "authenticated";
+GRANT ALL ON TABLE "public"."business_calendar" TO "service_role";
+
+GRANT ALL ON TABLE "public"."business_calendar_closures" TO "anon";
+GRANT ALL ON TABLE "public"."business_calendar_closures" TO "authenticated";
+GRANT ALL ON TABLE "public"."business_calendar_closures" TO "service_role";
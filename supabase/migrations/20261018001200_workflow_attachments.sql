@@ -0,0 +1,104 @@
+-- Migration: Workflow attachments
+-- Real file storage for form "file" fields and step attachments (nodes with
+-- allow_attachments). Files are uploaded through /api/workflows/instances/[id]/attachments
+-- and stored in Supabase Storage or on local disk (UPLOAD_STORAGE_BACKEND);
+-- this table holds their metadata and is what access checks run against.
+--
+-- An upload stays private to its uploader until the step or form it belongs to
+-- is submitted (submitted_at), then it's visible to anyone who can view the
+-- workflow (user_can_view_workflow).
+
+CREATE TABLE IF NOT EXISTS "public"."workflow_attachments" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "workflow_instance_id" "uuid" NOT NULL,
+    "node_id" "uuid",
+    "field_id" "text",
+    "file_name" "text" NOT NULL,
+    "mime_type" "text" NOT NULL,
+    "size_bytes" bigint NOT NULL,
+    "storage_backend" "text" NOT NULL,
+    "storage_path" "text" NOT NULL,
+    "scan_status" "text" DEFAULT 'skipped'::"text" NOT NULL,
+    "uploaded_by" "uuid",
+    "submitted_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "workflow_attachments_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "workflow_attachments_storage_backend_check" CHECK (("storage_backend" = ANY (ARRAY['supabase'::"text", 'local'::"text"]))),
+    CONSTRAINT "workflow_attachments_scan_status_check" CHECK (("scan_status" = ANY (ARRAY['clean'::"text", 'skipped'::"text"]))),
+    CONSTRAINT "workflow_attachments_size_check" CHECK ("size_bytes" >= 0),
+    CONSTRAINT "workflow_attachments_workflow_instance_id_fkey" FOREIGN KEY ("workflow_instance_id") REFERENCES "public"."workflow_instances"("id") ON DELETE CASCADE,
+    CONSTRAINT "workflow_attachments_uploaded_by_fkey" FOREIGN KEY ("uploaded_by") REFERENCES "public"."user_profiles"("id") ON DELETE SET NULL
+);
+
+ALTER TABLE "public"."workflow_attachments" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."workflow_attachments" IS 'Files uploaded to workflow form file fields and step attachments';
+COMMENT ON COLUMN "public"."workflow_attachments"."node_id" IS 'Workflow node (snapshot id) the file was uploaded at';
+COMMENT ON COLUMN "public"."workflow_attachments"."field_id" IS 'Form field the file belongs to (null = step attachment)';
+COMMENT ON COLUMN "public"."workflow_attachments"."storage_backend" IS 'supabase (Storage bucket) or local (disk)';
+COMMENT ON COLUMN "public"."workflow_attachments"."scan_status" IS 'clean = passed the virus scan hook, skipped = no scanner configured';
+COMMENT ON COLUMN "public"."workflow_attachments"."submitted_at" IS 'When the step or form was submitted (null = draft upload, only visible to the uploader)';
+
+CREATE INDEX IF NOT EXISTS "idx_workflow_attachments_instance"
+ON "public"."workflow_attachments" ("workflow_instance_id");
+
+-- RLS: submitted files follow workflow visibility; drafts belong to their uploader
+ALTER TABLE "public"."workflow_attachments" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_attachments_select" ON "public"."workflow_attachments";
+CREATE POLICY "workflow_attachments_select" ON "public"."workflow_attachments"
+FOR SELECT USING (
+  "public"."user_can_view_workflow"("workflow_instance_id")
+  AND ("submitted_at" IS NOT NULL OR "uploaded_by" = "auth"."uid"())
+);
+
+DROP POLICY IF EXISTS "workflow_attachments_insert" ON "public"."workflow_attachments";
+CREATE POLICY "workflow_attachments_insert" ON "public"."workflow_attachments"
+FOR INSERT WITH CHECK (
+  "uploaded_by" = "auth"."uid"()
+  AND "public"."user_can_view_workflow"("workflow_instance_id")
+);
+
+-- No UPDATE policy: rows are immutable to users (storage_path in particular is
+-- read with the service role), submitted_at is set by mark_workflow_attachments_submitted
+DROP POLICY IF EXISTS "workflow_attachments_update" ON "public"."workflow_attachments";
+
+DROP POLICY IF EXISTS "workflow_attachments_delete" ON "public"."workflow_attachments";
+CREATE POLICY "workflow_attachments_delete" ON "public"."workflow_attachments"
+FOR DELETE USING ("uploaded_by" = "auth"."uid"() AND "submitted_at" IS NULL);
+
+GRANT ALL ON TABLE "public"."workflow_attachments" TO "anon";
+GRANT ALL ON TABLE "public"."workflow_attachments" TO "authenticated";
+GRANT ALL ON TABLE "public"."workflow_attachments" TO "service_role";
+
+CREATE OR REPLACE FUNCTION "public"."mark_workflow_attachments_submitted"("p_attachment_ids" "uuid"[]) RETURNS integer
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public'
+    AS $$
+DECLARE
+  marked integer;
+BEGIN
+  UPDATE "public"."workflow_attachments"
+  SET "submitted_at" = now()
+  WHERE "id" = ANY (p_attachment_ids)
+    AND "uploaded_by" = "auth"."uid"()
+    AND "submitted_at" IS NULL;
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+  RETURN marked;
+END;
+$$;
+
+ALTER FUNCTION "public"."mark_workflow_attachments_submitted"("p_attachment_ids" "uuid"[]) OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."mark_workflow_attachments_submitted"("p_attachment_ids" "uuid"[]) IS 'Publishes the calling user''s draft uploads once their step is submitted. Only touches submitted_at.';
+
+GRANT ALL ON FUNCTION "public"."mark_workflow_attachments_submitted"("p_attachment_ids" "uuid"[]) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."mark_workflow_attachments_submitted"("p_attachment_ids" "uuid"[]) TO "service_role";
+
+-- Private bucket for the Supabase backend. File bytes are only ever read and
+-- written server-side with the service role after the checks above, so the
+-- bucket has no storage.objects policies.
+INSERT INTO "storage"."buckets" ("id", "name", "public")
+VALUES ('workflow-attachments', 'workflow-attachments', false)
+ON CONFLICT ("id") DO NOTHING;
@@ -0,0 +1,104 @@
+-- Migration: Public intake forms
+-- A form template can be published as an intake form with a shareable link
+-- (/intake/<slug>). Each submission creates a project in the planning status
+-- under the intake form's account (public forms) or the submitting client's
+-- account (client portal forms), with form fields mapped onto project columns,
+-- stores the answers in form_responses and optionally starts a workflow.
+--
+-- Public submissions are anonymous, so the submit route writes with the
+-- service role after its own checks (rate limit, honeypot, validation);
+-- anon never reads or writes these tables directly.
+
+CREATE TABLE IF NOT EXISTS "public"."form_intake_forms" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "form_template_id" "uuid" NOT NULL,
+    "slug" "text" NOT NULL,
+    "title" "text" NOT NULL,
+    "description" "text",
+    "access" "text" DEFAULT 'public'::"text" NOT NULL,
+    "account_id" "uuid",
+    "field_mappings" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "default_priority" "text" DEFAULT 'medium'::"text" NOT NULL,
+    "workflow_template_id" "uuid",
+    "confirmation_message" "text",
+    "is_active" boolean DEFAULT true NOT NULL,
+    "created_by" "uuid",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "form_intake_forms_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "form_intake_forms_slug_key" UNIQUE ("slug"),
+    CONSTRAINT "form_intake_forms_access_check" CHECK (("access" = ANY (ARRAY['public'::"text", 'client_portal'::"text"]))),
+    CONSTRAINT "form_intake_forms_public_account_check" CHECK ((("access" <> 'public'::"text") OR ("account_id" IS NOT NULL))),
+    CONSTRAINT "form_intake_forms_default_priority_check" CHECK (("default_priority" = ANY (ARRAY['low'::"text", 'medium'::"text", 'high'::"text", 'urgent'::"text"]))),
+    CONSTRAINT "form_intake_forms_form_template_id_fkey" FOREIGN KEY ("form_template_id") REFERENCES "public"."form_templates"("id") ON DELETE CASCADE,
+    CONSTRAINT "form_intake_forms_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE CASCADE,
+    CONSTRAINT "form_intake_forms_workflow_template_id_fkey" FOREIGN KEY ("workflow_template_id") REFERENCES "public"."workflow_templates"("id") ON DELETE SET NULL,
+    CONSTRAINT "form_intake_forms_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."user_profiles"("id") ON DELETE SET NULL
+);
+
+ALTER TABLE "public"."form_intake_forms" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."form_intake_forms" IS 'Form templates published as intake forms that create projects from outside submissions';
+COMMENT ON COLUMN "public"."form_intake_forms"."slug" IS 'Unguessable token used in the shareable link /intake/<slug>';
+COMMENT ON COLUMN "public"."form_intake_forms"."access" IS 'public (anyone with the link) or client_portal (signed-in client users only)';
+COMMENT ON COLUMN "public"."form_intake_forms"."account_id" IS 'Account new projects are created under; required for public forms, optional restriction for client portal forms';
+COMMENT ON COLUMN "public"."form_intake_forms"."field_mappings" IS 'Project column -> form field id, e.g. {"name": "<field id>", "end_date": "<field id>"}';
+COMMENT ON COLUMN "public"."form_intake_forms"."workflow_template_id" IS 'Workflow started on each new project (null = none)';
+COMMENT ON COLUMN "public"."form_intake_forms"."created_by" IS 'Publisher; public submissions are recorded as created by this user';
+
+CREATE INDEX IF NOT EXISTS "idx_form_intake_forms_template"
+ON "public"."form_intake_forms" ("form_template_id");
+
+DROP TRIGGER IF EXISTS "update_form_intake_forms_updated_at" ON "public"."form_intake_forms";
+CREATE TRIGGER "update_form_intake_forms_updated_at" BEFORE UPDATE ON "public"."form_intake_forms"
+FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- Link responses to the intake form and the project they created
+ALTER TABLE "public"."form_responses"
+ADD COLUMN IF NOT EXISTS "intake_form_id" "uuid",
+ADD COLUMN IF NOT EXISTS "project_id" "uuid",
+ADD COLUMN IF NOT EXISTS "submitter_name" "text",
+ADD COLUMN IF NOT EXISTS "submitter_email" "text";
+
+ALTER TABLE "public"."form_responses" DROP CONSTRAINT IF EXISTS "form_responses_intake_form_id_fkey";
+ALTER TABLE "public"."form_responses"
+ADD CONSTRAINT "form_responses_intake_form_id_fkey"
+FOREIGN KEY ("intake_form_id") REFERENCES "public"."form_intake_forms"("id") ON DELETE SET NULL;
+
+ALTER TABLE "public"."form_responses" DROP CONSTRAINT IF EXISTS "form_responses_project_id_fkey";
+ALTER TABLE "public"."form_responses"
+ADD CONSTRAINT "form_responses_project_id_fkey"
+FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE SET NULL;
+
+COMMENT ON COLUMN "public"."form_responses"."intake_form_id" IS 'Intake form the response was submitted through (null = workflow form)';
+COMMENT ON COLUMN "public"."form_responses"."project_id" IS 'Project created from an intake submission';
+COMMENT ON COLUMN "public"."form_responses"."submitter_name" IS 'Contact name given on a public intake form (submitted_by is null)';
+COMMENT ON COLUMN "public"."form_responses"."submitter_email" IS 'Contact email given on a public intake form';
+
+CREATE INDEX IF NOT EXISTS "idx_form_responses_intake_form_id"
+ON "public"."form_responses" ("intake_form_id")
+WHERE "intake_form_id" IS NOT NULL;
+
+-- RLS: anyone signed in can read intake forms (client portal users list the
+-- ones open to them); only workflow managers can change them.
+ALTER TABLE "public"."form_intake_forms" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "form_intake_forms_select" ON "public"."form_intake_forms";
+CREATE POLICY "form_intake_forms_select" ON "public"."form_intake_forms"
+FOR SELECT USING ("auth"."uid"() IS NOT NULL);
+
+DROP POLICY IF EXISTS "form_intake_forms_insert" ON "public"."form_intake_forms";
+CREATE POLICY "form_intake_forms_insert" ON "public"."form_intake_forms"
+FOR INSERT WITH CHECK ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_workflows'::"text"));
+
+DROP POLICY IF EXISTS "form_intake_forms_update" ON "public"."form_intake_forms";
+CREATE POLICY "form_intake_forms_update" ON "public"."form_intake_forms"
+FOR UPDATE USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_workflows'::"text"));
+
+DROP POLICY IF EXISTS "form_intake_forms_delete" ON "public"."form_intake_forms";
+CREATE POLICY "form_intake_forms_delete" ON "public"."form_intake_forms"
+FOR DELETE USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_workflows'::"text"));
+
+GRANT ALL ON TABLE "public"."form_intake_forms" TO "anon";
+GRANT ALL ON TABLE "public"."form_intake_forms" TO "authenticated";
+GRANT ALL ON TABLE "public"."form_intake_forms" TO "service_role";
@@ -0,0 +1,13 @@
+-- Migration: Form response reporting
+-- Responses keep a snapshot of the fields (id, label, type) they were answered
+-- against, so reports and exports can still label answers to fields that were
+-- later removed from or renamed in the template.
+
+ALTER TABLE "public"."form_responses"
+ADD COLUMN IF NOT EXISTS "field_snapshot" "jsonb";
+
+COMMENT ON COLUMN "public"."form_responses"."field_snapshot" IS 'Fields at submission time: [{ id, label, type }] (null for responses submitted before reporting)';
+
+-- Reports list a template's responses newest first, usually within a date range
+CREATE INDEX IF NOT EXISTS "idx_form_responses_template_submitted_at"
+ON "public"."form_responses" ("form_template_id", "submitted_at" DESC);
@@ -0,0 +1,81 @@
+-- Migration: Form template versions
+-- Editing a form template used to overwrite its fields, so older responses
+-- were rendered against a schema they were never filled in with. Every change
+-- to a template's fields now adds an immutable version, and each response is
+-- stamped with the version it was answered against.
+--
+-- Versions are never updated or deleted on their own; they go with their template.
+
+CREATE TABLE IF NOT EXISTS "public"."form_template_versions" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "form_template_id" "uuid" NOT NULL,
+    "version_number" integer NOT NULL,
+    "name" "text" NOT NULL,
+    "fields" "jsonb" DEFAULT '[]'::"jsonb" NOT NULL,
+    "created_by" "uuid",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "form_template_versions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "form_template_versions_template_version_key" UNIQUE ("form_template_id", "version_number"),
+    CONSTRAINT "form_template_versions_version_number_check" CHECK (("version_number" > 0)),
+    CONSTRAINT "form_template_versions_form_template_id_fkey" FOREIGN KEY ("form_template_id") REFERENCES "public"."form_templates"("id") ON DELETE CASCADE,
+    CONSTRAINT "form_template_versions_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."user_profiles"("id") ON DELETE SET NULL
+);
+
+ALTER TABLE "public"."form_template_versions" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."form_template_versions" IS 'Immutable snapshots of a form template''s fields, one per edit';
+COMMENT ON COLUMN "public"."form_template_versions"."version_number" IS 'Starts at 1 and increases with each change to the fields';
+
+ALTER TABLE "public"."form_responses"
+ADD COLUMN IF NOT EXISTS "form_template_version_id" "uuid";
+
+ALTER TABLE "public"."form_responses" DROP CONSTRAINT IF EXISTS "form_responses_form_template_version_id_fkey";
+ALTER TABLE "public"."form_responses"
+ADD CONSTRAINT "form_responses_form_template_version_id_fkey"
+FOREIGN KEY ("form_template_version_id") REFERENCES "public"."form_template_versions"("id") ON DELETE SET NULL;
+
+COMMENT ON COLUMN "public"."form_responses"."form_template_version_id" IS 'Template version the response was filled in against (null = before versioning)';
+
+CREATE INDEX IF NOT EXISTS "idx_form_responses_template_version"
+ON "public"."form_responses" ("form_template_version_id")
+WHERE "form_template_version_id" IS NOT NULL;
+
+-- Version 1 for existing templates. Older databases keep the fields in "schema".
+DO $$
+DECLARE
+    fields_column text;
+BEGIN
+    SELECT "column_name" INTO fields_column
+    FROM "information_schema"."columns"
+    WHERE "table_schema" = 'public'
+      AND "table_name" = 'form_templates'
+      AND "column_name" IN ('fields', 'schema')
+    ORDER BY ("column_name" = 'fields') DESC
+    LIMIT 1;
+
+    IF fields_column IS NOT NULL THEN
+        EXECUTE format(
+            'INSERT INTO "public"."form_template_versions" ("form_template_id", "version_number", "name", "fields", "created_by", "created_at")
+             SELECT t."id", 1, t."name", COALESCE(t.%I, ''[]''::jsonb), t."created_by", t."updated_at"
+             FROM "public"."form_templates" t
+             WHERE NOT EXISTS (SELECT 1 FROM "public"."form_template_versions" v WHERE v."form_template_id" = t."id")',
+            fields_column
+        );
+    END IF;
+END $$;
+
+-- RLS: anyone signed in can read versions (responses are rendered with
+-- them); only form managers add them, and nobody edits them.
+ALTER TABLE "public"."form_template_versions" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "form_template_versions_select" ON "public"."form_template_versions";
+CREATE POLICY "form_template_versions_select" ON "public"."form_template_versions"
+FOR SELECT USING ("auth"."uid"() IS NOT NULL);
+
+DROP POLICY IF EXISTS "form_template_versions_insert" ON "public"."form_template_versions";
+CREATE POLICY "form_template_versions_insert" ON "public"."form_template_versions"
+FOR INSERT WITH CHECK ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_workflows'::"text"));
+
+GRANT ALL ON TABLE "public"."form_template_versions" TO "anon";
+GRANT ALL ON TABLE "public"."form_template_versions" TO "authenticated";
+GRANT ALL ON TABLE "public"."form_template_versions" TO "service_role";
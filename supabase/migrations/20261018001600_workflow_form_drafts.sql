@@ -0,0 +1,65 @@
+-- Migration: Workflow form drafts
+-- Long step forms were only autosaved to the browser's localStorage, so work
+-- was lost when the assignee switched devices or cleared their browser. Drafts
+-- now live on the server: one per user per workflow step, saved while the
+-- assignee types and restored when they come back.
+--
+-- A draft belongs to the user who wrote it. It is cleared once the step's
+-- form is submitted, or when the step is handed to someone else.
+
+CREATE TABLE IF NOT EXISTS "public"."workflow_form_drafts" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "workflow_instance_id" "uuid" NOT NULL,
+    "node_id" "uuid" NOT NULL,
+    "active_step_id" "uuid",
+    "user_id" "uuid" NOT NULL,
+    "form_data" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "step_state" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "workflow_form_drafts_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "workflow_form_drafts_step_user_key" UNIQUE ("workflow_instance_id", "node_id", "user_id"),
+    CONSTRAINT "workflow_form_drafts_workflow_instance_id_fkey" FOREIGN KEY ("workflow_instance_id") REFERENCES "public"."workflow_instances"("id") ON DELETE CASCADE,
+    CONSTRAINT "workflow_form_drafts_active_step_id_fkey" FOREIGN KEY ("active_step_id") REFERENCES "public"."workflow_active_steps"("id") ON DELETE SET NULL,
+    CONSTRAINT "workflow_form_drafts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("id") ON DELETE CASCADE
+);
+
+ALTER TABLE "public"."workflow_form_drafts" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."workflow_form_drafts" IS 'In-progress workflow step forms, one per user per step';
+COMMENT ON COLUMN "public"."workflow_form_drafts"."active_step_id" IS 'Active step the draft was written for; a draft for an earlier activation of the node is discarded';
+COMMENT ON COLUMN "public"."workflow_form_drafts"."form_data" IS 'Field values by field id';
+COMMENT ON COLUMN "public"."workflow_form_drafts"."step_state" IS 'The rest of the step dialog: approval decision, feedback and next-step assignees';
+
+CREATE INDEX IF NOT EXISTS "idx_workflow_form_drafts_user"
+ON "public"."workflow_form_drafts" ("user_id");
+
+CREATE OR REPLACE TRIGGER "update_workflow_form_drafts_updated_at" BEFORE UPDATE ON "public"."workflow_form_drafts" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- RLS: a draft is private to its author. Whoever can manage the workflow may
+-- also delete drafts, so reassigning or submitting a step clears them.
+ALTER TABLE "public"."workflow_form_drafts" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_form_drafts_select" ON "public"."workflow_form_drafts";
+CREATE POLICY "workflow_form_drafts_select" ON "public"."workflow_form_drafts"
+FOR SELECT USING ("user_id" = "auth"."uid"());
+
+DROP POLICY IF EXISTS "workflow_form_drafts_insert" ON "public"."workflow_form_drafts";
+CREATE POLICY "workflow_form_drafts_insert" ON "public"."workflow_form_drafts"
+FOR INSERT WITH CHECK ("user_id" = "auth"."uid"());
+
+DROP POLICY IF EXISTS "workflow_form_drafts_update" ON "public"."workflow_form_drafts";
+CREATE POLICY "workflow_form_drafts_update" ON "public"."workflow_form_drafts"
+FOR UPDATE USING ("user_id" = "auth"."uid"()) WITH CHECK ("user_id" = "auth"."uid"());
+
+DROP POLICY IF EXISTS "workflow_form_drafts_delete" ON "public"."workflow_form_drafts";
+CREATE POLICY "workflow_form_drafts_delete" ON "public"."workflow_form_drafts"
+FOR DELETE USING (
+    "user_id" = "auth"."uid"()
+    OR "public"."user_is_superadmin"()
+    OR "public"."user_can_manage_workflow"("workflow_instance_id")
+);
+
+GRANT ALL ON TABLE "public"."workflow_form_drafts" TO "anon";
+GRANT ALL ON TABLE "public"."workflow_form_drafts" TO "authenticated";
+GRANT ALL ON TABLE "public"."workflow_form_drafts" TO "service_role";
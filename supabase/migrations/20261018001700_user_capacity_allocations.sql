@@ -0,0 +1,71 @@
+-- Migration: User capacity allocations
+-- Explicit share of a person's capacity that goes to an account (or to one
+-- project within it), replacing the even split across every account they work
+-- on. Rows are effective for a date range so a split can change over time.
+--
+-- Capacity routes resolve a person's share of an account per week:
+--   - an account-level row (project_id null) gives the account's percentage
+--   - otherwise project rows within the account are added up
+--   - accounts without rows share what's left of 100% evenly
+
+CREATE TABLE IF NOT EXISTS "public"."user_capacity_allocations" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "account_id" "uuid" NOT NULL,
+    "project_id" "uuid",
+    "allocation_percent" numeric(5,2) NOT NULL,
+    "effective_from" "date" DEFAULT CURRENT_DATE NOT NULL,
+    "effective_to" "date",
+    "created_by" "uuid",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "user_capacity_allocations_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "user_capacity_allocations_percent_check" CHECK ("allocation_percent" > 0 AND "allocation_percent" <= 100),
+    CONSTRAINT "user_capacity_allocations_dates_check" CHECK ("effective_to" IS NULL OR "effective_to" >= "effective_from"),
+    CONSTRAINT "user_capacity_allocations_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("id") ON DELETE CASCADE,
+    CONSTRAINT "user_capacity_allocations_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE CASCADE,
+    CONSTRAINT "user_capacity_allocations_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE,
+    CONSTRAINT "user_capacity_allocations_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."user_profiles"("id") ON DELETE SET NULL
+);
+
+ALTER TABLE "public"."user_capacity_allocations" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."user_capacity_allocations" IS 'Share of a user''s weekly capacity given to an account or project, by effective date';
+COMMENT ON COLUMN "public"."user_capacity_allocations"."project_id" IS 'Project within the account the share is for (null = the whole account)';
+COMMENT ON COLUMN "public"."user_capacity_allocations"."allocation_percent" IS 'Percentage of the user''s available hours';
+COMMENT ON COLUMN "public"."user_capacity_allocations"."effective_to" IS 'Last day the share applies (inclusive, null = open-ended)';
+
+CREATE INDEX IF NOT EXISTS "idx_user_capacity_allocations_user"
+ON "public"."user_capacity_allocations" ("user_id", "effective_from");
+
+CREATE INDEX IF NOT EXISTS "idx_user_capacity_allocations_account"
+ON "public"."user_capacity_allocations" ("account_id");
+
+DROP TRIGGER IF EXISTS "update_user_capacity_allocations_updated_at" ON "public"."user_capacity_allocations";
+CREATE TRIGGER "update_user_capacity_allocations_updated_at"
+BEFORE UPDATE ON "public"."user_capacity_allocations"
+FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- RLS: everyone signed in reads the splits (capacity is computed as the acting
+-- user); the people who manage account membership maintain them.
+ALTER TABLE "public"."user_capacity_allocations" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "user_capacity_allocations_select" ON "public"."user_capacity_allocations";
+CREATE POLICY "user_capacity_allocations_select" ON "public"."user_capacity_allocations"
+FOR SELECT USING ("auth"."uid"() IS NOT NULL);
+
+DROP POLICY IF EXISTS "user_capacity_allocations_insert" ON "public"."user_capacity_allocations";
+CREATE POLICY "user_capacity_allocations_insert" ON "public"."user_capacity_allocations"
+FOR INSERT WITH CHECK ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users_in_accounts'::"text"));
+
+DROP POLICY IF EXISTS "user_capacity_allocations_update" ON "public"."user_capacity_allocations";
+CREATE POLICY "user_capacity_allocations_update" ON "public"."user_capacity_allocations"
+FOR UPDATE USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users_in_accounts'::"text"));
+
+DROP POLICY IF EXISTS "user_capacity_allocations_delete" ON "public"."user_capacity_allocations";
+CREATE POLICY "user_capacity_allocations_delete" ON "public"."user_capacity_allocations"
+FOR DELETE USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users_in_accounts'::"text"));
+
+GRANT ALL ON TABLE "public"."user_capacity_allocations" TO "anon";
+GRANT ALL ON TABLE "public"."user_capacity_allocations" TO "authenticated";
+GRANT ALL ON TABLE "public"."user_capacity_allocations" TO "service_role";
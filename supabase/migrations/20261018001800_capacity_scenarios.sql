@@ -0,0 +1,160 @@
+-- Migration: Capacity scenarios
+-- What-if sandboxes for work that isn't committed yet ("can we take a
+-- 300-hour rebrand next month?"):
+--   - capacity_scenarios: a named sandbox owned by a planner
+--   - capacity_scenario_projects: tentative projects inside a scenario
+--   - capacity_scenario_demands: hours a tentative project needs from a role
+--     in a given week
+--
+-- Nothing here is read by the real capacity routes or task allocations; the
+-- scenario impact is computed on top of the live numbers and never stored.
+
+CREATE TABLE IF NOT EXISTS "public"."capacity_scenarios" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "name" "text" NOT NULL,
+    "description" "text",
+    "created_by" "uuid" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "capacity_scenarios_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "capacity_scenarios_name_check" CHECK ("length"(TRIM(BOTH FROM "name")) > 0),
+    CONSTRAINT "capacity_scenarios_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."user_profiles"("id") ON DELETE CASCADE
+);
+
+ALTER TABLE "public"."capacity_scenarios" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."capacity_scenarios" IS 'What-if capacity sandboxes - never part of real capacity numbers';
+
+CREATE TABLE IF NOT EXISTS "public"."capacity_scenario_projects" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "scenario_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "account_id" "uuid",
+    "client_name" "text",
+    "notes" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "capacity_scenario_projects_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "capacity_scenario_projects_name_check" CHECK ("length"(TRIM(BOTH FROM "name")) > 0),
+    CONSTRAINT "capacity_scenario_projects_scenario_id_fkey" FOREIGN KEY ("scenario_id") REFERENCES "public"."capacity_scenarios"("id") ON DELETE CASCADE,
+    CONSTRAINT "capacity_scenario_projects_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE SET NULL
+);
+
+ALTER TABLE "public"."capacity_scenario_projects" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."capacity_scenario_projects" IS 'Tentative projects inside a capacity scenario';
+COMMENT ON COLUMN "public"."capacity_scenario_projects"."client_name" IS 'Prospective client when there is no account yet';
+
+CREATE TABLE IF NOT EXISTS "public"."capacity_scenario_demands" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "scenario_project_id" "uuid" NOT NULL,
+    "role_id" "uuid" NOT NULL,
+    "week_start_date" "date" NOT NULL,
+    "hours" numeric(6,2) NOT NULL,
+    CONSTRAINT "capacity_scenario_demands_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "capacity_scenario_demands_hours_check" CHECK ("hours" > 0),
+    CONSTRAINT "capacity_scenario_demands_unique" UNIQUE ("scenario_project_id", "role_id", "week_start_date"),
+    CONSTRAINT "capacity_scenario_demands_project_fkey" FOREIGN KEY ("scenario_project_id") REFERENCES "public"."capacity_scenario_projects"("id") ON DELETE CASCADE,
+    CONSTRAINT "capacity_scenario_demands_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "public"."roles"("id") ON DELETE CASCADE
+);
+
+ALTER TABLE "public"."capacity_scenario_demands" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."capacity_scenario_demands" IS 'Hours a tentative project needs from a role in a week';
+COMMENT ON COLUMN "public"."capacity_scenario_demands"."week_start_date" IS 'Monday of the week';
+
+CREATE INDEX IF NOT EXISTS "idx_capacity_scenario_projects_scenario"
+ON "public"."capacity_scenario_projects" ("scenario_id");
+
+CREATE INDEX IF NOT EXISTS "idx_capacity_scenario_demands_project"
+ON "public"."capacity_scenario_demands" ("scenario_project_id");
+
+CREATE OR REPLACE TRIGGER "update_capacity_scenarios_updated_at" BEFORE UPDATE ON "public"."capacity_scenarios" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+CREATE OR REPLACE TRIGGER "update_capacity_scenario_projects_updated_at" BEFORE UPDATE ON "public"."capacity_scenario_projects" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+CREATE OR REPLACE FUNCTION "public"."user_can_edit_capacity_scenario"("p_scenario_id" "uuid") RETURNS boolean
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO 'public', 'pg_temp'
+    AS $$
+  SELECT "public"."user_is_superadmin"() OR EXISTS (
+    SELECT 1 FROM "public"."capacity_scenarios"
+    WHERE "id" = "p_scenario_id" AND "created_by" = "auth"."uid"()
+  );
+$$;
+
+ALTER FUNCTION "public"."user_can_edit_capacity_scenario"("p_scenario_id" "uuid") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."user_can_edit_capacity_scenario"("p_scenario_id" "uuid") IS 'Checks if the current user owns a capacity scenario (or is a superadmin).';
+
+-- RLS: anyone who can see organization capacity can look at scenarios (so
+-- sales and planners can share them); only the owner changes one.
+ALTER TABLE "public"."capacity_scenarios" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."capacity_scenario_projects" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."capacity_scenario_demands" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "capacity_scenarios_select" ON "public"."capacity_scenarios";
+CREATE POLICY "capacity_scenarios_select" ON "public"."capacity_scenarios"
+FOR SELECT USING (
+    "created_by" = "auth"."uid"()
+    OR "public"."user_is_superadmin"()
+    OR "public"."user_has_permission"('view_all_capacity'::"text")
+);
+
+DROP POLICY IF EXISTS "capacity_scenarios_insert" ON "public"."capacity_scenarios";
+CREATE POLICY "capacity_scenarios_insert" ON "public"."capacity_scenarios"
+FOR INSERT WITH CHECK (
+    "created_by" = "auth"."uid"()
+    AND ("public"."user_is_superadmin"() OR "public"."user_has_permission"('view_all_capacity'::"text"))
+);
+
+DROP POLICY IF EXISTS "capacity_scenarios_update" ON "public"."capacity_scenarios";
+CREATE POLICY "capacity_scenarios_update" ON "public"."capacity_scenarios"
+FOR UPDATE USING ("created_by" = "auth"."uid"() OR "public"."user_is_superadmin"());
+
+DROP POLICY IF EXISTS "capacity_scenarios_delete" ON "public"."capacity_scenarios";
+CREATE POLICY "capacity_scenarios_delete" ON "public"."capacity_scenarios"
+FOR DELETE USING ("created_by" = "auth"."uid"() OR "public"."user_is_superadmin"());
+
+DROP POLICY IF EXISTS "capacity_scenario_projects_select" ON "public"."capacity_scenario_projects";
+CREATE POLICY "capacity_scenario_projects_select" ON "public"."capacity_scenario_projects"
+FOR SELECT USING (EXISTS (
+    SELECT 1 FROM "public"."capacity_scenarios" "s" WHERE "s"."id" = "scenario_id"
+));
+
+DROP POLICY IF EXISTS "capacity_scenario_projects_write" ON "public"."capacity_scenario_projects";
+CREATE POLICY "capacity_scenario_projects_write" ON "public"."capacity_scenario_projects"
+FOR ALL USING ("public"."user_can_edit_capacity_scenario"("scenario_id"))
+WITH CHECK ("public"."user_can_edit_capacity_scenario"("scenario_id"));
+
+DROP POLICY IF EXISTS "capacity_scenario_demands_select" ON "public"."capacity_scenario_demands";
+CREATE POLICY "capacity_scenario_demands_select" ON "public"."capacity_scenario_demands"
+FOR SELECT USING (EXISTS (
+    SELECT 1 FROM "public"."capacity_scenario_projects" "p" WHERE "p"."id" = "scenario_project_id"
+));
+
+DROP POLICY IF EXISTS "capacity_scenario_demands_write" ON "public"."capacity_scenario_demands";
+CREATE POLICY "capacity_scenario_demands_write" ON "public"."capacity_scenario_demands"
+FOR ALL USING (EXISTS (
+    SELECT 1 FROM "public"."capacity_scenario_projects" "p"
+    WHERE "p"."id" = "scenario_project_id" AND "public"."user_can_edit_capacity_scenario"("p"."scenario_id")
+))
+WITH CHECK (EXISTS (
+    SELECT 1 FROM "public"."capacity_scenario_projects" "p"
+    WHERE "p"."id" = "scenario_project_id" AND "public"."user_can_edit_capacity_scenario"("p"."scenario_id")
+));
+
+GRANT ALL ON FUNCTION "public"."user_can_edit_capacity_scenario"("p_scenario_id" "uuid") TO "anon";
+GRANT ALL ON FUNCTION "public"."user_can_edit_capacity_scenario"("p_scenario_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."user_can_edit_capacity_scenario"("p_scenario_id" "uuid") TO "service_role";
+
+GRANT ALL ON TABLE "public"."capacity_scenarios" TO "anon";
+GRANT ALL ON TABLE "public"."capacity_scenarios" TO "authenticated";
+GRANT ALL ON TABLE "public"."capacity_scenarios" TO "service_role";
+
+GRANT ALL ON TABLE "public"."capacity_scenario_projects" TO "anon";
+GRANT ALL ON TABLE "public"."capacity_scenario_projects" TO "authenticated";
+GRANT ALL ON TABLE "public"."capacity_scenario_projects" TO "service_role";
+
+GRANT ALL ON TABLE "public"."capacity_scenario_demands" TO "anon";
+GRANT ALL ON TABLE "public"."capacity_scenario_demands" TO "authenticated";
+GRANT ALL ON TABLE "public"."capacity_scenario_demands" TO "service_role";
@@ -0,0 +1,289 @@
+-- Migration: Leave requests
+-- Time off that feeds capacity without anyone editing availability by hand:
+--   - leave_types: PTO, sick, holiday... with an allowance and how it accrues
+--   - leave_balance_adjustments: manual grants, carry-over and corrections
+--     to a user's allowance for a year
+--   - leave_requests: a date range of leave, approved by whoever holds the
+--     requester's reporting role (roles.reporting_role_id)
+--
+-- Approving (or cancelling approved) leave rewrites the affected weeks of
+-- user_availability: available_hours drops by the leave and
+-- schedule_data.leave remembers the hours it took, so they can be restored.
+
+CREATE TABLE IF NOT EXISTS "public"."leave_types" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "name" "text" NOT NULL,
+    "color" "text" DEFAULT '#3B82F6' NOT NULL,
+    "is_paid" boolean DEFAULT true NOT NULL,
+    "requires_approval" boolean DEFAULT true NOT NULL,
+    "accrual" "text" DEFAULT 'annual' NOT NULL,
+    "annual_allowance_days" numeric(5,2),
+    "is_active" boolean DEFAULT true NOT NULL,
+    "sort_order" integer DEFAULT 0 NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "leave_types_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "leave_types_name_key" UNIQUE ("name"),
+    CONSTRAINT "leave_types_accrual_check" CHECK (("accrual" = ANY (ARRAY['annual'::"text", 'monthly'::"text", 'none'::"text"]))),
+    CONSTRAINT "leave_types_allowance_check" CHECK ("annual_allowance_days" IS NULL OR "annual_allowance_days" >= 0)
+);
+
+ALTER TABLE "public"."leave_types" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."leave_types" IS 'Kinds of time off (PTO, sick, holiday) and their allowances';
+COMMENT ON COLUMN "public"."leave_types"."accrual" IS 'annual = full allowance on Jan 1, monthly = 1/12 each month, none = balance not tracked';
+COMMENT ON COLUMN "public"."leave_types"."annual_allowance_days" IS 'Working days per calendar year (null = unlimited)';
+
+INSERT INTO "public"."leave_types" ("name", "color", "is_paid", "requires_approval", "accrual", "annual_allowance_days", "sort_order") VALUES
+    ('PTO', '#3B82F6', true, true, 'monthly', 20, 1),
+    ('Sick', '#EF4444', true, false, 'annual', 10, 2),
+    ('Holiday', '#10B981', true, true, 'annual', 2, 3)
+ON CONFLICT ("name") DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS "public"."leave_balance_adjustments" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "leave_type_id" "uuid" NOT NULL,
+    "year" integer NOT NULL,
+    "days" numeric(5,2) NOT NULL,
+    "reason" "text",
+    "created_by" "uuid",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "leave_balance_adjustments_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "leave_balance_adjustments_days_check" CHECK ("days" <> 0),
+    CONSTRAINT "leave_balance_adjustments_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("id") ON DELETE CASCADE,
+    CONSTRAINT "leave_balance_adjustments_leave_type_id_fkey" FOREIGN KEY ("leave_type_id") REFERENCES "public"."leave_types"("id") ON DELETE CASCADE,
+    CONSTRAINT "leave_balance_adjustments_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."user_profiles"("id") ON DELETE SET NULL
+);
+
+ALTER TABLE "public"."leave_balance_adjustments" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."leave_balance_adjustments" IS 'Manual changes to a user''s leave allowance for a year (carry-over, grants, corrections)';
+COMMENT ON COLUMN "public"."leave_balance_adjustments"."days" IS 'Working days added (positive) or taken away (negative)';
+
+CREATE TABLE IF NOT EXISTS "public"."leave_requests" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "leave_type_id" "uuid" NOT NULL,
+    "start_date" "date" NOT NULL,
+    "end_date" "date" NOT NULL,
+    "half_day" boolean DEFAULT false NOT NULL,
+    "days" numeric(5,2) NOT NULL,
+    "reason" "text",
+    "status" "text" DEFAULT 'pending' NOT NULL,
+    "reviewed_by" "uuid",
+    "reviewed_at" timestamp with time zone,
+    "review_note" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "leave_requests_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "leave_requests_status_check" CHECK (("status" = ANY (ARRAY['pending'::"text", 'approved'::"text", 'rejected'::"text", 'cancelled'::"text"]))),
+    CONSTRAINT "leave_requests_dates_check" CHECK ("end_date" >= "start_date"),
+    CONSTRAINT "leave_requests_half_day_check" CHECK (NOT "half_day" OR "end_date" = "start_date"),
+    CONSTRAINT "leave_requests_days_check" CHECK ("days" > 0),
+    CONSTRAINT "leave_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("id") ON DELETE CASCADE,
+    CONSTRAINT "leave_requests_leave_type_id_fkey" FOREIGN KEY ("leave_type_id") REFERENCES "public"."leave_types"("id") ON DELETE RESTRICT,
+    CONSTRAINT "leave_requests_reviewed_by_fkey" FOREIGN KEY ("reviewed_by") REFERENCES "public"."user_profiles"("id") ON DELETE SET NULL
+);
+
+ALTER TABLE "public"."leave_requests" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."leave_requests" IS 'Time off requests; approved ones reduce user_availability for the weeks they cover';
+COMMENT ON COLUMN "public"."leave_requests"."end_date" IS 'Last day of leave (inclusive)';
+COMMENT ON COLUMN "public"."leave_requests"."days" IS 'Working days taken, after the business calendar''s closed days';
+
+CREATE INDEX IF NOT EXISTS "idx_leave_requests_user_dates"
+ON "public"."leave_requests" ("user_id", "start_date", "end_date");
+
+CREATE INDEX IF NOT EXISTS "idx_leave_requests_pending"
+ON "public"."leave_requests" ("status")
+WHERE "status" = 'pending';
+
+CREATE INDEX IF NOT EXISTS "idx_leave_balance_adjustments_user_year"
+ON "public"."leave_balance_adjustments" ("user_id", "year");
+
+CREATE OR REPLACE TRIGGER "update_leave_types_updated_at" BEFORE UPDATE ON "public"."leave_types" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+CREATE OR REPLACE TRIGGER "update_leave_requests_updated_at" BEFORE UPDATE ON "public"."leave_requests" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+CREATE OR REPLACE FUNCTION "public"."user_is_leave_approver"("p_user_id" "uuid") RETURNS boolean
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO 'public', 'pg_temp'
+    AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM "public"."user_roles" "requester"
+    JOIN "public"."roles" "r" ON "r"."id" = "requester"."role_id"
+    JOIN "public"."user_roles" "approver" ON "approver"."role_id" = "r"."reporting_role_id"
+    WHERE "requester"."user_id" = "p_user_id"
+      AND "approver"."user_id" = "auth"."uid"()
+      AND "approver"."user_id" <> "p_user_id"
+  );
+$$;
+
+ALTER FUNCTION "public"."user_is_leave_approver"("p_user_id" "uuid") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."user_is_leave_approver"("p_user_id" "uuid") IS 'Checks if the current user holds a role that one of the user''s roles reports to.';
+
+-- RLS: everyone reads leave types; people see their own leave, their
+-- reports' leave and (with capacity access) the team calendar; approvers
+-- and user managers review through review_leave_request.
+ALTER TABLE "public"."leave_types" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."leave_balance_adjustments" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."leave_requests" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "leave_types_select" ON "public"."leave_types";
+CREATE POLICY "leave_types_select" ON "public"."leave_types"
+FOR SELECT USING ("auth"."uid"() IS NOT NULL);
+
+DROP POLICY IF EXISTS "leave_types_write" ON "public"."leave_types";
+CREATE POLICY "leave_types_write" ON "public"."leave_types"
+FOR ALL USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users'::"text"))
+WITH CHECK ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users'::"text"));
+
+DROP POLICY IF EXISTS "leave_balance_adjustments_select" ON "public"."leave_balance_adjustments";
+CREATE POLICY "leave_balance_adjustments_select" ON "public"."leave_balance_adjustments"
+FOR SELECT USING (
+    "user_id" = "auth"."uid"()
+    OR "public"."user_is_superadmin"()
+    OR "public"."user_has_permission"('manage_users'::"text")
+    OR "public"."user_is_leave_approver"("user_id")
+);
+
+DROP POLICY IF EXISTS "leave_balance_adjustments_write" ON "public"."leave_balance_adjustments";
+CREATE POLICY "leave_balance_adjustments_write" ON "public"."leave_balance_adjustments"
+FOR ALL USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users'::"text"))
+WITH CHECK ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users'::"text"));
+
+DROP POLICY IF EXISTS "leave_requests_select" ON "public"."leave_requests";
+CREATE POLICY "leave_requests_select" ON "public"."leave_requests"
+FOR SELECT USING (
+    "user_id" = "auth"."uid"()
+    OR "public"."user_is_superadmin"()
+    OR "public"."user_has_permission"('manage_users'::"text")
+    OR "public"."user_has_permission"('view_team_capacity'::"text")
+    OR "public"."user_has_permission"('view_all_capacity'::"text")
+    OR "public"."user_is_leave_approver"("user_id")
+);
+
+-- Requesters only ever create pending requests and withdraw them; approving,
+-- rejecting and cancelling approved leave go through the functions below so
+-- nobody can approve their own leave by writing the row
+DROP POLICY IF EXISTS "leave_requests_insert" ON "public"."leave_requests";
+CREATE POLICY "leave_requests_insert" ON "public"."leave_requests"
+FOR INSERT WITH CHECK (
+    "user_id" = "auth"."uid"()
+    AND "status" = 'pending'
+    AND "reviewed_by" IS NULL
+    AND "reviewed_at" IS NULL
+);
+
+DROP POLICY IF EXISTS "leave_requests_update" ON "public"."leave_requests";
+CREATE POLICY "leave_requests_update" ON "public"."leave_requests"
+FOR UPDATE USING ("user_id" = "auth"."uid"() AND "status" = 'pending')
+WITH CHECK ("user_id" = "auth"."uid"() AND "status" = 'cancelled');
+
+CREATE OR REPLACE FUNCTION "public"."review_leave_request"("p_request_id" "uuid", "p_decision" "text", "p_note" "text") RETURNS boolean
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public', 'pg_temp'
+    AS $$
+DECLARE
+  req record;
+  is_reviewer boolean;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid leave decision: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT "lr"."user_id", "lt"."requires_approval"
+  INTO req
+  FROM "public"."leave_requests" "lr"
+  JOIN "public"."leave_types" "lt" ON "lt"."id" = "lr"."leave_type_id"
+  WHERE "lr"."id" = p_request_id
+  FOR UPDATE OF "lr";
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  is_reviewer := req.user_id <> "auth"."uid"() AND (
+    "public"."user_is_superadmin"()
+    OR "public"."user_has_permission"('manage_users'::"text")
+    OR "public"."user_is_leave_approver"(req.user_id)
+  );
+
+  -- Leave types that don't need approval are approved by their requester on submit
+  IF NOT is_reviewer AND NOT (req.user_id = "auth"."uid"() AND p_decision = 'approved' AND NOT req.requires_approval) THEN
+    RAISE EXCEPTION 'Not allowed to review this leave request' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE "public"."leave_requests"
+  SET "status" = p_decision,
+      "reviewed_by" = CASE WHEN is_reviewer THEN "auth"."uid"() END,
+      "reviewed_at" = now(),
+      "review_note" = p_note
+  WHERE "id" = p_request_id
+    AND "status" = 'pending';
+
+  RETURN FOUND;
+END;
+$$;
+
+ALTER FUNCTION "public"."review_leave_request"("p_request_id" "uuid", "p_decision" "text", "p_note" "text") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."review_leave_request"("p_request_id" "uuid", "p_decision" "text", "p_note" "text") IS 'Approves or rejects a pending leave request as one of the requester''s approvers (or a user manager). Returns false if it is no longer pending.';
+
+CREATE OR REPLACE FUNCTION "public"."cancel_leave_request"("p_request_id" "uuid") RETURNS boolean
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public', 'pg_temp'
+    AS $$
+DECLARE
+  requester_id uuid;
+BEGIN
+  SELECT "user_id" INTO requester_id
+  FROM "public"."leave_requests"
+  WHERE "id" = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF requester_id <> "auth"."uid"()
+    AND NOT "public"."user_is_superadmin"()
+    AND NOT "public"."user_has_permission"('manage_users'::"text") THEN
+    RAISE EXCEPTION 'Not allowed to cancel this leave request' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE "public"."leave_requests"
+  SET "status" = 'cancelled'
+  WHERE "id" = p_request_id
+    AND "status" IN ('pending', 'approved');
+
+  RETURN FOUND;
+END;
+$$;
+
+ALTER FUNCTION "public"."cancel_leave_request"("p_request_id" "uuid") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."cancel_leave_request"("p_request_id" "uuid") IS 'Withdraws a pending request or cancels approved leave, as the requester or a user manager. Returns false if it was already closed.';
+
+GRANT ALL ON FUNCTION "public"."user_is_leave_approver"("p_user_id" "uuid") TO "anon";
+GRANT ALL ON FUNCTION "public"."user_is_leave_approver"("p_user_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."user_is_leave_approver"("p_user_id" "uuid") TO "service_role";
+
+GRANT ALL ON FUNCTION "public"."review_leave_request"("p_request_id" "uuid", "p_decision" "text", "p_note" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."review_leave_request"("p_request_id" "uuid", "p_decision" "text", "p_note" "text") TO "service_role";
+GRANT ALL ON FUNCTION "public"."cancel_leave_request"("p_request_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."cancel_leave_request"("p_request_id" "uuid") TO "service_role";
+
+GRANT ALL ON TABLE "public"."leave_types" TO "anon";
+GRANT ALL ON TABLE "public"."leave_types" TO "authenticated";
+GRANT ALL ON TABLE "public"."leave_types" TO "service_role";
+
+GRANT ALL ON TABLE "public"."leave_balance_adjustments" TO "anon";
+GRANT ALL ON TABLE "public"."leave_balance_adjustments" TO "authenticated";
+GRANT ALL ON TABLE "public"."leave_balance_adjustments" TO "service_role";
+
+GRANT ALL ON TABLE "public"."leave_requests" TO "anon";
+GRANT ALL ON TABLE "public"."leave_requests" TO "authenticated";
+GRANT ALL ON TABLE "public"."leave_requests" TO "service_role";
@@ -0,0 +1,184 @@
+-- Migration: Skills matrix
+-- Replaces the free-text user_profiles.skills array with a managed taxonomy:
+--   - skills: the organisation's list of skills, grouped by category
+--   - user_skills: who has which skill, at a proficiency level
+--     (1 = beginner, 2 = intermediate, 3 = advanced, 4 = expert)
+--   - project_required_skills / task_required_skills: what a piece of work
+--     needs, with the minimum proficiency that counts as a match
+--
+-- Workflow role nodes keep their required skills in
+-- workflow_nodes.settings.required_skills ([{ skill_id, min_proficiency }])
+-- so they travel with published versions and instance snapshots.
+--
+-- user_profiles.skills is kept (and rewritten from user_skills) for the
+-- places that still read it.
+
+CREATE TABLE IF NOT EXISTS "public"."skills" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "name" "text" NOT NULL,
+    "category" "text",
+    "description" "text",
+    "is_active" boolean DEFAULT true NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "skills_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "skills_name_key" UNIQUE ("name")
+);
+
+ALTER TABLE "public"."skills" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."skills" IS 'Managed skills taxonomy used for profiles, required skills and staffing suggestions';
+
+CREATE TABLE IF NOT EXISTS "public"."user_skills" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "skill_id" "uuid" NOT NULL,
+    "proficiency" smallint DEFAULT 2 NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "user_skills_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "user_skills_user_skill_key" UNIQUE ("user_id", "skill_id"),
+    CONSTRAINT "user_skills_proficiency_check" CHECK ("proficiency" BETWEEN 1 AND 4),
+    CONSTRAINT "user_skills_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("id") ON DELETE CASCADE,
+    CONSTRAINT "user_skills_skill_id_fkey" FOREIGN KEY ("skill_id") REFERENCES "public"."skills"("id") ON DELETE CASCADE
+);
+
+ALTER TABLE "public"."user_skills" OWNER TO "postgres";
+
+COMMENT ON COLUMN "public"."user_skills"."proficiency" IS '1 = beginner, 2 = intermediate, 3 = advanced, 4 = expert';
+
+CREATE TABLE IF NOT EXISTS "public"."project_required_skills" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "project_id" "uuid" NOT NULL,
+    "skill_id" "uuid" NOT NULL,
+    "min_proficiency" smallint DEFAULT 1 NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "project_required_skills_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "project_required_skills_project_skill_key" UNIQUE ("project_id", "skill_id"),
+    CONSTRAINT "project_required_skills_min_proficiency_check" CHECK ("min_proficiency" BETWEEN 1 AND 4),
+    CONSTRAINT "project_required_skills_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE,
+    CONSTRAINT "project_required_skills_skill_id_fkey" FOREIGN KEY ("skill_id") REFERENCES "public"."skills"("id") ON DELETE CASCADE
+);
+
+ALTER TABLE "public"."project_required_skills" OWNER TO "postgres";
+
+CREATE TABLE IF NOT EXISTS "public"."task_required_skills" (
+    "id" "uuid" DEFAULT "extensions"."uuid_generate_v4"() NOT NULL,
+    "task_id" "uuid" NOT NULL,
+    "skill_id" "uuid" NOT NULL,
+    "min_proficiency" smallint DEFAULT 1 NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "task_required_skills_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "task_required_skills_task_skill_key" UNIQUE ("task_id", "skill_id"),
+    CONSTRAINT "task_required_skills_min_proficiency_check" CHECK ("min_proficiency" BETWEEN 1 AND 4),
+    CONSTRAINT "task_required_skills_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE,
+    CONSTRAINT "task_required_skills_skill_id_fkey" FOREIGN KEY ("skill_id") REFERENCES "public"."skills"("id") ON DELETE CASCADE
+);
+
+ALTER TABLE "public"."task_required_skills" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."task_required_skills" IS 'Skills a task needs; tasks without any fall back to their project''s required skills';
+
+CREATE INDEX IF NOT EXISTS "idx_user_skills_skill"
+ON "public"."user_skills" ("skill_id", "proficiency");
+
+CREATE INDEX IF NOT EXISTS "idx_project_required_skills_project"
+ON "public"."project_required_skills" ("project_id");
+
+CREATE INDEX IF NOT EXISTS "idx_task_required_skills_task"
+ON "public"."task_required_skills" ("task_id");
+
+CREATE OR REPLACE TRIGGER "update_skills_updated_at" BEFORE UPDATE ON "public"."skills" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+CREATE OR REPLACE TRIGGER "update_user_skills_updated_at" BEFORE UPDATE ON "public"."user_skills" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- Seed the taxonomy from the free-text skills people already listed
+INSERT INTO "public"."skills" ("name")
+SELECT DISTINCT ON ("lower"("btrim"(s."name"))) "btrim"(s."name")
+FROM "public"."user_profiles" up
+CROSS JOIN LATERAL "unnest"(up."skills") AS s("name")
+WHERE up."skills" IS NOT NULL AND "btrim"(s."name") <> ''
+ORDER BY "lower"("btrim"(s."name")), "btrim"(s."name")
+ON CONFLICT ("name") DO NOTHING;
+
+INSERT INTO "public"."user_skills" ("user_id", "skill_id", "proficiency")
+SELECT DISTINCT up."id", sk."id", 2
+FROM "public"."user_profiles" up
+CROSS JOIN LATERAL "unnest"(up."skills") AS s("name")
+JOIN "public"."skills" sk ON "lower"(sk."name") = "lower"("btrim"(s."name"))
+WHERE up."skills" IS NOT NULL
+ON CONFLICT ("user_id", "skill_id") DO NOTHING;
+
+-- RLS
+ALTER TABLE "public"."skills" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."user_skills" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."project_required_skills" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."task_required_skills" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "skills_select" ON "public"."skills";
+CREATE POLICY "skills_select" ON "public"."skills"
+FOR SELECT USING ("auth"."uid"() IS NOT NULL);
+
+DROP POLICY IF EXISTS "skills_write" ON "public"."skills";
+CREATE POLICY "skills_write" ON "public"."skills"
+FOR ALL USING ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users'::"text"))
+WITH CHECK ("public"."user_is_superadmin"() OR "public"."user_has_permission"('manage_users'::"text"));
+
+DROP POLICY IF EXISTS "user_skills_select" ON "public"."user_skills";
+CREATE POLICY "user_skills_select" ON "public"."user_skills"
+FOR SELECT USING ("auth"."uid"() IS NOT NULL);
+
+DROP POLICY IF EXISTS "user_skills_write" ON "public"."user_skills";
+CREATE POLICY "user_skills_write" ON "public"."user_skills"
+FOR ALL USING (
+    "user_id" = "auth"."uid"()
+    OR "public"."user_is_superadmin"()
+    OR "public"."user_has_permission"('manage_users'::"text")
+)
+WITH CHECK (
+    "user_id" = "auth"."uid"()
+    OR "public"."user_is_superadmin"()
+    OR "public"."user_has_permission"('manage_users'::"text")
+);
+
+-- Required skills follow the visibility of the project / task they belong to
+DROP POLICY IF EXISTS "project_required_skills_select" ON "public"."project_required_skills";
+CREATE POLICY "project_required_skills_select" ON "public"."project_required_skills"
+FOR SELECT USING (EXISTS (SELECT 1 FROM "public"."projects" p WHERE p."id" = "project_required_skills"."project_id"));
+
+DROP POLICY IF EXISTS "project_required_skills_write" ON "public"."project_required_skills";
+CREATE POLICY "project_required_skills_write" ON "public"."project_required_skills"
+FOR ALL USING (
+    "public"."user_is_superadmin"()
+    OR "public"."user_has_permission"('manage_all_projects'::"text")
+    OR ("public"."user_has_permission"('manage_projects'::"text") AND "public"."user_is_project_assigned"("project_id"))
+)
+WITH CHECK (
+    "public"."user_is_superadmin"()
+    OR "public"."user_has_permission"('manage_all_projects'::"text")
+    OR ("public"."user_has_permission"('manage_projects'::"text") AND "public"."user_is_project_assigned"("project_id"))
+);
+
+DROP POLICY IF EXISTS "task_required_skills_select" ON "public"."task_required_skills";
+CREATE POLICY "task_required_skills_select" ON "public"."task_required_skills"
+FOR SELECT USING (EXISTS (SELECT 1 FROM "public"."tasks" t WHERE t."id" = "task_required_skills"."task_id"));
+
+DROP POLICY IF EXISTS "task_required_skills_write" ON "public"."task_required_skills";
+CREATE POLICY "task_required_skills_write" ON "public"."task_required_skills"
+FOR ALL USING (EXISTS (SELECT 1 FROM "public"."tasks" t WHERE t."id" = "task_required_skills"."task_id"))
+WITH CHECK (EXISTS (SELECT 1 FROM "public"."tasks" t WHERE t."id" = "task_required_skills"."task_id"));
+
+GRANT ALL ON TABLE "public"."skills" TO "anon";
+GRANT ALL ON TABLE "public"."skills" TO "authenticated";
+GRANT ALL ON TABLE "public"."skills" TO "service_role";
+
+GRANT ALL ON TABLE "public"."user_skills" TO "anon";
+GRANT ALL ON TABLE "public"."user_skills" TO "authenticated";
+GRANT ALL ON TABLE "public"."user_skills" TO "service_role";
+
+GRANT ALL ON TABLE "public"."project_required_skills" TO "anon";
+GRANT ALL ON TABLE "public"."project_required_skills" TO "authenticated";
+GRANT ALL ON TABLE "public"."project_required_skills" TO "service_role";
+
+GRANT ALL ON TABLE "public"."task_required_skills" TO "anon";
+GRANT ALL ON TABLE "public"."task_required_skills" TO "authenticated";
+GRANT ALL ON TABLE "public"."task_required_skills" TO "service_role";